@@ -1,7 +1,7 @@
 // Blok Framework - Database Seeder
 // Seeds the database with demo users for development
 
-import { PrismaClient, Role } from './generated/prisma';
+import { PrismaClient } from './generated/prisma';
 import bcrypt from 'bcryptjs';
 
 const prisma = new PrismaClient();
@@ -21,7 +21,7 @@ async function main() {
       email: 'admin@example.com',
       passwordHash: adminPassword,
       name: 'Admin User',
-      role: Role.ADMIN,
+      role: 'ADMIN',
       emailVerified: true,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -36,13 +36,28 @@ async function main() {
       email: 'user@example.com',
       passwordHash: userPassword,
       name: 'Demo User',
-      role: Role.USER,
+      role: 'USER',
       emailVerified: true,
       createdAt: new Date(),
       updatedAt: new Date(),
     },
   });
 
+  // Both users belong to the default organization (created by the organizations migration)
+  const organization = await prisma.organization.upsert({
+    where: { slug: 'default' },
+    update: {},
+    create: { name: 'Default Organization', slug: 'default' },
+  });
+
+  for (const member of [admin, user]) {
+    await prisma.membership.upsert({
+      where: { userId_organizationId: { userId: member.id, organizationId: organization.id } },
+      update: {},
+      create: { userId: member.id, organizationId: organization.id, role: member.role },
+    });
+  }
+
   // Create welcome notifications for both users
   await prisma.notification.createMany({
     data: [
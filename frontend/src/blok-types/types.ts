@@ -12,11 +12,19 @@ export type WorkflowName =
   | 'auth-login'
   | 'auth-register'
   | 'auth-logout'
+  | 'auth-2fa-verify'
+  | 'auth-refresh'
+  | 'magic-link'
+  | 'oauth'
+  | 'passkeys'
   | 'verify-session'
   | 'protected-example'
+  | 'organizations'
+  | 'invitation-accept'
   | 'email-service-config'
   | 'email-verification'
   | 'password-reset'
+  | 'captured-emails'
   | 'profile-image-upload'
   | 'profile-update'
   | 'theme-preferences'
@@ -31,11 +39,19 @@ export type WorkflowName =
   | 'user-update'
   | 'user-delete'
   | 'admin-user-create'
+  | 'admin-user-sessions'
+  | 'admin-account-lockout'
+  | 'admin-disposable-domains'
+  | 'invitations'
+  | 'impersonate'
+  | 'email-change'
   | 'user-list-test'
   | 'user-find-test'
   | 'email-validation-test'
   | 'password-validation-test'
   | 'two-factor-auth'
+  | 'api-keys'
+  | 'user-sessions'
   | 'audit-logs'
   | 'rate-limit-test'
   | 'workflow-discovery';
@@ -48,11 +64,19 @@ export type WorkflowInputMap = {
   'auth-login': AuthLoginInput;
   'auth-register': AuthRegisterInput;
   'auth-logout': AuthLogoutInput;
+  'auth-2fa-verify': Auth2faVerifyInput;
+  'auth-refresh': AuthRefreshInput;
+  'magic-link': MagicLinkInput;
+  'oauth': OauthInput;
+  'passkeys': PasskeysInput;
   'verify-session': VerifySessionInput;
   'protected-example': ProtectedExampleInput;
+  'organizations': OrganizationsInput;
+  'invitation-accept': InvitationAcceptInput;
   'email-service-config': EmailServiceConfigInput;
   'email-verification': EmailVerificationInput;
   'password-reset': PasswordResetInput;
+  'captured-emails': CapturedEmailsInput;
   'profile-image-upload': ProfileImageUploadInput;
   'profile-update': ProfileUpdateInput;
   'theme-preferences': ThemePreferencesInput;
@@ -67,11 +91,19 @@ export type WorkflowInputMap = {
   'user-update': UserUpdateInput;
   'user-delete': UserDeleteInput;
   'admin-user-create': AdminUserCreateInput;
+  'admin-user-sessions': AdminUserSessionsInput;
+  'admin-account-lockout': AdminAccountLockoutInput;
+  'admin-disposable-domains': AdminDisposableDomainsInput;
+  'invitations': InvitationsInput;
+  'impersonate': ImpersonateInput;
+  'email-change': EmailChangeInput;
   'user-list-test': UserListTestInput;
   'user-find-test': UserFindTestInput;
   'email-validation-test': EmailValidationTestInput;
   'password-validation-test': PasswordValidationTestInput;
   'two-factor-auth': TwoFactorAuthInput;
+  'api-keys': ApiKeysInput;
+  'user-sessions': UserSessionsInput;
   'audit-logs': AuditLogsInput;
   'rate-limit-test': RateLimitTestInput;
   'workflow-discovery': WorkflowDiscoveryInput;
@@ -85,11 +117,19 @@ export type WorkflowOutputMap = {
   'auth-login': AuthLoginOutput;
   'auth-register': AuthRegisterOutput;
   'auth-logout': AuthLogoutOutput;
+  'auth-2fa-verify': Auth2faVerifyOutput;
+  'auth-refresh': AuthRefreshOutput;
+  'magic-link': MagicLinkOutput;
+  'oauth': OauthOutput;
+  'passkeys': PasskeysOutput;
   'verify-session': VerifySessionOutput;
   'protected-example': ProtectedExampleOutput;
+  'organizations': OrganizationsOutput;
+  'invitation-accept': InvitationAcceptOutput;
   'email-service-config': EmailServiceConfigOutput;
   'email-verification': EmailVerificationOutput;
   'password-reset': PasswordResetOutput;
+  'captured-emails': CapturedEmailsOutput;
   'profile-image-upload': ProfileImageUploadOutput;
   'profile-update': ProfileUpdateOutput;
   'theme-preferences': ThemePreferencesOutput;
@@ -104,11 +144,19 @@ export type WorkflowOutputMap = {
   'user-update': UserUpdateOutput;
   'user-delete': UserDeleteOutput;
   'admin-user-create': AdminUserCreateOutput;
+  'admin-user-sessions': AdminUserSessionsOutput;
+  'admin-account-lockout': AdminAccountLockoutOutput;
+  'admin-disposable-domains': AdminDisposableDomainsOutput;
+  'invitations': InvitationsOutput;
+  'impersonate': ImpersonateOutput;
+  'email-change': EmailChangeOutput;
   'user-list-test': UserListTestOutput;
   'user-find-test': UserFindTestOutput;
   'email-validation-test': EmailValidationTestOutput;
   'password-validation-test': PasswordValidationTestOutput;
   'two-factor-auth': TwoFactorAuthOutput;
+  'api-keys': ApiKeysOutput;
+  'user-sessions': UserSessionsOutput;
   'audit-logs': AuditLogsOutput;
   'rate-limit-test': RateLimitTestOutput;
   'workflow-discovery': WorkflowDiscoveryOutput;
@@ -219,6 +267,10 @@ export interface AuthLoginOutput {
      * Whether user's email is verified
      */
     emailVerified: boolean;
+    /**
+     * Whether the password is older than PASSWORD_MAX_AGE_DAYS and must be changed first
+     */
+    passwordExpired?: boolean;
     [k: string]: unknown;
   };
   /**
@@ -239,6 +291,34 @@ export interface AuthLoginOutput {
     expiresAt: string;
     [k: string]: unknown;
   };
+  /**
+   * Whether a second factor is required to complete the login
+   */
+  twoFactorRequired?: boolean;
+  /**
+   * Short-lived challenge to exchange for a session via auth-2fa-verify (only present when twoFactorRequired)
+   */
+  challengeToken?: string;
+  /**
+   * Challenge expiration timestamp
+   */
+  challengeExpiresAt?: string;
+  /**
+   * End of the account lockout (only present with status 423)
+   */
+  lockedUntil?: string;
+  /**
+   * Seconds to wait before the next attempt (only present with status 423 or 429)
+   */
+  retryAfter?: number;
+  /**
+   * The password was correct but the email address must be verified first (EMAIL_VERIFICATION_POLICY=block)
+   */
+  emailVerificationRequired?: boolean;
+  /**
+   * Machine-readable reason for a refused login, e.g. EMAIL_NOT_VERIFIED
+   */
+  code?: string;
   /**
    * Human-readable result message
    */
@@ -246,7 +326,7 @@ export interface AuthLoginOutput {
   /**
    * HTTP status code
    */
-  statusCode: 200 | 400 | 401 | 500;
+  statusCode: 200 | 202 | 400 | 401 | 403 | 423 | 429 | 500;
   [k: string]: unknown;
 }
 
@@ -351,6 +431,441 @@ export interface AuthLogoutParams {
   };
 }
 
+export interface Auth2faVerifyInput {
+  challengeToken: string;
+  /**
+   * TOTP code from the authenticator app or a backup code
+   */
+  code?: string;
+  /**
+   * Passkey assertion for options from the passkeys secondFactorOptions action (instead of code)
+   */
+  assertion?: {
+    [k: string]: unknown;
+  };
+}
+
+export interface Auth2faVerifyOutput {
+  /**
+   * Whether the login was completed
+   */
+  success: boolean;
+  /**
+   * Logged in user information (only present on success)
+   */
+  user?: {
+    /**
+     * Unique user identifier
+     */
+    id: string;
+    /**
+     * User's email address
+     */
+    email: string;
+    /**
+     * User's full name
+     */
+    name: string;
+    /**
+     * User's role
+     */
+    role: string;
+    /**
+     * Whether user's email is verified
+     */
+    emailVerified: boolean;
+    [k: string]: unknown;
+  };
+  /**
+   * Created session information (only present on success)
+   */
+  session?: {
+    /**
+     * Unique session identifier
+     */
+    id: string;
+    /**
+     * Session token
+     */
+    token: string;
+    /**
+     * Session expiration timestamp
+     */
+    expiresAt: string;
+    [k: string]: unknown;
+  };
+  /**
+   * Second factor that was used
+   */
+  method?: 'totp' | 'backup_code' | 'passkey';
+  /**
+   * Backup codes left (only present when a backup code was used)
+   */
+  codesRemaining?: number;
+  /**
+   * Whether the challenge is no longer usable and the password step must be repeated
+   */
+  challengeExpired?: boolean;
+  /**
+   * Human-readable result message
+   */
+  message: string;
+  /**
+   * HTTP status code
+   */
+  statusCode: 200 | 400 | 401 | 500;
+  [k: string]: unknown;
+}
+
+export interface Auth2faVerifyParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
+export interface AuthRefreshInput {
+  [k: string]: unknown;
+}
+
+export interface AuthRefreshOutput {
+  /**
+   * Whether a new session was issued
+   */
+  success: boolean;
+  /**
+   * Signed-in user (only present on success)
+   */
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+    role: string;
+    emailVerified: boolean;
+    [k: string]: unknown;
+  };
+  /**
+   * New session (only present on success)
+   */
+  session?: {
+    id: string;
+    token: string;
+    expiresAt: string;
+    [k: string]: unknown;
+  };
+  /**
+   * The refresh token had already been used; every session of its login was revoked
+   */
+  reuseDetected?: boolean;
+  /**
+   * Human-readable result message
+   */
+  message: string;
+  /**
+   * HTTP status code
+   */
+  statusCode: 200 | 401 | 404;
+  [k: string]: unknown;
+}
+
+export interface AuthRefreshParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
+export interface MagicLinkInput {
+  /**
+   * request (from the login page) or verify (from the emailed link)
+   */
+  action: 'request' | 'verify';
+  /**
+   * Address to send the sign-in link to (request)
+   */
+  email?: string;
+  /**
+   * Token from the emailed link (verify)
+   */
+  token?: string;
+  siteName?: string;
+  [k: string]: unknown;
+}
+
+export interface MagicLinkOutput {
+  /**
+   * Whether the link was sent (request) or a session was created (verify)
+   */
+  success: boolean;
+  /**
+   * Signed-in user (verify, only present on success)
+   */
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+    role: string;
+    emailVerified: boolean;
+    [k: string]: unknown;
+  };
+  /**
+   * New session (verify, only present on success)
+   */
+  session?: {
+    id: string;
+    token: string;
+    expiresAt: string;
+    [k: string]: unknown;
+  };
+  /**
+   * The link was accepted but the account needs its second factor
+   */
+  twoFactorRequired?: boolean;
+  /**
+   * Challenge to exchange for a session via auth-2fa-verify (only present when twoFactorRequired)
+   */
+  challengeToken?: string;
+  challengeExpiresAt?: string;
+  /**
+   * Seconds to wait before signing in again (locked account or blocked IP)
+   */
+  retryAfter?: number;
+  /**
+   * Human-readable result message
+   */
+  message: string;
+  /**
+   * HTTP status code
+   */
+  statusCode: 200 | 202 | 400 | 403 | 423 | 429;
+  [k: string]: unknown;
+}
+
+export interface MagicLinkParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
+export interface OauthInput {
+  /**
+   * providers (login page buttons), authorize (start a sign-in or link), callback
+   * (provider redirect), accounts or unlink (Security page)
+   */
+  action: 'providers' | 'authorize' | 'callback' | 'accounts' | 'unlink';
+  /**
+   * Provider id from OIDC_PROVIDERS (authorize)
+   */
+  provider?: string;
+  /**
+   * Connect the provider to the signed-in user instead of signing in (authorize)
+   */
+  link?: boolean;
+  /**
+   * Frontend origin hosting the /oauth-callback page (authorize)
+   */
+  baseUrl?: string;
+  /**
+   * Authorization code and state from the provider's redirect (callback)
+   */
+  code?: string;
+  state?: string;
+  /**
+   * Connected account to remove (unlink)
+   */
+  accountId?: string;
+  [k: string]: unknown;
+}
+
+export interface OauthOutput {
+  success: boolean;
+  /**
+   * Configured sign-in providers (providers)
+   */
+  providers?: {
+    id: string;
+    name: string;
+    [k: string]: unknown;
+  }[];
+  /**
+   * Provider URL to send the browser to (authorize)
+   */
+  authorizationUrl?: string;
+  /**
+   * The signed-in user's connected accounts (accounts)
+   */
+  accounts?: {
+    id: string;
+    provider: string;
+    providerName: string;
+    email: string | null;
+    lastLoginAt: string | null;
+    createdAt: string;
+    [k: string]: unknown;
+  }[];
+  /**
+   * The provider was connected to the signed-in user (callback)
+   */
+  linked?: boolean;
+  /**
+   * Signed-in user (callback, only present on success)
+   */
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+    role: string;
+    emailVerified: boolean;
+    [k: string]: unknown;
+  };
+  session?: {
+    id: string;
+    token: string;
+    expiresAt: string;
+    [k: string]: unknown;
+  };
+  /**
+   * The provider accepted the sign-in but the account needs its second factor
+   */
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+  challengeExpiresAt?: string;
+  /**
+   * The account must verify its email address before signing in
+   */
+  emailVerificationRequired?: boolean;
+  code?: string;
+  /**
+   * Seconds to wait before signing in again (locked account or blocked IP)
+   */
+  retryAfter?: number;
+  /**
+   * Human-readable result message
+   */
+  message: string;
+  statusCode?: number;
+  [k: string]: unknown;
+}
+
+export interface OauthParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
+export interface PasskeysInput {
+  /**
+   * registerOptions / register, list, rename, remove (signed in), loginOptions / login
+   * (login page) or secondFactorOptions (2FA step of a login)
+   */
+  action: 'registerOptions' | 'register' | 'list' | 'rename' | 'remove' | 'loginOptions' | 'login' | 'secondFactorOptions';
+  /**
+   * PublicKeyCredential from the browser, as JSON with base64url binary fields (register, login)
+   */
+  credential?: {
+    [k: string]: unknown;
+  };
+  /**
+   * Label for the passkey (register, rename)
+   */
+  name?: string;
+  /**
+   * Passkey to rename or remove
+   */
+  passkeyId?: string;
+  /**
+   * Pending 2FA challenge from a login (secondFactorOptions)
+   */
+  challengeToken?: string;
+  [k: string]: unknown;
+}
+
+export interface PasskeysOutput {
+  success: boolean;
+  /**
+   * Options for navigator.credentials.create() or .get(), binary fields base64url-encoded
+   */
+  options?: {
+    challenge: string;
+    [k: string]: unknown;
+  };
+  /**
+   * Registered or renamed passkey
+   */
+  passkey?: PasskeySummary;
+  /**
+   * The signed-in user's passkeys (list)
+   */
+  passkeys?: PasskeySummary[];
+  /**
+   * Signed-in user (login, only present on success)
+   */
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+    role: string;
+    emailVerified: boolean;
+    [k: string]: unknown;
+  };
+  session?: {
+    id: string;
+    token: string;
+    expiresAt: string;
+    [k: string]: unknown;
+  };
+  /**
+   * The authenticator did not verify the user and the account needs its second factor
+   */
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+  challengeExpiresAt?: string;
+  /**
+   * The account must verify its email address before signing in
+   */
+  emailVerificationRequired?: boolean;
+  code?: string;
+  /**
+   * Seconds to wait before signing in again (locked account or blocked IP)
+   */
+  retryAfter?: number;
+  /**
+   * Human-readable result message
+   */
+  message: string;
+  statusCode?: number;
+  [k: string]: unknown;
+}
+
+export interface PasskeySummary {
+  id: string;
+  name: string;
+  attestationFormat: string;
+  transports: string[];
+  /**
+   * Whether the passkey can be synced between devices, and whether it is
+   */
+  backupEligible: boolean;
+  backedUp: boolean;
+  lastUsedAt: string | null;
+  createdAt: string;
+  [k: string]: unknown;
+}
+
+export interface PasskeysParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
 export interface VerifySessionInput {
   [k: string]: unknown;
 }
@@ -384,6 +899,10 @@ export interface VerifySessionOutput {
      * Whether user's email is verified
      */
     emailVerified: boolean;
+    /**
+     * Whether the password is older than PASSWORD_MAX_AGE_DAYS and must be changed first
+     */
+    passwordExpired?: boolean;
     [k: string]: unknown;
   };
   /**
@@ -487,6 +1006,118 @@ export interface ProtectedExampleParams {
   };
 }
 
+export interface OrganizationsInput {
+  /**
+   * list (default), switch or create
+   */
+  action?: 'list' | 'switch' | 'create';
+  /**
+   * Organization to make active (switch)
+   */
+  organizationId?: string;
+  /**
+   * Name of the new organization (create)
+   */
+  name?: string;
+  /**
+   * URL-safe identifier of the new organization (create), derived from the name by default
+   */
+  slug?: string;
+  [k: string]: unknown;
+}
+
+export interface OrganizationEntry {
+  id: string;
+  name: string;
+  slug: string;
+  /**
+   * The user's role in this organization
+   */
+  role: string;
+  memberCount: number;
+  /**
+   * Active organization of this session
+   */
+  current: boolean;
+  createdAt: string;
+}
+
+export interface OrganizationsOutput {
+  success: boolean;
+  message: string;
+  organizations: OrganizationEntry[];
+  currentOrganizationId: string | null;
+  /**
+   * The user's permissions in the active organization (switch, create)
+   */
+  permissions?: string[];
+  [k: string]: unknown;
+}
+
+export interface OrganizationsParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
+export interface InvitationAcceptInput {
+  /**
+   * preview (default) or accept
+   */
+  action?: 'preview' | 'accept';
+  /**
+   * Token from the invite link
+   */
+  token: string;
+  /**
+   * Full name of the new user (accept)
+   */
+  name?: string;
+  /**
+   * Password of the new user (accept)
+   */
+  password?: string;
+  [k: string]: unknown;
+}
+
+export interface InvitationPreview {
+  email: string;
+  name: string | null;
+  role: string;
+  inviterName: string;
+  organizationName: string | null;
+  expiresAt: string;
+}
+
+export interface InvitationAcceptOutput {
+  success: boolean;
+  message: string;
+  /**
+   * The pending invitation (preview)
+   */
+  invitation?: InvitationPreview;
+  /**
+   * The account created on acceptance
+   */
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+    role: string;
+  };
+  [k: string]: unknown;
+}
+
+export interface InvitationAcceptParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
 export interface EmailServiceConfigInput {
   [k: string]: unknown;
 }
@@ -504,7 +1135,7 @@ export type EmailServiceConfigOutput =
       /**
        * Configured email provider
        */
-      provider: 'resend' | 'sendgrid' | 'nodemailer' | 'mailtrap' | 'postmark';
+      provider: 'resend' | 'sendgrid' | 'nodemailer' | 'smtp' | 'capture' | 'mailtrap' | 'postmark';
       [k: string]: unknown;
     }
   | {
@@ -552,7 +1183,7 @@ export type EmailServiceConfigOutput =
         /**
          * Tested provider
          */
-        provider: 'resend' | 'sendgrid' | 'nodemailer' | 'mailtrap' | 'postmark';
+        provider: 'resend' | 'sendgrid' | 'nodemailer' | 'smtp' | 'capture' | 'mailtrap' | 'postmark';
         /**
          * Additional test details
          */
@@ -573,7 +1204,7 @@ export type EmailServiceConfigOutput =
         /**
          * Configured email provider
          */
-        provider: 'resend' | 'sendgrid' | 'nodemailer' | 'mailtrap' | 'postmark';
+        provider: 'resend' | 'sendgrid' | 'nodemailer' | 'smtp' | 'capture' | 'mailtrap' | 'postmark';
         /**
          * Default from email address
          */
@@ -631,7 +1262,7 @@ export type EmailVerificationOutput =
       /**
        * Verification result message
        */
-      message: 'Email verified successfully' | 'Invalid or expired token';
+      message: 'Email verified successfully' | 'Token is valid' | 'Invalid or expired token';
       /**
        * Whether the token is valid
        */
@@ -644,6 +1275,14 @@ export type EmailVerificationOutput =
        * Email address that was verified
        */
       email?: string;
+      /**
+       * Name of the user the token belongs to
+       */
+      userName?: string;
+      /**
+       * Purpose the token was issued for
+       */
+      purpose?: 'verify-email' | 'password-reset' | 'change-email' | 'revert-email-change';
       [k: string]: unknown;
     }
   | {
@@ -668,6 +1307,18 @@ export type EmailVerificationOutput =
        */
       emailSent: boolean;
       [k: string]: unknown;
+    }
+  | {
+      /**
+       * Result of the verify and request operations
+       */
+      success: boolean;
+      message: string;
+      /**
+       * Address that was verified (verify)
+       */
+      email?: string;
+      [k: string]: unknown;
     };
 
 export interface EmailVerificationParams {
@@ -708,7 +1359,81 @@ export interface PasswordResetOutput {
   [k: string]: unknown;
 }
 
-export interface PasswordResetParams {
+export interface PasswordResetParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
+export interface CapturedEmailsInput {
+  /**
+   * list (default), get or clear
+   */
+  action?: 'list' | 'get' | 'clear';
+  /**
+   * Captured message id (for get)
+   */
+  id?: string;
+  /**
+   * Only list messages sent to this address
+   */
+  to?: string;
+  /**
+   * Maximum number of messages to list
+   */
+  limit?: number;
+  [k: string]: unknown;
+}
+
+export interface CapturedEmailEntry {
+  id: string;
+  messageId: string;
+  from: string;
+  to: string[];
+  subject: string;
+  capturedAt: string;
+  file: string;
+  size: number;
+}
+
+export type CapturedEmailsOutput =
+  | {
+      success: true;
+      /**
+       * Directory the capture provider writes to
+       */
+      captureDir: string;
+      /**
+       * Captured messages, newest first
+       */
+      emails: CapturedEmailEntry[];
+      [k: string]: unknown;
+    }
+  | {
+      success: true;
+      /**
+       * Captured message with decoded bodies
+       */
+      email: CapturedEmailEntry & {
+        text: string | null;
+        html: string | null;
+        links: string[];
+        raw: string;
+      };
+      [k: string]: unknown;
+    }
+  | {
+      success: true;
+      /**
+       * Number of deleted messages
+       */
+      deleted: number;
+      [k: string]: unknown;
+    };
+
+export interface CapturedEmailsParams {
   query?: {
     page?: number;
     limit?: number;
@@ -1349,6 +2074,28 @@ export interface UserRoleManagementInput {
   [k: string]: unknown;
 }
 
+export interface RoleEntry {
+  id: string;
+  name: string;
+  description: string | null;
+  isSystem: boolean;
+  /**
+   * Shared by every organization (only platform administrators can change it)
+   */
+  shared: boolean;
+  permissions: string[];
+  userCount: number;
+  createdAt: string;
+  updatedAt: string;
+  [k: string]: unknown;
+}
+
+export interface PermissionEntry {
+  key: string;
+  description: string;
+  [k: string]: unknown;
+}
+
 export type UserRoleManagementOutput =
   | {
       /**
@@ -1367,11 +2114,11 @@ export type UserRoleManagementOutput =
         /**
          * Previous role of the user
          */
-        oldRole: 'admin' | 'user';
+        oldRole: string;
         /**
          * New role assigned to the user
          */
-        newRole: 'admin' | 'user';
+        newRole: string;
         /**
          * Timestamp when the role was updated
          */
@@ -1405,11 +2152,11 @@ export type UserRoleManagementOutput =
           /**
            * Previous role
            */
-          oldRole: 'admin' | 'user';
+          oldRole: string;
           /**
            * New role
            */
-          newRole: 'admin' | 'user';
+          newRole: string;
           [k: string]: unknown;
         }[];
         /**
@@ -1464,6 +2211,12 @@ export type UserRoleManagementOutput =
          * Number of regular users
          */
         regularUsers: number;
+        /**
+         * Number of users per role name
+         */
+        byRole: {
+          [k: string]: number;
+        };
         /**
          * Recent role changes for audit purposes
          */
@@ -1479,11 +2232,11 @@ export type UserRoleManagementOutput =
           /**
            * Previous role
            */
-          oldRole: 'admin' | 'user';
+          oldRole: string;
           /**
            * New role
            */
-          newRole: 'admin' | 'user';
+          newRole: string;
           /**
            * When the role was changed
            */
@@ -1497,6 +2250,22 @@ export type UserRoleManagementOutput =
         [k: string]: unknown;
       };
       [k: string]: unknown;
+    }
+  | {
+      success: boolean;
+      message: string;
+      data: {
+        /**
+         * All roles after the operation
+         */
+        roles: RoleEntry[];
+        /**
+         * Permission catalogue
+         */
+        permissions: PermissionEntry[];
+        [k: string]: unknown;
+      };
+      [k: string]: unknown;
     };
 
 export interface UserRoleManagementParams {
@@ -1507,65 +2276,310 @@ export interface UserRoleManagementParams {
   };
 }
 
-export interface UserUpdateInput {
-  [k: string]: unknown;
-}
-
-export interface UserUpdateOutput {
+export interface UserUpdateInput {
+  [k: string]: unknown;
+}
+
+export interface UserUpdateOutput {
+  /**
+   * Whether the user was updated successfully
+   */
+  success: boolean;
+  /**
+   * Updated user information (only present on success)
+   */
+  user?: {
+    /**
+     * Unique user identifier
+     */
+    id: string;
+    /**
+     * User's email address
+     */
+    email: string;
+    /**
+     * User's full name
+     */
+    name: string;
+    /**
+     * User's role
+     */
+    role: 'ADMIN' | 'USER';
+    /**
+     * Whether user's email is verified
+     */
+    emailVerified: boolean;
+    /**
+     * Account creation timestamp
+     */
+    createdAt: string;
+    /**
+     * Last update timestamp
+     */
+    updatedAt: string;
+    [k: string]: unknown;
+  };
+  /**
+   * Human-readable result message
+   */
+  message: string;
+  /**
+   * HTTP status code
+   */
+  statusCode: 200 | 400 | 404 | 409 | 500;
+  /**
+   * List of fields that were updated
+   */
+  fieldsUpdated: ('email' | 'name' | 'role' | 'emailVerified' | 'password')[];
+  [k: string]: unknown;
+}
+
+export interface UserUpdateParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
+export interface UserDeleteInput {
+  [k: string]: unknown;
+}
+
+export interface UserDeleteOutput {
+  /**
+   * Whether the user was deleted successfully
+   */
+  success: boolean;
+  /**
+   * Deleted user information (only present on success)
+   */
+  deletedUser?: {
+    /**
+     * Unique user identifier
+     */
+    id: string;
+    /**
+     * User's email address
+     */
+    email: string;
+    /**
+     * User's full name
+     */
+    name: string;
+    /**
+     * User's role
+     */
+    role: 'ADMIN' | 'USER';
+    /**
+     * Deletion timestamp
+     */
+    deletedAt: string;
+    [k: string]: unknown;
+  };
+  /**
+   * Human-readable result message
+   */
+  message: string;
+  /**
+   * HTTP status code
+   */
+  statusCode: 200 | 400 | 404 | 500;
+  /**
+   * Number of associated sessions deleted
+   */
+  sessionsDeleted: number;
+  [k: string]: unknown;
+}
+
+export interface UserDeleteParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
+export interface AdminUserCreateInput {
+  page?: number;
+  limit?: number;
+  search?: string;
+  role?: 'user' | 'admin';
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface AdminUserCreateOutput {
+  success: boolean;
+  data?: {
+    [k: string]: unknown;
+  };
+  message?: string;
+  statusCode?: number;
+  [k: string]: unknown;
+}
+
+export interface AdminUserCreateParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
+export interface AdminUserSessionsInput {
+  /**
+   * list (default) or revoke-all
+   */
+  action?: 'list' | 'revoke-all';
+  userId: string;
+  [k: string]: unknown;
+}
+
+export type AdminUserSessionsOutput = UserSessionsOutput;
+
+export interface AdminUserSessionsParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
+export interface AdminAccountLockoutInput {
+  /**
+   * list (default) or unlock
+   */
+  action?: 'list' | 'unlock';
+  /**
+   * Account to unlock (unlock)
+   */
+  userId?: string;
+  [k: string]: unknown;
+}
+
+export interface LockedAccountEntry {
+  userId: string;
+  email: string;
+  name: string;
+  lockedUntil: string;
+  lockoutCount: number;
+  [k: string]: unknown;
+}
+
+export interface AdminAccountLockoutOutput {
+  success: boolean;
+  message: string;
+  /**
+   * Currently locked accounts, soonest unlock first (list)
+   */
+  lockedAccounts?: LockedAccountEntry[];
+  [k: string]: unknown;
+}
+
+export interface AdminAccountLockoutParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
+export interface AdminDisposableDomainsInput {
+  /**
+   * status (default) or refresh
+   */
+  action?: 'status' | 'refresh';
+  /**
+   * Download the list from here instead of DISPOSABLE_EMAIL_DOMAINS_URL (refresh)
+   */
+  url?: string;
+  [k: string]: unknown;
+}
+
+export interface DisposableDomainListInfo {
+  count: number;
+  source: 'file' | 'built-in';
+  file: string;
+  loadedAt: string;
+  downloadedFrom?: string;
+  [k: string]: unknown;
+}
+
+export interface AdminDisposableDomainsOutput {
+  success: boolean;
+  message: string;
+  /**
+   * The disposable domain list in use
+   */
+  list?: DisposableDomainListInfo;
+  [k: string]: unknown;
+}
+
+export interface AdminDisposableDomainsParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
+export interface InvitationsInput {
   /**
-   * Whether the user was updated successfully
+   * list (default), create, resend or revoke
    */
-  success: boolean;
+  action?: 'list' | 'create' | 'resend' | 'revoke';
   /**
-   * Updated user information (only present on success)
+   * Email address to invite (create)
    */
-  user?: {
-    /**
-     * Unique user identifier
-     */
+  email?: string;
+  /**
+   * Suggested name for the invitee (create)
+   */
+  name?: string;
+  /**
+   * Role granted when the invitation is accepted (create)
+   */
+  role?: string;
+  /**
+   * Invitation to resend or revoke
+   */
+  invitationId?: string;
+  [k: string]: unknown;
+}
+
+export interface InvitationEntry {
+  id: string;
+  email: string;
+  name: string | null;
+  role: string;
+  status: 'pending' | 'expired';
+  invitedBy: {
     id: string;
-    /**
-     * User's email address
-     */
-    email: string;
-    /**
-     * User's full name
-     */
     name: string;
-    /**
-     * User's role
-     */
-    role: 'ADMIN' | 'USER';
-    /**
-     * Whether user's email is verified
-     */
-    emailVerified: boolean;
-    /**
-     * Account creation timestamp
-     */
-    createdAt: string;
-    /**
-     * Last update timestamp
-     */
-    updatedAt: string;
-    [k: string]: unknown;
+    email: string;
   };
-  /**
-   * Human-readable result message
-   */
+  expiresAt: string;
+  lastSentAt: string;
+  sendCount: number;
+  createdAt: string;
+}
+
+export interface InvitationsOutput {
+  success: boolean;
   message: string;
   /**
-   * HTTP status code
+   * Created or resent invitation
    */
-  statusCode: 200 | 400 | 404 | 409 | 500;
+  invitation?: InvitationEntry;
   /**
-   * List of fields that were updated
+   * Invitations not yet accepted or revoked (list)
    */
-  fieldsUpdated: ('email' | 'name' | 'role' | 'emailVerified' | 'password')[];
+  invitations?: InvitationEntry[];
   [k: string]: unknown;
 }
 
-export interface UserUpdateParams {
+export interface InvitationsParams {
   query?: {
     page?: number;
     limit?: number;
@@ -1573,57 +2587,47 @@ export interface UserUpdateParams {
   };
 }
 
-export interface UserDeleteInput {
+export interface ImpersonateInput {
+  /**
+   * start (default) or stop
+   */
+  action?: 'start' | 'stop';
+  /**
+   * User to impersonate (start)
+   */
+  userId?: string;
+  /**
+   * Reason recorded in the audit trail (start)
+   */
+  reason?: string;
   [k: string]: unknown;
 }
 
-export interface UserDeleteOutput {
-  /**
-   * Whether the user was deleted successfully
-   */
+export interface ImpersonateOutput {
   success: boolean;
+  message: string;
   /**
-   * Deleted user information (only present on success)
+   * The impersonated user (start)
    */
-  deletedUser?: {
-    /**
-     * Unique user identifier
-     */
+  user?: {
     id: string;
-    /**
-     * User's email address
-     */
     email: string;
-    /**
-     * User's full name
-     */
     name: string;
-    /**
-     * User's role
-     */
-    role: 'ADMIN' | 'USER';
-    /**
-     * Deletion timestamp
-     */
-    deletedAt: string;
+    role: string;
     [k: string]: unknown;
   };
   /**
-   * Human-readable result message
-   */
-  message: string;
-  /**
-   * HTTP status code
+   * When the impersonation session ends at the latest (start)
    */
-  statusCode: 200 | 400 | 404 | 500;
+  expiresAt?: string;
   /**
-   * Number of associated sessions deleted
+   * Whether the administrator's own session was restored (stop)
    */
-  sessionsDeleted: number;
+  restored?: boolean;
   [k: string]: unknown;
 }
 
-export interface UserDeleteParams {
+export interface ImpersonateParams {
   query?: {
     page?: number;
     limit?: number;
@@ -1631,26 +2635,42 @@ export interface UserDeleteParams {
   };
 }
 
-export interface AdminUserCreateInput {
-  page?: number;
-  limit?: number;
-  search?: string;
-  role?: 'user' | 'admin';
-  sortBy?: string;
-  sortOrder?: 'asc' | 'desc';
+export interface EmailChangeInput {
+  /**
+   * request (signed in), confirm or undo (from the email links)
+   */
+  action: 'request' | 'confirm' | 'undo';
+  /**
+   * Address to change to (request)
+   */
+  newEmail?: string;
+  /**
+   * The user's current password (request)
+   */
+  currentPassword?: string;
+  /**
+   * Token from the confirmation or undo link (confirm, undo)
+   */
+  token?: string;
+  siteName?: string;
+  [k: string]: unknown;
 }
 
-export interface AdminUserCreateOutput {
+export interface EmailChangeOutput {
   success: boolean;
-  data?: {
-    [k: string]: unknown;
-  };
-  message?: string;
-  statusCode?: number;
+  message: string;
+  /**
+   * The account's email address once this step is done
+   */
+  email?: string;
+  /**
+   * Address waiting for confirmation (request)
+   */
+  pendingEmail?: string;
   [k: string]: unknown;
 }
 
-export interface AdminUserCreateParams {
+export interface EmailChangeParams {
   query?: {
     page?: number;
     limit?: number;
@@ -1860,11 +2880,15 @@ export interface EmailValidationTestOutput {
        */
       disposable: boolean;
       /**
-       * Whether the domain has valid MX records
+       * Whether the domain has MX (or A/AAAA) records; null when not checked or DNS did not answer
        */
-      mx: boolean;
+      mx: boolean | null;
       [k: string]: unknown;
     };
+    /**
+     * Corrected address when the domain looks like a typo (e.g. gmial.com → gmail.com)
+     */
+    suggestion: string | null;
     /**
      * List of validation errors
      */
@@ -1913,9 +2937,35 @@ export interface PasswordValidationTestOutput {
      */
     strength: 'weak' | 'fair' | 'good' | 'strong' | 'very-strong';
     /**
-     * Password strength score (0-100)
+     * Password strength score (0-100) from the estimated number of guesses
      */
     score: number;
+    /**
+     * How many times the password appears in the breached-password corpus (null without a corpus)
+     */
+    breachCount: number | null;
+    /**
+     * zxcvbn-style strength estimate
+     */
+    estimate: {
+      /**
+       * Estimated guesses to crack, log10
+       */
+      guessesLog10: number;
+      /**
+       * 0 (too guessable) to 4 (very unguessable)
+       */
+      score: number;
+      /**
+       * Offline attack against a slow hash at 10^4 guesses/second
+       */
+      crackTimeSeconds: number;
+      /**
+       * Patterns the password was broken into
+       */
+      patterns: ('dictionary' | 'spatial' | 'sequence' | 'repeat' | 'date' | 'bruteforce')[];
+      [k: string]: unknown;
+    };
     /**
      * List of validation errors
      */
@@ -2110,6 +3160,44 @@ export type TwoFactorAuthOutput =
         [k: string]: unknown;
       };
       [k: string]: unknown;
+    }
+  | {
+      /**
+       * Whether the status lookup was successful
+       */
+      success: boolean;
+      /**
+       * Status result message
+       */
+      message: string;
+      data: {
+        /**
+         * Whether 2FA is enabled for the user
+         */
+        enabled: boolean;
+        /**
+         * Number of unused backup codes
+         */
+        codesRemaining: number;
+        /**
+         * Number of backup codes in the current set
+         */
+        codesTotal: number;
+        /**
+         * Number of registered passkeys
+         */
+        passkeys: number;
+        /**
+         * When the current backup code set was generated
+         */
+        generatedAt: string | null;
+        /**
+         * ID of the user
+         */
+        userId: string;
+        [k: string]: unknown;
+      };
+      [k: string]: unknown;
     };
 
 export interface TwoFactorAuthParams {
@@ -2120,6 +3208,134 @@ export interface TwoFactorAuthParams {
   };
 }
 
+export interface ApiKeysInput {
+  /**
+   * list (default), create or revoke
+   */
+  action?: 'list' | 'create' | 'revoke';
+  /**
+   * Display name for a new key (create)
+   */
+  name?: string;
+  /**
+   * Scopes granted to a new key (create)
+   */
+  scopes?: Array<'read' | 'write' | 'admin'>;
+  /**
+   * Days until a new key expires, null for no expiry (create)
+   */
+  expiresInDays?: number | null;
+  /**
+   * Key to revoke (revoke)
+   */
+  keyId?: string;
+  [k: string]: unknown;
+}
+
+export interface ApiKeyEntry {
+  id: string;
+  name: string;
+  /**
+   * Non-secret identifier, e.g. "blok_3f9a1c2e"
+   */
+  prefix: string;
+  scopes: Array<'read' | 'write' | 'admin'>;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  status: 'active' | 'expired' | 'revoked';
+}
+
+export type ApiKeysOutput =
+  | {
+      success: true;
+      message: string;
+      apiKeys: ApiKeyEntry[];
+      /**
+       * Scopes the current user may grant
+       */
+      availableScopes: Array<'read' | 'write' | 'admin'>;
+      [k: string]: unknown;
+    }
+  | {
+      success: true;
+      message: string;
+      /**
+       * Plaintext key, only returned once
+       */
+      key: string;
+      apiKey: ApiKeyEntry;
+      [k: string]: unknown;
+    }
+  | {
+      success: boolean;
+      message: string;
+      [k: string]: unknown;
+    };
+
+export interface ApiKeysParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
+export interface UserSessionsInput {
+  /**
+   * list (default), revoke or revoke-others
+   */
+  action?: 'list' | 'revoke' | 'revoke-others';
+  /**
+   * Session to revoke (revoke)
+   */
+  sessionId?: string;
+  [k: string]: unknown;
+}
+
+export interface UserSessionEntry {
+  id: string;
+  /**
+   * e.g. "Chrome on macOS"
+   */
+  device: string;
+  browser: string;
+  os: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastActivityAt: string;
+  createdAt: string;
+  expiresAt: string;
+  /**
+   * The session making this request
+   */
+  current: boolean;
+}
+
+export type UserSessionsOutput =
+  | {
+      success: true;
+      message: string;
+      sessions: UserSessionEntry[];
+      [k: string]: unknown;
+    }
+  | {
+      success: boolean;
+      message: string;
+      sessionsRevoked?: number;
+      [k: string]: unknown;
+    };
+
+export interface UserSessionsParams {
+  query?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  };
+}
+
 export interface AuditLogsInput {
   [k: string]: unknown;
 }
@@ -2156,6 +3372,10 @@ export interface RateLimitTestOutput {
      * Whether this request is allowed
      */
     isAllowed: boolean;
+    /**
+     * Rate limiting algorithm that was applied
+     */
+    algorithm?: 'sliding-log' | 'sliding-window-counter' | 'token-bucket';
     /**
      * Current number of requests in the time window
      */
@@ -2177,9 +3397,9 @@ export interface RateLimitTestOutput {
      */
     retryAfter: number;
     /**
-     * Unix timestamp when the rate limit will reset
+     * When the rate limit will be fully restored
      */
-    resetTime: number;
+    resetTime: string;
     [k: string]: unknown;
   };
   /**
@@ -2239,9 +3459,13 @@ export interface WorkflowDiscoveryOutput {
      */
     authRequired: boolean;
     /**
-     * Required user roles
+     * Allowed user roles (empty: any role)
      */
     roles: string[];
+    /**
+     * Permissions the user's role must grant
+     */
+    permissions: string[];
     /**
      * JSON Schema for input validation
      */
@@ -2283,9 +3507,9 @@ export interface WorkflowDiscoveryOutput {
    */
   totalCount: number;
   /**
-   * Current user's role
+   * Current user's role (lower-case), or "guest"
    */
-  userRole: 'guest' | 'user' | 'admin';
+  userRole: string;
   /**
    * Discovery timestamp in ISO format
    */
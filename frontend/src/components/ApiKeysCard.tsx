@@ -0,0 +1,317 @@
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { useEffect, useState } from "react";
+import {
+  useWorkflowMutation,
+  type ApiKeyEntry,
+  type ApiKeysOutput,
+} from "../blok-types";
+
+import { Alert, AlertDescription } from "./ui/alert";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { toast } from "sonner";
+
+type ApiKeyScope = ApiKeyEntry["scopes"][number];
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  read: "GET requests only",
+  write: "All HTTP methods",
+  admin: "Keep your role's permissions",
+};
+
+const EXPIRY_OPTIONS = [
+  { label: "30 days", value: 30 },
+  { label: "90 days", value: 90 },
+  { label: "1 year", value: 365 },
+  { label: "Never", value: null },
+];
+
+/**
+ * Create, list and revoke personal API keys (Settings > API Keys)
+ */
+export function ApiKeysCard() {
+  const [apiKeys, setApiKeys] = useState<ApiKeyEntry[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<ApiKeyScope[]>([
+    "read",
+    "write",
+  ]);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["read"]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const listMutation = useWorkflowMutation({ workflowKey: "api-keys" });
+  const createMutation = useWorkflowMutation({
+    workflowKey: "api-keys",
+    onError: (error) => toast.error(`Failed to create API key: ${error.message}`),
+  });
+  const revokeMutation = useWorkflowMutation({
+    workflowKey: "api-keys",
+    onError: (error) => toast.error(`Failed to revoke API key: ${error.message}`),
+  });
+
+  const loadApiKeys = async () => {
+    try {
+      const result = (await listMutation.mutateAsync({
+        action: "list",
+      })) as ApiKeysOutput;
+      if ("apiKeys" in result) {
+        setApiKeys(result.apiKeys);
+        setAvailableScopes(result.availableScopes);
+      }
+    } catch (error) {
+      console.error("Failed to load API keys:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadApiKeys();
+  }, []);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((current) =>
+      checked ? [...current, scope] : current.filter((s) => s !== scope)
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error("Give the key a name");
+      return;
+    }
+    if (scopes.length === 0) {
+      toast.error("Select at least one scope");
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const result = (await createMutation.mutateAsync({
+        action: "create",
+        name: name.trim(),
+        scopes,
+        expiresInDays,
+      })) as ApiKeysOutput;
+
+      if ("key" in result) {
+        setCreatedKey(result.key);
+        setName("");
+        setScopes(["read"]);
+        toast.success("API key created");
+        await loadApiKeys();
+      }
+    } catch (error) {
+      console.error("Failed to create API key:", error);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKeyEntry) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+
+    setRevokingId(apiKey.id);
+    try {
+      const result = (await revokeMutation.mutateAsync({
+        action: "revoke",
+        keyId: apiKey.id,
+      })) as ApiKeysOutput;
+
+      if (result.success) {
+        toast.success("API key revoked");
+      } else {
+        toast.error(result.message);
+      }
+      await loadApiKeys();
+    } catch (error) {
+      console.error("Failed to revoke API key:", error);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast.success("API key copied to clipboard");
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Authenticate scripts and services with{" "}
+          <code>Authorization: Bearer &lt;key&gt;</code> or{" "}
+          <code>X-API-Key: &lt;key&gt;</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {createdKey && (
+          <Alert>
+            <AlertDescription className="space-y-2">
+              <div className="font-medium">
+                Copy your new key now. It will not be shown again.
+              </div>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 break-all rounded bg-muted p-2 text-sm">
+                  {createdKey}
+                </code>
+                <Button variant="outline" size="sm" onClick={handleCopy}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setCreatedKey(null)}
+              >
+                Done
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4 p-4 glass-card rounded-lg">
+          <div className="space-y-2">
+            <Label htmlFor="api-key-name">Name</Label>
+            <Input
+              id="api-key-name"
+              className="glass-input"
+              placeholder="e.g. Deployment script"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            <div className="flex flex-wrap gap-4">
+              {availableScopes.map((scope) => (
+                <label
+                  key={scope}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <Checkbox
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) =>
+                      toggleScope(scope, checked === true)
+                    }
+                  />
+                  <span className="font-medium">{scope}</span>
+                  <span className="text-muted-foreground">
+                    {SCOPE_DESCRIPTIONS[scope]}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Expires</Label>
+            <div className="flex flex-wrap gap-2">
+              {EXPIRY_OPTIONS.map((option) => (
+                <Button
+                  key={option.label}
+                  type="button"
+                  size="sm"
+                  variant={expiresInDays === option.value ? "default" : "outline"}
+                  onClick={() => setExpiresInDays(option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              className="glass-button glass-button-hover"
+              onClick={handleCreate}
+              disabled={creating}
+            >
+              {creating ? "Creating..." : "Create API Key"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {apiKeys.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              You have no API keys yet.
+            </div>
+          ) : (
+            apiKeys.map((apiKey) => (
+              <div
+                key={apiKey.id}
+                className="flex items-center justify-between p-4 glass-card rounded-lg"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{apiKey.name}</span>
+                    <code className="text-xs text-muted-foreground">
+                      {apiKey.prefix}…
+                    </code>
+                    <Badge
+                      variant={
+                        apiKey.status === "active" ? "default" : "secondary"
+                      }
+                    >
+                      {apiKey.status}
+                    </Badge>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {apiKey.scopes.map((scope) => (
+                      <Badge key={scope} variant="outline">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Created {new Date(apiKey.createdAt).toLocaleDateString()}
+                    {" • "}
+                    {apiKey.expiresAt
+                      ? `Expires ${new Date(apiKey.expiresAt).toLocaleDateString()}`
+                      : "Never expires"}
+                    {" • "}
+                    {apiKey.lastUsedAt
+                      ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}${
+                          apiKey.lastUsedIp ? ` from ${apiKey.lastUsedIp}` : ""
+                        }`
+                      : "Never used"}
+                  </div>
+                </div>
+                {apiKey.status === "active" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600"
+                    onClick={() => handleRevoke(apiKey)}
+                    disabled={revokingId === apiKey.id}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { useWorkflowMutation, type EmailChangeOutput } from "../blok-types";
+
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { toast } from "sonner";
+import { useState } from "react";
+
+const EMPTY_FORM = { newEmail: "", currentPassword: "" };
+
+interface ChangeEmailDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentEmail: string;
+}
+
+/**
+ * Ask for a new email address (Profile page). Nothing changes until the link
+ * sent to the new address is opened.
+ */
+export function ChangeEmailDialog({ open, onOpenChange, currentEmail }: ChangeEmailDialogProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [submitting, setSubmitting] = useState(false);
+
+  const emailChangeMutation = useWorkflowMutation({
+    workflowKey: "email-change",
+    onError: (error) => toast.error(`Email change failed: ${error.message}`),
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setForm(EMPTY_FORM);
+    }
+    onOpenChange(next);
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const result = (await emailChangeMutation.mutateAsync({
+        action: "request",
+        newEmail: form.newEmail.trim(),
+        currentPassword: form.currentPassword,
+      })) as EmailChangeOutput;
+      if (result.success) {
+        toast.success(result.message);
+        handleOpenChange(false);
+      }
+    } catch (error) {
+      console.error("Failed to request email change:", error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Change Email Address</DialogTitle>
+          <DialogDescription>
+            We'll send a confirmation link to the new address and let {currentEmail} know.
+            You keep signing in with {currentEmail} until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="change-email-new">New email</Label>
+            <Input
+              id="change-email-new"
+              type="email"
+              value={form.newEmail}
+              onChange={(e) => setForm({ ...form, newEmail: e.target.value })}
+              placeholder="name@example.com"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="change-email-password">Current password</Label>
+            <Input
+              id="change-email-password"
+              type="password"
+              value={form.currentPassword}
+              onChange={(e) => setForm({ ...form, currentPassword: e.target.value })}
+              placeholder="Confirm it's you"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || !form.newEmail.trim() || !form.currentPassword}
+          >
+            {submitting ? "Sending..." : "Send Confirmation Link"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
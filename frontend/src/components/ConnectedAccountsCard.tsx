@@ -0,0 +1,174 @@
+import { Link2, Unlink } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { useEffect, useState } from "react";
+import { useWorkflowMutation, type OauthOutput } from "../blok-types";
+
+import { Button } from "./ui/button";
+import { toast } from "sonner";
+
+type ConnectedAccount = NonNullable<OauthOutput["accounts"]>[number];
+type SignInProvider = NonNullable<OauthOutput["providers"]>[number];
+
+/**
+ * Sign-in providers connected to the account (Security page). Connecting
+ * goes through the provider and comes back via /oauth-callback.
+ */
+export function ConnectedAccountsCard() {
+  const [accounts, setAccounts] = useState<ConnectedAccount[]>([]);
+  const [providers, setProviders] = useState<SignInProvider[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const listMutation = useWorkflowMutation({ workflowKey: "oauth" });
+  const connectMutation = useWorkflowMutation({
+    workflowKey: "oauth",
+    onError: (error) => toast.error(`Failed to connect account: ${error.message}`),
+  });
+  const disconnectMutation = useWorkflowMutation({
+    workflowKey: "oauth",
+    onError: (error) => toast.error(`Failed to disconnect account: ${error.message}`),
+  });
+
+  const loadAccounts = async () => {
+    try {
+      const [accountsResult, providersResult] = (await Promise.all([
+        listMutation.mutateAsync({ action: "accounts" }),
+        listMutation.mutateAsync({ action: "providers" }),
+      ])) as OauthOutput[];
+      setAccounts(accountsResult.accounts || []);
+      setProviders(providersResult.providers || []);
+    } catch (error) {
+      console.error("Failed to load connected accounts:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  const handleConnect = async (provider: SignInProvider) => {
+    setBusyId(provider.id);
+    try {
+      const result = (await connectMutation.mutateAsync({
+        action: "authorize",
+        provider: provider.id,
+        link: true,
+        baseUrl: window.location.origin,
+      })) as OauthOutput;
+
+      if (result.success && result.authorizationUrl) {
+        window.location.href = result.authorizationUrl;
+        return;
+      }
+      toast.error(result.message);
+    } catch (error) {
+      console.error("Failed to connect account:", error);
+    }
+    setBusyId(null);
+  };
+
+  const handleDisconnect = async (account: ConnectedAccount) => {
+    if (!confirm(`Disconnect ${account.providerName}? You won't be able to sign in with it anymore.`)) {
+      return;
+    }
+
+    setBusyId(account.id);
+    try {
+      const result = (await disconnectMutation.mutateAsync({
+        action: "unlink",
+        accountId: account.id,
+      })) as OauthOutput;
+
+      if (result.success) {
+        toast.success(`${account.providerName} disconnected`);
+      } else {
+        toast.error(result.message);
+      }
+      await loadAccounts();
+    } catch (error) {
+      console.error("Failed to disconnect account:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Nothing to show when no providers are configured and nothing is linked
+  if (providers.length === 0 && accounts.length === 0) {
+    return null;
+  }
+
+  const unconnected = providers.filter(
+    (provider) => !accounts.some((account) => account.provider === provider.id)
+  );
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Connected Accounts
+        </CardTitle>
+        <CardDescription>
+          Sign in with an external account instead of your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {accounts.length === 0 && (
+          <div className="text-sm text-muted-foreground">
+            No accounts connected yet.
+          </div>
+        )}
+        {accounts.map((account) => (
+          <div
+            key={account.id}
+            className="flex items-center justify-between p-4 glass-card rounded-lg"
+          >
+            <div className="space-y-1">
+              <div className="font-medium">{account.providerName}</div>
+              <div className="text-xs text-muted-foreground">
+                {account.email || "No email shared"}
+                {" • "}
+                Connected {new Date(account.createdAt).toLocaleDateString()}
+                {" • "}
+                {account.lastLoginAt
+                  ? `Last used ${new Date(account.lastLoginAt).toLocaleString()}`
+                  : "Never used to sign in"}
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDisconnect(account)}
+              disabled={busyId !== null}
+              className="glass-button glass-button-hover text-destructive hover:text-destructive"
+            >
+              <Unlink className="h-4 w-4 mr-1" />
+              Disconnect
+            </Button>
+          </div>
+        ))}
+        {unconnected.length > 0 && (
+          <div className="flex flex-wrap justify-end gap-2">
+            {unconnected.map((provider) => (
+              <Button
+                key={provider.id}
+                variant="outline"
+                onClick={() => handleConnect(provider)}
+                disabled={busyId !== null}
+                className="glass-button glass-button-hover"
+              >
+                <Link2 className="h-4 w-4 mr-2" />
+                Connect {provider.name}
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
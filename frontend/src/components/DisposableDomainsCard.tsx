@@ -0,0 +1,140 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { MailX, RefreshCw } from "lucide-react";
+import { useEffect, useState } from "react";
+import {
+  useWorkflowMutation,
+  type AdminDisposableDomainsOutput,
+  type DisposableDomainListInfo,
+} from "../blok-types";
+
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { toast } from "sonner";
+
+/**
+ * Disposable email domain list used by sign-up validation (System page).
+ * Refresh reloads the list file, downloading it first when a URL is given
+ * or the server has DISPOSABLE_EMAIL_DOMAINS_URL set.
+ */
+export function DisposableDomainsCard() {
+  const [list, setList] = useState<DisposableDomainListInfo | null>(null);
+  const [url, setUrl] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const statusMutation = useWorkflowMutation({
+    workflowKey: "admin-disposable-domains",
+  });
+  const refreshMutation = useWorkflowMutation({
+    workflowKey: "admin-disposable-domains",
+    onError: (error) =>
+      toast.error(`Failed to refresh the domain list: ${error.message}`),
+  });
+
+  const loadStatus = async () => {
+    try {
+      const result = (await statusMutation.mutateAsync({
+        action: "status",
+      })) as AdminDisposableDomainsOutput;
+      setList(result.list || null);
+    } catch (error) {
+      console.error("Failed to load disposable domain list:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      const result = (await refreshMutation.mutateAsync({
+        action: "refresh",
+        url: url.trim() || undefined,
+      })) as AdminDisposableDomainsOutput;
+
+      if (result.success) {
+        setList(result.list || null);
+        setUrl("");
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      console.error("Failed to refresh disposable domain list:", error);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MailX className="h-5 w-5" />
+          Disposable Email Domains
+        </CardTitle>
+        <CardDescription>
+          Addresses at these domains are rejected when users sign up
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {list ? (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Domains</span>
+              <div className="flex items-center gap-2">
+                <span className="text-sm">{list.count}</span>
+                <Badge variant={list.source === "file" ? "secondary" : "outline"}>
+                  {list.source === "file" ? "File" : "Built-in"}
+                </Badge>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground break-all">
+              {list.source === "file"
+                ? `Loaded from ${list.file}`
+                : `${list.file} not found, using the built-in list`}{" "}
+              at {new Date(list.loadedAt).toLocaleString()}
+              {list.downloadedFrom && `, downloaded from ${list.downloadedFrom}`}
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {loading ? "Loading..." : "List status unavailable"}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="disposable-domains-url">Download from (optional)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="disposable-domains-url"
+              type="url"
+              className="glass-input"
+              placeholder="https://example.com/disposable_email_blocklist.conf"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+            <Button onClick={handleRefresh} disabled={refreshing}>
+              <RefreshCw
+                className={`h-4 w-4 mr-2 ${refreshing ? "animate-spin" : ""}`}
+              />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+import { useWorkflowMutation, type EmailVerificationOutput } from "../blok-types";
+import { Button } from "./ui/button";
+import { MailWarning } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "../contexts/AuthContext";
+import { useState } from "react";
+
+/**
+ * Reminder shown to signed-in users whose email address is not verified yet
+ * (AppLayout), with a button to send a new verification link
+ */
+export function EmailVerificationBanner() {
+  const { user } = useAuth();
+  const [sending, setSending] = useState(false);
+
+  const verificationMutation = useWorkflowMutation({
+    workflowKey: "email-verification",
+    onError: (error) => toast.error(`Could not send the verification email: ${error.message}`),
+  });
+
+  if (!user || user.emailVerified !== false || user.impersonator) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      const result = (await verificationMutation.mutateAsync({
+        operation: "request",
+        email: user.email,
+      })) as EmailVerificationOutput;
+      if (result.success) {
+        toast.success(`Verification link sent to ${user.email}`);
+      }
+    } catch (error) {
+      console.error("Failed to resend verification email:", error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="m-4 mb-0 flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-blue-500/30 bg-blue-100/90 px-4 py-3 text-blue-900 backdrop-blur dark:bg-blue-950/80 dark:text-blue-100">
+      <div className="flex items-center gap-2 text-sm">
+        <MailWarning className="h-4 w-4 shrink-0" />
+        <span>
+          Please verify your email address (<strong>{user.email}</strong>) using
+          the link we sent you. Some features may be unavailable until you do.
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        className="border-blue-600/40 bg-transparent"
+        onClick={handleResend}
+        disabled={sending}
+      >
+        {sending ? "Sending..." : "Resend verification email"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useWorkflowMutation, type ImpersonateOutput } from "../blok-types";
+import { Button } from "./ui/button";
+import { UserCheck } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "../contexts/AuthContext";
+import { useState } from "react";
+
+/**
+ * Persistent banner shown while an administrator is signed in as another user
+ * (AppLayout). "Return to my account" ends the impersonation session and reloads
+ * with the administrator's own session.
+ */
+export function ImpersonationBanner() {
+  const { user } = useAuth();
+  const [returning, setReturning] = useState(false);
+
+  const impersonateMutation = useWorkflowMutation({
+    workflowKey: "impersonate",
+    onError: (error) => toast.error(`Could not end impersonation: ${error.message}`),
+  });
+
+  if (!user?.impersonator) {
+    return null;
+  }
+
+  const handleReturn = async () => {
+    setReturning(true);
+    try {
+      const result = (await impersonateMutation.mutateAsync({
+        action: "stop",
+      })) as ImpersonateOutput;
+      window.location.href = result.restored ? "/users" : "/login";
+    } catch (error) {
+      console.error("Failed to end impersonation:", error);
+      setReturning(false);
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-30 m-4 mb-0 flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-amber-500/30 bg-amber-100/90 px-4 py-3 text-amber-900 backdrop-blur dark:bg-amber-950/80 dark:text-amber-100">
+      <div className="flex items-center gap-2 text-sm">
+        <UserCheck className="h-4 w-4 shrink-0" />
+        <span>
+          You are viewing Blok Admin as <strong>{user.name}</strong> ({user.email}).
+          Signed in as {user.impersonator.name}; everything you do is recorded.
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        className="border-amber-600/40 bg-transparent"
+        onClick={handleReturn}
+        disabled={returning}
+      >
+        {returning ? "Returning..." : "Return to my account"}
+      </Button>
+    </div>
+  );
+}
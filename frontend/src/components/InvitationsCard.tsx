@@ -0,0 +1,288 @@
+import { Mail, RefreshCw, Send, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { useEffect, useState } from "react";
+import {
+  useWorkflowMutation,
+  type InvitationEntry,
+  type InvitationsOutput,
+} from "../blok-types";
+
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { toast } from "sonner";
+
+const EMPTY_FORM = { email: "", name: "", role: "USER" };
+
+interface InvitationsCardProps {
+  /** Roles an invitation may grant */
+  roleNames: string[];
+  /** Without roles:manage only USER invitations are allowed */
+  canAssignRoles: boolean;
+}
+
+/**
+ * Invite users by email and resend or revoke pending invitations (Users page)
+ */
+export function InvitationsCard({ roleNames, canAssignRoles }: InvitationsCardProps) {
+  const [invitations, setInvitations] = useState<InvitationEntry[]>([]);
+  const [showDialog, setShowDialog] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [sending, setSending] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const invitationMutation = useWorkflowMutation({
+    workflowKey: "invitations",
+    onError: (error) => toast.error(`Invitation operation failed: ${error.message}`),
+  });
+
+  const loadInvitations = async () => {
+    try {
+      const result = (await invitationMutation.mutateAsync({
+        action: "list",
+      })) as InvitationsOutput;
+      if (result.success && result.invitations) {
+        setInvitations(result.invitations);
+      }
+    } catch (error) {
+      console.error("Failed to load invitations:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadInvitations();
+  }, []);
+
+  const handleInvite = async () => {
+    setSending(true);
+    try {
+      const result = (await invitationMutation.mutateAsync({
+        action: "create",
+        email: form.email.trim(),
+        name: form.name.trim() || undefined,
+        role: form.role,
+      })) as InvitationsOutput;
+      if (result.success) {
+        toast.success(result.message);
+        setShowDialog(false);
+        setForm(EMPTY_FORM);
+        await loadInvitations();
+      }
+    } catch (error) {
+      console.error("Failed to send invitation:", error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleResend = async (invitation: InvitationEntry) => {
+    setBusyId(invitation.id);
+    try {
+      const result = (await invitationMutation.mutateAsync({
+        action: "resend",
+        invitationId: invitation.id,
+      })) as InvitationsOutput;
+      if (result.success) {
+        toast.success(result.message);
+      }
+      await loadInvitations();
+    } catch (error) {
+      console.error("Failed to resend invitation:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (invitation: InvitationEntry) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}? The link will stop working.`)) {
+      return;
+    }
+
+    setBusyId(invitation.id);
+    try {
+      const result = (await invitationMutation.mutateAsync({
+        action: "revoke",
+        invitationId: invitation.id,
+      })) as InvitationsOutput;
+      if (result.success) {
+        toast.success("Invitation revoked");
+      } else {
+        toast.error(result.message);
+      }
+      await loadInvitations();
+    } catch (error) {
+      console.error("Failed to revoke invitation:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Invitations
+            </CardTitle>
+            <CardDescription>
+              Invited users choose their own password when they accept.
+            </CardDescription>
+          </div>
+          <Button
+            className="glass-button glass-button-hover"
+            onClick={() => setShowDialog(true)}
+          >
+            <Send className="h-4 w-4 mr-2" />
+            Invite User
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {invitations.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            No pending invitations.
+          </div>
+        ) : (
+          invitations.map((invitation) => (
+            <div
+              key={invitation.id}
+              className="flex items-center justify-between p-4 glass-card rounded-lg"
+            >
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{invitation.email}</span>
+                  {invitation.name && (
+                    <span className="text-sm text-muted-foreground">
+                      {invitation.name}
+                    </span>
+                  )}
+                  <Badge variant="outline">{invitation.role}</Badge>
+                  <Badge
+                    variant={
+                      invitation.status === "pending" ? "default" : "secondary"
+                    }
+                  >
+                    {invitation.status}
+                  </Badge>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Invited by {invitation.invitedBy.name}
+                  {" • "}
+                  Sent {new Date(invitation.lastSentAt).toLocaleString()}
+                  {invitation.sendCount > 1 && ` (${invitation.sendCount} times)`}
+                  {" • "}
+                  {invitation.status === "pending" ? "Expires" : "Expired"}{" "}
+                  {new Date(invitation.expiresAt).toLocaleDateString()}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleResend(invitation)}
+                  disabled={busyId === invitation.id}
+                >
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Resend
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600"
+                  onClick={() => handleRevoke(invitation)}
+                  disabled={busyId === invitation.id}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Revoke
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              We'll email them a link to set their password and join.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                placeholder="name@example.com"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="invite-name">Name (optional)</Label>
+              <Input
+                id="invite-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="They can change it when accepting"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="invite-role">Role</Label>
+              <Select
+                value={form.role}
+                onValueChange={(value: string) => setForm({ ...form, role: value })}
+                disabled={!canAssignRoles}
+              >
+                <SelectTrigger id="invite-role">
+                  <SelectValue placeholder="Select role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roleNames.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {role}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleInvite} disabled={sending || !form.email.trim()}>
+              {sending ? "Sending..." : "Send Invitation"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
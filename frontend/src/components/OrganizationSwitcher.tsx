@@ -0,0 +1,162 @@
+import { Building2, Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { useEffect, useState } from "react";
+import {
+  useWorkflowMutation,
+  type OrganizationEntry,
+  type OrganizationsOutput,
+} from "../blok-types";
+
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { toast } from "sonner";
+
+const CREATE_VALUE = "__create__";
+
+/**
+ * Switch the active organization (Sidebar). Users, notifications and logs are
+ * scoped to it, so the page reloads after a switch.
+ */
+export function OrganizationSwitcher() {
+  const [organizations, setOrganizations] = useState<OrganizationEntry[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const organizationsMutation = useWorkflowMutation({
+    workflowKey: "organizations",
+    onError: (error) => toast.error(`Organization operation failed: ${error.message}`),
+  });
+
+  const loadOrganizations = async () => {
+    try {
+      const result = (await organizationsMutation.mutateAsync({
+        action: "list",
+      })) as OrganizationsOutput;
+      if (result.success) {
+        setOrganizations(result.organizations);
+        setCurrentId(result.currentOrganizationId);
+      }
+    } catch (error) {
+      console.error("Failed to load organizations:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadOrganizations();
+  }, []);
+
+  const handleSwitch = async (organizationId: string) => {
+    if (organizationId === CREATE_VALUE) {
+      setShowCreate(true);
+      return;
+    }
+    if (organizationId === currentId) return;
+
+    try {
+      const result = (await organizationsMutation.mutateAsync({
+        action: "switch",
+        organizationId,
+      })) as OrganizationsOutput;
+      if (result.success) {
+        window.location.reload();
+      }
+    } catch (error) {
+      console.error("Failed to switch organization:", error);
+    }
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const result = (await organizationsMutation.mutateAsync({
+        action: "create",
+        name: name.trim(),
+      })) as OrganizationsOutput;
+      if (result.success) {
+        toast.success(result.message);
+        window.location.reload();
+      }
+    } catch (error) {
+      console.error("Failed to create organization:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Select value={currentId ?? undefined} onValueChange={handleSwitch}>
+        <SelectTrigger className="glass-input">
+          <div className="flex items-center gap-2 min-w-0">
+            <Building2 className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+            <SelectValue placeholder="No organization" />
+          </div>
+        </SelectTrigger>
+        <SelectContent>
+          {organizations.map((organization) => (
+            <SelectItem key={organization.id} value={organization.id}>
+              {organization.name}
+              <span className="ml-2 text-xs text-muted-foreground">
+                {organization.role}
+              </span>
+            </SelectItem>
+          ))}
+          {organizations.length > 0 && <SelectSeparator />}
+          <SelectItem value={CREATE_VALUE}>
+            <span className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              New organization
+            </span>
+          </SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>New Organization</DialogTitle>
+            <DialogDescription>
+              You will be its administrator and it becomes your active
+              organization.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="organization-name">Name</Label>
+            <Input
+              id="organization-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Acme Corp"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreate(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !name.trim()}>
+              {saving ? "Creating..." : "Create Organization"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
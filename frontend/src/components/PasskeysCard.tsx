@@ -0,0 +1,245 @@
+import { Fingerprint, Pencil, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { useEffect, useState } from "react";
+import {
+  useWorkflowMutation,
+  type PasskeySummary,
+  type PasskeysOutput,
+} from "../blok-types";
+import {
+  createPasskey,
+  isPasskeySupported,
+  type PasskeyCreationOptions,
+} from "../lib/webauthn";
+
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { toast } from "sonner";
+
+/**
+ * Add, rename and remove passkeys (Security page). Passkeys sign in without
+ * a password and can answer the 2FA step of any login.
+ */
+export function PasskeysCard() {
+  const [passkeys, setPasskeys] = useState<PasskeySummary[]>([]);
+  const [name, setName] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const listMutation = useWorkflowMutation({ workflowKey: "passkeys" });
+  const addMutation = useWorkflowMutation({
+    workflowKey: "passkeys",
+    onError: (error) => toast.error(`Failed to add passkey: ${error.message}`),
+  });
+  const updateMutation = useWorkflowMutation({
+    workflowKey: "passkeys",
+    onError: (error) => toast.error(`Failed to update passkey: ${error.message}`),
+  });
+
+  const loadPasskeys = async () => {
+    try {
+      const result = (await listMutation.mutateAsync({
+        action: "list",
+      })) as PasskeysOutput;
+      setPasskeys(result.passkeys || []);
+    } catch (error) {
+      console.error("Failed to load passkeys:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadPasskeys();
+  }, []);
+
+  const handleAdd = async () => {
+    setAdding(true);
+    try {
+      const optionsResult = (await addMutation.mutateAsync({
+        action: "registerOptions",
+      })) as PasskeysOutput;
+      if (!optionsResult.success || !optionsResult.options) {
+        toast.error(optionsResult.message);
+        return;
+      }
+
+      const credential = await createPasskey(
+        optionsResult.options as unknown as PasskeyCreationOptions
+      );
+      const result = (await addMutation.mutateAsync({
+        action: "register",
+        credential,
+        name: name.trim() || undefined,
+      })) as PasskeysOutput;
+
+      if (result.success) {
+        setName("");
+        toast.success("Passkey added");
+        await loadPasskeys();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      // The browser rejects with NotAllowedError when the dialog is dismissed
+      if (error instanceof Error && error.name !== "NotAllowedError") {
+        toast.error(`Failed to add passkey: ${error.message}`);
+      }
+      console.error("Failed to add passkey:", error);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRename = async (passkey: PasskeySummary) => {
+    const newName = prompt("Rename passkey", passkey.name)?.trim();
+    if (!newName || newName === passkey.name) {
+      return;
+    }
+
+    setBusyId(passkey.id);
+    try {
+      const result = (await updateMutation.mutateAsync({
+        action: "rename",
+        passkeyId: passkey.id,
+        name: newName,
+      })) as PasskeysOutput;
+
+      if (!result.success) {
+        toast.error(result.message);
+      }
+      await loadPasskeys();
+    } catch (error) {
+      console.error("Failed to rename passkey:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (passkey: PasskeySummary) => {
+    if (!confirm(`Remove "${passkey.name}"? You won't be able to sign in with it anymore.`)) {
+      return;
+    }
+
+    setBusyId(passkey.id);
+    try {
+      const result = (await updateMutation.mutateAsync({
+        action: "remove",
+        passkeyId: passkey.id,
+      })) as PasskeysOutput;
+
+      if (result.success) {
+        toast.success("Passkey removed");
+      } else {
+        toast.error(result.message);
+      }
+      await loadPasskeys();
+    } catch (error) {
+      console.error("Failed to remove passkey:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const supported = isPasskeySupported();
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Fingerprint className="h-5 w-5" />
+          Passkeys
+        </CardTitle>
+        <CardDescription>
+          Sign in with your fingerprint, face, screen lock or a security key
+          instead of a password. Passkeys also work as your second factor.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {supported ? (
+          <div className="flex items-end gap-2 p-4 glass-card rounded-lg">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="passkey-name">Name</Label>
+              <Input
+                id="passkey-name"
+                className="glass-input"
+                placeholder="e.g. Work laptop"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <Button
+              className="glass-button glass-button-hover"
+              onClick={handleAdd}
+              disabled={adding}
+            >
+              {adding ? "Waiting for device..." : "Add Passkey"}
+            </Button>
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground">
+            This browser does not support passkeys.
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {passkeys.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              You have no passkeys yet.
+            </div>
+          ) : (
+            passkeys.map((passkey) => (
+              <div
+                key={passkey.id}
+                className="flex items-center justify-between p-4 glass-card rounded-lg"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{passkey.name}</span>
+                    {passkey.backedUp && (
+                      <Badge variant="secondary">Synced</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Added {new Date(passkey.createdAt).toLocaleDateString()}
+                    {" • "}
+                    {passkey.lastUsedAt
+                      ? `Last used ${new Date(passkey.lastUsedAt).toLocaleString()}`
+                      : "Never used"}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRename(passkey)}
+                    disabled={busyId !== null}
+                  >
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Rename
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600"
+                    onClick={() => handleRemove(passkey)}
+                    disabled={busyId !== null}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
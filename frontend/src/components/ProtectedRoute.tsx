@@ -4,13 +4,15 @@ import { useAuth } from "../contexts/AuthContext";
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requireAdmin?: boolean;
+  permission?: string; // Required permission, e.g. "users:read"
 }
 
 export function ProtectedRoute({
   children,
   requireAdmin = false,
+  permission,
 }: ProtectedRouteProps) {
-  const { isAuthenticated, isAdmin, isLoading } = useAuth();
+  const { user, isAuthenticated, isAdmin, hasPermission, isLoading } = useAuth();
   const location = useLocation();
 
   // Show loading while checking auth state
@@ -27,10 +29,20 @@ export function ProtectedRoute({
     return <Navigate to="/login" state={{ from: location.pathname }} replace />;
   }
 
+  // An expired password has to be changed before anything else (PASSWORD_MAX_AGE_DAYS)
+  if (user?.passwordExpired && location.pathname !== "/change-password") {
+    return <Navigate to="/change-password" state={{ from: location.pathname }} replace />;
+  }
+
   // If admin required but user is not admin, redirect to dashboard
   if (requireAdmin && !isAdmin) {
     return <Navigate to="/dashboard" replace />;
   }
 
+  // Same for a missing permission
+  if (permission && !hasPermission(permission)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
   return <>{children}</>;
 }
@@ -0,0 +1,330 @@
+import { Edit3, Plus, ShieldCheck, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { useEffect, useState } from "react";
+import {
+  useWorkflowMutation,
+  type PermissionEntry,
+  type RoleEntry,
+  type UserRoleManagementOutput,
+} from "../blok-types";
+
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { toast } from "sonner";
+
+interface RoleForm {
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+const EMPTY_FORM: RoleForm = { name: "", description: "", permissions: [] };
+
+interface RolesCardProps {
+  /** Called with the current roles whenever they are (re)loaded */
+  onRolesChange?: (roles: RoleEntry[]) => void;
+}
+
+/**
+ * List, create, edit and delete roles and their permissions (Users page)
+ */
+export function RolesCard({ onRolesChange }: RolesCardProps) {
+  const [roles, setRoles] = useState<RoleEntry[]>([]);
+  const [catalogue, setCatalogue] = useState<PermissionEntry[]>([]);
+  const [editing, setEditing] = useState<RoleEntry | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [form, setForm] = useState<RoleForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const roleMutation = useWorkflowMutation({
+    workflowKey: "user-role-management",
+    onError: (error) => toast.error(`Role operation failed: ${error.message}`),
+  });
+
+  const applyResult = (result: UserRoleManagementOutput) => {
+    const data = result.data as {
+      roles?: RoleEntry[];
+      permissions?: PermissionEntry[];
+    };
+    if (result.success && data.roles && data.permissions) {
+      setRoles(data.roles);
+      setCatalogue(data.permissions);
+      onRolesChange?.(data.roles);
+    }
+  };
+
+  const loadRoles = async () => {
+    try {
+      applyResult(
+        (await roleMutation.mutateAsync({
+          action: "listRoles",
+        })) as UserRoleManagementOutput
+      );
+    } catch (error) {
+      console.error("Failed to load roles:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadRoles();
+  }, []);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setShowDialog(true);
+  };
+
+  const openEdit = (role: RoleEntry) => {
+    setEditing(role);
+    setForm({
+      name: role.name,
+      description: role.description ?? "",
+      permissions: role.permissions,
+    });
+    setShowDialog(true);
+  };
+
+  const togglePermission = (key: string, checked: boolean) => {
+    setForm((current) => ({
+      ...current,
+      permissions: checked
+        ? [...current.permissions, key]
+        : current.permissions.filter((permission) => permission !== key),
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = (await roleMutation.mutateAsync(
+        editing
+          ? {
+              action: "editRole",
+              roleName: editing.name,
+              description: form.description,
+              ...(editing.name === "ADMIN"
+                ? {}
+                : { permissions: form.permissions }),
+            }
+          : {
+              action: "createRole",
+              roleName: form.name,
+              description: form.description,
+              permissions: form.permissions,
+            }
+      )) as UserRoleManagementOutput;
+
+      if (result.success) {
+        toast.success(editing ? "Role updated" : "Role created");
+        applyResult(result);
+        setShowDialog(false);
+      }
+    } catch (error) {
+      console.error("Failed to save role:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: RoleEntry) => {
+    if (!confirm(`Delete the ${role.name} role?`)) return;
+
+    try {
+      const result = (await roleMutation.mutateAsync({
+        action: "deleteRole",
+        roleName: role.name,
+      })) as UserRoleManagementOutput;
+      if (result.success) {
+        toast.success(`${role.name} deleted`);
+        applyResult(result);
+      }
+    } catch (error) {
+      console.error("Failed to delete role:", error);
+    }
+  };
+
+  const isAdminRole = editing?.name === "ADMIN";
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Roles &amp; Permissions
+            </CardTitle>
+            <CardDescription>
+              Define custom roles such as Support or Auditor for this
+              organization and choose what they can access. Admin always has
+              every permission.
+            </CardDescription>
+          </div>
+          <Button
+            className="glass-button glass-button-hover"
+            onClick={openCreate}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Role
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {roles.map((role) => (
+          <div
+            key={role.id}
+            className="flex items-start justify-between gap-4 p-4 glass-card rounded-lg"
+          >
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{role.name}</span>
+                {role.isSystem && <Badge variant="secondary">Built-in</Badge>}
+                {role.shared && !role.isSystem && (
+                  <Badge variant="outline">Shared</Badge>
+                )}
+                <span className="text-sm text-muted-foreground">
+                  {role.userCount} user{role.userCount === 1 ? "" : "s"}
+                </span>
+              </div>
+              {role.description && (
+                <div className="text-sm text-muted-foreground">
+                  {role.description}
+                </div>
+              )}
+              <div className="flex flex-wrap gap-1">
+                {role.permissions.length === 0 ? (
+                  <span className="text-sm text-muted-foreground">
+                    No administrative permissions
+                  </span>
+                ) : (
+                  role.permissions.map((permission) => (
+                    <Badge key={permission} variant="outline">
+                      {permission}
+                    </Badge>
+                  ))
+                )}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => openEdit(role)}
+              >
+                <Edit3 className="h-4 w-4" />
+              </Button>
+              {!role.isSystem && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={role.userCount > 0}
+                  title={
+                    role.userCount > 0
+                      ? "Reassign its users before deleting this role"
+                      : undefined
+                  }
+                  onClick={() => handleDelete(role)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? `Edit ${editing.name}` : "New Role"}
+            </DialogTitle>
+            <DialogDescription>
+              {isAdminRole
+                ? "The Admin role always has every permission."
+                : "Users with this role get exactly the permissions checked below."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            {!editing && (
+              <div className="grid gap-2">
+                <Label htmlFor="role-name">Name</Label>
+                <Input
+                  id="role-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. SUPPORT"
+                />
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="role-description">Description</Label>
+              <Input
+                id="role-description"
+                value={form.description}
+                onChange={(e) =>
+                  setForm({ ...form, description: e.target.value })
+                }
+                placeholder="What is this role for?"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Permissions</Label>
+              <div className="grid gap-2 max-h-[320px] overflow-y-auto">
+                {catalogue.map((permission) => (
+                  <label
+                    key={permission.key}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <Checkbox
+                      checked={
+                        isAdminRole || form.permissions.includes(permission.key)
+                      }
+                      disabled={isAdminRole}
+                      onCheckedChange={(checked) =>
+                        togglePermission(permission.key, checked === true)
+                      }
+                    />
+                    <code className="font-medium">{permission.key}</code>
+                    <span className="text-muted-foreground">
+                      {permission.description}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || (!editing && !form.name.trim())}
+            >
+              {saving ? "Saving..." : editing ? "Save Role" : "Create Role"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
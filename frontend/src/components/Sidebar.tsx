@@ -18,6 +18,7 @@ import { BlokLink, useBlokRouter } from "../lib/blok-navigation";
 
 import { Badge } from "./ui/badge";
 import { Button } from "./ui/button";
+import { OrganizationSwitcher } from "./OrganizationSwitcher";
 import React from "react";
 import { cn } from "../lib/utils";
 import { motion } from "framer-motion";
@@ -35,8 +36,8 @@ interface SidebarProps {
 const navigation = [
   { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
   { name: "Analytics", href: "/analytics", icon: BarChart3 },
-  { name: "Users", href: "/users", icon: Users, adminOnly: true },
-  { name: "System Logs", href: "/logs", icon: ScrollText, adminOnly: true },
+  { name: "Users", href: "/users", icon: Users, permission: "users:read" },
+  { name: "System Logs", href: "/logs", icon: ScrollText, permission: "logs:read" },
   { name: "Profile", href: "/profile", icon: User },
   { name: "Security", href: "/security", icon: Shield },
   { name: "Themes", href: "/themes", icon: Palette },
@@ -51,7 +52,7 @@ export function Sidebar({
   onClose,
   onToggleCollapse,
 }: SidebarProps) {
-  const { user, logout, isAdmin } = useAuth();
+  const { user, logout, isAdmin, hasPermission } = useAuth();
   const { shouldAnimate } = useAnimation();
   const router = useBlokRouter();
   const [navigationRef] = useAutoAnimate({ duration: shouldAnimate ? 200 : 0 });
@@ -93,7 +94,9 @@ export function Sidebar({
   };
 
   const filteredNavigation = navigation.filter(
-    (item) => !item.adminOnly || isAdmin
+    (item) =>
+      (!item.adminOnly || isAdmin) &&
+      (!item.permission || hasPermission(item.permission))
   );
 
   // Enhanced animation configuration
@@ -191,6 +194,13 @@ export function Sidebar({
         </div>
       </div>
 
+      {/* Organization switcher - hidden while collapsed */}
+      {!isCollapsed && (
+        <div className="mt-4 px-4 flex-shrink-0">
+          <OrganizationSwitcher />
+        </div>
+      )}
+
       {/* Navigation - flex-1 to take available space */}
       <nav className={cn("mt-8 flex-1", isCollapsed ? "px-2" : "px-4")}>
         <div ref={navigationRef} className="space-y-2">
@@ -2,18 +2,33 @@ import React, { createContext, useContext, useEffect, useState } from "react";
 import { type User } from "../lib/api";
 import { ErrorHandler } from "../lib/error-handler";
 import { blokRouter } from "../lib/blok-router";
+import {
+  getPasskeyAssertion,
+  type PasskeyRequestOptions,
+} from "../lib/webauthn";
 import {
   useWorkflowMutation,
   type AuthLoginOutput,
+  type Auth2faVerifyOutput,
+  type AuthRefreshOutput,
   type AuthRegisterOutput,
+  type MagicLinkOutput,
+  type OauthOutput,
+  type PasskeysOutput,
 } from "../blok-types";
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isAdmin: boolean;
+  hasPermission: (permission: string) => boolean;
   isLoading: boolean;
   login: (email: string, password: string) => Promise<any>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<any>;
+  verifyTwoFactorWithPasskey: (challengeToken: string) => Promise<any>;
+  loginWithMagicLink: (token: string) => Promise<any>;
+  loginWithOAuth: (code: string, state: string) => Promise<any>;
+  loginWithPasskey: () => Promise<any>;
   register: (email: string, password: string, name: string) => Promise<any>;
   logout: () => Promise<void>;
   updateUser: (userData: User) => void;
@@ -44,6 +59,84 @@ function AuthProviderInternal({ children }: { children: React.ReactNode }) {
     },
   });
 
+  // Second login step for accounts with 2FA enabled
+  const twoFactorMutation = useWorkflowMutation({
+    workflowKey: "auth-2fa-verify",
+    onSuccess: (data: Auth2faVerifyOutput) => {
+      if (data.success && data.user) {
+        const userWithPreferences = data.user as unknown as User;
+        setUser(userWithPreferences);
+        ErrorHandler.showSuccess(
+          "Welcome back!",
+          `Logged in as ${userWithPreferences.name}`
+        );
+      }
+    },
+    onError: (error) => {
+      ErrorHandler.handleGenericError(error);
+    },
+  });
+
+  // Passwordless login from an emailed link (magic-link workflow)
+  const magicLinkMutation = useWorkflowMutation({
+    workflowKey: "magic-link",
+    onSuccess: (data: MagicLinkOutput) => {
+      if (data.success && data.user) {
+        const userWithPreferences = data.user as unknown as User;
+        setUser(userWithPreferences);
+        ErrorHandler.showSuccess(
+          "Welcome back!",
+          `Logged in as ${userWithPreferences.name}`
+        );
+      }
+    },
+    onError: (error) => {
+      ErrorHandler.handleGenericError(error);
+    },
+  });
+
+  // Return leg of a "Sign in with..." provider redirect (oauth workflow)
+  const oauthMutation = useWorkflowMutation({
+    workflowKey: "oauth",
+    onSuccess: (data: OauthOutput) => {
+      if (data.success && data.user) {
+        const userWithPreferences = data.user as unknown as User;
+        setUser(userWithPreferences);
+        ErrorHandler.showSuccess(
+          "Welcome back!",
+          `Logged in as ${userWithPreferences.name}`
+        );
+      }
+    },
+    onError: (error) => {
+      ErrorHandler.handleGenericError(error);
+    },
+  });
+
+  // Passkey sign-in (passkeys workflow); options requests need no toast
+  const passkeyOptionsMutation = useWorkflowMutation({
+    workflowKey: "passkeys",
+    onError: (error) => {
+      ErrorHandler.handleGenericError(error);
+    },
+  });
+  const passkeyMutation = useWorkflowMutation({
+    workflowKey: "passkeys",
+    onSuccess: (data: PasskeysOutput) => {
+      if (data.success && data.user) {
+        const userWithPreferences = data.user as unknown as User;
+        setUser(userWithPreferences);
+        ErrorHandler.showSuccess(
+          "Welcome back!",
+          `Logged in as ${userWithPreferences.name}`
+        );
+      }
+    },
+    onError: (error) => {
+      ErrorHandler.handleGenericError(error);
+    },
+  });
+
   const registerMutation = useWorkflowMutation({
     workflowKey: "auth-register",
     onSuccess: (data: AuthRegisterOutput) => {
@@ -56,6 +149,11 @@ function AuthProviderInternal({ children }: { children: React.ReactNode }) {
     },
   });
 
+  // Rotating refresh token: restores a session that expired while the tab was closed
+  const refreshMutation = useWorkflowMutation({
+    workflowKey: "auth-refresh",
+  });
+
   const logoutMutation = useWorkflowMutation({
     workflowKey: "auth-logout", // Use auth-logout workflow
     onSuccess: () => {
@@ -89,7 +187,7 @@ function AuthProviderInternal({ children }: { children: React.ReactNode }) {
 
   useEffect(() => {
     // Initialize auth state from server-injected data (Laravel + Inertia.js style)
-    const initAuth = () => {
+    const initAuth = async () => {
       // Get server-injected auth data
       const serverAuthData = (window as any).__BLOK_AUTH__;
 
@@ -100,12 +198,33 @@ function AuthProviderInternal({ children }: { children: React.ReactNode }) {
       ) {
         setUser(serverAuthData.user);
       } else {
+        // No valid session: the refresh token cookie may still mint one
+        try {
+          const refreshed = (await refreshMutation.mutateAsync(
+            {}
+          )) as AuthRefreshOutput;
+          if (refreshed.success && refreshed.user) {
+            setUser(refreshed.user as unknown as User);
+            setIsLoading(false);
+            return;
+          }
+        } catch {
+          // Fall through to the signed-out state
+        }
+
         setUser(null);
         // If no valid auth data and we're on a protected route, redirect to login
         const currentPath = window.location.pathname;
-        const isProtectedRoute = !["/login", "/register", "/"].includes(
-          currentPath
-        );
+        const isProtectedRoute = ![
+          "/login",
+          "/register",
+          "/accept-invite",
+          "/email-change",
+          "/verify-email",
+          "/magic-link",
+          "/oauth-callback",
+          "/",
+        ].includes(currentPath);
 
         if (isProtectedRoute) {
           // Clear any stale cookies
@@ -162,6 +281,72 @@ function AuthProviderInternal({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const verifyTwoFactor = async (challengeToken: string, code: string) => {
+    try {
+      const result = await twoFactorMutation.mutateAsync({
+        challengeToken,
+        code,
+      });
+      return result;
+    } catch (error) {
+      throw error;
+    }
+  };
+
+  const verifyTwoFactorWithPasskey = async (challengeToken: string) => {
+    const optionsResult = (await passkeyOptionsMutation.mutateAsync({
+      action: "secondFactorOptions",
+      challengeToken,
+    })) as PasskeysOutput;
+    if (!optionsResult.success || !optionsResult.options) {
+      return optionsResult;
+    }
+
+    const assertion = await getPasskeyAssertion(
+      optionsResult.options as unknown as PasskeyRequestOptions
+    );
+    return twoFactorMutation.mutateAsync({ challengeToken, assertion });
+  };
+
+  const loginWithMagicLink = async (token: string) => {
+    try {
+      const result = await magicLinkMutation.mutateAsync({
+        action: "verify",
+        token,
+      });
+      return result;
+    } catch (error) {
+      throw error;
+    }
+  };
+
+  const loginWithOAuth = async (code: string, state: string) => {
+    try {
+      const result = await oauthMutation.mutateAsync({
+        action: "callback",
+        code,
+        state,
+      });
+      return result;
+    } catch (error) {
+      throw error;
+    }
+  };
+
+  const loginWithPasskey = async () => {
+    const optionsResult = (await passkeyOptionsMutation.mutateAsync({
+      action: "loginOptions",
+    })) as PasskeysOutput;
+    if (!optionsResult.success || !optionsResult.options) {
+      return optionsResult;
+    }
+
+    const credential = await getPasskeyAssertion(
+      optionsResult.options as unknown as PasskeyRequestOptions
+    );
+    return passkeyMutation.mutateAsync({ action: "login", credential });
+  };
+
   const register = async (email: string, password: string, name: string) => {
     try {
       const result = await registerMutation.mutateAsync({
@@ -193,8 +378,15 @@ function AuthProviderInternal({ children }: { children: React.ReactNode }) {
     user,
     isAuthenticated: !!user,
     isAdmin: user?.role === "ADMIN",
+    hasPermission: (permission: string) =>
+      user?.role === "ADMIN" || !!user?.permissions?.includes(permission),
     isLoading,
     login,
+    verifyTwoFactor,
+    verifyTwoFactorWithPasskey,
+    loginWithMagicLink,
+    loginWithOAuth,
+    loginWithPasskey,
     register,
     logout,
     updateUser,
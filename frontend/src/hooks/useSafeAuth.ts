@@ -15,7 +15,13 @@ export function useSafeAuth() {
       isAuthenticated: false,
       isLoading: true,
       isAdmin: false,
+      hasPermission: () => false,
       login: async () => ({ success: false, error: "Auth not ready" }),
+      verifyTwoFactor: async () => ({ success: false, error: "Auth not ready" }),
+      verifyTwoFactorWithPasskey: async () => ({ success: false, error: "Auth not ready" }),
+      loginWithMagicLink: async () => ({ success: false, error: "Auth not ready" }),
+      loginWithOAuth: async () => ({ success: false, error: "Auth not ready" }),
+      loginWithPasskey: async () => ({ success: false, error: "Auth not ready" }),
       register: async () => ({ success: false, error: "Auth not ready" }),
       logout: async () => {},
       checkAuth: async () => {},
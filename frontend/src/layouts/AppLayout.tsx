@@ -1,4 +1,6 @@
 import { Button } from "../components/ui/button";
+import { EmailVerificationBanner } from "../components/EmailVerificationBanner";
+import { ImpersonationBanner } from "../components/ImpersonationBanner";
 import { Menu } from "lucide-react";
 import { PageTransition } from "../components/PageTransition";
 import React from "react";
@@ -52,6 +54,10 @@ export function AppLayout({ children }: AppLayoutProps) {
             sidebarCollapsed ? "lg:pl-20" : "lg:pl-72"
           )}
         >
+          {/* Shown on every page while signed in as another user */}
+          <ImpersonationBanner />
+          <EmailVerificationBanner />
+
           {/* Mobile header */}
           <div className="glass-card m-4 p-4 lg:hidden rounded-2xl">
             <div className="flex items-center justify-between">
@@ -4,6 +4,7 @@
  */
 
 import { ErrorHandler } from "./error-handler";
+import { CSRF_HEADER, getCsrfToken, needsCsrfToken } from "./csrf";
 
 const API_BASE_URL = 'http://localhost:4000/api';
 
@@ -24,8 +25,13 @@ export interface User {
   id: string;
   email: string;
   name: string;
-  role: 'ADMIN' | 'USER';
+  role: string; // 'ADMIN', 'USER' or a custom role, in the active organization
   emailVerified: boolean;
+  organizationId?: string | null; // Active organization
+  permissions?: string[]; // Granted by the role, e.g. 'users:read'
+  impersonator?: { id: string; email: string; name: string } | null; // Administrator signed in as this user
+  passwordExpired?: boolean; // Older than PASSWORD_MAX_AGE_DAYS; only /change-password is reachable
+
   profileImage?: string;
   preferences?: {
     theme?: 'light' | 'dark' | 'system';
@@ -118,6 +124,12 @@ class ApiClient {
       Object.assign(headers, options.headers);
     }
 
+    // State-changing calls echo the CSRF token from the page payload
+    const csrfToken = getCsrfToken();
+    if (csrfToken && needsCsrfToken(options.method)) {
+      headers[CSRF_HEADER] = csrfToken;
+    }
+
     // Session authentication is handled via cookies automatically
     // No need to set Authorization header as backend reads from cookies
 
@@ -15,6 +15,33 @@ interface ErrorHandlerOptions {
 // Global flags to prevent multiple redirects and toasts
 let isRedirecting = false;
 let lastAuthErrorTime = 0;
+let lastRateLimitToastTime = 0;
+
+// Requests to a rate limited endpoint wait this long at most before retrying once
+const MAX_AUTO_RETRY_MS = 10000;
+
+// Endpoint path -> timestamp until which requests should be held back
+const rateLimitedUntil = new Map<string, number>();
+
+/**
+ * Thrown when the server answered 429 Too Many Requests
+ */
+export class RateLimitError extends Error {
+  constructor(message: string, public readonly retryAfterMs: number) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+function endpointKey(url: string): string {
+  try {
+    return new URL(url, window.location.origin).pathname;
+  } catch {
+    return url.split("?")[0];
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 export class BlokErrorHandler {
   /**
@@ -23,6 +50,8 @@ export class BlokErrorHandler {
   static async handleResponse(response: Response, options: ErrorHandlerOptions = {}) {
     const { showToast = true, redirectToLogin = true, customMessage } = options;
 
+    this.recordRateLimit(response);
+
     if (!response.ok) {
       let errorMessage = customMessage || `HTTP ${response.status}: ${response.statusText}`;
       
@@ -61,6 +90,21 @@ export class BlokErrorHandler {
         return;
       }
 
+      // Handle rate limiting: the server tells us how long to back off
+      if (response.status === 429) {
+        const retryAfterMs = this.getRetryAfterMs(response) ?? 1000;
+        const now = Date.now();
+
+        if (showToast && now - lastRateLimitToastTime > 5000) {
+          lastRateLimitToastTime = now;
+          toast.warning("Too Many Requests", {
+            description: `Please wait ${Math.ceil(retryAfterMs / 1000)} seconds before trying again.`
+          });
+        }
+
+        throw new RateLimitError(errorMessage, retryAfterMs);
+      }
+
       // Handle other errors
       if (showToast) {
         if (response.status >= 500) {
@@ -88,6 +132,53 @@ export class BlokErrorHandler {
     return response;
   }
 
+  /**
+   * Delay requested by the server, from `Retry-After` (seconds or HTTP date)
+   * or, when exhausted, the `RateLimit-Reset` header
+   */
+  static getRetryAfterMs(response: Response): number | null {
+    const retryAfter = response.headers.get("Retry-After");
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+      const date = Date.parse(retryAfter);
+      if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+    }
+
+    const remaining = response.headers.get("RateLimit-Remaining");
+    const reset = response.headers.get("RateLimit-Reset");
+    if (remaining === "0" && reset && !Number.isNaN(Number(reset))) {
+      return Math.max(0, Number(reset) * 1000);
+    }
+
+    return null;
+  }
+
+  /**
+   * Remember when an endpoint may be called again (429, or no requests remaining)
+   */
+  static recordRateLimit(response: Response) {
+    const key = endpointKey(response.url);
+    const retryAfterMs = this.getRetryAfterMs(response);
+
+    if (response.status === 429) {
+      rateLimitedUntil.set(key, Date.now() + (retryAfterMs ?? 1000));
+    } else if (retryAfterMs !== null && response.headers.get("RateLimit-Remaining") === "0") {
+      rateLimitedUntil.set(key, Date.now() + retryAfterMs);
+    } else if (response.ok) {
+      rateLimitedUntil.delete(key);
+    }
+  }
+
+  /**
+   * Milliseconds to wait before calling an endpoint again (0 when not rate limited)
+   */
+  static getBackoffMs(url: string): number {
+    const until = rateLimitedUntil.get(endpointKey(url));
+    return until ? Math.max(0, until - Date.now()) : 0;
+  }
+
   /**
    * Handle generic errors with proper navigation
    */
@@ -190,8 +281,17 @@ export async function apiCall<T>(
   options: RequestInit = {},
   errorOptions: ErrorHandlerOptions = {}
 ): Promise<T> {
-  try {
-    const response = await fetch(url, {
+  const send = async () => {
+    // Back off automatically while the endpoint is rate limited
+    const backoffMs = BlokErrorHandler.getBackoffMs(url);
+    if (backoffMs > MAX_AUTO_RETRY_MS) {
+      throw new RateLimitError("Rate limit exceeded", backoffMs);
+    }
+    if (backoffMs > 0) {
+      await sleep(backoffMs);
+    }
+
+    return fetch(url, {
       credentials: 'include',
       headers: {
         'Content-Type': 'application/json',
@@ -199,10 +299,24 @@ export async function apiCall<T>(
       },
       ...options,
     });
+  };
+
+  try {
+    let response = await send();
+
+    // A 429 means the request was not processed, so a single retry is safe
+    if (response.status === 429 && BlokErrorHandler.getBackoffMs(url) <= MAX_AUTO_RETRY_MS) {
+      BlokErrorHandler.recordRateLimit(response);
+      response = await send();
+    }
 
     await BlokErrorHandler.handleResponse(response, errorOptions);
     return await response.json();
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      // Already reported by handleResponse
+      throw error;
+    }
     BlokErrorHandler.handleGenericError(error, errorOptions);
     throw error;
   }
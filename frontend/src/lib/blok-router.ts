@@ -3,6 +3,8 @@
  * Provides seamless SPA navigation with server-side integration
  */
 
+import { setCsrfToken } from './csrf';
+
 export interface VisitOptions {
   method?: 'get' | 'post' | 'put' | 'patch' | 'delete';
   data?: Record<string, any>;
@@ -28,6 +30,7 @@ export interface PageData {
   };
   url: string;
   version?: string;
+  csrfToken?: string;
 }
 
 export interface NavigationState {
@@ -113,6 +116,12 @@ class BlokRouter {
       '/dashboard': 'Dashboard',
       '/login': 'Login',
       '/register': 'Register',
+      '/accept-invite': 'AcceptInvite',
+      '/email-change': 'EmailChange',
+      '/verify-email': 'VerifyEmail',
+      '/magic-link': 'MagicLink',
+      '/oauth-callback': 'OAuthCallback',
+      '/change-password': 'ChangePassword',
       '/profile': 'Profile',
       '/settings': 'Settings',
       '/security': 'Security',
@@ -258,6 +267,7 @@ class BlokRouter {
       }
 
       const pageData: PageData = await response.json();
+      setCsrfToken(pageData.csrfToken);
       
       // Handle server-side redirects
       if (pageData.props?.redirectTo) {
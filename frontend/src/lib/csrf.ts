@@ -0,0 +1,72 @@
+/**
+ * CSRF token handling
+ *
+ * The server hands out a CSRF token with every page payload (`csrfToken`).
+ * Mutating API calls made with the session cookie must echo it in the
+ * `X-CSRF-Token` header; `withCsrfHeader` adds it to outgoing requests.
+ */
+
+export const CSRF_HEADER = 'X-CSRF-Token';
+
+// Error code of the 403 answered when the token is missing or stale
+export const CSRF_ERROR_CODE = 'CSRF_TOKEN_INVALID';
+
+let csrfToken: string | null = null;
+
+export function setCsrfToken(token: string | null | undefined): void {
+  if (token) {
+    csrfToken = token;
+  }
+}
+
+export function getCsrfToken(): string | null {
+  if (!csrfToken) {
+    csrfToken = (window as any).__BLOK_PAGE_DATA__?.csrfToken ?? null;
+  }
+  return csrfToken;
+}
+
+/**
+ * Only state-changing methods are checked by the server
+ */
+export function needsCsrfToken(method: string | undefined): boolean {
+  return !['GET', 'HEAD', 'OPTIONS'].includes((method || 'GET').toUpperCase());
+}
+
+/**
+ * Copy of `headers` with the CSRF header set to the current token
+ */
+export function withCsrfHeader(headers: HeadersInit | undefined): Headers {
+  const merged = new Headers(headers);
+  const token = getCsrfToken();
+  if (token) {
+    merged.set(CSRF_HEADER, token);
+  }
+  return merged;
+}
+
+/**
+ * Fetch a fresh page payload to (re)load the token, e.g. when the SPA was
+ * served by the Vite dev server without server data, or the token went stale.
+ */
+export async function loadCsrfToken(
+  origin: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<string | null> {
+  try {
+    const response = await fetchImpl(`${origin}/`, {
+      headers: {
+        Accept: 'application/json',
+        'X-Blok-Navigation': 'true',
+      },
+      credentials: 'include',
+    });
+    if (response.ok) {
+      const pageData = await response.json();
+      setCsrfToken(pageData?.csrfToken);
+    }
+  } catch (error) {
+    console.warn('Failed to load CSRF token:', error);
+  }
+  return getCsrfToken();
+}
@@ -13,6 +13,11 @@ interface ErrorHandlerOptions {
   customMessage?: string;
 }
 
+// Error code of the 403 answered to unverified users (EMAIL_VERIFICATION_POLICY=restrict)
+const EMAIL_NOT_VERIFIED_CODE = "EMAIL_NOT_VERIFIED";
+// Error code of the 403 answered to users whose password is older than PASSWORD_MAX_AGE_DAYS
+const PASSWORD_EXPIRED_CODE = "PASSWORD_EXPIRED";
+
 // Global state for error deduplication
 let isRedirecting = false;
 let lastAuthErrorTime = 0;
@@ -27,10 +32,12 @@ export class ErrorHandler {
 
     if (!response.ok) {
       let errorMessage = customMessage || "An error occurred";
+      let errorCode: string | undefined;
       
       try {
         const errorData = await response.json();
         errorMessage = errorData.message || errorData.error || errorMessage;
+        errorCode = errorData.code;
       } catch {
         // If response is not JSON, use status text
         errorMessage = response.statusText || errorMessage;
@@ -64,6 +71,14 @@ export class ErrorHandler {
         return;
       }
 
+      // The password expired while the page was open: the server only allows changing it
+      if (response.status === 403 && errorCode === PASSWORD_EXPIRED_CODE) {
+        if (window.location.pathname !== "/change-password") {
+          blokRouter.push(`/change-password?returnTo=${encodeURIComponent(window.location.pathname)}`);
+        }
+        throw new Error(errorMessage);
+      }
+
       // Handle other HTTP errors
       if (showToast) {
         let toastTitle = "Error";
@@ -74,6 +89,10 @@ export class ErrorHandler {
             toastTitle = "Invalid Request";
             break;
           case 403:
+            if (errorCode === EMAIL_NOT_VERIFIED_CODE) {
+              toastTitle = "Email not verified";
+              break;
+            }
             toastTitle = "Access Denied";
             toastDescription = "You don't have permission to perform this action";
             break;
@@ -0,0 +1,121 @@
+/**
+ * WebAuthn browser ceremonies
+ *
+ * The passkeys workflow sends options with binary fields (challenge, user id,
+ * credential ids) as base64url strings and expects the credential back in the
+ * same JSON shape. These helpers convert in both directions around
+ * `navigator.credentials.create()` / `.get()`.
+ */
+
+type CredentialDescriptorJSON = {
+  id: string;
+  type: "public-key";
+  transports?: string[];
+};
+
+export type PasskeyCreationOptions = {
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  challenge: string;
+  pubKeyCredParams: { type: "public-key"; alg: number }[];
+  timeout?: number;
+  attestation?: AttestationConveyancePreference;
+  excludeCredentials?: CredentialDescriptorJSON[];
+  authenticatorSelection?: AuthenticatorSelectionCriteria;
+};
+
+export type PasskeyRequestOptions = {
+  rpId: string;
+  challenge: string;
+  timeout?: number;
+  allowCredentials?: CredentialDescriptorJSON[];
+  userVerification?: UserVerificationRequirement;
+};
+
+export function isPasskeySupported(): boolean {
+  return typeof window !== "undefined" && !!window.PublicKeyCredential && !!navigator.credentials;
+}
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  let binary = "";
+  for (const byte of new Uint8Array(buffer)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function toDescriptors(credentials: CredentialDescriptorJSON[] = []): PublicKeyCredentialDescriptor[] {
+  return credentials.map((credential) => ({
+    id: fromBase64Url(credential.id),
+    type: credential.type,
+    transports: credential.transports as AuthenticatorTransport[] | undefined,
+  }));
+}
+
+/**
+ * Create a passkey; resolves to the `credential` for the register action
+ */
+export async function createPasskey(options: PasskeyCreationOptions): Promise<Record<string, unknown>> {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      user: { ...options.user, id: fromBase64Url(options.user.id) },
+      excludeCredentials: toDescriptors(options.excludeCredentials),
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) {
+    throw new Error("Passkey creation was cancelled");
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      attestationObject: toBase64Url(response.attestationObject),
+      transports: typeof response.getTransports === "function" ? response.getTransports() : [],
+    },
+  };
+}
+
+/**
+ * Sign a challenge with a passkey; resolves to the assertion for login or 2FA
+ */
+export async function getPasskeyAssertion(options: PasskeyRequestOptions): Promise<Record<string, unknown>> {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      allowCredentials: toDescriptors(options.allowCredentials),
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) {
+    throw new Error("Passkey sign-in was cancelled");
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: response.userHandle ? toBase64Url(response.userHandle) : null,
+    },
+  };
+}
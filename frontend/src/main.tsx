@@ -11,6 +11,13 @@ import { BlokNavigationProvider } from "./contexts/BlokNavigationContext";
 import BlokPageRenderer from "./components/BlokPageRenderer";
 import { BlokProvider } from "@well-prado/blok-react-sdk";
 import { ErrorHandler } from "./lib/error-handler";
+import {
+  CSRF_ERROR_CODE,
+  getCsrfToken,
+  loadCsrfToken,
+  needsCsrfToken,
+  withCsrfHeader,
+} from "./lib/csrf";
 import { NotificationProvider } from "./contexts/NotificationContext";
 import { ProtectedRoute } from "./components/ProtectedRoute";
 import ReactDOM from "react-dom/client";
@@ -21,6 +28,12 @@ import { Toaster } from "./components/ui/sonner";
 const HomePage = React.lazy(() => import("./pages/Home"));
 const LoginPage = React.lazy(() => import("./pages/Login"));
 const RegisterPage = React.lazy(() => import("./pages/Register"));
+const AcceptInvitePage = React.lazy(() => import("./pages/AcceptInvite"));
+const EmailChangePage = React.lazy(() => import("./pages/EmailChange"));
+const VerifyEmailPage = React.lazy(() => import("./pages/VerifyEmail"));
+const MagicLinkPage = React.lazy(() => import("./pages/MagicLink"));
+const OAuthCallbackPage = React.lazy(() => import("./pages/OAuthCallback"));
+const ChangePasswordPage = React.lazy(() => import("./pages/ChangePassword"));
 const DashboardPage = React.lazy(() => import("./pages/Dashboard"));
 const ProfilePage = React.lazy(() => import("./pages/Profile"));
 const SecurityPage = React.lazy(() => import("./pages/Security"));
@@ -43,14 +56,85 @@ const PageLoader = () => (
   </div>
 );
 
-// Global fetch interceptor for 401 handling
+// Global fetch interceptor for CSRF tokens and 401 handling
 const originalFetch = window.fetch;
+
+// Endpoints whose 401 must not trigger a session refresh
+const AUTH_ENDPOINTS = ["/api/auth-login", "/api/auth-2fa-verify", "/api/auth-refresh", "/api/auth-logout"];
+
+// One refresh at a time: concurrent 401s wait for the same rotation
+let refreshInFlight: Promise<boolean> | null = null;
+
+const refreshSession = (requestUrl: string): Promise<boolean> => {
+  if (!refreshInFlight) {
+    const refreshUrl = new URL("/api/auth-refresh", new URL(requestUrl, window.location.href));
+    refreshInFlight = originalFetch(refreshUrl, {
+      method: "POST",
+      credentials: "include",
+      headers: withCsrfHeader({ "Content-Type": "application/json" }),
+      body: "{}",
+    })
+      .then(async (response) => response.ok && (await response.json()).success === true)
+      .catch(() => false)
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+};
+
+// Mutating API calls (api.ts, blok SDK hooks, ...) carry the CSRF token from the page payload
+const withCsrfToken = async (
+  args: Parameters<typeof fetch>
+): Promise<Parameters<typeof fetch>> => {
+  const [input, init] = args;
+  const requestUrl = input instanceof Request ? input.url : input.toString();
+  const method = init?.method ?? (input instanceof Request ? input.method : "GET");
+  if (!requestUrl.includes("/api/") || !needsCsrfToken(method)) {
+    return args;
+  }
+
+  if (!getCsrfToken()) {
+    await loadCsrfToken(new URL(requestUrl, window.location.href).origin, originalFetch);
+  }
+
+  if (input instanceof Request && !init) {
+    return [new Request(input, { headers: withCsrfHeader(input.headers) })];
+  }
+  return [input, { ...init, headers: withCsrfHeader(init?.headers) }];
+};
+
+const isCsrfRejection = async (response: Response): Promise<boolean> => {
+  if (response.status !== 403) return false;
+  try {
+    const body = await response.clone().json();
+    return body?.code === CSRF_ERROR_CODE;
+  } catch {
+    return false;
+  }
+};
+
 window.fetch = async (...args) => {
   try {
-    const response = await originalFetch(...args);
+    let response = await originalFetch(...(await withCsrfToken(args)));
+    const requestUrl = args[0] instanceof Request ? args[0].url : args[0].toString();
+
+    // Stale CSRF token (e.g. cookies cleared in another tab): reload it once and replay
+    if (!(args[0] instanceof Request) && (await isCsrfRejection(response))) {
+      await loadCsrfToken(new URL(requestUrl, window.location.href).origin, originalFetch);
+      response = await originalFetch(...(await withCsrfToken(args)));
+    }
 
     // Only handle 401s for API calls (not static assets)
-    if (response.status === 401 && args[0].toString().includes("/api/")) {
+    if (response.status === 401 && requestUrl.includes("/api/")) {
+      // Expired session: try the refresh token cookie once, then replay the request
+      const canReplay = !(args[0] instanceof Request);
+      if (canReplay && !AUTH_ENDPOINTS.some((endpoint) => requestUrl.includes(endpoint))) {
+        if (await refreshSession(requestUrl)) {
+          return originalFetch(...(await withCsrfToken(args)));
+        }
+      }
+
       // Dispatch auth error event
       window.dispatchEvent(new CustomEvent("auth-error"));
 
@@ -113,8 +197,36 @@ root.render(
                           <Route path="/" element={<HomePage />} />
                           <Route path="/login" element={<LoginPage />} />
                           <Route path="/register" element={<RegisterPage />} />
+                          <Route
+                            path="/accept-invite"
+                            element={<AcceptInvitePage />}
+                          />
+                          <Route
+                            path="/email-change"
+                            element={<EmailChangePage />}
+                          />
+                          <Route
+                            path="/verify-email"
+                            element={<VerifyEmailPage />}
+                          />
+                          <Route
+                            path="/magic-link"
+                            element={<MagicLinkPage />}
+                          />
+                          <Route
+                            path="/oauth-callback"
+                            element={<OAuthCallbackPage />}
+                          />
 
                           {/* Protected routes - require authentication */}
+                          <Route
+                            path="/change-password"
+                            element={
+                              <ProtectedRoute>
+                                <ChangePasswordPage />
+                              </ProtectedRoute>
+                            }
+                          />
                           <Route
                             path="/dashboard"
                             element={
@@ -176,7 +288,7 @@ root.render(
                           <Route
                             path="/users"
                             element={
-                              <ProtectedRoute requireAdmin>
+                              <ProtectedRoute permission="users:read">
                                 <UsersPage />
                               </ProtectedRoute>
                             }
@@ -192,7 +304,7 @@ root.render(
                           <Route
                             path="/logs"
                             element={
-                              <ProtectedRoute requireAdmin>
+                              <ProtectedRoute permission="logs:read">
                                 <div>Admin Logs temporarily unavailable</div>
                               </ProtectedRoute>
                             }
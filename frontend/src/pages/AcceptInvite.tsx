@@ -0,0 +1,276 @@
+import { Alert, AlertDescription } from "../components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Eye, EyeOff, Lock, Mail, MailOpen, User } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import {
+  useWorkflowMutation,
+  type InvitationAcceptOutput,
+  type InvitationPreview,
+} from "../blok-types";
+
+import { AuthLayout } from "../layouts/AuthLayout";
+import { BlokLink } from "../components/BlokLink";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { toast } from "sonner";
+import { useBlokRouter } from "../hooks/useBlokRouter";
+
+/**
+ * Accept an invitation (link from the invite email): the invitee chooses their
+ * name and password, then signs in
+ */
+export default function AcceptInvitePage() {
+  const router = useBlokRouter();
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [isChecking, setIsChecking] = useState(true);
+  const [formData, setFormData] = useState({
+    name: "",
+    password: "",
+    confirmPassword: "",
+  });
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const invitationMutation = useWorkflowMutation({
+    workflowKey: "invitation-accept",
+  });
+
+  useEffect(() => {
+    const loadInvitation = async () => {
+      try {
+        const result = (await invitationMutation.mutateAsync({
+          action: "preview",
+          token,
+        })) as InvitationAcceptOutput;
+        if (result.success && result.invitation) {
+          setInvitation(result.invitation);
+          setFormData((prev) => ({ ...prev, name: result.invitation?.name || "" }));
+        }
+      } catch {
+        setInvitation(null);
+      } finally {
+        setIsChecking(false);
+      }
+    };
+
+    loadInvitation();
+  }, [token]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (formData.password !== formData.confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+    if (formData.password.length < 8) {
+      setError("Password must be at least 8 characters long");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = (await invitationMutation.mutateAsync({
+        action: "accept",
+        token,
+        name: formData.name.trim(),
+        password: formData.password,
+      })) as InvitationAcceptOutput;
+
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+      toast.success(result.message);
+      router.push("/login");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to accept the invitation");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-black dark:via-gray-900 dark:to-black">
+      {/* Background pattern for glass effect */}
+      <div className="fixed inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(255,255,255,0.02),transparent_50%)] dark:bg-[radial-gradient(circle_at_50%_50%,rgba(255,255,255,0.008),transparent_50%)] pointer-events-none" />
+      <div className="fixed inset-0 bg-[radial-gradient(circle_at_80%_20%,rgba(255,255,255,0.01),transparent_50%)] dark:bg-[radial-gradient(circle_at_80%_20%,rgba(255,255,255,0.004),transparent_50%)] pointer-events-none" />
+
+      <AuthLayout>
+        <div className="relative z-10">
+          <Card className="w-full glass-card border-0">
+            <CardHeader className="text-center pb-2">
+              <div className="w-12 h-12 bg-primary rounded-xl flex items-center justify-center mx-auto mb-4">
+                <MailOpen className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <CardTitle className="text-2xl font-bold text-foreground">
+                Accept Invitation
+              </CardTitle>
+              <CardDescription className="text-muted-foreground">
+                {invitation
+                  ? `${invitation.inviterName} invited you to ${
+                      invitation.organizationName || "Blok Admin"
+                    } as ${invitation.role}`
+                  : "Set up your account"}
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+              {isChecking ? (
+                <div className="text-center text-muted-foreground">
+                  Checking your invitation...
+                </div>
+              ) : !invitation ? (
+                <Alert className="border-destructive/20 bg-destructive/10">
+                  <AlertDescription className="text-destructive">
+                    This invitation is invalid or has expired. Ask your
+                    administrator to send a new one.
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <>
+                  {error && (
+                    <Alert className="border-destructive/20 bg-destructive/10">
+                      <AlertDescription className="text-destructive">
+                        {error}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="email"
+                        className="text-sm font-medium text-foreground"
+                      >
+                        Email Address
+                      </Label>
+                      <div className="relative pt-1">
+                        <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          id="email"
+                          type="email"
+                          value={invitation.email}
+                          className="pl-10"
+                          disabled
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="name"
+                        className="text-sm font-medium text-foreground"
+                      >
+                        Full Name
+                      </Label>
+                      <div className="relative pt-1">
+                        <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          id="name"
+                          name="name"
+                          type="text"
+                          value={formData.name}
+                          onChange={handleInputChange}
+                          placeholder="Enter your full name"
+                          className="pl-10"
+                          required
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="password"
+                        className="text-sm font-medium text-foreground"
+                      >
+                        Password
+                      </Label>
+                      <div className="relative pt-1">
+                        <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          id="password"
+                          name="password"
+                          type={showPassword ? "text" : "password"}
+                          value={formData.password}
+                          onChange={handleInputChange}
+                          placeholder="Create a password"
+                          className="pl-10 pr-10"
+                          required
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setShowPassword(!showPassword)}
+                          className="absolute right-3 top-3 h-4 w-4 text-muted-foreground hover:text-foreground transition-colors"
+                        >
+                          {showPassword ? (
+                            <EyeOff className="h-4 w-4" />
+                          ) : (
+                            <Eye className="h-4 w-4" />
+                          )}
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="confirmPassword"
+                        className="text-sm font-medium text-foreground"
+                      >
+                        Confirm Password
+                      </Label>
+                      <div className="relative pt-1">
+                        <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          id="confirmPassword"
+                          name="confirmPassword"
+                          type={showPassword ? "text" : "password"}
+                          value={formData.confirmPassword}
+                          onChange={handleInputChange}
+                          placeholder="Confirm your password"
+                          className="pl-10"
+                          required
+                        />
+                      </div>
+                    </div>
+
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? "Creating account..." : "Create Account"}
+                    </Button>
+                  </form>
+                </>
+              )}
+            </CardContent>
+
+            <CardFooter className="text-center justify-center">
+              <p className="text-sm text-muted-foreground">
+                Already have an account?{" "}
+                <BlokLink
+                  href="/login"
+                  className="text-primary hover:text-primary/80 font-medium"
+                >
+                  Sign in
+                </BlokLink>
+              </p>
+            </CardFooter>
+          </Card>
+        </div>
+      </AuthLayout>
+    </div>
+  );
+}
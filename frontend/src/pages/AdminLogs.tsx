@@ -109,7 +109,7 @@ interface LogFilters {
 }
 
 export default function AdminLogsPage() {
-  const { user, isAuthenticated } = useAuth();
+  const { isAuthenticated, hasPermission } = useAuth();
   const router = useBlokRouter();
 
   // State management
@@ -162,7 +162,7 @@ export default function AdminLogsPage() {
       }),
       ...(filters.filterSuccess && { filterSuccess: filters.filterSuccess }),
     },
-    enabled: isAuthenticated && user?.role === "ADMIN",
+    enabled: isAuthenticated && hasPermission("logs:read"),
   }) as {
     data?: AdminLogsOutput;
     isLoading: boolean;
@@ -170,8 +170,8 @@ export default function AdminLogsPage() {
     refetch: () => void;
   };
 
-  // Redirect if not authenticated or not admin
-  if (!isAuthenticated || user?.role !== "ADMIN") {
+  // Redirect if not authenticated or without the logs:read permission
+  if (!isAuthenticated || !hasPermission("logs:read")) {
     router.push("/dashboard");
     return null;
   }
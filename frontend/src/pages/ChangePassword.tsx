@@ -0,0 +1,176 @@
+import { Alert, AlertDescription } from "../components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import React, { useState } from "react";
+
+import { AuthLayout } from "../layouts/AuthLayout";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { KeyRound } from "lucide-react";
+import { Label } from "../components/ui/label";
+import { toast } from "sonner";
+import { useAuth } from "../contexts/AuthContext";
+import { useBlokRouter } from "../hooks/useBlokRouter";
+import { useLocation } from "react-router-dom";
+import { useWorkflowMutation } from "../blok-types";
+
+/**
+ * Choose a new password. Users whose password is older than
+ * PASSWORD_MAX_AGE_DAYS are sent here by ProtectedRoute after login, and the
+ * server refuses everything else until the change goes through.
+ */
+export default function ChangePasswordPage() {
+  const { user, updateUser, logout } = useAuth();
+  const router = useBlokRouter();
+  const location = useLocation();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const passwordMutation = useWorkflowMutation({
+    workflowKey: "password-reset",
+  });
+
+  const returnTo = new URLSearchParams(window.location.search).get("returnTo");
+  const returnPath = location.state?.from || returnTo || "/dashboard";
+  const isExpired = !!user?.passwordExpired;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (newPassword !== confirmPassword) {
+      setError("New passwords do not match");
+      return;
+    }
+    if (newPassword === currentPassword) {
+      setError("Choose a password different from your current one");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await passwordMutation.mutateAsync({
+        operation: "change",
+        currentPassword,
+        newPassword,
+      });
+
+      if (user) {
+        updateUser({ ...user, passwordExpired: false });
+      }
+      toast.success("Password changed");
+      router.push(returnPath);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change password");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-black dark:via-gray-900 dark:to-black">
+      {/* Background pattern for glass effect */}
+      <div className="fixed inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(255,255,255,0.02),transparent_50%)] dark:bg-[radial-gradient(circle_at_50%_50%,rgba(255,255,255,0.008),transparent_50%)] pointer-events-none" />
+      <div className="fixed inset-0 bg-[radial-gradient(circle_at_80%_20%,rgba(255,255,255,0.01),transparent_50%)] dark:bg-[radial-gradient(circle_at_80%_20%,rgba(255,255,255,0.004),transparent_50%)] pointer-events-none" />
+
+      <AuthLayout>
+        <div className="relative z-10">
+          <Card className="w-full glass-card border-0">
+            <CardHeader className="text-center pb-2">
+              <div className="w-12 h-12 bg-primary rounded-xl flex items-center justify-center mx-auto mb-4">
+                <KeyRound className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <CardTitle className="text-2xl font-bold text-foreground">
+                {isExpired ? "Your Password Has Expired" : "Change Password"}
+              </CardTitle>
+              <CardDescription className="text-muted-foreground">
+                {isExpired
+                  ? "Choose a new password to continue"
+                  : "Choose a new password for your account"}
+              </CardDescription>
+            </CardHeader>
+
+            <form onSubmit={handleSubmit}>
+              <CardContent className="space-y-4">
+                {error && (
+                  <Alert className="border-destructive/20 bg-destructive/10">
+                    <AlertDescription className="text-destructive">
+                      {error}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="currentPassword">Current password</Label>
+                  <Input
+                    id="currentPassword"
+                    type="password"
+                    autoComplete="current-password"
+                    className="glass-input"
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="newPassword">New password</Label>
+                  <Input
+                    id="newPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    className="glass-input"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    minLength={8}
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    At least 8 characters with upper and lower case letters and
+                    a number. Recently used passwords are not accepted.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">Confirm new password</Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    className="glass-input"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                  />
+                </div>
+
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? "Changing password..." : "Change Password"}
+                </Button>
+              </CardContent>
+            </form>
+
+            <CardFooter className="text-center justify-center">
+              <Button
+                variant="link"
+                className="text-sm text-muted-foreground"
+                onClick={() => logout()}
+              >
+                Sign out
+              </Button>
+            </CardFooter>
+          </Card>
+        </div>
+      </AuthLayout>
+    </div>
+  );
+}
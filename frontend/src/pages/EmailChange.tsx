@@ -0,0 +1,140 @@
+import { Alert, AlertDescription } from "../components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { MailCheck, Undo2 } from "lucide-react";
+import { useState } from "react";
+import { useWorkflowMutation, type EmailChangeOutput } from "../blok-types";
+
+import { AuthLayout } from "../layouts/AuthLayout";
+import { BlokLink } from "../components/BlokLink";
+import { Button } from "../components/ui/button";
+
+/**
+ * Confirm a new email address, or undo a change from the previous address
+ * (links from the email change emails). Nothing happens until the button is
+ * clicked, so link previews in mail clients can't use up the token.
+ */
+export default function EmailChangePage() {
+  const params = new URLSearchParams(window.location.search);
+  const token = params.get("token") || "";
+  const isUndo = params.get("undo") === "1";
+  const [result, setResult] = useState<EmailChangeOutput | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const emailChangeMutation = useWorkflowMutation({
+    workflowKey: "email-change",
+  });
+
+  const handleSubmit = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const response = (await emailChangeMutation.mutateAsync({
+        action: isUndo ? "undo" : "confirm",
+        token,
+      })) as EmailChangeOutput;
+
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+      setResult(response);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : isUndo
+            ? "Failed to undo the email change"
+            : "Failed to confirm the new email address"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const Icon = isUndo ? Undo2 : MailCheck;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-black dark:via-gray-900 dark:to-black">
+      {/* Background pattern for glass effect */}
+      <div className="fixed inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(255,255,255,0.02),transparent_50%)] dark:bg-[radial-gradient(circle_at_50%_50%,rgba(255,255,255,0.008),transparent_50%)] pointer-events-none" />
+      <div className="fixed inset-0 bg-[radial-gradient(circle_at_80%_20%,rgba(255,255,255,0.01),transparent_50%)] dark:bg-[radial-gradient(circle_at_80%_20%,rgba(255,255,255,0.004),transparent_50%)] pointer-events-none" />
+
+      <AuthLayout>
+        <div className="relative z-10">
+          <Card className="w-full glass-card border-0">
+            <CardHeader className="text-center pb-2">
+              <div className="w-12 h-12 bg-primary rounded-xl flex items-center justify-center mx-auto mb-4">
+                <Icon className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <CardTitle className="text-2xl font-bold text-foreground">
+                {isUndo ? "Undo Email Change" : "Confirm Email Change"}
+              </CardTitle>
+              <CardDescription className="text-muted-foreground">
+                {isUndo
+                  ? "Restore your previous email address and sign out everywhere"
+                  : "Start using this address to sign in"}
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+              {!token ? (
+                <Alert className="border-destructive/20 bg-destructive/10">
+                  <AlertDescription className="text-destructive">
+                    This link is incomplete. Open the link from the email again.
+                  </AlertDescription>
+                </Alert>
+              ) : result ? (
+                <Alert>
+                  <AlertDescription>{result.message}</AlertDescription>
+                </Alert>
+              ) : (
+                <>
+                  {error && (
+                    <Alert className="border-destructive/20 bg-destructive/10">
+                      <AlertDescription className="text-destructive">
+                        {error}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  <Button
+                    className="w-full"
+                    variant={isUndo ? "destructive" : "default"}
+                    onClick={handleSubmit}
+                    disabled={isLoading}
+                  >
+                    {isLoading
+                      ? isUndo
+                        ? "Undoing..."
+                        : "Confirming..."
+                      : isUndo
+                        ? "Undo Email Change"
+                        : "Confirm New Email"}
+                  </Button>
+                </>
+              )}
+            </CardContent>
+
+            <CardFooter className="text-center justify-center">
+              <p className="text-sm text-muted-foreground">
+                <BlokLink
+                  href="/login"
+                  className="text-primary hover:text-primary/80 font-medium"
+                >
+                  Back to sign in
+                </BlokLink>
+              </p>
+            </CardFooter>
+          </Card>
+        </div>
+      </AuthLayout>
+    </div>
+  );
+}
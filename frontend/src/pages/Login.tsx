@@ -7,20 +7,44 @@ import {
   CardHeader,
   CardTitle,
 } from "../components/ui/card";
-import { Eye, EyeOff, Lock, LogIn, Mail } from "lucide-react";
+import {
+  ArrowLeft,
+  Eye,
+  EyeOff,
+  KeyRound,
+  Lock,
+  LogIn,
+  Mail,
+  ShieldCheck,
+  Sparkles,
+} from "lucide-react";
 import React, { useEffect, useState } from "react";
+import {
+  useWorkflowMutation,
+  type EmailVerificationOutput,
+  type MagicLinkOutput,
+  type OauthOutput,
+} from "../blok-types";
 
 import { AuthLayout } from "../layouts/AuthLayout";
 import { BlokLink } from "../components/BlokLink";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
 import { Label } from "../components/ui/label";
+import { toast } from "sonner";
 import { useSafeAuth } from "../hooks/useSafeAuth";
+import { isPasskeySupported } from "../lib/webauthn";
 import { useBlokRouter } from "../hooks/useBlokRouter";
 import { useLocation } from "react-router-dom";
 
 export default function LoginPage() {
-  const { login, isAuthenticated } = useSafeAuth();
+  const {
+    login,
+    loginWithPasskey,
+    verifyTwoFactor,
+    verifyTwoFactorWithPasskey,
+    isAuthenticated,
+  } = useSafeAuth();
   const router = useBlokRouter();
   const location = useLocation();
   const [email, setEmail] = useState("");
@@ -28,6 +52,25 @@ export default function LoginPage() {
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [needsVerification, setNeedsVerification] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [magicLinkMode, setMagicLinkMode] = useState(false);
+  const [magicLinkMessage, setMagicLinkMessage] = useState("");
+  const [providers, setProviders] = useState<NonNullable<OauthOutput["providers"]>>([]);
+
+  const verificationMutation = useWorkflowMutation({
+    workflowKey: "email-verification",
+  });
+
+  const magicLinkMutation = useWorkflowMutation({
+    workflowKey: "magic-link",
+  });
+
+  const oauthMutation = useWorkflowMutation({
+    workflowKey: "oauth",
+  });
 
   // Get the return path from location state or URL query parameter
   const urlParams = new URLSearchParams(window.location.search);
@@ -41,13 +84,39 @@ export default function LoginPage() {
     }
   }, [isAuthenticated, returnPath, router, router.isNavigating]);
 
+  // "Sign in with..." buttons for the OIDC providers configured on the server
+  useEffect(() => {
+    oauthMutation
+      .mutateAsync({ action: "providers" })
+      .then((result) => setProviders((result as OauthOutput).providers || []))
+      .catch(() => setProviders([]));
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
+    setNeedsVerification(false);
     setIsLoading(true);
 
     try {
-      await login(email, password);
+      const result = await login(email, password);
+
+      // EMAIL_VERIFICATION_POLICY=block: the password was right but the address is unverified
+      if (result?.emailVerificationRequired) {
+        setNeedsVerification(true);
+      }
+
+      // Accounts with 2FA enabled get a challenge instead of a session
+      if (result?.twoFactorRequired && result.challengeToken) {
+        setChallengeToken(result.challengeToken);
+        setTwoFactorCode("");
+        return;
+      }
+
+      if (result && result.success === false) {
+        throw new Error(result.message || "Login failed");
+      }
+
       router.push(returnPath);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Login failed");
@@ -56,6 +125,167 @@ export default function LoginPage() {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const result = await verifyTwoFactor(challengeToken, twoFactorCode);
+
+      if (result && result.success === false) {
+        // Expired or exhausted challenges require the password step again
+        if (result.challengeExpired) {
+          setChallengeToken(null);
+          setPassword("");
+        }
+        throw new Error(result.message || "Verification failed");
+      }
+
+      router.push(returnPath);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePasskeySignIn = async () => {
+    setError("");
+    setNeedsVerification(false);
+    setIsLoading(true);
+
+    try {
+      const result = await loginWithPasskey();
+
+      if (result?.emailVerificationRequired) {
+        setNeedsVerification(true);
+      }
+
+      // Passkeys without user verification (no PIN or biometric) still need the second factor
+      if (result?.twoFactorRequired && result.challengeToken) {
+        setChallengeToken(result.challengeToken);
+        setTwoFactorCode("");
+        return;
+      }
+
+      if (result && result.success === false) {
+        throw new Error(result.message || "Passkey sign-in failed");
+      }
+
+      router.push(returnPath);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Passkey sign-in failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTwoFactorPasskey = async () => {
+    if (!challengeToken) return;
+
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const result = await verifyTwoFactorWithPasskey(challengeToken);
+
+      if (result && result.success === false) {
+        if (result.challengeExpired) {
+          setChallengeToken(null);
+          setPassword("");
+        }
+        throw new Error(result.message || "Verification failed");
+      }
+
+      router.push(returnPath);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    if (!email) {
+      setError("Enter your email address to get a new verification link");
+      return;
+    }
+
+    setIsResending(true);
+    try {
+      const result = (await verificationMutation.mutateAsync({
+        operation: "request",
+        email,
+      })) as EmailVerificationOutput;
+      toast.success(result.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send the verification email");
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const handleMagicLinkSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const result = (await magicLinkMutation.mutateAsync({
+        action: "request",
+        email,
+      })) as MagicLinkOutput;
+
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+      setMagicLinkMessage(result.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send the sign-in link");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleProviderSignIn = async (providerId: string) => {
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const result = (await oauthMutation.mutateAsync({
+        action: "authorize",
+        provider: providerId,
+        baseUrl: window.location.origin,
+      })) as OauthOutput;
+
+      if (!result.success || !result.authorizationUrl) {
+        throw new Error(result.message || "Sign-in failed");
+      }
+      // The provider sends the browser back to /oauth-callback
+      window.location.href = result.authorizationUrl;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign-in failed");
+      setIsLoading(false);
+    }
+  };
+
+  const toggleMagicLinkMode = () => {
+    setMagicLinkMode(!magicLinkMode);
+    setMagicLinkMessage("");
+    setPassword("");
+    setError("");
+  };
+
+  const handleBackToPassword = () => {
+    setChallengeToken(null);
+    setTwoFactorCode("");
+    setPassword("");
+    setError("");
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-black dark:via-gray-900 dark:to-black">
       {/* Background pattern for glass effect */}
@@ -70,10 +300,14 @@ export default function LoginPage() {
                 <LogIn className="w-6 h-6 text-primary-foreground" />
               </div>
               <CardTitle className="text-2xl font-bold text-foreground">
-                Welcome back
+                {challengeToken ? "Two-factor authentication" : "Welcome back"}
               </CardTitle>
               <CardDescription className="text-muted-foreground">
-                Sign in to your account to continue
+                {challengeToken
+                  ? "Enter the code from your authenticator app to continue"
+                  : magicLinkMode
+                  ? "We'll email you a link to sign in without a password"
+                  : "Sign in to your account to continue"}
               </CardDescription>
             </CardHeader>
 
@@ -86,64 +320,218 @@ export default function LoginPage() {
                 </Alert>
               )}
 
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="email"
-                    className="text-sm font-medium text-foreground"
-                  >
-                    Email Address
-                  </Label>
-                  <div className="relative pt-1">
-                    <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="email"
-                      type="email"
-                      value={email}
-                      onChange={(e) => setEmail(e.target.value)}
-                      placeholder="Enter your email"
-                      className="pl-10"
-                      required
-                    />
+              {challengeToken ? (
+                <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="twoFactorCode"
+                      className="text-sm font-medium text-foreground"
+                    >
+                      Verification Code
+                    </Label>
+                    <div className="relative pt-1">
+                      <ShieldCheck className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="twoFactorCode"
+                        type="text"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        value={twoFactorCode}
+                        onChange={(e) => setTwoFactorCode(e.target.value)}
+                        placeholder="Enter the code from your authenticator app"
+                        className="pl-10 tracking-widest"
+                        autoFocus
+                        required
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Lost your device? Enter one of your backup codes instead.
+                    </p>
                   </div>
-                </div>
 
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="password"
-                    className="text-sm font-medium text-foreground"
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={isLoading || !twoFactorCode}
                   >
-                    Password
-                  </Label>
-                  <div className="relative pt-1">
-                    <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="password"
-                      type={showPassword ? "text" : "password"}
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      placeholder="Enter your password"
-                      className="pl-10 pr-10"
-                      required
-                    />
-                    <button
+                    {isLoading ? "Verifying..." : "Verify"}
+                  </Button>
+
+                  {isPasskeySupported() && (
+                    <Button
                       type="button"
-                      onClick={() => setShowPassword(!showPassword)}
-                      className="absolute right-3 top-3 h-4 w-4 text-muted-foreground hover:text-foreground transition-colors"
+                      variant="outline"
+                      className="w-full"
+                      onClick={handleTwoFactorPasskey}
+                      disabled={isLoading}
+                    >
+                      <KeyRound className="w-4 h-4 mr-2" />
+                      Use a passkey
+                    </Button>
+                  )}
+
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="w-full"
+                    onClick={handleBackToPassword}
+                  >
+                    <ArrowLeft className="w-4 h-4 mr-2" />
+                    Back to sign in
+                  </Button>
+                </form>
+              ) : magicLinkMode ? (
+                <form onSubmit={handleMagicLinkSubmit} className="space-y-4">
+                  {magicLinkMessage ? (
+                    <Alert>
+                      <AlertDescription>{magicLinkMessage}</AlertDescription>
+                    </Alert>
+                  ) : (
+                    <>
+                      <div className="space-y-2">
+                        <Label
+                          htmlFor="magicLinkEmail"
+                          className="text-sm font-medium text-foreground"
+                        >
+                          Email Address
+                        </Label>
+                        <div className="relative pt-1">
+                          <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                          <Input
+                            id="magicLinkEmail"
+                            type="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            placeholder="Enter your email"
+                            className="pl-10"
+                            required
+                          />
+                        </div>
+                      </div>
+
+                      <Button type="submit" className="w-full" disabled={isLoading}>
+                        {isLoading ? "Sending..." : "Email Me a Sign-In Link"}
+                      </Button>
+                    </>
+                  )}
+
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="w-full"
+                    onClick={toggleMagicLinkMode}
+                  >
+                    <Lock className="w-4 h-4 mr-2" />
+                    Sign in with password instead
+                  </Button>
+                </form>
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="email"
+                      className="text-sm font-medium text-foreground"
                     >
-                      {showPassword ? (
-                        <EyeOff className="h-4 w-4" />
-                      ) : (
-                        <Eye className="h-4 w-4" />
-                      )}
-                    </button>
+                      Email Address
+                    </Label>
+                    <div className="relative pt-1">
+                      <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="email"
+                        type="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        placeholder="Enter your email"
+                        className="pl-10"
+                        required
+                      />
+                    </div>
                   </div>
-                </div>
 
-                <Button type="submit" className="w-full" disabled={isLoading}>
-                  {isLoading ? "Signing in..." : "Sign In"}
-                </Button>
-              </form>
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="password"
+                      className="text-sm font-medium text-foreground"
+                    >
+                      Password
+                    </Label>
+                    <div className="relative pt-1">
+                      <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="password"
+                        type={showPassword ? "text" : "password"}
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        placeholder="Enter your password"
+                        className="pl-10 pr-10"
+                        required
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(!showPassword)}
+                        className="absolute right-3 top-3 h-4 w-4 text-muted-foreground hover:text-foreground transition-colors"
+                      >
+                        {showPassword ? (
+                          <EyeOff className="h-4 w-4" />
+                        ) : (
+                          <Eye className="h-4 w-4" />
+                        )}
+                      </button>
+                    </div>
+                  </div>
+
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? "Signing in..." : "Sign In"}
+                  </Button>
+
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    onClick={toggleMagicLinkMode}
+                  >
+                    <Sparkles className="w-4 h-4 mr-2" />
+                    Email me a sign-in link
+                  </Button>
+
+                  {isPasskeySupported() && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="w-full"
+                      onClick={handlePasskeySignIn}
+                      disabled={isLoading}
+                    >
+                      <KeyRound className="w-4 h-4 mr-2" />
+                      Sign in with a passkey
+                    </Button>
+                  )}
+
+                  {providers.map((provider) => (
+                    <Button
+                      key={provider.id}
+                      type="button"
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => handleProviderSignIn(provider.id)}
+                      disabled={isLoading}
+                    >
+                      <LogIn className="w-4 h-4 mr-2" />
+                      Sign in with {provider.name}
+                    </Button>
+                  ))}
+
+                  <Button
+                    type="button"
+                    variant={needsVerification ? "outline" : "ghost"}
+                    className="w-full"
+                    onClick={handleResendVerification}
+                    disabled={isResending}
+                  >
+                    {isResending ? "Sending..." : "Resend verification email"}
+                  </Button>
+                </form>
+              )}
             </CardContent>
 
             <CardFooter className="text-center justify-center">
@@ -0,0 +1,183 @@
+import { Alert, AlertDescription } from "../components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { KeyRound, ShieldCheck } from "lucide-react";
+import React, { useState } from "react";
+import { type MagicLinkOutput } from "../blok-types";
+
+import { AuthLayout } from "../layouts/AuthLayout";
+import { BlokLink } from "../components/BlokLink";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { useBlokRouter } from "../hooks/useBlokRouter";
+import { useSafeAuth } from "../hooks/useSafeAuth";
+
+/**
+ * Sign in with a magic link (link from the sign-in email). Nothing happens
+ * until the button is clicked, so link previews in mail clients can't use up
+ * the token. Accounts with 2FA enter their code here before the session starts.
+ */
+export default function MagicLinkPage() {
+  const { loginWithMagicLink, verifyTwoFactor } = useSafeAuth();
+  const router = useBlokRouter();
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSignIn = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const result = (await loginWithMagicLink(token)) as MagicLinkOutput;
+
+      // Accounts with 2FA enabled get a challenge instead of a session
+      if (result?.twoFactorRequired && result.challengeToken) {
+        setChallengeToken(result.challengeToken);
+        return;
+      }
+
+      if (!result?.success) {
+        throw new Error(result?.message || "Sign-in failed");
+      }
+
+      router.push("/dashboard");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign-in failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+
+    setError("");
+    setIsLoading(true);
+    try {
+      const result = await verifyTwoFactor(challengeToken, twoFactorCode);
+
+      if (result && result.success === false) {
+        // The link is used up, so an expired challenge means starting over
+        if (result.challengeExpired) {
+          setChallengeToken(null);
+          throw new Error("Verification timed out. Request a new sign-in link.");
+        }
+        throw new Error(result.message || "Verification failed");
+      }
+
+      router.push("/dashboard");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-black dark:via-gray-900 dark:to-black">
+      {/* Background pattern for glass effect */}
+      <div className="fixed inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(255,255,255,0.02),transparent_50%)] dark:bg-[radial-gradient(circle_at_50%_50%,rgba(255,255,255,0.008),transparent_50%)] pointer-events-none" />
+      <div className="fixed inset-0 bg-[radial-gradient(circle_at_80%_20%,rgba(255,255,255,0.01),transparent_50%)] dark:bg-[radial-gradient(circle_at_80%_20%,rgba(255,255,255,0.004),transparent_50%)] pointer-events-none" />
+
+      <AuthLayout>
+        <div className="relative z-10">
+          <Card className="w-full glass-card border-0">
+            <CardHeader className="text-center pb-2">
+              <div className="w-12 h-12 bg-primary rounded-xl flex items-center justify-center mx-auto mb-4">
+                <KeyRound className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <CardTitle className="text-2xl font-bold text-foreground">
+                {challengeToken ? "Two-factor authentication" : "Sign In With Email Link"}
+              </CardTitle>
+              <CardDescription className="text-muted-foreground">
+                {challengeToken
+                  ? "Enter the code from your authenticator app to continue"
+                  : "Continue to your account without a password"}
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+              {error && (
+                <Alert className="border-destructive/20 bg-destructive/10">
+                  <AlertDescription className="text-destructive">
+                    {error}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {!token ? (
+                <Alert className="border-destructive/20 bg-destructive/10">
+                  <AlertDescription className="text-destructive">
+                    This link is incomplete. Open the link from the email again.
+                  </AlertDescription>
+                </Alert>
+              ) : challengeToken ? (
+                <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="twoFactorCode"
+                      className="text-sm font-medium text-foreground"
+                    >
+                      Verification Code
+                    </Label>
+                    <div className="relative pt-1">
+                      <ShieldCheck className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="twoFactorCode"
+                        type="text"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        value={twoFactorCode}
+                        onChange={(e) => setTwoFactorCode(e.target.value)}
+                        placeholder="Enter the code from your authenticator app"
+                        className="pl-10 tracking-widest"
+                        autoFocus
+                        required
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Lost your device? Enter one of your backup codes instead.
+                    </p>
+                  </div>
+
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={isLoading || !twoFactorCode}
+                  >
+                    {isLoading ? "Verifying..." : "Verify"}
+                  </Button>
+                </form>
+              ) : (
+                <Button className="w-full" onClick={handleSignIn} disabled={isLoading}>
+                  {isLoading ? "Signing in..." : "Sign In"}
+                </Button>
+              )}
+            </CardContent>
+
+            <CardFooter className="text-center justify-center">
+              <p className="text-sm text-muted-foreground">
+                <BlokLink
+                  href="/login"
+                  className="text-primary hover:text-primary/80 font-medium"
+                >
+                  Back to sign in
+                </BlokLink>
+              </p>
+            </CardFooter>
+          </Card>
+        </div>
+      </AuthLayout>
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import {
 
 import { AppLayout } from "../layouts/AppLayout";
 import { Button } from "../components/ui/button";
+import { ChangeEmailDialog } from "../components/ChangeEmailDialog";
 import { Input } from "../components/ui/input";
 import { Label } from "../components/ui/label";
 import { Switch } from "../components/ui/switch";
@@ -32,6 +33,7 @@ export default function ProfilePage() {
   // const { updateUser } = useAuth(); // Uncomment if using OPTION 2
   const [loading, setLoading] = useState(false);
   const [uploadingImage, setUploadingImage] = useState(false);
+  const [showChangeEmail, setShowChangeEmail] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Form states - Initialize with empty values, useEffect will populate from user data
@@ -399,19 +401,29 @@ export default function ProfilePage() {
 
                   <div className="space-y-2">
                     <Label htmlFor="email">Email Address</Label>
-                    <div className="relative">
-                      <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                      <Input
-                        id="email"
-                        name="email"
-                        type="email"
-                        value={formData.email}
-                        onChange={handleInputChange}
-                        placeholder="Enter your email"
-                        className="pl-10 glass-input"
-                        disabled
-                        title="Email cannot be changed as it's used for login"
-                      />
+                    <div className="flex gap-2">
+                      <div className="relative flex-1">
+                        <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          id="email"
+                          name="email"
+                          type="email"
+                          value={formData.email}
+                          onChange={handleInputChange}
+                          placeholder="Enter your email"
+                          className="pl-10 glass-input"
+                          disabled
+                          title="Use Change to switch to a new address; it must be confirmed first"
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => setShowChangeEmail(true)}
+                        disabled={!!user?.impersonator}
+                      >
+                        Change
+                      </Button>
                     </div>
                   </div>
                 </div>
@@ -673,6 +685,12 @@ export default function ProfilePage() {
           </Card>
         </div>
       </div>
+
+      <ChangeEmailDialog
+        open={showChangeEmail}
+        onOpenChange={setShowChangeEmail}
+        currentEmail={user?.email || ""}
+      />
     </AppLayout>
   );
 }
@@ -16,6 +16,7 @@ import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
 import { Label } from "../components/ui/label";
 import { useSafeAuth } from "../hooks/useSafeAuth";
+import { toast } from "sonner";
 import { useBlokRouter } from "../hooks/useBlokRouter";
 
 export default function RegisterPage() {
@@ -65,8 +66,13 @@ export default function RegisterPage() {
     setIsLoading(true);
 
     try {
-      await register(formData.email, formData.password, formData.name);
-      router.push("/dashboard");
+      const result = await register(formData.email, formData.password, formData.name);
+      if (result && result.success === false) {
+        throw new Error(result.message || "Registration failed");
+      }
+      // The account starts unverified; the register workflow emails the link
+      toast.success(result?.message || "Account created. Check your inbox to verify your email address.");
+      router.push("/login");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Registration failed");
     } finally {
@@ -5,8 +5,10 @@ import {
   Eye,
   Key,
   Lock,
+  LogOut,
   Monitor,
   QrCode,
+  RefreshCw,
   Shield,
   ShieldCheck,
   Smartphone,
@@ -32,6 +34,8 @@ import { useEffect, useState } from "react";
 import { AppLayout } from "../layouts/AppLayout";
 import { Badge } from "../components/ui/badge";
 import { Button } from "../components/ui/button";
+import { ConnectedAccountsCard } from "../components/ConnectedAccountsCard";
+import { PasskeysCard } from "../components/PasskeysCard";
 import { Input } from "../components/ui/input";
 import { Label } from "../components/ui/label";
 import { Switch } from "../components/ui/switch";
@@ -42,6 +46,8 @@ import {
   useWorkflowMutation,
   useWorkflowQuery,
   type TwoFactorAuthOutput,
+  type UserSessionEntry,
+  type UserSessionsOutput,
 } from "../blok-types";
 
 interface SecurityLog {
@@ -54,15 +60,22 @@ interface SecurityLog {
   success: boolean;
 }
 
-interface ActiveSession {
-  id: string;
-  device: string;
-  location: string;
-  ipAddress: string;
-  lastActive: string;
-  current: boolean;
+interface BackupCodeStatus {
+  codesRemaining: number;
+  codesTotal: number;
+  generatedAt: string | null;
 }
 
+const formatLastActive = (timestamp: string) => {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 2) return "Just now";
+  if (minutes < 60) return `${minutes} minutes ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? "" : "s"} ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? "" : "s"} ago`;
+};
+
 export default function SecurityPage() {
   const { user, isAuthenticated } = useAuth();
   const router = useBlokRouter();
@@ -70,8 +83,16 @@ export default function SecurityPage() {
   const [twoFactorEnabled, setTwoFactorEnabled] = useState(false);
   const [showQRCode, setShowQRCode] = useState(false);
   const [verificationCode, setVerificationCode] = useState("");
+  const [showDisablePrompt, setShowDisablePrompt] = useState(false);
+  const [disableCode, setDisableCode] = useState("");
   const [securityLogs, setSecurityLogs] = useState<SecurityLog[]>([]);
-  const [activeSessions, setActiveSessions] = useState<ActiveSession[]>([]);
+  const [activeSessions, setActiveSessions] = useState<UserSessionEntry[]>([]);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(
+    null
+  );
+  const [backupCodeStatus, setBackupCodeStatus] =
+    useState<BackupCodeStatus | null>(null);
+  const [newBackupCodes, setNewBackupCodes] = useState<string[]>([]);
 
   // SDK hooks for security operations
   const twoFactorAuthMutation = useWorkflowMutation({
@@ -88,6 +109,19 @@ export default function SecurityPage() {
     },
   });
 
+  // Separate mutation for silent status lookups (no success toast)
+  const twoFactorStatusMutation = useWorkflowMutation({
+    workflowKey: "two-factor-auth",
+  });
+
+  // Session management (list / revoke / sign out everywhere else)
+  const sessionsMutation = useWorkflowMutation({
+    workflowKey: "user-sessions",
+    onError: (error) => {
+      toast.error(`Session operation failed: ${error.message}`);
+    },
+  });
+
   // SDK hook for audit logs (replaces the old fetch call)
   const auditLogsQuery = useWorkflowQuery({
     workflowKey: "audit-logs",
@@ -123,36 +157,11 @@ export default function SecurityPage() {
         setSecurityLogs([]);
       }
 
-      // Mock active sessions data (replace with real API call)
-      setActiveSessions([
-        {
-          id: "1",
-          device: "Chrome on Windows",
-          location: "New York, US",
-          ipAddress: "192.168.1.100",
-          lastActive: "Just now",
-          current: true,
-        },
-        {
-          id: "2",
-          device: "Safari on iPhone",
-          location: "New York, US",
-          ipAddress: "192.168.1.101",
-          lastActive: "2 hours ago",
-          current: false,
-        },
-        {
-          id: "3",
-          device: "Firefox on Ubuntu",
-          location: "San Francisco, US",
-          ipAddress: "10.0.0.50",
-          lastActive: "1 day ago",
-          current: false,
-        },
-      ]);
-
-      // Check 2FA status (mock for now)
-      setTwoFactorEnabled(user?.twoFactorEnabled || false);
+      // Load active sessions
+      await loadActiveSessions();
+
+      // Load 2FA status and backup code counts
+      await loadTwoFactorStatus();
     } catch (error) {
       console.error("Failed to load security data:", error);
       toast.error("Failed to load security data");
@@ -161,6 +170,41 @@ export default function SecurityPage() {
     }
   };
 
+  const loadActiveSessions = async () => {
+    try {
+      const result = (await sessionsMutation.mutateAsync({
+        action: "list",
+      })) as UserSessionsOutput;
+      if ("sessions" in result) {
+        setActiveSessions(result.sessions);
+      }
+    } catch (error) {
+      console.error("Failed to load active sessions:", error);
+    }
+  };
+
+  const loadTwoFactorStatus = async () => {
+    try {
+      const result = await twoFactorStatusMutation.mutateAsync({
+        action: "status",
+      });
+      if (result.success) {
+        const status = result.data as unknown as BackupCodeStatus & {
+          enabled: boolean;
+        };
+        setTwoFactorEnabled(status.enabled);
+        setBackupCodeStatus({
+          codesRemaining: status.codesRemaining,
+          codesTotal: status.codesTotal,
+          generatedAt: status.generatedAt,
+        });
+      }
+    } catch (error) {
+      console.error("Failed to load 2FA status:", error);
+      setTwoFactorEnabled(user?.twoFactorEnabled || false);
+    }
+  };
+
   const handleEnable2FA = async () => {
     setLoading(true);
     try {
@@ -170,6 +214,9 @@ export default function SecurityPage() {
 
       if (result.success) {
         setShowQRCode(true);
+        setNewBackupCodes(
+          (result.data as unknown as { backupCodes: string[] }).backupCodes
+        );
         toast.success(
           "2FA setup initiated. Scan the QR code with your authenticator app."
         );
@@ -204,6 +251,7 @@ export default function SecurityPage() {
         setShowQRCode(false);
         setVerificationCode("");
         toast.success("Two-factor authentication enabled successfully!");
+        await loadTwoFactorStatus();
       } else {
         throw new Error(result.message || "Invalid verification code");
       }
@@ -218,14 +266,24 @@ export default function SecurityPage() {
   };
 
   const handleDisable2FA = async () => {
+    if (!disableCode.trim()) {
+      toast.error("Enter a code from your authenticator app or a backup code");
+      return;
+    }
+
     setLoading(true);
     try {
       const result = await twoFactorAuthMutation.mutateAsync({
         action: "disable",
+        token: disableCode.trim(),
       });
 
       if (result.success) {
         setTwoFactorEnabled(false);
+        setShowDisablePrompt(false);
+        setDisableCode("");
+        setBackupCodeStatus(null);
+        setNewBackupCodes([]);
         toast.success("Two-factor authentication disabled");
       } else {
         throw new Error(result.message || "Failed to disable 2FA");
@@ -240,12 +298,76 @@ export default function SecurityPage() {
     }
   };
 
+  const handleRegenerateBackupCodes = async () => {
+    setLoading(true);
+    try {
+      const result = await twoFactorAuthMutation.mutateAsync({
+        action: "generateBackupCodes",
+      });
+
+      if (result.success) {
+        setNewBackupCodes(
+          (result.data as unknown as { backupCodes: string[] }).backupCodes
+        );
+        await loadTwoFactorStatus();
+      } else {
+        throw new Error(result.message || "Failed to regenerate backup codes");
+      }
+    } catch (error) {
+      console.error("Backup code regeneration error:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to regenerate backup codes"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleTerminateSession = async (sessionId: string) => {
-    // Mock session termination (replace with real API call)
-    setActiveSessions((prev) =>
-      prev.filter((session) => session.id !== sessionId)
-    );
-    toast.success("Session terminated successfully");
+    setRevokingSessionId(sessionId);
+    try {
+      const result = (await sessionsMutation.mutateAsync({
+        action: "revoke",
+        sessionId,
+      })) as UserSessionsOutput;
+
+      if (result.success) {
+        toast.success("Session terminated successfully");
+      } else {
+        toast.error(result.message);
+      }
+      await loadActiveSessions();
+    } catch (error) {
+      console.error("Session termination error:", error);
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
+
+  const handleTerminateOtherSessions = async () => {
+    if (!confirm("Sign out of all other devices?")) {
+      return;
+    }
+
+    setRevokingSessionId("others");
+    try {
+      const result = (await sessionsMutation.mutateAsync({
+        action: "revoke-others",
+      })) as UserSessionsOutput;
+
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+      await loadActiveSessions();
+    } catch (error) {
+      console.error("Sign out other sessions error:", error);
+    } finally {
+      setRevokingSessionId(null);
+    }
   };
 
   const getActionIcon = (action: string) => {
@@ -311,7 +433,9 @@ export default function SecurityPage() {
                   <Switch
                     checked={twoFactorEnabled}
                     onCheckedChange={
-                      twoFactorEnabled ? handleDisable2FA : handleEnable2FA
+                      twoFactorEnabled
+                        ? () => setShowDisablePrompt(true)
+                        : handleEnable2FA
                     }
                     disabled={loading}
                   />
@@ -364,6 +488,44 @@ export default function SecurityPage() {
                 </div>
               )}
 
+              {twoFactorEnabled && showDisablePrompt && (
+                <div className="space-y-4 p-4 border rounded-lg glass-card">
+                  <div className="space-y-2">
+                    <Label htmlFor="disable-code">
+                      Authenticator or backup code
+                    </Label>
+                    <Input
+                      id="disable-code"
+                      placeholder="Enter a code to disable 2FA"
+                      value={disableCode}
+                      onChange={(e) => setDisableCode(e.target.value)}
+                      className="glass-input text-center text-lg tracking-widest"
+                    />
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button
+                      variant="destructive"
+                      onClick={handleDisable2FA}
+                      disabled={loading || !disableCode.trim()}
+                      className="flex-1"
+                    >
+                      Disable 2FA
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setShowDisablePrompt(false);
+                        setDisableCode("");
+                      }}
+                      className="glass-button glass-button-hover"
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               {twoFactorEnabled && (
                 <Alert>
                   <ShieldCheck className="h-4 w-4" />
@@ -373,6 +535,75 @@ export default function SecurityPage() {
                   </AlertDescription>
                 </Alert>
               )}
+
+              {newBackupCodes.length > 0 && (
+                <div className="space-y-3 p-4 border rounded-lg glass-card">
+                  <div className="flex items-center gap-2">
+                    <Key className="h-4 w-4" />
+                    <p className="font-medium">Your backup codes</p>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Store these codes somewhere safe. Each code can be used
+                    once, and they will not be shown again.
+                  </p>
+                  <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                    {newBackupCodes.map((code) => (
+                      <span
+                        key={code}
+                        className="px-2 py-1 rounded bg-muted text-center"
+                      >
+                        {code}
+                      </span>
+                    ))}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setNewBackupCodes([])}
+                    className="glass-button glass-button-hover"
+                  >
+                    I have saved these codes
+                  </Button>
+                </div>
+              )}
+
+              {twoFactorEnabled && backupCodeStatus && (
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">Backup codes</p>
+                    <p className="text-sm text-muted-foreground">
+                      {backupCodeStatus.codesRemaining} of{" "}
+                      {backupCodeStatus.codesTotal} remaining
+                      {backupCodeStatus.generatedAt &&
+                        ` • Last regenerated ${new Date(
+                          backupCodeStatus.generatedAt
+                        ).toLocaleString()}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRegenerateBackupCodes}
+                    disabled={loading}
+                    className="glass-button glass-button-hover"
+                  >
+                    <RefreshCw className="h-4 w-4 mr-1" />
+                    Regenerate
+                  </Button>
+                </div>
+              )}
+
+              {twoFactorEnabled &&
+                backupCodeStatus &&
+                backupCodeStatus.codesRemaining <= 2 && (
+                  <Alert className="border-orange-500/20 bg-orange-500/10">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      You are running low on backup codes. Regenerate them so
+                      you don't get locked out.
+                    </AlertDescription>
+                  </Alert>
+                )}
             </CardContent>
           </Card>
 
@@ -415,6 +646,10 @@ export default function SecurityPage() {
           </Card>
         </div>
 
+        <PasskeysCard />
+
+        <ConnectedAccountsCard />
+
         {/* Active Sessions */}
         <Card className="glass-card">
           <CardHeader>
@@ -428,6 +663,11 @@ export default function SecurityPage() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
+              {activeSessions.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No active sessions found.
+                </p>
+              )}
               {activeSessions.map((session) => (
                 <div
                   key={session.id}
@@ -447,10 +687,14 @@ export default function SecurityPage() {
                         )}
                       </div>
                       <p className="text-sm text-muted-foreground">
-                        {session.location} • {session.ipAddress}
+                        {session.ipAddress || "Unknown IP"} • Signed in{" "}
+                        {new Date(session.createdAt).toLocaleDateString()}
                       </p>
                       <p className="text-xs text-muted-foreground">
-                        Last active: {session.lastActive}
+                        Last active:{" "}
+                        {session.current
+                          ? "Just now"
+                          : formatLastActive(session.lastActivityAt)}
                       </p>
                     </div>
                   </div>
@@ -459,6 +703,7 @@ export default function SecurityPage() {
                       variant="outline"
                       size="sm"
                       onClick={() => handleTerminateSession(session.id)}
+                      disabled={revokingSessionId !== null}
                       className="glass-button glass-button-hover text-destructive hover:text-destructive"
                     >
                       <X className="h-4 w-4 mr-1" />
@@ -467,6 +712,19 @@ export default function SecurityPage() {
                   )}
                 </div>
               ))}
+              {activeSessions.some((session) => !session.current) && (
+                <div className="flex justify-end">
+                  <Button
+                    variant="outline"
+                    onClick={handleTerminateOtherSessions}
+                    disabled={revokingSessionId !== null}
+                    className="glass-button glass-button-hover text-destructive hover:text-destructive"
+                  >
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Sign out all other sessions
+                  </Button>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -1,4 +1,12 @@
-import { Bell, Database, Palette, Settings, Shield, User } from "lucide-react";
+import {
+  Bell,
+  Database,
+  KeyRound,
+  Palette,
+  Settings,
+  Shield,
+  User,
+} from "lucide-react";
 import {
   Card,
   CardContent,
@@ -15,6 +23,7 @@ import {
 import { useCallback, useEffect, useRef, useState } from "react";
 
 import { AnimatedTabContent } from "../components/AnimatedTabContent";
+import { ApiKeysCard } from "../components/ApiKeysCard";
 import { AppLayout } from "../layouts/AppLayout";
 import { Badge } from "../components/ui/badge";
 import { Button } from "../components/ui/button";
@@ -27,6 +36,7 @@ import { useSearchParams } from "react-router-dom";
 const VALID_TABS = [
   "profile",
   "security",
+  "api-keys",
   "notifications",
   "appearance",
   "system",
@@ -118,6 +128,13 @@ export default function SettingsPage() {
                   <Shield className="h-4 w-4" />
                   Security
                 </TabsTrigger>
+                <TabsTrigger
+                  value="api-keys"
+                  className="flex items-center gap-2"
+                >
+                  <KeyRound className="h-4 w-4" />
+                  API Keys
+                </TabsTrigger>
                 <TabsTrigger
                   value="notifications"
                   className="flex items-center gap-2"
@@ -245,6 +262,12 @@ export default function SettingsPage() {
                 </AnimatedTabContent>
               </TabsContent>
 
+              <TabsContent value="api-keys" className="space-y-6">
+                <AnimatedTabContent activeTab={activeTab} tabKey="api-keys">
+                  <ApiKeysCard />
+                </AnimatedTabContent>
+              </TabsContent>
+
               <TabsContent value="notifications" className="space-y-6">
                 <AnimatedTabContent
                   activeTab={activeTab}
@@ -24,6 +24,7 @@ import {
 import { AppLayout } from "../layouts/AppLayout";
 import { Badge } from "../components/ui/badge";
 import { Button } from "../components/ui/button";
+import { DisposableDomainsCard } from "../components/DisposableDomainsCard";
 import { Progress } from "../components/ui/progress";
 import { blokRouter } from "../lib/blok-router";
 import { toast } from "sonner";
@@ -62,7 +63,7 @@ interface ServiceStatus {
 }
 
 export default function SystemPage() {
-  const { isAuthenticated, isAdmin } = useAuth();
+  const { isAuthenticated, isAdmin, hasPermission } = useAuth();
   const [loading, setLoading] = useState(false);
   const [systemHealth, setSystemHealth] = useState<SystemHealth>({
     status: "healthy",
@@ -472,6 +473,9 @@ export default function SystemPage() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Disposable Email Domains */}
+        {hasPermission("email-domains:manage") && <DisposableDomainsCard />}
       </div>
     </AppLayout>
   );
@@ -11,11 +11,15 @@ import {
 import {
   Calendar,
   Edit3,
+  Eye,
+  Lock,
+  LogOut,
   Mail,
   MoreVertical,
   Search,
   Shield,
   Trash2,
+  Unlock,
   UserCheck,
   UserPlus,
   UserX,
@@ -53,7 +57,12 @@ import { useCallback, useEffect, useState } from "react";
 import {
   useWorkflowMutation,
   useWorkflowQuery,
+  type AdminAccountLockoutOutput,
+  type AdminUserSessionsOutput,
   type AuthRegisterOutput,
+  type ImpersonateOutput,
+  type RoleEntry,
+  type UserRoleManagementOutput,
   type UserUpdateOutput,
   type UserDeleteOutput,
   type UserListTestOutput,
@@ -63,7 +72,10 @@ import { AppLayout } from "../layouts/AppLayout";
 import { Badge } from "../components/ui/badge";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
+import { InvitationsCard } from "../components/InvitationsCard";
 import { Label } from "../components/ui/label";
+import { RolesCard } from "../components/RolesCard";
+import { useAuth } from "../contexts/AuthContext";
 import { toast } from "sonner";
 
 // Types
@@ -71,7 +83,7 @@ interface User {
   id: string;
   name: string;
   email: string;
-  role: "ADMIN" | "USER";
+  role: string; // "ADMIN", "USER" or a custom role
   emailVerified: boolean;
   createdAt: string;
   updatedAt?: string;
@@ -85,6 +97,8 @@ interface UserStats {
 }
 
 export default function UsersPage() {
+  const { hasPermission, user: currentUser } = useAuth();
+
   // State
   const [users, setUsers] = useState<User[]>([]);
   const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
@@ -110,9 +124,13 @@ export default function UsersPage() {
     name: "",
     email: "",
     password: "",
-    role: "USER" as "ADMIN" | "USER",
+    role: "USER",
   });
 
+  // Roles defined in the role editor (built-in roles until they are loaded)
+  const [roles, setRoles] = useState<RoleEntry[]>([]);
+  const roleNames = roles.length > 0 ? roles.map((role) => role.name) : ["ADMIN", "USER"];
+
   // SDK hooks for user operations
   const usersQuery = useWorkflowQuery({
     workflowKey: "user-list-test",
@@ -169,6 +187,75 @@ export default function UsersPage() {
     },
   });
 
+  const revokeSessionsMutation = useWorkflowMutation({
+    workflowKey: "admin-user-sessions",
+    onSuccess: (data: AdminUserSessionsOutput) => {
+      if (data.success) {
+        toast.success(data.message);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Failed to sign out user: ${error.message}`);
+    },
+  });
+
+  const assignRoleMutation = useWorkflowMutation({
+    workflowKey: "user-role-management",
+    onError: (error) => {
+      toast.error(`Failed to assign role: ${error.message}`);
+    },
+  });
+
+  // Assign any role, including custom ones, through the role manager
+  const assignRole = async (userId: string, role: string) => {
+    const result = (await assignRoleMutation.mutateAsync({
+      action: "updateRole",
+      userId,
+      newRole: role,
+    })) as UserRoleManagementOutput;
+    if (!result.success) {
+      toast.error(result.message);
+    }
+    return result.success;
+  };
+
+  // Accounts locked after repeated failed logins, keyed by user id
+  const [lockedUntil, setLockedUntil] = useState<Record<string, string>>({});
+
+  const lockoutMutation = useWorkflowMutation({
+    workflowKey: "admin-account-lockout",
+    onError: (error) => {
+      toast.error(`Account lockout operation failed: ${error.message}`);
+    },
+  });
+
+  const impersonateMutation = useWorkflowMutation({
+    workflowKey: "impersonate",
+    onError: (error) => {
+      toast.error(`Failed to sign in as user: ${error.message}`);
+    },
+  });
+
+  const loadLockedAccounts = useCallback(async () => {
+    try {
+      const result = (await lockoutMutation.mutateAsync({
+        action: "list",
+      })) as AdminAccountLockoutOutput;
+      if (result.success && result.lockedAccounts) {
+        setLockedUntil(
+          Object.fromEntries(
+            result.lockedAccounts.map((account) => [
+              account.userId,
+              account.lockedUntil,
+            ])
+          )
+        );
+      }
+    } catch (error) {
+      console.error("Failed to load locked accounts:", error);
+    }
+  }, []);
+
   // Update users when query data changes
   useEffect(() => {
     if (usersQuery.data?.success && usersQuery.data.users) {
@@ -238,15 +325,28 @@ export default function UsersPage() {
     loadUsers();
   }, [loadUsers]);
 
+  useEffect(() => {
+    if (hasPermission("users:unlock")) {
+      loadLockedAccounts();
+    }
+  }, [loadLockedAccounts]);
+
   // Handle add user
   const handleAddUser = async () => {
     try {
-      await createUserMutation.mutateAsync({
+      const isBuiltInRole = ["ADMIN", "USER"].includes(formData.role);
+      const result = (await createUserMutation.mutateAsync({
         name: formData.name,
         email: formData.email,
         password: formData.password,
-        role: formData.role,
-      });
+        role: isBuiltInRole ? formData.role : "USER",
+      })) as AuthRegisterOutput;
+
+      // Registration only knows the built-in roles; assign custom ones afterwards
+      if (result.success && result.user && !isBuiltInRole) {
+        await assignRole(result.user.id, formData.role);
+        usersQuery.refetch();
+      }
     } catch (error: any) {
       console.error("Failed to create user:", error);
       toast.error(error.message || "Failed to create user");
@@ -262,11 +362,15 @@ export default function UsersPage() {
         id: selectedUser.id, // Fixed: use "id" instead of "userId" to match backend expectation
         name: formData.name,
         email: formData.email,
-        role: formData.role,
         // Only include password if it's provided
         ...(formData.password && { password: formData.password }),
       };
 
+      if (formData.role !== selectedUser.role) {
+        const assigned = await assignRole(selectedUser.id, formData.role);
+        if (!assigned) return;
+      }
+
       await updateUserMutation.mutateAsync(updateData);
       setFormData({ name: "", email: "", password: "", role: "USER" });
     } catch (error: any) {
@@ -289,6 +393,59 @@ export default function UsersPage() {
     }
   };
 
+  // Sign a user out of every device
+  const handleRevokeSessions = async (user: User) => {
+    if (!confirm(`Sign ${user.name} out of all sessions?`)) return;
+
+    try {
+      await revokeSessionsMutation.mutateAsync({
+        action: "revoke-all",
+        userId: user.id,
+      });
+    } catch (error: any) {
+      console.error("Failed to revoke sessions:", error);
+    }
+  };
+
+  // Handle unlock of an account locked after failed logins
+  const handleUnlockAccount = async (user: User) => {
+    try {
+      const result = (await lockoutMutation.mutateAsync({
+        action: "unlock",
+        userId: user.id,
+      })) as AdminAccountLockoutOutput;
+      if (result.success) {
+        toast.success(`${user.name} can sign in again`);
+        await loadLockedAccounts();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error: any) {
+      console.error("Failed to unlock account:", error);
+    }
+  };
+
+  // Handle "log in as user": the page reloads with the user's session and the impersonation banner
+  const handleImpersonate = async (user: User) => {
+    const reason = prompt(
+      `Sign in as ${user.name}? Everything you do is recorded.\n\nReason (optional):`
+    );
+    if (reason === null) return;
+
+    try {
+      const result = (await impersonateMutation.mutateAsync({
+        action: "start",
+        userId: user.id,
+        reason: reason.trim() || undefined,
+      })) as ImpersonateOutput;
+      if (result.success) {
+        window.location.href = "/dashboard";
+      }
+    } catch (error: any) {
+      console.error("Failed to impersonate user:", error);
+    }
+  };
+
   // Open edit dialog
   const openEditDialog = (user: User) => {
     setSelectedUser(user);
@@ -362,8 +519,11 @@ export default function UsersPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Roles</SelectItem>
-                  <SelectItem value="admin">Admin</SelectItem>
-                  <SelectItem value="user">User</SelectItem>
+                  {roleNames.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {role}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <Select value={selectedStatus} onValueChange={setSelectedStatus}>
@@ -421,6 +581,29 @@ export default function UsersPage() {
                           <Edit3 className="h-4 w-4 mr-2" />
                           Edit User
                         </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleRevokeSessions(user)}
+                        >
+                          <LogOut className="h-4 w-4 mr-2" />
+                          Sign Out Everywhere
+                        </DropdownMenuItem>
+                        {hasPermission("users:impersonate") &&
+                          user.id !== currentUser?.id && (
+                            <DropdownMenuItem
+                              onClick={() => handleImpersonate(user)}
+                            >
+                              <Eye className="h-4 w-4 mr-2" />
+                              Log in as User
+                            </DropdownMenuItem>
+                          )}
+                        {lockedUntil[user.id] && (
+                          <DropdownMenuItem
+                            onClick={() => handleUnlockAccount(user)}
+                          >
+                            <Unlock className="h-4 w-4 mr-2" />
+                            Unlock Account
+                          </DropdownMenuItem>
+                        )}
                         <DropdownMenuItem
                           onClick={() => openDeleteDialog(user)}
                           className="text-destructive"
@@ -456,6 +639,17 @@ export default function UsersPage() {
                           )}
                           {user.emailVerified ? "Verified" : "Unverified"}
                         </Badge>
+                        {lockedUntil[user.id] && (
+                          <Badge
+                            variant="destructive"
+                            title={`Locked until ${new Date(
+                              lockedUntil[user.id]
+                            ).toLocaleString()}`}
+                          >
+                            <Lock className="h-3 w-3 mr-1" />
+                            Locked
+                          </Badge>
+                        )}
                       </div>
                     </div>
                     <div className="text-xs text-muted-foreground flex items-center gap-1">
@@ -532,6 +726,17 @@ export default function UsersPage() {
           </Card>
         </div>
 
+        {/* Pending Invitations */}
+        {hasPermission("users:create") && (
+          <InvitationsCard
+            roleNames={roleNames}
+            canAssignRoles={hasPermission("roles:manage")}
+          />
+        )}
+
+        {/* Roles & Permissions */}
+        {hasPermission("roles:read") && <RolesCard onRolesChange={setRoles} />}
+
         {/* Add User Dialog */}
         <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
           <DialogContent className="sm:max-w-[425px]">
@@ -581,20 +786,20 @@ export default function UsersPage() {
               <div className="grid gap-2">
                 <Label htmlFor="role">Role</Label>
                 <Select
-                  value={formData.role.toLowerCase()}
-                  onValueChange={(value: "admin" | "user") =>
-                    setFormData({
-                      ...formData,
-                      role: value.toUpperCase() as "ADMIN" | "USER",
-                    })
+                  value={formData.role}
+                  onValueChange={(value: string) =>
+                    setFormData({ ...formData, role: value })
                   }
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Select role" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="user">User</SelectItem>
-                    <SelectItem value="admin">Admin</SelectItem>
+                    {roleNames.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {role}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -664,20 +869,20 @@ export default function UsersPage() {
               <div className="grid gap-2">
                 <Label htmlFor="edit-role">Role</Label>
                 <Select
-                  value={formData.role.toLowerCase()}
-                  onValueChange={(value: "admin" | "user") =>
-                    setFormData({
-                      ...formData,
-                      role: value.toUpperCase() as "ADMIN" | "USER",
-                    })
+                  value={formData.role}
+                  onValueChange={(value: string) =>
+                    setFormData({ ...formData, role: value })
                   }
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Select role" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="user">User</SelectItem>
-                    <SelectItem value="admin">Admin</SelectItem>
+                    {roleNames.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {role}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
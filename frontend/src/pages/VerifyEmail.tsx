@@ -0,0 +1,117 @@
+import { Alert, AlertDescription } from "../components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { MailCheck } from "lucide-react";
+import { useState } from "react";
+import { useWorkflowMutation, type EmailVerificationOutput } from "../blok-types";
+
+import { AuthLayout } from "../layouts/AuthLayout";
+import { BlokLink } from "../components/BlokLink";
+import { Button } from "../components/ui/button";
+
+/**
+ * Verify an email address (link from the verification email). Nothing happens
+ * until the button is clicked, so link previews in mail clients can't use up
+ * the token.
+ */
+export default function VerifyEmailPage() {
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+  const [message, setMessage] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const verificationMutation = useWorkflowMutation({
+    workflowKey: "email-verification",
+  });
+
+  const handleVerify = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const result = (await verificationMutation.mutateAsync({
+        operation: "verify",
+        token,
+      })) as EmailVerificationOutput;
+
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+      setMessage(result.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to verify your email address");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 dark:from-black dark:via-gray-900 dark:to-black">
+      {/* Background pattern for glass effect */}
+      <div className="fixed inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(255,255,255,0.02),transparent_50%)] dark:bg-[radial-gradient(circle_at_50%_50%,rgba(255,255,255,0.008),transparent_50%)] pointer-events-none" />
+      <div className="fixed inset-0 bg-[radial-gradient(circle_at_80%_20%,rgba(255,255,255,0.01),transparent_50%)] dark:bg-[radial-gradient(circle_at_80%_20%,rgba(255,255,255,0.004),transparent_50%)] pointer-events-none" />
+
+      <AuthLayout>
+        <div className="relative z-10">
+          <Card className="w-full glass-card border-0">
+            <CardHeader className="text-center pb-2">
+              <div className="w-12 h-12 bg-primary rounded-xl flex items-center justify-center mx-auto mb-4">
+                <MailCheck className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <CardTitle className="text-2xl font-bold text-foreground">
+                Verify Email Address
+              </CardTitle>
+              <CardDescription className="text-muted-foreground">
+                Confirm that this address belongs to you
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+              {!token ? (
+                <Alert className="border-destructive/20 bg-destructive/10">
+                  <AlertDescription className="text-destructive">
+                    This link is incomplete. Open the link from the email again.
+                  </AlertDescription>
+                </Alert>
+              ) : message ? (
+                <Alert>
+                  <AlertDescription>{message}</AlertDescription>
+                </Alert>
+              ) : (
+                <>
+                  {error && (
+                    <Alert className="border-destructive/20 bg-destructive/10">
+                      <AlertDescription className="text-destructive">
+                        {error}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  <Button className="w-full" onClick={handleVerify} disabled={isLoading}>
+                    {isLoading ? "Verifying..." : "Verify My Email"}
+                  </Button>
+                </>
+              )}
+            </CardContent>
+
+            <CardFooter className="text-center justify-center">
+              <p className="text-sm text-muted-foreground">
+                <BlokLink
+                  href="/login"
+                  className="text-primary hover:text-primary/80 font-medium"
+                >
+                  Continue to sign in
+                </BlokLink>
+              </p>
+            </CardFooter>
+          </Card>
+        </div>
+      </AuthLayout>
+    </div>
+  );
+}
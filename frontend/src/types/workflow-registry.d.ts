@@ -19,12 +19,24 @@ import type {
   AuthRegisterOutput,
   AuthLogoutInput,
   AuthLogoutOutput,
+  Auth2faVerifyInput,
+  Auth2faVerifyOutput,
+  AuthRefreshInput,
+  AuthRefreshOutput,
+  MagicLinkInput,
+  MagicLinkOutput,
+  OauthInput,
+  OauthOutput,
+  PasskeysInput,
+  PasskeysOutput,
   VerifySessionInput,
   VerifySessionOutput,
   EmailVerificationInput,
   EmailVerificationOutput,
   PasswordResetInput,
   PasswordResetOutput,
+  CapturedEmailsInput,
+  CapturedEmailsOutput,
   ProfileImageUploadInput,
   ProfileImageUploadOutput,
   ProfileUpdateInput,
@@ -51,8 +63,28 @@ import type {
   UserDeleteOutput,
   AdminUserCreateInput,
   AdminUserCreateOutput,
+  AdminUserSessionsInput,
+  AdminUserSessionsOutput,
+  AdminAccountLockoutInput,
+  AdminAccountLockoutOutput,
+  AdminDisposableDomainsInput,
+  AdminDisposableDomainsOutput,
   TwoFactorAuthInput,
   TwoFactorAuthOutput,
+  ApiKeysInput,
+  ApiKeysOutput,
+  InvitationsInput,
+  InvitationsOutput,
+  ImpersonateInput,
+  ImpersonateOutput,
+  EmailChangeInput,
+  EmailChangeOutput,
+  InvitationAcceptInput,
+  InvitationAcceptOutput,
+  OrganizationsInput,
+  OrganizationsOutput,
+  UserSessionsInput,
+  UserSessionsOutput,
   AuditLogsInput,
   AuditLogsOutput,
   WorkflowDiscoveryInput,
@@ -68,11 +100,17 @@ export interface WorkflowTypeRegistry {
   'auth-login': { input: AuthLoginInput; output: AuthLoginOutput };
   'auth-register': { input: AuthRegisterInput; output: AuthRegisterOutput };
   'auth-logout': { input: AuthLogoutInput; output: AuthLogoutOutput };
+  'auth-2fa-verify': { input: Auth2faVerifyInput; output: Auth2faVerifyOutput };
+  'auth-refresh': { input: AuthRefreshInput; output: AuthRefreshOutput };
+  'magic-link': { input: MagicLinkInput; output: MagicLinkOutput };
+  'oauth': { input: OauthInput; output: OauthOutput };
+  'passkeys': { input: PasskeysInput; output: PasskeysOutput };
   'verify-session': { input: VerifySessionInput; output: VerifySessionOutput };
   
   // Email workflows
   'email-verification': { input: EmailVerificationInput; output: EmailVerificationOutput };
   'password-reset': { input: PasswordResetInput; output: PasswordResetOutput };
+  'captured-emails': { input: CapturedEmailsInput; output: CapturedEmailsOutput };
   
   // Profile workflows
   'profile-image-upload': { input: ProfileImageUploadInput; output: ProfileImageUploadOutput };
@@ -93,9 +131,19 @@ export interface WorkflowTypeRegistry {
   'user-update': { input: UserUpdateInput; output: UserUpdateOutput };
   'user-delete': { input: UserDeleteInput; output: UserDeleteOutput };
   'admin-user-create': { input: AdminUserCreateInput; output: AdminUserCreateOutput };
+  'admin-user-sessions': { input: AdminUserSessionsInput; output: AdminUserSessionsOutput };
+  'admin-account-lockout': { input: AdminAccountLockoutInput; output: AdminAccountLockoutOutput };
+  'admin-disposable-domains': { input: AdminDisposableDomainsInput; output: AdminDisposableDomainsOutput };
   
   // Security workflows
   'two-factor-auth': { input: TwoFactorAuthInput; output: TwoFactorAuthOutput };
+  'api-keys': { input: ApiKeysInput; output: ApiKeysOutput };
+  'invitations': { input: InvitationsInput; output: InvitationsOutput };
+  'impersonate': { input: ImpersonateInput; output: ImpersonateOutput };
+  'email-change': { input: EmailChangeInput; output: EmailChangeOutput };
+  'invitation-accept': { input: InvitationAcceptInput; output: InvitationAcceptOutput };
+  'organizations': { input: OrganizationsInput; output: OrganizationsOutput };
+  'user-sessions': { input: UserSessionsInput; output: UserSessionsOutput };
   'audit-logs': { input: AuditLogsInput; output: AuditLogsOutput };
   
   // Meta workflows
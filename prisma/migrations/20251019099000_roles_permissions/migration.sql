@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "roles" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "is_system" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "permissions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "description" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "role_permissions" (
+    "role_id" TEXT NOT NULL,
+    "permission_id" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("role_id", "permission_id"),
+    CONSTRAINT "role_permissions_role_id_fkey" FOREIGN KEY ("role_id") REFERENCES "roles" ("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+    CONSTRAINT "role_permissions_permission_id_fkey" FOREIGN KEY ("permission_id") REFERENCES "permissions" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "roles_name_key" ON "roles"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "permissions_key_key" ON "permissions"("key");
+
+-- CreateIndex
+CREATE INDEX "role_permissions_permission_id_idx" ON "role_permissions"("permission_id");
+
+-- Seed built-in roles (ADMIN implicitly holds every permission)
+INSERT INTO "roles" ("id", "name", "description", "is_system", "updated_at") VALUES
+    ('role-admin', 'ADMIN', 'Full access to every feature', true, CURRENT_TIMESTAMP),
+    ('role-user', 'USER', 'Regular account without administrative access', true, CURRENT_TIMESTAMP);
+
+-- Seed permission catalogue
+INSERT INTO "permissions" ("id", "key", "description") VALUES
+    ('perm-dashboard-view', 'dashboard:view', 'View the admin dashboard'),
+    ('perm-users-read', 'users:read', 'List and view users'),
+    ('perm-users-create', 'users:create', 'Create users'),
+    ('perm-users-update', 'users:update', 'Edit users'),
+    ('perm-users-delete', 'users:delete', 'Delete users'),
+    ('perm-users-sessions', 'users:sessions', 'View and revoke other users'' sessions'),
+    ('perm-users-unlock', 'users:unlock', 'Unlock accounts locked after failed logins'),
+    ('perm-roles-read', 'roles:read', 'View roles and their permissions'),
+    ('perm-roles-manage', 'roles:manage', 'Create, edit, delete and assign roles'),
+    ('perm-logs-read', 'logs:read', 'View system logs'),
+    ('perm-logs-export', 'logs:export', 'Export system logs'),
+    ('perm-logs-cleanup', 'logs:cleanup', 'Delete old system logs'),
+    ('perm-audit-read', 'audit:read', 'View security audit logs'),
+    ('perm-notifications-send', 'notifications:send', 'Send notifications to users'),
+    ('perm-emails-read', 'emails:read', 'View captured outgoing emails');
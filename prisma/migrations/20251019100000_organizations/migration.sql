@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "organizations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "memberships" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "user_id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'USER',
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "memberships_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+    CONSTRAINT "memberships_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+);
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "last_organization_id" TEXT;
+ALTER TABLE "sessions" ADD COLUMN "organization_id" TEXT;
+ALTER TABLE "notifications" ADD COLUMN "organization_id" TEXT;
+ALTER TABLE "audit_logs" ADD COLUMN "organization_id" TEXT;
+ALTER TABLE "system_logs" ADD COLUMN "organization_id" TEXT;
+ALTER TABLE "roles" ADD COLUMN "organization_id" TEXT REFERENCES "organizations" ("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organizations_slug_key" ON "organizations"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "memberships_user_id_organization_id_key" ON "memberships"("user_id", "organization_id");
+
+-- CreateIndex
+CREATE INDEX "memberships_organization_id_idx" ON "memberships"("organization_id");
+
+-- CreateIndex
+CREATE INDEX "notifications_organization_id_idx" ON "notifications"("organization_id");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_organization_id_idx" ON "audit_logs"("organization_id");
+
+-- CreateIndex
+CREATE INDEX "system_logs_organization_id_idx" ON "system_logs"("organization_id");
+
+-- Role names are unique per organization (built-in and shared roles have no organization)
+DROP INDEX "roles_name_key";
+CREATE UNIQUE INDEX "roles_organization_id_name_key" ON "roles"("organization_id", "name");
+
+-- Existing users, their data and their roles move into a default organization
+INSERT INTO "organizations" ("id", "name", "slug", "updated_at") VALUES
+    ('org-default', 'Default Organization', 'default', CURRENT_TIMESTAMP);
+
+INSERT INTO "memberships" ("id", "user_id", "organization_id", "role", "updated_at")
+    SELECT lower(hex(randomblob(16))), "id", 'org-default', "role", CURRENT_TIMESTAMP FROM "users";
+
+UPDATE "users" SET "last_organization_id" = 'org-default';
+UPDATE "sessions" SET "organization_id" = 'org-default';
+UPDATE "notifications" SET "organization_id" = 'org-default';
+UPDATE "audit_logs" SET "organization_id" = 'org-default';
+UPDATE "system_logs" SET "organization_id" = 'org-default';
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "invitations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "role" TEXT NOT NULL DEFAULT 'USER',
+    "organization_id" TEXT,
+    "invited_by_id" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "expires_at" DATETIME NOT NULL,
+    "last_sent_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "send_count" INTEGER NOT NULL DEFAULT 1,
+    "accepted_at" DATETIME,
+    "accepted_user_id" TEXT,
+    "revoked_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "invitations_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+    CONSTRAINT "invitations_invited_by_id_fkey" FOREIGN KEY ("invited_by_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invitations_token_hash_key" ON "invitations"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "invitations_organization_id_idx" ON "invitations"("organization_id");
+
+-- CreateIndex
+CREATE INDEX "invitations_email_idx" ON "invitations"("email");
@@ -0,0 +1,37 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_sessions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "user_id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "user_agent" TEXT,
+    "ip_address" TEXT,
+    "last_activity_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revoked" BOOLEAN NOT NULL DEFAULT false,
+    "revoked_at" DATETIME,
+    "revoked_reason" TEXT,
+    "idle_timeout_minutes" INTEGER NOT NULL DEFAULT 60,
+    "absolute_expires_at" DATETIME,
+    "organization_id" TEXT,
+    "impersonator_id" TEXT,
+    "impersonator_session_id" TEXT,
+    "impersonation_reason" TEXT,
+    "expires_at" DATETIME NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+    CONSTRAINT "sessions_impersonator_id_fkey" FOREIGN KEY ("impersonator_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+);
+INSERT INTO "new_sessions" ("id", "user_id", "token", "user_agent", "ip_address", "last_activity_at", "revoked", "revoked_at", "revoked_reason", "idle_timeout_minutes", "absolute_expires_at", "organization_id", "expires_at", "created_at")
+SELECT "id", "user_id", "token", "user_agent", "ip_address", "last_activity_at", "revoked", "revoked_at", "revoked_reason", "idle_timeout_minutes", "absolute_expires_at", "organization_id", "expires_at", "created_at" FROM "sessions";
+DROP TABLE "sessions";
+ALTER TABLE "new_sessions" RENAME TO "sessions";
+CREATE UNIQUE INDEX "sessions_token_unique" ON "sessions"("token");
+CREATE INDEX "sessions_user_id_idx" ON "sessions"("user_id");
+CREATE INDEX "sessions_impersonator_id_idx" ON "sessions"("impersonator_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- Seed the new permission (ADMIN holds it implicitly)
+INSERT INTO "permissions" ("id", "key", "description") VALUES
+    ('perm-users-impersonate', 'users:impersonate', 'Sign in as another user to see what they see');
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "magic_links" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "user_id" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "nonce_hash" TEXT NOT NULL,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "expires_at" DATETIME NOT NULL,
+    "used_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "magic_links_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "magic_links_token_hash_key" ON "magic_links"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "magic_links_user_id_idx" ON "magic_links"("user_id");
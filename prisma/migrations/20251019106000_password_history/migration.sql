@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "password_changed_at" DATETIME;
+
+-- Existing passwords count from account creation
+UPDATE "users" SET "password_changed_at" = "created_at";
+
+-- CreateTable
+CREATE TABLE "password_history" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "user_id" TEXT NOT NULL,
+    "password_hash" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "password_history_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+);
+
+-- CreateIndex
+CREATE INDEX "password_history_user_id_created_at_idx" ON "password_history"("user_id", "created_at");
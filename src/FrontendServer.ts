@@ -8,6 +8,8 @@
  */
 
 import { db } from "../database/config";
+import { resolveCsrfToken } from "./nodes/auth/csrf";
+import { authenticateSessionToken, clientIp, sessionCookie } from "./nodes/auth/sessions";
 import express from "express";
 import fs from "fs";
 import path from "path";
@@ -59,6 +61,12 @@ function getComponentForRoute(path: string): string {
     'dashboard': 'Dashboard',
     'login': 'Login',
     'register': 'Register',
+    'accept-invite': 'AcceptInvite',
+    'email-change': 'EmailChange',
+    'verify-email': 'VerifyEmail',
+    'magic-link': 'MagicLink',
+    'oauth-callback': 'OAuthCallback',
+    'change-password': 'ChangePassword',
     'profile': 'Profile',
     'settings': 'Settings',
     'users': 'Users',
@@ -98,7 +106,7 @@ function extractRouteParams(path: string): Record<string, string> {
  * Get dashboard-specific props
  */
 async function getDashboardProps(user: any): Promise<Record<string, any>> {
-  if (!user || user.role !== 'admin') {
+  if (!user?.permissions?.includes('dashboard:view')) {
     return { error: 'Unauthorized' };
   }
 
@@ -125,7 +133,7 @@ async function getDashboardProps(user: any): Promise<Record<string, any>> {
  * Get users page props
  */
 async function getUsersProps(user: any, req: express.Request): Promise<Record<string, any>> {
-  if (!user || user.role !== 'admin') {
+  if (!user?.permissions?.includes('users:read')) {
     return { error: 'Unauthorized' };
   }
 
@@ -157,11 +165,11 @@ async function getAnalyticsProps(user: any): Promise<Record<string, any>> {
 }
 
 /**
- * Get logs props (admin only)
+ * Get logs props (requires logs:read)
  */
 async function getLogsProps(user: any): Promise<Record<string, any>> {
-  if (!user || user.role !== 'admin') {
-    return { error: 'Unauthorized. Admin access required for system logs.' };
+  if (!user?.permissions?.includes('logs:read')) {
+    return { error: 'Unauthorized. The logs:read permission is required for system logs.' };
   }
 
   return {
@@ -247,8 +255,11 @@ function generatePageVersion(): string {
 /**
  * Server-side authentication check
  * Similar to Laravel + Inertia.js approach
+ *
+ * Applies the same rules as the API (revocation, idle / absolute timeouts),
+ * and re-issues the cookie when the page load renewed the session.
  */
-async function getAuthenticatedUser(req: express.Request): Promise<any | null> {
+async function getAuthenticatedUser(req: express.Request, res: express.Response): Promise<any | null> {
   try {
     // Get session token from cookies
     const sessionToken = req.cookies?.blok_session_token;
@@ -257,34 +268,35 @@ async function getAuthenticatedUser(req: express.Request): Promise<any | null> {
       return null;
     }
 
-    // Look up the session in the database
-    const sessionResult = await db.session.findFirst({
-      where: {
-        token: sessionToken,
-        expiresAt: {
-          gt: new Date()
-        }
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            email: true,
-            name: true,
-            role: true,
-            emailVerified: true,
-            profileImage: true,
-            preferences: true
-          }
-        }
-      }
+    const auth = await authenticateSessionToken(sessionToken, {
+      ipAddress: clientIp(req),
+      userAgent: req.headers['user-agent'],
     });
 
-    if (!sessionResult) {
+    if (!auth.isAuthenticated || !auth.user || !auth.session) {
       return null;
     }
 
-    const user = sessionResult.user;
+    if (auth.session.renewed) {
+      res.append('Set-Cookie', sessionCookie(sessionToken, new Date(auth.session.expiresAt)));
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: auth.user.id },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        emailVerified: true,
+        profileImage: true,
+        preferences: true
+      }
+    });
+
+    if (!user) {
+      return null;
+    }
     
     // Parse preferences JSON if it exists
     let preferences = {};
@@ -300,6 +312,13 @@ async function getAuthenticatedUser(req: express.Request): Promise<any | null> {
     return {
       ...user,
       preferences,
+      role: auth.user.role, // Role in the active organization
+      organizationId: auth.user.organizationId,
+      permissions: auth.user.permissions,
+      // Administrator signed in as this user (drives the impersonation banner)
+      impersonator: auth.impersonator
+        ? { id: auth.impersonator.id, email: auth.impersonator.email, name: auth.impersonator.name }
+        : null,
     };
   } catch (error) {
     console.error('Server-side auth check failed:', error);
@@ -307,6 +326,20 @@ async function getAuthenticatedUser(req: express.Request): Promise<any | null> {
   }
 }
 
+/**
+ * CSRF token for the page payload
+ *
+ * Mutating API calls made with the session cookie must send it back in the
+ * `X-CSRF-Token` header; the matching cookie is issued on first use.
+ */
+function getCsrfToken(req: express.Request, res: express.Response): string {
+  const { token, cookie } = resolveCsrfToken(req.cookies);
+  if (cookie) {
+    res.append('Set-Cookie', cookie);
+  }
+  return token;
+}
+
 // Serve uploaded files from public directory
 router.use('/uploads', express.static(path.join(uploadsPath, 'uploads'), {
   maxAge: '1h', // Cache uploaded files for 1 hour
@@ -344,7 +377,7 @@ router.get("*", async (req, res, next) => {
       // For SPA routes, we still need to inject server data
       if (!req.path.includes('.') && !req.path.startsWith('/src/') && !req.path.startsWith('/@')) {
         // Check authentication server-side
-        const user = await getAuthenticatedUser(req);
+        const user = await getAuthenticatedUser(req, res);
         
         // Create page data object (Inertia.js style)
         const pageData = {
@@ -353,10 +386,11 @@ router.get("*", async (req, res, next) => {
           auth: {
             user: user,
             isAuthenticated: !!user,
-            isAdmin: user?.role === 'admin',
+            isAdmin: user?.role === 'ADMIN',
           },
           url: req.originalUrl,
           version: generatePageVersion(),
+          csrfToken: getCsrfToken(req, res),
           timestamp: new Date().toISOString()
         };
 
@@ -471,7 +505,7 @@ router.get("*", async (req, res, next) => {
 
     try {
       // Check authentication server-side
-      const user = await getAuthenticatedUser(req);
+      const user = await getAuthenticatedUser(req, res);
       
       // Create page data object (Inertia.js style)
       const pageData = {
@@ -480,10 +514,11 @@ router.get("*", async (req, res, next) => {
         auth: {
           user: user,
           isAuthenticated: !!user,
-          isAdmin: user?.role === 'admin',
+          isAdmin: user?.role === 'ADMIN',
         },
         url: req.originalUrl,
         version: generatePageVersion(),
+        csrfToken: getCsrfToken(req, res),
         timestamp: new Date().toISOString()
       };
 
@@ -1,9 +1,16 @@
 import AdminDashboardNodes from '@well-prado/blok-admin-dashboard/dist/src/Nodes';
 import ApiCall from "@nanoservice-ts/api-call";
 import ApiNodes from './nodes/api';
-import DatabaseNodes from './nodes/database';
-import EmailNodes from './nodes/email';
+import DatabaseNodes, { UserDelete, UserFind, UserList, UserUpdate } from './nodes/database';
+import EmailNodes, { EmailServiceManager, EmailTemplates, EmailVerification } from './nodes/email';
 import IfElse from "@nanoservice-ts/if-else";
+import { UserRoleManager } from './nodes/admin';
+import { AccountLockout, ApiKeyManager, AuthenticationChecker, EmailChangeManager, ImpersonationManager, InvitationAccept, InvitationManager, MagicLinkManager, OAuthManager, OrganizationManager, PasskeyManager, PasswordHash, PasswordVerify, PermissionCheck, SessionManager, SessionRefresh, TwoFactorLogin, UserLogin, UserLogout, UserRegister } from './nodes/auth';
+import { WorkflowDiscovery } from './nodes/meta';
+import { UserProfileUpdate } from './nodes/profile';
+import { DisposableDomains, EmailValidator, PasswordValidator } from './nodes/validation';
+import { CreateNotification, GetUserNotifications } from './nodes/notifications';
+import { AuditLogger, RateLimiter, RequestInterceptor, SystemActionLogger, TwoFactorAuth } from './nodes/security';
 import type { NodeBase } from "@nanoservice-ts/shared";
 
 const nodes: {
@@ -23,6 +30,50 @@ const nodes: {
   
   // Admin Dashboard Nodes
   ...AdminDashboardNodes,
+
+  // Local Nodes (override the packaged admin dashboard implementations)
+  "authentication-checker": new AuthenticationChecker(),
+  "user-login": new UserLogin(),
+  "user-logout": new UserLogout(),
+  "two-factor-login": new TwoFactorLogin(),
+  "two-factor-auth": new TwoFactorAuth(),
+  "rate-limiter": new RateLimiter(),
+  "workflow-discovery": new WorkflowDiscovery(),
+  "email-verification": new EmailVerification(),
+  "email-service-manager": new EmailServiceManager(),
+  "email-templates": new EmailTemplates(),
+  "user-role-manager": new UserRoleManager(),
+  "user-register": new UserRegister(),
+  "user-list": new UserList(),
+  "user-find": new UserFind(),
+  "user-update": new UserUpdate(),
+  "user-delete": new UserDelete(),
+  "get-user-notifications": new GetUserNotifications(),
+  "create-notification": new CreateNotification(),
+  "system-action-logger": new SystemActionLogger(),
+  "audit-logger": new AuditLogger(),
+  "request-interceptor": new RequestInterceptor(),
+  "user-profile-update": new UserProfileUpdate(),
+  "password-hash": new PasswordHash(),
+  "password-verify": new PasswordVerify(),
+  "password-validator": new PasswordValidator(),
+  "email-validator": new EmailValidator(),
+
+  // Local Nodes (no packaged equivalent)
+  "api-key-manager": new ApiKeyManager(),
+  "session-manager": new SessionManager(),
+  "session-refresh": new SessionRefresh(),
+  "account-lockout": new AccountLockout(),
+  "permission-check": new PermissionCheck(),
+  "organization-manager": new OrganizationManager(),
+  "invitation-manager": new InvitationManager(),
+  "invitation-accept": new InvitationAccept(),
+  "impersonation-manager": new ImpersonationManager(),
+  "email-change-manager": new EmailChangeManager(),
+  "magic-link-manager": new MagicLinkManager(),
+  "oauth-manager": new OAuthManager(),
+  "passkey-manager": new PasskeyManager(),
+  "disposable-domains": new DisposableDomains(),
 };
 
 export default nodes;
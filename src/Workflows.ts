@@ -7,15 +7,22 @@ import type Workflows from "./runner/types/Workflows";
 // Admin Workflows
 import adminDashboard from "./workflows/admin/dashboard";
 import adminLogs from "./workflows/admin/admin-logs";
+import apiKeys from "./workflows/security/api-keys";
 // Security Workflows
 import auditLogs from "./workflows/security/audit-logs";
 // Authentication Workflows
 import authLogin from "./workflows/auth/login";
 import authLogout from "./workflows/auth/logout";
+import magicLink from "./workflows/auth/magic-link";
+import oauth from "./workflows/auth/oauth";
+import passkeys from "./workflows/auth/passkeys";
+import authRefresh from "./workflows/auth/refresh";
 import authRegister from "./workflows/auth/register";
+import authTwoFactorVerify from "./workflows/auth/two-factor-verify";
 import countriesFactsHelper from "./workflows/countries-cats-helper";
 import countriesHelper from "./workflows/countries-helper";
 // Email Workflows
+import capturedEmails from "./workflows/email/captured-emails";
 import emailServiceConfig from "./workflows/email/email-service-config";
 // Validation Workflows
 import emailValidationTest from "./workflows/validation/email-validation-test";
@@ -26,10 +33,12 @@ import passwordValidationTest from "./workflows/validation/password-validation-t
 // Profile Workflows
 import profileImageUpload from "./workflows/profile/profile-image-upload";
 import profileUpdate from "./workflows/profile/profile-update";
+import emailChange from "./workflows/profile/email-change";
 import protectedExample from "./workflows/auth/protected-example";
 import rateLimitTest from "./workflows/security/rate-limit-test";
 import themePreferences from "./workflows/profile/theme-preferences";
 import twoFactorAuth from "./workflows/security/two-factor-auth";
+import userSessions from "./workflows/security/user-sessions";
 import userDelete from "./workflows/admin/user-delete";
 import userFindTest from "./workflows/admin/user-find-test";
 import userListTest from "./workflows/admin/user-list-test";
@@ -37,7 +46,14 @@ import userManagement from "./workflows/admin/user-management";
 import userRoleManagement from "./workflows/admin/user-role-management";
 import userUpdate from "./workflows/admin/user-update";
 import adminUserCreate from "./workflows/admin/admin-user-create";
+import adminUserSessions from "./workflows/admin/admin-user-sessions";
+import adminAccountLockout from "./workflows/admin/admin-account-lockout";
+import adminDisposableDomains from "./workflows/admin/admin-disposable-domains";
 import verifySession from "./workflows/auth/verify-session";
+import organizations from "./workflows/auth/organizations";
+import invitations from "./workflows/admin/invitations";
+import impersonate from "./workflows/admin/impersonate";
+import invitationAccept from "./workflows/auth/invitation-accept";
 
 const workflows: Workflows = {
     "countries-helper": countriesHelper,
@@ -47,16 +63,25 @@ const workflows: Workflows = {
     "auth-login": authLogin,
     "auth-register": authRegister,
     "auth-logout": authLogout,
+    "auth-2fa-verify": authTwoFactorVerify,
+    "auth-refresh": authRefresh,
+    "magic-link": magicLink,
+    "oauth": oauth,
+    "passkeys": passkeys,
     "verify-session": verifySession,
     "protected-example": protectedExample,
+    "organizations": organizations,
+    "invitation-accept": invitationAccept,
     // Email API Endpoints
     "email-service-config": emailServiceConfig,
     "email-verification": emailVerification,
     "password-reset": passwordReset,
+    "captured-emails": capturedEmails,
     // Profile API Endpoints
     "profile-image-upload": profileImageUpload,
     "profile-update": profileUpdate,
     "theme-preferences": themePreferences,
+    "email-change": emailChange,
     // Notification API Endpoints
     "user-notifications": NotificationWorkflows.UserNotifications,
     "mark-notification-read": NotificationWorkflows.MarkNotificationRead,
@@ -70,6 +95,11 @@ const workflows: Workflows = {
 	"user-update": userUpdate,
 	"user-delete": userDelete,
 	"admin-user-create": adminUserCreate,
+	"admin-user-sessions": adminUserSessions,
+	"admin-account-lockout": adminAccountLockout,
+	"admin-disposable-domains": adminDisposableDomains,
+	"invitations": invitations,
+	"impersonate": impersonate,
 	// Test Endpoints (remove in production)
 	"user-list-test": userListTest,
 	"user-find-test": userFindTest,
@@ -78,6 +108,8 @@ const workflows: Workflows = {
 	"password-validation-test": passwordValidationTest,
 	// Security API Endpoints
 	"two-factor-auth": twoFactorAuth,
+	"api-keys": apiKeys,
+	"user-sessions": userSessions,
 	"audit-logs": auditLogs,
 	// Security Test Endpoints
 	"rate-limit-test": rateLimitTest,
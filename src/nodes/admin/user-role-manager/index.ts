@@ -5,19 +5,47 @@ import {
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import { db } from "../../../../database/config";
+import {
+  ADMIN_ROLE,
+  createRole,
+  deleteRole,
+  getRolePermissions,
+  listPermissions,
+  listRoles,
+  normalizeRoleName,
+  roleExists,
+  updateRole,
+} from "../../auth/permissions";
+import { resolveOrganizationAccess } from "../../auth/organizations";
+import { type RequestClient, clientIp } from "../../auth/sessions";
 
 interface InputType {
-  action: 'updateRole' | 'bulkUpdateRoles' | 'getRoleStats';
+  action:
+    | 'updateRole'
+    | 'bulkUpdateRoles'
+    | 'getRoleStats'
+    | 'listRoles'
+    | 'listPermissions'
+    | 'createRole'
+    | 'editRole'
+    | 'deleteRole';
   userId?: string;
   userIds?: string[];
-  newRole?: 'admin' | 'user';
+  newRole?: string; // Role name, e.g. "admin", "user" or a custom role such as "support"
+  roleName?: string; // Role to create, edit or delete
+  description?: string;
+  permissions?: string[];
   currentUserId: string; // The admin performing the action
 }
 
+// Actions that only read roles (roles:read); every other action needs roles:manage
+const READ_ACTIONS = ['getRoleStats', 'listRoles', 'listPermissions'];
+
 interface RoleStats {
   totalUsers: number;
   adminUsers: number;
   regularUsers: number;
+  byRole: Record<string, number>;
   recentRoleChanges: Array<{
     userId: string;
     userName: string;
@@ -36,6 +64,9 @@ interface RoleStats {
  * - Bulk role updates for multiple users
  * - Role statistics and reporting
  * - Role change auditing and history
+ * - Custom roles and their permissions (list, create, edit, delete)
+ *
+ * Read-only actions require the roles:read permission, all others roles:manage.
  */
 export default class UserRoleManager extends NanoService<InputType> {
   /**
@@ -49,7 +80,7 @@ export default class UserRoleManager extends NanoService<InputType> {
       properties: {
         action: {
           type: "string",
-          enum: ["updateRole", "bulkUpdateRoles", "getRoleStats"],
+          enum: ["updateRole", "bulkUpdateRoles", "getRoleStats", "listRoles", "listPermissions", "createRole", "editRole", "deleteRole"],
           description: "Action to perform"
         },
         userId: {
@@ -63,8 +94,20 @@ export default class UserRoleManager extends NanoService<InputType> {
         },
         newRole: {
           type: "string",
-          enum: ["admin", "user"],
-          description: "New role to assign"
+          description: "Name of the role to assign (case-insensitive)"
+        },
+        roleName: {
+          type: "string",
+          description: "Role to create, edit or delete"
+        },
+        description: {
+          type: "string",
+          description: "Role description (createRole, editRole)"
+        },
+        permissions: {
+          type: "array",
+          items: { type: "string" },
+          description: "Permissions granted to the role (createRole, editRole)"
         },
         currentUserId: {
           type: "string",
@@ -98,12 +141,10 @@ export default class UserRoleManager extends NanoService<InputType> {
                 },
                 oldRole: {
                   type: "string",
-                  enum: ["admin", "user"],
                   description: "Previous role of the user"
                 },
                 newRole: {
                   type: "string",
-                  enum: ["admin", "user"],
                   description: "New role assigned to the user"
                 },
                 updatedAt: {
@@ -146,12 +187,10 @@ export default class UserRoleManager extends NanoService<InputType> {
                       },
                       oldRole: {
                         type: "string",
-                        enum: ["admin", "user"],
                         description: "Previous role"
                       },
                       newRole: {
                         type: "string",
-                        enum: ["admin", "user"],
                         description: "New role"
                       }
                     },
@@ -221,6 +260,11 @@ export default class UserRoleManager extends NanoService<InputType> {
                   type: "number",
                   description: "Number of regular users"
                 },
+                byRole: {
+                  type: "object",
+                  additionalProperties: { type: "number" },
+                  description: "Number of users per role name"
+                },
                 recentRoleChanges: {
                   type: "array",
                   items: {
@@ -236,12 +280,10 @@ export default class UserRoleManager extends NanoService<InputType> {
                       },
                       oldRole: {
                         type: "string",
-                        enum: ["admin", "user"],
                         description: "Previous role"
                       },
                       newRole: {
                         type: "string",
-                        enum: ["admin", "user"],
                         description: "New role"
                       },
                       changedAt: {
@@ -259,7 +301,57 @@ export default class UserRoleManager extends NanoService<InputType> {
                   description: "Recent role changes for audit purposes"
                 }
               },
-              required: ["totalUsers", "adminUsers", "regularUsers", "recentRoleChanges"]
+              required: ["totalUsers", "adminUsers", "regularUsers", "byRole", "recentRoleChanges"]
+            }
+          },
+          required: ["success", "message", "data"]
+        },
+        {
+          // listRoles, createRole, editRole and deleteRole response
+          properties: {
+            success: {
+              type: "boolean",
+              description: "Whether the operation was successful"
+            },
+            message: {
+              type: "string",
+              description: "Operation result message"
+            },
+            data: {
+              type: "object",
+              properties: {
+                roles: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      id: { type: "string" },
+                      name: { type: "string" },
+                      description: { type: ["string", "null"] },
+                      isSystem: { type: "boolean" },
+                      permissions: { type: "array", items: { type: "string" } },
+                      userCount: { type: "number" },
+                      createdAt: { type: "string", format: "date-time" },
+                      updatedAt: { type: "string", format: "date-time" }
+                    },
+                    required: ["id", "name", "isSystem", "permissions", "userCount"]
+                  },
+                  description: "All roles after the operation"
+                },
+                permissions: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      key: { type: "string" },
+                      description: { type: "string" }
+                    },
+                    required: ["key", "description"]
+                  },
+                  description: "Permission catalogue"
+                }
+              },
+              required: ["roles", "permissions"]
             }
           },
           required: ["success", "message", "data"]
@@ -275,12 +367,25 @@ export default class UserRoleManager extends NanoService<InputType> {
     const response = new NanoServiceResponse();
 
     try {
-      // Verify the current user is an admin
-      const currentUser = await this.getCurrentUser(inputs.currentUserId);
-      if (!currentUser || currentUser.role !== 'ADMIN') {
-        throw new Error("Unauthorized: Only admins can manage user roles");
+      // Verify the current user's role in their active organization grants the
+      // permission for this action; roles are then managed within that organization
+      const currentUser = await this.getCurrentUser(ctx, inputs.currentUserId);
+      const required = READ_ACTIONS.includes(inputs.action) ? 'roles:read' : 'roles:manage';
+      if (!currentUser || !currentUser.permissions.includes(required)) {
+        const nodeError = new GlobalError(`Forbidden: the ${required} permission is required`);
+        nodeError.setCode(403);
+        nodeError.setName("user-role-manager");
+        response.setError(nodeError);
+        return response;
       }
 
+      const request = {
+        method: ctx.request?.method,
+        path: "/api/user-role-management",
+        ipAddress: clientIp(ctx.request as RequestClient | undefined),
+        userAgent: (ctx.request?.headers?.['user-agent'] as string | undefined) || 'unknown',
+      };
+
       let result;
       switch (inputs.action) {
         case 'updateRole':
@@ -290,7 +395,26 @@ export default class UserRoleManager extends NanoService<InputType> {
           result = await this.bulkUpdateRoles(inputs, currentUser);
           break;
         case 'getRoleStats':
-          result = await this.getRoleStats();
+          result = await this.getRoleStats(currentUser.organizationId);
+          break;
+        case 'listRoles':
+        case 'listPermissions':
+          result = await this.getRolesAndPermissions(currentUser.organizationId);
+          break;
+        case 'createRole':
+          if (!inputs.roleName) throw new Error("roleName is required for createRole action");
+          await createRole(currentUser, { name: inputs.roleName, description: inputs.description, permissions: inputs.permissions }, request);
+          result = await this.getRolesAndPermissions(currentUser.organizationId);
+          break;
+        case 'editRole':
+          if (!inputs.roleName) throw new Error("roleName is required for editRole action");
+          await updateRole(currentUser, inputs.roleName, { description: inputs.description, permissions: inputs.permissions }, request);
+          result = await this.getRolesAndPermissions(currentUser.organizationId);
+          break;
+        case 'deleteRole':
+          if (!inputs.roleName) throw new Error("roleName is required for deleteRole action");
+          await deleteRole(currentUser, inputs.roleName, request);
+          result = await this.getRolesAndPermissions(currentUser.organizationId);
           break;
         default:
           throw new Error(`Unsupported action: ${inputs.action}`);
@@ -314,9 +438,9 @@ export default class UserRoleManager extends NanoService<InputType> {
   }
 
   /**
-   * Get current user information
+   * Get user information
    */
-  private async getCurrentUser(userId: string) {
+  private async getUser(userId: string) {
     const user = await db.user.findUnique({
       where: {
         id: userId
@@ -326,6 +450,19 @@ export default class UserRoleManager extends NanoService<InputType> {
     return user;
   }
 
+  /**
+   * Get the acting user with their role and permissions in the active organization
+   */
+  private async getCurrentUser(ctx: Context, userId: string) {
+    const user = await this.getUser(userId);
+    if (!user) return null;
+
+    const sessionUser = ctx.vars?.currentUser as unknown as { id?: string; organizationId?: string | null } | undefined;
+    const access = await resolveOrganizationAccess(user, sessionUser?.id === userId ? sessionUser.organizationId : null);
+
+    return { ...user, ...access };
+  }
+
   /**
    * Update a single user's role
    */
@@ -334,56 +471,78 @@ export default class UserRoleManager extends NanoService<InputType> {
       throw new Error("userId and newRole are required for updateRole action");
     }
 
-    // Prevent self-demotion from admin
-    if (inputs.userId === currentUser.id && inputs.newRole !== 'admin') {
-      throw new Error("You cannot remove your own admin privileges");
+    const organizationId = currentUser.organizationId;
+    const newRole = normalizeRoleName(inputs.newRole);
+    if (!(await roleExists(newRole, organizationId))) {
+      throw new Error(`Role ${newRole} does not exist`);
     }
 
-    // Get the target user
-    const targetUser = await this.getCurrentUser(inputs.userId);
-    if (!targetUser) {
+    // Prevent locking yourself out of role management
+    if (inputs.userId === currentUser.id && !(await getRolePermissions(newRole, organizationId)).includes('roles:manage')) {
+      throw new Error("You cannot remove your own role management privileges");
+    }
+
+    // Get the target user; within an organization only its members can be changed
+    const targetUser = await this.getUser(inputs.userId);
+    const membership = targetUser && organizationId
+      ? await db.membership.findUnique({
+          where: { userId_organizationId: { userId: targetUser.id, organizationId } },
+          select: { role: true }
+        })
+      : null;
+    if (!targetUser || (organizationId && !membership)) {
       throw new Error("User not found");
     }
+    const previousRole: string = membership?.role ?? targetUser.role;
+
+    // Only administrators can grant or revoke the ADMIN role
+    if ((newRole === ADMIN_ROLE || previousRole === ADMIN_ROLE) && currentUser.role !== ADMIN_ROLE) {
+      throw new Error("Only administrators can grant or revoke the ADMIN role");
+    }
 
     // Check if role is actually changing
-    const currentRole = targetUser.role === 'ADMIN' ? 'admin' : 'user';
-    if (currentRole === inputs.newRole) {
+    if (previousRole === newRole) {
       return {
         updated: false,
-        message: `User is already assigned the ${inputs.newRole} role`,
+        message: `User is already assigned the ${newRole} role`,
         user: {
           id: targetUser.id,
           name: targetUser.name,
           email: targetUser.email,
-          role: targetUser.role
+          role: previousRole
         }
       };
     }
 
-    // Update the role
-    const updatedUser = await db.user.update({
-      where: { id: inputs.userId },
-      data: { 
-        role: inputs.newRole === 'admin' ? 'ADMIN' : 'USER',
-        updatedAt: new Date()
-      }
-    });
+    // Update the role (the membership role inside an organization)
+    const updated = organizationId
+      ? await db.membership.update({
+          where: { userId_organizationId: { userId: targetUser.id, organizationId } },
+          data: { role: newRole }
+        })
+      : await db.user.update({
+          where: { id: inputs.userId },
+          data: {
+            role: newRole,
+            updatedAt: new Date()
+          }
+        });
 
-    if (!updatedUser) {
+    if (!updated) {
       throw new Error("Failed to update user role");
     }
 
     return {
       updated: true,
-      message: `Successfully updated ${targetUser.name}'s role to ${inputs.newRole}`,
-      previousRole: targetUser.role,
-      newRole: inputs.newRole,
+      message: `Successfully updated ${targetUser.name}'s role to ${newRole}`,
+      previousRole,
+      newRole,
       user: {
-        id: updatedUser.id,
-        name: updatedUser.name,
-        email: updatedUser.email,
-        role: updatedUser.role,
-        updatedAt: updatedUser.updatedAt
+        id: targetUser.id,
+        name: targetUser.name,
+        email: targetUser.email,
+        role: newRole,
+        updatedAt: updated.updatedAt
       }
     };
   }
@@ -396,9 +555,12 @@ export default class UserRoleManager extends NanoService<InputType> {
       throw new Error("userIds array and newRole are required for bulkUpdateRoles action");
     }
 
-    // Prevent self-demotion from admin
-    if (inputs.userIds.includes(currentUser.id) && inputs.newRole !== 'admin') {
-      throw new Error("You cannot remove your own admin privileges");
+    // Prevent locking yourself out of role management
+    if (
+      inputs.userIds.includes(currentUser.id) &&
+      !(await getRolePermissions(inputs.newRole, currentUser.organizationId)).includes('roles:manage')
+    ) {
+      throw new Error("You cannot remove your own role management privileges");
     }
 
     const results = [];
@@ -431,12 +593,21 @@ export default class UserRoleManager extends NanoService<InputType> {
   /**
    * Get role statistics and recent changes
    */
-  private async getRoleStats(): Promise<RoleStats> {
-    // Get user counts by role
-    const totalUsers = await db.user.count();
-    const adminUsers = await db.user.count({
-      where: { role: 'ADMIN' }
-    });
+  private async getRoleStats(organizationId: string | null): Promise<RoleStats> {
+    // Get user counts by role (members of the organization when there is one)
+    const counts: Array<{ role: string; _count: { _all: number } }> = organizationId
+      ? await db.membership.groupBy({
+          by: ['role'],
+          where: { organizationId },
+          _count: { _all: true }
+        })
+      : await db.user.groupBy({
+          by: ['role'],
+          _count: { _all: true }
+        });
+    const totalUsers = counts.reduce((total, count) => total + count._count._all, 0);
+    const byRole = Object.fromEntries(counts.map((count) => [count.role, count._count._all]));
+    const adminUsers = byRole[ADMIN_ROLE] ?? 0;
     const regularUsers = totalUsers - adminUsers;
 
     // In a real system, this would query an audit log table
@@ -456,7 +627,18 @@ export default class UserRoleManager extends NanoService<InputType> {
       totalUsers,
       adminUsers,
       regularUsers,
+      byRole,
       recentRoleChanges
     };
   }
+
+  /**
+   * All roles with their permissions, and the permission catalogue
+   */
+  private async getRolesAndPermissions(organizationId: string | null) {
+    return {
+      roles: await listRoles(organizationId),
+      permissions: listPermissions()
+    };
+  }
 }
@@ -0,0 +1,149 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { listLockedAccounts, unlockAccount } from "../login-lockout";
+import { isUserInScope, organizationScope, scopedUserWhere } from "../organization-scope";
+import { type RequestClient, type RequestHeaders, clientIp, header } from "../sessions";
+
+type AccountLockoutInputType = {
+  action: "list" | "unlock";
+  userId?: string;
+};
+
+type CurrentUserType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  organizationId?: string | null;
+  permissions?: string[];
+};
+
+/**
+ * Account Lockout Node
+ *
+ * Administrator view of the login lockouts (users:unlock permission): list the accounts that are
+ * currently locked after repeated failed logins, and unlock one of them
+ * (which also clears its failure counters and back-off).
+ */
+export default class AccountLockout extends NanoService<AccountLockoutInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["list", "unlock"],
+          description: "Lockout operation to perform"
+        },
+        userId: {
+          type: "string",
+          description: "Account to unlock (unlock)"
+        }
+      },
+      required: ["action"]
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        message: { type: "string" },
+        lockedAccounts: {
+          type: "array",
+          description: "Currently locked accounts, soonest unlock first (list)",
+          items: {
+            type: "object",
+            properties: {
+              userId: { type: "string" },
+              email: { type: "string" },
+              name: { type: "string" },
+              lockedUntil: { type: "string", format: "date-time" },
+              lockoutCount: { type: "number" }
+            },
+            required: ["userId", "email", "name", "lockedUntil", "lockoutCount"]
+          }
+        }
+      },
+      required: ["success", "message"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: AccountLockoutInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      const user = ctx.vars?.currentUser as unknown as CurrentUserType | undefined;
+      if (!user?.id) {
+        const nodeError = new GlobalError("Authentication required");
+        nodeError.setCode(401);
+        response.setError(nodeError);
+        return response;
+      }
+
+      if (!user.permissions?.includes("users:unlock")) {
+        const nodeError = new GlobalError("Insufficient permissions");
+        nodeError.setCode(403);
+        response.setError(nodeError);
+        return response;
+      }
+
+      switch (inputs.action) {
+        case "list": {
+          const lockedAccounts = await listLockedAccounts(scopedUserWhere(organizationScope(ctx)));
+          response.setSuccess({
+            success: true,
+            message: `${lockedAccounts.length} locked account(s)`,
+            lockedAccounts,
+          } as unknown as JsonLikeObject);
+          break;
+        }
+
+        case "unlock": {
+          if (!inputs.userId) {
+            throw new Error("userId is required");
+          }
+          if (!(await isUserInScope(organizationScope(ctx), inputs.userId))) {
+            response.setSuccess({ success: false, message: "User not found" });
+            break;
+          }
+          const headers = ctx.request?.headers as RequestHeaders | undefined;
+          const unlocked = await unlockAccount(user, inputs.userId, {
+            method: ctx.request?.method,
+            path: "/api/admin-account-lockout",
+            ipAddress: clientIp(ctx.request as RequestClient | undefined),
+            userAgent: header(headers, "user-agent"),
+          });
+          if (unlocked) {
+            ctx.logger.log(`${user.email} unlocked account ${inputs.userId}`);
+          }
+          response.setSuccess({
+            success: unlocked,
+            message: unlocked ? "Account unlocked" : "User not found",
+          });
+          break;
+        }
+
+        default:
+          throw new Error(`Unsupported action: ${inputs.action}`);
+      }
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(error instanceof Error ? error.message : "Account lockout operation failed");
+      nodeError.setCode(400);
+      nodeError.setName("account-lockout");
+      response.setError(nodeError);
+
+      ctx.logger.error("Account lockout error:", error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,207 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { API_KEY_MAX_EXPIRY_DAYS, API_KEY_SCOPES, createApiKey, listApiKeys, revokeApiKey } from "../api-keys";
+import { type RequestClient, clientIp } from "../sessions";
+
+type ApiKeyManagerInputType = {
+  action: "list" | "create" | "revoke";
+  name?: string;
+  scopes?: string[];
+  expiresInDays?: number | null; // null = never expires
+  keyId?: string;
+};
+
+type CurrentUserType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  organizationId?: string | null;
+  permissions?: string[];
+};
+
+/**
+ * API Key Manager Node
+ *
+ * Lets the signed-in user list, create and revoke their own API keys.
+ * Requires a browser session: a request authenticated with an API key
+ * cannot mint or revoke keys.
+ */
+export default class ApiKeyManager extends NanoService<ApiKeyManagerInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["list", "create", "revoke"],
+          description: "API key operation to perform"
+        },
+        name: {
+          type: "string",
+          description: "Display name for a new key (create)"
+        },
+        scopes: {
+          type: "array",
+          items: { type: "string", enum: [...API_KEY_SCOPES] },
+          description: "Scopes granted to a new key (create)"
+        },
+        expiresInDays: {
+          type: ["number", "null"],
+          minimum: 1,
+          maximum: API_KEY_MAX_EXPIRY_DAYS,
+          description: "Days until a new key expires, null for no expiry (create)"
+        },
+        keyId: {
+          type: "string",
+          description: "Key to revoke (revoke)"
+        }
+      },
+      required: ["action"]
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        message: { type: "string" },
+        key: {
+          type: "string",
+          description: "Plaintext key, only returned once by create"
+        },
+        apiKey: {
+          type: "object",
+          description: "Created key metadata"
+        },
+        apiKeys: {
+          type: "array",
+          description: "The user's keys (list)",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              name: { type: "string" },
+              prefix: { type: "string" },
+              scopes: { type: "array", items: { type: "string", enum: [...API_KEY_SCOPES] } },
+              expiresAt: { type: ["string", "null"], format: "date-time" },
+              lastUsedAt: { type: ["string", "null"], format: "date-time" },
+              lastUsedIp: { type: ["string", "null"] },
+              revokedAt: { type: ["string", "null"], format: "date-time" },
+              createdAt: { type: "string", format: "date-time" },
+              status: { type: "string", enum: ["active", "expired", "revoked"] }
+            },
+            required: ["id", "name", "prefix", "scopes", "expiresAt", "lastUsedAt", "lastUsedIp", "revokedAt", "createdAt", "status"]
+          }
+        },
+        availableScopes: {
+          type: "array",
+          items: { type: "string" }
+        }
+      },
+      required: ["success", "message"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: ApiKeyManagerInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      const user = ctx.vars?.currentUser as unknown as CurrentUserType | undefined;
+      if (!user?.id) {
+        const nodeError = new GlobalError("Authentication required");
+        nodeError.setCode(401);
+        response.setError(nodeError);
+        return response;
+      }
+
+      const authMethod = (ctx.vars?.authResult as unknown as { authMethod?: string } | undefined)?.authMethod;
+      if (authMethod === "api-key" && inputs.action !== "list") {
+        const nodeError = new GlobalError("API keys cannot be managed with an API key");
+        nodeError.setCode(403);
+        response.setError(nodeError);
+        return response;
+      }
+
+      // An impersonation session must not leave credentials behind that outlive it
+      if (ctx.vars?.impersonator && inputs.action !== "list") {
+        const nodeError = new GlobalError("API keys cannot be managed while impersonating a user");
+        nodeError.setCode(403);
+        response.setError(nodeError);
+        return response;
+      }
+
+      const request = {
+        method: ctx.request?.method,
+        path: "/api/api-keys",
+        ipAddress: clientIp(ctx.request as RequestClient | undefined),
+        userAgent: ctx.request?.headers?.["user-agent"] || "unknown",
+      };
+
+      switch (inputs.action) {
+        case "list": {
+          const apiKeys = await listApiKeys(user.id);
+          response.setSuccess({
+            success: true,
+            message: `${apiKeys.length} API key(s)`,
+            apiKeys,
+            availableScopes: user.permissions?.length ? [...API_KEY_SCOPES] : ["read", "write"],
+          } as unknown as JsonLikeObject);
+          break;
+        }
+
+        case "create": {
+          const { key, apiKey } = await createApiKey(
+            user,
+            {
+              name: inputs.name || "",
+              scopes: inputs.scopes || ["read"],
+              expiresInDays: inputs.expiresInDays,
+            },
+            request
+          );
+          ctx.logger.log(`API key ${apiKey.prefix} created for ${user.email}`);
+          response.setSuccess({
+            success: true,
+            message: "API key created. Copy it now, it will not be shown again.",
+            key,
+            apiKey,
+          } as unknown as JsonLikeObject);
+          break;
+        }
+
+        case "revoke": {
+          if (!inputs.keyId) {
+            throw new Error("keyId is required");
+          }
+          const revoked = await revokeApiKey(user, inputs.keyId, request);
+          response.setSuccess({
+            success: revoked,
+            message: revoked ? "API key revoked" : "API key not found or already revoked",
+          });
+          break;
+        }
+
+        default:
+          throw new Error(`Unsupported action: ${inputs.action}`);
+      }
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(error instanceof Error ? error.message : "API key operation failed");
+      nodeError.setCode(400);
+      nodeError.setName("api-key-manager");
+      response.setError(nodeError);
+
+      ctx.logger.error("API key manager error:", error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+}
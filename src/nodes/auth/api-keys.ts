@@ -0,0 +1,329 @@
+import crypto from "crypto";
+import { db } from "../../../database/config";
+import SystemActionLogger, { ActionType, LogRiskLevel, ResourceType } from "../security/system-action-logger";
+import { resolveOrganizationAccess } from "./organizations";
+import { DEFAULT_ROLE, getRolePermissions } from "./permissions";
+import { type AuthenticatedUserType, hashToken } from "./sessions";
+
+/**
+ * API keys for scripts, CLIs and service-to-service callers
+ *
+ * Keys look like `blok_<8 hex prefix>_<secret>` and are only shown once, at
+ * creation time. The database keeps the SHA-256 hash plus the non-secret
+ * prefix so users can tell their keys apart.
+ *
+ * Scopes:
+ * - `read`:  GET / HEAD / OPTIONS requests only
+ * - `write`: every HTTP method
+ * - `admin`: act with the owner's role and permissions; without it the key acts as a regular user
+ */
+
+export const API_KEY_PREFIX = "blok_";
+
+export const API_KEY_SCOPES = ["read", "write", "admin"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * Longest lifetime a key may be created with
+ */
+export const API_KEY_MAX_EXPIRY_DAYS = 365;
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export type ApiKeyInfoType = {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  status: "active" | "expired" | "revoked";
+};
+
+export type ApiKeyRequestType = {
+  method: string;
+  path: string;
+  ipAddress: string;
+  userAgent: string;
+};
+
+export type ApiKeyAuthResult =
+  | {
+      isAuthenticated: true;
+      user: AuthenticatedUserType;
+      apiKey: { id: string; name: string; prefix: string; scopes: ApiKeyScope[] };
+    }
+  | {
+      isAuthenticated: false;
+      message: string;
+      statusCode: number;
+    };
+
+export function isApiKey(token: string | undefined): boolean {
+  return typeof token === "string" && token.startsWith(API_KEY_PREFIX);
+}
+
+function parseScopes(scopes: string): ApiKeyScope[] {
+  try {
+    const parsed = JSON.parse(scopes);
+    return Array.isArray(parsed) ? parsed.filter((scope) => API_KEY_SCOPES.includes(scope)) : [];
+  } catch {
+    return [];
+  }
+}
+
+function toApiKeyInfo(key: {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}): ApiKeyInfoType {
+  let status: ApiKeyInfoType["status"] = "active";
+  if (key.revokedAt) status = "revoked";
+  else if (key.expiresAt && key.expiresAt <= new Date()) status = "expired";
+
+  return {
+    id: key.id,
+    name: key.name,
+    prefix: key.prefix,
+    scopes: parseScopes(key.scopes),
+    expiresAt: key.expiresAt?.toISOString() ?? null,
+    lastUsedAt: key.lastUsedAt?.toISOString() ?? null,
+    lastUsedIp: key.lastUsedIp,
+    revokedAt: key.revokedAt?.toISOString() ?? null,
+    createdAt: key.createdAt.toISOString(),
+    status,
+  };
+}
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+export async function listApiKeys(userId: string): Promise<ApiKeyInfoType[]> {
+  const keys = await db.apiKey.findMany({
+    where: { userId },
+    select: apiKeySelect,
+    orderBy: { createdAt: "desc" },
+  });
+
+  return keys.map(toApiKeyInfo);
+}
+
+/**
+ * Create a key for `user`. The plaintext key is returned once and never stored.
+ */
+export async function createApiKey(
+  user: { id: string; email: string; name: string; role: string; organizationId?: string | null },
+  options: { name: string; scopes: string[]; expiresInDays?: number | null },
+  request?: Partial<ApiKeyRequestType>
+): Promise<{ key: string; apiKey: ApiKeyInfoType }> {
+  const name = options.name?.trim();
+  if (!name) {
+    throw new Error("API key name is required");
+  }
+
+  const scopes = Array.from(new Set(options.scopes)) as ApiKeyScope[];
+  if (scopes.length === 0 || scopes.some((scope) => !API_KEY_SCOPES.includes(scope))) {
+    throw new Error(`API key scopes must be one or more of: ${API_KEY_SCOPES.join(", ")}`);
+  }
+  if (scopes.includes("admin") && (await getRolePermissions(user.role, user.organizationId)).length === 0) {
+    throw new Error("Only users with administrative permissions can create keys with the admin scope");
+  }
+
+  let expiresAt: Date | null = null;
+  if (options.expiresInDays !== undefined && options.expiresInDays !== null) {
+    if (options.expiresInDays < 1 || options.expiresInDays > API_KEY_MAX_EXPIRY_DAYS) {
+      throw new Error(`API keys must expire within 1 to ${API_KEY_MAX_EXPIRY_DAYS} days`);
+    }
+    expiresAt = new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000);
+  }
+
+  const prefix = `${API_KEY_PREFIX}${crypto.randomBytes(4).toString("hex")}`;
+  const key = `${prefix}_${crypto.randomBytes(24).toString("base64url")}`;
+
+  const created = await db.apiKey.create({
+    data: {
+      userId: user.id,
+      name,
+      prefix,
+      keyHash: hashToken(key),
+      scopes: JSON.stringify(scopes),
+      expiresAt,
+    },
+    select: apiKeySelect,
+  });
+
+  await SystemActionLogger.logAction({
+    userId: user.id,
+    userEmail: user.email,
+    userName: user.name,
+    userRole: user.role,
+    action: "API_KEY_CREATED",
+    actionType: ActionType.CREATE,
+    resourceType: ResourceType.API_KEY,
+    resourceId: created.id,
+    resourceName: `${name} (${prefix})`,
+    httpMethod: request?.method || "POST",
+    endpoint: request?.path || "/api/api-keys",
+    ipAddress: request?.ipAddress || "unknown",
+    userAgent: request?.userAgent || "unknown",
+    changesSummary: { scopes, expiresAt: expiresAt?.toISOString() ?? null },
+    statusCode: 201,
+    success: true,
+    riskLevel: scopes.includes("admin") ? LogRiskLevel.HIGH : LogRiskLevel.MEDIUM,
+  });
+
+  return { key, apiKey: toApiKeyInfo(created) };
+}
+
+/**
+ * Revoke one of `user`'s keys. Returns false if the key does not exist or belongs to someone else.
+ */
+export async function revokeApiKey(
+  user: { id: string; email: string; name: string; role: string },
+  keyId: string,
+  request?: Partial<ApiKeyRequestType>
+): Promise<boolean> {
+  const result = await db.apiKey.updateMany({
+    where: { id: keyId, userId: user.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (result.count === 0) {
+    return false;
+  }
+
+  await SystemActionLogger.logAction({
+    userId: user.id,
+    userEmail: user.email,
+    userName: user.name,
+    userRole: user.role,
+    action: "API_KEY_REVOKED",
+    actionType: ActionType.DELETE,
+    resourceType: ResourceType.API_KEY,
+    resourceId: keyId,
+    httpMethod: request?.method || "POST",
+    endpoint: request?.path || "/api/api-keys",
+    ipAddress: request?.ipAddress || "unknown",
+    userAgent: request?.userAgent || "unknown",
+    statusCode: 200,
+    success: true,
+    riskLevel: LogRiskLevel.MEDIUM,
+  });
+
+  return true;
+}
+
+/**
+ * Resolve the user behind an API key and check the key's scopes against the request.
+ * Every use of an existing key, accepted or not, is logged through SystemActionLogger.
+ */
+export async function authenticateApiKey(key: string, request: ApiKeyRequestType): Promise<ApiKeyAuthResult> {
+  const apiKey = await db.apiKey.findUnique({
+    where: { keyHash: hashToken(key) },
+    select: {
+      ...apiKeySelect,
+      user: {
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          emailVerified: true,
+          lastOrganizationId: true,
+        },
+      },
+    },
+  });
+
+  if (!apiKey) {
+    return { isAuthenticated: false, message: "Invalid API key", statusCode: 401 };
+  }
+
+  const scopes = parseScopes(apiKey.scopes);
+  const method = request.method.toUpperCase();
+
+  let failure: { message: string; statusCode: number } | undefined;
+  if (apiKey.revokedAt) {
+    failure = { message: "API key has been revoked", statusCode: 401 };
+  } else if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+    failure = { message: "API key has expired", statusCode: 401 };
+  } else if (!scopes.includes("write") && !(scopes.includes("read") && SAFE_METHODS.includes(method))) {
+    failure = { message: `API key scope does not allow ${method} requests`, statusCode: 403 };
+  }
+
+  const logEntry = {
+    userId: apiKey.user.id,
+    userEmail: apiKey.user.email,
+    userName: apiKey.user.name,
+    userRole: apiKey.user.role,
+    action: "API_KEY_USED",
+    actionType: ActionType.LOGIN,
+    resourceType: ResourceType.API_KEY,
+    resourceId: apiKey.id,
+    resourceName: `${apiKey.name} (${apiKey.prefix})`,
+    httpMethod: method,
+    endpoint: request.path,
+    ipAddress: request.ipAddress,
+    userAgent: request.userAgent,
+  };
+
+  if (failure) {
+    await SystemActionLogger.logAction({
+      ...logEntry,
+      details: failure.message,
+      statusCode: failure.statusCode,
+      success: false,
+      riskLevel: LogRiskLevel.MEDIUM,
+    });
+
+    return { isAuthenticated: false, ...failure };
+  }
+
+  await db.apiKey.update({
+    where: { id: apiKey.id },
+    data: { lastUsedAt: new Date(), lastUsedIp: request.ipAddress },
+  });
+
+  await SystemActionLogger.logAction({
+    ...logEntry,
+    statusCode: 200,
+    success: true,
+    riskLevel: scopes.includes("admin") ? LogRiskLevel.MEDIUM : LogRiskLevel.LOW,
+  });
+
+  // Keys act in the organization the owner last switched to. Without the admin
+  // scope the key never carries the owner's permissions.
+  const { lastOrganizationId, ...owner } = apiKey.user;
+  const access = await resolveOrganizationAccess(owner, lastOrganizationId);
+  const role = scopes.includes("admin") ? access.role : DEFAULT_ROLE;
+
+  return {
+    isAuthenticated: true,
+    user: {
+      ...owner,
+      role,
+      organizationId: access.organizationId,
+      permissions: scopes.includes("admin") ? access.permissions : await getRolePermissions(role, access.organizationId),
+    },
+    apiKey: { id: apiKey.id, name: apiKey.name, prefix: apiKey.prefix, scopes },
+  };
+}
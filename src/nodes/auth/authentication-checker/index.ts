@@ -3,10 +3,10 @@ import {
   type JsonLikeObject,
   NanoService,
   NanoServiceResponse,
-  type ParamsDictionary,
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
-import { db } from '../../../../database/config';
+import { authenticateRequest } from "../request-auth";
+import { type RequestClient, type SessionAuthResult, clientIp, setAuthVars } from "../sessions";
 
 type AuthenticationCheckerInputType = {
   requireAuth: boolean;
@@ -14,29 +14,10 @@ type AuthenticationCheckerInputType = {
   requestPath: string;
   headers: Record<string, string>;
   cookies: Record<string, string>;
-  sessionDurationHours?: number; // Default: 1 hour
+  sessionDurationHours?: number; // Unused: sessions renew with the idle timeout they were created with
 };
 
-type UserDataType = {
-  id: string;
-  email: string;
-  name: string;
-  role: string;
-  emailVerified: boolean;
-};
-
-type SessionDataType = {
-  id: string;
-  expiresAt: string;
-};
-
-type AuthenticationCheckerOutputType = {
-  isAuthenticated: boolean;
-  user?: UserDataType;
-  session?: SessionDataType;
-  message: string;
-  statusCode: number;
-};
+type AuthenticationCheckerOutputType = SessionAuthResult;
 
 export default class AuthenticationChecker extends NanoService<AuthenticationCheckerInputType> {
   constructor() {
@@ -60,7 +41,7 @@ export default class AuthenticationChecker extends NanoService<AuthenticationChe
         },
         headers: {
           type: "object",
-          description: "Request headers"
+          description: "Request headers (Authorization: Bearer / X-API-Key are recognized)"
         },
         cookies: {
           type: "object",
@@ -71,7 +52,7 @@ export default class AuthenticationChecker extends NanoService<AuthenticationChe
           minimum: 1,
           maximum: 168, // 7 days max
           default: 1,
-          description: "Session duration in hours (default: 1)"
+          description: "Deprecated, ignored: sessions renew with their own idle timeout"
         }
       },
       required: ["requireAuth", "requestMethod", "requestPath", "headers", "cookies"]
@@ -127,10 +108,45 @@ export default class AuthenticationChecker extends NanoService<AuthenticationChe
               type: "string",
               format: "date-time",
               description: "Session expiration timestamp"
+            },
+            renewed: {
+              type: "boolean",
+              description: "Whether this request extended the session (the cookie is re-issued)"
             }
           },
           required: ["id", "expiresAt"]
         },
+        authMethod: {
+          type: "string",
+          enum: ["session", "api-key"],
+          description: "How the request authenticated (only present if authenticated)"
+        },
+        apiKey: {
+          type: "object",
+          description: "API key used for the request (only present for API key authentication)",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            prefix: { type: "string" },
+            scopes: {
+              type: "array",
+              items: { type: "string", enum: ["read", "write", "admin"] }
+            }
+          },
+          required: ["id", "name", "prefix", "scopes"]
+        },
+        impersonator: {
+          type: "object",
+          description: "Administrator signed in as the user (only present while impersonating, also in ctx.vars.impersonator)",
+          properties: {
+            id: { type: "string" },
+            email: { type: "string" },
+            name: { type: "string" },
+            role: { type: "string" },
+            sessionId: { type: ["string", "null"] }
+          },
+          required: ["id", "email", "name", "role", "sessionId"]
+        },
         message: {
           type: "string",
           description: "Human-readable result message"
@@ -138,7 +154,7 @@ export default class AuthenticationChecker extends NanoService<AuthenticationChe
         statusCode: {
           type: "number",
           description: "HTTP status code",
-          enum: [200, 401, 500]
+          enum: [200, 401, 403, 500]
         }
       },
       required: ["isAuthenticated", "message", "statusCode"]
@@ -159,134 +175,30 @@ export default class AuthenticationChecker extends NanoService<AuthenticationChe
           statusCode: 200
         };
 
-        if (ctx.vars === undefined) ctx.vars = {};
-        ctx.vars.authResult = result as unknown as ParamsDictionary;
-        ctx.vars.isAuthenticated = false as unknown as ParamsDictionary;
-
+        setAuthVars(ctx, result);
         response.setSuccess(result as unknown as JsonLikeObject);
         return response;
       }
 
-      // Extract session token from cookies only
-      let sessionToken: string | undefined;
-
-      // Get session token from cookies (blok_session_token)
-      if (inputs.cookies && inputs.cookies.blok_session_token) {
-        sessionToken = inputs.cookies.blok_session_token;
-      }
-
-      if (!sessionToken) {
-        const result: AuthenticationCheckerOutputType = {
-          isAuthenticated: false,
-          message: 'No session token provided',
-          statusCode: 401
-        };
-
-        if (ctx.vars === undefined) ctx.vars = {};
-        ctx.vars.authResult = result as unknown as ParamsDictionary;
-        ctx.vars.isAuthenticated = false as unknown as ParamsDictionary;
-
-        response.setSuccess(result as unknown as JsonLikeObject);
-        return response;
-      }
-
-      ctx.logger.log('Session token found, verifying...');
-
-      // Look up the session in the database with user data
-      const sessionData = await db.session.findUnique({
-        where: {
-          token: sessionToken
-        },
-        select: {
-          id: true,
-          token: true,
-          expiresAt: true,
-          createdAt: true,
-          user: {
-            select: {
-              id: true,
-              email: true,
-              name: true,
-              role: true,
-              emailVerified: true
-            }
-          }
-        }
+      // API key (X-API-Key / Authorization: Bearer), bearer session token or the blok_session_token cookie
+      const result: AuthenticationCheckerOutputType = await authenticateRequest({
+        method: inputs.requestMethod,
+        path: inputs.requestPath,
+        headers: inputs.headers,
+        cookies: inputs.cookies,
+        ipAddress: clientIp(ctx.request as RequestClient | undefined),
       });
-
-      if (!sessionData) {
-        const result: AuthenticationCheckerOutputType = {
-          isAuthenticated: false,
-          message: 'Invalid session token',
-          statusCode: 401
-        };
-
-        if (ctx.vars === undefined) ctx.vars = {};
-        ctx.vars.authResult = result as unknown as ParamsDictionary;
-        ctx.vars.isAuthenticated = false as unknown as ParamsDictionary;
-
-        response.setSuccess(result as unknown as JsonLikeObject);
-        return response;
+      setAuthVars(ctx, result);
+
+      if (result.isAuthenticated && result.user) {
+        ctx.logger.log(
+          `User authenticated: ${result.user.email} (${result.user.role}) via ${result.authMethod}` +
+            (result.impersonator ? `, impersonated by ${result.impersonator.email}` : "")
+        );
+      } else {
+        ctx.logger.log(`Authentication failed: ${result.message}`);
       }
 
-      // Check if session has expired
-      const now = new Date();
-      const expiresAt = new Date(sessionData.expiresAt);
-
-      if (now > expiresAt) {
-        ctx.logger.log('Session expired, cleaning up...');
-
-        // Delete expired session
-        await db.session.delete({
-          where: {
-            id: sessionData.id
-          }
-        });
-
-        const result: AuthenticationCheckerOutputType = {
-          isAuthenticated: false,
-          message: 'Session has expired',
-          statusCode: 401
-        };
-
-        if (ctx.vars === undefined) ctx.vars = {};
-        ctx.vars.authResult = result as unknown as ParamsDictionary;
-        ctx.vars.isAuthenticated = false as unknown as ParamsDictionary;
-
-        response.setSuccess(result as unknown as JsonLikeObject);
-        return response;
-      }
-
-      // Session is valid!
-      const userData: UserDataType = {
-        id: sessionData.user.id,
-        email: sessionData.user.email,
-        name: sessionData.user.name,
-        role: sessionData.user.role,
-        emailVerified: sessionData.user.emailVerified
-      };
-
-      const sessionInfo: SessionDataType = {
-        id: sessionData.id,
-        expiresAt: sessionData.expiresAt.toISOString()
-      };
-
-      const result: AuthenticationCheckerOutputType = {
-        isAuthenticated: true,
-        user: userData,
-        session: sessionInfo,
-        message: 'Authentication successful',
-        statusCode: 200
-      };
-
-      // Store authentication data in context
-      if (ctx.vars === undefined) ctx.vars = {};
-      ctx.vars.authResult = result as unknown as ParamsDictionary;
-      ctx.vars.isAuthenticated = true as unknown as ParamsDictionary;
-      ctx.vars.currentUser = userData as unknown as ParamsDictionary;
-      ctx.vars.currentSession = sessionInfo as unknown as ParamsDictionary;
-
-      ctx.logger.log(`User authenticated: ${userData.email} (${userData.role})`);
       response.setSuccess(result as unknown as JsonLikeObject);
 
     } catch (error: unknown) {
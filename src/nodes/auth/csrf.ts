@@ -0,0 +1,71 @@
+import crypto from "crypto";
+import { REFRESH_TOKEN_COOKIE, type RequestHeaders, SESSION_COOKIE, header } from "./sessions";
+
+/**
+ * CSRF protection for cookie-authenticated API calls (double-submit token)
+ *
+ * The frontend server issues a random token in the page payload (`csrfToken`)
+ * and mirrors it in the HttpOnly `blok_csrf_token` cookie. Mutating `/api/*`
+ * calls that carry an auth cookie must echo the token in the `X-CSRF-Token`
+ * header; a cross-site form or fetch can make the browser send the cookies but
+ * cannot read the page payload to forge the header.
+ *
+ * Requests authenticated only by a Bearer token or API key carry no auth
+ * cookie and are not checked. Workflows opt out with `csrf: false` in
+ * `addTrigger("http", { ... })`. Set `CSRF_PROTECTION=false` to disable globally.
+ */
+
+export const CSRF_PROTECTION_ENABLED = process.env.CSRF_PROTECTION !== "false";
+
+export const CSRF_COOKIE = "blok_csrf_token";
+export const CSRF_HEADER = "x-csrf-token";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+const CSRF_TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+export function generateCsrfToken(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+/**
+ * Browser-session cookie holding the expected token
+ */
+export function csrfCookie(token: string): string {
+  return `${CSRF_COOKIE}=${token}; HttpOnly; Secure=${process.env.NODE_ENV === "production"}; SameSite=Lax; Path=/`;
+}
+
+/**
+ * Reuse the browser's CSRF token, or issue a new one.
+ * `cookie` is set when a new token has to be stored in the browser.
+ */
+export function resolveCsrfToken(cookies: Record<string, string> | undefined): { token: string; cookie?: string } {
+  const existing = cookies?.[CSRF_COOKIE];
+  if (existing && CSRF_TOKEN_PATTERN.test(existing)) {
+    return { token: existing };
+  }
+
+  const token = generateCsrfToken();
+  return { token, cookie: csrfCookie(token) };
+}
+
+/**
+ * Whether a request needs a CSRF token: a mutating method sent with an auth cookie
+ */
+export function requiresCsrfToken(method: string | undefined, cookies: Record<string, string> | undefined): boolean {
+  if (!CSRF_PROTECTION_ENABLED) return false;
+  if (SAFE_METHODS.includes((method || "GET").toUpperCase())) return false;
+  return !!(cookies?.[SESSION_COOKIE] || cookies?.[REFRESH_TOKEN_COOKIE]);
+}
+
+/**
+ * Compare the `X-CSRF-Token` header with the `blok_csrf_token` cookie in constant time
+ */
+export function verifyCsrfToken(headers: RequestHeaders | undefined, cookies: Record<string, string> | undefined): boolean {
+  const expected = cookies?.[CSRF_COOKIE];
+  const provided = header(headers, CSRF_HEADER);
+  if (!expected || !provided || !CSRF_TOKEN_PATTERN.test(expected)) return false;
+
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length && crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+}
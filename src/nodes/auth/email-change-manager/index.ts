@@ -0,0 +1,179 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+  type ParamsDictionary,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { type EmailChangeType, confirmEmailChange, requestEmailChange, undoEmailChange } from "../email-change";
+import { type RequestClient, clientIp } from "../sessions";
+
+type EmailChangeManagerInputType = {
+  action: "request" | "confirm" | "undo";
+  newEmail?: string; // Requested address (request)
+  currentPassword?: string; // Re-authentication (request)
+  userId?: string; // From the verified email token (confirm, undo)
+  email?: string; // Address the verified token was sent to (confirm, undo)
+};
+
+type CurrentUserType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+};
+
+/**
+ * Email Change Manager Node
+ *
+ * `request` (signed-in user, current password required) starts a change;
+ * `confirm` and `undo` apply a `change-email` / `revert-email-change` token
+ * that the workflow has already verified with email-verification. The data for
+ * the workflow's email steps is stored in `ctx.vars.emailChange`.
+ */
+export default class EmailChangeManager extends NanoService<EmailChangeManagerInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["request", "confirm", "undo"],
+          description: "Email change step to perform"
+        },
+        newEmail: {
+          type: "string",
+          description: "Address to change to (request)"
+        },
+        currentPassword: {
+          type: "string",
+          description: "The user's current password (request)"
+        },
+        userId: {
+          type: "string",
+          description: "User the verified token belongs to (confirm, undo)"
+        },
+        email: {
+          type: "string",
+          description: "Address the verified token was sent to (confirm, undo)"
+        }
+      },
+      required: ["action"]
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        message: { type: "string" },
+        email: {
+          type: "string",
+          description: "The account's email address once this step is done"
+        },
+        pendingEmail: {
+          type: "string",
+          description: "Address waiting for confirmation (request)"
+        }
+      },
+      required: ["success", "message"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: EmailChangeManagerInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      const request = {
+        method: ctx.request?.method,
+        path: "/api/email-change",
+        ipAddress: clientIp(ctx.request as RequestClient | undefined),
+        userAgent: ctx.request?.headers?.["user-agent"] || "unknown",
+      };
+
+      let change: EmailChangeType;
+      let result: Record<string, unknown>;
+
+      switch (inputs.action) {
+        case "request": {
+          const user = ctx.vars?.currentUser as unknown as CurrentUserType | undefined;
+          if (!user?.id) {
+            const nodeError = new GlobalError("Authentication required");
+            nodeError.setCode(401);
+            response.setError(nodeError);
+            return response;
+          }
+          if (ctx.vars?.impersonator) {
+            const nodeError = new GlobalError("The email address cannot be changed while impersonating a user");
+            nodeError.setCode(403);
+            response.setError(nodeError);
+            return response;
+          }
+
+          change = await requestEmailChange(
+            user.id,
+            { newEmail: inputs.newEmail || "", currentPassword: inputs.currentPassword || "" },
+            request
+          );
+          result = {
+            success: true,
+            message: `We sent a confirmation link to ${change.newEmail}. Your email address changes once you open it.`,
+            email: change.previousEmail,
+            pendingEmail: change.newEmail,
+          };
+          break;
+        }
+
+        case "confirm": {
+          if (!inputs.userId || !inputs.email) {
+            throw new Error("Invalid or expired confirmation link");
+          }
+          change = await confirmEmailChange(inputs.userId, inputs.email, request);
+          ctx.logger.log(`Email changed for user ${change.userId}`);
+          result = {
+            success: true,
+            message: `Your email address is now ${change.newEmail}`,
+            email: change.newEmail,
+          };
+          break;
+        }
+
+        case "undo": {
+          if (!inputs.userId || !inputs.email) {
+            throw new Error("Invalid or expired undo link");
+          }
+          change = await undoEmailChange(inputs.userId, inputs.email, request);
+          ctx.logger.log(`Email change undone for user ${change.userId}`);
+          result = {
+            success: true,
+            message: `Your email address is back to ${change.newEmail} and you've been signed out everywhere. Sign in and change your password.`,
+            email: change.newEmail,
+          };
+          break;
+        }
+
+        default:
+          throw new Error(`Unsupported action: ${inputs.action}`);
+      }
+
+      if (ctx.vars === undefined) ctx.vars = {};
+      ctx.vars.emailChange = change as unknown as ParamsDictionary;
+      ctx.vars.emailChangeResult = result as unknown as ParamsDictionary;
+
+      response.setSuccess(result as unknown as JsonLikeObject);
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(error instanceof Error ? error.message : "Email change failed");
+      nodeError.setCode(400);
+      nodeError.setName("email-change-manager");
+      response.setError(nodeError);
+
+      ctx.logger.error("Email change manager error:", error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+}
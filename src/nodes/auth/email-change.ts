@@ -0,0 +1,201 @@
+import { db } from "../../../database/config";
+import AuditLogger from "../security/audit-logger";
+import SystemActionLogger, { ActionType, LogRiskLevel, ResourceType } from "../security/system-action-logger";
+import { verifyPassword } from "./passwords";
+import { revokeSessionsAfterEmailChangeUndo } from "./user-sessions";
+
+/**
+ * Self-service email change
+ *
+ * A user asks for a new address with their current password; nothing changes
+ * until the link sent to the new address (an `EmailVerification` token with
+ * purpose `change-email`) is confirmed. The old address is told about the
+ * request, and once the swap happens it gets an undo link (purpose
+ * `revert-email-change`) valid for `EMAIL_CHANGE_UNDO_HOURS`. Undoing restores
+ * the old address and signs the account out everywhere, since the change may
+ * not have been made by its owner.
+ *
+ * The tokens and emails are handled by the email-change workflow with the
+ * email-verification, email-templates and email-service-manager nodes.
+ */
+
+export const EMAIL_CHANGE_CONFIRM_HOURS = Number(process.env.EMAIL_CHANGE_CONFIRM_HOURS ?? 24);
+export const EMAIL_CHANGE_UNDO_HOURS = Number(process.env.EMAIL_CHANGE_UNDO_HOURS ?? 72);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * What the workflow's email steps need (`ctx.vars.emailChange`)
+ */
+export type EmailChangeType = {
+  userId: string;
+  userName: string;
+  previousEmail: string;
+  newEmail: string;
+  confirmHours: number;
+  undoHours: number;
+};
+
+export type EmailChangeRequestType = {
+  method: string;
+  path: string;
+  ipAddress: string;
+  userAgent: string;
+};
+
+type EmailChangeAction = "EMAIL_CHANGE_REQUESTED" | "EMAIL_CHANGED" | "EMAIL_CHANGE_UNDONE";
+
+async function logEmailChangeAction(
+  user: { id: string; email: string; name: string; role: string },
+  action: EmailChangeAction,
+  change: { previousEmail: string; newEmail: string },
+  request?: Partial<EmailChangeRequestType>,
+  riskLevel: LogRiskLevel = LogRiskLevel.HIGH
+): Promise<void> {
+  await SystemActionLogger.logAction({
+    userId: user.id,
+    userEmail: user.email,
+    userName: user.name,
+    userRole: user.role,
+    action,
+    actionType: ActionType.UPDATE,
+    resourceType: ResourceType.PROFILE,
+    resourceId: user.id,
+    resourceName: change.newEmail,
+    httpMethod: request?.method || "POST",
+    endpoint: request?.path || "/api/email-change",
+    ipAddress: request?.ipAddress || "unknown",
+    userAgent: request?.userAgent || "unknown",
+    changesSummary: { email: { from: change.previousEmail, to: change.newEmail } },
+    statusCode: 200,
+    success: true,
+    riskLevel,
+  });
+}
+
+function toEmailChange(user: { id: string; name: string }, previousEmail: string, newEmail: string): EmailChangeType {
+  return {
+    userId: user.id,
+    userName: user.name,
+    previousEmail,
+    newEmail,
+    confirmHours: EMAIL_CHANGE_CONFIRM_HOURS,
+    undoHours: EMAIL_CHANGE_UNDO_HOURS,
+  };
+}
+
+async function findUser(userId: string) {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, name: true, role: true, passwordHash: true },
+  });
+  if (!user) {
+    throw new Error("User not found");
+  }
+  return user;
+}
+
+async function assertEmailAvailable(email: string, userId: string): Promise<void> {
+  const owner = await db.user.findUnique({ where: { email }, select: { id: true } });
+  if (owner && owner.id !== userId) {
+    throw new Error("Email address is already in use");
+  }
+}
+
+/**
+ * Drop links from earlier change requests so only the latest one can be confirmed
+ */
+async function cancelPendingEmailChanges(userId: string): Promise<void> {
+  await db.emailToken.deleteMany({ where: { userId, purpose: "change-email", usedAt: null } });
+}
+
+/**
+ * Start changing `userId`'s email address to `newEmail`. The current password is
+ * required; the change only happens once the new address confirms it.
+ */
+export async function requestEmailChange(
+  userId: string,
+  input: { newEmail: string; currentPassword: string },
+  request?: Partial<EmailChangeRequestType>
+): Promise<EmailChangeType> {
+  const user = await findUser(userId);
+
+  if (!input.currentPassword || !(await verifyPassword(input.currentPassword, user.passwordHash))) {
+    throw new Error("Current password is incorrect");
+  }
+
+  const newEmail = input.newEmail?.trim().toLowerCase();
+  if (!newEmail || !EMAIL_PATTERN.test(newEmail)) {
+    throw new Error("A valid email address is required");
+  }
+  if (newEmail === user.email.toLowerCase()) {
+    throw new Error("This is already your email address");
+  }
+  await assertEmailAvailable(newEmail, user.id);
+
+  await cancelPendingEmailChanges(user.id);
+  await logEmailChangeAction(
+    user,
+    "EMAIL_CHANGE_REQUESTED",
+    { previousEmail: user.email, newEmail },
+    request,
+    LogRiskLevel.MEDIUM
+  );
+
+  return toEmailChange(user, user.email, newEmail);
+}
+
+/**
+ * Switch to the confirmed `newEmail` (from a verified `change-email` token).
+ * The address is verified by the confirmation itself.
+ */
+export async function confirmEmailChange(
+  userId: string,
+  newEmail: string,
+  request?: Partial<EmailChangeRequestType>
+): Promise<EmailChangeType> {
+  const user = await findUser(userId);
+  await assertEmailAvailable(newEmail, user.id);
+
+  await db.user.update({
+    where: { id: user.id },
+    data: { email: newEmail, emailVerified: true },
+  });
+  await cancelPendingEmailChanges(user.id);
+
+  const change = { previousEmail: user.email, newEmail };
+  await logEmailChangeAction({ ...user, email: newEmail }, "EMAIL_CHANGED", change, request);
+  await AuditLogger.logSecurityEvent("email_changed", user.id, change);
+
+  return toEmailChange(user, user.email, newEmail);
+}
+
+/**
+ * Restore `previousEmail` (from a verified `revert-email-change` token) and sign
+ * the account out everywhere
+ */
+export async function undoEmailChange(
+  userId: string,
+  previousEmail: string,
+  request?: Partial<EmailChangeRequestType>
+): Promise<EmailChangeType> {
+  const user = await findUser(userId);
+  if (user.email === previousEmail) {
+    throw new Error("This email change has already been undone");
+  }
+  await assertEmailAvailable(previousEmail, user.id);
+
+  await db.user.update({
+    where: { id: user.id },
+    data: { email: previousEmail, emailVerified: true },
+  });
+  await cancelPendingEmailChanges(user.id);
+
+  const restoredUser = { ...user, email: previousEmail };
+  const change = { previousEmail: user.email, newEmail: previousEmail };
+  await revokeSessionsAfterEmailChangeUndo(restoredUser, request);
+  await logEmailChangeAction(restoredUser, "EMAIL_CHANGE_UNDONE", change, request);
+  await AuditLogger.logSecurityEvent("email_change_undone", user.id, change);
+
+  return toEmailChange(user, user.email, previousEmail);
+}
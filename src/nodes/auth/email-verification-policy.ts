@@ -0,0 +1,59 @@
+/**
+ * What an account with an unverified email address may do
+ *
+ * `EMAIL_VERIFICATION_POLICY`:
+ * - `off` (default): verification is optional
+ * - `block`: password logins are refused until the address is verified
+ * - `restrict`: users can sign in, but only the workflows listed in
+ *   `EMAIL_VERIFICATION_ALLOWED_WORKFLOWS` accept their session or API keys;
+ *   everything else answers 403 with code `EMAIL_NOT_VERIFIED`
+ *
+ * Registration sends the verification email in every mode; accounts created
+ * from an invitation or confirmed through an email change are already verified.
+ */
+
+export type EmailVerificationPolicy = "off" | "block" | "restrict";
+
+const POLICIES: EmailVerificationPolicy[] = ["off", "block", "restrict"];
+
+const DEFAULT_ALLOWED_WORKFLOWS = [
+  "verify-session",
+  "auth-logout",
+  "auth-refresh",
+  "email-verification",
+  "email-change",
+  "profile-update",
+  "theme-preferences",
+  "user-notifications",
+];
+
+export const EMAIL_NOT_VERIFIED_CODE = "EMAIL_NOT_VERIFIED";
+
+export function getEmailVerificationPolicy(): EmailVerificationPolicy {
+  const policy = (process.env.EMAIL_VERIFICATION_POLICY || "off").trim().toLowerCase() as EmailVerificationPolicy;
+  return POLICIES.includes(policy) ? policy : "off";
+}
+
+/**
+ * Workflows an unverified user may call under the `restrict` policy
+ */
+export function getUnverifiedAllowedWorkflows(): string[] {
+  const configured = process.env.EMAIL_VERIFICATION_ALLOWED_WORKFLOWS;
+  if (!configured) return DEFAULT_ALLOWED_WORKFLOWS;
+  return configured.split(",").map((workflow) => workflow.trim()).filter(Boolean);
+}
+
+/**
+ * Whether a user with this verification state may sign in with their password
+ */
+export function isLoginAllowed(emailVerified: boolean): boolean {
+  return emailVerified || getEmailVerificationPolicy() !== "block";
+}
+
+/**
+ * Whether a signed-in user with this verification state may call `workflow`
+ */
+export function isWorkflowAllowedUnverified(workflow: string, emailVerified: boolean): boolean {
+  if (emailVerified || getEmailVerificationPolicy() !== "restrict") return true;
+  return getUnverifiedAllowedWorkflows().includes(workflow);
+}
@@ -0,0 +1,156 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { startImpersonation, stopImpersonation } from "../impersonation";
+import { type ImpersonatorType, type RequestClient, clientIp } from "../sessions";
+
+type ImpersonationManagerInputType = {
+  action: "start" | "stop";
+  userId?: string; // User to sign in as (start)
+  reason?: string; // Why, e.g. a support ticket reference (start)
+};
+
+type CurrentUserType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  organizationId?: string | null;
+  permissions?: string[];
+};
+
+/**
+ * Impersonation Manager Node
+ *
+ * `start` signs an administrator with the users:impersonate permission in as
+ * another user (the session cookie now belongs to an impersonation session),
+ * `stop` returns them to their own account. Stopping is done from the
+ * impersonation session itself, so it is allowed whenever `ctx.vars.impersonator` is set.
+ */
+export default class ImpersonationManager extends NanoService<ImpersonationManagerInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["start", "stop"],
+          description: "Start impersonating a user or return to your own account"
+        },
+        userId: {
+          type: "string",
+          description: "User to impersonate (start)"
+        },
+        reason: {
+          type: "string",
+          description: "Reason recorded in the audit trail (start)"
+        }
+      },
+      required: ["action"]
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        message: { type: "string" },
+        user: {
+          type: "object",
+          description: "The impersonated user (start)"
+        },
+        expiresAt: {
+          type: "string",
+          format: "date-time",
+          description: "When the impersonation session ends at the latest (start)"
+        },
+        restored: {
+          type: "boolean",
+          description: "Whether the administrator's own session was restored (stop)"
+        }
+      },
+      required: ["success", "message"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: ImpersonationManagerInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      const user = ctx.vars?.currentUser as unknown as CurrentUserType | undefined;
+      if (!user?.id) {
+        const nodeError = new GlobalError("Authentication required");
+        nodeError.setCode(401);
+        response.setError(nodeError);
+        return response;
+      }
+
+      const request = {
+        method: ctx.request?.method,
+        path: "/api/impersonate",
+        ipAddress: clientIp(ctx.request as RequestClient | undefined),
+        userAgent: ctx.request?.headers?.["user-agent"] || "unknown",
+      };
+      const session = ctx.vars?.currentSession as unknown as { id: string } | undefined;
+
+      if (inputs.action === "stop") {
+        const impersonator = ctx.vars?.impersonator as unknown as ImpersonatorType | undefined;
+        if (!impersonator || !session?.id) {
+          throw new Error("You are not impersonating anyone");
+        }
+
+        const restored = await stopImpersonation(ctx, impersonator, user, session.id, request);
+        ctx.logger.log(`${impersonator.email} stopped impersonating ${user.email}`);
+        response.setSuccess({
+          success: true,
+          message: restored ? `Welcome back, ${impersonator.name}` : "Your own session has ended, please sign in again",
+          restored,
+        });
+        return response;
+      }
+
+      if (!user.permissions?.includes("users:impersonate")) {
+        const nodeError = new GlobalError("The users:impersonate permission is required");
+        nodeError.setCode(403);
+        nodeError.setName("impersonation-manager");
+        response.setError(nodeError);
+        return response;
+      }
+      if (!inputs.userId) {
+        throw new Error("userId is required");
+      }
+
+      const result = await startImpersonation(
+        ctx,
+        user,
+        session?.id,
+        { userId: inputs.userId, reason: inputs.reason },
+        request
+      );
+
+      ctx.logger.log(`${user.email} is impersonating ${result.user.email}`);
+      response.setSuccess({
+        success: true,
+        message: `You are now signed in as ${result.user.name}`,
+        user: result.user,
+        expiresAt: result.session.expiresAt,
+      } as unknown as JsonLikeObject);
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(error instanceof Error ? error.message : "Impersonation failed");
+      nodeError.setCode(400);
+      nodeError.setName("impersonation-manager");
+      response.setError(nodeError);
+
+      ctx.logger.error("Impersonation error:", error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+}
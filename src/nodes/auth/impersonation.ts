@@ -0,0 +1,185 @@
+import type { Context } from "@nanoservice-ts/shared";
+import { db } from "../../../database/config";
+import AuditLogger from "../security/audit-logger";
+import SystemActionLogger, { ActionType, LogRiskLevel, ResourceType } from "../security/system-action-logger";
+import { isOrganizationMember, resolveOrganizationAccess } from "./organizations";
+import { missingPermissions } from "./permissions";
+import {
+  type CreatedSessionType,
+  type ImpersonatorType,
+  type LoggedInUserType,
+  appendSetCookie,
+  clearedAuthCookies,
+  createUserSession,
+  sessionCookie,
+  sessionUserSelect,
+} from "./sessions";
+
+/**
+ * Admin impersonation ("log in as user")
+ *
+ * Support staff with `users:impersonate` can sign in as a member of their active
+ * organization to see exactly what that user sees. Starting creates a separate,
+ * short-lived session for the user that records the administrator and the
+ * administrator's own session, and swaps the session cookie to it; "return to my
+ * account" revokes it and swaps the administrator's session back. That session is
+ * left untouched in between, and impersonation ends with it.
+ *
+ * While impersonating, `ctx.vars.impersonator` holds the administrator and every
+ * request is recorded by the request interceptor under their identity.
+ */
+
+export const IMPERSONATION_TIMEOUT_MINUTES = parseInt(process.env.IMPERSONATION_TIMEOUT_MINUTES || "30", 10);
+
+export type ImpersonationActorType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  organizationId?: string | null;
+  permissions?: string[];
+};
+
+export type ImpersonationRequestType = {
+  method: string;
+  path: string;
+  ipAddress: string;
+  userAgent: string;
+};
+
+async function logImpersonationAction(
+  actor: { id: string; email: string; name: string; role: string },
+  action: "IMPERSONATION_STARTED" | "IMPERSONATION_ENDED",
+  target: { id: string; email: string },
+  organizationId: string | null | undefined,
+  changesSummary: Record<string, unknown>,
+  request?: Partial<ImpersonationRequestType>
+): Promise<void> {
+  await SystemActionLogger.logAction({
+    userId: actor.id,
+    userEmail: actor.email,
+    userName: actor.name,
+    userRole: actor.role,
+    action,
+    actionType: action === "IMPERSONATION_STARTED" ? ActionType.LOGIN : ActionType.LOGOUT,
+    resourceType: ResourceType.USER,
+    resourceId: target.id,
+    resourceName: target.email,
+    httpMethod: request?.method || "POST",
+    endpoint: request?.path || "/api/impersonate",
+    ipAddress: request?.ipAddress || "unknown",
+    userAgent: request?.userAgent || "unknown",
+    changesSummary,
+    statusCode: 200,
+    success: true,
+    riskLevel: LogRiskLevel.HIGH,
+    organizationId: organizationId ?? null,
+  });
+  await AuditLogger.logSecurityEvent(action.toLowerCase(), actor.id, {
+    targetUserId: target.id,
+    targetEmail: target.email,
+    ...changesSummary,
+  });
+}
+
+/**
+ * Sign the actor in as `targetUserId`. Only members of the actor's active
+ * organization whose permissions the actor holds too can be impersonated, and
+ * never someone who can impersonate others; impersonation cannot be nested.
+ */
+export async function startImpersonation(
+  ctx: Context,
+  actor: ImpersonationActorType,
+  actorSessionId: string | undefined,
+  input: { userId: string; reason?: string | null },
+  request?: Partial<ImpersonationRequestType>
+): Promise<{ user: LoggedInUserType; session: CreatedSessionType }> {
+  if (ctx.vars?.impersonator) {
+    throw new Error("Return to your own account before impersonating another user");
+  }
+  if (!actorSessionId) {
+    throw new Error("Impersonation requires a signed-in session");
+  }
+  if (input.userId === actor.id) {
+    throw new Error("You cannot impersonate yourself");
+  }
+
+  const target = await db.user.findUnique({ where: { id: input.userId }, select: sessionUserSelect });
+  if (!target || (actor.organizationId && !(await isOrganizationMember(target.id, actor.organizationId)))) {
+    throw new Error("User not found");
+  }
+
+  const access = await resolveOrganizationAccess(target, actor.organizationId);
+  if (access.permissions.includes("users:impersonate")) {
+    throw new Error("Users who can impersonate others cannot be impersonated");
+  }
+  if (missingPermissions(actor.permissions ?? [], access.permissions).length > 0) {
+    throw new Error("You cannot impersonate a user with permissions you do not hold");
+  }
+
+  const reason = input.reason?.trim() || null;
+  const result = await createUserSession(ctx, target, undefined, {
+    organizationId: actor.organizationId,
+    impersonation: {
+      impersonatorId: actor.id,
+      impersonatorSessionId: actorSessionId,
+      reason,
+      timeoutMinutes: IMPERSONATION_TIMEOUT_MINUTES,
+    },
+  });
+
+  await logImpersonationAction(
+    actor,
+    "IMPERSONATION_STARTED",
+    target,
+    actor.organizationId,
+    { reason, sessionId: result.session.id, expiresAt: result.session.expiresAt },
+    request
+  );
+
+  return result;
+}
+
+/**
+ * End the impersonation session `sessionId` and restore the administrator's own
+ * session cookie. Returns false if that session is gone, in which case the
+ * browser is signed out instead.
+ */
+export async function stopImpersonation(
+  ctx: Context,
+  impersonator: ImpersonatorType,
+  impersonated: { id: string; email: string; organizationId?: string | null },
+  sessionId: string,
+  request?: Partial<ImpersonationRequestType>
+): Promise<boolean> {
+  const now = new Date();
+  await db.session.updateMany({
+    where: { id: sessionId, impersonatorId: impersonator.id, revoked: false },
+    data: { revoked: true, revokedAt: now, revokedReason: "impersonation-ended" },
+  });
+
+  const ownSession = impersonator.sessionId
+    ? await db.session.findUnique({
+        where: { id: impersonator.sessionId },
+        select: { token: true, expiresAt: true, revoked: true },
+      })
+    : null;
+  const restored = !!ownSession && !ownSession.revoked && ownSession.expiresAt > now;
+
+  if (restored) {
+    appendSetCookie(ctx, sessionCookie(ownSession.token, ownSession.expiresAt));
+  } else {
+    appendSetCookie(ctx, ...clearedAuthCookies());
+  }
+
+  await logImpersonationAction(
+    impersonator,
+    "IMPERSONATION_ENDED",
+    impersonated,
+    impersonated.organizationId,
+    { sessionId, restored },
+    request
+  );
+
+  return restored;
+}
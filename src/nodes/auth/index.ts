@@ -5,3 +5,17 @@ export { default as AuthenticationChecker } from "./authentication-checker";
 export { default as UserRegister } from "./user-register";
 export { default as UserLogin } from "./user-login";
 export { default as UserLogout } from "./user-logout";
+export { default as TwoFactorLogin } from "./two-factor-login";
+export { default as ApiKeyManager } from "./api-key-manager";
+export { default as SessionManager } from "./session-manager";
+export { default as SessionRefresh } from "./session-refresh";
+export { default as AccountLockout } from "./account-lockout";
+export { default as PermissionCheck } from "./permission-check";
+export { default as OrganizationManager } from "./organization-manager";
+export { default as InvitationManager } from "./invitation-manager";
+export { default as InvitationAccept } from "./invitation-accept";
+export { default as ImpersonationManager } from "./impersonation-manager";
+export { default as EmailChangeManager } from "./email-change-manager";
+export { default as MagicLinkManager } from "./magic-link-manager";
+export { default as OAuthManager } from "./oauth-manager";
+export { default as PasskeyManager } from "./passkey-manager";
@@ -0,0 +1,134 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { acceptInvitation, previewInvitation } from "../invitations";
+import { type RequestClient, clientIp } from "../sessions";
+
+type InvitationAcceptInputType = {
+  action: "preview" | "accept";
+  token: string;
+  name?: string; // Defaults to the name suggested by the inviter (accept)
+  password?: string; // Already checked by password-validator in the workflow (accept)
+};
+
+/**
+ * Invitation Accept Node
+ *
+ * Public side of the invite flow: `preview` shows who invited whom and with
+ * which role, `accept` creates the account with the invitee's own password.
+ * The invitee signs in afterwards like any other user.
+ */
+export default class InvitationAccept extends NanoService<InvitationAcceptInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["preview", "accept"],
+          description: "Show the invitation or accept it"
+        },
+        token: {
+          type: "string",
+          description: "Token from the invite link"
+        },
+        name: {
+          type: "string",
+          description: "Full name of the new user (accept)"
+        },
+        password: {
+          type: "string",
+          description: "Password of the new user (accept)"
+        }
+      },
+      required: ["action", "token"]
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        message: { type: "string" },
+        invitation: {
+          type: "object",
+          description: "The pending invitation (preview)",
+          properties: {
+            email: { type: "string" },
+            name: { type: ["string", "null"] },
+            role: { type: "string" },
+            inviterName: { type: "string" },
+            organizationName: { type: ["string", "null"] },
+            expiresAt: { type: "string", format: "date-time" }
+          },
+          required: ["email", "name", "role", "inviterName", "organizationName", "expiresAt"]
+        },
+        user: {
+          type: "object",
+          description: "The account created on acceptance",
+          properties: {
+            id: { type: "string" },
+            email: { type: "string" },
+            name: { type: "string" },
+            role: { type: "string" }
+          },
+          required: ["id", "email", "name", "role"]
+        }
+      },
+      required: ["success", "message"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: InvitationAcceptInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      if (inputs.action === "preview") {
+        const invitation = await previewInvitation(inputs.token);
+        if (!invitation) {
+          const nodeError = new GlobalError("This invitation is invalid or has expired");
+          nodeError.setCode(404);
+          nodeError.setName("invitation-accept");
+          response.setError(nodeError);
+          return response;
+        }
+
+        response.setSuccess({ success: true, message: "Invitation is valid", invitation } as unknown as JsonLikeObject);
+        return response;
+      }
+
+      if (!inputs.password) {
+        throw new Error("Password is required");
+      }
+
+      const user = await acceptInvitation(inputs.token, { name: inputs.name, password: inputs.password }, {
+        method: ctx.request?.method,
+        ipAddress: clientIp(ctx.request as RequestClient | undefined),
+        userAgent: ctx.request?.headers?.["user-agent"] || "unknown",
+      });
+
+      ctx.logger.log(`Invitation accepted: ${user.email}`);
+      response.setSuccess({
+        success: true,
+        message: "Your account is ready. You can now sign in.",
+        user,
+      } as unknown as JsonLikeObject);
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(error instanceof Error ? error.message : "Failed to accept the invitation");
+      nodeError.setCode(400);
+      nodeError.setName("invitation-accept");
+      response.setError(nodeError);
+
+      ctx.logger.error("Invitation accept error:", error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+}
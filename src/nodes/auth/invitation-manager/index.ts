@@ -0,0 +1,205 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+  type ParamsDictionary,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import {
+  type InvitationEmailType,
+  createInvitation,
+  listPendingInvitations,
+  resendInvitation,
+  revokeInvitation,
+} from "../invitations";
+import { type RequestClient, clientIp } from "../sessions";
+
+type InvitationManagerInputType = {
+  action: "list" | "create" | "resend" | "revoke";
+  email?: string; // Invitee's address (create)
+  name?: string; // Suggested name, the invitee can change it (create)
+  role?: string; // Role granted on acceptance (create), USER by default
+  invitationId?: string; // Invitation to resend or revoke
+};
+
+type CurrentUserType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  organizationId?: string | null;
+  permissions?: string[];
+};
+
+/**
+ * Invitation Manager Node
+ *
+ * Lets administrators invite users by email, list pending invitations of the
+ * active organization, and resend or revoke them. Create and resend store the
+ * invite email's data (including the one-time token) in `ctx.vars.invitationEmail`
+ * for the workflow's email steps; the result is in `ctx.vars.invitationResult`.
+ */
+export default class InvitationManager extends NanoService<InvitationManagerInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["list", "create", "resend", "revoke"],
+          description: "Invitation operation to perform"
+        },
+        email: {
+          type: "string",
+          format: "email",
+          description: "Email address to invite (create)"
+        },
+        name: {
+          type: "string",
+          description: "Suggested name for the invitee (create)"
+        },
+        role: {
+          type: "string",
+          description: "Role granted when the invitation is accepted (create)"
+        },
+        invitationId: {
+          type: "string",
+          description: "Invitation to resend or revoke"
+        }
+      },
+      required: ["action"]
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        message: { type: "string" },
+        invitation: {
+          type: "object",
+          description: "Created or resent invitation"
+        },
+        invitations: {
+          type: "array",
+          description: "Invitations not yet accepted or revoked (list)",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              email: { type: "string" },
+              name: { type: ["string", "null"] },
+              role: { type: "string" },
+              status: { type: "string", enum: ["pending", "expired"] },
+              invitedBy: {
+                type: "object",
+                properties: {
+                  id: { type: "string" },
+                  name: { type: "string" },
+                  email: { type: "string" }
+                },
+                required: ["id", "name", "email"]
+              },
+              expiresAt: { type: "string", format: "date-time" },
+              lastSentAt: { type: "string", format: "date-time" },
+              sendCount: { type: "number" },
+              createdAt: { type: "string", format: "date-time" }
+            },
+            required: ["id", "email", "name", "role", "status", "invitedBy", "expiresAt", "lastSentAt", "sendCount", "createdAt"]
+          }
+        }
+      },
+      required: ["success", "message"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: InvitationManagerInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      const user = ctx.vars?.currentUser as unknown as CurrentUserType | undefined;
+      if (!user?.id) {
+        const nodeError = new GlobalError("Authentication required");
+        nodeError.setCode(401);
+        response.setError(nodeError);
+        return response;
+      }
+
+      const request = {
+        method: ctx.request?.method,
+        path: "/api/invitations",
+        ipAddress: clientIp(ctx.request as RequestClient | undefined),
+        userAgent: ctx.request?.headers?.["user-agent"] || "unknown",
+      };
+
+      let result: Record<string, unknown>;
+      let invitationEmail: InvitationEmailType | undefined;
+
+      switch (inputs.action) {
+        case "list": {
+          const invitations = await listPendingInvitations(user.organizationId);
+          result = { success: true, message: `${invitations.length} pending invitation(s)`, invitations };
+          break;
+        }
+
+        case "create": {
+          const { invitation, email } = await createInvitation(
+            user,
+            { email: inputs.email || "", name: inputs.name, role: inputs.role },
+            request
+          );
+          invitationEmail = email;
+          ctx.logger.log(`${user.email} invited ${invitation.email} as ${invitation.role}`);
+          result = { success: true, message: `Invitation sent to ${invitation.email}`, invitation };
+          break;
+        }
+
+        case "resend": {
+          if (!inputs.invitationId) {
+            throw new Error("invitationId is required");
+          }
+          const { invitation, email } = await resendInvitation(user, inputs.invitationId, request);
+          invitationEmail = email;
+          result = { success: true, message: `Invitation resent to ${invitation.email}`, invitation };
+          break;
+        }
+
+        case "revoke": {
+          if (!inputs.invitationId) {
+            throw new Error("invitationId is required");
+          }
+          const revoked = await revokeInvitation(user, inputs.invitationId, request);
+          result = {
+            success: revoked,
+            message: revoked ? "Invitation revoked" : "Invitation not found or no longer pending",
+          };
+          break;
+        }
+
+        default:
+          throw new Error(`Unsupported action: ${inputs.action}`);
+      }
+
+      if (ctx.vars === undefined) ctx.vars = {};
+      ctx.vars.invitationResult = result as unknown as ParamsDictionary;
+      if (invitationEmail) {
+        ctx.vars.invitationEmail = invitationEmail as unknown as ParamsDictionary;
+      }
+
+      response.setSuccess(result as unknown as JsonLikeObject);
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(error instanceof Error ? error.message : "Invitation operation failed");
+      nodeError.setCode(400);
+      nodeError.setName("invitation-manager");
+      response.setError(nodeError);
+
+      ctx.logger.error("Invitation manager error:", error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,398 @@
+import crypto from "crypto";
+import { db } from "../../../database/config";
+import { appUrl } from "../email/app-url";
+import AuditLogger from "../security/audit-logger";
+import SystemActionLogger, { ActionType, LogRiskLevel, ResourceType } from "../security/system-action-logger";
+import { addMember, ensureDefaultMembership } from "./organizations";
+import { hashPassword } from "./passwords";
+import { DEFAULT_ROLE, normalizeRoleName, roleExists } from "./permissions";
+import { hashToken } from "./sessions";
+
+/**
+ * Invitation-based onboarding
+ *
+ * Administrators invite people by email instead of typing a password for them.
+ * The invite link carries a single-use token (only its SHA-256 hash is stored);
+ * the invitee picks their own name and password on the accept-invite page and
+ * joins the inviter's active organization with the invited role. Resending
+ * replaces the token and restarts the expiry, so older links stop working.
+ *
+ * Every step is logged through SystemActionLogger; acceptance records the inviter.
+ */
+
+export const INVITATION_EXPIRY_DAYS = Number(process.env.INVITATION_EXPIRY_DAYS ?? 7);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type InvitationInfo = {
+  id: string;
+  email: string;
+  name: string | null;
+  role: string;
+  status: "pending" | "expired";
+  invitedBy: { id: string; name: string; email: string };
+  expiresAt: string;
+  lastSentAt: string;
+  sendCount: number;
+  createdAt: string;
+};
+
+/**
+ * What the invite email needs: the plaintext token is only available here
+ */
+export type InvitationEmailType = {
+  email: string;
+  name: string | null;
+  role: string;
+  token: string;
+  url: string; // Accept-invite link on APP_URL
+  inviterName: string;
+  organizationName: string | null;
+  expiresAt: string;
+  expirationDays: number;
+};
+
+/**
+ * What the accept-invite page shows before the invitee sets a password
+ */
+export type InvitationPreview = {
+  email: string;
+  name: string | null;
+  role: string;
+  inviterName: string;
+  organizationName: string | null;
+  expiresAt: string;
+};
+
+export type InvitationActorType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  organizationId?: string | null;
+  permissions?: string[];
+};
+
+export type InvitationRequestType = {
+  method: string;
+  path: string;
+  ipAddress: string;
+  userAgent: string;
+};
+
+const invitationSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  organizationId: true,
+  expiresAt: true,
+  lastSentAt: true,
+  sendCount: true,
+  createdAt: true,
+  invitedBy: { select: { id: true, name: true, email: true } },
+  organization: { select: { name: true } },
+} as const;
+
+type InvitationRow = {
+  id: string;
+  email: string;
+  name: string | null;
+  role: string;
+  organizationId: string | null;
+  expiresAt: Date;
+  lastSentAt: Date;
+  sendCount: number;
+  createdAt: Date;
+  invitedBy: { id: string; name: string; email: string };
+  organization: { name: string } | null;
+};
+
+function toInvitationInfo(invitation: InvitationRow): InvitationInfo {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    name: invitation.name,
+    role: invitation.role,
+    status: invitation.expiresAt <= new Date() ? "expired" : "pending",
+    invitedBy: invitation.invitedBy,
+    expiresAt: invitation.expiresAt.toISOString(),
+    lastSentAt: invitation.lastSentAt.toISOString(),
+    sendCount: invitation.sendCount,
+    createdAt: invitation.createdAt.toISOString(),
+  };
+}
+
+function toInvitationEmail(invitation: InvitationRow, token: string): InvitationEmailType {
+  return {
+    email: invitation.email,
+    name: invitation.name,
+    role: invitation.role,
+    token,
+    url: appUrl(`/accept-invite?token=${encodeURIComponent(token)}`),
+    inviterName: invitation.invitedBy.name,
+    organizationName: invitation.organization?.name ?? null,
+    expiresAt: invitation.expiresAt.toISOString(),
+    expirationDays: INVITATION_EXPIRY_DAYS,
+  };
+}
+
+function newInvitationToken(): { token: string; tokenHash: string; expiresAt: Date } {
+  const token = crypto.randomBytes(32).toString("base64url");
+  return {
+    token,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Invitations that were neither accepted nor revoked, in the actor's active organization
+ */
+function openInvitationsWhere(organizationId: string | null | undefined): Record<string, unknown> {
+  return { organizationId: organizationId ?? null, acceptedAt: null, revokedAt: null };
+}
+
+async function logInvitationAction(
+  actor: { id: string; email: string; name: string; role: string },
+  action: string,
+  actionType: ActionType,
+  invitation: { id: string; email: string; organizationId: string | null },
+  changesSummary: Record<string, unknown>,
+  request?: Partial<InvitationRequestType>,
+  riskLevel: LogRiskLevel = LogRiskLevel.MEDIUM
+): Promise<void> {
+  await SystemActionLogger.logAction({
+    userId: actor.id,
+    userEmail: actor.email,
+    userName: actor.name,
+    userRole: actor.role,
+    action,
+    actionType,
+    resourceType: ResourceType.INVITATION,
+    resourceId: invitation.id,
+    resourceName: invitation.email,
+    httpMethod: request?.method || "POST",
+    endpoint: request?.path || "/api/invitations",
+    ipAddress: request?.ipAddress || "unknown",
+    userAgent: request?.userAgent || "unknown",
+    changesSummary,
+    statusCode: 200,
+    success: true,
+    riskLevel,
+    organizationId: invitation.organizationId,
+  });
+}
+
+export async function listPendingInvitations(organizationId?: string | null): Promise<InvitationInfo[]> {
+  const invitations = await db.invitation.findMany({
+    where: openInvitationsWhere(organizationId),
+    select: invitationSelect,
+    orderBy: { createdAt: "desc" },
+  });
+
+  return invitations.map(toInvitationInfo);
+}
+
+/**
+ * Invite `email` to the actor's active organization. Inviting with a role other
+ * than USER needs the roles:manage permission, like assigning it afterwards would.
+ */
+export async function createInvitation(
+  actor: InvitationActorType,
+  input: { email: string; name?: string | null; role?: string | null },
+  request?: Partial<InvitationRequestType>
+): Promise<{ invitation: InvitationInfo; email: InvitationEmailType }> {
+  const email = input.email?.trim().toLowerCase();
+  if (!email || !EMAIL_PATTERN.test(email)) {
+    throw new Error("A valid email address is required");
+  }
+
+  const role = normalizeRoleName(input.role || DEFAULT_ROLE);
+  if (!(await roleExists(role, actor.organizationId))) {
+    throw new Error(`Role ${role} does not exist`);
+  }
+  if (role !== DEFAULT_ROLE && !actor.permissions?.includes("roles:manage")) {
+    throw new Error("The roles:manage permission is required to invite users with this role");
+  }
+
+  if (await db.user.findUnique({ where: { email }, select: { id: true } })) {
+    throw new Error("A user with this email already exists");
+  }
+  const pending = await db.invitation.findFirst({
+    where: { ...openInvitationsWhere(actor.organizationId), email },
+    select: { id: true },
+  });
+  if (pending) {
+    throw new Error("This email already has a pending invitation; resend it instead");
+  }
+
+  const { token, tokenHash, expiresAt } = newInvitationToken();
+  const created: InvitationRow = await db.invitation.create({
+    data: {
+      email,
+      name: input.name?.trim() || null,
+      role,
+      organizationId: actor.organizationId ?? null,
+      invitedById: actor.id,
+      tokenHash,
+      expiresAt,
+    },
+    select: invitationSelect,
+  });
+
+  await logInvitationAction(actor, "INVITATION_CREATED", ActionType.CREATE, created, { role }, request);
+  return { invitation: toInvitationInfo(created), email: toInvitationEmail(created, token) };
+}
+
+/**
+ * Send a pending (or expired) invitation again with a fresh token and expiry
+ */
+export async function resendInvitation(
+  actor: InvitationActorType,
+  invitationId: string,
+  request?: Partial<InvitationRequestType>
+): Promise<{ invitation: InvitationInfo; email: InvitationEmailType }> {
+  const existing = await db.invitation.findFirst({
+    where: { ...openInvitationsWhere(actor.organizationId), id: invitationId },
+    select: { id: true },
+  });
+  if (!existing) {
+    throw new Error("Invitation not found");
+  }
+
+  const { token, tokenHash, expiresAt } = newInvitationToken();
+  const updated: InvitationRow = await db.invitation.update({
+    where: { id: invitationId },
+    data: { tokenHash, expiresAt, lastSentAt: new Date(), sendCount: { increment: 1 } },
+    select: invitationSelect,
+  });
+
+  await logInvitationAction(
+    actor,
+    "INVITATION_RESENT",
+    ActionType.UPDATE,
+    updated,
+    { sendCount: updated.sendCount },
+    request,
+    LogRiskLevel.LOW
+  );
+  return { invitation: toInvitationInfo(updated), email: toInvitationEmail(updated, token) };
+}
+
+/**
+ * Revoke a pending invitation so its link stops working. Returns false if there is none.
+ */
+export async function revokeInvitation(
+  actor: InvitationActorType,
+  invitationId: string,
+  request?: Partial<InvitationRequestType>
+): Promise<boolean> {
+  const invitation = await db.invitation.findFirst({
+    where: { ...openInvitationsWhere(actor.organizationId), id: invitationId },
+    select: { id: true, email: true, organizationId: true },
+  });
+  if (!invitation) {
+    return false;
+  }
+
+  await db.invitation.update({ where: { id: invitation.id }, data: { revokedAt: new Date() } });
+  await logInvitationAction(actor, "INVITATION_REVOKED", ActionType.DELETE, invitation, {}, request);
+  return true;
+}
+
+async function findUsableInvitation(token: string): Promise<(InvitationRow & { tokenHash: string }) | null> {
+  if (!token) return null;
+
+  const invitation = await db.invitation.findFirst({
+    where: { tokenHash: hashToken(token), acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: { ...invitationSelect, tokenHash: true },
+  });
+  return invitation ?? null;
+}
+
+/**
+ * The invitation behind `token` if it can still be accepted
+ */
+export async function previewInvitation(token: string): Promise<InvitationPreview | null> {
+  const invitation = await findUsableInvitation(token);
+  if (!invitation) return null;
+
+  return {
+    email: invitation.email,
+    name: invitation.name,
+    role: invitation.role,
+    inviterName: invitation.invitedBy.name,
+    organizationName: invitation.organization?.name ?? null,
+    expiresAt: invitation.expiresAt.toISOString(),
+  };
+}
+
+/**
+ * Create the invitee's account with the password they chose. The email address is
+ * verified by the invite link itself. The token is claimed before the user is
+ * created so a link cannot be used twice.
+ */
+export async function acceptInvitation(
+  token: string,
+  input: { name?: string | null; password: string },
+  request?: Partial<InvitationRequestType>
+): Promise<{ id: string; email: string; name: string; role: string }> {
+  const invitation = await findUsableInvitation(token);
+  if (!invitation) {
+    throw new Error("This invitation is invalid or has expired");
+  }
+
+  const name = (input.name ?? invitation.name ?? "").trim();
+  if (!name) {
+    throw new Error("Name cannot be empty");
+  }
+  if (await db.user.findUnique({ where: { email: invitation.email }, select: { id: true } })) {
+    throw new Error("A user with this email already exists");
+  }
+
+  const claimed = await db.invitation.updateMany({
+    where: { id: invitation.id, tokenHash: invitation.tokenHash, acceptedAt: null, revokedAt: null },
+    data: { acceptedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw new Error("This invitation is invalid or has expired");
+  }
+
+  const user = await db.user.create({
+    data: {
+      email: invitation.email,
+      passwordHash: await hashPassword(input.password),
+      name,
+      role: invitation.organizationId ? DEFAULT_ROLE : invitation.role,
+      emailVerified: true,
+    },
+    select: { id: true, email: true, name: true, role: true },
+  });
+
+  if (invitation.organizationId) {
+    await addMember(invitation.organizationId, user.id, invitation.role);
+  } else {
+    await ensureDefaultMembership(user);
+  }
+  await db.invitation.update({ where: { id: invitation.id }, data: { acceptedUserId: user.id } });
+
+  const invitedBy = invitation.invitedBy;
+  await logInvitationAction(
+    { ...user, role: invitation.role },
+    "INVITATION_ACCEPTED",
+    ActionType.REGISTER,
+    invitation,
+    { role: invitation.role, invitedBy },
+    { path: "/api/invitation-accept", ...request }
+  );
+  await AuditLogger.logSecurityEvent("invitation_accepted", user.id, {
+    invitationId: invitation.id,
+    role: invitation.role,
+    organizationId: invitation.organizationId,
+    invitedById: invitedBy.id,
+    invitedByEmail: invitedBy.email,
+  });
+
+  return { ...user, role: invitation.role };
+}
@@ -0,0 +1,315 @@
+import { db } from "../../../database/config";
+import { RATE_LIMIT_ALGORITHMS, type RateLimitHit, type RateLimitReceipt } from "../security/rate-limiter/algorithms";
+import { getRateLimitStore } from "../security/rate-limiter/store";
+import SystemActionLogger, { ActionType, LogRiskLevel, ResourceType } from "../security/system-action-logger";
+
+/**
+ * Brute-force protection for password logins
+ *
+ * - Per account: after each failed password the next attempt must wait an
+ *   exponentially growing back-off; after `LOGIN_LOCKOUT_THRESHOLD` consecutive
+ *   failures the account is locked. Every further lockout doubles the lockout
+ *   duration, up to `LOGIN_LOCKOUT_MAX_MINUTES`, until the next successful login.
+ * - Per IP: more than `LOGIN_IP_MAX_FAILURES` failures within
+ *   `LOGIN_IP_WINDOW_MINUTES` blocks further attempts from that address. Each
+ *   attempt reserves a slot in the shared (database) rate limit store before
+ *   the password is checked, and successful logins give their slot back, so
+ *   concurrent guesses cannot all slip through the same check.
+ *
+ * Locked accounts and back-off periods are checked before the password, so a
+ * guess made during a lockout reveals nothing.
+ */
+
+export const LOGIN_LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || "5", 10);
+export const LOGIN_LOCKOUT_BASE_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_BASE_MINUTES || "15", 10);
+export const LOGIN_LOCKOUT_MAX_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || "1440", 10);
+export const LOGIN_BACKOFF_BASE_SECONDS = parseInt(process.env.LOGIN_BACKOFF_BASE_SECONDS || "1", 10);
+export const LOGIN_IP_MAX_FAILURES = parseInt(process.env.LOGIN_IP_MAX_FAILURES || "20", 10);
+export const LOGIN_IP_WINDOW_MINUTES = parseInt(process.env.LOGIN_IP_WINDOW_MINUTES || "15", 10);
+
+export type LoginAttemptReason = "invalid-password" | "unknown-user" | "locked" | "backoff" | "ip-blocked";
+
+export type LoginClientType = {
+  ipAddress: string;
+  userAgent?: string;
+  ipReservation?: RateLimitReceipt; // set by checkLoginAllowed, released by a successful recordLoginAttempt
+};
+
+export type LockoutStateType = {
+  id: string;
+  failedLoginAttempts: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+  lockoutCount: number;
+};
+
+export type LoginBlockType = {
+  reason: "locked" | "backoff" | "ip-blocked";
+  message: string;
+  statusCode: 423 | 429;
+  retryAfter: number; // seconds
+  lockedUntil?: string;
+};
+
+export type LockedAccountType = {
+  userId: string;
+  email: string;
+  name: string;
+  lockedUntil: string;
+  lockoutCount: number;
+};
+
+export const lockoutStateSelect = {
+  failedLoginAttempts: true,
+  lastFailedLoginAt: true,
+  lockedUntil: true,
+  lockoutCount: true,
+} as const;
+
+const toSeconds = (ms: number): number => Math.max(1, Math.ceil(ms / 1000));
+
+const ipWindow = RATE_LIMIT_ALGORITHMS["sliding-log"];
+const ipWindowRule = () => ({ windowMs: LOGIN_IP_WINDOW_MINUTES * 60 * 1000, maxRequests: LOGIN_IP_MAX_FAILURES });
+const ipWindowKey = (ipAddress: string) => `login_failures:ip:${ipAddress}`;
+
+/**
+ * Atomically count one attempt against the IP's failure window
+ */
+async function reserveIpAttempt(ipAddress: string, now: Date): Promise<RateLimitHit> {
+  return getRateLimitStore("database").update(ipWindowKey(ipAddress), (state) => {
+    const hit = ipWindow.hit(state, ipWindowRule(), now.getTime());
+    return { state: hit.state, expiresAt: hit.expiresAt, result: hit };
+  });
+}
+
+/**
+ * Give back the slot of an attempt that turned out not to be a failure
+ */
+async function releaseIpAttempt(client: LoginClientType): Promise<void> {
+  const receipt = client.ipReservation;
+  if (!receipt) return;
+  client.ipReservation = null;
+
+  await getRateLimitStore("database").update(ipWindowKey(client.ipAddress), (state) => {
+    const now = Date.now();
+    if (!state) return { state: {}, expiresAt: now, result: undefined };
+    return {
+      state: ipWindow.refund(state, receipt, ipWindowRule(), now),
+      expiresAt: now + ipWindowRule().windowMs,
+      result: undefined,
+    };
+  });
+}
+
+/**
+ * Wait required after `failures` consecutive failed passwords: 1s, 2s, 4s, ...
+ */
+export function backoffMs(failures: number): number {
+  if (failures <= 0) return 0;
+  return LOGIN_BACKOFF_BASE_SECONDS * 1000 * 2 ** (failures - 1);
+}
+
+/**
+ * Duration of the next lockout after `lockoutCount` previous ones: 15m, 30m, 1h, ...
+ */
+export function lockoutDurationMs(lockoutCount: number): number {
+  return Math.min(LOGIN_LOCKOUT_BASE_MINUTES * 2 ** lockoutCount, LOGIN_LOCKOUT_MAX_MINUTES) * 60 * 1000;
+}
+
+export async function recordLoginAttempt(
+  email: string,
+  client: LoginClientType,
+  outcome: { userId?: string; success: boolean; reason?: LoginAttemptReason }
+): Promise<void> {
+  if (outcome.success) await releaseIpAttempt(client);
+
+  await db.loginAttempt.create({
+    data: {
+      userId: outcome.userId ?? null,
+      email,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent ?? null,
+      success: outcome.success,
+      reason: outcome.reason ?? null,
+    },
+  });
+}
+
+/**
+ * Reject the attempt before the password is checked when the IP is blocked,
+ * the account is locked, or the account's back-off period has not elapsed
+ */
+export async function checkLoginAllowed(
+  client: LoginClientType,
+  account: LockoutStateType | null,
+  now = new Date()
+): Promise<LoginBlockType | null> {
+  if (client.ipAddress !== "unknown") {
+    const hit = await reserveIpAttempt(client.ipAddress, now);
+    client.ipReservation = hit.receipt;
+
+    if (!hit.decision.isAllowed) {
+      return {
+        reason: "ip-blocked",
+        message: "Too many failed login attempts from this address. Please try again later.",
+        statusCode: 429,
+        retryAfter: hit.decision.retryAfter ?? toSeconds(LOGIN_IP_WINDOW_MINUTES * 60 * 1000),
+      };
+    }
+  }
+
+  if (!account) return null;
+
+  if (account.lockedUntil && account.lockedUntil > now) {
+    return {
+      reason: "locked",
+      message: "This account is temporarily locked after too many failed login attempts.",
+      statusCode: 423,
+      retryAfter: toSeconds(account.lockedUntil.getTime() - now.getTime()),
+      lockedUntil: account.lockedUntil.toISOString(),
+    };
+  }
+
+  if (account.lastFailedLoginAt && account.failedLoginAttempts > 0) {
+    const allowedAt = account.lastFailedLoginAt.getTime() + backoffMs(account.failedLoginAttempts);
+    if (allowedAt > now.getTime()) {
+      return {
+        reason: "backoff",
+        message: "Too many login attempts. Please wait before trying again.",
+        statusCode: 429,
+        retryAfter: toSeconds(allowedAt - now.getTime()),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Count a wrong password. Returns the lockout end when this failure locked the account.
+ */
+export async function registerFailedPassword(
+  user: LockoutStateType & { email: string; name: string; role: string },
+  client: LoginClientType,
+  now = new Date()
+): Promise<Date | null> {
+  const { failedLoginAttempts, lockoutCount } = await db.user.update({
+    where: { id: user.id },
+    data: { failedLoginAttempts: { increment: 1 }, lastFailedLoginAt: now },
+    select: { failedLoginAttempts: true, lockoutCount: true },
+  });
+
+  if (failedLoginAttempts < LOGIN_LOCKOUT_THRESHOLD) return null;
+
+  // Only the request that still sees the counter at the threshold locks the account;
+  // concurrent failures that lost the race find it already reset
+  const lockedUntil = new Date(now.getTime() + lockoutDurationMs(lockoutCount));
+  const locked = await db.user.updateMany({
+    where: { id: user.id, failedLoginAttempts: { gte: LOGIN_LOCKOUT_THRESHOLD } },
+    data: {
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: now,
+      lockedUntil,
+      lockoutCount: { increment: 1 },
+    },
+  });
+
+  if (locked.count === 0) return null;
+
+  await SystemActionLogger.logAction({
+    userId: user.id,
+    userEmail: user.email,
+    userName: user.name,
+    userRole: user.role,
+    action: "ACCOUNT_LOCKED",
+    actionType: ActionType.LOGIN,
+    resourceType: ResourceType.USER,
+    resourceId: user.id,
+    resourceName: user.email,
+    httpMethod: "POST",
+    endpoint: "/api/auth-login",
+    ipAddress: client.ipAddress,
+    userAgent: client.userAgent || "unknown",
+    changesSummary: {
+      failedAttempts: failedLoginAttempts,
+      lockoutNumber: lockoutCount + 1,
+      lockedUntil: lockedUntil.toISOString(),
+    },
+    statusCode: 423,
+    success: false,
+    riskLevel: LogRiskLevel.HIGH,
+  });
+
+  return lockedUntil;
+}
+
+/**
+ * A correct password clears failures, lockouts and the back-off escalation
+ */
+export async function resetLoginFailures(user: LockoutStateType): Promise<void> {
+  if (user.failedLoginAttempts === 0 && user.lockoutCount === 0 && !user.lockedUntil) return;
+
+  await db.user.update({
+    where: { id: user.id },
+    data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null, lockoutCount: 0 },
+  });
+}
+
+/**
+ * Accounts that are currently locked, soonest unlock first (`userWhere` narrows
+ * the users considered, e.g. to one organization)
+ */
+export async function listLockedAccounts(
+  userWhere: Record<string, unknown> = {},
+  now = new Date()
+): Promise<LockedAccountType[]> {
+  const users = await db.user.findMany({
+    where: { ...userWhere, lockedUntil: { gt: now } },
+    select: { id: true, email: true, name: true, lockedUntil: true, lockoutCount: true },
+    orderBy: { lockedUntil: "asc" },
+  });
+
+  return users.map((user) => ({
+    userId: user.id,
+    email: user.email,
+    name: user.name,
+    lockedUntil: (user.lockedUntil as Date).toISOString(),
+    lockoutCount: user.lockoutCount,
+  }));
+}
+
+/**
+ * Lift a lockout on behalf of an administrator
+ */
+export async function unlockAccount(
+  admin: { id: string; email: string; name: string; role: string },
+  userId: string,
+  request?: { method?: string; path?: string; ipAddress?: string; userAgent?: string }
+): Promise<boolean> {
+  const result = await db.user.updateMany({
+    where: { id: userId },
+    data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null, lockoutCount: 0 },
+  });
+
+  if (result.count === 0) return false;
+
+  await SystemActionLogger.logAction({
+    userId: admin.id,
+    userEmail: admin.email,
+    userName: admin.name,
+    userRole: admin.role,
+    action: "ACCOUNT_UNLOCKED",
+    actionType: ActionType.UPDATE,
+    resourceType: ResourceType.USER,
+    resourceId: userId,
+    httpMethod: request?.method || "POST",
+    endpoint: request?.path || "/api/account-unlock",
+    ipAddress: request?.ipAddress || "unknown",
+    userAgent: request?.userAgent || "unknown",
+    statusCode: 200,
+    success: true,
+    riskLevel: LogRiskLevel.HIGH,
+  });
+
+  return true;
+}
@@ -0,0 +1,160 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+  type ParamsDictionary,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { requestMagicLink, signInWithMagicLink } from "../magic-links";
+import { MAGIC_LINK_NONCE_COOKIE, type RequestClient, type RequestHeaders, clientIp, header } from "../sessions";
+
+type MagicLinkManagerInputType = {
+  action: "request" | "verify";
+  email?: string; // Account to send the link to (request)
+  token?: string; // Token from the emailed link (verify)
+  cookies?: Record<string, string>; // Request cookies, for the browser nonce (verify)
+};
+
+/**
+ * Magic Link Manager Node
+ *
+ * `request` sets the browser nonce cookie and, for existing accounts, stores
+ * the link data for the workflow's email steps in `ctx.vars.magicLink`.
+ * `verify` signs in with the emailed token like a password login would
+ * (session cookie, or a 2FA challenge). The response is stored in
+ * `ctx.vars.magicLinkResult`.
+ */
+export default class MagicLinkManager extends NanoService<MagicLinkManagerInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["request", "verify"],
+          description: "Magic link step to perform"
+        },
+        email: {
+          type: "string",
+          description: "Email address to send the sign-in link to (request)"
+        },
+        token: {
+          type: "string",
+          description: "Token from the emailed sign-in link (verify)"
+        },
+        cookies: {
+          type: "object",
+          description: "Request cookies holding the browser nonce (verify)"
+        }
+      },
+      required: ["action"]
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        user: {
+          type: "object",
+          description: "Signed-in user (verify, without 2FA)"
+        },
+        session: {
+          type: "object",
+          description: "Created session (verify, without 2FA)"
+        },
+        twoFactorRequired: {
+          type: "boolean",
+          description: "The link was accepted but the account needs its second factor"
+        },
+        challengeToken: {
+          type: "string",
+          description: "Challenge to exchange for a session via auth-2fa-verify (only present when twoFactorRequired)"
+        },
+        challengeExpiresAt: {
+          type: "string",
+          format: "date-time",
+          description: "Challenge expiration timestamp"
+        },
+        retryAfter: {
+          type: "number",
+          description: "Seconds to wait before signing in again (locked account or blocked IP)"
+        },
+        message: { type: "string" },
+        statusCode: {
+          type: "number",
+          enum: [200, 202, 400, 403, 423, 429]
+        }
+      },
+      required: ["success", "message", "statusCode"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: MagicLinkManagerInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      const headers = ctx.request?.headers as RequestHeaders | undefined;
+      const request = {
+        method: ctx.request?.method,
+        path: "/api/magic-link",
+        ipAddress: clientIp(ctx.request as RequestClient | undefined),
+        userAgent: header(headers, "user-agent") || "unknown",
+      };
+
+      let result: Record<string, unknown>;
+      if (ctx.vars === undefined) ctx.vars = {};
+
+      switch (inputs.action) {
+        case "request": {
+          const link = await requestMagicLink(ctx, inputs.email || "", request);
+          if (link) {
+            ctx.vars.magicLink = link as unknown as ParamsDictionary;
+            ctx.logger.log(`Magic link requested for ${link.email}`);
+          }
+          // Same answer for unknown addresses
+          result = {
+            success: true,
+            message: "If an account exists for that address, we sent it a sign-in link. Open it in this browser.",
+            statusCode: 200,
+          };
+          break;
+        }
+
+        case "verify": {
+          const signIn = await signInWithMagicLink(
+            ctx,
+            inputs.token || "",
+            inputs.cookies?.[MAGIC_LINK_NONCE_COOKIE],
+            request
+          );
+          if (signIn.success) {
+            ctx.logger.log(`User logged in with a magic link: ${signIn.user?.email}`);
+          }
+          result = signIn;
+          break;
+        }
+
+        default:
+          throw new Error(`Unsupported action: ${inputs.action}`);
+      }
+
+      ctx.vars.magicLinkResult = result as unknown as ParamsDictionary;
+
+      response.setSuccess(result as unknown as JsonLikeObject);
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(error instanceof Error ? error.message : "Magic link sign-in failed");
+      nodeError.setCode(400);
+      nodeError.setName("magic-link-manager");
+      response.setError(nodeError);
+
+      ctx.logger.error("Magic link manager error:", error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,236 @@
+import type { Context } from "@nanoservice-ts/shared";
+import crypto from "crypto";
+import { db } from "../../../database/config";
+import { appUrl } from "../email/app-url";
+import SystemActionLogger, { ActionType, LogRiskLevel, ResourceType } from "../security/system-action-logger";
+import { checkLoginAllowed, lockoutStateSelect, recordLoginAttempt, resetLoginFailures } from "./login-lockout";
+import {
+  type CreatedSessionType,
+  type LoggedInUserType,
+  appendSetCookie,
+  createTwoFactorChallenge,
+  createUserSession,
+  hashToken,
+  magicLinkNonceCookie,
+  sessionUserSelect,
+} from "./sessions";
+
+/**
+ * Passwordless sign-in with magic links
+ *
+ * Asking for a link stores a random nonce in an HttpOnly cookie of the
+ * requesting browser and emails a single-use link valid for
+ * `MAGIC_LINK_TTL_MINUTES`. The link only signs in where that cookie is
+ * present, so a forwarded or intercepted email is useless on another device.
+ * Only SHA-256 hashes of the token and the nonce are stored.
+ *
+ * Using a link counts as a login: lockouts and blocked IPs apply, accounts
+ * with 2FA still need their second factor, and the address counts as verified
+ * since the link reached its inbox. Requests and sign-ins are recorded as LOGIN
+ * actions in the system log.
+ */
+
+export const MAGIC_LINK_TTL_MINUTES = parseInt(process.env.MAGIC_LINK_TTL_MINUTES || "15", 10);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type MagicLinkRequestType = {
+  method: string;
+  path: string;
+  ipAddress: string;
+  userAgent: string;
+};
+
+/**
+ * What the workflow's email steps need (`ctx.vars.magicLink`)
+ */
+export type MagicLinkType = {
+  email: string;
+  userName: string;
+  token: string;
+  url: string; // Sign-in link on APP_URL
+  expirationMinutes: number;
+};
+
+export type MagicLinkSignInType = {
+  success: boolean;
+  user?: LoggedInUserType;
+  session?: CreatedSessionType;
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+  challengeExpiresAt?: string;
+  retryAfter?: number;
+  message: string;
+  statusCode: number;
+};
+
+type MagicLinkAction = "MAGIC_LINK_REQUESTED" | "MAGIC_LINK_LOGIN" | "MAGIC_LINK_REJECTED";
+
+async function logMagicLinkAction(
+  user: { id: string; email: string; name: string; role: string },
+  action: MagicLinkAction,
+  outcome: { statusCode: number; success: boolean; changesSummary?: Record<string, unknown> },
+  request?: Partial<MagicLinkRequestType>
+): Promise<void> {
+  await SystemActionLogger.logAction({
+    userId: user.id,
+    userEmail: user.email,
+    userName: user.name,
+    userRole: user.role,
+    action,
+    actionType: ActionType.LOGIN,
+    resourceType: ResourceType.USER,
+    resourceId: user.id,
+    resourceName: user.email,
+    httpMethod: request?.method || "POST",
+    endpoint: request?.path || "/api/magic-link",
+    ipAddress: request?.ipAddress || "unknown",
+    userAgent: request?.userAgent || "unknown",
+    changesSummary: { method: "magic-link", ...outcome.changesSummary },
+    statusCode: outcome.statusCode,
+    success: outcome.success,
+    riskLevel: outcome.success ? LogRiskLevel.LOW : LogRiskLevel.MEDIUM,
+  });
+}
+
+/**
+ * Start a magic link sign-in for `email`. The nonce cookie is set whether or not
+ * the address belongs to an account, so the response reveals nothing; `link` is
+ * only returned (and emailed by the workflow) for existing accounts.
+ */
+export async function requestMagicLink(
+  ctx: Context,
+  email: string,
+  request?: Partial<MagicLinkRequestType>
+): Promise<MagicLinkType | null> {
+  const normalizedEmail = email?.trim().toLowerCase();
+  if (!normalizedEmail || !EMAIL_PATTERN.test(normalizedEmail)) {
+    throw new Error("A valid email address is required");
+  }
+
+  const nonce = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * 60 * 1000);
+  appendSetCookie(ctx, magicLinkNonceCookie(nonce, expiresAt));
+
+  const user = await db.user.findUnique({
+    where: { email: normalizedEmail },
+    select: { id: true, email: true, name: true, role: true },
+  });
+  if (!user) return null;
+
+  const token = crypto.randomBytes(32).toString("base64url");
+
+  // Only the latest link works
+  await db.magicLink.deleteMany({ where: { userId: user.id, usedAt: null } });
+  await db.magicLink.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(token),
+      nonceHash: hashToken(nonce),
+      ipAddress: request?.ipAddress || null,
+      userAgent: request?.userAgent || null,
+      expiresAt,
+    },
+  });
+
+  await logMagicLinkAction(user, "MAGIC_LINK_REQUESTED", { statusCode: 200, success: true }, request);
+
+  return {
+    email: user.email,
+    userName: user.name,
+    token,
+    url: appUrl(`/magic-link?token=${encodeURIComponent(token)}`),
+    expirationMinutes: MAGIC_LINK_TTL_MINUTES,
+  };
+}
+
+/**
+ * Sign in with the token from a magic link. `nonce` is the value of the
+ * requesting browser's nonce cookie.
+ */
+export async function signInWithMagicLink(
+  ctx: Context,
+  token: string,
+  nonce: string | undefined,
+  request?: Partial<MagicLinkRequestType>
+): Promise<MagicLinkSignInType> {
+  const invalid: MagicLinkSignInType = {
+    success: false,
+    message: "This sign-in link is invalid or has expired. Request a new one.",
+    statusCode: 400,
+  };
+  if (!token) return invalid;
+
+  const link = await db.magicLink.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: { id: true, nonceHash: true, expiresAt: true, usedAt: true, userId: true },
+  });
+  if (!link || link.usedAt || link.expiresAt <= new Date()) return invalid;
+
+  const user = await db.user.findUnique({
+    where: { id: link.userId },
+    select: { ...sessionUserSelect, ...lockoutStateSelect },
+  });
+  if (!user) return invalid;
+
+  // Left unused so the link still works in the browser that asked for it
+  if (!nonce || hashToken(nonce) !== link.nonceHash) {
+    await logMagicLinkAction(
+      user,
+      "MAGIC_LINK_REJECTED",
+      { statusCode: 403, success: false, changesSummary: { reason: "browser-mismatch" } },
+      request
+    );
+    return {
+      success: false,
+      message: "Open this sign-in link in the same browser you requested it from.",
+      statusCode: 403,
+    };
+  }
+
+  const client = { ipAddress: request?.ipAddress || "unknown", userAgent: request?.userAgent };
+  const block = await checkLoginAllowed(client, user);
+  if (block) {
+    await recordLoginAttempt(user.email, client, { userId: user.id, success: false, reason: block.reason });
+    return { success: false, message: block.message, statusCode: block.statusCode, retryAfter: block.retryAfter };
+  }
+
+  // Claim the link atomically so two concurrent clicks can't both sign in
+  const claimed = await db.magicLink.updateMany({
+    where: { id: link.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (claimed.count === 0) return invalid;
+  appendSetCookie(ctx, magicLinkNonceCookie("", new Date(0)));
+
+  await recordLoginAttempt(user.email, client, { userId: user.id, success: true });
+  await resetLoginFailures(user);
+
+  if (!user.emailVerified) {
+    await db.user.update({ where: { id: user.id }, data: { emailVerified: true } });
+    user.emailVerified = true;
+  }
+
+  if (user.twoFactorEnabled) {
+    const challenge = await createTwoFactorChallenge(user.id);
+    await logMagicLinkAction(
+      user,
+      "MAGIC_LINK_LOGIN",
+      { statusCode: 202, success: true, changesSummary: { twoFactorRequired: true } },
+      request
+    );
+    return {
+      success: false,
+      twoFactorRequired: true,
+      challengeToken: challenge.challengeToken,
+      challengeExpiresAt: challenge.expiresAt.toISOString(),
+      message: "Two-factor authentication required",
+      statusCode: 202,
+    };
+  }
+
+  const { user: userData, session } = await createUserSession(ctx, user);
+  await logMagicLinkAction(user, "MAGIC_LINK_LOGIN", { statusCode: 200, success: true }, request);
+
+  return { success: true, user: userData, session, message: "Login successful", statusCode: 200 };
+}
@@ -0,0 +1,428 @@
+import type { Context } from "@nanoservice-ts/shared";
+import crypto from "crypto";
+import { db } from "../../../database/config";
+import AuditLogger from "../security/audit-logger";
+import SystemActionLogger, { ActionType, LogRiskLevel, ResourceType } from "../security/system-action-logger";
+import { EMAIL_NOT_VERIFIED_CODE, isLoginAllowed } from "./email-verification-policy";
+import { checkLoginAllowed, lockoutStateSelect, recordLoginAttempt, resetLoginFailures } from "./login-lockout";
+import { type OidcIdTokenClaims, completeAuthorization, createAuthorizationRequest, getOidcProvider, getOidcProviders } from "./oidc";
+import { ensureDefaultMembership } from "./organizations";
+import { hashPassword } from "./passwords";
+import { DEFAULT_ROLE } from "./permissions";
+import {
+  type CreatedSessionType,
+  type LoggedInUserType,
+  appendSetCookie,
+  createTwoFactorChallenge,
+  createUserSession,
+  oidcLoginCookie,
+  sessionUserSelect,
+} from "./sessions";
+
+/**
+ * Sign-in with external OpenID Connect providers and the identities linked to users
+ *
+ * Starting a sign-in keeps the state, nonce and PKCE verifier in a short-lived
+ * HttpOnly cookie of the browser; the callback must come back to that browser
+ * with the same state. The provider's identity (`provider` + `sub`) is then
+ * looked up in `OAuthAccount`:
+ *
+ * - linked: sign in as that user
+ * - not linked, but the provider vouches for the email address of an existing
+ *   user (`email_verified`): link it and sign in
+ * - no user with that address: create one (unless `OIDC_AUTO_REGISTER=false`)
+ *
+ * Signed-in users can also link a provider from the Security page, and unlink
+ * it again. Lockouts, 2FA and the email verification policy apply as they do
+ * for password logins; sign-ins are logged as LOGIN actions.
+ */
+
+export const OIDC_LOGIN_TTL_MINUTES = parseInt(process.env.OIDC_LOGIN_TTL_MINUTES || "10", 10);
+const AUTO_REGISTER = process.env.OIDC_AUTO_REGISTER !== "false";
+
+export type OAuthRequestType = {
+  method: string;
+  path: string;
+  ipAddress: string;
+  userAgent: string;
+};
+
+export type SignInProviderType = {
+  id: string;
+  name: string;
+};
+
+export type OAuthAccountType = {
+  id: string;
+  provider: string;
+  providerName: string;
+  email: string | null;
+  lastLoginAt: string | null;
+  createdAt: string;
+};
+
+export type OAuthSignInType = {
+  success: boolean;
+  provider?: string;
+  linked?: boolean; // An identity was linked to the signed-in user instead of signing in
+  user?: LoggedInUserType;
+  session?: CreatedSessionType;
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+  challengeExpiresAt?: string;
+  emailVerificationRequired?: boolean;
+  code?: string;
+  retryAfter?: number;
+  message: string;
+  statusCode: number;
+};
+
+type PendingSignInType = {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  linkUserId?: string;
+};
+
+type OAuthAction = "OAUTH_LOGIN" | "OAUTH_REGISTERED" | "OAUTH_ACCOUNT_LINKED" | "OAUTH_ACCOUNT_UNLINKED";
+
+const ACTION_TYPES: Record<OAuthAction, ActionType> = {
+  OAUTH_LOGIN: ActionType.LOGIN,
+  OAUTH_REGISTERED: ActionType.REGISTER,
+  OAUTH_ACCOUNT_LINKED: ActionType.UPDATE,
+  OAUTH_ACCOUNT_UNLINKED: ActionType.UPDATE,
+};
+
+async function logOAuthAction(
+  user: { id: string; email: string; name: string; role: string },
+  action: OAuthAction,
+  changesSummary: Record<string, unknown>,
+  request?: Partial<OAuthRequestType>,
+  statusCode = 200
+): Promise<void> {
+  await SystemActionLogger.logAction({
+    userId: user.id,
+    userEmail: user.email,
+    userName: user.name,
+    userRole: user.role,
+    action,
+    actionType: ACTION_TYPES[action],
+    resourceType: ResourceType.USER,
+    resourceId: user.id,
+    resourceName: user.email,
+    httpMethod: request?.method || "POST",
+    endpoint: request?.path || "/api/oauth",
+    ipAddress: request?.ipAddress || "unknown",
+    userAgent: request?.userAgent || "unknown",
+    changesSummary,
+    statusCode,
+    success: true,
+    riskLevel: action === "OAUTH_LOGIN" ? LogRiskLevel.LOW : LogRiskLevel.MEDIUM,
+  });
+}
+
+function isEmailVerified(claims: OidcIdTokenClaims): boolean {
+  return claims.email_verified === true || claims.email_verified === "true";
+}
+
+function failure(message: string, statusCode = 400): OAuthSignInType {
+  return { success: false, message, statusCode };
+}
+
+/**
+ * Callback URL registered with the providers: `OIDC_REDIRECT_URI`, or the
+ * frontend's /oauth-callback page
+ */
+export function oidcRedirectUri(baseUrl = "http://localhost:4000"): string {
+  return process.env.OIDC_REDIRECT_URI || `${baseUrl.replace(/\/+$/, "")}/oauth-callback`;
+}
+
+/**
+ * Providers to show "Sign in with…" buttons for
+ */
+export function listSignInProviders(): SignInProviderType[] {
+  return getOidcProviders().map(({ id, name }) => ({ id, name }));
+}
+
+/**
+ * Start signing in (or, with `linkUserId`, linking an identity) with `providerId`.
+ * Returns the provider URL to send the browser to.
+ */
+export async function startOidcSignIn(
+  ctx: Context,
+  providerId: string,
+  options: { redirectUri: string; linkUserId?: string }
+): Promise<string> {
+  const provider = getOidcProvider(providerId);
+  const request = await createAuthorizationRequest(provider, options.redirectUri);
+
+  const pending: PendingSignInType = {
+    provider: provider.id,
+    state: request.state,
+    nonce: request.nonce,
+    codeVerifier: request.codeVerifier,
+    redirectUri: options.redirectUri,
+    ...(options.linkUserId ? { linkUserId: options.linkUserId } : {}),
+  };
+  const expiresAt = new Date(Date.now() + OIDC_LOGIN_TTL_MINUTES * 60 * 1000);
+  appendSetCookie(ctx, oidcLoginCookie(Buffer.from(JSON.stringify(pending)).toString("base64url"), expiresAt));
+
+  return request.authorizationUrl;
+}
+
+function readPendingSignIn(cookieValue: string | undefined): PendingSignInType | null {
+  if (!cookieValue) return null;
+  try {
+    const pending = JSON.parse(Buffer.from(cookieValue, "base64url").toString("utf8")) as PendingSignInType;
+    return typeof pending.state === "string" && typeof pending.provider === "string" ? pending : null;
+  } catch {
+    return null;
+  }
+}
+
+function sameState(expected: string, received: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Find the user for a verified identity, linking or creating one as described above
+ */
+async function resolveUser(
+  providerId: string,
+  claims: OidcIdTokenClaims,
+  request?: Partial<OAuthRequestType>
+): Promise<{ userId: string } | OAuthSignInType> {
+  const account = await db.oAuthAccount.findUnique({
+    where: { provider_subject: { provider: providerId, subject: claims.sub } },
+    select: { id: true, userId: true },
+  });
+  if (account) {
+    await db.oAuthAccount.update({
+      where: { id: account.id },
+      data: { lastLoginAt: new Date(), email: claims.email ?? null },
+    });
+    return { userId: account.userId };
+  }
+
+  const email = claims.email?.trim().toLowerCase();
+  if (!email) {
+    return failure("The provider did not share an email address, so no account could be matched");
+  }
+
+  const existing = await db.user.findUnique({
+    where: { email },
+    select: { id: true, email: true, name: true, role: true },
+  });
+
+  if (existing) {
+    if (!isEmailVerified(claims)) {
+      return failure(
+        "An account with this email address already exists. Sign in with your password and connect the provider from the Security page.",
+        409
+      );
+    }
+    await db.oAuthAccount.create({
+      data: { userId: existing.id, provider: providerId, subject: claims.sub, email, lastLoginAt: new Date() },
+    });
+    await logOAuthAction(existing, "OAUTH_ACCOUNT_LINKED", { provider: providerId, matchedBy: "verified-email" }, request);
+    await AuditLogger.logSecurityEvent("oauth_account_linked", existing.id, { provider: providerId });
+    return { userId: existing.id };
+  }
+
+  if (!AUTO_REGISTER) {
+    return failure("No account exists for this email address", 404);
+  }
+
+  // No usable password until the user sets one through a password reset
+  const created = await db.user.create({
+    data: {
+      email,
+      passwordHash: await hashPassword(crypto.randomBytes(32).toString("hex")),
+      name: (typeof claims.name === "string" && claims.name.trim()) || email.split("@")[0],
+      role: DEFAULT_ROLE,
+      emailVerified: isEmailVerified(claims),
+    },
+    select: { id: true, email: true, name: true, role: true },
+  });
+  await ensureDefaultMembership(created);
+  await db.oAuthAccount.create({
+    data: { userId: created.id, provider: providerId, subject: claims.sub, email, lastLoginAt: new Date() },
+  });
+  await logOAuthAction(created, "OAUTH_REGISTERED", { provider: providerId }, request);
+
+  return { userId: created.id };
+}
+
+/**
+ * Link a verified identity to the signed-in user who started the flow
+ */
+async function linkToUser(
+  userId: string,
+  providerId: string,
+  claims: OidcIdTokenClaims,
+  request?: Partial<OAuthRequestType>
+): Promise<OAuthSignInType> {
+  const account = await db.oAuthAccount.findUnique({
+    where: { provider_subject: { provider: providerId, subject: claims.sub } },
+    select: { userId: true },
+  });
+  if (account && account.userId !== userId) {
+    return failure("This account is already connected to a different user", 409);
+  }
+  if (account) {
+    return { success: true, provider: providerId, linked: true, message: "This account is already connected", statusCode: 200 };
+  }
+
+  const user = await db.user.findUnique({ where: { id: userId }, select: { id: true, email: true, name: true, role: true } });
+  if (!user) return failure("User not found", 404);
+
+  await db.oAuthAccount.create({
+    data: { userId, provider: providerId, subject: claims.sub, email: claims.email ?? null },
+  });
+  await logOAuthAction(user, "OAUTH_ACCOUNT_LINKED", { provider: providerId, matchedBy: "signed-in-user" }, request);
+  await AuditLogger.logSecurityEvent("oauth_account_linked", user.id, { provider: providerId });
+
+  return {
+    success: true,
+    provider: providerId,
+    linked: true,
+    message: `${getOidcProvider(providerId).name} is now connected to your account`,
+    statusCode: 200,
+  };
+}
+
+/**
+ * Handle the provider's redirect back: check the state against the browser's
+ * cookie, redeem the code and sign in (or link, when the flow started from the
+ * Security page)
+ */
+export async function finishOidcSignIn(
+  ctx: Context,
+  input: { code: string; state: string; cookieValue?: string; currentUserId?: string },
+  request?: Partial<OAuthRequestType>
+): Promise<OAuthSignInType> {
+  const pending = readPendingSignIn(input.cookieValue);
+  // The pending sign-in is single-use whatever the outcome
+  appendSetCookie(ctx, oidcLoginCookie("", new Date(0)));
+
+  if (!pending || !input.state || !sameState(pending.state, input.state)) {
+    return failure("This sign-in attempt has expired or was started in another browser. Please try again.");
+  }
+  if (!input.code) {
+    return failure("The provider did not return an authorization code");
+  }
+
+  const provider = getOidcProvider(pending.provider);
+  const claims = await completeAuthorization(provider, {
+    code: input.code,
+    redirectUri: pending.redirectUri,
+    codeVerifier: pending.codeVerifier,
+    nonce: pending.nonce,
+  });
+
+  if (pending.linkUserId) {
+    if (input.currentUserId !== pending.linkUserId) {
+      return failure("Sign in again to connect this account", 401);
+    }
+    return linkToUser(pending.linkUserId, provider.id, claims, request);
+  }
+
+  const resolved = await resolveUser(provider.id, claims, request);
+  if (!("userId" in resolved)) return resolved;
+
+  const user = await db.user.findUnique({
+    where: { id: resolved.userId },
+    select: { ...sessionUserSelect, ...lockoutStateSelect },
+  });
+  if (!user) return failure("User not found", 404);
+
+  const client = { ipAddress: request?.ipAddress || "unknown", userAgent: request?.userAgent };
+  const block = await checkLoginAllowed(client, user);
+  if (block) {
+    await recordLoginAttempt(user.email, client, { userId: user.id, success: false, reason: block.reason });
+    return { success: false, message: block.message, statusCode: block.statusCode, retryAfter: block.retryAfter };
+  }
+  await recordLoginAttempt(user.email, client, { userId: user.id, success: true });
+  await resetLoginFailures(user);
+
+  // The provider vouches for the address the account uses
+  if (!user.emailVerified && isEmailVerified(claims) && claims.email?.trim().toLowerCase() === user.email) {
+    await db.user.update({ where: { id: user.id }, data: { emailVerified: true } });
+    user.emailVerified = true;
+  }
+
+  if (!isLoginAllowed(user.emailVerified)) {
+    return {
+      success: false,
+      emailVerificationRequired: true,
+      code: EMAIL_NOT_VERIFIED_CODE,
+      message: "Please verify your email address before signing in. Check your inbox for the verification link.",
+      statusCode: 403,
+    };
+  }
+
+  if (user.twoFactorEnabled) {
+    const challenge = await createTwoFactorChallenge(user.id);
+    await logOAuthAction(user, "OAUTH_LOGIN", { provider: provider.id, twoFactorRequired: true }, request, 202);
+    return {
+      success: false,
+      provider: provider.id,
+      twoFactorRequired: true,
+      challengeToken: challenge.challengeToken,
+      challengeExpiresAt: challenge.expiresAt.toISOString(),
+      message: "Two-factor authentication required",
+      statusCode: 202,
+    };
+  }
+
+  const { user: userData, session } = await createUserSession(ctx, user);
+  await logOAuthAction(user, "OAUTH_LOGIN", { provider: provider.id }, request);
+
+  return { success: true, provider: provider.id, user: userData, session, message: "Login successful", statusCode: 200 };
+}
+
+/**
+ * Identities linked to `userId`, for the Security page
+ */
+export async function listOAuthAccounts(userId: string): Promise<OAuthAccountType[]> {
+  const names = new Map(getOidcProviders().map((provider) => [provider.id, provider.name]));
+  const accounts = await db.oAuthAccount.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, provider: true, email: true, lastLoginAt: true, createdAt: true },
+  });
+
+  return accounts.map((account) => ({
+    id: account.id,
+    provider: account.provider,
+    providerName: names.get(account.provider) || account.provider,
+    email: account.email,
+    lastLoginAt: account.lastLoginAt?.toISOString() ?? null,
+    createdAt: account.createdAt.toISOString(),
+  }));
+}
+
+/**
+ * Disconnect one of `user`'s linked identities
+ */
+export async function unlinkOAuthAccount(
+  user: { id: string; email: string; name: string; role: string },
+  accountId: string,
+  request?: Partial<OAuthRequestType>
+): Promise<void> {
+  const account = await db.oAuthAccount.findFirst({
+    where: { id: accountId, userId: user.id },
+    select: { id: true, provider: true },
+  });
+  if (!account) {
+    throw new Error("Connected account not found");
+  }
+
+  await db.oAuthAccount.delete({ where: { id: account.id } });
+  await logOAuthAction(user, "OAUTH_ACCOUNT_UNLINKED", { provider: account.provider }, request);
+  await AuditLogger.logSecurityEvent("oauth_account_unlinked", user.id, { provider: account.provider });
+}
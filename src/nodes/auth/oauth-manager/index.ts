@@ -0,0 +1,237 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+  type ParamsDictionary,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import {
+  finishOidcSignIn,
+  listOAuthAccounts,
+  listSignInProviders,
+  oidcRedirectUri,
+  startOidcSignIn,
+  unlinkOAuthAccount,
+} from "../oauth-accounts";
+import { OIDC_LOGIN_COOKIE, type RequestClient, type RequestHeaders, clientIp, header } from "../sessions";
+
+type OAuthManagerInputType = {
+  action: "providers" | "authorize" | "callback" | "accounts" | "unlink";
+  provider?: string; // Provider id from OIDC_PROVIDERS (authorize)
+  link?: boolean; // Connect the provider to the signed-in user instead of signing in (authorize)
+  baseUrl?: string; // Frontend origin, for the /oauth-callback page (authorize)
+  code?: string; // Authorization code from the provider's redirect (callback)
+  state?: string; // State from the provider's redirect (callback)
+  cookies?: Record<string, string>; // Request cookies holding the pending sign-in (callback)
+  accountId?: string; // Connected account to remove (unlink)
+};
+
+type CurrentUserType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+};
+
+/**
+ * OAuth Manager Node
+ *
+ * OpenID Connect sign-in with the providers configured in `OIDC_PROVIDERS`:
+ * `providers` lists them for the login page, `authorize` returns the provider
+ * URL to redirect to, and `callback` finishes the sign-in like a password login
+ * would (session cookie, or a 2FA challenge). Signed-in users can `authorize`
+ * with `link` to connect a provider, list their `accounts` and `unlink` them.
+ * The response is stored in `ctx.vars.oauthResult`.
+ */
+export default class OAuthManager extends NanoService<OAuthManagerInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["providers", "authorize", "callback", "accounts", "unlink"],
+          description: "OAuth step to perform"
+        },
+        provider: {
+          type: "string",
+          description: "Provider id from OIDC_PROVIDERS (authorize)"
+        },
+        link: {
+          type: "boolean",
+          description: "Connect the provider to the signed-in user instead of signing in (authorize)"
+        },
+        baseUrl: {
+          type: "string",
+          description: "Frontend origin hosting the /oauth-callback page, unless OIDC_REDIRECT_URI is set (authorize)"
+        },
+        code: {
+          type: "string",
+          description: "Authorization code from the provider's redirect (callback)"
+        },
+        state: {
+          type: "string",
+          description: "State from the provider's redirect (callback)"
+        },
+        cookies: {
+          type: "object",
+          description: "Request cookies holding the pending sign-in (callback)"
+        },
+        accountId: {
+          type: "string",
+          description: "Connected account to remove (unlink)"
+        }
+      },
+      required: ["action"]
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        providers: {
+          type: "array",
+          description: "Configured sign-in providers (providers)"
+        },
+        authorizationUrl: {
+          type: "string",
+          description: "Provider URL to send the browser to (authorize)"
+        },
+        accounts: {
+          type: "array",
+          description: "The signed-in user's connected accounts (accounts)"
+        },
+        linked: {
+          type: "boolean",
+          description: "The provider was connected to the signed-in user (callback)"
+        },
+        user: { type: "object" },
+        session: { type: "object" },
+        twoFactorRequired: { type: "boolean" },
+        challengeToken: { type: "string" },
+        challengeExpiresAt: { type: "string", format: "date-time" },
+        emailVerificationRequired: { type: "boolean" },
+        code: { type: "string" },
+        retryAfter: { type: "number" },
+        message: { type: "string" },
+        statusCode: { type: "number" }
+      },
+      required: ["success", "message"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: OAuthManagerInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      const headers = ctx.request?.headers as RequestHeaders | undefined;
+      const request = {
+        method: ctx.request?.method,
+        path: "/api/oauth",
+        ipAddress: clientIp(ctx.request as RequestClient | undefined),
+        userAgent: header(headers, "user-agent") || "unknown",
+      };
+      const currentUser = ctx.vars?.currentUser as unknown as CurrentUserType | undefined;
+
+      const requireUser = (): CurrentUserType | null => {
+        if (currentUser?.id) return currentUser;
+        const nodeError = new GlobalError("Authentication required");
+        nodeError.setCode(401);
+        response.setError(nodeError);
+        return null;
+      };
+
+      let result: Record<string, unknown>;
+
+      switch (inputs.action) {
+        case "providers": {
+          result = { success: true, providers: listSignInProviders(), message: "OK", statusCode: 200 };
+          break;
+        }
+
+        case "authorize": {
+          if (!inputs.provider) {
+            throw new Error("provider is required");
+          }
+          let linkUserId: string | undefined;
+          if (inputs.link) {
+            const user = requireUser();
+            if (!user) return response;
+            if (ctx.vars?.impersonator) {
+              const nodeError = new GlobalError("Accounts cannot be connected while impersonating a user");
+              nodeError.setCode(403);
+              response.setError(nodeError);
+              return response;
+            }
+            linkUserId = user.id;
+          }
+
+          const authorizationUrl = await startOidcSignIn(ctx, inputs.provider, {
+            redirectUri: oidcRedirectUri(inputs.baseUrl),
+            linkUserId,
+          });
+          result = { success: true, authorizationUrl, message: "Redirect to the provider", statusCode: 200 };
+          break;
+        }
+
+        case "callback": {
+          const signIn = await finishOidcSignIn(
+            ctx,
+            {
+              code: inputs.code || "",
+              state: inputs.state || "",
+              cookieValue: inputs.cookies?.[OIDC_LOGIN_COOKIE],
+              currentUserId: currentUser?.id,
+            },
+            request
+          );
+          if (signIn.success && signIn.user) {
+            ctx.logger.log(`User logged in with ${signIn.provider}: ${signIn.user.email}`);
+          }
+          result = signIn;
+          break;
+        }
+
+        case "accounts": {
+          const user = requireUser();
+          if (!user) return response;
+          result = { success: true, accounts: await listOAuthAccounts(user.id), message: "OK", statusCode: 200 };
+          break;
+        }
+
+        case "unlink": {
+          const user = requireUser();
+          if (!user) return response;
+          if (!inputs.accountId) {
+            throw new Error("accountId is required");
+          }
+          await unlinkOAuthAccount(user, inputs.accountId, request);
+          result = { success: true, message: "Account disconnected", statusCode: 200 };
+          break;
+        }
+
+        default:
+          throw new Error(`Unsupported action: ${inputs.action}`);
+      }
+
+      if (ctx.vars === undefined) ctx.vars = {};
+      ctx.vars.oauthResult = result as unknown as ParamsDictionary;
+
+      response.setSuccess(result as unknown as JsonLikeObject);
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(error instanceof Error ? error.message : "OAuth sign-in failed");
+      nodeError.setCode(400);
+      nodeError.setName("oauth-manager");
+      response.setError(nodeError);
+
+      ctx.logger.error("OAuth manager error:", error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,397 @@
+import crypto from "crypto";
+
+/**
+ * OpenID Connect relying party (authorization code flow with PKCE)
+ *
+ * Providers are configured through the environment:
+ *
+ *   OIDC_PROVIDERS=google,acme
+ *   OIDC_GOOGLE_ISSUER=https://accounts.google.com
+ *   OIDC_GOOGLE_CLIENT_ID=...
+ *   OIDC_GOOGLE_CLIENT_SECRET=...        (optional for public clients)
+ *   OIDC_GOOGLE_NAME=Google              (button label, defaults to the id)
+ *   OIDC_GOOGLE_SCOPES=openid email profile
+ *
+ * Endpoints come from the issuer's discovery document and ID tokens are
+ * verified against its JWKS (signature, issuer, audience, expiry and nonce).
+ * Issuers must use HTTPS, except on localhost so a local mock issuer can stand
+ * in for a real provider. Nothing here touches the database; see
+ * oauth-accounts.ts for linking identities to users.
+ */
+
+export const OIDC_HTTP_TIMEOUT_MS = parseInt(process.env.OIDC_HTTP_TIMEOUT_MS || "10000", 10);
+
+// Discovery documents and key sets are re-fetched after this long
+const METADATA_CACHE_MS = 60 * 60 * 1000;
+// A key set is re-fetched for an unknown `kid` at most this often (key rotation)
+const JWKS_REFETCH_INTERVAL_MS = 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+
+export type OidcProviderConfig = {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string[];
+};
+
+export type OidcDiscoveryDocument = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+  code_challenge_methods_supported?: string[];
+};
+
+export type OidcAuthorizationRequest = {
+  authorizationUrl: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+};
+
+export type OidcTokenResponse = {
+  id_token: string;
+  access_token?: string;
+  token_type?: string;
+  expires_in?: number;
+  refresh_token?: string;
+};
+
+export type OidcIdTokenClaims = {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean | string; // Some providers send "true"
+  name?: string;
+  [claim: string]: unknown;
+};
+
+type JsonWebKeyType = crypto.JsonWebKey & { kid?: string; use?: string; alg?: string };
+
+/**
+ * How each accepted JWS algorithm maps onto `crypto.verify`
+ */
+const SIGNATURE_ALGORITHMS: Record<string, { kty: string; hash: string; options?: object }> = {
+  RS256: { kty: "RSA", hash: "sha256" },
+  RS384: { kty: "RSA", hash: "sha384" },
+  RS512: { kty: "RSA", hash: "sha512" },
+  PS256: { kty: "RSA", hash: "sha256", options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 } },
+  PS384: { kty: "RSA", hash: "sha384", options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 48 } },
+  PS512: { kty: "RSA", hash: "sha512", options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 64 } },
+  ES256: { kty: "EC", hash: "sha256", options: { dsaEncoding: "ieee-p1363" } },
+  ES384: { kty: "EC", hash: "sha384", options: { dsaEncoding: "ieee-p1363" } },
+  ES512: { kty: "EC", hash: "sha512", options: { dsaEncoding: "ieee-p1363" } },
+};
+
+const discoveryCache = new Map<string, { document: OidcDiscoveryDocument; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: JsonWebKeyType[]; fetchedAt: number }>();
+
+function envKey(providerId: string, name: string): string {
+  return `OIDC_${providerId.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_${name}`;
+}
+
+/**
+ * Providers listed in `OIDC_PROVIDERS` that have an issuer and a client id
+ */
+export function getOidcProviders(env: NodeJS.ProcessEnv = process.env): OidcProviderConfig[] {
+  const ids = (env.OIDC_PROVIDERS || "")
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers: OidcProviderConfig[] = [];
+  for (const id of ids) {
+    const issuer = env[envKey(id, "ISSUER")]?.trim();
+    const clientId = env[envKey(id, "CLIENT_ID")]?.trim();
+    if (!issuer || !clientId) continue;
+
+    providers.push({
+      id,
+      name: env[envKey(id, "NAME")]?.trim() || id.charAt(0).toUpperCase() + id.slice(1),
+      issuer,
+      clientId,
+      clientSecret: env[envKey(id, "CLIENT_SECRET")]?.trim() || undefined,
+      scopes: (env[envKey(id, "SCOPES")] || "openid email profile").split(/[\s,]+/).filter(Boolean),
+    });
+  }
+  return providers;
+}
+
+export function getOidcProvider(id: string, env: NodeJS.ProcessEnv = process.env): OidcProviderConfig {
+  const provider = getOidcProviders(env).find((candidate) => candidate.id === id);
+  if (!provider) {
+    throw new Error(`Unknown sign-in provider: ${id}`);
+  }
+  return provider;
+}
+
+function assertSecureUrl(value: string, what: string): void {
+  const url = new URL(value);
+  const isLocal = url.hostname === "localhost" || url.hostname === "127.0.0.1" || url.hostname === "[::1]";
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && isLocal)) {
+    throw new Error(`The ${what} must use HTTPS: ${value}`);
+  }
+}
+
+async function fetchJson(url: string, init: RequestInit = {}): Promise<Record<string, unknown>> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Accept: "application/json", ...(init.headers || {}) },
+    signal: AbortSignal.timeout(OIDC_HTTP_TIMEOUT_MS),
+  });
+  const body = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+  if (!response.ok) {
+    const reason = body.error_description || body.error || `HTTP ${response.status}`;
+    throw new Error(`Request to ${new URL(url).origin} failed: ${reason}`);
+  }
+  return body;
+}
+
+/**
+ * Load (and cache) the issuer's `/.well-known/openid-configuration`
+ */
+export async function discoverIssuer(issuer: string): Promise<OidcDiscoveryDocument> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_CACHE_MS) return cached.document;
+
+  assertSecureUrl(issuer, "issuer");
+  const document = (await fetchJson(
+    `${issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`
+  )) as unknown as OidcDiscoveryDocument;
+
+  if (document.issuer !== issuer) {
+    throw new Error(`Discovery document issuer ${document.issuer} does not match ${issuer}`);
+  }
+  for (const endpoint of ["authorization_endpoint", "token_endpoint", "jwks_uri"] as const) {
+    if (typeof document[endpoint] !== "string") {
+      throw new Error(`Discovery document for ${issuer} has no ${endpoint}`);
+    }
+    assertSecureUrl(document[endpoint], endpoint);
+  }
+  if (document.code_challenge_methods_supported && !document.code_challenge_methods_supported.includes("S256")) {
+    throw new Error(`${issuer} does not support PKCE with S256`);
+  }
+
+  discoveryCache.set(issuer, { document, fetchedAt: Date.now() });
+  return document;
+}
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString("base64url");
+}
+
+/**
+ * PKCE verifier and its S256 challenge (RFC 7636)
+ */
+export function createPkcePair(): { codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  const codeChallenge = base64url(crypto.createHash("sha256").update(codeVerifier).digest());
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * Build the URL to send the browser to. `state`, `nonce` and `codeVerifier`
+ * must be kept by the caller and checked when the provider redirects back.
+ */
+export async function createAuthorizationRequest(
+  provider: OidcProviderConfig,
+  redirectUri: string
+): Promise<OidcAuthorizationRequest> {
+  const discovery = await discoverIssuer(provider.issuer);
+  const state = base64url(crypto.randomBytes(32));
+  const nonce = base64url(crypto.randomBytes(32));
+  const { codeVerifier, codeChallenge } = createPkcePair();
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", provider.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", provider.scopes.join(" "));
+  url.searchParams.set("state", state);
+  url.searchParams.set("nonce", nonce);
+  url.searchParams.set("code_challenge", codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+
+  return { authorizationUrl: url.toString(), state, nonce, codeVerifier };
+}
+
+/**
+ * Redeem the authorization code at the token endpoint
+ */
+export async function exchangeAuthorizationCode(
+  provider: OidcProviderConfig,
+  input: { code: string; redirectUri: string; codeVerifier: string }
+): Promise<OidcTokenResponse> {
+  const discovery = await discoverIssuer(provider.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: input.code,
+    redirect_uri: input.redirectUri,
+    client_id: provider.clientId,
+    code_verifier: input.codeVerifier,
+  });
+  const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded" };
+
+  if (provider.clientSecret) {
+    // client_secret_basic is the default when the provider doesn't say
+    const methods = discovery.token_endpoint_auth_methods_supported || ["client_secret_basic"];
+    if (methods.includes("client_secret_basic")) {
+      const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    } else {
+      body.set("client_secret", provider.clientSecret);
+    }
+  }
+
+  const tokens = (await fetchJson(discovery.token_endpoint, {
+    method: "POST",
+    headers,
+    body: body.toString(),
+  })) as unknown as OidcTokenResponse;
+
+  if (typeof tokens.id_token !== "string") {
+    throw new Error("The provider did not return an ID token");
+  }
+  return tokens;
+}
+
+async function loadJwks(jwksUri: string, forceRefresh: boolean): Promise<JsonWebKeyType[]> {
+  const cached = jwksCache.get(jwksUri);
+  const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+  if (cached && age < METADATA_CACHE_MS && !(forceRefresh && age >= JWKS_REFETCH_INTERVAL_MS)) {
+    return cached.keys;
+  }
+
+  const body = await fetchJson(jwksUri);
+  const keys = Array.isArray(body.keys) ? (body.keys as JsonWebKeyType[]) : [];
+  jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+  return keys;
+}
+
+function findKey(keys: JsonWebKeyType[], kid: string | undefined, alg: string): JsonWebKeyType | undefined {
+  const { kty } = SIGNATURE_ALGORITHMS[alg];
+  const candidates = keys.filter(
+    (key) => key.kty === kty && (!key.use || key.use === "sig") && (!key.alg || key.alg === alg)
+  );
+  if (kid) return candidates.find((key) => key.kid === kid);
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/**
+ * Public key for `kid`, re-fetching the key set once if the provider rotated its keys
+ */
+async function getSigningKey(jwksUri: string, kid: string | undefined, alg: string): Promise<crypto.KeyObject> {
+  let key = findKey(await loadJwks(jwksUri, false), kid, alg);
+  if (!key) {
+    key = findKey(await loadJwks(jwksUri, true), kid, alg);
+  }
+  if (!key) {
+    throw new Error("No matching key found to verify the ID token");
+  }
+  return crypto.createPublicKey({ key, format: "jwk" });
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Malformed ID token");
+  }
+}
+
+/**
+ * Verify an ID token's signature against the issuer's JWKS and check its claims
+ */
+export async function verifyIdToken(
+  idToken: string,
+  expected: { issuer: string; clientId: string; nonce: string; jwksUri: string },
+  now = Date.now()
+): Promise<OidcIdTokenClaims> {
+  const segments = idToken.split(".");
+  if (segments.length !== 3) {
+    throw new Error("Malformed ID token");
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment(encodedHeader);
+  const alg = String(header.alg);
+
+  // Rejects "none" and shared-secret algorithms
+  const algorithm = SIGNATURE_ALGORITHMS[alg];
+  if (!algorithm) {
+    throw new Error(`Unsupported ID token algorithm: ${alg}`);
+  }
+
+  const key = await getSigningKey(expected.jwksUri, header.kid as string | undefined, alg);
+  const valid = crypto.verify(
+    algorithm.hash,
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    { key, ...algorithm.options } as crypto.VerifyKeyObjectInput,
+    Buffer.from(encodedSignature, "base64url")
+  );
+  if (!valid) {
+    throw new Error("Invalid ID token signature");
+  }
+
+  const claims = decodeSegment(encodedPayload) as OidcIdTokenClaims;
+  const nowSeconds = Math.floor(now / 1000);
+
+  if (claims.iss !== expected.issuer) {
+    throw new Error("ID token was issued by a different issuer");
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(expected.clientId)) {
+    throw new Error("ID token was issued for a different client");
+  }
+  if (claims.azp !== undefined && claims.azp !== expected.clientId) {
+    throw new Error("ID token was issued for a different client");
+  }
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < nowSeconds) {
+    throw new Error("ID token has expired");
+  }
+  if (typeof claims.iat !== "number" || claims.iat - CLOCK_SKEW_SECONDS > nowSeconds) {
+    throw new Error("ID token was issued in the future");
+  }
+  if (!claims.nonce || claims.nonce !== expected.nonce) {
+    throw new Error("ID token nonce does not match this sign-in");
+  }
+  if (typeof claims.sub !== "string" || !claims.sub) {
+    throw new Error("ID token has no subject");
+  }
+
+  return claims;
+}
+
+/**
+ * Finish the flow: redeem the code and return the verified ID token claims
+ */
+export async function completeAuthorization(
+  provider: OidcProviderConfig,
+  input: { code: string; redirectUri: string; codeVerifier: string; nonce: string }
+): Promise<OidcIdTokenClaims> {
+  const discovery = await discoverIssuer(provider.issuer);
+  const tokens = await exchangeAuthorizationCode(provider, input);
+  return verifyIdToken(tokens.id_token, {
+    issuer: discovery.issuer,
+    clientId: provider.clientId,
+    nonce: input.nonce,
+    jwksUri: discovery.jwks_uri,
+  });
+}
+
+/**
+ * Forget cached discovery documents and key sets
+ */
+export function clearOidcCaches(): void {
+  discoveryCache.clear();
+  jwksCache.clear();
+}
@@ -0,0 +1,187 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+  type ParamsDictionary,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { createOrganization, listUserOrganizations, switchOrganization } from "../organizations";
+import { type RequestClient, clientIp } from "../sessions";
+
+type OrganizationManagerInputType = {
+  action: "list" | "switch" | "create";
+  organizationId?: string; // Organization to switch to (switch)
+  name?: string; // New organization name (create)
+  slug?: string; // Optional URL-safe identifier (create), derived from the name by default
+};
+
+type CurrentUserType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  organizationId?: string | null;
+};
+
+/**
+ * Organization Manager Node
+ *
+ * Lists the organizations the current user belongs to (with their role in
+ * each), switches the active organization of the current session, and creates
+ * new organizations with the current user as their first administrator.
+ */
+export default class OrganizationManager extends NanoService<OrganizationManagerInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["list", "switch", "create"],
+          description: "Organization operation to perform"
+        },
+        organizationId: {
+          type: "string",
+          description: "Organization to make active (switch)"
+        },
+        name: {
+          type: "string",
+          description: "Name of the new organization (create)"
+        },
+        slug: {
+          type: "string",
+          description: "URL-safe identifier of the new organization (create)"
+        }
+      },
+      required: ["action"]
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        message: { type: "string" },
+        organizations: {
+          type: "array",
+          description: "Organizations the current user belongs to, by name",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              name: { type: "string" },
+              slug: { type: "string" },
+              role: { type: "string", description: "The user's role in this organization" },
+              memberCount: { type: "number" },
+              current: { type: "boolean", description: "Active organization of this session" },
+              createdAt: { type: "string", format: "date-time" }
+            },
+            required: ["id", "name", "slug", "role", "memberCount", "current", "createdAt"]
+          }
+        },
+        currentOrganizationId: {
+          type: ["string", "null"],
+          description: "Active organization after the operation"
+        },
+        permissions: {
+          type: "array",
+          items: { type: "string" },
+          description: "The user's permissions in the active organization"
+        }
+      },
+      required: ["success", "message", "organizations", "currentOrganizationId"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: OrganizationManagerInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      const user = ctx.vars?.currentUser as unknown as CurrentUserType | undefined;
+      if (!user?.id) {
+        const nodeError = new GlobalError("Authentication required");
+        nodeError.setCode(401);
+        response.setError(nodeError);
+        return response;
+      }
+
+      const currentSessionId = (ctx.vars?.currentSession as unknown as { id?: string } | undefined)?.id;
+      const request = {
+        method: ctx.request?.method,
+        path: "/api/organizations",
+        ipAddress: clientIp(ctx.request as RequestClient | undefined),
+        userAgent: ctx.request?.headers?.["user-agent"] || "unknown",
+      };
+
+      // The target was vetted in the administrator's organization only; an
+      // impersonation session must not carry it into another tenant
+      if (ctx.vars?.impersonator && inputs.action !== "list") {
+        const nodeError = new GlobalError("Organizations cannot be switched or created while impersonating a user");
+        nodeError.setCode(403);
+        response.setError(nodeError);
+        return response;
+      }
+
+      let message: string;
+      let currentOrganizationId = user.organizationId ?? null;
+      let permissions: string[] | undefined;
+
+      switch (inputs.action) {
+        case "list": {
+          message = "Organizations retrieved";
+          break;
+        }
+
+        case "switch": {
+          if (!inputs.organizationId) {
+            throw new Error("organizationId is required");
+          }
+          const access = await switchOrganization(user, currentSessionId, inputs.organizationId, request);
+          currentOrganizationId = access.organizationId;
+          permissions = access.permissions;
+
+          // Later steps of this request act in the new organization
+          ctx.vars!.currentUser = { ...user, ...access } as unknown as ParamsDictionary;
+          message = "Switched organization";
+          break;
+        }
+
+        case "create": {
+          const organization = await createOrganization(user, { name: inputs.name || "", slug: inputs.slug }, request);
+          const access = await switchOrganization(user, currentSessionId, organization.id, request);
+          currentOrganizationId = access.organizationId;
+          permissions = access.permissions;
+          ctx.vars!.currentUser = { ...user, ...access } as unknown as ParamsDictionary;
+
+          ctx.logger.log(`${user.email} created organization ${organization.slug}`);
+          message = `Created ${organization.name}`;
+          break;
+        }
+
+        default:
+          throw new Error(`Unsupported action: ${inputs.action}`);
+      }
+
+      response.setSuccess({
+        success: true,
+        message,
+        organizations: await listUserOrganizations(user.id, currentOrganizationId),
+        currentOrganizationId,
+        ...(permissions ? { permissions } : {}),
+      } as unknown as JsonLikeObject);
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(error instanceof Error ? error.message : "Organization operation failed");
+      nodeError.setCode(400);
+      nodeError.setName("organization-manager");
+      response.setError(nodeError);
+
+      ctx.logger.error("Organization manager error:", error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,64 @@
+import type { Context } from "@nanoservice-ts/shared";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+const organizations = vi.hoisted(() => ({
+	createOrganization: vi.fn(),
+	listUserOrganizations: vi.fn(),
+	switchOrganization: vi.fn(),
+}));
+
+vi.mock("../../organizations", () => organizations);
+vi.mock("../../sessions", () => ({ clientIp: () => "127.0.0.1" }));
+
+import OrganizationManager from "../index";
+
+const member = { id: "user-1", email: "member@example.com", name: "Member", role: "USER", organizationId: "org-a" };
+const admin = { id: "admin-1", email: "admin@example.com", name: "Admin", role: "ADMIN", sessionId: "session-admin" };
+
+function context(vars: Record<string, unknown>): Context {
+	return {
+		request: { method: "POST", headers: {}, body: {} },
+		vars: { currentSession: { id: "session-1" }, ...vars },
+		logger: { log: vi.fn(), error: vi.fn() },
+	} as unknown as Context;
+}
+
+describe("organization manager", () => {
+	let node: OrganizationManager;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		organizations.listUserOrganizations.mockResolvedValue([]);
+		organizations.switchOrganization.mockResolvedValue({ organizationId: "org-b", role: "ADMIN", permissions: [] });
+		organizations.createOrganization.mockResolvedValue({ id: "org-c", name: "New", slug: "new" });
+		node = new OrganizationManager();
+	});
+
+	test("switches the active organization of a normal session", async () => {
+		const ctx = context({ currentUser: member });
+		const response = await node.handle(ctx, { action: "switch", organizationId: "org-b" });
+
+		expect(response.error).toBeFalsy();
+		expect(organizations.switchOrganization).toHaveBeenCalledWith(member, "session-1", "org-b", expect.any(Object));
+	});
+
+	test.each([
+		["switch", { action: "switch", organizationId: "org-b" }],
+		["create", { action: "create", name: "New" }],
+	] as const)("refuses %s while impersonating", async (_action, inputs) => {
+		const ctx = context({ currentUser: member, impersonator: admin });
+		const response = await node.handle(ctx, inputs);
+
+		expect(response.error?.context.code).toBe(403);
+		expect(organizations.switchOrganization).not.toHaveBeenCalled();
+		expect(organizations.createOrganization).not.toHaveBeenCalled();
+	});
+
+	test("still lists organizations while impersonating", async () => {
+		const ctx = context({ currentUser: member, impersonator: admin });
+		const response = await node.handle(ctx, { action: "list" });
+
+		expect(response.error).toBeFalsy();
+		expect(organizations.listUserOrganizations).toHaveBeenCalledWith("user-1", "org-a");
+	});
+});
@@ -0,0 +1,98 @@
+import type { Context } from "@nanoservice-ts/shared";
+import { db } from "../../../database/config";
+import { isPlatformAdmin } from "./permissions";
+
+/**
+ * Tenant scoping for nodes that read organization data
+ *
+ * `organizationScope(ctx)` reads the active organization from
+ * `ctx.vars.currentUser` (set during authentication, see organizations.ts).
+ * The `scoped*Where` helpers return Prisma `where` fragments restricting a query
+ * to that organization, so one organization's administrators never see another
+ * organization's users, notifications or logs. Without an organization a user
+ * only sees their own rows.
+ */
+
+export type OrganizationScope = {
+  userId: string | null;
+  organizationId: string | null;
+};
+
+export function organizationScope(ctx: Context): OrganizationScope {
+  const user = ctx.vars?.currentUser as unknown as { id?: string; organizationId?: string | null } | undefined;
+  return { userId: user?.id ?? null, organizationId: user?.organizationId ?? null };
+}
+
+export async function organizationMemberIds(organizationId: string): Promise<string[]> {
+  const memberships: Array<{ userId: string }> = await db.membership.findMany({
+    where: { organizationId },
+    select: { userId: true },
+  });
+  return memberships.map((membership) => membership.userId);
+}
+
+/**
+ * Users: members of the active organization
+ */
+export function scopedUserWhere(scope: OrganizationScope): Record<string, unknown> {
+  if (scope.organizationId) {
+    return { memberships: { some: { organizationId: scope.organizationId } } };
+  }
+  return { id: scope.userId ?? "" };
+}
+
+/**
+ * Whether the current user may act on `userId`: a member of the active
+ * organization, or the user themselves without one. Steps that run without a
+ * current user (password reset, email verification) are not restricted.
+ */
+export async function isUserInScope(scope: OrganizationScope, userId: string): Promise<boolean> {
+  if (!scope.userId) return true;
+  return (await db.user.count({ where: { AND: [{ id: userId }, scopedUserWhere(scope)] } })) > 0;
+}
+
+/**
+ * Whether the current user may change `userId`'s account itself (email, name,
+ * password, verification, deletion), which all of that user's organizations
+ * share. Platform administrators may for anyone in scope; organization
+ * administrators only for users who belong to no other organization and are not
+ * platform administrators. Otherwise only the membership in the active
+ * organization is theirs to change.
+ */
+export async function canManageAccount(scope: OrganizationScope, userId: string): Promise<boolean> {
+  if (!scope.userId || scope.userId === userId) return true;
+  if (!scope.organizationId || !(await isUserInScope(scope, userId))) return false;
+  if (await isPlatformAdmin(scope.userId)) return true;
+  if (await isPlatformAdmin(userId)) return false;
+
+  const otherMemberships = await db.membership.count({
+    where: { userId, organizationId: { not: scope.organizationId } },
+  });
+  return otherMemberships === 0;
+}
+
+/**
+ * System and audit logs: rows recorded in the active organization, plus rows
+ * recorded outside any organization (logins, failed attempts, ...) by its members
+ */
+export async function scopedLogWhere(scope: OrganizationScope): Promise<Record<string, unknown>> {
+  if (!scope.organizationId) {
+    return { userId: scope.userId ?? "" };
+  }
+
+  return {
+    OR: [
+      { organizationId: scope.organizationId },
+      { organizationId: null, userId: { in: await organizationMemberIds(scope.organizationId) } },
+    ],
+  };
+}
+
+/**
+ * Notifications: personal ones and those sent within the active organization
+ */
+export function scopedNotificationWhere(scope: OrganizationScope): Record<string, unknown> {
+  return {
+    OR: [{ organizationId: null }, ...(scope.organizationId ? [{ organizationId: scope.organizationId }] : [])],
+  };
+}
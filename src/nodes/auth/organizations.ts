@@ -0,0 +1,260 @@
+import { db } from "../../../database/config";
+import SystemActionLogger, { ActionType, LogRiskLevel, ResourceType } from "../security/system-action-logger";
+import { ADMIN_ROLE, DEFAULT_ROLE, getRolePermissions, normalizeRoleName, roleExists } from "./permissions";
+
+/**
+ * Organizations (multi-tenant workspaces)
+ *
+ * Users belong to organizations through a `Membership` holding their role in
+ * that organization. Every session has an active organization
+ * (`Session.organizationId`, switched from the Sidebar); authentication resolves
+ * the membership and exposes `organizationId`, the per-organization `role` and
+ * its `permissions` on `ctx.vars.currentUser`. Nodes reading tenant data scope
+ * their queries to the active organization, see organization-scope.ts.
+ *
+ * Users without any membership fall back to `User.role` and only see their own data.
+ */
+
+export const DEFAULT_ORGANIZATION_SLUG = process.env.DEFAULT_ORGANIZATION_SLUG ?? "default";
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{1,47}$/;
+
+export type OrganizationAccess = {
+  organizationId: string | null;
+  role: string; // Role in the organization, or User.role without one
+  permissions: string[];
+};
+
+export type OrganizationInfo = {
+  id: string;
+  name: string;
+  slug: string;
+  role: string;
+  memberCount: number;
+  current: boolean;
+  createdAt: string;
+};
+
+export type OrganizationActorType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+};
+
+export type OrganizationRequestType = {
+  method: string;
+  path: string;
+  ipAddress: string;
+  userAgent: string;
+};
+
+export function slugify(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48);
+}
+
+/**
+ * The membership used for a request: `preferredOrganizationId` when the user still
+ * belongs to it, otherwise their oldest membership
+ */
+export async function findActiveMembership(
+  userId: string,
+  preferredOrganizationId?: string | null
+): Promise<{ organizationId: string; role: string } | null> {
+  const select = { organizationId: true, role: true };
+
+  if (preferredOrganizationId) {
+    const preferred = await db.membership.findUnique({
+      where: { userId_organizationId: { userId, organizationId: preferredOrganizationId } },
+      select,
+    });
+    if (preferred) return preferred;
+  }
+
+  return db.membership.findFirst({ where: { userId }, orderBy: { createdAt: "asc" }, select });
+}
+
+/**
+ * Active organization, role and permissions of `user`
+ */
+export async function resolveOrganizationAccess(
+  user: { id: string; role: string },
+  preferredOrganizationId?: string | null
+): Promise<OrganizationAccess> {
+  const membership = await findActiveMembership(user.id, preferredOrganizationId);
+  const organizationId = membership?.organizationId ?? null;
+  const role = membership?.role ?? user.role;
+
+  return { organizationId, role, permissions: await getRolePermissions(role, organizationId) };
+}
+
+/**
+ * Add `userId` to an organization, or change their role if already a member
+ */
+export async function addMember(organizationId: string, userId: string, role: string): Promise<void> {
+  const name = normalizeRoleName(role);
+  if (!(await roleExists(name, organizationId))) {
+    throw new Error(`Role ${name} does not exist`);
+  }
+
+  await db.membership.upsert({
+    where: { userId_organizationId: { userId, organizationId } },
+    create: { userId, organizationId, role: name },
+    update: { role: name },
+  });
+}
+
+/**
+ * Users created outside an organization (registration, seed, admin creation) join
+ * the default organization with their `User.role` the first time they log in.
+ * Set `DEFAULT_ORGANIZATION_SLUG=""` to leave them without one.
+ */
+export async function ensureDefaultMembership(user: { id: string; role: string }): Promise<void> {
+  if (!DEFAULT_ORGANIZATION_SLUG) return;
+  if ((await db.membership.count({ where: { userId: user.id } })) > 0) return;
+
+  const organization = await db.organization.findUnique({
+    where: { slug: DEFAULT_ORGANIZATION_SLUG },
+    select: { id: true },
+  });
+  if (!organization) return;
+
+  const role = (await roleExists(user.role, organization.id)) ? user.role : DEFAULT_ROLE;
+  await addMember(organization.id, user.id, role);
+}
+
+export async function isOrganizationMember(userId: string, organizationId: string): Promise<boolean> {
+  const membership = await db.membership.findUnique({
+    where: { userId_organizationId: { userId, organizationId } },
+    select: { id: true },
+  });
+  return !!membership;
+}
+
+export async function listUserOrganizations(
+  userId: string,
+  currentOrganizationId?: string | null
+): Promise<OrganizationInfo[]> {
+  const memberships = await db.membership.findMany({
+    where: { userId },
+    select: {
+      role: true,
+      organization: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          createdAt: true,
+          _count: { select: { memberships: true } },
+        },
+      },
+    },
+    orderBy: { organization: { name: "asc" } },
+  });
+
+  return memberships.map((membership: any) => ({
+    id: membership.organization.id,
+    name: membership.organization.name,
+    slug: membership.organization.slug,
+    role: membership.role,
+    memberCount: membership.organization._count.memberships,
+    current: membership.organization.id === currentOrganizationId,
+    createdAt: membership.organization.createdAt.toISOString(),
+  }));
+}
+
+async function logOrganizationAction(
+  actor: OrganizationActorType,
+  action: string,
+  actionType: ActionType,
+  organization: { id: string; name: string },
+  changesSummary: Record<string, unknown>,
+  request?: Partial<OrganizationRequestType>
+): Promise<void> {
+  await SystemActionLogger.logAction({
+    userId: actor.id,
+    userEmail: actor.email,
+    userName: actor.name,
+    userRole: actor.role,
+    action,
+    actionType,
+    resourceType: ResourceType.ORGANIZATION,
+    resourceId: organization.id,
+    resourceName: organization.name,
+    httpMethod: request?.method || "POST",
+    endpoint: request?.path || "/api/organizations",
+    ipAddress: request?.ipAddress || "unknown",
+    userAgent: request?.userAgent || "unknown",
+    changesSummary,
+    statusCode: 200,
+    success: true,
+    riskLevel: actionType === ActionType.CREATE ? LogRiskLevel.MEDIUM : LogRiskLevel.LOW,
+    organizationId: organization.id,
+  });
+}
+
+/**
+ * Create an organization with `actor` as its first ADMIN member
+ */
+export async function createOrganization(
+  actor: OrganizationActorType,
+  input: { name: string; slug?: string },
+  request?: Partial<OrganizationRequestType>
+): Promise<{ id: string; name: string; slug: string }> {
+  const name = input.name?.trim();
+  if (!name || name.length > 100) {
+    throw new Error("Organization name must be 1-100 characters");
+  }
+
+  const slug = input.slug ? input.slug.trim().toLowerCase() : slugify(name);
+  if (!SLUG_PATTERN.test(slug)) {
+    throw new Error("Organization slugs must be 2-48 lower-case letters, digits or dashes");
+  }
+  if (await db.organization.findUnique({ where: { slug }, select: { id: true } })) {
+    throw new Error(`An organization with the slug "${slug}" already exists`);
+  }
+
+  const organization = await db.organization.create({
+    data: {
+      name,
+      slug,
+      memberships: { create: { userId: actor.id, role: ADMIN_ROLE } },
+    },
+    select: { id: true, name: true, slug: true },
+  });
+
+  await logOrganizationAction(actor, "ORGANIZATION_CREATED", ActionType.CREATE, organization, { slug }, request);
+  return organization;
+}
+
+/**
+ * Make `organizationId` the active organization of a session (and of the user's
+ * next sessions). Refused unless the user is a member.
+ */
+export async function switchOrganization(
+  actor: OrganizationActorType,
+  sessionId: string | null | undefined,
+  organizationId: string,
+  request?: Partial<OrganizationRequestType>
+): Promise<OrganizationAccess> {
+  const organization = await db.organization.findUnique({
+    where: { id: organizationId },
+    select: { id: true, name: true },
+  });
+  if (!organization || !(await isOrganizationMember(actor.id, organizationId))) {
+    throw new Error("You are not a member of this organization");
+  }
+
+  if (sessionId) {
+    await db.session.update({ where: { id: sessionId }, data: { organizationId } });
+  }
+  await db.user.update({ where: { id: actor.id }, data: { lastOrganizationId: organizationId } });
+
+  await logOrganizationAction(actor, "ORGANIZATION_SWITCHED", ActionType.UPDATE, organization, {}, request);
+  return resolveOrganizationAccess(actor, organizationId);
+}
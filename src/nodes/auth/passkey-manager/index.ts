@@ -0,0 +1,263 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+  type ParamsDictionary,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from "../../security/two-factor-auth/webauthn";
+import {
+  finishPasskeyLogin,
+  finishPasskeyRegistration,
+  listPasskeys,
+  removePasskey,
+  renamePasskey,
+  startPasskeyLogin,
+  startPasskeyRegistration,
+  startPasskeySecondFactor,
+  userIdForTwoFactorChallenge,
+} from "../passkeys";
+import { type RequestClient, type RequestHeaders, clientIp, header } from "../sessions";
+
+type PasskeyManagerInputType = {
+  action:
+    | "registerOptions"
+    | "register"
+    | "list"
+    | "rename"
+    | "remove"
+    | "loginOptions"
+    | "login"
+    | "secondFactorOptions";
+  credential?: Record<string, unknown>; // PublicKeyCredential as JSON (register, login)
+  name?: string; // Label for the passkey (register, rename)
+  passkeyId?: string; // Passkey to rename or remove
+  challengeToken?: string; // Pending 2FA challenge from a login (secondFactorOptions)
+};
+
+type CurrentUserType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+};
+
+/**
+ * Passkey Manager Node
+ *
+ * WebAuthn ceremonies and passkey management. Signed-in users get
+ * `registerOptions` for `navigator.credentials.create()` and `register` the
+ * result, and can `list`, `rename` and `remove` their passkeys. Sign-in uses
+ * `loginOptions` then `login` with the assertion; `secondFactorOptions` starts
+ * a passkey answer to a pending 2FA challenge (finished by auth-2fa-verify).
+ * The response is stored in `ctx.vars.passkeyResult`.
+ */
+export default class PasskeyManager extends NanoService<PasskeyManagerInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["registerOptions", "register", "list", "rename", "remove", "loginOptions", "login", "secondFactorOptions"],
+          description: "Passkey operation to perform"
+        },
+        credential: {
+          type: "object",
+          description: "PublicKeyCredential from the browser, as JSON with base64url binary fields (register, login)"
+        },
+        name: {
+          type: "string",
+          description: "Label for the passkey (register, rename)"
+        },
+        passkeyId: {
+          type: "string",
+          description: "Passkey to rename or remove"
+        },
+        challengeToken: {
+          type: "string",
+          description: "Pending 2FA challenge from a login (secondFactorOptions)"
+        }
+      },
+      required: ["action"]
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        options: {
+          type: "object",
+          description: "Options for navigator.credentials.create() or .get(), binary fields base64url-encoded"
+        },
+        passkey: {
+          type: "object",
+          description: "Registered or renamed passkey"
+        },
+        passkeys: {
+          type: "array",
+          description: "The signed-in user's passkeys (list)"
+        },
+        user: { type: "object" },
+        session: { type: "object" },
+        twoFactorRequired: { type: "boolean" },
+        challengeToken: { type: "string" },
+        challengeExpiresAt: { type: "string", format: "date-time" },
+        emailVerificationRequired: { type: "boolean" },
+        code: { type: "string" },
+        retryAfter: { type: "number" },
+        message: { type: "string" },
+        statusCode: { type: "number" }
+      },
+      required: ["success", "message"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: PasskeyManagerInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      const headers = ctx.request?.headers as RequestHeaders | undefined;
+      const currentUser = ctx.vars?.currentUser as unknown as CurrentUserType | undefined;
+      const request = {
+        method: ctx.request?.method,
+        path: currentUser ? "/api/passkeys" : "/api/passkey-login",
+        ipAddress: clientIp(ctx.request as RequestClient | undefined),
+        userAgent: header(headers, "user-agent") || "unknown",
+      };
+
+      const requireUser = (): CurrentUserType | null => {
+        if (currentUser?.id) return currentUser;
+        const nodeError = new GlobalError("Authentication required");
+        nodeError.setCode(401);
+        response.setError(nodeError);
+        return null;
+      };
+
+      // Credentials belong to the impersonated account, not the admin
+      const refuseWhileImpersonating = (): boolean => {
+        if (!ctx.vars?.impersonator) return false;
+        const nodeError = new GlobalError("Passkeys cannot be changed while impersonating a user");
+        nodeError.setCode(403);
+        response.setError(nodeError);
+        return true;
+      };
+
+      let result: Record<string, unknown>;
+
+      switch (inputs.action) {
+        case "registerOptions": {
+          const user = requireUser();
+          if (!user || refuseWhileImpersonating()) return response;
+          result = { success: true, options: await startPasskeyRegistration(user), message: "OK", statusCode: 200 };
+          break;
+        }
+
+        case "register": {
+          const user = requireUser();
+          if (!user || refuseWhileImpersonating()) return response;
+          if (!inputs.credential) {
+            throw new Error("credential is required");
+          }
+          const passkey = await finishPasskeyRegistration(
+            user,
+            { credential: inputs.credential as unknown as RegistrationResponseJSON, name: inputs.name },
+            request
+          );
+          result = { success: true, passkey, message: "Passkey added", statusCode: 201 };
+          break;
+        }
+
+        case "list": {
+          const user = requireUser();
+          if (!user) return response;
+          result = { success: true, passkeys: await listPasskeys(user.id), message: "OK", statusCode: 200 };
+          break;
+        }
+
+        case "rename": {
+          const user = requireUser();
+          if (!user || refuseWhileImpersonating()) return response;
+          if (!inputs.passkeyId) {
+            throw new Error("passkeyId is required");
+          }
+          const passkey = await renamePasskey(user, inputs.passkeyId, inputs.name || "", request);
+          result = { success: true, passkey, message: "Passkey renamed", statusCode: 200 };
+          break;
+        }
+
+        case "remove": {
+          const user = requireUser();
+          if (!user || refuseWhileImpersonating()) return response;
+          if (!inputs.passkeyId) {
+            throw new Error("passkeyId is required");
+          }
+          await removePasskey(user, inputs.passkeyId, request);
+          result = { success: true, message: "Passkey removed", statusCode: 200 };
+          break;
+        }
+
+        case "loginOptions": {
+          result = { success: true, options: await startPasskeyLogin(), message: "OK", statusCode: 200 };
+          break;
+        }
+
+        case "login": {
+          if (!inputs.credential) {
+            throw new Error("credential is required");
+          }
+          const signIn = await finishPasskeyLogin(
+            ctx,
+            inputs.credential as unknown as AuthenticationResponseJSON,
+            request
+          );
+          if (signIn.success && signIn.user) {
+            ctx.logger.log(`User logged in with a passkey: ${signIn.user.email}`);
+          }
+          result = signIn;
+          break;
+        }
+
+        case "secondFactorOptions": {
+          const userId = await userIdForTwoFactorChallenge(inputs.challengeToken || "");
+          if (!userId) {
+            result = {
+              success: false,
+              challengeExpired: true,
+              message: "Login challenge expired. Please sign in again.",
+              statusCode: 401,
+            };
+            break;
+          }
+          result = { success: true, options: await startPasskeySecondFactor(userId), message: "OK", statusCode: 200 };
+          break;
+        }
+
+        default:
+          throw new Error(`Unsupported action: ${inputs.action}`);
+      }
+
+      if (ctx.vars === undefined) ctx.vars = {};
+      ctx.vars.passkeyResult = result as unknown as ParamsDictionary;
+
+      response.setSuccess(result as unknown as JsonLikeObject);
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(error instanceof Error ? error.message : "Passkey operation failed");
+      nodeError.setCode(400);
+      nodeError.setName("passkey-manager");
+      response.setError(nodeError);
+
+      ctx.logger.error("Passkey manager error:", error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+}
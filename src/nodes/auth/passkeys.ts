@@ -0,0 +1,498 @@
+import type { Context } from "@nanoservice-ts/shared";
+import { db } from "../../../database/config";
+import AuditLogger from "../security/audit-logger";
+import SystemActionLogger, { ActionType, LogRiskLevel, ResourceType } from "../security/system-action-logger";
+import type { SecondFactorResult } from "../security/two-factor-auth/second-factor";
+import {
+  type AuthenticationOptionsJSON,
+  type AuthenticationResponseJSON,
+  type RegistrationOptionsJSON,
+  type RegistrationResponseJSON,
+  challengeFromResponse,
+  createAuthenticationOptions,
+  createChallenge,
+  createRegistrationOptions,
+  getWebAuthnConfig,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from "../security/two-factor-auth/webauthn";
+import { EMAIL_NOT_VERIFIED_CODE, isLoginAllowed } from "./email-verification-policy";
+import { checkLoginAllowed, lockoutStateSelect, recordLoginAttempt, resetLoginFailures } from "./login-lockout";
+import {
+  type CreatedSessionType,
+  type LoggedInUserType,
+  createTwoFactorChallenge,
+  createUserSession,
+  hashToken,
+  sessionUserSelect,
+} from "./sessions";
+
+/**
+ * Passkeys (WebAuthn credentials)
+ *
+ * Signed-in users register passkeys from the Security page. A passkey can then
+ * be used to:
+ * - sign in without an email address or password (discoverable credentials).
+ *   When the authenticator verified the user (PIN or biometrics) the passkey
+ *   counts as both factors; otherwise accounts with 2FA still get a challenge.
+ * - answer the 2FA challenge of a password, magic link or OIDC login, in place
+ *   of a TOTP or backup code.
+ *
+ * Every ceremony starts with a single-use challenge stored as a SHA-256 hash
+ * for `WEBAUTHN_CHALLENGE_TTL_MINUTES`; verification lives in
+ * security/two-factor-auth/webauthn.ts. Registrations, removals and sign-ins
+ * are recorded in the system log.
+ */
+
+export const WEBAUTHN_CHALLENGE_TTL_MINUTES = parseInt(process.env.WEBAUTHN_CHALLENGE_TTL_MINUTES || "5", 10);
+
+export type PasskeyRequestType = {
+  method: string;
+  path: string;
+  ipAddress: string;
+  userAgent: string;
+};
+
+export type PasskeyType = {
+  id: string;
+  name: string;
+  attestationFormat: string;
+  transports: string[];
+  backupEligible: boolean;
+  backedUp: boolean;
+  lastUsedAt: string | null;
+  createdAt: string;
+};
+
+export type PasskeySignInType = {
+  success: boolean;
+  user?: LoggedInUserType;
+  session?: CreatedSessionType;
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+  challengeExpiresAt?: string;
+  emailVerificationRequired?: boolean;
+  code?: string;
+  retryAfter?: number;
+  message: string;
+  statusCode: number;
+};
+
+type ChallengePurpose = "registration" | "login" | "second_factor";
+
+type PasskeyUserType = { id: string; email: string; name: string; role: string };
+
+type PasskeyAction = "PASSKEY_REGISTERED" | "PASSKEY_RENAMED" | "PASSKEY_REMOVED" | "PASSKEY_LOGIN";
+
+const ACTION_TYPES: Record<PasskeyAction, ActionType> = {
+  PASSKEY_REGISTERED: ActionType.CREATE,
+  PASSKEY_RENAMED: ActionType.UPDATE,
+  PASSKEY_REMOVED: ActionType.DELETE,
+  PASSKEY_LOGIN: ActionType.LOGIN,
+};
+
+const passkeySelect = {
+  id: true,
+  name: true,
+  attestationFormat: true,
+  transports: true,
+  backupEligible: true,
+  backedUp: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const;
+
+async function logPasskeyAction(
+  user: PasskeyUserType,
+  action: PasskeyAction,
+  changesSummary: Record<string, unknown>,
+  request?: Partial<PasskeyRequestType>,
+  statusCode = 200
+): Promise<void> {
+  await SystemActionLogger.logAction({
+    userId: user.id,
+    userEmail: user.email,
+    userName: user.name,
+    userRole: user.role,
+    action,
+    actionType: ACTION_TYPES[action],
+    resourceType: ResourceType.USER,
+    resourceId: user.id,
+    resourceName: user.email,
+    httpMethod: request?.method || "POST",
+    endpoint: request?.path || "/api/passkeys",
+    ipAddress: request?.ipAddress || "unknown",
+    userAgent: request?.userAgent || "unknown",
+    changesSummary,
+    statusCode,
+    success: true,
+    riskLevel: action === "PASSKEY_LOGIN" ? LogRiskLevel.LOW : LogRiskLevel.MEDIUM,
+  });
+}
+
+function toPasskey(credential: {
+  id: string;
+  name: string;
+  attestationFormat: string;
+  transports: string | null;
+  backupEligible: boolean;
+  backedUp: boolean;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}): PasskeyType {
+  return {
+    id: credential.id,
+    name: credential.name,
+    attestationFormat: credential.attestationFormat,
+    transports: credential.transports ? credential.transports.split(",") : [],
+    backupEligible: credential.backupEligible,
+    backedUp: credential.backedUp,
+    lastUsedAt: credential.lastUsedAt ? credential.lastUsedAt.toISOString() : null,
+    createdAt: credential.createdAt.toISOString(),
+  };
+}
+
+function failure(message: string, statusCode = 400): PasskeySignInType {
+  return { success: false, message, statusCode };
+}
+
+/**
+ * Store a new ceremony challenge. A user has at most one pending challenge per purpose.
+ */
+async function issueChallenge(purpose: ChallengePurpose, userId?: string): Promise<string> {
+  const challenge = createChallenge();
+
+  await db.webAuthnChallenge.deleteMany({
+    where: {
+      OR: [{ expiresAt: { lt: new Date() } }, ...(userId ? [{ userId, purpose }] : [])],
+    },
+  });
+  await db.webAuthnChallenge.create({
+    data: {
+      userId: userId ?? null,
+      challengeHash: hashToken(challenge),
+      purpose,
+      expiresAt: new Date(Date.now() + WEBAUTHN_CHALLENGE_TTL_MINUTES * 60 * 1000),
+    },
+  });
+
+  return challenge;
+}
+
+/**
+ * Claim the challenge a response was made for. Challenges are single-use, so a
+ * failed verification means starting the ceremony again.
+ */
+async function consumeChallenge(
+  credential: { response?: { clientDataJSON?: string } },
+  purpose: ChallengePurpose,
+  userId?: string
+): Promise<string | null> {
+  const challenge = challengeFromResponse(credential);
+  if (!challenge) return null;
+
+  const claimed = await db.webAuthnChallenge.deleteMany({
+    where: {
+      challengeHash: hashToken(challenge),
+      purpose,
+      userId: userId ?? null,
+      expiresAt: { gt: new Date() },
+    },
+  });
+  return claimed.count === 1 ? challenge : null;
+}
+
+async function allowCredentialsFor(userId: string) {
+  const credentials = await db.webAuthnCredential.findMany({
+    where: { userId },
+    select: { credentialId: true, transports: true },
+  });
+  return credentials.map((credential: { credentialId: string; transports: string | null }) => ({
+    type: "public-key" as const,
+    id: credential.credentialId,
+    transports: credential.transports ? credential.transports.split(",") : undefined,
+  }));
+}
+
+/**
+ * Verify an assertion against the stored credential and record its use
+ */
+async function verifyStoredCredential(
+  credential: AuthenticationResponseJSON,
+  challenge: string,
+  userId?: string
+) {
+  const stored = await db.webAuthnCredential.findUnique({
+    where: { credentialId: String(credential?.rawId || "") },
+  });
+  if (!stored || (userId && stored.userId !== userId)) {
+    throw new Error("This passkey is not registered");
+  }
+
+  // Discoverable credentials report the user handle set at registration
+  const userHandle = credential.response?.userHandle;
+  if (userHandle && Buffer.from(userHandle, "base64url").toString("utf8") !== stored.userId) {
+    throw new Error("Passkey does not belong to this account");
+  }
+
+  const verified = verifyAuthenticationResponse(credential, {
+    challenge,
+    config: getWebAuthnConfig(),
+    storedCredential: stored,
+  });
+
+  // Compare-and-set, so two assertions with the same counter can't both succeed
+  const updated = await db.webAuthnCredential.updateMany({
+    where: { id: stored.id, signCount: stored.signCount },
+    data: { signCount: verified.signCount, backedUp: verified.backedUp, lastUsedAt: new Date() },
+  });
+  if (updated.count === 0 && verified.signCount !== 0) {
+    throw new Error("Passkey signature counter did not increase; the authenticator may have been cloned");
+  }
+
+  return { stored, verified };
+}
+
+/**
+ * Options for registering a new passkey for `user`
+ */
+export async function startPasskeyRegistration(user: PasskeyUserType): Promise<RegistrationOptionsJSON> {
+  const challenge = await issueChallenge("registration", user.id);
+
+  return createRegistrationOptions(getWebAuthnConfig(), {
+    challenge,
+    user: { id: user.id, name: user.email, displayName: user.name },
+    excludeCredentials: await allowCredentialsFor(user.id),
+  });
+}
+
+/**
+ * Verify the browser's registration response and store the passkey
+ */
+export async function finishPasskeyRegistration(
+  user: PasskeyUserType,
+  input: { credential: RegistrationResponseJSON; name?: string },
+  request?: Partial<PasskeyRequestType>
+): Promise<PasskeyType> {
+  const challenge = await consumeChallenge(input.credential, "registration", user.id);
+  if (!challenge) {
+    throw new Error("Passkey registration expired. Please try again.");
+  }
+
+  const verified = verifyRegistrationResponse(input.credential, { challenge, config: getWebAuthnConfig() });
+
+  const existing = await db.webAuthnCredential.findUnique({
+    where: { credentialId: verified.credentialId },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new Error("This passkey is already registered");
+  }
+
+  const name = input.name?.trim().slice(0, 64) || `Passkey ${new Date().toISOString().slice(0, 10)}`;
+  const created = await db.webAuthnCredential.create({
+    data: {
+      userId: user.id,
+      credentialId: verified.credentialId,
+      publicKey: verified.publicKey,
+      signCount: verified.signCount,
+      transports: verified.transports.length > 0 ? verified.transports.join(",") : null,
+      aaguid: verified.aaguid,
+      attestationFormat: verified.attestationFormat,
+      name,
+      backupEligible: verified.backupEligible,
+      backedUp: verified.backedUp,
+    },
+    select: passkeySelect,
+  });
+
+  const details = { passkeyId: created.id, name, attestation: verified.attestationType, aaguid: verified.aaguid };
+  await logPasskeyAction(user, "PASSKEY_REGISTERED", details, request, 201);
+  await AuditLogger.logSecurityEvent("passkey_registered", user.id, details);
+
+  return toPasskey(created);
+}
+
+/**
+ * The user's passkeys, newest first
+ */
+export async function listPasskeys(userId: string): Promise<PasskeyType[]> {
+  const credentials = await db.webAuthnCredential.findMany({
+    where: { userId },
+    select: passkeySelect,
+    orderBy: { createdAt: "desc" },
+  });
+  return credentials.map(toPasskey);
+}
+
+export async function renamePasskey(
+  user: PasskeyUserType,
+  passkeyId: string,
+  name: string,
+  request?: Partial<PasskeyRequestType>
+): Promise<PasskeyType> {
+  const trimmed = name?.trim().slice(0, 64);
+  if (!trimmed) {
+    throw new Error("A name is required");
+  }
+
+  const updated = await db.webAuthnCredential.updateMany({
+    where: { id: passkeyId, userId: user.id },
+    data: { name: trimmed },
+  });
+  if (updated.count === 0) {
+    throw new Error("Passkey not found");
+  }
+
+  await logPasskeyAction(user, "PASSKEY_RENAMED", { passkeyId, name: trimmed }, request);
+  const credential = await db.webAuthnCredential.findUnique({ where: { id: passkeyId }, select: passkeySelect });
+  return toPasskey(credential);
+}
+
+export async function removePasskey(
+  user: PasskeyUserType,
+  passkeyId: string,
+  request?: Partial<PasskeyRequestType>
+): Promise<void> {
+  const removed = await db.webAuthnCredential.deleteMany({
+    where: { id: passkeyId, userId: user.id },
+  });
+  if (removed.count === 0) {
+    throw new Error("Passkey not found");
+  }
+
+  await logPasskeyAction(user, "PASSKEY_REMOVED", { passkeyId }, request);
+  await AuditLogger.logSecurityEvent("passkey_removed", user.id, { passkeyId });
+}
+
+/**
+ * Options for signing in with any passkey registered for this site
+ */
+export async function startPasskeyLogin(): Promise<AuthenticationOptionsJSON> {
+  const challenge = await issueChallenge("login");
+  return createAuthenticationOptions(getWebAuthnConfig(), { challenge });
+}
+
+/**
+ * Sign in with a passkey assertion, like a password login would
+ */
+export async function finishPasskeyLogin(
+  ctx: Context,
+  credential: AuthenticationResponseJSON,
+  request?: Partial<PasskeyRequestType>
+): Promise<PasskeySignInType> {
+  const challenge = await consumeChallenge(credential, "login");
+  if (!challenge) {
+    return failure("Passkey sign-in expired. Please try again.");
+  }
+
+  const stored = await db.webAuthnCredential.findUnique({
+    where: { credentialId: String(credential?.rawId || "") },
+    select: { userId: true },
+  });
+  if (!stored) {
+    return failure("This passkey is not registered for any account", 401);
+  }
+
+  const user = await db.user.findUnique({
+    where: { id: stored.userId },
+    select: { ...sessionUserSelect, ...lockoutStateSelect },
+  });
+  if (!user) return failure("User not found", 404);
+
+  const client = { ipAddress: request?.ipAddress || "unknown", userAgent: request?.userAgent };
+  const block = await checkLoginAllowed(client, user);
+  if (block) {
+    await recordLoginAttempt(user.email, client, { userId: user.id, success: false, reason: block.reason });
+    return { success: false, message: block.message, statusCode: block.statusCode, retryAfter: block.retryAfter };
+  }
+
+  let userVerified = false;
+  try {
+    const { verified } = await verifyStoredCredential(credential, challenge, user.id);
+    userVerified = verified.userVerified;
+  } catch (error: unknown) {
+    const reason = error instanceof Error ? error.message : "Invalid passkey";
+    await AuditLogger.logSecurityEvent("passkey_login", user.id, { passkeyId: credential?.rawId }, false, reason);
+    return failure(reason, 401);
+  }
+
+  await recordLoginAttempt(user.email, client, { userId: user.id, success: true });
+  await resetLoginFailures(user);
+
+  if (!isLoginAllowed(user.emailVerified)) {
+    return {
+      success: false,
+      emailVerificationRequired: true,
+      code: EMAIL_NOT_VERIFIED_CODE,
+      message: "Please verify your email address before signing in. Check your inbox for the verification link.",
+      statusCode: 403,
+    };
+  }
+
+  // A passkey unlocked with a PIN or biometrics is already two factors
+  if (user.twoFactorEnabled && !userVerified) {
+    const twoFactor = await createTwoFactorChallenge(user.id);
+    await logPasskeyAction(user, "PASSKEY_LOGIN", { twoFactorRequired: true }, request, 202);
+    return {
+      success: false,
+      twoFactorRequired: true,
+      challengeToken: twoFactor.challengeToken,
+      challengeExpiresAt: twoFactor.expiresAt.toISOString(),
+      message: "Two-factor authentication required",
+      statusCode: 202,
+    };
+  }
+
+  const { user: userData, session } = await createUserSession(ctx, user);
+  await logPasskeyAction(user, "PASSKEY_LOGIN", { userVerified }, request);
+
+  return { success: true, user: userData, session, message: "Login successful", statusCode: 200 };
+}
+
+/**
+ * User waiting on the 2FA challenge `challengeToken` (from any login method)
+ */
+export async function userIdForTwoFactorChallenge(challengeToken: string): Promise<string | null> {
+  const challenge = await db.twoFactorChallenge.findUnique({
+    where: { tokenHash: hashToken(challengeToken || "") },
+    select: { userId: true, expiresAt: true },
+  });
+  return challenge && challenge.expiresAt > new Date() ? challenge.userId : null;
+}
+
+/**
+ * Options for proving possession of one of `userId`'s passkeys as a second factor
+ */
+export async function startPasskeySecondFactor(userId: string): Promise<AuthenticationOptionsJSON> {
+  const allowCredentials = await allowCredentialsFor(userId);
+  if (allowCredentials.length === 0) {
+    throw new Error("No passkeys are registered for this account");
+  }
+
+  const challenge = await issueChallenge("second_factor", userId);
+  return createAuthenticationOptions(getWebAuthnConfig(), { challenge, allowCredentials });
+}
+
+/**
+ * Verify a passkey assertion as the second factor for `userId`
+ */
+export async function verifyPasskeySecondFactor(
+  userId: string,
+  credential: AuthenticationResponseJSON
+): Promise<SecondFactorResult> {
+  const challenge = await consumeChallenge(credential, "second_factor", userId);
+  if (!challenge) {
+    return { verified: false, reason: "Passkey verification expired. Please try again." };
+  }
+
+  try {
+    const { stored } = await verifyStoredCredential(credential, challenge, userId);
+    await AuditLogger.logSecurityEvent("passkey_second_factor", userId, { passkeyId: stored.id });
+    return { verified: true, method: "passkey" };
+  } catch (error: unknown) {
+    const reason = error instanceof Error ? error.message : "Invalid passkey";
+    await AuditLogger.logSecurityEvent("passkey_second_factor", userId, { passkeyId: credential?.rawId }, false, reason);
+    return { verified: false, reason };
+  }
+}
@@ -6,18 +6,34 @@ import {
   type ParamsDictionary,
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
-import * as bcrypt from 'bcryptjs';
+import {
+  type PasswordHashAlgorithm,
+  getBcryptRounds,
+  getPasswordHashAlgorithm,
+  hashPassword,
+  isPasswordReused,
+  passwordReusedMessage,
+} from '../passwords';
 
 type PasswordHashInputType = {
   password: string;
   saltRounds?: number;
+  userId?: string;
 };
 
 type PasswordHashOutputType = {
   hashedPassword: string;
-  saltRounds: number;
+  algorithm: PasswordHashAlgorithm;
+  saltRounds?: number;
 };
 
+/**
+ * Password Hash Node
+ *
+ * Hashes a new password with PASSWORD_HASH_ALGORITHM (see auth/passwords.ts).
+ * With `userId`, passwords within the user's PASSWORD_HISTORY_DEPTH are
+ * rejected with a 400 before anything is hashed.
+ */
 export default class PasswordHash extends NanoService<PasswordHashInputType> {
   constructor() {
     super();
@@ -35,8 +51,11 @@ export default class PasswordHash extends NanoService<PasswordHashInputType> {
           type: "number",
           minimum: 10,
           maximum: 15,
-          default: 12,
-          description: "Number of salt rounds for bcrypt (default: 12)"
+          description: "Number of salt rounds for bcrypt (default: PASSWORD_BCRYPT_ROUNDS); forces bcrypt"
+        },
+        userId: {
+          type: "string",
+          description: "Owner of the new password, checked against their password history"
         }
       },
       required: ["password"]
@@ -49,16 +68,21 @@ export default class PasswordHash extends NanoService<PasswordHashInputType> {
       properties: {
         hashedPassword: {
           type: "string",
-          description: "The bcrypt hashed password"
+          description: "The bcrypt or scrypt hashed password"
+        },
+        algorithm: {
+          type: "string",
+          enum: ["bcrypt", "scrypt"],
+          description: "Hash algorithm used"
         },
         saltRounds: {
           type: "number",
           minimum: 10,
           maximum: 15,
-          description: "Number of salt rounds used for hashing"
+          description: "Number of salt rounds used for bcrypt hashes"
         }
       },
-      required: ["hashedPassword", "saltRounds"]
+      required: ["hashedPassword", "algorithm"]
     };
   }
 
@@ -75,21 +99,30 @@ export default class PasswordHash extends NanoService<PasswordHashInputType> {
         throw new Error('Password cannot be empty');
       }
 
-      // Set default salt rounds if not provided
-      const saltRounds = inputs.saltRounds || 12;
-
       // Validate salt rounds
-      if (saltRounds < 10 || saltRounds > 15) {
+      if (inputs.saltRounds !== undefined && (inputs.saltRounds < 10 || inputs.saltRounds > 15)) {
         throw new Error('Salt rounds must be between 10 and 15 for security');
       }
 
-      ctx.logger.log('Hashing password with ' + saltRounds + ' salt rounds');
+      if (inputs.userId && await isPasswordReused(inputs.userId, inputs.password)) {
+        const nodeError = new GlobalError(passwordReusedMessage());
+        nodeError.setCode(400);
+        nodeError.setName("password-reused");
+        response.setError(nodeError);
+        return response;
+      }
+
+      const algorithm: PasswordHashAlgorithm = inputs.saltRounds ? 'bcrypt' : getPasswordHashAlgorithm();
+      const saltRounds = algorithm === 'bcrypt' ? inputs.saltRounds || getBcryptRounds() : undefined;
+
+      ctx.logger.log(saltRounds ? `Hashing password with ${saltRounds} salt rounds` : `Hashing password with ${algorithm}`);
 
       // Hash the password
-      const hashedPassword = await bcrypt.hash(inputs.password, saltRounds);
+      const hashedPassword = await hashPassword(inputs.password, { bcryptRounds: inputs.saltRounds });
 
       const result: PasswordHashOutputType = {
         hashedPassword,
+        algorithm,
         saltRounds
       };
 
@@ -6,7 +6,7 @@ import {
   type ParamsDictionary,
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
-import * as bcrypt from 'bcryptjs';
+import { verifyPassword } from '../passwords';
 
 type PasswordVerifyInputType = {
   password: string;
@@ -81,8 +81,8 @@ export default class PasswordVerify extends NanoService<PasswordVerifyInputType>
 
       ctx.logger.log('Verifying password against hash');
 
-      // Compare the password with the hash
-      const isValid = await bcrypt.compare(inputs.password, inputs.hashedPassword);
+      // Compare the password with the hash (bcrypt or scrypt)
+      const isValid = await verifyPassword(inputs.password, inputs.hashedPassword);
 
       const result: PasswordVerifyOutputType = {
         isValid,
@@ -0,0 +1,236 @@
+import * as bcrypt from "bcryptjs";
+import crypto from "crypto";
+import { db } from "../../../database/config";
+
+/**
+ * Password storage policy
+ *
+ * - Hashing: `PASSWORD_HASH_ALGORITHM` (`bcrypt`, default, or `scrypt`) with
+ *   `PASSWORD_BCRYPT_ROUNDS` / `PASSWORD_SCRYPT_COST` (log2 N). Existing
+ *   hashes keep verifying after either setting changes; a successful login
+ *   rehashes them with the current settings (`needsRehash`).
+ * - History: `PASSWORD_HISTORY_DEPTH` rejects the current password and the
+ *   ones before it, up to that many in total (0 turns the check off).
+ * - Expiry: with `PASSWORD_MAX_AGE_DAYS` set, sessions of users whose password
+ *   is older only reach `PASSWORD_EXPIRED_ALLOWED_WORKFLOWS` (403 with code
+ *   `PASSWORD_EXPIRED` elsewhere) until they choose a new one.
+ */
+
+export type PasswordHashAlgorithm = "bcrypt" | "scrypt";
+
+export const PASSWORD_EXPIRED_CODE = "PASSWORD_EXPIRED";
+
+const DEFAULT_EXPIRED_ALLOWED_WORKFLOWS = ["verify-session", "auth-logout", "auth-refresh", "password-reset"];
+
+const BCRYPT_MIN_ROUNDS = 10;
+const BCRYPT_MAX_ROUNDS = 15;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const SCRYPT_KEY_LENGTH = 64;
+
+const BCRYPT_PREFIX = /^\$2[aby]\$\d{2}\$/;
+const SCRYPT_FORMAT = /^\$scrypt\$ln=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/]+=*)\$([A-Za-z0-9+/]+=*)$/;
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+export function getPasswordHashAlgorithm(): PasswordHashAlgorithm {
+  return (process.env.PASSWORD_HASH_ALGORITHM || "").trim().toLowerCase() === "scrypt" ? "scrypt" : "bcrypt";
+}
+
+export function getBcryptRounds(): number {
+  return Math.min(Math.max(envInt("PASSWORD_BCRYPT_ROUNDS", 12), BCRYPT_MIN_ROUNDS), BCRYPT_MAX_ROUNDS);
+}
+
+function getScryptCost(): number {
+  return Math.min(Math.max(envInt("PASSWORD_SCRYPT_COST", 15), 14), 20);
+}
+
+export function getPasswordHistoryDepth(): number {
+  return Math.max(envInt("PASSWORD_HISTORY_DEPTH", 5), 0);
+}
+
+export function getPasswordMaxAgeDays(): number {
+  return Math.max(envInt("PASSWORD_MAX_AGE_DAYS", 0), 0);
+}
+
+/**
+ * Workflows a user with an expired password may call
+ */
+export function getPasswordExpiredAllowedWorkflows(): string[] {
+  const configured = process.env.PASSWORD_EXPIRED_ALLOWED_WORKFLOWS;
+  if (!configured) return DEFAULT_EXPIRED_ALLOWED_WORKFLOWS;
+  return configured.split(",").map((workflow) => workflow.trim()).filter(Boolean);
+}
+
+function scrypt(password: string, salt: Buffer, cost: number, blockSize: number, parallelization: number): Promise<Buffer> {
+  const N = 2 ** cost;
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      password,
+      salt,
+      SCRYPT_KEY_LENGTH,
+      { N, r: blockSize, p: parallelization, maxmem: 256 * N * blockSize },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+/**
+ * Hash with the configured algorithm; `bcryptRounds` overrides PASSWORD_BCRYPT_ROUNDS
+ */
+export async function hashPassword(password: string, options: { bcryptRounds?: number } = {}): Promise<string> {
+  if (getPasswordHashAlgorithm() === "scrypt" && options.bcryptRounds === undefined) {
+    const cost = getScryptCost();
+    const salt = crypto.randomBytes(16);
+    const key = await scrypt(password, salt, cost, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION);
+    return `$scrypt$ln=${cost},r=${SCRYPT_BLOCK_SIZE},p=${SCRYPT_PARALLELIZATION}$${salt.toString("base64")}$${key.toString("base64")}`;
+  }
+  return bcrypt.hash(password, options.bcryptRounds ?? getBcryptRounds());
+}
+
+/**
+ * Check `password` against a bcrypt or scrypt hash
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  if (!password || !passwordHash) return false;
+
+  const scryptHash = passwordHash.match(SCRYPT_FORMAT);
+  if (scryptHash) {
+    const [, cost, blockSize, parallelization, salt, expected] = scryptHash;
+    const expectedKey = Buffer.from(expected, "base64");
+    const key = await scrypt(password, Buffer.from(salt, "base64"), Number(cost), Number(blockSize), Number(parallelization));
+    return key.length === expectedKey.length && crypto.timingSafeEqual(key, expectedKey);
+  }
+
+  if (BCRYPT_PREFIX.test(passwordHash)) {
+    return bcrypt.compare(password, passwordHash);
+  }
+  return false;
+}
+
+/**
+ * Whether a hash was made with another algorithm or cost than the current settings
+ */
+export function needsRehash(passwordHash: string): boolean {
+  if (getPasswordHashAlgorithm() === "scrypt") {
+    const scryptHash = passwordHash.match(SCRYPT_FORMAT);
+    return (
+      !scryptHash ||
+      Number(scryptHash[1]) !== getScryptCost() ||
+      Number(scryptHash[2]) !== SCRYPT_BLOCK_SIZE ||
+      Number(scryptHash[3]) !== SCRYPT_PARALLELIZATION
+    );
+  }
+  return !BCRYPT_PREFIX.test(passwordHash) || bcrypt.getRounds(passwordHash) !== getBcryptRounds();
+}
+
+/**
+ * After a successful login: store a fresh hash of `password` when the settings changed.
+ * Only replaces the exact hash that was verified, so a concurrent change wins.
+ */
+export async function rehashPasswordIfNeeded(userId: string, password: string, passwordHash: string): Promise<boolean> {
+  if (!needsRehash(passwordHash)) return false;
+
+  const updated = await db.user.updateMany({
+    where: { id: userId, passwordHash },
+    data: { passwordHash: await hashPassword(password) },
+  });
+  return updated.count > 0;
+}
+
+/**
+ * Whether `password` is the user's current password or one of the previous
+ * ones within PASSWORD_HISTORY_DEPTH
+ */
+export async function isPasswordReused(userId: string, password: string): Promise<boolean> {
+  const depth = getPasswordHistoryDepth();
+  if (depth === 0) return false;
+
+  const user = await db.user.findUnique({ where: { id: userId }, select: { passwordHash: true } });
+  if (!user) return false;
+  if (await verifyPassword(password, user.passwordHash)) return true;
+
+  const previous = await db.passwordHistory.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    take: depth - 1,
+    select: { passwordHash: true },
+  });
+  for (const entry of previous) {
+    if (await verifyPassword(password, entry.passwordHash)) return true;
+  }
+  return false;
+}
+
+export function passwordReusedMessage(): string {
+  const depth = getPasswordHistoryDepth();
+  return depth > 1
+    ? `Choose a password you haven't used for your last ${depth} passwords`
+    : "Choose a password different from your current one";
+}
+
+/**
+ * Replace the user's password hash, keeping the old one in the history and
+ * restarting the PASSWORD_MAX_AGE_DAYS clock
+ */
+export async function setPasswordHash(userId: string, passwordHash: string): Promise<void> {
+  const depth = getPasswordHistoryDepth();
+  const user = await db.user.findUnique({ where: { id: userId }, select: { passwordHash: true } });
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  // The current password counts towards the depth, so depth - 1 previous ones are kept
+  await db.$transaction([
+    db.user.update({
+      where: { id: userId },
+      data: { passwordHash, passwordChangedAt: new Date() },
+    }),
+    ...(depth > 1 ? [db.passwordHistory.create({ data: { userId, passwordHash: user.passwordHash } })] : []),
+  ]);
+
+  const stale = await db.passwordHistory.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    skip: Math.max(depth - 1, 0),
+    select: { id: true },
+  });
+  if (stale.length > 0) {
+    await db.passwordHistory.deleteMany({ where: { id: { in: stale.map((entry) => entry.id) } } });
+  }
+}
+
+/**
+ * Hash and store a new password chosen by the user; throws when it was used recently
+ */
+export async function changePassword(userId: string, password: string): Promise<void> {
+  if (await isPasswordReused(userId, password)) {
+    throw new Error(passwordReusedMessage());
+  }
+  await setPasswordHash(userId, await hashPassword(password));
+}
+
+/**
+ * When the password stops being accepted without a change, or null without a max age
+ */
+export function passwordExpiresAt(user: { passwordChangedAt?: Date | null; createdAt: Date }): Date | null {
+  const maxAgeDays = getPasswordMaxAgeDays();
+  if (maxAgeDays === 0) return null;
+  const changedAt = user.passwordChangedAt ?? user.createdAt;
+  return new Date(changedAt.getTime() + maxAgeDays * 24 * 60 * 60 * 1000);
+}
+
+export function isPasswordExpired(user: { passwordChangedAt?: Date | null; createdAt: Date }, now = new Date()): boolean {
+  const expiresAt = passwordExpiresAt(user);
+  return expiresAt !== null && expiresAt <= now;
+}
+
+/**
+ * Whether a signed-in user in this password state may call `workflow`
+ */
+export function isWorkflowAllowedWithExpiredPassword(workflow: string, passwordExpired: boolean | undefined): boolean {
+  return !passwordExpired || getPasswordExpiredAllowedWorkflows().includes(workflow);
+}
@@ -0,0 +1,118 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+  type ParamsDictionary,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { getRolePermissions, missingPermissions } from "../permissions";
+
+type PermissionCheckInputType = {
+  permissions: string[];
+  mode?: "all" | "any";
+  enforce?: boolean;
+};
+
+type CurrentUserType = {
+  id: string;
+  role: string;
+  permissions?: string[];
+};
+
+/**
+ * Permission Check Node
+ *
+ * Checks the signed-in user's permissions inside a workflow, after
+ * `authentication-checker` or an authenticated trigger. The result is stored
+ * in `ctx.vars.permissionCheck` ({ allowed, missing }) for if-else steps; with
+ * `enforce` (the default) a denied check stops the workflow with a 403.
+ *
+ * For whole-workflow requirements prefer `permissions: [...]` on the trigger.
+ */
+export default class PermissionCheck extends NanoService<PermissionCheckInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        permissions: {
+          type: "array",
+          items: { type: "string" },
+          description: "Required permissions, e.g. [\"users:read\"]"
+        },
+        mode: {
+          type: "string",
+          enum: ["all", "any"],
+          default: "all",
+          description: "Require every permission or at least one of them"
+        },
+        enforce: {
+          type: "boolean",
+          default: true,
+          description: "Respond 401 / 403 when the check fails instead of only recording the result"
+        }
+      },
+      required: ["permissions"]
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        allowed: {
+          type: "boolean",
+          description: "Whether the user holds the required permissions"
+        },
+        missing: {
+          type: "array",
+          items: { type: "string" },
+          description: "Required permissions the user's role does not grant"
+        },
+        role: {
+          type: "string",
+          description: "Role of the signed-in user"
+        }
+      },
+      required: ["allowed", "missing"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: PermissionCheckInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      const user = ctx.vars?.currentUser as unknown as CurrentUserType | undefined;
+      const required = inputs.permissions || [];
+      const granted = user?.id ? (user.permissions ?? (await getRolePermissions(user.role))) : [];
+      const missing = user?.id ? missingPermissions(granted, required, inputs.mode || "all") : required;
+      const allowed = missing.length === 0 && (!!user?.id || required.length === 0);
+
+      if (ctx.vars === undefined) ctx.vars = {};
+      ctx.vars.permissionCheck = { allowed, missing } as unknown as ParamsDictionary;
+
+      if (!allowed && inputs.enforce !== false) {
+        const message = user?.id ? "Insufficient permissions" : "Authentication required";
+        const nodeError = new GlobalError(message);
+        nodeError.setCode(user?.id ? 403 : 401);
+        nodeError.setName("permission-check");
+        nodeError.setJson({ error: message, missingPermissions: missing } as unknown as ParamsDictionary);
+        response.setError(nodeError);
+        return response;
+      }
+
+      response.setSuccess({ allowed, missing, ...(user?.role ? { role: user.role } : {}) } as unknown as JsonLikeObject);
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(error instanceof Error ? error.message : "Permission check failed");
+      nodeError.setCode(500);
+      nodeError.setName("permission-check");
+      response.setError(nodeError);
+
+      ctx.logger.error("Permission check error:", error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,390 @@
+import { db } from "../../../database/config";
+import SystemActionLogger, { ActionType, LogRiskLevel, ResourceType } from "../security/system-action-logger";
+
+/**
+ * Roles and fine-grained permissions
+ *
+ * `Membership.role` (a user's role in an organization, see organizations.ts)
+ * holds the name of a `Role`. Each role is granted a set of
+ * `<resource>:<action>` permissions from the catalogue below; ADMIN implicitly
+ * holds every permission, USER starts with none. Administrators can define
+ * custom roles (e.g. SUPPORT with `users:read` and `users:sessions`) for their
+ * organization; ADMIN, USER and roles created before organizations existed are
+ * shared by every organization and can only be changed by platform
+ * administrators (`User.role` ADMIN).
+ *
+ * Permissions are resolved at authentication time and exposed as
+ * `ctx.vars.currentUser.permissions`, checked by the HTTP trigger
+ * (`permissions: [...]` in `addTrigger`) and by the `permission-check` node.
+ */
+
+export const PERMISSIONS = {
+  "dashboard:view": "View the admin dashboard",
+  "users:read": "List and view users",
+  "users:create": "Create users",
+  "users:update": "Edit users",
+  "users:delete": "Delete users",
+  "users:sessions": "View and revoke other users' sessions",
+  "users:unlock": "Unlock accounts locked after failed logins",
+  "users:impersonate": "Sign in as another user to see what they see",
+  "roles:read": "View roles and their permissions",
+  "roles:manage": "Create, edit, delete and assign roles",
+  "logs:read": "View system logs",
+  "logs:export": "Export system logs",
+  "logs:cleanup": "Delete old system logs",
+  "audit:read": "View security audit logs",
+  "notifications:send": "Send notifications to users",
+  "emails:read": "View captured outgoing emails",
+  "email-service:manage": "View, change and test the email provider configuration",
+  "email-domains:manage": "View and refresh the disposable email domain list",
+} as const;
+
+export type PermissionKey = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as PermissionKey[];
+
+export const ADMIN_ROLE = "ADMIN";
+export const DEFAULT_ROLE = "USER";
+
+const ROLE_NAME_PATTERN = /^[A-Z][A-Z0-9_]{1,31}$/;
+
+// Role permissions change rarely; cache them briefly to keep authentication at one query
+const PERMISSION_CACHE_TTL_MS = 30 * 1000;
+const permissionCache = new Map<string, { permissions: string[]; expiresAt: number }>();
+
+export type RoleInfo = {
+  id: string;
+  name: string;
+  description: string | null;
+  isSystem: boolean;
+  shared: boolean; // Available to every organization
+  permissions: string[];
+  userCount: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type RoleActorType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  organizationId?: string | null; // Organization whose roles are managed
+};
+
+export type RoleRequestType = {
+  method: string;
+  path: string;
+  ipAddress: string;
+  userAgent: string;
+};
+
+/**
+ * Canonical role name: trimmed, upper-case, spaces and dashes as underscores
+ */
+export function normalizeRoleName(name: string): string {
+  return name.trim().toUpperCase().replace(/[\s-]+/g, "_");
+}
+
+export function clearPermissionCache(): void {
+  permissionCache.clear();
+}
+
+/**
+ * Prisma `where` matching the roles visible in `organizationId`: shared roles plus its own
+ */
+function visibleRolesWhere(organizationId?: string | null) {
+  return organizationId ? { OR: [{ organizationId: null }, { organizationId }] } : { organizationId: null };
+}
+
+async function findVisibleRole(name: string, organizationId?: string | null) {
+  return db.role.findFirst({
+    where: { name, ...visibleRolesWhere(organizationId) },
+    select: {
+      id: true,
+      isSystem: true,
+      organizationId: true,
+      permissions: { select: { permission: { select: { key: true } } } },
+    },
+  });
+}
+
+/**
+ * Permissions granted to `role` in `organizationId` (every permission for ADMIN,
+ * none for unknown roles)
+ */
+export async function getRolePermissions(
+  role: string | undefined | null,
+  organizationId?: string | null
+): Promise<string[]> {
+  if (!role) return [];
+  const name = normalizeRoleName(role);
+  if (name === ADMIN_ROLE) return [...PERMISSION_KEYS];
+
+  const cacheKey = `${organizationId ?? ""}:${name}`;
+  const cached = permissionCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.permissions;
+
+  const grants = await db.rolePermission.findMany({
+    where: { role: { name, ...visibleRolesWhere(organizationId) } },
+    select: { permission: { select: { key: true } } },
+  });
+  const permissions = grants.map((grant: { permission: { key: string } }) => grant.permission.key).sort();
+
+  permissionCache.set(cacheKey, { permissions, expiresAt: Date.now() + PERMISSION_CACHE_TTL_MS });
+  return permissions;
+}
+
+/**
+ * Required permissions missing from `granted` (`mode: "any"` needs only one of them)
+ */
+export function missingPermissions(granted: string[], required: string[], mode: "all" | "any" = "all"): string[] {
+  const missing = required.filter((permission) => !granted.includes(permission));
+  if (mode === "any" && missing.length < required.length) return [];
+  return missing;
+}
+
+export function hasPermissions(granted: string[], required: string[], mode: "all" | "any" = "all"): boolean {
+  return missingPermissions(granted, required, mode).length === 0;
+}
+
+function validatePermissions(permissions: string[]): string[] {
+  const unique = Array.from(new Set(permissions));
+  const unknown = unique.filter((permission) => !(permission in PERMISSIONS));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown permission(s): ${unknown.join(", ")}`);
+  }
+  return unique;
+}
+
+/**
+ * Make sure every catalogue permission has a row (new permissions added in code)
+ */
+async function syncPermissionCatalogue(): Promise<Map<string, string>> {
+  const existing: Array<{ id: string; key: string }> = await db.permission.findMany({ select: { id: true, key: true } });
+  const ids = new Map(existing.map((permission) => [permission.key, permission.id]));
+
+  for (const key of PERMISSION_KEYS) {
+    if (!ids.has(key)) {
+      const created = await db.permission.create({
+        data: { key, description: PERMISSIONS[key] },
+        select: { id: true },
+      });
+      ids.set(key, created.id);
+    }
+  }
+
+  return ids;
+}
+
+export function listPermissions(): Array<{ key: PermissionKey; description: string }> {
+  return PERMISSION_KEYS.map((key) => ({ key, description: PERMISSIONS[key] }));
+}
+
+/**
+ * Roles visible in `organizationId`, with the number of its members holding each
+ * (without an organization: shared roles and the users holding them as `User.role`)
+ */
+export async function listRoles(organizationId?: string | null): Promise<RoleInfo[]> {
+  const roles = await db.role.findMany({
+    where: visibleRolesWhere(organizationId),
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      isSystem: true,
+      organizationId: true,
+      createdAt: true,
+      updatedAt: true,
+      permissions: { select: { permission: { select: { key: true } } } },
+    },
+    orderBy: [{ isSystem: "desc" }, { name: "asc" }],
+  });
+
+  const counts: Array<{ role: string; _count: { _all: number } }> = organizationId
+    ? await db.membership.groupBy({ by: ["role"], where: { organizationId }, _count: { _all: true } })
+    : await db.user.groupBy({ by: ["role"], _count: { _all: true } });
+  const userCounts = new Map(counts.map((count) => [count.role, count._count._all]));
+
+  return roles.map((role: any) => ({
+    id: role.id,
+    name: role.name,
+    description: role.description,
+    isSystem: role.isSystem,
+    shared: role.organizationId === null,
+    permissions:
+      role.name === ADMIN_ROLE
+        ? [...PERMISSION_KEYS]
+        : role.permissions.map((grant: { permission: { key: string } }) => grant.permission.key).sort(),
+    userCount: userCounts.get(role.name) ?? 0,
+    createdAt: role.createdAt.toISOString(),
+    updatedAt: role.updatedAt.toISOString(),
+  }));
+}
+
+export async function roleExists(name: string, organizationId?: string | null): Promise<boolean> {
+  const role = await findVisibleRole(normalizeRoleName(name), organizationId);
+  return !!role;
+}
+
+/**
+ * Platform administrators hold ADMIN as their `User.role`, not only in one organization
+ */
+export async function isPlatformAdmin(userId: string): Promise<boolean> {
+  const platformUser = await db.user.findUnique({ where: { id: userId }, select: { role: true } });
+  return platformUser?.role === ADMIN_ROLE;
+}
+
+/**
+ * Shared roles apply to every organization, so only platform administrators may change them
+ */
+async function assertCanChangeRole(actor: RoleActorType, role: { organizationId: string | null }, name: string) {
+  if (role.organizationId !== null) return;
+
+  if (!(await isPlatformAdmin(actor.id))) {
+    throw new Error(`${name} is shared by every organization and can only be changed by a platform administrator`);
+  }
+}
+
+async function logRoleAction(
+  actor: RoleActorType,
+  action: string,
+  actionType: ActionType,
+  resourceId: string,
+  resourceName: string,
+  changesSummary: Record<string, unknown>,
+  request?: Partial<RoleRequestType>
+): Promise<void> {
+  await SystemActionLogger.logAction({
+    userId: actor.id,
+    userEmail: actor.email,
+    userName: actor.name,
+    userRole: actor.role,
+    action,
+    actionType,
+    resourceType: ResourceType.ROLE,
+    resourceId,
+    resourceName,
+    httpMethod: request?.method || "POST",
+    endpoint: request?.path || "/api/user-role-management",
+    ipAddress: request?.ipAddress || "unknown",
+    userAgent: request?.userAgent || "unknown",
+    changesSummary,
+    statusCode: 200,
+    success: true,
+    riskLevel: LogRiskLevel.HIGH,
+    organizationId: actor.organizationId ?? null,
+  });
+}
+
+async function replaceRolePermissions(roleId: string, permissions: string[]): Promise<void> {
+  const ids = await syncPermissionCatalogue();
+  await db.$transaction([
+    db.rolePermission.deleteMany({ where: { roleId } }),
+    db.rolePermission.createMany({
+      data: permissions.map((permission) => ({ roleId, permissionId: ids.get(permission) as string })),
+    }),
+  ]);
+}
+
+export async function createRole(
+  actor: RoleActorType,
+  input: { name: string; description?: string | null; permissions?: string[] },
+  request?: Partial<RoleRequestType>
+): Promise<RoleInfo> {
+  const name = normalizeRoleName(input.name || "");
+  if (!ROLE_NAME_PATTERN.test(name)) {
+    throw new Error("Role names must be 2-32 letters, digits or underscores, starting with a letter");
+  }
+  const organizationId = actor.organizationId ?? null;
+  if (await roleExists(name, organizationId)) {
+    throw new Error(`Role ${name} already exists`);
+  }
+
+  const permissions = validatePermissions(input.permissions || []);
+  const role = await db.role.create({
+    data: { name, description: input.description?.trim() || null, organizationId },
+    select: { id: true },
+  });
+  await replaceRolePermissions(role.id, permissions);
+  clearPermissionCache();
+
+  await logRoleAction(actor, "ROLE_CREATED", ActionType.CREATE, role.id, name, { permissions }, request);
+  return (await listRoles(organizationId)).find((info) => info.id === role.id) as RoleInfo;
+}
+
+/**
+ * Change a role's description and/or permissions. ADMIN always holds every permission.
+ */
+export async function updateRole(
+  actor: RoleActorType,
+  roleName: string,
+  input: { description?: string | null; permissions?: string[] },
+  request?: Partial<RoleRequestType>
+): Promise<RoleInfo> {
+  const name = normalizeRoleName(roleName);
+  const role = await findVisibleRole(name, actor.organizationId);
+  if (!role) {
+    throw new Error(`Role ${name} not found`);
+  }
+  if (name === ADMIN_ROLE && input.permissions !== undefined) {
+    throw new Error("The ADMIN role always has every permission");
+  }
+  await assertCanChangeRole(actor, role, name);
+
+  if (input.description !== undefined) {
+    await db.role.update({ where: { id: role.id }, data: { description: input.description?.trim() || null } });
+  }
+
+  const previous = role.permissions.map((grant: { permission: { key: string } }) => grant.permission.key);
+  let permissions = previous;
+  if (input.permissions !== undefined) {
+    permissions = validatePermissions(input.permissions);
+    await replaceRolePermissions(role.id, permissions);
+    await db.role.update({ where: { id: role.id }, data: { updatedAt: new Date() } });
+  }
+  clearPermissionCache();
+
+  await logRoleAction(
+    actor,
+    "ROLE_UPDATED",
+    ActionType.UPDATE,
+    role.id,
+    name,
+    {
+      added: permissions.filter((permission: string) => !previous.includes(permission)),
+      removed: previous.filter((permission: string) => !permissions.includes(permission)),
+      ...(input.description !== undefined ? { description: input.description } : {}),
+    },
+    request
+  );
+  return (await listRoles(actor.organizationId)).find((info) => info.id === role.id) as RoleInfo;
+}
+
+/**
+ * Delete a custom role. Refused while members are still assigned to it.
+ */
+export async function deleteRole(actor: RoleActorType, roleName: string, request?: Partial<RoleRequestType>): Promise<void> {
+  const name = normalizeRoleName(roleName);
+  const role = await findVisibleRole(name, actor.organizationId);
+  if (!role) {
+    throw new Error(`Role ${name} not found`);
+  }
+  if (role.isSystem) {
+    throw new Error(`The built-in ${name} role cannot be deleted`);
+  }
+  await assertCanChangeRole(actor, role, name);
+
+  const assigned =
+    (await db.membership.count({
+      where: { role: name, ...(role.organizationId ? { organizationId: role.organizationId } : {}) },
+    })) + (role.organizationId ? 0 : await db.user.count({ where: { role: name } }));
+  if (assigned > 0) {
+    throw new Error(`Role ${name} is still assigned to ${assigned} user(s)`);
+  }
+
+  await db.role.delete({ where: { id: role.id } });
+  clearPermissionCache();
+
+  await logRoleAction(actor, "ROLE_DELETED", ActionType.DELETE, role.id, name, {}, request);
+}
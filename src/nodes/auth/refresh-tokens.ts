@@ -0,0 +1,204 @@
+import type { Context } from "@nanoservice-ts/shared";
+import { db } from "../../../database/config";
+import SystemActionLogger, { ActionType, LogRiskLevel, ResourceType } from "../security/system-action-logger";
+import {
+  type CreatedSessionType,
+  type LoggedInUserType,
+  type RequestClient,
+  type RequestHeaders,
+  clientIp,
+  createUserSession,
+  hashToken,
+  header,
+  sessionUserSelect,
+} from "./sessions";
+
+/**
+ * Rotating refresh tokens
+ *
+ * Every refresh token is single-use: redeeming it revokes the session it was
+ * issued with and returns a new session plus a new refresh token from the same
+ * family. Presenting a token that was already redeemed means it leaked (or the
+ * legitimate client and an attacker raced for it), so the whole family and
+ * every session it minted is revoked and the event is logged as high risk.
+ */
+
+export type RefreshSessionResult =
+  | { success: true; user: LoggedInUserType; session: CreatedSessionType; message: string; statusCode: number }
+  | { success: false; reuseDetected?: boolean; message: string; statusCode: number };
+
+/**
+ * Revoke every token of a refresh token family and the sessions they minted
+ */
+async function revokeRefreshTokenFamily(familyId: string, reason: string): Promise<number> {
+  const tokens = await db.refreshToken.findMany({
+    where: { familyId },
+    select: { sessionId: true },
+  });
+
+  await db.refreshToken.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  const sessionIds = tokens.map((token) => token.sessionId).filter((id): id is string => !!id);
+  if (sessionIds.length === 0) return 0;
+
+  const sessions = await db.session.updateMany({
+    where: { id: { in: sessionIds }, revoked: false },
+    data: { revoked: true, revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return sessions.count;
+}
+
+/**
+ * Revoke the refresh token families behind `sessionIds`, so revoked or
+ * logged-out sessions cannot be brought back with their refresh token
+ */
+export async function revokeRefreshTokensForSessions(sessionIds: string[]): Promise<void> {
+  if (sessionIds.length === 0) return;
+
+  const tokens = await db.refreshToken.findMany({
+    where: { sessionId: { in: sessionIds } },
+    select: { familyId: true },
+  });
+  const familyIds = [...new Set(tokens.map((token) => token.familyId))];
+  if (familyIds.length === 0) return;
+
+  await db.refreshToken.updateMany({
+    where: { familyId: { in: familyIds }, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Revoke every refresh token of `userId`, except the family of `exceptSessionId`.
+ * Also covers tokens whose session has already expired and been deleted.
+ */
+export async function revokeAllRefreshTokens(userId: string, exceptSessionId?: string): Promise<void> {
+  const kept = exceptSessionId
+    ? await db.refreshToken.findFirst({ where: { sessionId: exceptSessionId }, select: { familyId: true } })
+    : null;
+
+  await db.refreshToken.updateMany({
+    where: { userId, revokedAt: null, ...(kept ? { familyId: { not: kept.familyId } } : {}) },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Revoke the family of a refresh token presented at logout
+ */
+export async function revokeRefreshToken(refreshToken: string): Promise<void> {
+  const stored = await db.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    select: { familyId: true },
+  });
+  if (!stored) return;
+
+  await db.refreshToken.updateMany({
+    where: { familyId: stored.familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Redeem `refreshToken` for a new session (queued as cookies on `ctx`)
+ */
+export async function refreshUserSession(ctx: Context, refreshToken: string | undefined): Promise<RefreshSessionResult> {
+  if (!refreshToken) {
+    return { success: false, message: "No refresh token provided", statusCode: 401 };
+  }
+
+  const stored = await db.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    select: {
+      id: true,
+      sessionId: true,
+      familyId: true,
+      expiresAt: true,
+      usedAt: true,
+      revokedAt: true,
+      user: { select: sessionUserSelect },
+    },
+  });
+
+  if (!stored) {
+    return { success: false, message: "Invalid refresh token", statusCode: 401 };
+  }
+
+  if (stored.revokedAt) {
+    return { success: false, message: "Refresh token has been revoked", statusCode: 401 };
+  }
+
+  if (new Date() > stored.expiresAt) {
+    return { success: false, message: "Refresh token has expired", statusCode: 401 };
+  }
+
+  // Claim the token; a concurrent redemption of the same token counts as reuse
+  const claimed = stored.usedAt
+    ? { count: 0 }
+    : await db.refreshToken.updateMany({
+        where: { id: stored.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+  if (claimed.count === 0) {
+    const sessionsRevoked = await revokeRefreshTokenFamily(stored.familyId, "refresh-token-reuse");
+    const headers = ctx.request?.headers as RequestHeaders | undefined;
+
+    await SystemActionLogger.logAction({
+      userId: stored.user.id,
+      userEmail: stored.user.email,
+      userName: stored.user.name,
+      userRole: stored.user.role,
+      action: "REFRESH_TOKEN_REUSE_DETECTED",
+      actionType: ActionType.LOGOUT,
+      resourceType: ResourceType.SESSION,
+      resourceId: stored.familyId,
+      httpMethod: ctx.request?.method || "POST",
+      endpoint: "/api/auth-refresh",
+      ipAddress: clientIp(ctx.request as RequestClient | undefined),
+      userAgent: header(headers, "user-agent") || "unknown",
+      changesSummary: { familyId: stored.familyId, sessionsRevoked },
+      statusCode: 401,
+      success: false,
+      riskLevel: LogRiskLevel.HIGH,
+    });
+
+    ctx.logger.error(`Refresh token reuse detected for ${stored.user.email}; revoked family ${stored.familyId}`);
+    return {
+      success: false,
+      reuseDetected: true,
+      message: "Refresh token reuse detected. Please sign in again.",
+      statusCode: 401,
+    };
+  }
+
+  // The session this token was issued with is superseded by the new one
+  let idleTimeoutMinutes: number | undefined;
+  let organizationId: string | null | undefined;
+  if (stored.sessionId) {
+    const previous = await db.session.findUnique({
+      where: { id: stored.sessionId },
+      select: { idleTimeoutMinutes: true, organizationId: true },
+    });
+    idleTimeoutMinutes = previous?.idleTimeoutMinutes;
+    organizationId = previous?.organizationId;
+
+    await db.session.updateMany({
+      where: { id: stored.sessionId, revoked: false },
+      data: { revoked: true, revokedAt: new Date(), revokedReason: "refreshed" },
+    });
+  }
+
+  const { user, session } = await createUserSession(
+    ctx,
+    stored.user,
+    idleTimeoutMinutes ? idleTimeoutMinutes / 60 : undefined,
+    { refreshFamily: { familyId: stored.familyId, expiresAt: stored.expiresAt }, organizationId }
+  );
+
+  return { success: true, user, session, message: "Session refreshed", statusCode: 200 };
+}
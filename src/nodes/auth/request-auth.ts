@@ -0,0 +1,69 @@
+import { authenticateApiKey, isApiKey } from "./api-keys";
+import { type RequestHeaders, type SessionAuthResult, authenticateSessionToken, header } from "./sessions";
+
+/**
+ * Credentials-agnostic authentication for incoming requests
+ *
+ * Recognized, in order of precedence:
+ * 1. `X-API-Key: blok_...`
+ * 2. `Authorization: Bearer <token>`, where the token is an API key or a session token
+ * 3. The `blok_session_token` cookie set by the login workflows
+ */
+
+export type RequestCredentials = {
+  method: string;
+  path: string;
+  headers?: RequestHeaders;
+  cookies?: Record<string, string>;
+  ipAddress?: string; // from clientIp(); forwarded headers are not trusted here
+};
+
+function bearerToken(headers: RequestHeaders | undefined): string | undefined {
+  const authorization = header(headers, "authorization");
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+/**
+ * Whether the request carries any credentials `authenticateRequest` would look at
+ */
+export function hasRequestCredentials(credentials: Pick<RequestCredentials, "headers" | "cookies">): boolean {
+  return Boolean(
+    header(credentials.headers, "x-api-key") ||
+      bearerToken(credentials.headers) ||
+      credentials.cookies?.blok_session_token
+  );
+}
+
+export async function authenticateRequest(credentials: RequestCredentials): Promise<SessionAuthResult> {
+  const apiKeyHeader = header(credentials.headers, "x-api-key");
+  const bearer = bearerToken(credentials.headers);
+  const apiKey = apiKeyHeader ?? (isApiKey(bearer) ? bearer : undefined);
+
+  if (apiKey !== undefined) {
+    const result = await authenticateApiKey(apiKey, {
+      method: credentials.method,
+      path: credentials.path,
+      ipAddress: credentials.ipAddress || "unknown",
+      userAgent: header(credentials.headers, "user-agent") || "unknown",
+    });
+
+    if (!result.isAuthenticated) {
+      return { isAuthenticated: false, message: result.message, statusCode: result.statusCode };
+    }
+
+    return {
+      isAuthenticated: true,
+      authMethod: "api-key",
+      user: result.user,
+      apiKey: result.apiKey,
+      message: "Authentication successful",
+      statusCode: 200,
+    };
+  }
+
+  return authenticateSessionToken(bearer ?? credentials.cookies?.blok_session_token, {
+    ipAddress: credentials.ipAddress || "unknown",
+    userAgent: header(credentials.headers, "user-agent"),
+  });
+}
@@ -0,0 +1,221 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import {
+  listUserSessions,
+  revokeAllUserSessions,
+  revokeOtherUserSessions,
+  revokeUserSession,
+} from "../user-sessions";
+import { isOrganizationMember } from "../organizations";
+import { type RequestClient, clientIp } from "../sessions";
+
+type SessionManagerInputType = {
+  action: "list" | "revoke" | "revoke-others" | "list-user" | "revoke-user";
+  sessionId?: string;
+  userId?: string; // Target user of the admin actions
+};
+
+type CurrentUserType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  organizationId?: string | null;
+  permissions?: string[];
+};
+
+// Actions on other users' sessions, which need the users:sessions permission
+const ADMIN_ACTIONS = ["list-user", "revoke-user"];
+
+/**
+ * Session Manager Node
+ *
+ * Signed-in users can list their active sessions, revoke one of them or sign
+ * out every other device. Administrators can additionally list and revoke all
+ * sessions of any user (`list-user` / `revoke-user`).
+ */
+export default class SessionManager extends NanoService<SessionManagerInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["list", "revoke", "revoke-others", "list-user", "revoke-user"],
+          description: "Session operation to perform"
+        },
+        sessionId: {
+          type: "string",
+          description: "Session to revoke (revoke)"
+        },
+        userId: {
+          type: "string",
+          description: "Target user (list-user, revoke-user; admin only)"
+        }
+      },
+      required: ["action"]
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        message: { type: "string" },
+        sessions: {
+          type: "array",
+          description: "Active sessions, most recently used first (list, list-user)",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              device: { type: "string" },
+              browser: { type: "string" },
+              os: { type: "string" },
+              userAgent: { type: ["string", "null"] },
+              ipAddress: { type: ["string", "null"] },
+              lastActivityAt: { type: "string", format: "date-time" },
+              createdAt: { type: "string", format: "date-time" },
+              expiresAt: { type: "string", format: "date-time" },
+              current: { type: "boolean" }
+            },
+            required: ["id", "device", "browser", "os", "userAgent", "ipAddress", "lastActivityAt", "createdAt", "expiresAt", "current"]
+          }
+        },
+        sessionsRevoked: {
+          type: "number",
+          minimum: 0,
+          description: "Number of sessions revoked (revoke, revoke-others, revoke-user)"
+        }
+      },
+      required: ["success", "message"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: SessionManagerInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      const user = ctx.vars?.currentUser as unknown as CurrentUserType | undefined;
+      if (!user?.id) {
+        const nodeError = new GlobalError("Authentication required");
+        nodeError.setCode(401);
+        response.setError(nodeError);
+        return response;
+      }
+
+      if (ADMIN_ACTIONS.includes(inputs.action) && !user.permissions?.includes("users:sessions")) {
+        const nodeError = new GlobalError("Insufficient permissions");
+        nodeError.setCode(403);
+        response.setError(nodeError);
+        return response;
+      }
+
+      // Administrators only reach users of their active organization
+      if (
+        ADMIN_ACTIONS.includes(inputs.action) &&
+        inputs.userId &&
+        user.organizationId &&
+        !(await isOrganizationMember(inputs.userId, user.organizationId))
+      ) {
+        throw new Error("User not found");
+      }
+
+      const currentSessionId = (ctx.vars?.currentSession as unknown as { id?: string } | undefined)?.id;
+      const request = {
+        method: ctx.request?.method,
+        path: ADMIN_ACTIONS.includes(inputs.action) ? "/api/admin-user-sessions" : "/api/user-sessions",
+        ipAddress: clientIp(ctx.request as RequestClient | undefined),
+        userAgent: ctx.request?.headers?.["user-agent"] || "unknown",
+      };
+
+      switch (inputs.action) {
+        case "list": {
+          const sessions = await listUserSessions(user.id, currentSessionId);
+          response.setSuccess({
+            success: true,
+            message: `${sessions.length} active session(s)`,
+            sessions,
+          } as unknown as JsonLikeObject);
+          break;
+        }
+
+        case "revoke": {
+          if (!inputs.sessionId) {
+            throw new Error("sessionId is required");
+          }
+          if (inputs.sessionId === currentSessionId) {
+            throw new Error("Use sign out to end the current session");
+          }
+          const revoked = await revokeUserSession(user, inputs.sessionId, request);
+          response.setSuccess({
+            success: revoked,
+            message: revoked ? "Session revoked" : "Session not found or already revoked",
+            sessionsRevoked: revoked ? 1 : 0,
+          });
+          break;
+        }
+
+        case "revoke-others": {
+          if (!currentSessionId) {
+            throw new Error("Signing out other sessions requires a browser session");
+          }
+          const sessionsRevoked = await revokeOtherUserSessions(user, currentSessionId, request);
+          response.setSuccess({
+            success: true,
+            message: `Signed out of ${sessionsRevoked} other session(s)`,
+            sessionsRevoked,
+          });
+          break;
+        }
+
+        case "list-user": {
+          if (!inputs.userId) {
+            throw new Error("userId is required");
+          }
+          const sessions = await listUserSessions(inputs.userId, currentSessionId);
+          response.setSuccess({
+            success: true,
+            message: `${sessions.length} active session(s)`,
+            sessions,
+          } as unknown as JsonLikeObject);
+          break;
+        }
+
+        case "revoke-user": {
+          if (!inputs.userId) {
+            throw new Error("userId is required");
+          }
+          const sessionsRevoked = await revokeAllUserSessions(user, inputs.userId, request);
+          ctx.logger.log(`${user.email} revoked ${sessionsRevoked} session(s) of user ${inputs.userId}`);
+          response.setSuccess({
+            success: true,
+            message: `Revoked ${sessionsRevoked} session(s)`,
+            sessionsRevoked,
+          });
+          break;
+        }
+
+        default:
+          throw new Error(`Unsupported action: ${inputs.action}`);
+      }
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(error instanceof Error ? error.message : "Session operation failed");
+      nodeError.setCode(400);
+      nodeError.setName("session-manager");
+      response.setError(nodeError);
+
+      ctx.logger.error("Session manager error:", error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+}
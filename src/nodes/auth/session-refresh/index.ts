@@ -0,0 +1,107 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+  type ParamsDictionary,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { refreshUserSession } from "../refresh-tokens";
+import { REFRESH_TOKENS_ENABLED, REFRESH_TOKEN_COOKIE, appendSetCookie, clearedAuthCookies } from "../sessions";
+
+type SessionRefreshInputType = {
+  cookies?: Record<string, string>;
+};
+
+/**
+ * Session Refresh Node
+ *
+ * Exchanges the rotating `blok_refresh_token` cookie for a new session and a
+ * new refresh token. Only available when `SESSION_REFRESH_TOKENS=true`.
+ * A failed refresh clears both auth cookies so the client falls back to login.
+ */
+export default class SessionRefresh extends NanoService<SessionRefreshInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        cookies: {
+          type: "object",
+          description: "Request cookies (to extract the refresh token cookie)"
+        }
+      }
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        success: {
+          type: "boolean",
+          description: "Whether a new session was issued"
+        },
+        user: {
+          type: "object",
+          description: "Signed-in user (only present on success)"
+        },
+        session: {
+          type: "object",
+          description: "New session (only present on success)",
+          properties: {
+            id: { type: "string" },
+            token: { type: "string" },
+            expiresAt: { type: "string", format: "date-time" }
+          },
+          required: ["id", "token", "expiresAt"]
+        },
+        reuseDetected: {
+          type: "boolean",
+          description: "The refresh token had already been used; every session of its login was revoked"
+        },
+        message: {
+          type: "string",
+          description: "Human-readable result message"
+        },
+        statusCode: {
+          type: "number",
+          description: "HTTP status code",
+          enum: [200, 401, 404]
+        }
+      },
+      required: ["success", "message", "statusCode"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: SessionRefreshInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      const result = REFRESH_TOKENS_ENABLED
+        ? await refreshUserSession(ctx, inputs.cookies?.[REFRESH_TOKEN_COOKIE])
+        : { success: false as const, message: "Refresh tokens are not enabled", statusCode: 404 };
+
+      if (!result.success) {
+        appendSetCookie(ctx, ...clearedAuthCookies());
+      } else {
+        ctx.logger.log(`Session refreshed for ${result.user.email}`);
+      }
+
+      if (ctx.vars === undefined) ctx.vars = {};
+      ctx.vars.refreshResult = result as unknown as ParamsDictionary;
+
+      response.setSuccess(result as unknown as JsonLikeObject);
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(error instanceof Error ? error.message : "Session refresh failed");
+      nodeError.setCode(500);
+      nodeError.setName("session-refresh");
+      response.setError(nodeError);
+
+      ctx.logger.error("Session refresh error:", error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+}
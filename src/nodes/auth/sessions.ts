@@ -0,0 +1,596 @@
+import type { ParamsDictionary } from "@nanoservice-ts/runner";
+import type { Context } from "@nanoservice-ts/shared";
+import crypto from "crypto";
+import { db } from "../../../database/config";
+import { ensureDefaultMembership, type OrganizationAccess, resolveOrganizationAccess } from "./organizations";
+import { isPasswordExpired } from "./passwords";
+
+/**
+ * Shared session helpers for the authentication nodes
+ *
+ * Every node that completes a login (password, second factor, ...) goes
+ * through `createUserSession` so sessions, cookies and `ctx.vars` are
+ * populated the same way regardless of the login method.
+ */
+
+export type SessionUser = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  emailVerified: boolean;
+  profileImage: string | null;
+  preferences: string | null;
+  twoFactorEnabled: boolean;
+  lastOrganizationId?: string | null;
+  passwordChangedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type LoggedInUserType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  emailVerified: boolean;
+  profileImage: string | null;
+  preferences: Record<string, any>;
+  twoFactorEnabled: boolean;
+  organizationId: string | null; // Active organization, see organizations.ts
+  permissions: string[];
+  passwordExpired: boolean; // Older than PASSWORD_MAX_AGE_DAYS, see passwords.ts
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CreatedSessionType = {
+  id: string;
+  token: string;
+  expiresAt: string;
+};
+
+/**
+ * Prisma `select` matching `SessionUser`
+ */
+export const sessionUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  emailVerified: true,
+  profileImage: true,
+  preferences: true,
+  twoFactorEnabled: true,
+  lastOrganizationId: true,
+  passwordChangedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export type RequestHeaders = Record<string, string | string[] | undefined>;
+
+/**
+ * Read a request header case-insensitively, taking the first value of repeated headers
+ */
+export function header(headers: RequestHeaders | undefined, name: string): string | undefined {
+  const value = headers?.[name] ?? headers?.[name.toLowerCase()];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+}
+
+export type RequestClient = { ip?: string; socket?: { remoteAddress?: string } };
+
+/**
+ * Express `trust proxy` setting from TRUST_PROXY: unset or "false" trusts no
+ * proxy, "true" trusts every hop, a number trusts that many hops, anything else
+ * is a comma-separated list of proxy addresses / subnets (e.g. "loopback, 10.0.0.0/8")
+ */
+export function trustProxySetting(value = process.env.TRUST_PROXY): boolean | number | string {
+  const setting = value?.trim();
+  if (!setting || setting === "false") return false;
+  if (setting === "true") return true;
+  if (/^\d+$/.test(setting)) return parseInt(setting, 10);
+  return setting;
+}
+
+/**
+ * Address of the client that sent the request. `req.ip` is the socket address
+ * unless TRUST_PROXY names the proxy in front of the server, in which case
+ * Express takes it from X-Forwarded-For; the header is never read on its own.
+ */
+export function clientIp(request: RequestClient | undefined): string {
+  return request?.ip || request?.socket?.remoteAddress || "unknown";
+}
+
+/**
+ * How often `lastActivityAt` is written back for an active session
+ */
+export const SESSION_ACTIVITY_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Session lifetime policy
+ *
+ * - Idle timeout: a session expires after this long without a request and is
+ *   renewed on activity. A login may ask for its own idle timeout (`sessionDurationHours`).
+ * - Absolute timeout: hard cap counted from login, never extended by renewal.
+ * - Refresh tokens (opt-in): a rotating `blok_refresh_token` cookie that mints a
+ *   new session once the previous one has expired, for up to `REFRESH_TOKEN_TTL_DAYS`.
+ */
+export const SESSION_IDLE_TIMEOUT_MINUTES = parseInt(process.env.SESSION_IDLE_TIMEOUT_MINUTES || "60", 10);
+export const SESSION_ABSOLUTE_TIMEOUT_HOURS = parseInt(process.env.SESSION_ABSOLUTE_TIMEOUT_HOURS || "24", 10);
+export const REFRESH_TOKENS_ENABLED = process.env.SESSION_REFRESH_TOKENS === "true";
+export const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || "30", 10);
+
+export const SESSION_COOKIE = "blok_session_token";
+export const REFRESH_TOKEN_COOKIE = "blok_refresh_token";
+export const MAGIC_LINK_NONCE_COOKIE = "blok_magic_link_nonce";
+export const OIDC_LOGIN_COOKIE = "blok_oidc_login";
+// Only sent to the API, which is where logout, refresh, magic links and OIDC callbacks read them
+const REFRESH_TOKEN_COOKIE_PATH = "/api";
+
+function cookie(name: string, value: string, path: string, expiresAt: Date, sameSite: "Lax" | "Strict"): string {
+  return `${name}=${value}; HttpOnly; Secure=${process.env.NODE_ENV === "production"}; SameSite=${sameSite}; Path=${path}; Expires=${expiresAt.toUTCString()}`;
+}
+
+export function sessionCookie(token: string, expiresAt: Date): string {
+  return cookie(SESSION_COOKIE, token, "/", expiresAt, "Lax");
+}
+
+export function refreshTokenCookie(token: string, expiresAt: Date): string {
+  return cookie(REFRESH_TOKEN_COOKIE, token, REFRESH_TOKEN_COOKIE_PATH, expiresAt, "Strict");
+}
+
+/**
+ * Binds a magic link to the browser that asked for it (see magic-links.ts)
+ */
+export function magicLinkNonceCookie(nonce: string, expiresAt: Date): string {
+  return cookie(MAGIC_LINK_NONCE_COOKIE, nonce, REFRESH_TOKEN_COOKIE_PATH, expiresAt, "Strict");
+}
+
+/**
+ * State, nonce and PKCE verifier of a pending OpenID Connect sign-in (see oauth-accounts.ts)
+ */
+export function oidcLoginCookie(value: string, expiresAt: Date): string {
+  return cookie(OIDC_LOGIN_COOKIE, value, REFRESH_TOKEN_COOKIE_PATH, expiresAt, "Strict");
+}
+
+/**
+ * Cookies that sign the browser out: expired session and refresh token cookies
+ */
+export function clearedAuthCookies(): string[] {
+  const epoch = new Date(0);
+  return [
+    cookie(SESSION_COOKIE, "", "/", epoch, "Lax"),
+    cookie(REFRESH_TOKEN_COOKIE, "", REFRESH_TOKEN_COOKIE_PATH, epoch, "Strict"),
+  ];
+}
+
+/**
+ * Queue a `Set-Cookie` header for the HTTP trigger. Cookies with the same name
+ * replace each other, so the last write for a cookie wins.
+ */
+export function appendSetCookie(ctx: Context, ...cookies: string[]): void {
+  if (ctx.vars === undefined) ctx.vars = {};
+  const existing = ctx.vars.setCookieHeader as unknown as string | string[] | undefined;
+  const queued = existing === undefined ? [] : Array.isArray(existing) ? existing : [existing];
+  const names = new Set(cookies.map((value) => value.split("=")[0]));
+  const merged = [...queued.filter((value) => !names.has(value.split("=")[0])), ...cookies];
+  ctx.vars.setCookieHeader = (merged.length === 1 ? merged[0] : merged) as unknown as ParamsDictionary;
+}
+
+/**
+ * SHA-256 digest used to store short-lived login tokens at rest
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Serialize a user record for API responses and `ctx.vars.currentUser`.
+ * `access` supplies the role and permissions in the active organization.
+ */
+export function toLoggedInUser(user: SessionUser, access?: OrganizationAccess): LoggedInUserType {
+  // Parse preferences JSON if it exists
+  let parsedPreferences = {};
+  if (user.preferences) {
+    try {
+      parsedPreferences = JSON.parse(user.preferences);
+    } catch (e) {
+      console.warn("Failed to parse user preferences during login:", e);
+      parsedPreferences = {};
+    }
+  }
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: access?.role ?? user.role,
+    emailVerified: user.emailVerified,
+    profileImage: user.profileImage,
+    preferences: parsedPreferences,
+    twoFactorEnabled: user.twoFactorEnabled || false,
+    organizationId: access?.organizationId ?? null,
+    permissions: access?.permissions ?? [],
+    passwordExpired: isPasswordExpired(user),
+    createdAt: user.createdAt.toISOString(),
+    updatedAt: user.updatedAt.toISOString(),
+  };
+}
+
+export type ImpersonationSessionOptions = {
+  impersonatorId: string;
+  impersonatorSessionId: string;
+  reason?: string | null;
+  timeoutMinutes: number;
+};
+
+export type RefreshTokenFamily = {
+  familyId: string;
+  expiresAt: Date;
+};
+
+/**
+ * Issue a refresh token bound to `sessionId`. Only its SHA-256 hash is stored.
+ */
+async function issueRefreshToken(userId: string, sessionId: string, family: RefreshTokenFamily): Promise<string> {
+  const refreshToken = crypto.randomBytes(32).toString("base64url");
+
+  await db.refreshToken.create({
+    data: {
+      userId,
+      sessionId,
+      familyId: family.familyId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt: family.expiresAt,
+    },
+  });
+
+  return refreshToken;
+}
+
+/**
+ * Create a session for an authenticated user and queue the session cookie
+ * (plus a refresh token cookie when refresh tokens are enabled).
+ * Populates `ctx.vars.currentUser`, `ctx.vars.currentSession` and `ctx.vars.setCookieHeader`.
+ *
+ * `sessionDurationHours` is the idle timeout of the new session and defaults to
+ * `SESSION_IDLE_TIMEOUT_MINUTES`; `refreshFamily` continues an existing refresh
+ * token family instead of starting a new one (token rotation). The session starts
+ * in `organizationId`, or else the organization the user last switched to.
+ * `impersonation` ties the session to the administrator signing in as `user`:
+ * it lasts `timeoutMinutes` at most and never gets a refresh token.
+ */
+export async function createUserSession(
+  ctx: Context,
+  user: SessionUser,
+  sessionDurationHours?: number,
+  options: {
+    refreshFamily?: RefreshTokenFamily;
+    organizationId?: string | null;
+    impersonation?: ImpersonationSessionOptions;
+  } = {}
+): Promise<{ user: LoggedInUserType; session: CreatedSessionType }> {
+  // Generate session token (using crypto.randomUUID + timestamp for uniqueness)
+  const sessionToken = `${crypto.randomUUID()}-${Date.now()}`;
+
+  // Idle expiry, capped by the absolute timeout
+  const now = Date.now();
+  const { impersonation } = options;
+  const idleTimeoutMinutes = impersonation
+    ? impersonation.timeoutMinutes
+    : sessionDurationHours
+      ? Math.round(sessionDurationHours * 60)
+      : SESSION_IDLE_TIMEOUT_MINUTES;
+  const absoluteExpiresAt = new Date(
+    now + (impersonation ? impersonation.timeoutMinutes * 60 : SESSION_ABSOLUTE_TIMEOUT_HOURS * 60 * 60) * 1000
+  );
+  const expiresAt = new Date(Math.min(now + idleTimeoutMinutes * 60 * 1000, absoluteExpiresAt.getTime()));
+
+  const headers = ctx.request?.headers as RequestHeaders | undefined;
+
+  await ensureDefaultMembership(user);
+  const access = await resolveOrganizationAccess(user, options.organizationId ?? user.lastOrganizationId);
+
+  const session = await db.session.create({
+    data: {
+      userId: user.id,
+      organizationId: access.organizationId,
+      token: sessionToken,
+      userAgent: header(headers, "user-agent") || null,
+      ipAddress: clientIp(ctx.request as RequestClient | undefined),
+      idleTimeoutMinutes,
+      absoluteExpiresAt,
+      expiresAt: expiresAt,
+      ...(impersonation
+        ? {
+            impersonatorId: impersonation.impersonatorId,
+            impersonatorSessionId: impersonation.impersonatorSessionId,
+            impersonationReason: impersonation.reason || null,
+          }
+        : {}),
+    },
+    select: {
+      id: true,
+      token: true,
+      expiresAt: true,
+    },
+  });
+
+  if (!session) {
+    throw new Error("Failed to create session");
+  }
+
+  const userData = toLoggedInUser(user, access);
+  // An impersonating administrator is not asked to change the user's password
+  if (impersonation) userData.passwordExpired = false;
+  const sessionData: CreatedSessionType = {
+    id: session.id,
+    token: session.token,
+    expiresAt: session.expiresAt.toISOString(),
+  };
+
+  if (ctx.vars === undefined) ctx.vars = {};
+  ctx.vars.currentUser = userData as unknown as ParamsDictionary;
+  ctx.vars.currentSession = sessionData as unknown as ParamsDictionary;
+
+  // HTTP-only cookies, set by the HttpTrigger
+  appendSetCookie(ctx, sessionCookie(sessionToken, expiresAt));
+
+  if (REFRESH_TOKENS_ENABLED && !impersonation) {
+    const family = options.refreshFamily || {
+      familyId: crypto.randomUUID(),
+      expiresAt: new Date(now + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    };
+    const refreshToken = await issueRefreshToken(user.id, session.id, family);
+    appendSetCookie(ctx, refreshTokenCookie(refreshToken, family.expiresAt));
+  }
+
+  return { user: userData, session: sessionData };
+}
+
+export type AuthenticatedUserType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  emailVerified: boolean;
+  organizationId: string | null; // Active organization; role and permissions apply to it
+  permissions: string[]; // Resolved from the role, see permissions.ts
+  passwordExpired?: boolean; // Session users only; never set while impersonating
+};
+
+export type AuthenticatedSessionType = {
+  id: string;
+  expiresAt: string;
+  renewed?: boolean; // expiresAt was extended by this request
+};
+
+/**
+ * The administrator behind an impersonation session (see impersonation.ts)
+ */
+export type ImpersonatorType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string; // Platform role (`User.role`)
+  sessionId: string | null; // The administrator's own session
+};
+
+export type SessionAuthResult = {
+  isAuthenticated: boolean;
+  authMethod?: "session" | "api-key";
+  user?: AuthenticatedUserType;
+  session?: AuthenticatedSessionType;
+  impersonator?: ImpersonatorType; // Set when an administrator is signed in as `user`
+  apiKey?: { id: string; name: string; prefix: string; scopes: string[] };
+  message: string;
+  statusCode: number;
+};
+
+async function isSessionActive(sessionId: string | null): Promise<boolean> {
+  if (!sessionId) return false;
+
+  const session = await db.session.findUnique({
+    where: { id: sessionId },
+    select: { revoked: true, expiresAt: true },
+  });
+  return !!session && !session.revoked && session.expiresAt > new Date();
+}
+
+/**
+ * Resolve the session behind a `blok_session_token` cookie.
+ * Expired sessions are deleted and revoked sessions rejected; otherwise the
+ * session's last activity (and latest IP / user agent) is recorded and, once
+ * half of its idle timeout has elapsed, its expiry slides forward (never past
+ * the absolute timeout). An impersonation session also ends as soon as the
+ * administrator's own session does.
+ */
+export async function authenticateSessionToken(
+  sessionToken: string | undefined,
+  client: { ipAddress?: string; userAgent?: string } = {}
+): Promise<SessionAuthResult> {
+  if (!sessionToken) {
+    return { isAuthenticated: false, message: "No session token provided", statusCode: 401 };
+  }
+
+  const sessionData = await db.session.findUnique({
+    where: {
+      token: sessionToken,
+    },
+    select: {
+      id: true,
+      expiresAt: true,
+      revoked: true,
+      lastActivityAt: true,
+      ipAddress: true,
+      idleTimeoutMinutes: true,
+      absoluteExpiresAt: true,
+      organizationId: true,
+      impersonatorSessionId: true,
+      user: {
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          emailVerified: true,
+          passwordChangedAt: true,
+          createdAt: true,
+        },
+      },
+      impersonator: {
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+        },
+      },
+    },
+  });
+
+  if (!sessionData) {
+    return { isAuthenticated: false, message: "Invalid session token", statusCode: 401 };
+  }
+
+  if (new Date() > sessionData.expiresAt) {
+    await db.session.delete({
+      where: {
+        id: sessionData.id,
+      },
+    });
+
+    return { isAuthenticated: false, message: "Session has expired", statusCode: 401 };
+  }
+
+  if (sessionData.revoked) {
+    return { isAuthenticated: false, message: "Session has been revoked", statusCode: 401 };
+  }
+
+  if (sessionData.impersonator && !(await isSessionActive(sessionData.impersonatorSessionId))) {
+    return { isAuthenticated: false, message: "Impersonation has ended", statusCode: 401 };
+  }
+
+  const now = new Date();
+  const idleTimeoutMs = sessionData.idleTimeoutMinutes * 60 * 1000;
+  let expiresAt = sessionData.expiresAt;
+  let renewed = false;
+
+  if (now.getTime() >= expiresAt.getTime() - idleTimeoutMs / 2) {
+    const cap = sessionData.absoluteExpiresAt?.getTime() ?? Number.POSITIVE_INFINITY;
+    const next = Math.min(now.getTime() + idleTimeoutMs, cap);
+    if (next > expiresAt.getTime()) {
+      expiresAt = new Date(next);
+      renewed = true;
+    }
+  }
+
+  const ipAddress = client.ipAddress && client.ipAddress !== "unknown" ? client.ipAddress : undefined;
+  if (
+    renewed ||
+    now.getTime() - sessionData.lastActivityAt.getTime() >= SESSION_ACTIVITY_UPDATE_INTERVAL_MS ||
+    (ipAddress && ipAddress !== sessionData.ipAddress)
+  ) {
+    await db.session.update({
+      where: { id: sessionData.id },
+      data: {
+        lastActivityAt: now,
+        ...(renewed ? { expiresAt } : {}),
+        ...(ipAddress ? { ipAddress } : {}),
+        ...(client.userAgent ? { userAgent: client.userAgent } : {}),
+      },
+    });
+  }
+
+  const access = await resolveOrganizationAccess(sessionData.user, sessionData.organizationId);
+
+  return {
+    isAuthenticated: true,
+    authMethod: "session",
+    user: {
+      id: sessionData.user.id,
+      email: sessionData.user.email,
+      name: sessionData.user.name,
+      role: access.role,
+      emailVerified: sessionData.user.emailVerified,
+      organizationId: access.organizationId,
+      permissions: access.permissions,
+      passwordExpired: !sessionData.impersonator && isPasswordExpired(sessionData.user),
+    },
+    session: {
+      id: sessionData.id,
+      expiresAt: expiresAt.toISOString(),
+      ...(renewed ? { renewed } : {}),
+    },
+    ...(sessionData.impersonator
+      ? { impersonator: { ...sessionData.impersonator, sessionId: sessionData.impersonatorSessionId } }
+      : {}),
+    message: "Authentication successful",
+    statusCode: 200,
+  };
+}
+
+/**
+ * Expose an authentication result to later steps:
+ * `ctx.vars.authResult`, `isAuthenticated`, `currentUser`, and `currentSession`
+ * or `currentApiKey` depending on how the request authenticated. While an
+ * administrator impersonates `currentUser`, `ctx.vars.impersonator` holds the
+ * administrator (the real actor).
+ * A renewed cookie session also gets its cookie re-issued with the new expiry.
+ */
+export function setAuthVars(ctx: Context, result: SessionAuthResult): void {
+  if (ctx.vars === undefined) ctx.vars = {};
+  ctx.vars.authResult = result as unknown as ParamsDictionary;
+  ctx.vars.isAuthenticated = result.isAuthenticated as unknown as ParamsDictionary;
+
+  if (result.isAuthenticated) {
+    ctx.vars.currentUser = result.user as unknown as ParamsDictionary;
+    if (result.session) ctx.vars.currentSession = result.session as unknown as ParamsDictionary;
+    if (result.apiKey) ctx.vars.currentApiKey = result.apiKey as unknown as ParamsDictionary;
+    if (result.impersonator) ctx.vars.impersonator = result.impersonator as unknown as ParamsDictionary;
+
+    const cookieToken = (ctx.request?.cookies as Record<string, string> | undefined)?.[SESSION_COOKIE];
+    if (result.session?.renewed && cookieToken) {
+      appendSetCookie(ctx, sessionCookie(cookieToken, new Date(result.session.expiresAt)));
+    }
+  }
+}
+
+/**
+ * Lifetime of a pending second-factor challenge issued after the password step
+ */
+export const TWO_FACTOR_CHALLENGE_TTL_MINUTES = parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL_MINUTES || "5", 10);
+
+/**
+ * Maximum number of wrong codes accepted for a single challenge
+ */
+export const TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS = 5;
+
+/**
+ * Issue a short-lived "pending 2FA" challenge instead of a session.
+ * Only the SHA-256 hash of the challenge token is stored.
+ */
+export async function createTwoFactorChallenge(
+  userId: string,
+  sessionDurationHours?: number
+): Promise<{ challengeToken: string; expiresAt: Date }> {
+  const challengeToken = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + TWO_FACTOR_CHALLENGE_TTL_MINUTES * 60 * 1000);
+
+  // Only one pending challenge per user
+  await db.twoFactorChallenge.deleteMany({
+    where: { userId },
+  });
+
+  await db.twoFactorChallenge.create({
+    data: {
+      userId,
+      tokenHash: hashToken(challengeToken),
+      sessionDurationHours: sessionDurationHours ?? 0,
+      expiresAt,
+    },
+  });
+
+  return { challengeToken, expiresAt };
+}
@@ -0,0 +1,396 @@
+import crypto from "crypto";
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test, vi } from "vitest";
+import {
+	clearOidcCaches,
+	completeAuthorization,
+	createAuthorizationRequest,
+	discoverIssuer,
+	getOidcProviders,
+	type OidcProviderConfig,
+	verifyIdToken,
+} from "../oidc";
+
+const CLIENT_ID = "blok-test-client";
+const CLIENT_SECRET = "blok-test-secret";
+const REDIRECT_URI = "http://localhost:4000/oauth-callback";
+
+type SigningKey = { kid: string; privateKey: crypto.KeyObject; jwk: crypto.JsonWebKey };
+
+type PendingCode = { clientId: string; redirectUri: string; nonce: string; codeChallenge: string };
+
+/**
+ * Minimal OpenID provider on 127.0.0.1: discovery, JWKS, an authorization
+ * endpoint that approves immediately, and a token endpoint that checks the
+ * client secret, redirect URI and PKCE verifier before issuing an RS256 ID token.
+ */
+function createMockIssuer() {
+	let issuer = "";
+	let signingKey = createSigningKey("key-1");
+	let claimOverrides: Record<string, unknown> = {};
+	const codes = new Map<string, PendingCode>();
+
+	function createSigningKey(kid: string): SigningKey {
+		const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+		return { kid, privateKey, jwk: { ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" } };
+	}
+
+	function signIdToken(claims: Record<string, unknown>, key: SigningKey = signingKey, alg = "RS256"): string {
+		const header = Buffer.from(JSON.stringify({ alg, typ: "JWT", kid: key.kid })).toString("base64url");
+		const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+		const signature = crypto.sign("sha256", Buffer.from(`${header}.${payload}`), key.privateKey);
+		return `${header}.${payload}.${signature.toString("base64url")}`;
+	}
+
+	function idTokenClaims(nonce: string): Record<string, unknown> {
+		const now = Math.floor(Date.now() / 1000);
+		return {
+			iss: issuer,
+			sub: "mock-user-1",
+			aud: CLIENT_ID,
+			iat: now,
+			exp: now + 300,
+			nonce,
+			email: "oidc.user@example.com",
+			email_verified: true,
+			name: "OIDC User",
+			...claimOverrides,
+		};
+	}
+
+	function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+		res.writeHead(status, { "Content-Type": "application/json" });
+		res.end(JSON.stringify(body));
+	}
+
+	const server = http.createServer((req, res) => {
+		const url = new URL(req.url || "/", issuer);
+
+		if (url.pathname === "/.well-known/openid-configuration") {
+			return sendJson(res, 200, {
+				issuer,
+				authorization_endpoint: `${issuer}/authorize`,
+				token_endpoint: `${issuer}/token`,
+				jwks_uri: `${issuer}/jwks`,
+				token_endpoint_auth_methods_supported: ["client_secret_basic"],
+				code_challenge_methods_supported: ["S256"],
+			});
+		}
+
+		if (url.pathname === "/jwks") {
+			return sendJson(res, 200, { keys: [signingKey.jwk] });
+		}
+
+		if (url.pathname === "/authorize") {
+			const code = crypto.randomBytes(16).toString("hex");
+			codes.set(code, {
+				clientId: url.searchParams.get("client_id") || "",
+				redirectUri: url.searchParams.get("redirect_uri") || "",
+				nonce: url.searchParams.get("nonce") || "",
+				codeChallenge: url.searchParams.get("code_challenge") || "",
+			});
+			const redirect = new URL(url.searchParams.get("redirect_uri") || "");
+			redirect.searchParams.set("code", code);
+			redirect.searchParams.set("state", url.searchParams.get("state") || "");
+			res.writeHead(302, { Location: redirect.toString() });
+			return res.end();
+		}
+
+		if (url.pathname === "/token" && req.method === "POST") {
+			let raw = "";
+			req.on("data", (chunk) => {
+				raw += chunk;
+			});
+			req.on("end", () => {
+				const form = new URLSearchParams(raw);
+				const expectedAuth = `Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString("base64")}`;
+				if (req.headers.authorization !== expectedAuth) {
+					return sendJson(res, 401, { error: "invalid_client" });
+				}
+
+				const pending = codes.get(form.get("code") || "");
+				codes.delete(form.get("code") || "");
+				const challenge = crypto
+					.createHash("sha256")
+					.update(form.get("code_verifier") || "")
+					.digest("base64url");
+				if (
+					!pending ||
+					pending.clientId !== form.get("client_id") ||
+					pending.redirectUri !== form.get("redirect_uri") ||
+					pending.codeChallenge !== challenge
+				) {
+					return sendJson(res, 400, { error: "invalid_grant", error_description: "Code verification failed" });
+				}
+
+				sendJson(res, 200, {
+					access_token: "mock-access-token",
+					token_type: "Bearer",
+					expires_in: 300,
+					id_token: signIdToken(idTokenClaims(pending.nonce)),
+				});
+			});
+			return;
+		}
+
+		sendJson(res, 404, { error: "not_found" });
+	});
+
+	return {
+		get issuer() {
+			return issuer;
+		},
+		async start() {
+			await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+			issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+		},
+		async stop() {
+			await new Promise<void>((resolve) => server.close(() => resolve()));
+		},
+		rotateKey(kid: string) {
+			signingKey = createSigningKey(kid);
+		},
+		setClaims(overrides: Record<string, unknown>) {
+			claimOverrides = overrides;
+		},
+		createSigningKey,
+		signIdToken,
+		idTokenClaims,
+	};
+}
+
+const mockIssuer = createMockIssuer();
+let provider: OidcProviderConfig;
+
+/**
+ * Follow the authorization URL the way a browser would and return the
+ * code and state the provider redirected back with
+ */
+async function authorize(authorizationUrl: string): Promise<{ code: string; state: string }> {
+	const response = await fetch(authorizationUrl, { redirect: "manual" });
+	const location = new URL(response.headers.get("location") || "");
+	return { code: location.searchParams.get("code") || "", state: location.searchParams.get("state") || "" };
+}
+
+beforeAll(async () => {
+	await mockIssuer.start();
+	provider = {
+		id: "mock",
+		name: "Mock",
+		issuer: mockIssuer.issuer,
+		clientId: CLIENT_ID,
+		clientSecret: CLIENT_SECRET,
+		scopes: ["openid", "email", "profile"],
+	};
+});
+
+afterAll(async () => {
+	await mockIssuer.stop();
+});
+
+beforeEach(() => {
+	clearOidcCaches();
+	mockIssuer.setClaims({});
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe("provider configuration", () => {
+	test("reads providers from the environment and skips incomplete ones", () => {
+		const providers = getOidcProviders({
+			OIDC_PROVIDERS: "acme, google,broken",
+			OIDC_ACME_ISSUER: "https://id.acme.test",
+			OIDC_ACME_CLIENT_ID: "acme-client",
+			OIDC_ACME_NAME: "Acme SSO",
+			OIDC_ACME_SCOPES: "openid,email",
+			OIDC_GOOGLE_ISSUER: "https://accounts.google.com",
+			OIDC_GOOGLE_CLIENT_ID: "google-client",
+			OIDC_GOOGLE_CLIENT_SECRET: "google-secret",
+			OIDC_BROKEN_ISSUER: "https://broken.test",
+		});
+
+		expect(providers).toEqual([
+			{
+				id: "acme",
+				name: "Acme SSO",
+				issuer: "https://id.acme.test",
+				clientId: "acme-client",
+				clientSecret: undefined,
+				scopes: ["openid", "email"],
+			},
+			{
+				id: "google",
+				name: "Google",
+				issuer: "https://accounts.google.com",
+				clientId: "google-client",
+				clientSecret: "google-secret",
+				scopes: ["openid", "email", "profile"],
+			},
+		]);
+	});
+});
+
+describe("discovery", () => {
+	test("loads the provider endpoints from the discovery document", async () => {
+		const discovery = await discoverIssuer(mockIssuer.issuer);
+
+		expect(discovery.issuer).toEqual(mockIssuer.issuer);
+		expect(discovery.token_endpoint).toEqual(`${mockIssuer.issuer}/token`);
+		expect(discovery.jwks_uri).toEqual(`${mockIssuer.issuer}/jwks`);
+	});
+
+	test("rejects a document published for a different issuer", async () => {
+		await expect(discoverIssuer(`${mockIssuer.issuer}/`)).rejects.toThrow("does not match");
+	});
+
+	test("requires HTTPS for remote issuers", async () => {
+		await expect(discoverIssuer("http://id.example.com")).rejects.toThrow("must use HTTPS");
+	});
+});
+
+describe("authorization code flow", () => {
+	test("sends state, nonce and an S256 PKCE challenge", async () => {
+		const request = await createAuthorizationRequest(provider, REDIRECT_URI);
+		const url = new URL(request.authorizationUrl);
+
+		expect(url.origin + url.pathname).toEqual(`${mockIssuer.issuer}/authorize`);
+		expect(url.searchParams.get("response_type")).toEqual("code");
+		expect(url.searchParams.get("client_id")).toEqual(CLIENT_ID);
+		expect(url.searchParams.get("redirect_uri")).toEqual(REDIRECT_URI);
+		expect(url.searchParams.get("scope")).toEqual("openid email profile");
+		expect(url.searchParams.get("state")).toEqual(request.state);
+		expect(url.searchParams.get("nonce")).toEqual(request.nonce);
+		expect(url.searchParams.get("code_challenge_method")).toEqual("S256");
+		expect(url.searchParams.get("code_challenge")).toEqual(
+			crypto.createHash("sha256").update(request.codeVerifier).digest("base64url")
+		);
+	});
+
+	test("redeems the code and returns the verified ID token claims", async () => {
+		const request = await createAuthorizationRequest(provider, REDIRECT_URI);
+		const { code, state } = await authorize(request.authorizationUrl);
+		expect(state).toEqual(request.state);
+
+		const claims = await completeAuthorization(provider, {
+			code,
+			redirectUri: REDIRECT_URI,
+			codeVerifier: request.codeVerifier,
+			nonce: request.nonce,
+		});
+
+		expect(claims.iss).toEqual(mockIssuer.issuer);
+		expect(claims.sub).toEqual("mock-user-1");
+		expect(claims.email).toEqual("oidc.user@example.com");
+		expect(claims.email_verified).toBe(true);
+	});
+
+	test("fails when the PKCE verifier does not match the challenge", async () => {
+		const request = await createAuthorizationRequest(provider, REDIRECT_URI);
+		const { code } = await authorize(request.authorizationUrl);
+
+		await expect(
+			completeAuthorization(provider, {
+				code,
+				redirectUri: REDIRECT_URI,
+				codeVerifier: "a-different-verifier",
+				nonce: request.nonce,
+			})
+		).rejects.toThrow("Code verification failed");
+	});
+
+	test("fails with the wrong client secret", async () => {
+		const request = await createAuthorizationRequest(provider, REDIRECT_URI);
+		const { code } = await authorize(request.authorizationUrl);
+
+		await expect(
+			completeAuthorization(
+				{ ...provider, clientSecret: "wrong-secret" },
+				{ code, redirectUri: REDIRECT_URI, codeVerifier: request.codeVerifier, nonce: request.nonce }
+			)
+		).rejects.toThrow("invalid_client");
+	});
+
+	test("rejects an ID token minted for another sign-in", async () => {
+		const request = await createAuthorizationRequest(provider, REDIRECT_URI);
+		const { code } = await authorize(request.authorizationUrl);
+
+		await expect(
+			completeAuthorization(provider, {
+				code,
+				redirectUri: REDIRECT_URI,
+				codeVerifier: request.codeVerifier,
+				nonce: "nonce-from-another-browser",
+			})
+		).rejects.toThrow("nonce does not match");
+	});
+});
+
+describe("ID token verification", () => {
+	const expected = () => ({
+		issuer: mockIssuer.issuer,
+		clientId: CLIENT_ID,
+		nonce: "test-nonce",
+		jwksUri: `${mockIssuer.issuer}/jwks`,
+	});
+
+	test("accepts a token signed with the published key", async () => {
+		const claims = await verifyIdToken(mockIssuer.signIdToken(mockIssuer.idTokenClaims("test-nonce")), expected());
+		expect(claims.sub).toEqual("mock-user-1");
+	});
+
+	test("rejects a token for another audience", async () => {
+		mockIssuer.setClaims({ aud: "someone-else" });
+		const token = mockIssuer.signIdToken(mockIssuer.idTokenClaims("test-nonce"));
+		await expect(verifyIdToken(token, expected())).rejects.toThrow("different client");
+	});
+
+	test("rejects a token from another issuer", async () => {
+		mockIssuer.setClaims({ iss: "https://evil.example.com" });
+		const token = mockIssuer.signIdToken(mockIssuer.idTokenClaims("test-nonce"));
+		await expect(verifyIdToken(token, expected())).rejects.toThrow("different issuer");
+	});
+
+	test("rejects an expired token", async () => {
+		const now = Math.floor(Date.now() / 1000);
+		mockIssuer.setClaims({ iat: now - 600, exp: now - 300 });
+		const token = mockIssuer.signIdToken(mockIssuer.idTokenClaims("test-nonce"));
+		await expect(verifyIdToken(token, expected())).rejects.toThrow("expired");
+	});
+
+	test("rejects a tampered payload", async () => {
+		const [header, , signature] = mockIssuer.signIdToken(mockIssuer.idTokenClaims("test-nonce")).split(".");
+		const forged = Buffer.from(JSON.stringify({ ...mockIssuer.idTokenClaims("test-nonce"), sub: "admin" })).toString(
+			"base64url"
+		);
+		await expect(verifyIdToken(`${header}.${forged}.${signature}`, expected())).rejects.toThrow("signature");
+	});
+
+	test("rejects a token signed by a key the issuer never published", async () => {
+		const rogueKey = mockIssuer.createSigningKey("key-1");
+		const token = mockIssuer.signIdToken(mockIssuer.idTokenClaims("test-nonce"), rogueKey);
+		await expect(verifyIdToken(token, expected())).rejects.toThrow("signature");
+	});
+
+	test("rejects unsigned and shared-secret tokens", async () => {
+		const payload = Buffer.from(JSON.stringify(mockIssuer.idTokenClaims("test-nonce"))).toString("base64url");
+		const none = `${Buffer.from(JSON.stringify({ alg: "none" })).toString("base64url")}.${payload}.`;
+		const hs256 = `${Buffer.from(JSON.stringify({ alg: "HS256", kid: "key-1" })).toString("base64url")}.${payload}.c2ln`;
+
+		await expect(verifyIdToken(none, expected())).rejects.toThrow("Unsupported ID token algorithm");
+		await expect(verifyIdToken(hs256, expected())).rejects.toThrow("Unsupported ID token algorithm");
+	});
+
+	test("picks up rotated keys from the JWKS", async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		await verifyIdToken(mockIssuer.signIdToken(mockIssuer.idTokenClaims("test-nonce")), expected());
+
+		mockIssuer.rotateKey("key-2");
+		vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+
+		const claims = await verifyIdToken(mockIssuer.signIdToken(mockIssuer.idTokenClaims("test-nonce")), expected());
+		expect(claims.sub).toEqual("mock-user-1");
+	});
+});
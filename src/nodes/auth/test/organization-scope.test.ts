@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+type UserCountWhere = { AND: [{ id: string }, { memberships?: { some: { organizationId: string } }; id?: string }] };
+
+// In-memory users (by platform role) and memberships
+const data = vi.hoisted(() => {
+	const users = new Map<string, string>();
+	const memberships: Array<{ userId: string; organizationId: string }> = [];
+	return {
+		users,
+		memberships,
+		db: {
+			user: {
+				findUnique: async ({ where }: { where: { id: string } }) =>
+					users.has(where.id) ? { role: users.get(where.id) } : null,
+				count: async ({ where }: { where: UserCountWhere }) => {
+					const [{ id }, scope] = where.AND;
+					if (!users.has(id)) return 0;
+					if (scope.id !== undefined) return scope.id === id ? 1 : 0;
+					const organizationId = scope.memberships?.some.organizationId;
+					return memberships.some((m) => m.userId === id && m.organizationId === organizationId) ? 1 : 0;
+				},
+			},
+			membership: {
+				count: async ({ where }: { where: { userId: string; organizationId: { not: string } } }) =>
+					memberships.filter((m) => m.userId === where.userId && m.organizationId !== where.organizationId.not).length,
+			},
+		},
+	};
+});
+
+vi.mock("../../../../database/config", () => ({ db: data.db }));
+
+import { canManageAccount } from "../organization-scope";
+
+function addUser(id: string, role: string, organizations: string[]) {
+	data.users.set(id, role);
+	for (const organizationId of organizations) data.memberships.push({ userId: id, organizationId });
+}
+
+const orgAdmin = { userId: "org-admin", organizationId: "org-a" };
+
+describe("canManageAccount", () => {
+	beforeEach(() => {
+		data.users.clear();
+		data.memberships.length = 0;
+		addUser("org-admin", "USER", ["org-a"]);
+		addUser("platform-admin", "ADMIN", ["org-a", "org-b"]);
+		addUser("only-here", "USER", ["org-a"]);
+		addUser("also-elsewhere", "USER", ["org-a", "org-b"]);
+		addUser("outsider", "USER", ["org-b"]);
+	});
+
+	test("lets an organization administrator manage users who only belong to their organization", async () => {
+		expect(await canManageAccount(orgAdmin, "only-here")).toBe(true);
+	});
+
+	test("keeps organization administrators away from accounts shared with other organizations", async () => {
+		expect(await canManageAccount(orgAdmin, "also-elsewhere")).toBe(false);
+		expect(await canManageAccount(orgAdmin, "outsider")).toBe(false);
+	});
+
+	test("keeps organization administrators away from platform administrators", async () => {
+		expect(await canManageAccount(orgAdmin, "platform-admin")).toBe(false);
+
+		data.memberships.splice(data.memberships.findIndex((m) => m.userId === "platform-admin" && m.organizationId === "org-b"), 1);
+		expect(await canManageAccount(orgAdmin, "platform-admin")).toBe(false);
+	});
+
+	test("lets platform administrators manage any account in scope", async () => {
+		const platformAdmin = { userId: "platform-admin", organizationId: "org-a" };
+		expect(await canManageAccount(platformAdmin, "also-elsewhere")).toBe(true);
+		expect(await canManageAccount(platformAdmin, "outsider")).toBe(false);
+	});
+
+	test("always allows users their own account and steps without a current user", async () => {
+		expect(await canManageAccount({ userId: "also-elsewhere", organizationId: "org-a" }, "also-elsewhere")).toBe(true);
+		expect(await canManageAccount({ userId: null, organizationId: null }, "platform-admin")).toBe(true);
+	});
+});
@@ -0,0 +1,245 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+  type ParamsDictionary,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { db } from '../../../../database/config';
+import { type SecondFactorResult, verifySecondFactor } from '../../security/two-factor-auth/second-factor';
+import type { AuthenticationResponseJSON } from '../../security/two-factor-auth/webauthn';
+import { verifyPasskeySecondFactor } from '../passkeys';
+import {
+  type CreatedSessionType,
+  type LoggedInUserType,
+  TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS,
+  createUserSession,
+  hashToken,
+} from '../sessions';
+
+type TwoFactorLoginInputType = {
+  challengeToken: string;
+  code?: string;
+  assertion?: AuthenticationResponseJSON;
+};
+
+type TwoFactorLoginOutputType = {
+  success: boolean;
+  user?: LoggedInUserType;
+  session?: CreatedSessionType;
+  method?: string;
+  codesRemaining?: number;
+  challengeExpired?: boolean;
+  message: string;
+  statusCode: number;
+};
+
+/**
+ * Two-Factor Login Node
+ *
+ * Second step of the login flow: exchanges the challenge issued by `user-login`
+ * plus a TOTP or backup code, or a passkey assertion, for a real session cookie.
+ */
+export default class TwoFactorLogin extends NanoService<TwoFactorLoginInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        challengeToken: {
+          type: "string",
+          minLength: 1,
+          description: "Challenge token returned by auth-login when twoFactorRequired is true"
+        },
+        code: {
+          type: "string",
+          minLength: 1,
+          description: "TOTP code from the authenticator app or a backup code"
+        },
+        assertion: {
+          type: "object",
+          description: "Passkey assertion for options from the passkeys secondFactorOptions action (instead of code)"
+        }
+      },
+      required: ["challengeToken"]
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        success: {
+          type: "boolean",
+          description: "Whether the login was completed"
+        },
+        user: {
+          type: "object",
+          description: "Logged in user information (only present on success)",
+          properties: {
+            id: { type: "string", description: "Unique user identifier" },
+            email: { type: "string", format: "email", description: "User's email address" },
+            name: { type: "string", description: "User's full name" },
+            role: { type: "string", description: "User's role" },
+            emailVerified: { type: "boolean", description: "Whether user's email is verified" }
+          },
+          required: ["id", "email", "name", "role", "emailVerified"]
+        },
+        session: {
+          type: "object",
+          description: "Created session information (only present on success)",
+          properties: {
+            id: { type: "string", description: "Unique session identifier" },
+            token: { type: "string", description: "Session token" },
+            expiresAt: { type: "string", format: "date-time", description: "Session expiration timestamp" }
+          },
+          required: ["id", "token", "expiresAt"]
+        },
+        method: {
+          type: "string",
+          enum: ["totp", "backup_code", "passkey"],
+          description: "Second factor that was used"
+        },
+        codesRemaining: {
+          type: "number",
+          description: "Backup codes left (only present when a backup code was used)"
+        },
+        challengeExpired: {
+          type: "boolean",
+          description: "Whether the challenge is no longer usable and the password step must be repeated"
+        },
+        message: {
+          type: "string",
+          description: "Human-readable result message"
+        },
+        statusCode: {
+          type: "number",
+          description: "HTTP status code",
+          enum: [200, 400, 401, 500]
+        }
+      },
+      required: ["success", "message", "statusCode"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: TwoFactorLoginInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      if (!inputs.challengeToken || typeof inputs.challengeToken !== 'string') {
+        return this.fail(ctx, response, 'Challenge token is required', 400);
+      }
+
+      if (!inputs.assertion && (!inputs.code || typeof inputs.code !== 'string')) {
+        return this.fail(ctx, response, 'Verification code is required', 400);
+      }
+
+      const challenge = await db.twoFactorChallenge.findUnique({
+        where: {
+          tokenHash: hashToken(inputs.challengeToken)
+        },
+        include: {
+          user: true
+        }
+      });
+
+      if (!challenge || challenge.expiresAt < new Date()) {
+        if (challenge) {
+          await db.twoFactorChallenge.delete({ where: { id: challenge.id } });
+        }
+        return this.fail(ctx, response, 'Login challenge expired. Please sign in again.', 401, true);
+      }
+
+      // Count the attempt before checking the code, so concurrent guesses cannot exceed the limit
+      const counted = await db.twoFactorChallenge.updateMany({
+        where: { id: challenge.id, attempts: { lt: TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS } },
+        data: { attempts: { increment: 1 } }
+      });
+      if (counted.count === 0) {
+        await db.twoFactorChallenge.deleteMany({ where: { id: challenge.id } });
+        return this.fail(ctx, response, 'Too many invalid codes. Please sign in again.', 401, true);
+      }
+
+      const verification: SecondFactorResult = inputs.assertion
+        ? await verifyPasskeySecondFactor(challenge.user.id, inputs.assertion)
+        : await verifySecondFactor(challenge.user, inputs.code || '');
+
+      if (!verification.verified) {
+        // The last allowed wrong code invalidates the challenge and forces a new password step
+        if (challenge.attempts + 1 >= TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS) {
+          await db.twoFactorChallenge.deleteMany({ where: { id: challenge.id } });
+          return this.fail(ctx, response, 'Too many invalid codes. Please sign in again.', 401, true);
+        }
+
+        return this.fail(ctx, response, verification.reason || 'Invalid 2FA code', 401);
+      }
+
+      // Challenges are single-use; deleteMany keeps a concurrent request from reusing it
+      const consumed = await db.twoFactorChallenge.deleteMany({
+        where: { id: challenge.id }
+      });
+      if (consumed.count === 0) {
+        return this.fail(ctx, response, 'Login challenge expired. Please sign in again.', 401, true);
+      }
+
+      const { user: userData, session: sessionData } = await createUserSession(
+        ctx,
+        challenge.user,
+        challenge.sessionDurationHours
+      );
+
+      const result: TwoFactorLoginOutputType = {
+        success: true,
+        user: userData,
+        session: sessionData,
+        method: verification.method,
+        codesRemaining: verification.codesRemaining,
+        message: 'Login successful',
+        statusCode: 200
+      };
+
+      if (ctx.vars === undefined) ctx.vars = {};
+      ctx.vars.loginResult = result as unknown as ParamsDictionary;
+
+      ctx.logger.log(`User completed two-factor login: ${userData.email} (${verification.method})`);
+      response.setSuccess(result as unknown as JsonLikeObject);
+
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(
+        error instanceof Error ? error.message : "Two-factor login failed"
+      );
+      nodeError.setCode(500);
+      response.setError(nodeError);
+
+      ctx.logger.error('Two-factor login error:', error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+
+  /**
+   * Respond with a handled failure (same shape as `user-login` failures)
+   */
+  private fail(
+    ctx: Context,
+    response: NanoServiceResponse,
+    message: string,
+    statusCode: number,
+    challengeExpired = false
+  ): NanoServiceResponse {
+    const result: TwoFactorLoginOutputType = {
+      success: false,
+      challengeExpired,
+      message,
+      statusCode
+    };
+
+    if (ctx.vars === undefined) ctx.vars = {};
+    ctx.vars.loginResult = result as unknown as ParamsDictionary;
+
+    response.setSuccess(result as unknown as JsonLikeObject);
+    return response;
+  }
+}
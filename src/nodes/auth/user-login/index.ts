@@ -6,38 +6,44 @@ import {
   type ParamsDictionary,
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
-import * as bcrypt from 'bcryptjs';
 import { db } from '../../../../database/config';
+import {
+  checkLoginAllowed,
+  lockoutStateSelect,
+  recordLoginAttempt,
+  registerFailedPassword,
+  resetLoginFailures,
+} from '../login-lockout';
+import { EMAIL_NOT_VERIFIED_CODE, isLoginAllowed } from '../email-verification-policy';
+import { rehashPasswordIfNeeded, verifyPassword } from '../passwords';
+import {
+  type CreatedSessionType,
+  type LoggedInUserType,
+  type RequestClient,
+  type RequestHeaders,
+  clientIp,
+  createTwoFactorChallenge,
+  createUserSession,
+  header,
+} from '../sessions';
 
 type UserLoginInputType = {
   email: string;
   password: string;
-  sessionDurationHours?: number; // Default: 1 hour
-};
-
-type LoggedInUserType = {
-  id: string;
-  email: string;
-  name: string;
-  role: string;
-  emailVerified: boolean;
-  profileImage: string | null;
-  preferences: Record<string, any>;
-  twoFactorEnabled: boolean;
-  createdAt: string;
-  updatedAt: string;
-};
-
-type CreatedSessionType = {
-  id: string;
-  token: string;
-  expiresAt: string;
+  sessionDurationHours?: number; // Idle timeout, default: SESSION_IDLE_TIMEOUT_MINUTES
 };
 
 type UserLoginOutputType = {
   success: boolean;
   user?: LoggedInUserType;
   session?: CreatedSessionType;
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+  challengeExpiresAt?: string;
+  lockedUntil?: string;
+  retryAfter?: number;
+  emailVerificationRequired?: boolean;
+  code?: string;
   message: string;
   statusCode: number;
 };
@@ -64,8 +70,7 @@ export default class UserLogin extends NanoService<UserLoginInputType> {
           type: "number",
           minimum: 1,
           maximum: 168, // 7 days max
-          default: 1,
-          description: "Session duration in hours (default: 1)"
+          description: "Session idle timeout in hours (default: SESSION_IDLE_TIMEOUT_MINUTES)"
         }
       },
       required: ["email", "password"]
@@ -99,12 +104,24 @@ export default class UserLogin extends NanoService<UserLoginInputType> {
             },
             role: {
               type: "string",
-              enum: ["admin", "user"],
-              description: "User's role"
+              description: "User's role in the active organization (ADMIN, USER or a custom role)"
             },
             emailVerified: {
               type: "boolean",
               description: "Whether user's email is verified"
+            },
+            organizationId: {
+              type: ["string", "null"],
+              description: "Active organization of the new session"
+            },
+            permissions: {
+              type: "array",
+              items: { type: "string" },
+              description: "Permissions granted by the user's role"
+            },
+            passwordExpired: {
+              type: "boolean",
+              description: "Whether the password is older than PASSWORD_MAX_AGE_DAYS and must be changed before anything else"
             }
           },
           required: ["id", "email", "name", "role", "emailVerified"]
@@ -129,6 +146,36 @@ export default class UserLogin extends NanoService<UserLoginInputType> {
           },
           required: ["id", "token", "expiresAt"]
         },
+        twoFactorRequired: {
+          type: "boolean",
+          description: "Whether a second factor is required to complete the login"
+        },
+        challengeToken: {
+          type: "string",
+          description: "Short-lived challenge to exchange for a session via auth-2fa-verify (only present when twoFactorRequired)"
+        },
+        challengeExpiresAt: {
+          type: "string",
+          format: "date-time",
+          description: "Challenge expiration timestamp"
+        },
+        lockedUntil: {
+          type: "string",
+          format: "date-time",
+          description: "End of the account lockout (only present with status 423)"
+        },
+        retryAfter: {
+          type: "number",
+          description: "Seconds to wait before the next attempt (only present with status 423 or 429)"
+        },
+        emailVerificationRequired: {
+          type: "boolean",
+          description: "The password was correct but the email address must be verified first (EMAIL_VERIFICATION_POLICY=block)"
+        },
+        code: {
+          type: "string",
+          description: "Machine-readable reason for a refused login, e.g. EMAIL_NOT_VERIFIED"
+        },
         message: {
           type: "string",
           description: "Human-readable result message"
@@ -136,7 +183,7 @@ export default class UserLogin extends NanoService<UserLoginInputType> {
         statusCode: {
           type: "number",
           description: "HTTP status code",
-          enum: [200, 400, 401, 500]
+          enum: [200, 202, 400, 401, 403, 423, 429, 500]
         }
       },
       required: ["success", "message", "statusCode"]
@@ -189,12 +236,48 @@ export default class UserLogin extends NanoService<UserLoginInputType> {
           profileImage: true,
           preferences: true,
           twoFactorEnabled: true,
+          lastOrganizationId: true,
+          passwordChangedAt: true,
           createdAt: true,
-          updatedAt: true
+          updatedAt: true,
+          ...lockoutStateSelect
         }
       });
 
+      const headers = ctx.request?.headers as RequestHeaders | undefined;
+      const client = {
+        ipAddress: clientIp(ctx.request as RequestClient | undefined),
+        userAgent: header(headers, 'user-agent'),
+      };
+
+      // Locked accounts, back-off periods and blocked IPs are refused before the password is checked
+      const block = await checkLoginAllowed(client, user);
+      if (block) {
+        await recordLoginAttempt(inputs.email.toLowerCase(), client, {
+          userId: user?.id,
+          success: false,
+          reason: block.reason,
+        });
+
+        const result: UserLoginOutputType = {
+          success: false,
+          message: block.message,
+          statusCode: block.statusCode,
+          retryAfter: block.retryAfter,
+          ...(block.lockedUntil ? { lockedUntil: block.lockedUntil } : {})
+        };
+
+        if (ctx.vars === undefined) ctx.vars = {};
+        ctx.vars.loginResult = result as unknown as ParamsDictionary;
+
+        ctx.logger.log(`Login refused for ${inputs.email} (${block.reason})`);
+        response.setSuccess(result as unknown as JsonLikeObject);
+        return response;
+      }
+
       if (!user) {
+        await recordLoginAttempt(inputs.email.toLowerCase(), client, { success: false, reason: 'unknown-user' });
+
         const result: UserLoginOutputType = {
           success: false,
           message: 'Invalid email or password',
@@ -209,9 +292,12 @@ export default class UserLogin extends NanoService<UserLoginInputType> {
       }
 
       // Verify password
-      const isPasswordValid = await bcrypt.compare(inputs.password, user.passwordHash);
+      const isPasswordValid = await verifyPassword(inputs.password, user.passwordHash);
 
       if (!isPasswordValid) {
+        await recordLoginAttempt(user.email, client, { userId: user.id, success: false, reason: 'invalid-password' });
+        const lockedUntil = await registerFailedPassword(user, client);
+
         const result: UserLoginOutputType = {
           success: false,
           message: 'Invalid email or password',
@@ -220,66 +306,72 @@ export default class UserLogin extends NanoService<UserLoginInputType> {
 
         if (ctx.vars === undefined) ctx.vars = {};
         ctx.vars.loginResult = result as unknown as ParamsDictionary;
+
+        // Picked up by the login workflow to send the account-locked email
+        if (lockedUntil) {
+          ctx.vars.accountLockedNotice = {
+            email: user.email,
+            userName: user.name,
+            lockedUntil: lockedUntil.toISOString(),
+            lockReason: `Too many failed login attempts. The account is locked until ${lockedUntil.toUTCString()}.`
+          } as unknown as ParamsDictionary;
+          ctx.logger.log(`Account locked after repeated failed logins: ${user.email} (until ${lockedUntil.toISOString()})`);
+        }
         
         response.setSuccess(result as unknown as JsonLikeObject);
         return response;
       }
 
-      // Generate session token (using crypto.randomUUID + timestamp for uniqueness)
-      const sessionToken = `${crypto.randomUUID()}-${Date.now()}`;
-      
-      // Calculate session expiration
-      const sessionDurationHours = inputs.sessionDurationHours || 1;
-      const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + sessionDurationHours);
-
-      // Create session
-      const session = await db.session.create({
-        data: {
-          userId: user.id,
-          token: sessionToken,
-          expiresAt: expiresAt
-        },
-        select: {
-          id: true,
-          token: true,
-          expiresAt: true
-        }
-      });
+      await recordLoginAttempt(user.email, client, { userId: user.id, success: true });
+      await resetLoginFailures(user);
 
-      if (!session) {
-        throw new Error('Failed to create session');
+      // Upgrade the stored hash while the plaintext is at hand
+      if (await rehashPasswordIfNeeded(user.id, inputs.password, user.passwordHash)) {
+        ctx.logger.log(`Password hash upgraded for ${user.email}`);
       }
 
-      // Parse preferences JSON if it exists
-      let parsedPreferences = {};
-      if (user.preferences) {
-        try {
-          parsedPreferences = JSON.parse(user.preferences);
-        } catch (e) {
-          console.warn('Failed to parse user preferences during login:', e);
-          parsedPreferences = {};
-        }
+      // Checked after the password so the response doesn't reveal unverified accounts
+      if (!isLoginAllowed(user.emailVerified)) {
+        const result: UserLoginOutputType = {
+          success: false,
+          emailVerificationRequired: true,
+          code: EMAIL_NOT_VERIFIED_CODE,
+          message: 'Please verify your email address before signing in. Check your inbox for the verification link.',
+          statusCode: 403
+        };
+
+        if (ctx.vars === undefined) ctx.vars = {};
+        ctx.vars.loginResult = result as unknown as ParamsDictionary;
+
+        ctx.logger.log(`Login refused for ${user.email} (email not verified)`);
+        response.setSuccess(result as unknown as JsonLikeObject);
+        return response;
       }
 
-      const userData: LoggedInUserType = {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        emailVerified: user.emailVerified,
-        profileImage: user.profileImage,
-        preferences: parsedPreferences,
-        twoFactorEnabled: user.twoFactorEnabled || false,
-        createdAt: user.createdAt.toISOString(),
-        updatedAt: user.updatedAt.toISOString()
-      };
+      const sessionDurationHours = inputs.sessionDurationHours;
 
-      const sessionData: CreatedSessionType = {
-        id: session.id,
-        token: session.token,
-        expiresAt: session.expiresAt.toISOString()
-      };
+      // Password is correct but a second factor is required: no session yet
+      if (user.twoFactorEnabled) {
+        const challenge = await createTwoFactorChallenge(user.id, sessionDurationHours);
+
+        const result: UserLoginOutputType = {
+          success: false,
+          twoFactorRequired: true,
+          challengeToken: challenge.challengeToken,
+          challengeExpiresAt: challenge.expiresAt.toISOString(),
+          message: 'Two-factor authentication required',
+          statusCode: 202
+        };
+
+        if (ctx.vars === undefined) ctx.vars = {};
+        ctx.vars.loginResult = result as unknown as ParamsDictionary;
+
+        ctx.logger.log(`Password verified for ${user.email}, awaiting second factor`);
+        response.setSuccess(result as unknown as JsonLikeObject);
+        return response;
+      }
+
+      const { user: userData, session: sessionData } = await createUserSession(ctx, user, sessionDurationHours);
 
       const result: UserLoginOutputType = {
         success: true,
@@ -292,18 +384,8 @@ export default class UserLogin extends NanoService<UserLoginInputType> {
       // Store result in context
       if (ctx.vars === undefined) ctx.vars = {};
       ctx.vars.loginResult = result as unknown as ParamsDictionary;
-      ctx.vars.currentUser = userData as unknown as ParamsDictionary;
-      ctx.vars.currentSession = sessionData as unknown as ParamsDictionary;
-
-      // Set HTTP-only session cookie via context response
-      const cookieExpires = new Date(expiresAt.getTime()).toUTCString();
-      const sessionCookie = `blok_session_token=${sessionToken}; HttpOnly; Secure=${process.env.NODE_ENV === 'production'}; SameSite=Lax; Path=/; Expires=${cookieExpires}`;
-      
-      // Store cookie information in context for HttpTrigger to set
-      if (ctx.vars === undefined) ctx.vars = {};
-      ctx.vars.setCookieHeader = sessionCookie as unknown as ParamsDictionary;
 
-      ctx.logger.log(`User logged in successfully: ${user.email} (session expires: ${expiresAt.toISOString()})`);
+      ctx.logger.log(`User logged in successfully: ${user.email} (session expires: ${sessionData.expiresAt})`);
       response.setSuccess(result as unknown as JsonLikeObject);
 
     } catch (error: unknown) {
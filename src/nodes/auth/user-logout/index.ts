@@ -7,6 +7,8 @@ import {
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import { db } from '../../../../database/config';
+import { revokeAllRefreshTokens, revokeRefreshToken, revokeRefreshTokensForSessions } from '../refresh-tokens';
+import { REFRESH_TOKEN_COOKIE, appendSetCookie, clearedAuthCookies } from '../sessions';
 
 type UserLogoutInputType = {
   sessionToken?: string;
@@ -117,6 +119,7 @@ export default class UserLogout extends NanoService<UserLogoutInputType> {
         });
 
         sessionsDestroyed = deleteResult.count;
+        await revokeAllRefreshTokens(inputs.userId);
 
         const result: UserLogoutOutputType = {
           success: true,
@@ -142,7 +145,15 @@ export default class UserLogout extends NanoService<UserLogoutInputType> {
         }
       }
 
+      // The refresh token must not outlive the logout, even if the session already expired
+      const refreshToken = inputs.cookies?.[REFRESH_TOKEN_COOKIE];
+      if (refreshToken) {
+        await revokeRefreshToken(refreshToken);
+      }
+
       if (!sessionToken) {
+        appendSetCookie(ctx, ...clearedAuthCookies());
+
         const result: UserLogoutOutputType = {
           success: false,
           message: 'No session token provided',
@@ -160,7 +171,7 @@ export default class UserLogout extends NanoService<UserLogoutInputType> {
       ctx.logger.log('Attempting to logout session');
 
       // Find and delete the specific session
-      const deletedSession = await db.session.delete({
+      const deletedSession = await db.session.findUnique({
         where: {
           token: sessionToken
         },
@@ -171,6 +182,8 @@ export default class UserLogout extends NanoService<UserLogoutInputType> {
       });
 
       if (!deletedSession) {
+        appendSetCookie(ctx, ...clearedAuthCookies());
+
         const result: UserLogoutOutputType = {
           success: false,
           message: 'Session not found or already expired',
@@ -185,6 +198,13 @@ export default class UserLogout extends NanoService<UserLogoutInputType> {
         return response;
       }
 
+      await revokeRefreshTokensForSessions([deletedSession.id]);
+      await db.session.delete({
+        where: {
+          id: deletedSession.id
+        }
+      });
+
       sessionsDestroyed = 1;
 
       const result: UserLogoutOutputType = {
@@ -200,9 +220,8 @@ export default class UserLogout extends NanoService<UserLogoutInputType> {
       ctx.vars.sessionsDestroyed = sessionsDestroyed as unknown as ParamsDictionary;
       ctx.vars.loggedOutUserId = deletedSession.userId as unknown as ParamsDictionary;
 
-      // Clear session cookie by setting expired cookie
-      const expiredCookie = `blok_session_token=; HttpOnly; Secure=${process.env.NODE_ENV === 'production'}; SameSite=Lax; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT`;
-      ctx.vars.setCookieHeader = expiredCookie as unknown as ParamsDictionary;
+      // Clear session and refresh token cookies by setting expired cookies
+      appendSetCookie(ctx, ...clearedAuthCookies());
 
       ctx.logger.log(`Session destroyed successfully for user: ${deletedSession.userId}`);
       response.setSuccess(result as unknown as JsonLikeObject);
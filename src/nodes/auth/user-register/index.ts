@@ -6,8 +6,9 @@ import {
   type ParamsDictionary,
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
-import * as bcrypt from 'bcryptjs';
 import { db } from '../../../../database/config';
+import { addMember, ensureDefaultMembership } from '../organizations';
+import { hashPassword } from '../passwords';
 
 type UserRegisterInputType = {
   email: string;
@@ -67,8 +68,7 @@ export default class UserRegister extends NanoService<UserRegisterInputType> {
           type: "number",
           minimum: 10,
           maximum: 15,
-          default: 12,
-          description: "BCrypt salt rounds (default: 12)"
+          description: "BCrypt salt rounds (default: PASSWORD_BCRYPT_ROUNDS)"
         }
       },
       required: ["email", "password", "name"]
@@ -221,8 +221,17 @@ export default class UserRegister extends NanoService<UserRegisterInputType> {
       }
 
       // Hash the password
-      const saltRounds = inputs.saltRounds || 12;
-      const hashedPassword = await bcrypt.hash(inputs.password, saltRounds);
+      const hashedPassword = await hashPassword(inputs.password, { bcryptRounds: inputs.saltRounds });
+
+      // Users created by an administrator join the administrator's active
+      // organization, and the requested role applies to that organization only.
+      // Only callers allowed to manage roles may ask for one (public sign-ups can't)
+      const currentUser = ctx.vars?.currentUser as unknown as
+        | { organizationId?: string | null; permissions?: string[] }
+        | undefined;
+      const canAssignRole = !!currentUser?.permissions?.includes('roles:manage');
+      const role = canAssignRole && inputs.role === 'admin' ? 'ADMIN' : 'USER';
+      const organizationId = currentUser?.organizationId;
 
       // Create new user
       const createdUser = await db.user.create({
@@ -230,7 +239,7 @@ export default class UserRegister extends NanoService<UserRegisterInputType> {
           email: inputs.email.toLowerCase(),
           passwordHash: hashedPassword,
           name: inputs.name.trim(),
-          role: inputs.role === 'admin' ? 'ADMIN' : 'USER',
+          role: organizationId ? 'USER' : role,
           emailVerified: false
         },
         select: {
@@ -247,11 +256,17 @@ export default class UserRegister extends NanoService<UserRegisterInputType> {
         throw new Error('Failed to create user');
       }
 
+      if (organizationId) {
+        await addMember(organizationId, createdUser.id, role);
+      } else {
+        await ensureDefaultMembership(createdUser);
+      }
+
       const userData: CreatedUserType = {
         id: createdUser.id,
         email: createdUser.email,
         name: createdUser.name,
-        role: createdUser.role,
+        role,
         emailVerified: createdUser.emailVerified,
         createdAt: createdUser.createdAt.toISOString()
       };
@@ -0,0 +1,212 @@
+import { db } from "../../../database/config";
+import SystemActionLogger, { ActionType, LogRiskLevel, ResourceType } from "../security/system-action-logger";
+import { revokeAllRefreshTokens, revokeRefreshTokensForSessions } from "./refresh-tokens";
+
+/**
+ * Active session management
+ *
+ * Revoked sessions are kept (with `revoked = true`) until they expire, so the
+ * audit trail can still tell which device was signed out and why. Their refresh
+ * tokens are revoked with them.
+ */
+
+export type SessionRevokeReason = "user" | "sign-out-others" | "admin" | "email-change-undone";
+
+export type SessionActorType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+};
+
+export type SessionRequestType = {
+  method: string;
+  path: string;
+  ipAddress: string;
+  userAgent: string;
+};
+
+export type UserSessionInfo = {
+  id: string;
+  device: string;
+  browser: string;
+  os: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastActivityAt: string;
+  createdAt: string;
+  expiresAt: string;
+  current: boolean;
+};
+
+const sessionSelect = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  lastActivityAt: true,
+  createdAt: true,
+  expiresAt: true,
+} as const;
+
+/**
+ * Rough, dependency-free user agent breakdown for display purposes only
+ */
+export function describeUserAgent(userAgent: string | null | undefined): { browser: string; os: string; device: string } {
+  if (!userAgent) {
+    return { browser: "Unknown browser", os: "Unknown OS", device: "Unknown device" };
+  }
+
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /OPR\/|Opera/.test(userAgent)
+      ? "Opera"
+      : /Firefox\//.test(userAgent)
+        ? "Firefox"
+        : /Chrome\/|CriOS\//.test(userAgent)
+          ? "Chrome"
+          : /Safari\//.test(userAgent)
+            ? "Safari"
+            : /curl\//.test(userAgent)
+              ? "curl"
+              : "Unknown browser";
+
+  const os = /iPhone|iPad|iPod/.test(userAgent)
+    ? "iOS"
+    : /Android/.test(userAgent)
+      ? "Android"
+      : /Windows/.test(userAgent)
+        ? "Windows"
+        : /Mac OS X|Macintosh/.test(userAgent)
+          ? "macOS"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : "Unknown OS";
+
+  return { browser, os, device: `${browser} on ${os}` };
+}
+
+/**
+ * Active (not revoked, not expired) sessions of `userId`, most recently used first.
+ * `currentSessionId` marks the session making the request.
+ */
+export async function listUserSessions(userId: string, currentSessionId?: string): Promise<UserSessionInfo[]> {
+  const sessions = await db.session.findMany({
+    where: { userId, revoked: false, expiresAt: { gt: new Date() } },
+    select: sessionSelect,
+    orderBy: { lastActivityAt: "desc" },
+  });
+
+  return sessions.map((session) => ({
+    id: session.id,
+    ...describeUserAgent(session.userAgent),
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    lastActivityAt: session.lastActivityAt.toISOString(),
+    createdAt: session.createdAt.toISOString(),
+    expiresAt: session.expiresAt.toISOString(),
+    current: session.id === currentSessionId,
+  }));
+}
+
+/**
+ * Revoke the active sessions of `userId` matching `where`, and log it.
+ * Returns the number of sessions revoked.
+ */
+async function revokeSessions(
+  actor: SessionActorType,
+  userId: string,
+  where: { id?: string; excludeId?: string },
+  reason: SessionRevokeReason,
+  request?: Partial<SessionRequestType>
+): Promise<number> {
+  const sessions = await db.session.findMany({
+    where: {
+      userId,
+      revoked: false,
+      ...(where.id ? { id: where.id } : {}),
+      ...(where.excludeId ? { id: { not: where.excludeId } } : {}),
+    },
+    select: { id: true },
+  });
+  const sessionIds = sessions.map((session) => session.id);
+
+  const result = await db.session.updateMany({
+    where: { id: { in: sessionIds }, revoked: false },
+    data: { revoked: true, revokedAt: new Date(), revokedReason: reason },
+  });
+
+  if (where.id) {
+    await revokeRefreshTokensForSessions(sessionIds);
+  } else {
+    await revokeAllRefreshTokens(userId, where.excludeId);
+  }
+
+  if (result.count === 0) {
+    return 0;
+  }
+
+  await SystemActionLogger.logAction({
+    userId: actor.id,
+    userEmail: actor.email,
+    userName: actor.name,
+    userRole: actor.role,
+    action: reason === "admin" ? "SESSIONS_REVOKED_BY_ADMIN" : "SESSION_REVOKED",
+    actionType: ActionType.LOGOUT,
+    resourceType: ResourceType.SESSION,
+    resourceId: where.id || userId,
+    httpMethod: request?.method || "POST",
+    endpoint: request?.path || "/api/user-sessions",
+    ipAddress: request?.ipAddress || "unknown",
+    userAgent: request?.userAgent || "unknown",
+    changesSummary: { targetUserId: userId, reason, sessionsRevoked: result.count },
+    statusCode: 200,
+    success: true,
+    riskLevel: reason === "admin" ? LogRiskLevel.HIGH : LogRiskLevel.LOW,
+  });
+
+  return result.count;
+}
+
+/**
+ * Revoke one of `user`'s own sessions. Returns false if it does not exist or is already revoked.
+ */
+export async function revokeUserSession(
+  user: SessionActorType,
+  sessionId: string,
+  request?: Partial<SessionRequestType>
+): Promise<boolean> {
+  return (await revokeSessions(user, user.id, { id: sessionId }, "user", request)) > 0;
+}
+
+/**
+ * "Sign out everywhere else": revoke every session of `user` except `currentSessionId`
+ */
+export async function revokeOtherUserSessions(
+  user: SessionActorType,
+  currentSessionId: string,
+  request?: Partial<SessionRequestType>
+): Promise<number> {
+  return revokeSessions(user, user.id, { excludeId: currentSessionId }, "sign-out-others", request);
+}
+
+/**
+ * Revoke every session of `userId` on behalf of an administrator
+ */
+export async function revokeAllUserSessions(
+  admin: SessionActorType,
+  userId: string,
+  request?: Partial<SessionRequestType>
+): Promise<number> {
+  return revokeSessions(admin, userId, {}, "admin", request);
+}
+
+/**
+ * Sign `user` out everywhere once an email change was undone from the previous
+ * address: whoever made the change may still hold a session
+ */
+export async function revokeSessionsAfterEmailChangeUndo(
+  user: SessionActorType,
+  request?: Partial<SessionRequestType>
+): Promise<number> {
+  return revokeSessions(user, user.id, {}, "email-change-undone", request);
+}
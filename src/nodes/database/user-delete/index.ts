@@ -7,6 +7,7 @@ import {
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import { db } from '../../../../database/config';
+import { canManageAccount, isUserInScope, organizationScope } from '../../auth/organization-scope';
 
 type UserDeleteInputType = {
   id: string;
@@ -132,7 +133,9 @@ export default class UserDelete extends NanoService<UserDeleteInputType> {
         }
       });
 
-      if (!existingUser) {
+      // Administrators only delete members of their active organization
+      const scope = organizationScope(ctx);
+      if (!existingUser || !(await isUserInScope(scope, existingUser.id))) {
         const result: UserDeleteOutputType = {
           success: false,
           message: 'User not found',
@@ -147,6 +150,27 @@ export default class UserDelete extends NanoService<UserDeleteInputType> {
         return response;
       }
 
+      // The account is shared with other organizations: only leave this one
+      if (scope.organizationId && !(await canManageAccount(scope, existingUser.id))) {
+        await db.membership.delete({
+          where: { userId_organizationId: { userId: existingUser.id, organizationId: scope.organizationId } }
+        });
+
+        const result: UserDeleteOutputType = {
+          success: true,
+          message: 'User removed from this organization; their account is not limited to it and was kept',
+          statusCode: 200,
+          sessionsDeleted: 0
+        };
+
+        if (ctx.vars === undefined) ctx.vars = {};
+        ctx.vars.userDeleteResult = result as unknown as ParamsDictionary;
+
+        ctx.logger.log(`User removed from organization ${scope.organizationId}: ${existingUser.email}`);
+        response.setSuccess(result as unknown as JsonLikeObject);
+        return response;
+      }
+
       // User exists, proceed with deletion
       let sessionsDeleted = 0;
 
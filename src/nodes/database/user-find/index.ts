@@ -7,6 +7,7 @@ import {
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import { db } from '../../../../database/config';
+import { organizationScope, scopedUserWhere } from '../../auth/organization-scope';
 
 type UserFindInputType = {
   id?: string;
@@ -162,6 +163,12 @@ export default class UserFind extends NanoService<UserFindInputType> {
         where.email = inputs.email.toLowerCase();
       }
 
+      // An authenticated caller only finds members of their active organization
+      const scope = organizationScope(ctx);
+      if (scope.userId) {
+        where.AND = [scopedUserWhere(scope)];
+      }
+
       // Execute the query with conditional field selection
       const user = await db.user.findFirst({
         where,
@@ -7,6 +7,7 @@ import {
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import { db } from '../../../../database/config';
+import { organizationScope, scopedUserWhere } from '../../auth/organization-scope';
 
 type UserListInputType = {
   page?: number;
@@ -14,7 +15,7 @@ type UserListInputType = {
   sortBy?: 'createdAt' | 'updatedAt' | 'name' | 'email';
   sortOrder?: 'asc' | 'desc';
   search?: string;
-  role?: 'admin' | 'user';
+  role?: string; // Role name, e.g. "admin", "user" or a custom role
   emailVerified?: boolean;
 };
 
@@ -84,8 +85,7 @@ export default class UserList extends NanoService<UserListInputType> {
         },
         role: {
           type: "string",
-          enum: ["admin", "user"],
-          description: "Filter by user role"
+          description: "Filter by role in the active organization (admin, user or a custom role)"
         },
         emailVerified: {
           type: "boolean",
@@ -124,8 +124,7 @@ export default class UserList extends NanoService<UserListInputType> {
               },
               role: {
                 type: "string",
-                enum: ["admin", "user"],
-                description: "User's role"
+                description: "User's role in the active organization"
               },
               emailVerified: {
                 type: "boolean",
@@ -207,8 +206,11 @@ export default class UserList extends NanoService<UserListInputType> {
 
       ctx.logger.log(`Listing users: page ${page}, limit ${limit}, sortBy ${sortBy} ${sortOrder}`);
 
+      // Only members of the current user's active organization are listed
+      const scope = organizationScope(ctx);
+
       // Build where conditions for Prisma
-      const where: any = {};
+      const where: any = scopedUserWhere(scope);
       
       if (inputs.search) {
         where.OR = [
@@ -218,7 +220,12 @@ export default class UserList extends NanoService<UserListInputType> {
       }
 
       if (inputs.role) {
-        where.role = inputs.role === 'admin' ? 'ADMIN' : 'USER';
+        const role = inputs.role.trim().toUpperCase();
+        if (scope.organizationId) {
+          where.memberships = { some: { organizationId: scope.organizationId, role } };
+        } else {
+          where.role = role;
+        }
       }
 
       if (typeof inputs.emailVerified === 'boolean') {
@@ -261,7 +268,10 @@ export default class UserList extends NanoService<UserListInputType> {
           role: true,
           emailVerified: true,
           createdAt: true,
-          updatedAt: true
+          updatedAt: true,
+          memberships: scope.organizationId
+            ? { where: { organizationId: scope.organizationId }, select: { role: true } }
+            : false
         },
         orderBy,
         take: limit,
@@ -273,7 +283,7 @@ export default class UserList extends NanoService<UserListInputType> {
         id: user.id,
         email: user.email,
         name: user.name,
-        role: user.role,
+        role: user.memberships?.[0]?.role ?? user.role,
         emailVerified: user.emailVerified,
         createdAt: user.createdAt.toISOString(),
         updatedAt: user.updatedAt.toISOString()
@@ -6,8 +6,10 @@ import {
   type ParamsDictionary,
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
-import * as bcrypt from 'bcryptjs';
 import { db } from '../../../../database/config';
+import { canManageAccount, isUserInScope, organizationScope } from '../../auth/organization-scope';
+import { addMember } from '../../auth/organizations';
+import { hashPassword, setPasswordHash } from '../../auth/passwords';
 
 type UserUpdateInputType = {
   id: string;
@@ -16,6 +18,7 @@ type UserUpdateInputType = {
   role?: 'admin' | 'user';
   emailVerified?: boolean;
   password?: string;
+  passwordHash?: string; // Already hashed, e.g. by the password-hash node
   saltRounds?: number;
 };
 
@@ -74,12 +77,15 @@ export default class UserUpdate extends NanoService<UserUpdateInputType> {
           minLength: 6,
           description: "New password (will be hashed)"
         },
+        passwordHash: {
+          type: "string",
+          description: "New password already hashed by the password-hash node"
+        },
         saltRounds: {
           type: "number",
           minimum: 10,
           maximum: 15,
-          default: 12,
-          description: "BCrypt salt rounds for password hashing (default: 12)"
+          description: "BCrypt salt rounds for password hashing (default: PASSWORD_BCRYPT_ROUNDS)"
         }
       },
       required: ["id"]
@@ -140,7 +146,7 @@ export default class UserUpdate extends NanoService<UserUpdateInputType> {
         statusCode: {
           type: "number",
           description: "HTTP status code",
-          enum: [200, 400, 404, 409, 500]
+          enum: [200, 400, 403, 404, 409, 500]
         },
         fieldsUpdated: {
           type: "array",
@@ -175,7 +181,9 @@ export default class UserUpdate extends NanoService<UserUpdateInputType> {
         }
       });
 
-      if (!existingUser) {
+      // Administrators only update members of their active organization
+      const scope = organizationScope(ctx);
+      if (!existingUser || !(await isUserInScope(scope, existingUser.id))) {
         const result: UserUpdateOutputType = {
           success: false,
           message: 'User not found',
@@ -190,11 +198,30 @@ export default class UserUpdate extends NanoService<UserUpdateInputType> {
         return response;
       }
 
+      // Email, name, verification and password are shared by all of the user's organizations
+      const changesAccount = [inputs.email, inputs.name, inputs.emailVerified, inputs.password, inputs.passwordHash]
+        .some((value) => value !== undefined);
+      if (changesAccount && !(await canManageAccount(scope, existingUser.id))) {
+        const result: UserUpdateOutputType = {
+          success: false,
+          message: 'Only a platform administrator can change this account; it is not limited to your organization',
+          statusCode: 403,
+          fieldsUpdated: []
+        };
+
+        if (ctx.vars === undefined) ctx.vars = {};
+        ctx.vars.userUpdateResult = result as unknown as ParamsDictionary;
+
+        response.setSuccess(result as unknown as JsonLikeObject);
+        return response;
+      }
+
       ctx.logger.log(`Updating user: ${inputs.id}`);
 
       // Build update object with only provided fields
       const updateData: Record<string, unknown> = {};
       const fieldsUpdated: string[] = [];
+      let newPasswordHash: string | undefined;
 
       if (inputs.email !== undefined) {
         // Basic email validation
@@ -263,8 +290,30 @@ export default class UserUpdate extends NanoService<UserUpdateInputType> {
         fieldsUpdated.push('name');
       }
 
+      let membershipRole: string | undefined;
       if (inputs.role !== undefined) {
-        updateData.role = inputs.role;
+        const permissions = (ctx.vars?.currentUser as unknown as { permissions?: string[] } | undefined)?.permissions;
+        if (scope.userId && !permissions?.includes('roles:manage')) {
+          const result: UserUpdateOutputType = {
+            success: false,
+            message: 'The roles:manage permission is required to change roles',
+            statusCode: 403,
+            fieldsUpdated: []
+          };
+
+          if (ctx.vars === undefined) ctx.vars = {};
+          ctx.vars.userUpdateResult = result as unknown as ParamsDictionary;
+
+          response.setSuccess(result as unknown as JsonLikeObject);
+          return response;
+        }
+
+        // Inside an organization the role is the membership role, as in user-role-manager
+        if (scope.organizationId) {
+          membershipRole = inputs.role;
+        } else {
+          updateData.role = inputs.role;
+        }
         fieldsUpdated.push('role');
       }
 
@@ -290,14 +339,15 @@ export default class UserUpdate extends NanoService<UserUpdateInputType> {
         }
 
         // Hash the new password
-        const saltRounds = inputs.saltRounds || 12;
-        const hashedPassword = await bcrypt.hash(inputs.password, saltRounds);
-        updateData.password = hashedPassword;
+        newPasswordHash = await hashPassword(inputs.password, { bcryptRounds: inputs.saltRounds });
+        fieldsUpdated.push('password');
+      } else if (inputs.passwordHash) {
+        newPasswordHash = inputs.passwordHash;
         fieldsUpdated.push('password');
       }
 
       // If no fields to update
-      if (Object.keys(updateData).length === 0) {
+      if (fieldsUpdated.length === 0) {
         const result: UserUpdateOutputType = {
           success: false,
           message: 'No fields provided to update',
@@ -312,6 +362,15 @@ export default class UserUpdate extends NanoService<UserUpdateInputType> {
         return response;
       }
 
+      if (membershipRole && scope.organizationId) {
+        await addMember(scope.organizationId, inputs.id, membershipRole);
+      }
+
+      // Keeps the previous hash in the password history and restarts the max age clock
+      if (newPasswordHash) {
+        await setPasswordHash(inputs.id, newPasswordHash);
+      }
+
       // Add updated timestamp
       updateData.updatedAt = new Date().toISOString();
 
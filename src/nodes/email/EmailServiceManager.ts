@@ -6,12 +6,24 @@ import {
   type JsonLikeObject,
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import {
+  captureMessage,
+  clearCapturedEmails,
+  getCaptureDir,
+  getCapturedEmail,
+  listCapturedEmails,
+} from "./transports/capture-transport";
+import { buildMimeMessage } from "./transports/mime";
+import { type SmtpOptions, sendSmtpMail, verifySmtpConnection } from "./transports/smtp-transport";
+
+type EmailProviderName = "resend" | "sendgrid" | "nodemailer" | "smtp" | "capture" | "mailtrap" | "postmark";
 
 interface EmailServiceConfig {
-  provider: "resend" | "sendgrid" | "nodemailer" | "mailtrap" | "postmark";
+  provider: EmailProviderName;
   apiKey?: string;
   smtpHost?: string;
   smtpPort?: number;
+  smtpSecure?: boolean;
   smtpUser?: string;
   smtpPassword?: string;
   fromEmail: string;
@@ -19,8 +31,11 @@ interface EmailServiceConfig {
 }
 
 interface EmailServiceManagerInput {
-  operation: "configure" | "send" | "test" | "getConfig";
+  operation: "configure" | "send" | "test" | "getConfig" | "listCaptured" | "getCaptured" | "clearCaptured";
   config?: EmailServiceConfig;
+  captureId?: string;
+  to?: string;
+  limit?: number;
   email?: {
     to: string;
     subject: string;
@@ -36,11 +51,17 @@ interface EmailProvider {
   test(): Promise<boolean>;
 }
 
+const PROVIDERS: EmailProviderName[] = ["resend", "sendgrid", "nodemailer", "smtp", "capture", "mailtrap", "postmark"];
+
 /**
  * Email Service Manager Node
  * 
  * Manages email service providers and provides a unified interface for sending emails.
- * Supports multiple providers: Resend, SendGrid, Nodemailer, Mailtrap, Postmark.
+ * Supports multiple providers: Resend, SendGrid, SMTP (also selectable as "nodemailer"),
+ * Capture (writes .eml files for local development and CI), Mailtrap, Postmark.
+ *
+ * When no provider has been configured through the `configure` operation, the
+ * provider is configured from the environment (EMAIL_PROVIDER, SMTP_*, EMAIL_FROM).
  */
 export default class EmailServiceManager extends NanoService<EmailServiceManagerInput> {
   private config: EmailServiceConfig | null = null;
@@ -55,15 +76,28 @@ export default class EmailServiceManager extends NanoService<EmailServiceManager
       properties: {
         operation: {
           type: "string",
-          enum: ["configure", "send", "test", "getConfig"],
+          enum: ["configure", "send", "test", "getConfig", "listCaptured", "getCaptured", "clearCaptured"],
           description: "Operation to perform",
         },
+        captureId: {
+          type: "string",
+          description: "Captured message id (for getCaptured)",
+        },
+        to: {
+          type: "string",
+          description: "Only list captured messages sent to this address (for listCaptured)",
+        },
+        limit: {
+          type: "number",
+          minimum: 1,
+          description: "Maximum number of captured messages to list (for listCaptured)",
+        },
         config: {
           type: "object",
           properties: {
             provider: {
               type: "string",
-              enum: ["resend", "sendgrid", "nodemailer", "mailtrap", "postmark"],
+              enum: PROVIDERS,
               description: "Email service provider",
             },
             apiKey: {
@@ -72,19 +106,23 @@ export default class EmailServiceManager extends NanoService<EmailServiceManager
             },
             smtpHost: {
               type: "string",
-              description: "SMTP host (for nodemailer)",
+              description: "SMTP host (for smtp/nodemailer)",
             },
             smtpPort: {
               type: "number",
-              description: "SMTP port (for nodemailer)",
+              description: "SMTP port (for smtp/nodemailer, default 587)",
+            },
+            smtpSecure: {
+              type: "boolean",
+              description: "Use implicit TLS (for smtp/nodemailer, default true on port 465; otherwise STARTTLS when offered)",
             },
             smtpUser: {
               type: "string",
-              description: "SMTP username (for nodemailer)",
+              description: "SMTP username (for smtp/nodemailer, optional for local sinks)",
             },
             smtpPassword: {
               type: "string",
-              description: "SMTP password (for nodemailer)",
+              description: "SMTP password (for smtp/nodemailer)",
             },
             fromEmail: {
               type: "string",
@@ -153,7 +191,7 @@ export default class EmailServiceManager extends NanoService<EmailServiceManager
             },
             provider: {
               type: "string",
-              enum: ["resend", "sendgrid", "nodemailer", "mailtrap", "postmark"],
+              enum: PROVIDERS,
               description: "Configured email provider"
             }
           },
@@ -212,7 +250,7 @@ export default class EmailServiceManager extends NanoService<EmailServiceManager
                 },
                 provider: {
                   type: "string",
-                  enum: ["resend", "sendgrid", "nodemailer", "mailtrap", "postmark"],
+                  enum: PROVIDERS,
                   description: "Tested provider"
                 },
                 testDetails: {
@@ -239,7 +277,7 @@ export default class EmailServiceManager extends NanoService<EmailServiceManager
               properties: {
                 provider: {
                   type: "string",
-                  enum: ["resend", "sendgrid", "nodemailer", "mailtrap", "postmark"],
+                  enum: PROVIDERS,
                   description: "Configured email provider"
                 },
                 fromEmail: {
@@ -260,6 +298,78 @@ export default class EmailServiceManager extends NanoService<EmailServiceManager
             }
           },
           required: ["success", "config"]
+        },
+        {
+          // ListCaptured operation response
+          properties: {
+            success: {
+              type: "boolean",
+              const: true,
+              description: "Whether the captured messages were listed"
+            },
+            captureDir: {
+              type: "string",
+              description: "Directory the capture provider writes to"
+            },
+            emails: {
+              type: "array",
+              description: "Captured messages, newest first",
+              items: {
+                type: "object",
+                properties: {
+                  id: { type: "string", description: "Captured message id" },
+                  messageId: { type: "string", description: "Message-ID header" },
+                  from: { type: "string", description: "Envelope sender" },
+                  to: { type: "array", items: { type: "string" }, description: "Envelope recipients" },
+                  subject: { type: "string", description: "Message subject" },
+                  capturedAt: { type: "string", format: "date-time", description: "When the message was captured" },
+                  file: { type: "string", description: "Name of the .eml file" },
+                  size: { type: "number", description: "Size of the .eml file in bytes" }
+                },
+                required: ["id", "messageId", "from", "to", "subject", "capturedAt", "file", "size"]
+              }
+            }
+          },
+          required: ["success", "captureDir", "emails"]
+        },
+        {
+          // GetCaptured operation response
+          properties: {
+            success: {
+              type: "boolean",
+              const: true,
+              description: "Whether the captured message was found"
+            },
+            email: {
+              type: "object",
+              description: "Captured message with decoded bodies",
+              properties: {
+                id: { type: "string", description: "Captured message id" },
+                subject: { type: "string", description: "Message subject" },
+                text: { type: ["string", "null"], description: "Decoded plain text body" },
+                html: { type: ["string", "null"], description: "Decoded HTML body" },
+                links: { type: "array", items: { type: "string" }, description: "URLs found in the message" },
+                raw: { type: "string", description: "Raw RFC 5322 message (.eml contents)" }
+              },
+              required: ["id", "subject", "text", "html", "links", "raw"]
+            }
+          },
+          required: ["success", "email"]
+        },
+        {
+          // ClearCaptured operation response
+          properties: {
+            success: {
+              type: "boolean",
+              const: true,
+              description: "Whether the captured messages were deleted"
+            },
+            deleted: {
+              type: "number",
+              description: "Number of deleted messages"
+            }
+          },
+          required: ["success", "deleted"]
         }
       ]
     };
@@ -316,6 +426,37 @@ export default class EmailServiceManager extends NanoService<EmailServiceManager
           } as unknown as JsonLikeObject);
           break;
 
+        case "listCaptured":
+          const emails = await listCapturedEmails({ to: inputs.to, limit: inputs.limit });
+          response.setSuccess({
+            success: true,
+            captureDir: getCaptureDir(),
+            emails,
+          } as unknown as JsonLikeObject);
+          break;
+
+        case "getCaptured":
+          const capturedEmail = inputs.captureId ? await getCapturedEmail(inputs.captureId) : null;
+          if (!capturedEmail) {
+            const notFound = new GlobalError("Captured email not found");
+            notFound.setCode(404);
+            response.setError(notFound);
+            break;
+          }
+          response.setSuccess({
+            success: true,
+            email: capturedEmail,
+          } as unknown as JsonLikeObject);
+          break;
+
+        case "clearCaptured":
+          const deleted = await clearCapturedEmails();
+          response.setSuccess({
+            success: true,
+            deleted,
+          } as unknown as JsonLikeObject);
+          break;
+
         default:
           throw new Error(`Unsupported operation: ${inputs.operation}`);
       }
@@ -342,7 +483,11 @@ export default class EmailServiceManager extends NanoService<EmailServiceManager
         this.provider = await this.createSendGridProvider(config);
         break;
       case "nodemailer":
-        this.provider = await this.createNodemailerProvider(config);
+      case "smtp":
+        this.provider = await this.createSmtpProvider(config);
+        break;
+      case "capture":
+        this.provider = await this.createCaptureProvider(config);
         break;
       case "mailtrap":
         this.provider = await this.createMailtrapProvider(config);
@@ -396,22 +541,55 @@ export default class EmailServiceManager extends NanoService<EmailServiceManager
     };
   }
 
-  private async createNodemailerProvider(config: EmailServiceConfig): Promise<EmailProvider> {
-    if (!config.smtpHost || !config.smtpUser || !config.smtpPassword) {
-      throw new Error("SMTP configuration is required for Nodemailer");
+  private async createSmtpProvider(config: EmailServiceConfig): Promise<EmailProvider> {
+    if (!config.smtpHost) {
+      throw new Error("SMTP host is required for the SMTP provider");
     }
 
+    const options: SmtpOptions = {
+      host: config.smtpHost,
+      port: config.smtpPort || 587,
+      secure: config.smtpSecure,
+      user: config.smtpUser || undefined,
+      password: config.smtpPassword || undefined,
+    };
+
+    return {
+      async send(email: any) {
+        const message = buildMimeMessage(email);
+        const result = await sendSmtpMail(options, message);
+        return {
+          id: result.messageId,
+          messageId: result.messageId,
+          success: true,
+          status: "sent",
+          provider: config.provider,
+          accepted: result.accepted,
+          rejected: result.rejected,
+        };
+      },
+      async test() {
+        return verifySmtpConnection(options);
+      },
+    };
+  }
+
+  private async createCaptureProvider(_config: EmailServiceConfig): Promise<EmailProvider> {
     return {
       async send(email: any) {
-        console.log(`[NODEMAILER] Sending email to ${email.to}: ${email.subject}`);
+        const message = buildMimeMessage(email);
+        const entry = await captureMessage(message, email.subject);
+        console.log(`[CAPTURE] Captured email to ${email.to}: ${email.subject} (${entry.file})`);
         return {
-          id: `nodemailer_${Date.now()}`,
+          id: entry.id,
+          messageId: message.messageId,
           success: true,
-          provider: "nodemailer",
+          status: "captured",
+          provider: "capture",
         };
       },
       async test() {
-        console.log("[NODEMAILER] Testing SMTP connection...");
+        await listCapturedEmails({ limit: 1 });
         return true;
       },
     };
@@ -459,7 +637,40 @@ export default class EmailServiceManager extends NanoService<EmailServiceManager
     };
   }
 
+  /**
+   * Provider configuration from the environment, used until `configure` is called
+   */
+  private getEnvConfig(): EmailServiceConfig | null {
+    const provider = process.env.EMAIL_PROVIDER as EmailProviderName | undefined;
+    if (!provider || !PROVIDERS.includes(provider)) {
+      return null;
+    }
+
+    const apiKeyVariable = `${provider.toUpperCase()}_API_KEY`;
+    return {
+      provider,
+      apiKey: process.env[apiKeyVariable] || process.env.EMAIL_API_KEY,
+      smtpHost: process.env.SMTP_HOST,
+      smtpPort: process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT, 10) : undefined,
+      smtpSecure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : undefined,
+      smtpUser: process.env.SMTP_USER,
+      smtpPassword: process.env.SMTP_PASSWORD,
+      fromEmail: process.env.EMAIL_FROM || "no-reply@localhost",
+      fromName: process.env.EMAIL_FROM_NAME,
+    };
+  }
+
+  private async ensureConfigured(): Promise<void> {
+    if (this.provider && this.config) return;
+
+    const envConfig = this.getEnvConfig();
+    if (envConfig) {
+      await this.configureProvider(envConfig);
+    }
+  }
+
   private async sendEmail(email: any): Promise<any> {
+    await this.ensureConfigured();
     if (!this.provider || !this.config) {
       throw new Error("Email service not configured. Please configure a provider first.");
     }
@@ -474,6 +685,7 @@ export default class EmailServiceManager extends NanoService<EmailServiceManager
   }
 
   private async testProvider(): Promise<any> {
+    await this.ensureConfigured();
     if (!this.provider || !this.config) {
       throw new Error("Email service not configured. Please configure a provider first.");
     }
@@ -8,7 +8,7 @@ import {
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 
 interface EmailTemplatesInput {
-  template: "verification" | "welcome" | "passwordReset" | "passwordChanged" | "accountLocked" | "custom";
+  template: "verification" | "welcome" | "passwordReset" | "passwordChanged" | "accountLocked" | "invitation" | "emailChangeConfirmation" | "emailChangeRequested" | "emailChanged" | "magicLink" | "custom";
   data: Record<string, unknown>;
   customTemplate?: string;
   format?: "html" | "text" | "both";
@@ -36,7 +36,7 @@ export default class EmailTemplates extends NanoService<EmailTemplatesInput> {
       properties: {
         template: {
           type: "string",
-          enum: ["verification", "welcome", "passwordReset", "passwordChanged", "accountLocked", "custom"],
+          enum: ["verification", "welcome", "passwordReset", "passwordChanged", "accountLocked", "invitation", "emailChangeConfirmation", "emailChangeRequested", "emailChanged", "magicLink", "custom"],
           description: "Email template type",
         },
         data: {
@@ -147,6 +147,21 @@ export default class EmailTemplates extends NanoService<EmailTemplatesInput> {
       case "accountLocked":
         template = this.getAccountLockedTemplate(data);
         break;
+      case "invitation":
+        template = this.getInvitationTemplate(data);
+        break;
+      case "emailChangeConfirmation":
+        template = this.getEmailChangeConfirmationTemplate(data);
+        break;
+      case "emailChangeRequested":
+        template = this.getEmailChangeRequestedTemplate(data);
+        break;
+      case "emailChanged":
+        template = this.getEmailChangedTemplate(data);
+        break;
+      case "magicLink":
+        template = this.getMagicLinkTemplate(data);
+        break;
       case "custom":
         template = this.getCustomTemplate(data, customTemplate!);
         break;
@@ -550,6 +565,361 @@ For your security:
 
 If you need immediate assistance, please contact our support team at ${supportEmail || "support@example.com"}.
 
+© ${new Date().getFullYear()} ${siteName || "Blok Admin"}. All rights reserved.
+      `.trim(),
+    };
+  }
+
+  private getInvitationTemplate(data: Record<string, unknown>): EmailTemplate {
+    const { userName, inviterName, organizationName, role, inviteUrl, siteName, expirationDays } = data;
+    const workspace = organizationName || siteName || "Blok Admin";
+
+    return {
+      subject: `${inviterName || "An administrator"} invited you to ${workspace}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Invitation</title>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { text-align: center; padding: 20px 0; border-bottom: 2px solid #f0f0f0; }
+            .content { padding: 30px 0; }
+            .button { display: inline-block; padding: 12px 30px; background: #6366f1; color: white; text-decoration: none; border-radius: 6px; font-weight: 600; }
+            .footer { text-align: center; padding: 20px 0; border-top: 1px solid #f0f0f0; color: #666; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1 style="color: #6366f1; margin: 0;">${siteName || "Blok Admin"}</h1>
+            </div>
+            
+            <div class="content">
+              <h2>You're Invited</h2>
+              <p>Hello ${userName || "there"},</p>
+              <p>${inviterName || "An administrator"} invited you to join <strong>${workspace}</strong> as <strong>${role || "USER"}</strong>. Click the button below to choose your password and activate your account:</p>
+              
+              <p style="text-align: center; margin: 30px 0;">
+                <a href="${inviteUrl}" class="button">Accept Invitation</a>
+              </p>
+              
+              <p>If you can't click the button, copy and paste this link into your browser:</p>
+              <p style="word-break: break-all; color: #666; font-size: 14px;">${inviteUrl}</p>
+              
+              <p><strong>This invitation will expire in ${expirationDays || 7} days.</strong></p>
+              
+              <p>If you weren't expecting this invitation, you can safely ignore this email.</p>
+            </div>
+            
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} ${siteName || "Blok Admin"}. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+You're Invited - ${workspace}
+
+Hello ${userName || "there"},
+
+${inviterName || "An administrator"} invited you to join ${workspace} as ${role || "USER"}. Visit this link to choose your password and activate your account:
+
+${inviteUrl}
+
+This invitation will expire in ${expirationDays || 7} days.
+
+If you weren't expecting this invitation, you can safely ignore this email.
+
+© ${new Date().getFullYear()} ${siteName || "Blok Admin"}. All rights reserved.
+      `.trim(),
+    };
+  }
+
+  private getEmailChangeConfirmationTemplate(data: Record<string, unknown>): EmailTemplate {
+    const { userName, newEmail, confirmUrl, siteName, expirationHours } = data;
+
+    return {
+      subject: `Confirm your new email address - ${siteName || "Blok Admin"}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Confirm Email Change</title>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { text-align: center; padding: 20px 0; border-bottom: 2px solid #f0f0f0; }
+            .content { padding: 30px 0; }
+            .button { display: inline-block; padding: 12px 30px; background: #6366f1; color: white; text-decoration: none; border-radius: 6px; font-weight: 600; }
+            .footer { text-align: center; padding: 20px 0; border-top: 1px solid #f0f0f0; color: #666; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1 style="color: #6366f1; margin: 0;">${siteName || "Blok Admin"}</h1>
+            </div>
+            
+            <div class="content">
+              <h2>Confirm Your New Email Address</h2>
+              <p>Hello ${userName || "there"},</p>
+              <p>You asked to use <strong>${newEmail}</strong> for your account. Click the button below to confirm the change:</p>
+              
+              <p style="text-align: center; margin: 30px 0;">
+                <a href="${confirmUrl}" class="button">Confirm Email Change</a>
+              </p>
+              
+              <p>If you can't click the button, copy and paste this link into your browser:</p>
+              <p style="word-break: break-all; color: #666; font-size: 14px;">${confirmUrl}</p>
+              
+              <p><strong>This link will expire in ${expirationHours || 24} hours.</strong></p>
+              
+              <p>Your email address stays the same until you confirm. If you didn't request this change, you can safely ignore this email.</p>
+            </div>
+            
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} ${siteName || "Blok Admin"}. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+Confirm Your New Email Address - ${siteName || "Blok Admin"}
+
+Hello ${userName || "there"},
+
+You asked to use ${newEmail} for your account. Visit this link to confirm the change:
+
+${confirmUrl}
+
+This link will expire in ${expirationHours || 24} hours.
+
+Your email address stays the same until you confirm. If you didn't request this change, you can safely ignore this email.
+
+© ${new Date().getFullYear()} ${siteName || "Blok Admin"}. All rights reserved.
+      `.trim(),
+    };
+  }
+
+  private getEmailChangeRequestedTemplate(data: Record<string, unknown>): EmailTemplate {
+    const { userName, newEmail, siteName, requestTime, ipAddress, supportEmail } = data;
+
+    return {
+      subject: `Email change requested - ${siteName || "Blok Admin"}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Email Change Requested</title>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { text-align: center; padding: 20px 0; border-bottom: 2px solid #f0f0f0; }
+            .content { padding: 30px 0; }
+            .warning { background: #fef3c7; border: 1px solid #f59e0b; padding: 15px; border-radius: 6px; margin: 20px 0; }
+            .footer { text-align: center; padding: 20px 0; border-top: 1px solid #f0f0f0; color: #666; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1 style="color: #f59e0b; margin: 0;">${siteName || "Blok Admin"}</h1>
+            </div>
+            
+            <div class="content">
+              <h2>Email Change Requested</h2>
+              <p>Hello ${userName || "there"},</p>
+              
+              <div class="warning">
+                <p><strong>Someone asked to change your account's email address to ${newEmail}.</strong></p>
+                <p>Request details:</p>
+                <ul>
+                  <li>Time: ${requestTime || new Date().toLocaleString()}</li>
+                  ${ipAddress ? `<li>IP Address: ${ipAddress}</li>` : ""}
+                </ul>
+              </div>
+              
+              <p>Nothing changes until the new address is confirmed. If it is, we'll send you a link to undo the change.</p>
+              
+              <p>If you didn't make this request, change your password and contact our support team at <a href="mailto:${supportEmail || "support@example.com"}">${supportEmail || "support@example.com"}</a>.</p>
+            </div>
+            
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} ${siteName || "Blok Admin"}. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+Email Change Requested - ${siteName || "Blok Admin"}
+
+Hello ${userName || "there"},
+
+Someone asked to change your account's email address to ${newEmail}.
+
+Request details:
+- Time: ${requestTime || new Date().toLocaleString()}
+${ipAddress ? `- IP Address: ${ipAddress}` : ""}
+
+Nothing changes until the new address is confirmed. If it is, we'll send you a link to undo the change.
+
+If you didn't make this request, change your password and contact our support team at ${supportEmail || "support@example.com"}.
+
+© ${new Date().getFullYear()} ${siteName || "Blok Admin"}. All rights reserved.
+      `.trim(),
+    };
+  }
+
+  private getEmailChangedTemplate(data: Record<string, unknown>): EmailTemplate {
+    const { userName, newEmail, undoUrl, siteName, changeTime, expirationHours, supportEmail } = data;
+
+    return {
+      subject: `Your email address was changed - ${siteName || "Blok Admin"}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Email Address Changed</title>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { text-align: center; padding: 20px 0; border-bottom: 2px solid #f0f0f0; }
+            .content { padding: 30px 0; }
+            .button { display: inline-block; padding: 12px 30px; background: #ef4444; color: white; text-decoration: none; border-radius: 6px; font-weight: 600; }
+            .alert { background: #fee2e2; border: 1px solid #ef4444; padding: 15px; border-radius: 6px; margin: 20px 0; }
+            .footer { text-align: center; padding: 20px 0; border-top: 1px solid #f0f0f0; color: #666; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1 style="color: #ef4444; margin: 0;">${siteName || "Blok Admin"}</h1>
+            </div>
+            
+            <div class="content">
+              <h2>Email Address Changed</h2>
+              <p>Hello ${userName || "there"},</p>
+              
+              <div class="alert">
+                <p><strong>Your account's email address was changed to ${newEmail}.</strong></p>
+                <p>Time: ${changeTime || new Date().toLocaleString()}</p>
+              </div>
+              
+              <p>If you didn't make this change, undo it with the button below. This restores this address and signs your account out everywhere:</p>
+              
+              <p style="text-align: center; margin: 30px 0;">
+                <a href="${undoUrl}" class="button">Undo Email Change</a>
+              </p>
+              
+              <p>If you can't click the button, copy and paste this link into your browser:</p>
+              <p style="word-break: break-all; color: #666; font-size: 14px;">${undoUrl}</p>
+              
+              <p><strong>This link will expire in ${expirationHours || 72} hours.</strong> After that, contact our support team at <a href="mailto:${supportEmail || "support@example.com"}">${supportEmail || "support@example.com"}</a>.</p>
+            </div>
+            
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} ${siteName || "Blok Admin"}. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+Email Address Changed - ${siteName || "Blok Admin"}
+
+Hello ${userName || "there"},
+
+Your account's email address was changed to ${newEmail}.
+Time: ${changeTime || new Date().toLocaleString()}
+
+If you didn't make this change, undo it with this link. This restores this address and signs your account out everywhere:
+
+${undoUrl}
+
+This link will expire in ${expirationHours || 72} hours. After that, contact our support team at ${supportEmail || "support@example.com"}.
+
+© ${new Date().getFullYear()} ${siteName || "Blok Admin"}. All rights reserved.
+      `.trim(),
+    };
+  }
+
+  private getMagicLinkTemplate(data: Record<string, unknown>): EmailTemplate {
+    const { userName, signInUrl, siteName, expirationMinutes, ipAddress } = data;
+
+    return {
+      subject: `Your sign-in link - ${siteName || "Blok Admin"}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Sign In</title>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { text-align: center; padding: 20px 0; border-bottom: 2px solid #f0f0f0; }
+            .content { padding: 30px 0; }
+            .button { display: inline-block; padding: 12px 30px; background: #6366f1; color: white; text-decoration: none; border-radius: 6px; font-weight: 600; }
+            .footer { text-align: center; padding: 20px 0; border-top: 1px solid #f0f0f0; color: #666; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1 style="color: #6366f1; margin: 0;">${siteName || "Blok Admin"}</h1>
+            </div>
+            
+            <div class="content">
+              <h2>Sign In to Your Account</h2>
+              <p>Hello ${userName || "there"},</p>
+              <p>Click the button below to sign in. The link only works once, in the browser where you asked for it.</p>
+              
+              <p style="text-align: center; margin: 30px 0;">
+                <a href="${signInUrl}" class="button">Sign In</a>
+              </p>
+              
+              <p>If you can't click the button, copy and paste this link into your browser:</p>
+              <p style="word-break: break-all; color: #666; font-size: 14px;">${signInUrl}</p>
+              
+              <p><strong>This link will expire in ${expirationMinutes || 15} minutes.</strong></p>
+              
+              <p>This link was requested from ${ipAddress || "an unknown address"}. If you didn't ask to sign in, you can safely ignore this email.</p>
+            </div>
+            
+            <div class="footer">
+              <p>&copy; ${new Date().getFullYear()} ${siteName || "Blok Admin"}. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+Sign In to Your Account - ${siteName || "Blok Admin"}
+
+Hello ${userName || "there"},
+
+Visit this link to sign in. It only works once, in the browser where you asked for it:
+
+${signInUrl}
+
+This link will expire in ${expirationMinutes || 15} minutes.
+
+This link was requested from ${ipAddress || "an unknown address"}. If you didn't ask to sign in, you can safely ignore this email.
+
 © ${new Date().getFullYear()} ${siteName || "Blok Admin"}. All rights reserved.
       `.trim(),
     };
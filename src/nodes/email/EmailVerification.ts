@@ -7,9 +7,26 @@ import {
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import crypto from "crypto";
+import { db } from "../../../database/config";
+import { appUrl } from "./app-url";
+
+/**
+ * `change-email` tokens are sent to the requested new address, `revert-email-change`
+ * tokens to the previous one once a change went through (see auth/email-change.ts)
+ */
+export type EmailTokenPurpose = "verify-email" | "password-reset" | "change-email" | "revert-email-change";
+
+// Frontend page each kind of link opens (on APP_URL)
+const EMAIL_TOKEN_PATHS: Record<EmailTokenPurpose, (token: string) => string> = {
+  "verify-email": (token) => `/verify-email?token=${token}`,
+  "password-reset": (token) => `/reset-password?token=${token}`,
+  "change-email": (token) => `/email-change?token=${token}`,
+  "revert-email-change": (token) => `/email-change?token=${token}&undo=1`,
+};
 
 interface EmailVerificationInput {
-  operation: "generate" | "verify" | "resend";
+  operation: "generate" | "verify" | "validate" | "resend";
+  purpose?: EmailTokenPurpose;
   userId?: string;
   email?: string;
   token?: string;
@@ -18,22 +35,43 @@ interface EmailVerificationInput {
 
 interface VerificationToken {
   token: string;
+  url: string; // Link to send, built from APP_URL
+  userId: string;
+  email: string;
+  purpose: EmailTokenPurpose;
+  expiresAt: Date;
+  createdAt: Date;
+  expirationHours: number;
+}
+
+interface VerificationResult {
+  valid: boolean;
+  userId?: string;
+  email?: string;
+  userName?: string;
+  purpose?: EmailTokenPurpose;
+  message?: string;
+}
+
+interface ActiveEmailToken {
+  id: string;
   userId: string;
   email: string;
+  purpose: EmailTokenPurpose;
   expiresAt: Date;
   createdAt: Date;
-  verified: boolean;
 }
 
 /**
  * Email Verification Node
  * 
- * Handles email verification token generation, verification, and management.
+ * Handles single-use email token generation, verification, and management
+ * for email verification, password reset and email change links. Tokens are persisted in
+ * the `email_tokens` table (SHA-256 hashed), so pending links survive
+ * restarts and work across multiple processes.
  * Works with the EmailServiceManager to send verification emails.
  */
 export default class EmailVerification extends NanoService<EmailVerificationInput> {
-  // In a real implementation, this would be stored in a database
-  private static verificationTokens = new Map<string, VerificationToken>();
 
   constructor() {
     super();
@@ -44,8 +82,14 @@ export default class EmailVerification extends NanoService<EmailVerificationInpu
       properties: {
         operation: {
           type: "string",
-          enum: ["generate", "verify", "resend"],
-          description: "Verification operation to perform",
+          enum: ["generate", "verify", "validate", "resend"],
+          description: "Verification operation to perform (validate checks a token without consuming it)",
+        },
+        purpose: {
+          type: "string",
+          enum: ["verify-email", "password-reset", "change-email", "revert-email-change"],
+          default: "verify-email",
+          description: "What the token is for; tokens are only accepted for the purpose they were issued for",
         },
         userId: {
           type: "string",
@@ -111,7 +155,7 @@ export default class EmailVerification extends NanoService<EmailVerificationInpu
             },
             message: {
               type: "string",
-              enum: ["Email verified successfully", "Invalid or expired token"],
+              enum: ["Email verified successfully", "Token is valid", "Invalid or expired token"],
               description: "Verification result message"
             },
             valid: {
@@ -126,6 +170,15 @@ export default class EmailVerification extends NanoService<EmailVerificationInpu
               type: "string",
               format: "email",
               description: "Email address that was verified"
+            },
+            userName: {
+              type: "string",
+              description: "Name of the user the token belongs to"
+            },
+            purpose: {
+              type: "string",
+              enum: ["verify-email", "password-reset", "change-email", "revert-email-change"],
+              description: "Purpose the token was issued for"
             }
           },
           required: ["success", "message", "valid"]
@@ -168,6 +221,7 @@ export default class EmailVerification extends NanoService<EmailVerificationInpu
     inputs: EmailVerificationInput
   ): Promise<INanoServiceResponse> {
     const response = new NanoServiceResponse();
+    const purpose: EmailTokenPurpose = inputs.purpose || "verify-email";
 
     try {
       switch (inputs.operation) {
@@ -175,6 +229,7 @@ export default class EmailVerification extends NanoService<EmailVerificationInpu
           const generateResult = await this.generateVerificationToken(
             inputs.userId!,
             inputs.email!,
+            purpose,
             inputs.expirationHours || 24
           );
           if (ctx.vars === undefined) ctx.vars = {};
@@ -188,15 +243,24 @@ export default class EmailVerification extends NanoService<EmailVerificationInpu
           break;
 
         case "verify":
-          const verifyResult = await this.verifyToken(inputs.token!);
+        case "validate":
+          const verifyResult = await this.verifyToken(
+            inputs.token!,
+            purpose,
+            inputs.operation === "verify"
+          );
           if (ctx.vars === undefined) ctx.vars = {};
           ctx.vars.verificationResult = verifyResult as unknown as ParamsDictionary;
           response.setSuccess({
             success: true,
-            message: verifyResult.valid ? "Email verified successfully" : "Invalid or expired token",
+            message: verifyResult.valid
+              ? (inputs.operation === "verify" ? "Email verified successfully" : "Token is valid")
+              : "Invalid or expired token",
             valid: verifyResult.valid,
             userId: verifyResult.userId,
             email: verifyResult.email,
+            userName: verifyResult.userName,
+            purpose: verifyResult.purpose,
           } as unknown as JsonLikeObject);
           break;
 
@@ -204,6 +268,7 @@ export default class EmailVerification extends NanoService<EmailVerificationInpu
           const resendResult = await this.resendVerification(
             inputs.userId!,
             inputs.email!,
+            purpose,
             inputs.expirationHours || 24
           );
           if (ctx.vars === undefined) ctx.vars = {};
@@ -233,6 +298,7 @@ export default class EmailVerification extends NanoService<EmailVerificationInpu
   private async generateVerificationToken(
     userId: string,
     email: string,
+    purpose: EmailTokenPurpose,
     expirationHours: number
   ): Promise<VerificationToken> {
     // Generate secure random token
@@ -242,33 +308,47 @@ export default class EmailVerification extends NanoService<EmailVerificationInpu
     const expiresAt = new Date();
     expiresAt.setHours(expiresAt.getHours() + expirationHours);
 
-    const verificationToken: VerificationToken = {
+    // Only the hash is persisted; the plaintext token exists in the email link alone
+    const record = await db.emailToken.create({
+      data: {
+        userId,
+        email,
+        purpose,
+        tokenHash: EmailVerification.hashToken(token),
+        expiresAt,
+      },
+    });
+
+    // Clean up expired tokens
+    await this.cleanupExpiredTokens();
+
+    return {
       token,
+      url: appUrl(EMAIL_TOKEN_PATHS[purpose](token)),
       userId,
       email,
-      expiresAt,
-      createdAt: new Date(),
-      verified: false,
+      purpose,
+      expiresAt: record.expiresAt,
+      createdAt: record.createdAt,
+      expirationHours,
     };
-
-    // Store token (in real implementation, this would be in a database)
-    EmailVerification.verificationTokens.set(token, verificationToken);
-
-    // Clean up expired tokens
-    this.cleanupExpiredTokens();
-
-    return verificationToken;
   }
 
-  private async verifyToken(token: string): Promise<{
-    valid: boolean;
-    userId?: string;
-    email?: string;
-    message?: string;
-  }> {
-    const verificationToken = EmailVerification.verificationTokens.get(token);
+  private async verifyToken(token: string, purpose: EmailTokenPurpose, consume: boolean): Promise<VerificationResult> {
+    if (!token) {
+      return {
+        valid: false,
+        message: "Invalid verification token",
+      };
+    }
+
+    const verificationToken = await db.emailToken.findUnique({
+      where: { tokenHash: EmailVerification.hashToken(token) },
+      include: { user: { select: { name: true } } },
+    });
 
-    if (!verificationToken) {
+    // A token issued for another purpose is treated as unknown
+    if (!verificationToken || verificationToken.purpose !== purpose) {
       return {
         valid: false,
         message: "Invalid verification token",
@@ -278,122 +358,118 @@ export default class EmailVerification extends NanoService<EmailVerificationInpu
     // Check if token is expired
     if (new Date() > verificationToken.expiresAt) {
       // Remove expired token
-      EmailVerification.verificationTokens.delete(token);
+      await db.emailToken.deleteMany({ where: { id: verificationToken.id } });
       return {
         valid: false,
         message: "Verification token has expired",
       };
     }
 
-    // Check if already verified
-    if (verificationToken.verified) {
+    // Check if already used
+    if (verificationToken.usedAt) {
       return {
         valid: false,
         message: "Token has already been used",
       };
     }
 
-    // Mark as verified
-    verificationToken.verified = true;
-    EmailVerification.verificationTokens.set(token, verificationToken);
+    if (consume) {
+      // Conditional update so concurrent requests (or processes) cannot both redeem the token
+      const consumed = await db.emailToken.updateMany({
+        where: { id: verificationToken.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (consumed.count === 0) {
+        return {
+          valid: false,
+          message: "Token has already been used",
+        };
+      }
+    }
 
     return {
       valid: true,
       userId: verificationToken.userId,
       email: verificationToken.email,
-      message: "Email verified successfully",
+      userName: verificationToken.user.name,
+      purpose,
+      message: consume ? "Email verified successfully" : "Token is valid",
     };
   }
 
   private async resendVerification(
     userId: string,
     email: string,
+    purpose: EmailTokenPurpose,
     expirationHours: number
   ): Promise<VerificationToken> {
     // Invalidate existing tokens for this user
-    this.invalidateUserTokens(userId, email);
+    await this.invalidateUserTokens(userId, email, purpose);
 
     // Generate new token
-    return await this.generateVerificationToken(userId, email, expirationHours);
+    return await this.generateVerificationToken(userId, email, purpose, expirationHours);
   }
 
-  private invalidateUserTokens(userId: string, email: string): void {
-    const tokensToDelete: string[] = [];
-
-    for (const [token, verificationToken] of EmailVerification.verificationTokens) {
-      if (verificationToken.userId === userId && verificationToken.email === email) {
-        tokensToDelete.push(token);
-      }
-    }
-
-    tokensToDelete.forEach(token => {
-      EmailVerification.verificationTokens.delete(token);
+  private async invalidateUserTokens(userId: string, email: string, purpose: EmailTokenPurpose): Promise<void> {
+    await db.emailToken.deleteMany({
+      where: { userId, email, purpose, usedAt: null },
     });
   }
 
-  private cleanupExpiredTokens(): void {
-    const now = new Date();
-    const tokensToDelete: string[] = [];
-
-    for (const [token, verificationToken] of EmailVerification.verificationTokens) {
-      if (now > verificationToken.expiresAt) {
-        tokensToDelete.push(token);
-      }
-    }
-
-    tokensToDelete.forEach(token => {
-      EmailVerification.verificationTokens.delete(token);
+  private async cleanupExpiredTokens(): Promise<void> {
+    await db.emailToken.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
     });
   }
 
+  // SHA-256 digest used to look up tokens without storing them in plaintext
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
   // Utility method to get verification URL
-  public static generateVerificationUrl(baseUrl: string, token: string): string {
-    return `${baseUrl}/verify-email?token=${token}`;
+  public static generateVerificationUrl(token: string): string {
+    return appUrl(EMAIL_TOKEN_PATHS["verify-email"](token));
   }
 
   // Utility method to get all active tokens for a user (for testing/admin purposes)
-  public static getUserTokens(userId: string): VerificationToken[] {
-    const userTokens: VerificationToken[] = [];
-    const now = new Date();
-
-    for (const verificationToken of EmailVerification.verificationTokens.values()) {
-      if (
-        verificationToken.userId === userId &&
-        now <= verificationToken.expiresAt &&
-        !verificationToken.verified
-      ) {
-        userTokens.push(verificationToken);
-      }
-    }
-
-    return userTokens;
+  public static async getUserTokens(userId: string, purpose?: EmailTokenPurpose): Promise<ActiveEmailToken[]> {
+    return db.emailToken.findMany({
+      where: {
+        userId,
+        purpose,
+        usedAt: null,
+        expiresAt: { gte: new Date() },
+      },
+      select: {
+        id: true,
+        userId: true,
+        email: true,
+        purpose: true,
+        expiresAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    }) as Promise<ActiveEmailToken[]>;
   }
 
   // Method to get token statistics (for admin dashboard)
-  public static getTokenStatistics(): {
+  public static async getTokenStatistics(purpose?: EmailTokenPurpose): Promise<{
     total: number;
     active: number;
     expired: number;
     verified: number;
-  } {
+  }> {
     const now = new Date();
-    let active = 0;
-    let expired = 0;
-    let verified = 0;
-
-    for (const token of EmailVerification.verificationTokens.values()) {
-      if (token.verified) {
-        verified++;
-      } else if (now > token.expiresAt) {
-        expired++;
-      } else {
-        active++;
-      }
-    }
+    const [total, verified, expired] = await Promise.all([
+      db.emailToken.count({ where: { purpose } }),
+      db.emailToken.count({ where: { purpose, usedAt: { not: null } } }),
+      db.emailToken.count({ where: { purpose, usedAt: null, expiresAt: { lt: now } } }),
+    ]);
 
     return {
-      total: EmailVerification.verificationTokens.size,
-      active,
+      total,
+      active: total - verified - expired,
       expired,
       verified,
     };
@@ -0,0 +1,20 @@
+/**
+ * Public address of the frontend, for links sent by email
+ *
+ * Emailed links carry single-use tokens, so they are only ever built from
+ * `APP_URL` and never from anything in the request: a link someone requests
+ * for another person's address can't be pointed at a host they control.
+ */
+
+export const DEFAULT_APP_URL = "http://localhost:4000";
+
+export function getAppUrl(): string {
+  return (process.env.APP_URL || DEFAULT_APP_URL).replace(/\/+$/, "");
+}
+
+/**
+ * `path` (with its query string) on the frontend, e.g. appUrl("/magic-link?token=...")
+ */
+export function appUrl(path: string): string {
+  return `${getAppUrl()}${path.startsWith("/") ? path : `/${path}`}`;
+}
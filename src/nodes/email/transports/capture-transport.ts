@@ -0,0 +1,182 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { type BuiltMessage, decodeQuotedPrintable } from "./mime";
+
+/**
+ * Capture transport: instead of delivering mail, write each message to
+ * `<dir>/<id>.eml` and record it in `<dir>/index.json`.
+ *
+ * Meant for local development and CI, where verification and reset links
+ * can be read back through the admin `captured-emails` endpoint.
+ */
+
+export interface CapturedEmailEntry {
+  id: string;
+  messageId: string;
+  from: string;
+  to: string[];
+  subject: string;
+  capturedAt: string;
+  file: string;
+  size: number;
+}
+
+export interface CapturedEmail extends CapturedEmailEntry {
+  text: string | null;
+  html: string | null;
+  links: string[];
+  raw: string;
+}
+
+const INDEX_FILE = "index.json";
+
+/**
+ * Directory captured mail is written to (EMAIL_CAPTURE_DIR, default `./.mail-capture`)
+ */
+export function getCaptureDir(): string {
+  return path.resolve(process.env.EMAIL_CAPTURE_DIR || path.join(process.cwd(), ".mail-capture"));
+}
+
+/**
+ * Maximum number of messages kept; older ones are pruned (EMAIL_CAPTURE_MAX, default 500)
+ */
+function getCaptureLimit(): number {
+  const limit = parseInt(process.env.EMAIL_CAPTURE_MAX || "500", 10);
+  return Number.isInteger(limit) && limit > 0 ? limit : 500;
+}
+
+// Serializes index updates within this process
+let indexLock: Promise<unknown> = Promise.resolve();
+
+function withIndexLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = indexLock.then(task, task);
+  indexLock = run.catch(() => undefined);
+  return run;
+}
+
+async function readIndex(dir: string): Promise<CapturedEmailEntry[]> {
+  try {
+    const content = await fs.readFile(path.join(dir, INDEX_FILE), "utf8");
+    const entries = JSON.parse(content);
+    return Array.isArray(entries) ? entries : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function writeIndex(dir: string, entries: CapturedEmailEntry[]): Promise<void> {
+  // Write-then-rename so readers never see a half-written index
+  const target = path.join(dir, INDEX_FILE);
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(entries, null, 2), "utf8");
+  await fs.rename(temp, target);
+}
+
+/**
+ * Store a built message and return its index entry
+ */
+export async function captureMessage(message: BuiltMessage, subject: string): Promise<CapturedEmailEntry> {
+  const dir = getCaptureDir();
+  await fs.mkdir(dir, { recursive: true });
+
+  const id = `${Date.now()}-${message.messageId.slice(1, 9)}`;
+  const file = `${id}.eml`;
+  await fs.writeFile(path.join(dir, file), message.raw, "utf8");
+
+  const entry: CapturedEmailEntry = {
+    id,
+    messageId: message.messageId,
+    from: message.envelope.from,
+    to: message.envelope.to,
+    subject,
+    capturedAt: message.date,
+    file,
+    size: Buffer.byteLength(message.raw, "utf8"),
+  };
+
+  await withIndexLock(async () => {
+    const entries = await readIndex(dir);
+    entries.unshift(entry);
+
+    const pruned = entries.splice(getCaptureLimit());
+    await writeIndex(dir, entries);
+    await Promise.all(pruned.map((old) => fs.rm(path.join(dir, old.file), { force: true })));
+  });
+
+  return entry;
+}
+
+/**
+ * Captured messages, newest first, optionally filtered by recipient
+ */
+export async function listCapturedEmails(options: { to?: string; limit?: number } = {}): Promise<CapturedEmailEntry[]> {
+  const entries = await readIndex(getCaptureDir());
+  const recipient = options.to?.toLowerCase();
+  const filtered = recipient
+    ? entries.filter((entry) => entry.to.some((address) => address.toLowerCase() === recipient))
+    : entries;
+
+  return options.limit ? filtered.slice(0, options.limit) : filtered;
+}
+
+/**
+ * Split a message we built ourselves into its decoded text and html parts
+ */
+function extractBodies(raw: string): { text: string | null; html: string | null } {
+  const bodies: { text: string | null; html: string | null } = { text: null, html: null };
+  const [headerBlock, ...bodyBlocks] = raw.split("\r\n\r\n");
+  const body = bodyBlocks.join("\r\n\r\n");
+  const boundary = headerBlock.match(/boundary="([^"]+)"/)?.[1];
+
+  const parts = boundary
+    ? body
+        .split(`--${boundary}`)
+        .slice(1, -1)
+        .map((part) => part.replace(/^\r\n/, ""))
+    : [`${headerBlock}\r\n\r\n${body}`];
+
+  for (const part of parts) {
+    const separator = part.indexOf("\r\n\r\n");
+    const headers = part.slice(0, separator);
+    const content = decodeQuotedPrintable(part.slice(separator + 4).replace(/\r\n$/, ""));
+
+    if (/Content-Type:\s*text\/html/i.test(headers)) {
+      bodies.html = content;
+    } else if (/Content-Type:\s*text\/plain/i.test(headers)) {
+      bodies.text = content;
+    }
+  }
+
+  return bodies;
+}
+
+/**
+ * A single captured message with its decoded bodies and the links it contains
+ */
+export async function getCapturedEmail(id: string): Promise<CapturedEmail | null> {
+  const dir = getCaptureDir();
+  const entry = (await readIndex(dir)).find((candidate) => candidate.id === id);
+  if (!entry) return null;
+
+  const raw = await fs.readFile(path.join(dir, entry.file), "utf8");
+  const { text, html } = extractBodies(raw);
+  const links = Array.from(new Set(`${text || ""}\n${html || ""}`.match(/https?:\/\/[^\s"'<>]+/g) || []));
+
+  return { ...entry, text, html, links, raw };
+}
+
+/**
+ * Delete every captured message and reset the index
+ */
+export async function clearCapturedEmails(): Promise<number> {
+  const dir = getCaptureDir();
+
+  return withIndexLock(async () => {
+    const entries = await readIndex(dir);
+    await Promise.all(entries.map((entry) => fs.rm(path.join(dir, entry.file), { force: true })));
+    await fs.mkdir(dir, { recursive: true });
+    await writeIndex(dir, []);
+    return entries.length;
+  });
+}
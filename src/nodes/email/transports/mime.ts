@@ -0,0 +1,205 @@
+import crypto from "crypto";
+
+/**
+ * Minimal RFC 5322 / MIME message builder shared by the SMTP and capture
+ * transports, so a captured `.eml` is byte-for-byte what would be sent.
+ */
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  html?: string;
+  text?: string;
+  replyTo?: string;
+}
+
+export interface BuiltMessage {
+  messageId: string;
+  date: string;
+  envelope: {
+    from: string;
+    to: string[];
+  };
+  raw: string;
+}
+
+const CRLF = "\r\n";
+
+// Addresses as they may appear in SMTP commands: dot-atom local part, no quoted
+// strings or address literals. Anything else (CR/LF in particular) is rejected
+// before it reaches a header or an SMTP command.
+const MAILBOX_FORMAT =
+  /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*@[A-Za-z0-9]([A-Za-z0-9-]*[A-Za-z0-9])?(\.[A-Za-z0-9]([A-Za-z0-9-]*[A-Za-z0-9])?)*$/;
+
+export function isValidMailbox(address: string): boolean {
+  return MAILBOX_FORMAT.test(address);
+}
+
+function mailbox(address: string): string {
+  if (!isValidMailbox(address)) {
+    throw new Error(`Invalid email address: ${JSON.stringify(address)}`);
+  }
+  return address;
+}
+
+/**
+ * Extract the bare address from `Name <user@example.com>` or `user@example.com`
+ */
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * RFC 2047 encoded-word for header values that are not plain ASCII
+ */
+export function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+  return `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * Encode an address header, keeping the address itself unencoded
+ */
+function encodeAddressHeader(value: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`Invalid email address: ${JSON.stringify(value)}`);
+  }
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match) {
+    return mailbox(value.trim());
+  }
+  const address = mailbox(match[2].trim());
+  return match[1] ? `${encodeHeaderValue(match[1])} <${address}>` : `<${address}>`;
+}
+
+/**
+ * Quoted-printable body encoding (RFC 2045 §6.7) with 76-character soft line breaks
+ */
+export function encodeQuotedPrintable(input: string): string {
+  const lines = input.replace(/\r\n|\r/g, "\n").split("\n");
+
+  return lines
+    .map((line) => {
+      const bytes = Buffer.from(line, "utf8");
+      let encoded = "";
+      let current = "";
+
+      bytes.forEach((byte, index) => {
+        const isLast = index === bytes.length - 1;
+        let chunk: string;
+
+        if ((byte === 0x20 || byte === 0x09) && isLast) {
+          // Trailing whitespace would be stripped in transit
+          chunk = `=${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+        } else if ((byte >= 33 && byte <= 126 && byte !== 61) || byte === 0x20 || byte === 0x09) {
+          chunk = String.fromCharCode(byte);
+        } else {
+          chunk = `=${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+        }
+
+        if (current.length + chunk.length > 75) {
+          encoded += `${current}=${CRLF}`;
+          current = "";
+        }
+        current += chunk;
+      });
+
+      return encoded + current;
+    })
+    .join(CRLF);
+}
+
+/**
+ * Decode a quoted-printable body (inverse of `encodeQuotedPrintable`)
+ */
+export function decodeQuotedPrintable(input: string): string {
+  const withoutSoftBreaks = input.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+
+  for (let i = 0; i < withoutSoftBreaks.length; i++) {
+    const char = withoutSoftBreaks[i];
+    const hex = withoutSoftBreaks.slice(i + 1, i + 3);
+    if (char === "=" && /^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(char, "utf8"));
+    }
+  }
+
+  return Buffer.from(bytes).toString("utf8");
+}
+
+function buildPart(contentType: string, body: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    encodeQuotedPrintable(body),
+  ].join(CRLF);
+}
+
+/**
+ * Build a complete message: headers plus a text, html, or multipart/alternative body
+ */
+export function buildMimeMessage(email: OutgoingEmail): BuiltMessage {
+  const fromAddress = mailbox(extractAddress(email.from));
+  const domain = fromAddress.split("@")[1] || "localhost";
+  const messageId = `<${crypto.randomUUID()}@${domain}>`;
+  const date = new Date().toUTCString().replace("GMT", "+0000");
+  const recipients = email.to
+    .split(",")
+    .map((address) => extractAddress(address))
+    .filter(Boolean)
+    .map((address) => mailbox(address));
+
+  const headers = [
+    `From: ${encodeAddressHeader(email.from)}`,
+    `To: ${email.to
+      .split(",")
+      .filter((address) => address.trim())
+      .map((address) => encodeAddressHeader(address))
+      .join(", ")}`,
+    `Subject: ${encodeHeaderValue(email.subject)}`,
+    `Date: ${date}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+  ];
+
+  if (email.replyTo) {
+    headers.push(`Reply-To: ${encodeAddressHeader(email.replyTo)}`);
+  }
+
+  let body: string;
+  if (email.html && email.text) {
+    const boundary = `=_blok_${crypto.randomBytes(12).toString("hex")}`;
+    headers.push(`Content-Type: multipart/alternative; boundary="${boundary}"`);
+    body = [
+      `--${boundary}`,
+      buildPart("text/plain", email.text),
+      `--${boundary}`,
+      buildPart("text/html", email.html),
+      `--${boundary}--`,
+      "",
+    ].join(CRLF);
+  } else {
+    const part = buildPart(email.html ? "text/html" : "text/plain", email.html || email.text || "");
+    const [partHeaders, ...rest] = part.split(`${CRLF}${CRLF}`);
+    headers.push(...partHeaders.split(CRLF));
+    body = rest.join(`${CRLF}${CRLF}`) + CRLF;
+  }
+
+  return {
+    messageId,
+    date: new Date().toISOString(),
+    envelope: {
+      from: fromAddress,
+      to: recipients,
+    },
+    raw: `${headers.join(CRLF)}${CRLF}${CRLF}${body}`,
+  };
+}
@@ -0,0 +1,311 @@
+import net from "net";
+import os from "os";
+import tls from "tls";
+import { type BuiltMessage, isValidMailbox } from "./mime";
+
+/**
+ * Minimal SMTP client (RFC 5321) on top of `net`/`tls`
+ *
+ * Supports implicit TLS (port 465), STARTTLS, AUTH PLAIN/LOGIN and
+ * dot-stuffed DATA — enough for real relays as well as local sinks such as
+ * MailHog, Mailpit or smtp4dev.
+ */
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean; // implicit TLS; defaults to true for port 465
+  requireTLS?: boolean; // fail if STARTTLS is not offered
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+  clientName?: string;
+  tlsRejectUnauthorized?: boolean;
+}
+
+export interface SmtpSendResult {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+  response: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = "";
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket, private timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(this.timeoutMs);
+    socket.on("data", (chunk: Buffer) => this.onData(chunk.toString("utf8")));
+    socket.on("timeout", () => this.fail(new SmtpError("SMTP connection timed out")));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new SmtpError("SMTP connection closed unexpectedly")));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf("\n")) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(index + 1);
+      this.replyLines.push(line);
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.replyLines.map((l) => l.slice(4)) };
+        this.replyLines = [];
+        if (this.waiting) {
+          const { resolve } = this.waiting;
+          this.waiting = null;
+          resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  async command(line: string, expected: number[], label = line.split(" ")[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(" ")}`, reply.code);
+    }
+    return reply;
+  }
+
+  /**
+   * Upgrade the plain socket after a successful STARTTLS
+   */
+  async upgrade(options: SmtpOptions): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners("data");
+    plain.removeAllListeners("timeout");
+    plain.removeAllListeners("error");
+    plain.removeAllListeners("close");
+    plain.setTimeout(0);
+
+    const secureSocket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const socket = tls.connect(
+        {
+          socket: plain,
+          servername: options.host,
+          rejectUnauthorized: options.tlsRejectUnauthorized !== false,
+        },
+        () => resolve(socket)
+      );
+      socket.once("error", reject);
+    });
+
+    this.socket = secureSocket;
+    this.buffer = "";
+    this.attach(secureSocket);
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.failure = this.failure || new SmtpError("SMTP connection closed");
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  const timeoutMs = options.timeoutMs ?? 10000;
+  const secure = options.secure ?? options.port === 465;
+
+  return new Promise((resolve, reject) => {
+    const socket: net.Socket = secure
+      ? tls.connect({
+          host: options.host,
+          port: options.port,
+          servername: options.host,
+          rejectUnauthorized: options.tlsRejectUnauthorized !== false,
+        })
+      : net.connect({ host: options.host, port: options.port });
+
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new SmtpError(`Timed out connecting to ${options.host}:${options.port}`));
+    }, timeoutMs);
+
+    socket.once(secure ? "secureConnect" : "connect", () => {
+      clearTimeout(timer);
+      socket.removeAllListeners("error");
+      resolve(socket);
+    });
+    socket.once("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+function parseExtensions(reply: SmtpReply): Set<string> {
+  // The first line is the greeting; the rest are "KEYWORD [params]"
+  return new Set(reply.lines.slice(1).map((line) => line.toUpperCase()));
+}
+
+function hasExtension(extensions: Set<string>, keyword: string): boolean {
+  return [...extensions].some((line) => line === keyword || line.startsWith(`${keyword} `));
+}
+
+/**
+ * Open a connection, greet the server, negotiate TLS and authenticate
+ */
+async function openSession(options: SmtpOptions): Promise<{ connection: SmtpConnection; extensions: Set<string> }> {
+  const socket = await connect(options);
+  const connection = new SmtpConnection(socket, options.timeoutMs ?? 10000);
+  const clientName = options.clientName || os.hostname() || "localhost";
+  const secure = options.secure ?? options.port === 465;
+
+  try {
+    await connection.expect([220], "greeting");
+    let extensions = parseExtensions(await connection.command(`EHLO ${clientName}`, [250]));
+
+    if (!secure && hasExtension(extensions, "STARTTLS")) {
+      await connection.command("STARTTLS", [220]);
+      await connection.upgrade(options);
+      extensions = parseExtensions(await connection.command(`EHLO ${clientName}`, [250]));
+    } else if (!secure && options.requireTLS) {
+      throw new SmtpError("SMTP server does not support STARTTLS");
+    }
+
+    if (options.user) {
+      const auth = [...extensions].find((line) => line.startsWith("AUTH")) || "";
+      if (auth.includes("PLAIN") || !auth.includes("LOGIN")) {
+        const credentials = Buffer.from(`\u0000${options.user}\u0000${options.password || ""}`).toString("base64");
+        await connection.command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+      } else {
+        await connection.command("AUTH LOGIN", [334]);
+        await connection.command(Buffer.from(options.user).toString("base64"), [334], "AUTH");
+        await connection.command(Buffer.from(options.password || "").toString("base64"), [235], "AUTH");
+      }
+    }
+
+    return { connection, extensions };
+  } catch (error) {
+    connection.close();
+    throw error;
+  }
+}
+
+/**
+ * Escape lines starting with "." and normalize line endings for DATA
+ */
+function dotStuff(raw: string): string {
+  return raw
+    .replace(/\r\n|\r|\n/g, "\r\n")
+    .split("\r\n")
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n");
+}
+
+/**
+ * Deliver a built message over SMTP
+ */
+export async function sendSmtpMail(options: SmtpOptions, message: BuiltMessage): Promise<SmtpSendResult> {
+  // Addresses go into MAIL FROM / RCPT TO verbatim, so a CR/LF would inject commands
+  const invalid = [message.envelope.from, ...message.envelope.to].find((address) => !isValidMailbox(address));
+  if (invalid !== undefined) {
+    throw new SmtpError(`Invalid envelope address: ${JSON.stringify(invalid)}`);
+  }
+
+  const { connection } = await openSession(options);
+  const accepted: string[] = [];
+  const rejected: string[] = [];
+
+  try {
+    await connection.command(`MAIL FROM:<${message.envelope.from}>`, [250]);
+
+    for (const recipient of message.envelope.to) {
+      try {
+        await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+        accepted.push(recipient);
+      } catch (error) {
+        if (!(error instanceof SmtpError)) throw error;
+        rejected.push(recipient);
+      }
+    }
+
+    if (accepted.length === 0) {
+      throw new SmtpError(`All recipients were rejected: ${rejected.join(", ")}`);
+    }
+
+    await connection.command("DATA", [354]);
+    const body = dotStuff(message.raw);
+    connection.write(body.endsWith("\r\n") ? body : `${body}\r\n`);
+    const reply = await connection.command(".", [250]);
+
+    await connection.command("QUIT", [221]).catch(() => undefined);
+
+    return {
+      messageId: message.messageId,
+      accepted,
+      rejected,
+      response: reply.lines.join(" "),
+    };
+  } finally {
+    connection.close();
+  }
+}
+
+/**
+ * Check that the server is reachable and accepts the configured credentials
+ */
+export async function verifySmtpConnection(options: SmtpOptions): Promise<boolean> {
+  const { connection } = await openSession(options);
+  try {
+    await connection.command("QUIT", [221]).catch(() => undefined);
+    return true;
+  } finally {
+    connection.close();
+  }
+}
@@ -1,5 +1,7 @@
 import { type INanoServiceResponse, NanoService, NanoServiceResponse, type ParamsDictionary, type JsonLikeObject } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { getTriggerPolicy, requiresAuthentication } from "../../runner/TriggerPolicy";
+import { hasPermissions } from "../auth/permissions";
 
 interface WorkflowDiscoveryInput {
   includeSchemas?: boolean;
@@ -15,6 +17,7 @@ interface WorkflowSchema {
   methods: string[];
   authRequired: boolean;
   roles: string[];
+  permissions: string[];
   inputSchema?: any;
   outputSchema?: any;
   parameters?: {
@@ -97,7 +100,14 @@ export default class WorkflowDiscovery extends NanoService<WorkflowDiscoveryInpu
               },
               roles: {
                 type: "array",
-                description: "Required user roles",
+                description: "Allowed user roles (empty: any role)",
+                items: {
+                  type: "string"
+                }
+              },
+              permissions: {
+                type: "array",
+                description: "Permissions the user's role must grant",
                 items: {
                   type: "string"
                 }
@@ -133,7 +143,7 @@ export default class WorkflowDiscovery extends NanoService<WorkflowDiscoveryInpu
                 }
               }
             },
-            required: ["key", "name", "version", "description", "path", "methods", "authRequired", "roles"]
+            required: ["key", "name", "version", "description", "path", "methods", "authRequired", "roles", "permissions"]
           }
         },
         totalCount: {
@@ -143,8 +153,7 @@ export default class WorkflowDiscovery extends NanoService<WorkflowDiscoveryInpu
         },
         userRole: {
           type: "string",
-          description: "Current user's role",
-          enum: ["guest", "user", "admin"]
+          description: "Current user's role (lower-case), or \"guest\""
         },
         timestamp: {
           type: "string",
@@ -165,13 +174,14 @@ export default class WorkflowDiscovery extends NanoService<WorkflowDiscoveryInpu
 
     try {
       // Get user role for filtering
-      const userRole = ctx.vars?.user?.role || 'guest';
+      const userRole = (ctx.vars?.currentUser?.role as string | undefined)?.toLowerCase() || 'guest';
       const isAuthenticated = Boolean(ctx.vars?.isAuthenticated);
-
+      const userPermissions = (ctx.vars?.currentUser?.permissions as unknown as string[] | undefined) ?? [];
 
       // Discover all workflows
       const workflows = await this.discoverWorkflows({
         userRole,
+        userPermissions,
         isAuthenticated,
         includeSchemas: inputs.includeSchemas ?? true,
         filterByRole: inputs.filterByRole ?? true
@@ -205,6 +215,7 @@ export default class WorkflowDiscovery extends NanoService<WorkflowDiscoveryInpu
 
   private async discoverWorkflows(options: {
     userRole: string;
+    userPermissions: string[];
     isAuthenticated: boolean;
     includeSchemas: boolean;
     filterByRole: boolean;
@@ -256,7 +267,7 @@ export default class WorkflowDiscovery extends NanoService<WorkflowDiscoveryInpu
       
       // Filter by role if requested
       if (options.filterByRole) {
-        const filtered = workflows.filter(workflow => this.canUserAccessWorkflow(workflow, options.userRole, options.isAuthenticated));
+        const filtered = workflows.filter(workflow => this.canUserAccessWorkflow(workflow, options.userRole, options.userPermissions, options.isAuthenticated));
         return filtered;
       }
 
@@ -283,8 +294,8 @@ export default class WorkflowDiscovery extends NanoService<WorkflowDiscoveryInpu
         return null; // Not a valid HTTP workflow
       }
 
-      // Determine auth requirements and roles based on workflow key and definition
-      const authInfo = this.analyzeAuthRequirementsFromKey(workflowKey, workflowDefinition);
+      // Determine auth requirements, roles and permissions from the trigger policy
+      const authInfo = this.analyzeAuthRequirementsFromDefinition(workflowDefinition);
       
       // Convert trigger path to API path (add /api prefix if not present)
       let apiPath = httpTrigger.path;
@@ -303,6 +314,7 @@ export default class WorkflowDiscovery extends NanoService<WorkflowDiscoveryInpu
         methods: Array.isArray(httpTrigger.method) ? httpTrigger.method : [httpTrigger.method],
         authRequired: authInfo.required,
         roles: authInfo.roles,
+        permissions: authInfo.permissions,
       };
 
       // Include schemas if requested
@@ -326,6 +338,14 @@ export default class WorkflowDiscovery extends NanoService<WorkflowDiscoveryInpu
 
   private extractHttpTriggerFromDefinition(workflowDefinition: any): { method: string; path: string } | null {
     try {
+      const http = this.getHttpTriggerConfig(workflowDefinition);
+      if (http) {
+        return {
+          method: (http.method as string) || 'GET',
+          path: (http.path as string) || '/'
+        };
+      }
+
       // Access the workflow configuration
       const config = workflowDefinition._config;
       if (!config) {
@@ -356,65 +376,34 @@ export default class WorkflowDiscovery extends NanoService<WorkflowDiscoveryInpu
     }
   }
 
-  private analyzeAuthRequirementsFromKey(workflowKey: string, workflowDefinition: any): { required: boolean; roles: string[] } {
-    // Determine auth requirements based on workflow key patterns
-    const key = workflowKey.toLowerCase();
-    
-    // Admin workflows require admin role
-    if (key.includes('admin') || key.includes('user-management') || key.includes('user-role') || key.includes('audit')) {
-      return {
-        required: true,
-        roles: ['admin']
-      };
-    }
-    
-    // Authentication workflows (except registration) require auth
-    if (key.startsWith('auth-') && !key.includes('register')) {
-      return {
-        required: true,
-        roles: ['user', 'admin']
-      };
-    }
-    
-    // Profile workflows require auth
-    if (key.includes('profile') || key.includes('notification') || key.includes('theme-preferences')) {
-      return {
-        required: true,
-        roles: ['user', 'admin']
-      };
-    }
-    
-    // Security workflows require auth
-    if (key.includes('two-factor') || key.includes('password-reset')) {
-      return {
-        required: true,
-        roles: ['user', 'admin']
-      };
-    }
-    
-    // Email workflows (except verification) might require admin
-    if (key.includes('email-service')) {
-      return {
-        required: true,
-        roles: ['admin']
-      };
-    }
-    
-    // Test workflows and public endpoints
-    if (key.includes('test') || key.includes('countries') || key.includes('empty') || key.includes('register') || key.includes('verification') || key.includes('discovery')) {
-      return {
-        required: false,
-        roles: ['guest', 'user', 'admin']
-      };
-    }
-    
-    // Default: require authentication but allow discovery for development
+  private analyzeAuthRequirementsFromDefinition(workflowDefinition: any): { required: boolean; roles: string[]; permissions: string[] } {
+    // Declarative policy from addTrigger("http", { auth, roles, permissions }), enforced by the HTTP trigger
+    const policy = getTriggerPolicy(this.getHttpTriggerConfig(workflowDefinition));
+
     return {
-      required: false, // Make all workflows discoverable for SDK generation
-      roles: ['guest', 'user', 'admin']
+      required: requiresAuthentication(policy) || this.hasRequiredAuthenticationStep(workflowDefinition),
+      roles: policy.roles?.map((role) => role.toLowerCase()) ?? [],
+      permissions: policy.permissions ?? []
     };
   }
 
+  /**
+   * Workflows that still check the session with an explicit `authentication-checker` step
+   */
+  private hasRequiredAuthenticationStep(workflowDefinition: any): boolean {
+    const steps = Array.isArray(workflowDefinition?.steps) ? workflowDefinition.steps : [];
+    const nodes = workflowDefinition?.nodes || {};
+
+    return steps.some((step: any) =>
+      step?.node === 'authentication-checker' && nodes[step.name]?.inputs?.requireAuth === true
+    );
+  }
+
+  private getHttpTriggerConfig(workflowDefinition: any): Record<string, unknown> | undefined {
+    return workflowDefinition?.trigger?.http || workflowDefinition?._config?.trigger?.http;
+  }
+
+
   private generateInputSchemaFromKey(workflowKey: string): any {
     const key = workflowKey.toLowerCase();
     
@@ -439,7 +428,7 @@ export default class WorkflowDiscovery extends NanoService<WorkflowDiscoveryInpu
           email: { type: "string", format: "email" },
           password: { type: "string", minLength: 8 },
           name: { type: "string", minLength: 1 },
-          role: { type: "string", enum: ["user", "admin"], default: "user" }
+          role: { type: "string", default: "USER" }
         },
         required: ["email", "password", "name"],
         additionalProperties: false
@@ -468,7 +457,7 @@ export default class WorkflowDiscovery extends NanoService<WorkflowDiscoveryInpu
           page: { type: "number", minimum: 1, default: 1 },
           limit: { type: "number", minimum: 1, maximum: 100, default: 20 },
           search: { type: "string" },
-          role: { type: "string", enum: ["user", "admin"] },
+          role: { type: "string" },
           sortBy: { type: "string", default: "createdAt" },
           sortOrder: { type: "string", enum: ["asc", "desc"], default: "desc" }
         },
@@ -609,7 +598,12 @@ export default class WorkflowDiscovery extends NanoService<WorkflowDiscoveryInpu
     return parameters;
   }
 
-  private canUserAccessWorkflow(workflow: WorkflowSchema, userRole: string, isAuthenticated: boolean): boolean {
+  private canUserAccessWorkflow(
+    workflow: WorkflowSchema,
+    userRole: string,
+    userPermissions: string[],
+    isAuthenticated: boolean
+  ): boolean {
     // If workflow doesn't require auth, everyone can access
     if (!workflow.authRequired) {
       return true;
@@ -620,7 +614,12 @@ export default class WorkflowDiscovery extends NanoService<WorkflowDiscoveryInpu
       return false;
     }
 
-    // Check if user role is in allowed roles
-    return workflow.roles.includes(userRole);
+    // Check if user role is in allowed roles, when the workflow restricts them
+    if (workflow.roles.length > 0 && !workflow.roles.includes(userRole)) {
+      return false;
+    }
+
+    // Check that the user's role grants every required permission
+    return hasPermissions(userPermissions, workflow.permissions);
   }
 }
@@ -3,6 +3,8 @@ import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import { type ParamsDictionary, type JsonLikeObject } from "@nanoservice-ts/runner";
 
 import { db } from "../../../database/config";
+import { organizationScope } from "../auth/organization-scope";
+import { isOrganizationMember } from "../auth/organizations";
 
 // Define interfaces locally since we no longer use Drizzle schemas
 interface CreateNotificationPayload {
@@ -18,6 +20,7 @@ interface CreateNotificationPayload {
   metadata?: string;
   sourceWorkflow?: string;
   sourceNode?: string;
+  organizationId?: string | null;
 }
 
 interface CreateNotificationInput {
@@ -193,6 +196,20 @@ export default class CreateNotification extends NanoService<CreateNotificationIn
         throw new Error("userId, title, and message are required");
       }
 
+      // Notifications sent within an organization can only reach its members
+      const scope = organizationScope(ctx);
+      if (
+        scope.organizationId &&
+        inputs.userId !== scope.userId &&
+        !(await isOrganizationMember(inputs.userId, scope.organizationId))
+      ) {
+        const nodeError = new GlobalError("User not found in this organization");
+        nodeError.setCode(404);
+        nodeError.setName("create-notification");
+        response.setError(nodeError);
+        return response;
+      }
+
       // Prepare notification data
       const notificationData: CreateNotificationPayload = {
         userId: inputs.userId,
@@ -207,6 +224,7 @@ export default class CreateNotification extends NanoService<CreateNotificationIn
         sourceWorkflow: inputs.sourceWorkflow?.trim() || undefined,
         sourceNode: inputs.sourceNode?.trim() || undefined,
         expiresAt: inputs.expiresAt ? new Date(inputs.expiresAt) : undefined,
+        organizationId: scope.organizationId,
       };
 
       // Insert notification into database
@@ -3,6 +3,7 @@ import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import { type ParamsDictionary, type JsonLikeObject } from "@nanoservice-ts/runner";
 
 import { db } from "../../../database/config";
+import { organizationScope, scopedNotificationWhere } from "../auth/organization-scope";
 
 interface GetUserNotificationsInput {
   userId: string;
@@ -186,9 +187,13 @@ export default class GetUserNotifications extends NanoService<GetUserNotificatio
       const unreadOnly = inputs.unreadOnly || false;
       const includeExpired = inputs.includeExpired || false;
 
+      // Personal notifications and those sent within the active organization
+      const organizationWhere = scopedNotificationWhere(organizationScope(ctx));
+
       // Build query conditions for Prisma
       const where: any = {
-        userId: inputs.userId
+        userId: inputs.userId,
+        AND: [organizationWhere]
       };
 
       // Filter by read status if requested
@@ -199,10 +204,12 @@ export default class GetUserNotifications extends NanoService<GetUserNotificatio
       // Filter out expired notifications unless requested
       if (!includeExpired) {
         const now = new Date();
-        where.OR = [
-          { expiresAt: null },
-          { expiresAt: { gt: now } }
-        ];
+        where.AND.push({
+          OR: [
+            { expiresAt: null },
+            { expiresAt: { gt: now } }
+          ]
+        });
       }
 
       // Get notifications
@@ -222,17 +229,9 @@ export default class GetUserNotifications extends NanoService<GetUserNotificatio
 
       // Get unread count
       const unreadWhere: any = {
-        userId: inputs.userId,
+        ...where,
         isRead: false
       };
-      
-      if (!includeExpired) {
-        const now = new Date();
-        unreadWhere.OR = [
-          { expiresAt: null },
-          { expiresAt: { gt: now } }
-        ];
-      }
 
       const unreadCount = await db.notification.count({
         where: unreadWhere
@@ -4,8 +4,8 @@ import {
   NanoServiceResponse,
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
-import bcrypt from "bcryptjs";
 import { db } from "../../../../database/config";
+import { changePassword, verifyPassword } from "../../auth/passwords";
 
 interface InputType {
   userId: string;
@@ -30,7 +30,6 @@ interface InputType {
 
 interface UserUpdateData {
   name?: string;
-  email?: string;
   passwordHash?: string;
   profileImage?: string;
   preferences?: string;
@@ -41,7 +40,7 @@ interface UserUpdateData {
  * User Profile Update Node
  * 
  * This node handles comprehensive user profile updates including:
- * - Basic profile information (name, email)
+ * - Basic profile information (name; email changes go through the email-change workflow)
  * - Password changes with current password verification
  * - Profile image updates
  * - User preferences and settings
@@ -246,26 +245,9 @@ export default class UserProfileUpdate extends NanoService<InputType> {
         updatedAt: new Date().toISOString()
       };
 
-      // Handle email update with uniqueness check
-      if (email && email !== existingUser.email) {
-        // Validate email format
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        if (!emailRegex.test(email)) {
-          throw new Error("Invalid email format");
-        }
-
-        // Check if email is already taken
-        const emailExists = await db.user.findUnique({
-          where: {
-            email: email
-          }
-        });
-
-        if (emailExists) {
-          throw new Error("Email address is already in use");
-        }
-
-        updateData.email = email;
+      // The address only changes once the new one is confirmed (email-change workflow)
+      if (email && email.trim().toLowerCase() !== existingUser.email.toLowerCase()) {
+        throw new Error("Your email address can't be changed here. Use Change Email on your profile; we'll send a confirmation link to the new address.");
       }
 
       // Handle name update
@@ -292,7 +274,7 @@ export default class UserProfileUpdate extends NanoService<InputType> {
         }
 
         // Verify current password
-        const isCurrentPasswordValid = await bcrypt.compare(
+        const isCurrentPasswordValid = await verifyPassword(
           currentPassword, 
           existingUser.passwordHash
         );
@@ -301,9 +283,8 @@ export default class UserProfileUpdate extends NanoService<InputType> {
           throw new Error("Current password is incorrect. Please check your current password and try again. If you've forgotten your password, please contact support.");
         }
 
-        // Hash new password
-        const saltRounds = 12;
-        updateData.passwordHash = await bcrypt.hash(newPassword, saltRounds);
+        // Hashes and stores it, rejecting passwords within PASSWORD_HISTORY_DEPTH
+        await changePassword(userId, newPassword);
       }
 
       // Handle profile image update
@@ -5,6 +5,7 @@ import {
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import { db } from "../../../../database/config";
+import { type OrganizationScope, organizationScope, scopedLogWhere } from "../../auth/organization-scope";
 
 // Type definition for audit log creation
 interface NewAuditLog {
@@ -17,6 +18,7 @@ interface NewAuditLog {
   userAgent?: string | null;
   success?: boolean;
   errorMessage?: string | null;
+  organizationId?: string | null;
 }
 
 interface InputType {
@@ -56,6 +58,8 @@ interface AuditQueryResult {
  * - Query audit logs with filtering
  * - Get recent activity summaries
  * - Track failed login attempts and suspicious activity
+ *
+ * Queries only return events of the current user's organization.
  */
 export default class AuditLogger extends NanoService<InputType> {
   /**
@@ -96,16 +100,17 @@ export default class AuditLogger extends NanoService<InputType> {
 
     try {
       let result;
+      const scope = organizationScope(ctx);
       
       switch (inputs.action) {
         case 'log':
-          result = await this.logEvent(inputs);
+          result = await this.logEvent(inputs, scope);
           break;
         case 'query':
-          result = await this.queryLogs(inputs);
+          result = await this.queryLogs(inputs, scope);
           break;
         case 'getRecentActivity':
-          result = await this.getRecentActivity(inputs);
+          result = await this.getRecentActivity(inputs, scope);
           break;
         default:
           throw new Error(`Unsupported action: ${inputs.action}`);
@@ -131,7 +136,7 @@ export default class AuditLogger extends NanoService<InputType> {
   /**
    * Log a security event
    */
-  private async logEvent(inputs: InputType) {
+  private async logEvent(inputs: InputType, scope: OrganizationScope) {
     if (!inputs.event) {
       throw new Error("Event name is required for logging");
     }
@@ -146,6 +151,7 @@ export default class AuditLogger extends NanoService<InputType> {
       userAgent: inputs.userAgent || null,
       success: inputs.success !== undefined ? inputs.success : true,
       errorMessage: inputs.errorMessage || null,
+      organizationId: scope.organizationId,
     };
 
     const insertedLog = await db.auditLog.create({
@@ -162,12 +168,12 @@ export default class AuditLogger extends NanoService<InputType> {
   /**
    * Query audit logs with filtering
    */
-  private async queryLogs(inputs: InputType): Promise<AuditQueryResult> {
+  private async queryLogs(inputs: InputType, scope: OrganizationScope): Promise<AuditQueryResult> {
     const limit = inputs.limit || 50;
     const offset = inputs.offset || 0;
     
     // Build where conditions
-    const where: any = {};
+    const where: any = { AND: [await scopedLogWhere(scope)] };
     
     if (inputs.filterUserId) {
       where.userId = inputs.filterUserId;
@@ -225,11 +231,12 @@ export default class AuditLogger extends NanoService<InputType> {
   /**
    * Get recent activity summary
    */
-  private async getRecentActivity(inputs: InputType) {
+  private async getRecentActivity(inputs: InputType, scope: OrganizationScope) {
     const limit = inputs.limit || 20;
     
     // Get recent logs
     const recentLogs = await db.auditLog.findMany({
+      where: await scopedLogWhere(scope),
       orderBy: {
         createdAt: 'desc'
       },
@@ -0,0 +1,236 @@
+import crypto from "crypto";
+
+/**
+ * Rate limiting algorithms
+ *
+ * Each algorithm is a pair of pure functions over a JSON-serializable state,
+ * so the same logic runs unchanged on top of any `RateLimitStore`:
+ * - `hit` decides whether a request is allowed and returns the new state plus a
+ *   receipt identifying what was counted;
+ * - `refund` removes a previously counted request again (used to honor
+ *   `skipSuccessfulRequests` / `skipFailedRequests` once the outcome is known).
+ */
+
+export type RateLimitAlgorithmName = "sliding-log" | "sliding-window-counter" | "token-bucket";
+
+export interface RateLimitRule {
+  windowMs: number;
+  maxRequests: number;
+}
+
+export interface RateLimitDecision {
+  isAllowed: boolean;
+  currentRequests: number; // requests counted against the limit, including this one if allowed
+  remainingRequests: number;
+  resetTime: number; // unix ms when the limit is fully restored
+  retryAfter?: number; // seconds until the next request would be allowed
+}
+
+export type RateLimitState = Record<string, unknown>;
+export type RateLimitReceipt = Record<string, unknown> | null;
+
+export interface RateLimitHit {
+  state: RateLimitState;
+  decision: RateLimitDecision;
+  receipt: RateLimitReceipt; // null when nothing was counted (blocked requests)
+  expiresAt: number; // unix ms after which the state can be discarded
+}
+
+export interface RateLimitAlgorithm {
+  hit(state: RateLimitState | null, rule: RateLimitRule, now: number): RateLimitHit;
+  refund(state: RateLimitState, receipt: NonNullable<RateLimitReceipt>, rule: RateLimitRule, now: number): RateLimitState;
+}
+
+const toSeconds = (ms: number): number => Math.max(1, Math.ceil(ms / 1000));
+
+/**
+ * Sliding log: keeps the timestamp of every counted request in the window.
+ * Exact, at the cost of O(maxRequests) state per key.
+ */
+type SlidingLogState = { hits: Array<{ id: string; t: number }> };
+
+const slidingLog: RateLimitAlgorithm = {
+  hit(state, rule, now) {
+    const windowStart = now - rule.windowMs;
+    const hits = ((state as SlidingLogState | null)?.hits || []).filter((entry) => entry.t > windowStart);
+
+    if (hits.length >= rule.maxRequests) {
+      const oldest = hits[0].t;
+      return {
+        state: { hits },
+        decision: {
+          isAllowed: false,
+          currentRequests: hits.length,
+          remainingRequests: 0,
+          resetTime: hits[hits.length - 1].t + rule.windowMs,
+          retryAfter: toSeconds(oldest + rule.windowMs - now),
+        },
+        receipt: null,
+        expiresAt: hits[hits.length - 1].t + rule.windowMs,
+      };
+    }
+
+    const id = crypto.randomUUID();
+    hits.push({ id, t: now });
+
+    return {
+      state: { hits },
+      decision: {
+        isAllowed: true,
+        currentRequests: hits.length,
+        remainingRequests: rule.maxRequests - hits.length,
+        resetTime: now + rule.windowMs,
+      },
+      receipt: { id },
+      expiresAt: now + rule.windowMs,
+    };
+  },
+
+  refund(state, receipt) {
+    const hits = (state as SlidingLogState).hits || [];
+    return { hits: hits.filter((entry) => entry.id !== receipt.id) };
+  },
+};
+
+/**
+ * Sliding window counter: two fixed-window counters, with the previous window
+ * weighted by how much of it still overlaps the sliding window. O(1) state.
+ */
+type SlidingWindowCounterState = { windowStart: number; current: number; previous: number };
+
+function rollWindow(state: SlidingWindowCounterState | null, rule: RateLimitRule, now: number): SlidingWindowCounterState {
+  const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+
+  if (!state || state.windowStart < windowStart - rule.windowMs) {
+    return { windowStart, current: 0, previous: 0 };
+  }
+  if (state.windowStart < windowStart) {
+    return { windowStart, current: 0, previous: state.current };
+  }
+  return { ...state };
+}
+
+const slidingWindowCounter: RateLimitAlgorithm = {
+  hit(state, rule, now) {
+    const window = rollWindow(state as SlidingWindowCounterState | null, rule, now);
+    const elapsed = now - window.windowStart;
+    const previousWeight = (rule.windowMs - elapsed) / rule.windowMs;
+    const estimated = window.previous * previousWeight + window.current;
+    const windowEnd = window.windowStart + rule.windowMs;
+
+    if (estimated + 1 > rule.maxRequests) {
+      // Time until enough of the older window has slid out to fit one more request
+      let waitMs: number;
+      if (window.current + 1 <= rule.maxRequests) {
+        const neededWeight = (rule.maxRequests - 1 - window.current) / window.previous;
+        waitMs = Math.max(0, rule.windowMs * (1 - neededWeight) - elapsed);
+      } else {
+        // The current window alone is full: wait for it to become the previous one
+        const neededWeight = (rule.maxRequests - 1) / window.current;
+        waitMs = windowEnd - now + rule.windowMs * (1 - neededWeight);
+      }
+
+      return {
+        state: window,
+        decision: {
+          isAllowed: false,
+          currentRequests: Math.ceil(estimated),
+          remainingRequests: 0,
+          resetTime: windowEnd + rule.windowMs,
+          retryAfter: toSeconds(waitMs),
+        },
+        receipt: null,
+        expiresAt: windowEnd + rule.windowMs,
+      };
+    }
+
+    window.current += 1;
+    const counted = estimated + 1;
+
+    return {
+      state: window,
+      decision: {
+        isAllowed: true,
+        currentRequests: Math.ceil(counted),
+        remainingRequests: Math.max(0, Math.floor(rule.maxRequests - counted)),
+        resetTime: windowEnd + rule.windowMs,
+      },
+      receipt: { windowStart: window.windowStart },
+      expiresAt: windowEnd + rule.windowMs,
+    };
+  },
+
+  refund(state, receipt, rule, now) {
+    const window = rollWindow(state as SlidingWindowCounterState, rule, now);
+    if (receipt.windowStart === window.windowStart) {
+      window.current = Math.max(0, window.current - 1);
+    } else if (receipt.windowStart === window.windowStart - rule.windowMs) {
+      window.previous = Math.max(0, window.previous - 1);
+    }
+    return window;
+  },
+};
+
+/**
+ * Token bucket: `maxRequests` tokens, refilled continuously at
+ * `maxRequests / windowMs`. Allows bursts up to the bucket size.
+ */
+type TokenBucketState = { tokens: number; updatedAt: number };
+
+function refill(state: TokenBucketState | null, rule: RateLimitRule, now: number): TokenBucketState {
+  if (!state) {
+    return { tokens: rule.maxRequests, updatedAt: now };
+  }
+  const rate = rule.maxRequests / rule.windowMs;
+  const tokens = Math.min(rule.maxRequests, state.tokens + Math.max(0, now - state.updatedAt) * rate);
+  return { tokens, updatedAt: now };
+}
+
+const tokenBucket: RateLimitAlgorithm = {
+  hit(state, rule, now) {
+    const bucket = refill(state as TokenBucketState | null, rule, now);
+    const rate = rule.maxRequests / rule.windowMs;
+
+    if (bucket.tokens < 1) {
+      return {
+        state: bucket,
+        decision: {
+          isAllowed: false,
+          currentRequests: rule.maxRequests,
+          remainingRequests: 0,
+          resetTime: now + Math.ceil((rule.maxRequests - bucket.tokens) / rate),
+          retryAfter: toSeconds((1 - bucket.tokens) / rate),
+        },
+        receipt: null,
+        expiresAt: now + rule.windowMs,
+      };
+    }
+
+    bucket.tokens -= 1;
+    const remainingRequests = Math.floor(bucket.tokens);
+
+    return {
+      state: bucket,
+      decision: {
+        isAllowed: true,
+        currentRequests: rule.maxRequests - remainingRequests,
+        remainingRequests,
+        resetTime: now + Math.ceil((rule.maxRequests - bucket.tokens) / rate),
+      },
+      receipt: { tokens: 1 },
+      expiresAt: now + rule.windowMs,
+    };
+  },
+
+  refund(state, _receipt, rule, now) {
+    const bucket = refill(state as TokenBucketState, rule, now);
+    bucket.tokens = Math.min(rule.maxRequests, bucket.tokens + 1);
+    return bucket;
+  },
+};
+
+export const RATE_LIMIT_ALGORITHMS: Record<RateLimitAlgorithmName, RateLimitAlgorithm> = {
+  "sliding-log": slidingLog,
+  "sliding-window-counter": slidingWindowCounter,
+  "token-bucket": tokenBucket,
+};
@@ -6,11 +6,16 @@ import {
   type ParamsDictionary,
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { RATE_LIMIT_ALGORITHMS, type RateLimitAlgorithmName, type RateLimitHit } from "./algorithms";
+import { queuePendingRateLimit } from "./outcome";
+import { type RateLimitStoreName, getRateLimitStore } from "./store";
 
 type RateLimiterInputType = {
   identifier: string; // IP, user ID, or custom identifier
   windowMs: number; // Time window in milliseconds
   maxRequests: number; // Maximum requests per window
+  algorithm?: RateLimitAlgorithmName;
+  store?: RateLimitStoreName;
   skipSuccessfulRequests?: boolean;
   skipFailedRequests?: boolean;
   keyGenerator?: string; // Custom key generation logic
@@ -18,6 +23,7 @@ type RateLimiterInputType = {
 
 type RateLimitInfoType = {
   identifier: string;
+  algorithm: RateLimitAlgorithmName;
   windowMs: number;
   maxRequests: number;
   currentRequests: number;
@@ -34,9 +40,19 @@ type RateLimiterOutputType = {
   statusCode: number;
 };
 
-// In-memory store for rate limiting (in production, use Redis)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
+// Expired entries are purged at most this often per store
+const CLEANUP_INTERVAL_MS = 60000;
 
+/**
+ * Rate Limiter Node
+ *
+ * Counts requests per identifier with a pluggable algorithm (sliding log,
+ * sliding window counter, token bucket) on top of a pluggable store
+ * (in-memory or the database, see RATE_LIMIT_STORE).
+ *
+ * With `skipSuccessfulRequests` / `skipFailedRequests` the request is counted
+ * up front and refunded by the HTTP trigger once the workflow outcome is known.
+ */
 export default class RateLimiter extends NanoService<RateLimiterInputType> {
   constructor() {
     super();
@@ -63,6 +79,18 @@ export default class RateLimiter extends NanoService<RateLimiterInputType> {
           default: 100,
           description: "Maximum requests per window (default: 100)"
         },
+        algorithm: {
+          type: "string",
+          enum: ["sliding-log", "sliding-window-counter", "token-bucket"],
+          default: "sliding-window-counter",
+          description: "Rate limiting algorithm (default: RATE_LIMIT_ALGORITHM or sliding-window-counter)"
+        },
+        store: {
+          type: "string",
+          enum: ["memory", "database"],
+          default: "memory",
+          description: "Where rate limit state is kept (default: RATE_LIMIT_STORE or memory)"
+        },
         skipSuccessfulRequests: {
           type: "boolean",
           default: false,
@@ -96,6 +124,11 @@ export default class RateLimiter extends NanoService<RateLimiterInputType> {
               type: "boolean",
               description: "Whether this request is allowed"
             },
+            algorithm: {
+              type: "string",
+              enum: ["sliding-log", "sliding-window-counter", "token-bucket"],
+              description: "Rate limiting algorithm that was applied"
+            },
             currentRequests: {
               type: "number",
               description: "Current number of requests in the time window"
@@ -117,8 +150,9 @@ export default class RateLimiter extends NanoService<RateLimiterInputType> {
               description: "Seconds until the rate limit resets"
             },
             resetTime: {
-              type: "number",
-              description: "Unix timestamp when the rate limit will reset"
+              type: "string",
+              format: "date-time",
+              description: "When the rate limit will be fully restored"
             }
           },
           required: ["isAllowed", "currentRequests", "maxRequests", "remainingRequests", "windowMs", "retryAfter", "resetTime"]
@@ -154,13 +188,34 @@ export default class RateLimiter extends NanoService<RateLimiterInputType> {
         throw new Error('Max requests must be between 1 and 10,000');
       }
 
-      ctx.logger.log(`Rate limiting check for: ${inputs.identifier}`);
+      const algorithm = inputs.algorithm || (process.env.RATE_LIMIT_ALGORITHM as RateLimitAlgorithmName) || "sliding-window-counter";
+      if (!RATE_LIMIT_ALGORITHMS[algorithm]) {
+        throw new Error(`Unsupported rate limit algorithm: ${algorithm}`);
+      }
+      const storeName = inputs.store || (process.env.RATE_LIMIT_STORE as RateLimitStoreName) || "memory";
+
+      ctx.logger.log(`Rate limiting check for: ${inputs.identifier} (${algorithm}, ${storeName})`);
 
       // Generate rate limit key
-      const key = inputs.keyGenerator || `rate_limit:${inputs.identifier}:${inputs.windowMs}:${inputs.maxRequests}`;
-      
+      const key = inputs.keyGenerator || `rate_limit:${algorithm}:${inputs.identifier}:${inputs.windowMs}:${inputs.maxRequests}`;
+      const rule = { windowMs: inputs.windowMs, maxRequests: inputs.maxRequests };
+
       // Check and update rate limit
-      const rateLimitInfo = this.checkRateLimit(key, inputs.windowMs, inputs.maxRequests);
+      const hit = await this.checkRateLimit(key, algorithm, storeName, rule);
+      const rateLimitInfo = this.toRateLimitInfo(key, algorithm, rule, hit);
+
+      // Count now, refund after the workflow if this outcome should not count
+      if (hit.receipt && (inputs.skipSuccessfulRequests || inputs.skipFailedRequests)) {
+        queuePendingRateLimit(ctx, {
+          key,
+          store: storeName,
+          algorithm,
+          rule,
+          receipt: hit.receipt,
+          skipSuccessfulRequests: inputs.skipSuccessfulRequests === true,
+          skipFailedRequests: inputs.skipFailedRequests === true,
+        });
+      }
 
       const result: RateLimiterOutputType = {
         success: rateLimitInfo.isAllowed,
@@ -178,7 +233,7 @@ export default class RateLimiter extends NanoService<RateLimiterInputType> {
       ctx.vars.remainingRequests = rateLimitInfo.remainingRequests as unknown as ParamsDictionary;
 
       // Clean up old entries periodically
-      this.cleanupExpiredEntries();
+      await this.cleanupExpiredEntries(storeName);
 
       ctx.logger.log(`Rate limit result: ${rateLimitInfo.isAllowed ? 'ALLOWED' : 'BLOCKED'} - ${rateLimitInfo.currentRequests}/${rateLimitInfo.maxRequests} requests`);
       response.setSuccess(result as unknown as JsonLikeObject);
@@ -196,64 +251,56 @@ export default class RateLimiter extends NanoService<RateLimiterInputType> {
     return response;
   }
 
-  private checkRateLimit(key: string, windowMs: number, maxRequests: number): RateLimitInfoType {
-    const now = Date.now();
-    
-    // Get or create entry
-    let entry = rateLimitStore.get(key);
-    
-    // Reset if window has expired
-    if (!entry || entry.resetTime <= now) {
-      entry = {
-        count: 0,
-        resetTime: now + windowMs
-      };
-    }
-
-    // Increment request count
-    entry.count += 1;
-    
-    // Update store
-    rateLimitStore.set(key, entry);
+  private async checkRateLimit(
+    key: string,
+    algorithmName: RateLimitAlgorithmName,
+    storeName: RateLimitStoreName,
+    rule: { windowMs: number; maxRequests: number }
+  ): Promise<RateLimitHit> {
+    const algorithm = RATE_LIMIT_ALGORITHMS[algorithmName];
 
-    // Calculate remaining requests
-    const remainingRequests = Math.max(0, maxRequests - entry.count);
-    const isAllowed = entry.count <= maxRequests;
-    
-    // Calculate retry after (in seconds)
-    const retryAfter = isAllowed ? undefined : Math.ceil((entry.resetTime - now) / 1000);
+    return getRateLimitStore(storeName).update(key, (state) => {
+      const hit = algorithm.hit(state, rule, Date.now());
+      return { state: hit.state, expiresAt: hit.expiresAt, result: hit };
+    });
+  }
 
+  private toRateLimitInfo(
+    key: string,
+    algorithm: RateLimitAlgorithmName,
+    rule: { windowMs: number; maxRequests: number },
+    hit: RateLimitHit
+  ): RateLimitInfoType {
     return {
       identifier: key,
-      windowMs,
-      maxRequests,
-      currentRequests: entry.count,
-      remainingRequests,
-      resetTime: new Date(entry.resetTime).toISOString(),
-      isAllowed,
-      retryAfter
+      algorithm,
+      windowMs: rule.windowMs,
+      maxRequests: rule.maxRequests,
+      currentRequests: hit.decision.currentRequests,
+      remainingRequests: hit.decision.remainingRequests,
+      resetTime: new Date(hit.decision.resetTime).toISOString(),
+      isAllowed: hit.decision.isAllowed,
+      retryAfter: hit.decision.retryAfter
     };
   }
 
-  private cleanupExpiredEntries(): void {
+  private static lastCleanup: Partial<Record<RateLimitStoreName, number>> = {};
+
+  private async cleanupExpiredEntries(storeName: RateLimitStoreName): Promise<void> {
     const now = Date.now();
-    let cleanedCount = 0;
-    
-    for (const [key, entry] of rateLimitStore.entries()) {
-      if (entry.resetTime <= now) {
-        rateLimitStore.delete(key);
-        cleanedCount++;
-      }
-    }
+    if ((RateLimiter.lastCleanup[storeName] || 0) + CLEANUP_INTERVAL_MS > now) return;
+
+    RateLimiter.lastCleanup[storeName] = now;
+    await getRateLimitStore(storeName).cleanup();
   }
 
   // Static method to get current store size (for monitoring)
-  static getStoreSize(): number {
-    return rateLimitStore.size;
+  static getStoreSize(storeName?: RateLimitStoreName): Promise<number> {
+    return getRateLimitStore(storeName).size();
   }
 
   // Static method to clear all entries (for testing)
-  static clearStore(): void {
-    rateLimitStore.clear();
+  static clearStore(storeName?: RateLimitStoreName): Promise<void> {
+    return getRateLimitStore(storeName).clear();
   }
 }
@@ -0,0 +1,42 @@
+import type { RateLimitState } from "./algorithms";
+import type { RateLimitStore, RateLimitStoreUpdate } from "./store";
+
+/**
+ * In-process rate limit store. Fast, but state is per process and lost on restart.
+ */
+export default class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { state: RateLimitState; expiresAt: number }>();
+
+  async update<T>(key: string, mutator: (state: RateLimitState | null) => RateLimitStoreUpdate<T>): Promise<T> {
+    const entry = this.entries.get(key);
+    const current = entry && entry.expiresAt > Date.now() ? entry.state : null;
+
+    // Synchronous read-modify-write, so no other request can interleave
+    const { state, expiresAt, result } = mutator(current);
+    this.entries.set(key, { state, expiresAt });
+
+    return result;
+  }
+
+  async cleanup(): Promise<number> {
+    const now = Date.now();
+    let cleanedCount = 0;
+
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        cleanedCount++;
+      }
+    }
+
+    return cleanedCount;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,83 @@
+import type { ParamsDictionary } from "@nanoservice-ts/runner";
+import type { Context } from "@nanoservice-ts/shared";
+import { RATE_LIMIT_ALGORITHMS, type RateLimitAlgorithmName, type RateLimitReceipt, type RateLimitRule } from "./algorithms";
+import { type RateLimitStoreName, getRateLimitStore } from "./store";
+
+/**
+ * A request counted by the rate limiter whose outcome is not known yet.
+ * Queued in `ctx.vars.rateLimitPending` and settled by the HTTP trigger
+ * once the workflow has finished.
+ */
+export type PendingRateLimit = {
+  key: string;
+  store: RateLimitStoreName;
+  algorithm: RateLimitAlgorithmName;
+  rule: RateLimitRule;
+  receipt: NonNullable<RateLimitReceipt>;
+  skipSuccessfulRequests: boolean;
+  skipFailedRequests: boolean;
+};
+
+export type RequestOutcome = {
+  statusCode: number;
+  body?: unknown;
+};
+
+export function queuePendingRateLimit(ctx: Context, pending: PendingRateLimit): void {
+  if (ctx.vars === undefined) ctx.vars = {};
+  const queue = (ctx.vars.rateLimitPending as unknown as PendingRateLimit[]) || [];
+  queue.push(pending);
+  ctx.vars.rateLimitPending = queue as unknown as ParamsDictionary;
+}
+
+/**
+ * A request failed if it answered with an HTTP error status, or with a
+ * handled failure body (`{ success: false }`) as most auth nodes do.
+ */
+export function isFailedOutcome(outcome: RequestOutcome): boolean {
+  if (outcome.statusCode >= 400) return true;
+
+  let body = outcome.body;
+  if (typeof body === "string") {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return false;
+    }
+  }
+
+  return typeof body === "object" && body !== null && (body as { success?: unknown }).success === false;
+}
+
+/**
+ * Refund counted requests that the workflow asked to skip
+ * (`skipSuccessfulRequests` / `skipFailedRequests`) now that the outcome is known.
+ */
+export async function settleRateLimits(ctx: Context | undefined, outcome: RequestOutcome): Promise<void> {
+  const queue = (ctx?.vars?.rateLimitPending as unknown as PendingRateLimit[]) || [];
+  if (queue.length === 0) return;
+
+  const failed = isFailedOutcome(outcome);
+
+  for (const pending of queue) {
+    const skip = failed ? pending.skipFailedRequests : pending.skipSuccessfulRequests;
+    if (!skip) continue;
+
+    const algorithm = RATE_LIMIT_ALGORITHMS[pending.algorithm];
+    await getRateLimitStore(pending.store).update(pending.key, (state) => {
+      const now = Date.now();
+      if (!state) {
+        // Entry already expired; nothing left to refund
+        return { state: {}, expiresAt: now, result: undefined };
+      }
+      return {
+        state: algorithm.refund(state, pending.receipt, pending.rule, now),
+        // Never shorten the lifetime of state that later requests still depend on
+        expiresAt: now + 2 * pending.rule.windowMs,
+        result: undefined,
+      };
+    });
+  }
+
+  if (ctx?.vars) ctx.vars.rateLimitPending = [] as unknown as ParamsDictionary;
+}
@@ -0,0 +1,78 @@
+import { db } from "../../../../database/config";
+import type { RateLimitState } from "./algorithms";
+import type { RateLimitStore, RateLimitStoreUpdate } from "./store";
+
+const MAX_ATTEMPTS = 10;
+
+/**
+ * SQLite (Prisma) rate limit store. Limits survive restarts and are shared by
+ * every process using the same database.
+ *
+ * Writes use optimistic concurrency on a `version` column: the update only
+ * applies if nobody else changed the row since it was read, otherwise the
+ * mutator is re-run against the fresh state.
+ */
+export default class PrismaRateLimitStore implements RateLimitStore {
+  async update<T>(key: string, mutator: (state: RateLimitState | null) => RateLimitStoreUpdate<T>): Promise<T> {
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const entry = await db.rateLimitEntry.findUnique({ where: { key } });
+      const current = entry && entry.expiresAt.getTime() > Date.now() ? this.parseState(entry.state) : null;
+      const { state, expiresAt, result } = mutator(current);
+
+      if (!entry) {
+        try {
+          await db.rateLimitEntry.create({
+            data: {
+              key,
+              state: JSON.stringify(state),
+              expiresAt: new Date(expiresAt),
+            },
+          });
+          return result;
+        } catch (error) {
+          // Unique constraint: another request created the row first, retry as an update
+          if ((error as { code?: string }).code === "P2002") continue;
+          throw error;
+        }
+      }
+
+      const updated = await db.rateLimitEntry.updateMany({
+        where: { key, version: entry.version },
+        data: {
+          state: JSON.stringify(state),
+          expiresAt: new Date(expiresAt),
+          version: { increment: 1 },
+        },
+      });
+
+      if (updated.count === 1) {
+        return result;
+      }
+    }
+
+    throw new Error(`Rate limit store contention on key ${key}`);
+  }
+
+  async cleanup(): Promise<number> {
+    const result = await db.rateLimitEntry.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+    return result.count;
+  }
+
+  async clear(): Promise<void> {
+    await db.rateLimitEntry.deleteMany({});
+  }
+
+  async size(): Promise<number> {
+    return db.rateLimitEntry.count();
+  }
+
+  private parseState(state: string): RateLimitState | null {
+    try {
+      return JSON.parse(state);
+    } catch {
+      return null;
+    }
+  }
+}
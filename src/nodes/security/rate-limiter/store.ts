@@ -0,0 +1,66 @@
+import type { RateLimitState } from "./algorithms";
+import MemoryRateLimitStore from "./memory-store";
+import PrismaRateLimitStore from "./prisma-store";
+
+/**
+ * Persistence for rate limiter state
+ *
+ * Stores only need to provide an atomic read-modify-write per key; the
+ * algorithms themselves live in `algorithms.ts` and are store-agnostic.
+ */
+
+export type RateLimitStoreName = "memory" | "database";
+
+export interface RateLimitStoreUpdate<T> {
+  state: RateLimitState;
+  expiresAt: number; // unix ms after which the entry may be discarded
+  result: T;
+}
+
+export interface RateLimitStore {
+  /**
+   * Atomically apply `mutator` to the state stored under `key`.
+   * `mutator` receives null when there is no (unexpired) entry and may be
+   * invoked more than once if the store retries on a concurrent write.
+   */
+  update<T>(key: string, mutator: (state: RateLimitState | null) => RateLimitStoreUpdate<T>): Promise<T>;
+
+  /**
+   * Remove every expired entry; returns the number of entries removed
+   */
+  cleanup(): Promise<number>;
+
+  /**
+   * Remove every entry (for tests)
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Number of stored entries (for monitoring)
+   */
+  size(): Promise<number>;
+}
+
+const stores: Partial<Record<RateLimitStoreName, RateLimitStore>> = {};
+
+/**
+ * Shared store instance by name (default from RATE_LIMIT_STORE, falling back to "memory")
+ */
+export function getRateLimitStore(name?: RateLimitStoreName): RateLimitStore {
+  const storeName = name || (process.env.RATE_LIMIT_STORE as RateLimitStoreName) || "memory";
+
+  if (!stores[storeName]) {
+    switch (storeName) {
+      case "memory":
+        stores[storeName] = new MemoryRateLimitStore();
+        break;
+      case "database":
+        stores[storeName] = new PrismaRateLimitStore();
+        break;
+      default:
+        throw new Error(`Unsupported rate limit store: ${storeName}`);
+    }
+  }
+
+  return stores[storeName] as RateLimitStore;
+}
@@ -0,0 +1,149 @@
+import { describe, expect, test } from "vitest";
+import { RATE_LIMIT_ALGORITHMS, type RateLimitRule, type RateLimitState } from "../algorithms";
+
+/**
+ * Run `count` hits at `now`, threading the state through, and return the last one
+ */
+function hitMany(
+	name: keyof typeof RATE_LIMIT_ALGORITHMS,
+	state: RateLimitState | null,
+	rule: RateLimitRule,
+	now: number,
+	count: number,
+) {
+	let hit = RATE_LIMIT_ALGORITHMS[name].hit(state, rule, now);
+	for (let i = 1; i < count; i++) {
+		hit = RATE_LIMIT_ALGORITHMS[name].hit(hit.state, rule, now);
+	}
+	return hit;
+}
+
+describe("sliding-log", () => {
+	const algorithm = RATE_LIMIT_ALGORITHMS["sliding-log"];
+	const rule = { windowMs: 1000, maxRequests: 3 };
+
+	test("allows maxRequests within the window and blocks the next", () => {
+		let state: RateLimitState | null = null;
+		for (const [now, remaining] of [
+			[0, 2],
+			[100, 1],
+			[200, 0],
+		]) {
+			const hit = algorithm.hit(state, rule, now);
+			expect(hit.decision).toMatchObject({ isAllowed: true, remainingRequests: remaining });
+			expect(hit.expiresAt).toBe(now + rule.windowMs);
+			state = hit.state;
+		}
+
+		const blocked = algorithm.hit(state, rule, 300);
+		expect(blocked.receipt).toBeNull();
+		expect(blocked.decision).toMatchObject({
+			isAllowed: false,
+			currentRequests: 3,
+			remainingRequests: 0,
+			resetTime: 1200,
+			retryAfter: 1,
+		});
+	});
+
+	test("allows requests again once the oldest slides out of the window", () => {
+		const full = hitMany("sliding-log", algorithm.hit(null, rule, 0).state, rule, 500, 2);
+		expect(algorithm.hit(full.state, rule, 999).decision.isAllowed).toBe(false);
+
+		const later = algorithm.hit(full.state, rule, 1000);
+		expect(later.decision).toMatchObject({ isAllowed: true, currentRequests: 3 });
+	});
+
+	test("refund removes exactly the counted request", () => {
+		const first = algorithm.hit(null, rule, 0);
+		const second = algorithm.hit(first.state, rule, 100);
+		const refunded = algorithm.refund(second.state, second.receipt!, rule, 200);
+
+		expect(refunded).toEqual(first.state);
+		expect(algorithm.hit(refunded, rule, 200).decision.remainingRequests).toBe(1);
+	});
+});
+
+describe("sliding-window-counter", () => {
+	const algorithm = RATE_LIMIT_ALGORITHMS["sliding-window-counter"];
+	const rule = { windowMs: 60000, maxRequests: 10 };
+
+	test("blocks once the current window is full", () => {
+		const full = hitMany("sliding-window-counter", null, rule, 0, 10);
+		expect(full.decision).toMatchObject({ isAllowed: true, currentRequests: 10, remainingRequests: 0 });
+		expect(full.expiresAt).toBe(120000);
+
+		const blocked = algorithm.hit(full.state, rule, 10);
+		expect(blocked.receipt).toBeNull();
+		// Until the full window is the previous one and weighs 9 of 10
+		expect(blocked.decision).toMatchObject({ isAllowed: false, retryAfter: 66 });
+	});
+
+	test("weights the previous window by its overlap with the sliding window", () => {
+		const full = hitMany("sliding-window-counter", null, rule, 0, 10);
+
+		// Halfway through the next window the previous 10 requests count as 5
+		const allowed = hitMany("sliding-window-counter", full.state, rule, 90000, 5);
+		expect(allowed.decision).toMatchObject({ isAllowed: true, currentRequests: 10, remainingRequests: 0 });
+		expect(allowed.state).toEqual({ windowStart: 60000, current: 5, previous: 10 });
+
+		const blocked = algorithm.hit(allowed.state, rule, 90000);
+		expect(blocked.decision).toMatchObject({ isAllowed: false, retryAfter: 6 });
+		expect(algorithm.hit(allowed.state, rule, 96000).decision.isAllowed).toBe(true);
+	});
+
+	test("forgets windows older than the previous one", () => {
+		const full = hitMany("sliding-window-counter", null, rule, 0, 10);
+		const hit = algorithm.hit(full.state, rule, 180000);
+
+		expect(hit.state).toEqual({ windowStart: 180000, current: 1, previous: 0 });
+		expect(hit.decision.remainingRequests).toBe(9);
+	});
+
+	test("refunds into the window the request was counted in", () => {
+		const hit = algorithm.hit(null, rule, 0);
+		expect(algorithm.refund(hit.state, hit.receipt!, rule, 100)).toEqual({ windowStart: 0, current: 0, previous: 0 });
+
+		// After the window rolled over the request is part of the previous window
+		expect(algorithm.refund(hit.state, hit.receipt!, rule, 70000)).toEqual({
+			windowStart: 60000,
+			current: 0,
+			previous: 0,
+		});
+	});
+});
+
+describe("token-bucket", () => {
+	const algorithm = RATE_LIMIT_ALGORITHMS["token-bucket"];
+	// One token every 2 seconds
+	const rule = { windowMs: 10000, maxRequests: 5 };
+
+	test("allows a burst of the bucket size", () => {
+		const first = algorithm.hit(null, rule, 0);
+		expect(first.decision).toMatchObject({ isAllowed: true, remainingRequests: 4, resetTime: 2000 });
+
+		const burst = hitMany("token-bucket", first.state, rule, 0, 4);
+		expect(burst.decision).toMatchObject({ isAllowed: true, remainingRequests: 0, resetTime: 10000 });
+
+		const blocked = algorithm.hit(burst.state, rule, 0);
+		expect(blocked.receipt).toBeNull();
+		expect(blocked.decision).toMatchObject({ isAllowed: false, retryAfter: 2 });
+	});
+
+	test("refills continuously up to the bucket size", () => {
+		const empty = hitMany("token-bucket", null, rule, 0, 5);
+		expect(algorithm.hit(empty.state, rule, 1999).decision.isAllowed).toBe(false);
+
+		const refilled = algorithm.hit(empty.state, rule, 2000);
+		expect(refilled.decision).toMatchObject({ isAllowed: true, remainingRequests: 0 });
+
+		const idle = algorithm.hit(empty.state, rule, 60000);
+		expect(idle.decision.remainingRequests).toBe(4);
+	});
+
+	test("refund returns the token without overfilling", () => {
+		const hit = algorithm.hit(null, rule, 0);
+		expect(algorithm.refund(hit.state, hit.receipt!, rule, 0)).toEqual({ tokens: 5, updatedAt: 0 });
+		expect(algorithm.refund(hit.state, hit.receipt!, rule, 5000)).toEqual({ tokens: 5, updatedAt: 5000 });
+	});
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import type { RateLimitState } from "../algorithms";
+import MemoryRateLimitStore from "../memory-store";
+
+function counter(expiresInMs: number) {
+	return (state: RateLimitState | null) => {
+		const count = ((state?.count as number) || 0) + 1;
+		return { state: { count }, expiresAt: Date.now() + expiresInMs, result: count };
+	};
+}
+
+describe("MemoryRateLimitStore", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(0);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	test("passes the stored state to the next update", async () => {
+		const store = new MemoryRateLimitStore();
+		const seen: Array<RateLimitState | null> = [];
+		const update = (state: RateLimitState | null) => {
+			seen.push(state);
+			return counter(1000)(state);
+		};
+
+		expect(await store.update("key", update)).toBe(1);
+		expect(await store.update("key", update)).toBe(2);
+		expect(await store.update("other", update)).toBe(1);
+		expect(seen).toEqual([null, { count: 1 }, null]);
+	});
+
+	test("treats expired entries as missing", async () => {
+		const store = new MemoryRateLimitStore();
+		await store.update("key", counter(1000));
+
+		vi.setSystemTime(999);
+		expect(await store.update("key", counter(1000))).toBe(2);
+
+		vi.setSystemTime(1999);
+		expect(await store.update("key", counter(1000))).toBe(1);
+	});
+
+	test("cleanup removes only expired entries", async () => {
+		const store = new MemoryRateLimitStore();
+		await store.update("short", counter(1000));
+		await store.update("long", counter(5000));
+		expect(await store.size()).toBe(2);
+
+		vi.setSystemTime(1000);
+		expect(await store.cleanup()).toBe(1);
+		expect(await store.size()).toBe(1);
+		expect(await store.update("long", counter(5000))).toBe(2);
+
+		await store.clear();
+		expect(await store.size()).toBe(0);
+	});
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import type { RateLimitState } from "../algorithms";
+import PrismaRateLimitStore from "../prisma-store";
+
+type Entry = { key: string; state: string; expiresAt: Date; version: number };
+
+// In-memory stand-in for the rate_limit_entries table
+const table = vi.hoisted(() => {
+	const rows = new Map<string, Entry>();
+	return {
+		rows,
+		// Simulates a concurrent writer that bumps the row between read and write
+		interfereOnce: false,
+		rateLimitEntry: {
+			findUnique: async ({ where }: { where: { key: string } }) => {
+				const row = rows.get(where.key);
+				return row ? { ...row } : null;
+			},
+			create: async ({ data }: { data: Omit<Entry, "version"> }) => {
+				if (rows.has(data.key)) throw Object.assign(new Error("Unique constraint failed"), { code: "P2002" });
+				rows.set(data.key, { ...data, version: 0 });
+				return rows.get(data.key);
+			},
+			updateMany: async ({
+				where,
+				data,
+			}: {
+				where: { key: string; version: number };
+				data: { state: string; expiresAt: Date };
+			}) => {
+				const row = rows.get(where.key);
+				if (table.interfereOnce && row) {
+					table.interfereOnce = false;
+					row.version++;
+				}
+				if (!row || row.version !== where.version) return { count: 0 };
+				rows.set(where.key, { ...row, state: data.state, expiresAt: data.expiresAt, version: row.version + 1 });
+				return { count: 1 };
+			},
+			deleteMany: async ({ where = {} }: { where?: { expiresAt?: { lte: Date } } }) => {
+				let count = 0;
+				for (const [key, row] of rows) {
+					if (!where.expiresAt || row.expiresAt <= where.expiresAt.lte) {
+						rows.delete(key);
+						count++;
+					}
+				}
+				return { count };
+			},
+			count: async () => rows.size,
+		},
+	};
+});
+
+vi.mock("../../../../../database/config", () => ({ db: { rateLimitEntry: table.rateLimitEntry } }));
+
+function counter(expiresInMs: number) {
+	return (state: RateLimitState | null) => {
+		const count = ((state?.count as number) || 0) + 1;
+		return { state: { count }, expiresAt: Date.now() + expiresInMs, result: count };
+	};
+}
+
+describe("PrismaRateLimitStore", () => {
+	beforeEach(() => {
+		table.rows.clear();
+		table.interfereOnce = false;
+		vi.useFakeTimers();
+		vi.setSystemTime(0);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	test("creates the row and updates it on later hits", async () => {
+		const store = new PrismaRateLimitStore();
+		expect(await store.update("key", counter(1000))).toBe(1);
+		expect(await store.update("key", counter(1000))).toBe(2);
+
+		expect(table.rows.get("key")).toMatchObject({ state: '{"count":2}', version: 1 });
+		expect(table.rows.get("key")?.expiresAt).toEqual(new Date(1000));
+	});
+
+	test("treats expired rows as missing", async () => {
+		const store = new PrismaRateLimitStore();
+		await store.update("key", counter(1000));
+
+		vi.setSystemTime(1000);
+		expect(await store.update("key", counter(1000))).toBe(1);
+	});
+
+	test("re-runs the mutator when another writer changed the row", async () => {
+		const store = new PrismaRateLimitStore();
+		await store.update("key", counter(1000));
+
+		const mutator = vi.fn(counter(1000));
+		table.interfereOnce = true;
+		expect(await store.update("key", mutator)).toBe(2);
+		expect(mutator).toHaveBeenCalledTimes(2);
+	});
+
+	test("retries as an update when another request created the row first", async () => {
+		const store = new PrismaRateLimitStore();
+		const mutator = vi.fn((state: RateLimitState | null) => {
+			// The competing request inserts between our read and our create
+			if (!table.rows.has("key")) {
+				table.rows.set("key", { key: "key", state: '{"count":1}', expiresAt: new Date(1000), version: 0 });
+			}
+			return counter(1000)(state);
+		});
+
+		expect(await store.update("key", mutator)).toBe(2);
+		expect(mutator).toHaveBeenNthCalledWith(1, null);
+		expect(mutator).toHaveBeenNthCalledWith(2, { count: 1 });
+	});
+
+	test("cleanup removes only expired rows", async () => {
+		const store = new PrismaRateLimitStore();
+		await store.update("short", counter(1000));
+		await store.update("long", counter(5000));
+
+		vi.setSystemTime(1000);
+		expect(await store.cleanup()).toBe(1);
+		expect(await store.size()).toBe(1);
+
+		await store.clear();
+		expect(await store.size()).toBe(0);
+	});
+});
@@ -32,10 +32,7 @@ interface NewSystemLog {
   workflowName?: string;
   nodeName?: string;
   success?: boolean;
-  errorMessage?: string;
-  sessionId?: string;
-  requestSize?: number;
-  affectedUsersCount?: number;
+  organizationId?: string | null;
 }
 
 enum ActionType {
@@ -123,6 +120,11 @@ interface InputType {
  * Usage in workflows:
  * - Add as first step with phase: 'start'
  * - Add as last step with phase: 'complete'
+ *
+ * While an administrator impersonates a user (`ctx.vars.impersonator`), every
+ * request is logged, whatever its method, under the administrator's identity
+ * with the impersonated user in `details`; the HTTP trigger records requests
+ * the workflow did not log itself through `recordImpersonatedRequest`.
  */
 export default class RequestInterceptor extends NanoService<InputType> {
   constructor() {
@@ -187,8 +189,8 @@ export default class RequestInterceptor extends NanoService<InputType> {
       // Extract context information
       const contextData = this.extractContextData(ctx, inputs);
       
-      // Only log action methods (POST, PUT, PATCH, DELETE)
-      if (!this.shouldLogRequest(contextData.httpMethod)) {
+      // Only log action methods (POST, PUT, PATCH, DELETE), or anything done while impersonating
+      if (!contextData.impersonatedUser && !this.shouldLogRequest(contextData.httpMethod)) {
         response.setSuccess({
           success: true,
           logged: false,
@@ -238,12 +240,16 @@ export default class RequestInterceptor extends NanoService<InputType> {
   private extractContextData(ctx: Context, inputs: InputType) {
     const request = ctx.request || {};
     const user = ctx.vars?.currentUser || {};
+    const impersonator = ctx.vars?.impersonator as any;
+
+    // The real actor of an impersonated request is the administrator, never the user they act as
+    const actor = impersonator ? { userId: impersonator.id, userEmail: impersonator.email, userName: impersonator.name, userRole: impersonator.role } : inputs;
     
     // Try to get user info from multiple sources
-    const userId = inputs.userId || (user as any).id || (ctx.vars?.authResult as any)?.user?.id;
-    const userEmail = inputs.userEmail || (user as any).email || (ctx.vars?.authResult as any)?.user?.email;
-    const userName = inputs.userName || (user as any).name || (ctx.vars?.authResult as any)?.user?.name;
-    const userRole = inputs.userRole || (user as any).role || (ctx.vars?.authResult as any)?.user?.role;
+    const userId = actor.userId || (user as any).id || (ctx.vars?.authResult as any)?.user?.id;
+    const userEmail = actor.userEmail || (user as any).email || (ctx.vars?.authResult as any)?.user?.email;
+    const userName = actor.userName || (user as any).name || (ctx.vars?.authResult as any)?.user?.name;
+    const userRole = actor.userRole || (user as any).role || (ctx.vars?.authResult as any)?.user?.role;
     
     // Only fall back to system user if we truly have no user data
     const finalUserId = userId || 'system';
@@ -262,6 +268,10 @@ export default class RequestInterceptor extends NanoService<InputType> {
       userEmail: finalUserEmail,
       userName: finalUserName,
       userRole: finalUserRole,
+      impersonatedUser: impersonator
+        ? { id: (user as any).id, email: (user as any).email, name: (user as any).name, role: (user as any).role }
+        : undefined,
+      organizationId: (user as any).organizationId ?? null,
       
       // Request details
       httpMethod: inputs.httpMethod || (request as any).method || 'UNKNOWN',
@@ -309,6 +319,13 @@ export default class RequestInterceptor extends NanoService<InputType> {
         };
       }
 
+      const details = {
+        sessionId: contextData.sessionId || null,
+        errorMessage: contextData.errorMessage || null,
+        affectedUsersCount: this.countAffectedUsers(contextData.requestBody, contextData.responseData) || 0,
+        ...(contextData.impersonatedUser ? { impersonatedUser: contextData.impersonatedUser } : {}),
+      };
+
       // For complete phase, create comprehensive log entry
       const logEntry: NewSystemLog = {
         userId: contextData.userId,
@@ -326,17 +343,16 @@ export default class RequestInterceptor extends NanoService<InputType> {
         nodeName: contextData.nodeName,
         statusCode: contextData.statusCode,
         success: contextData.success,
-        errorMessage: contextData.errorMessage || null,
         executionTimeMs: ctx.vars?.requestStartTime ? 
           Date.now() - (ctx.vars.requestStartTime as unknown as number) : undefined,
         changesSummary: this.extractChangesSummary(contextData.requestBody, contextData.responseData) ? 
           JSON.stringify(this.extractChangesSummary(contextData.requestBody, contextData.responseData)) : undefined,
         ipAddress: contextData.ipAddress,
         userAgent: contextData.userAgent || null,
-        sessionId: contextData.sessionId || null,
-        affectedUsersCount: this.countAffectedUsers(contextData.requestBody, contextData.responseData) || 0,
+        details: JSON.stringify(details),
         complianceFlags: JSON.stringify(['audit_trail', 'blame_tracking', 'enterprise_logging']),
-        riskLevel: inputs.riskLevel || this.assessRiskLevel(contextData)
+        riskLevel: (inputs.riskLevel?.toUpperCase() as LogRiskLevel) || this.assessRiskLevel(contextData),
+        organizationId: contextData.organizationId
       };
 
       // Asynchronous logging to prevent performance impact
@@ -368,9 +384,9 @@ export default class RequestInterceptor extends NanoService<InputType> {
   
   private extractIpAddress(ctx: Context): string {
     const request = ctx.request as any || {};
-    return request.headers?.['x-forwarded-for'] || 
-           request.headers?.['x-real-ip'] || 
-           request.connection?.remoteAddress || 
+    // req.ip honors X-Forwarded-For only behind a TRUST_PROXY proxy
+    return request.ip || 
+           request.socket?.remoteAddress || 
            'unknown';
   }
 
@@ -381,6 +397,7 @@ export default class RequestInterceptor extends NanoService<InputType> {
 
   private inferActionType(httpMethod: string): ActionType {
     switch (httpMethod.toUpperCase()) {
+      case 'GET': return ActionType.READ;
       case 'POST': return ActionType.CREATE;
       case 'PUT': 
       case 'PATCH': return ActionType.UPDATE;
@@ -521,4 +538,21 @@ export default class RequestInterceptor extends NanoService<InputType> {
     const interceptor = new RequestInterceptor();
     return await interceptor.handle(ctx, { phase, ...overrides });
   }
+
+  /**
+   * Record a request made while impersonating, unless the workflow already
+   * logged it with a 'complete' step. Called by the HTTP trigger once the response is known.
+   */
+  static async recordImpersonatedRequest(ctx: Context | undefined, workflowName: string, statusCode: number) {
+    const interceptorData = ctx?.vars?.interceptorData as any;
+    if (!ctx?.vars?.impersonator || (interceptorData?.phase === 'complete' && interceptorData.logged)) {
+      return;
+    }
+
+    await RequestInterceptor.intercept(ctx, 'complete', {
+      workflowName,
+      statusCode,
+      success: statusCode < 400,
+    });
+  }
 }
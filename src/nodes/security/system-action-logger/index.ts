@@ -6,9 +6,10 @@ import {
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
 import { db } from "../../../../database/config";
+import { type OrganizationScope, organizationScope, scopedLogWhere } from "../../auth/organization-scope";
 
 // Enums that were previously imported from Drizzle schemas
-enum ActionType {
+export enum ActionType {
   CREATE = 'CREATE',
   READ = 'READ', 
   UPDATE = 'UPDATE',
@@ -20,7 +21,7 @@ enum ActionType {
   BULK_UPDATE = 'BULK_UPDATE'
 }
 
-enum ResourceType {
+export enum ResourceType {
   USER = 'USER',
   SESSION = 'SESSION',
   NOTIFICATION = 'NOTIFICATION',
@@ -32,10 +33,13 @@ enum ResourceType {
   ROLE = 'ROLE',
   AUTH = 'AUTH',
   SECURITY = 'SECURITY',
-  SYSTEM = 'SYSTEM'
+  SYSTEM = 'SYSTEM',
+  API_KEY = 'API_KEY',
+  ORGANIZATION = 'ORGANIZATION',
+  INVITATION = 'INVITATION'
 }
 
-enum LogRiskLevel {
+export enum LogRiskLevel {
   LOW = 'LOW',
   MEDIUM = 'MEDIUM', 
   HIGH = 'HIGH',
@@ -67,12 +71,11 @@ interface NewSystemLog {
   success?: boolean;
   riskLevel: LogRiskLevel;
   complianceFlags?: string;
+  organizationId?: string | null;
   createdAt?: Date;
 }
 
-interface SystemLogEntry extends NewSystemLog {
-  id: string;
-  createdAt: Date;
+export interface SystemLogEntry extends Omit<NewSystemLog, 'changesSummary'> {
   changesSummary?: any;
 }
 
@@ -152,6 +155,7 @@ interface SystemLogStats {
  * - Comprehensive audit trail for compliance
  * - Advanced querying and filtering capabilities
  * - Automated retention and cleanup policies
+ * - Query, statistics, export and cleanup limited to the current user's organization
  */
 export default class SystemActionLogger extends NanoService<InputType> {
   constructor() {
@@ -214,22 +218,23 @@ export default class SystemActionLogger extends NanoService<InputType> {
 
     try {
       let result;
+      const scope = organizationScope(ctx);
       
       switch (inputs.action) {
         case 'log':
           result = await this.logSystemAction(inputs, ctx);
           break;
         case 'query':
-          result = await this.querySystemLogs(inputs);
+          result = await this.querySystemLogs(inputs, scope);
           break;
         case 'getStats':
-          result = await this.getSystemLogStats(inputs);
+          result = await this.getSystemLogStats(inputs, scope);
           break;
         case 'cleanup':
-          result = await this.performRetentionCleanup();
+          result = await this.performRetentionCleanup(scope);
           break;
         case 'export':
-          result = await this.exportSystemLogs(inputs);
+          result = await this.exportSystemLogs(inputs, scope);
           break;
         default:
           throw new Error(`Unsupported action: ${inputs.action}`);
@@ -298,7 +303,8 @@ export default class SystemActionLogger extends NanoService<InputType> {
       ipAddress: inputs.ipAddress || this.extractIpFromContext(ctx) || 'unknown',
       userAgent: inputs.userAgent || this.extractUserAgentFromContext(ctx) || 'unknown',
       complianceFlags: JSON.stringify(['audit_trail', 'blame_tracking', 'enterprise_logging']),
-      riskLevel: this.assessRiskLevel(inputs.actionType, inputs.resourceType, inputs.affectedUsersCount || 0)
+      riskLevel: this.assessRiskLevel(inputs.actionType, inputs.resourceType, inputs.affectedUsersCount || 0),
+      organizationId: organizationScope(ctx).organizationId
     };
 
     // Asynchronous logging to prevent performance impact
@@ -322,12 +328,12 @@ export default class SystemActionLogger extends NanoService<InputType> {
   /**
    * Query system logs with advanced filtering
    */
-  private async querySystemLogs(inputs: InputType): Promise<SystemLogQueryResult> {
+  private async querySystemLogs(inputs: InputType, scope: OrganizationScope): Promise<SystemLogQueryResult> {
     const limit = Math.min(inputs.limit || 50, 1000); // Max 1000 for performance
     const offset = inputs.offset || 0;
     
     // Build where conditions for Prisma
-    const where: any = {};
+    const where: any = { AND: [await scopedLogWhere(scope)] };
     
     if (inputs.filterActionType) {
       where.action = inputs.filterActionType;
@@ -415,17 +421,21 @@ export default class SystemActionLogger extends NanoService<InputType> {
   /**
    * Get comprehensive system log statistics
    */
-  private async getSystemLogStats(inputs: InputType): Promise<SystemLogStats> {
+  private async getSystemLogStats(inputs: InputType, scope: OrganizationScope): Promise<SystemLogStats> {
     const today = new Date().toISOString().split('T')[0];
+    const organizationWhere = await scopedLogWhere(scope);
     
     // Get total logs count
-    const totalLogs = await db.systemLog.count();
+    const totalLogs = await db.systemLog.count({
+      where: organizationWhere
+    });
 
     // Get today's logs
     const startOfDay = new Date(today + 'T00:00:00.000Z');
     const endOfDay = new Date(today + 'T23:59:59.999Z');
     const todayLogs = await db.systemLog.count({
       where: {
+        ...organizationWhere,
         createdAt: {
           gte: startOfDay,
           lte: endOfDay
@@ -436,6 +446,7 @@ export default class SystemActionLogger extends NanoService<InputType> {
     // Get failed actions
     const failedActions = await db.systemLog.count({
       where: {
+        ...organizationWhere,
         success: false
       }
     });
@@ -443,12 +454,14 @@ export default class SystemActionLogger extends NanoService<InputType> {
     // Get high risk actions
     const highRiskActions = await db.systemLog.count({
       where: {
+        ...organizationWhere,
         riskLevel: LogRiskLevel.HIGH
       }
     });
 
     // Get recent logs for analysis
     const recentLogs = await db.systemLog.findMany({
+      where: organizationWhere,
       orderBy: {
         createdAt: 'desc'
       },
@@ -476,7 +489,7 @@ export default class SystemActionLogger extends NanoService<InputType> {
   /**
    * Perform automated retention cleanup
    */
-  private async performRetentionCleanup(): Promise<any> {
+  private async performRetentionCleanup(scope: OrganizationScope): Promise<any> {
     // Get retention policy (create default if none exists)
     let retentionPolicy = await db.logRetentionPolicy.findFirst();
     
@@ -494,6 +507,7 @@ export default class SystemActionLogger extends NanoService<InputType> {
     // Delete logs older than retention period
     const deleteResult = await db.systemLog.deleteMany({
       where: {
+        ...(await scopedLogWhere(scope)),
         createdAt: {
           lte: cutoffDate
         }
@@ -516,8 +530,8 @@ export default class SystemActionLogger extends NanoService<InputType> {
   /**
    * Export system logs in various formats
    */
-  private async exportSystemLogs(inputs: InputType): Promise<any> {
-    const logs = await this.querySystemLogs(inputs);
+  private async exportSystemLogs(inputs: InputType, scope: OrganizationScope): Promise<any> {
+    const logs = await this.querySystemLogs(inputs, scope);
     
     if (inputs.exportFormat === 'csv') {
       const csvData = this.convertLogsToCSV(logs.logs);
@@ -648,9 +662,9 @@ export default class SystemActionLogger extends NanoService<InputType> {
   }
 
   private extractIpFromContext(ctx: Context): string {
-    return ctx.request?.headers?.['x-forwarded-for'] || 
-           ctx.request?.headers?.['x-real-ip'] || 
-           ctx.request?.connection?.remoteAddress || 
+    // req.ip honors X-Forwarded-For only behind a TRUST_PROXY proxy
+    return ctx.request?.ip || 
+           ctx.request?.socket?.remoteAddress || 
            'unknown';
   }
 
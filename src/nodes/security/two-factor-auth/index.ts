@@ -4,14 +4,25 @@ import {
   NanoServiceResponse,
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
-import crypto from "crypto";
 import { db } from "../../../../database/config";
+import { startPasskeySecondFactor, verifyPasskeySecondFactor } from "../../auth/passkeys";
+import {
+  clearBackupCodes,
+  getBackupCodeStatus,
+  regenerateBackupCodes,
+  verifyBackupCode as verifyStoredBackupCode,
+  verifySecondFactor,
+  verifyTotpCode,
+} from "./second-factor";
+import { buildOtpAuthUrl, generateSecret } from "./totp";
+import type { AuthenticationResponseJSON } from "./webauthn";
 
 interface InputType {
-  action: 'setup' | 'verify' | 'disable' | 'generateBackupCodes' | 'verifyBackupCode';
+  action: 'setup' | 'verify' | 'disable' | 'generateBackupCodes' | 'verifyBackupCode' | 'passkeyOptions' | 'verifyPasskey' | 'status';
   userId: string;
   token?: string; // TOTP token or backup code
   secret?: string; // For setup verification
+  assertion?: AuthenticationResponseJSON; // Passkey assertion for verifyPasskey
 }
 
 interface TwoFactorSetup {
@@ -23,11 +34,12 @@ interface TwoFactorSetup {
 /**
  * Two-Factor Authentication Node
  * 
- * This node handles TOTP-based two-factor authentication:
+ * This node handles TOTP-based two-factor authentication (RFC 6238):
  * - Setup 2FA with QR code generation
- * - Verify TOTP tokens
- * - Generate and verify backup codes
- * - Enable/disable 2FA for users
+ * - Verify TOTP tokens, rejecting codes that were already used
+ * - Generate and verify hashed, single-use backup codes
+ * - Verify a passkey assertion in place of a code
+ * - Enable/disable 2FA for users (disabling takes a current code or backup code)
  */
 export default class TwoFactorAuth extends NanoService<InputType> {
   /**
@@ -41,7 +53,7 @@ export default class TwoFactorAuth extends NanoService<InputType> {
       properties: {
         action: {
           type: "string",
-          enum: ["setup", "verify", "disable", "generateBackupCodes", "verifyBackupCode"],
+          enum: ["setup", "verify", "disable", "generateBackupCodes", "verifyBackupCode", "passkeyOptions", "verifyPasskey", "status"],
           description: "2FA action to perform"
         },
         userId: {
@@ -50,11 +62,15 @@ export default class TwoFactorAuth extends NanoService<InputType> {
         },
         token: {
           type: "string",
-          description: "TOTP token or backup code"
+          description: "TOTP token or backup code (verify, verifyBackupCode, disable)"
         },
         secret: {
           type: "string",
           description: "TOTP secret for setup verification"
+        },
+        assertion: {
+          type: "object",
+          description: "Passkey assertion for the options from passkeyOptions (verifyPasskey)"
         }
       },
       required: ["action", "userId"]
@@ -225,6 +241,51 @@ export default class TwoFactorAuth extends NanoService<InputType> {
             }
           },
           required: ["success", "message", "data"]
+        },
+        {
+          // status response
+          properties: {
+            success: {
+              type: "boolean",
+              description: "Whether the status lookup was successful"
+            },
+            message: {
+              type: "string",
+              description: "Status result message"
+            },
+            data: {
+              type: "object",
+              properties: {
+                enabled: {
+                  type: "boolean",
+                  description: "Whether 2FA is enabled for the user"
+                },
+                codesRemaining: {
+                  type: "number",
+                  description: "Number of unused backup codes"
+                },
+                codesTotal: {
+                  type: "number",
+                  description: "Number of backup codes in the current set"
+                },
+                passkeys: {
+                  type: "number",
+                  description: "Number of registered passkeys"
+                },
+                generatedAt: {
+                  type: ["string", "null"],
+                  format: "date-time",
+                  description: "When the current backup code set was generated"
+                },
+                userId: {
+                  type: "string",
+                  description: "ID of the user"
+                }
+              },
+              required: ["enabled", "codesRemaining", "codesTotal", "passkeys", "generatedAt", "userId"]
+            }
+          },
+          required: ["success", "message", "data"]
         }
       ]
     };
@@ -252,7 +313,7 @@ export default class TwoFactorAuth extends NanoService<InputType> {
           result = await this.verify2FA(user, inputs.token, inputs.secret);
           break;
         case 'disable':
-          result = await this.disable2FA(user);
+          result = await this.disable2FA(user, inputs.token);
           break;
         case 'generateBackupCodes':
           result = await this.generateBackupCodes(user);
@@ -260,6 +321,15 @@ export default class TwoFactorAuth extends NanoService<InputType> {
         case 'verifyBackupCode':
           result = await this.verifyBackupCode(user, inputs.token);
           break;
+        case 'passkeyOptions':
+          result = { options: await startPasskeySecondFactor(user.id), userId: user.id };
+          break;
+        case 'verifyPasskey':
+          result = await this.verifyPasskey(user, inputs.assertion);
+          break;
+        case 'status':
+          result = await this.getStatus(user);
+          break;
         default:
           throw new Error(`Unsupported action: ${inputs.action}`);
       }
@@ -296,27 +366,34 @@ export default class TwoFactorAuth extends NanoService<InputType> {
 
   /**
    * Setup 2FA for a user
+   *
+   * Refused while 2FA is enabled: replacing the active secret and backup codes
+   * would take only a session, so it has to be disabled (with a code) first.
    */
   private async setup2FA(user: any): Promise<TwoFactorSetup> {
-    // Generate a random secret
-    const secret = this.generateSecret();
+    if (user.twoFactorEnabled) {
+      throw new Error("2FA is already enabled; disable it with a current code before setting it up again");
+    }
+
+    // Generate a random base32 secret
+    const secret = generateSecret();
     
-    // Generate QR code URL (in a real implementation, you'd use a proper TOTP library)
+    // Generate the otpauth:// URL rendered as a QR code by the frontend
     const qrCodeUrl = this.generateQRCodeUrl(user.email, secret);
     
-    // Generate backup codes
-    const backupCodes = this.createBackupCodes();
-
     // Store the secret temporarily (not enabled until verified)
     await db.user.update({
       where: { id: user.id },
       data: { 
         twoFactorSecret: secret,
-        backupCodes: JSON.stringify(backupCodes),
+        twoFactorLastUsedStep: null,
         updatedAt: new Date()
       }
     });
 
+    // Generate backup codes (stored hashed, returned in plaintext only once)
+    const backupCodes = await regenerateBackupCodes(user.id, "setup");
+
     return {
       secret,
       qrCodeUrl,
@@ -332,21 +409,23 @@ export default class TwoFactorAuth extends NanoService<InputType> {
       throw new Error("TOTP token is required");
     }
 
-    // Use provided secret or user's stored secret
-    const totpSecret = secret || user.twoFactorSecret;
+    // Codes are always checked against the stored secret; a client-supplied
+    // secret is only accepted as a confirmation of the pending setup
+    const totpSecret = user.twoFactorSecret;
     if (!totpSecret) {
       throw new Error("2FA not set up for this user");
     }
+    if (secret && secret !== totpSecret) {
+      throw new Error("2FA secret does not match the pending setup");
+    }
 
-    // Verify TOTP token (simplified - in production use a proper TOTP library)
-    const isValid = this.verifyTOTP(token, totpSecret);
-    
-    if (!isValid) {
-      throw new Error("Invalid 2FA token");
+    const verification = await verifyTotpCode(user, token);
+    if (!verification.verified) {
+      throw new Error(verification.reason || "Invalid 2FA token");
     }
 
     // If this is setup verification, enable 2FA
-    if (secret && !user.twoFactorEnabled) {
+    if (!user.twoFactorEnabled) {
       await db.user.update({
         where: { id: user.id },
         data: { 
@@ -356,13 +435,17 @@ export default class TwoFactorAuth extends NanoService<InputType> {
       });
 
       return {
+        verified: true,
         enabled: true,
+        userId: user.id,
         message: "2FA has been successfully enabled"
       };
     }
 
     return {
       verified: true,
+      enabled: true,
+      userId: user.id,
       message: "2FA token verified successfully"
     };
   }
@@ -370,20 +453,30 @@ export default class TwoFactorAuth extends NanoService<InputType> {
   /**
    * Disable 2FA for a user
    */
-  private async disable2FA(user: any) {
+  private async disable2FA(user: any, token?: string) {
     if (!user.twoFactorEnabled) {
       throw new Error("2FA is not enabled for this user");
     }
+    if (!token) {
+      throw new Error("A current 2FA code or backup code is required to disable 2FA");
+    }
+
+    const verification = await verifySecondFactor(user, token);
+    if (!verification.verified) {
+      throw new Error(verification.reason || "Invalid 2FA code");
+    }
 
     await db.user.update({
       where: { id: user.id },
       data: { 
         twoFactorEnabled: false,
         twoFactorSecret: null,
+        twoFactorLastUsedStep: null,
         backupCodes: null,
         updatedAt: new Date()
       }
     });
+    await clearBackupCodes(user.id);
 
     return {
       disabled: true,
@@ -399,18 +492,11 @@ export default class TwoFactorAuth extends NanoService<InputType> {
       throw new Error("2FA must be enabled to generate backup codes");
     }
 
-    const backupCodes = this.createBackupCodes();
-
-    await db.user.update({
-      where: { id: user.id },
-      data: { 
-        backupCodes: JSON.stringify(backupCodes),
-        updatedAt: new Date()
-      }
-    });
+    const backupCodes = await regenerateBackupCodes(user.id, "regenerate");
 
     return {
       backupCodes,
+      userId: user.id,
       message: "New backup codes generated successfully"
     };
   }
@@ -423,88 +509,59 @@ export default class TwoFactorAuth extends NanoService<InputType> {
       throw new Error("Backup code is required");
     }
 
-    if (!user.twoFactorEnabled || !user.backupCodes) {
-      throw new Error("2FA or backup codes not set up for this user");
+    const verification = await verifyStoredBackupCode(user, backupCode);
+    if (!verification.verified) {
+      throw new Error(verification.reason || "Invalid backup code");
     }
 
-    const backupCodes = JSON.parse(user.backupCodes);
-    const codeIndex = backupCodes.indexOf(backupCode);
-
-    if (codeIndex === -1) {
-      throw new Error("Invalid backup code");
-    }
-
-    // Remove the used backup code
-    backupCodes.splice(codeIndex, 1);
-
-    await db.user.update({
-      where: { id: user.id },
-      data: { 
-        backupCodes: JSON.stringify(backupCodes),
-        updatedAt: new Date()
-      }
-    });
-
     return {
       verified: true,
-      remainingCodes: backupCodes.length,
+      codesRemaining: verification.codesRemaining,
+      userId: user.id,
       message: "Backup code verified successfully"
     };
   }
 
   /**
-   * Generate a random secret for TOTP
+   * Verify a passkey assertion for the options from `passkeyOptions`
    */
-  private generateSecret(): string {
-    return crypto.randomBytes(20).toString('hex');
-  }
-
-  /**
-   * Generate QR code URL for TOTP setup
-   */
-  private generateQRCodeUrl(email: string, secret: string): string {
-    const issuer = "Blok Admin";
-    const label = `${issuer}:${email}`;
-    return `otpauth://totp/${encodeURIComponent(label)}?secret=${secret}&issuer=${encodeURIComponent(issuer)}`;
-  }
+  private async verifyPasskey(user: any, assertion?: AuthenticationResponseJSON) {
+    if (!assertion) {
+      throw new Error("Passkey assertion is required");
+    }
 
-  /**
-   * Create backup codes array
-   */
-  private createBackupCodes(): string[] {
-    const codes = [];
-    for (let i = 0; i < 10; i++) {
-      // Generate 8-digit backup codes
-      const code = Math.random().toString().slice(2, 10);
-      codes.push(code);
+    const verification = await verifyPasskeySecondFactor(user.id, assertion);
+    if (!verification.verified) {
+      throw new Error(verification.reason || "Invalid passkey");
     }
-    return codes;
+
+    return {
+      verified: true,
+      userId: user.id,
+      message: "Passkey verified successfully"
+    };
   }
 
   /**
-   * Verify TOTP token (simplified implementation)
-   * In production, use a proper TOTP library like 'speakeasy'
+   * 2FA status with backup code and passkey counts for the Security page
    */
-  private verifyTOTP(token: string, secret: string): boolean {
-    // This is a simplified mock implementation
-    // In production, implement proper TOTP verification
-    const currentTime = Math.floor(Date.now() / 30000);
-    const expectedToken = this.generateTOTP(secret, currentTime);
-    
-    // Also check previous and next time windows for clock skew
-    const prevToken = this.generateTOTP(secret, currentTime - 1);
-    const nextToken = this.generateTOTP(secret, currentTime + 1);
-    
-    return token === expectedToken || token === prevToken || token === nextToken;
+  private async getStatus(user: any) {
+    const backupStatus = await getBackupCodeStatus(user);
+    const passkeys = await db.webAuthnCredential.count({ where: { userId: user.id } });
+
+    return {
+      enabled: user.twoFactorEnabled,
+      ...backupStatus,
+      passkeys,
+      userId: user.id
+    };
   }
 
   /**
-   * Generate TOTP token (simplified implementation)
+   * Generate QR code URL for TOTP setup
    */
-  private generateTOTP(secret: string, timeStep: number): string {
-    // This is a mock implementation
-    // In production, implement proper TOTP generation using HMAC-SHA1
-    const hash = crypto.createHash('sha1').update(secret + timeStep.toString()).digest('hex');
-    return (parseInt(hash.slice(0, 6), 16) % 1000000).toString().padStart(6, '0');
+  private generateQRCodeUrl(email: string, secret: string): string {
+    const issuer = process.env.TOTP_ISSUER || "Blok Admin";
+    return buildOtpAuthUrl(issuer, email, secret);
   }
 }
@@ -0,0 +1,254 @@
+import * as bcrypt from "bcryptjs";
+import crypto from "crypto";
+import { db } from "../../../../database/config";
+import AuditLogger from "../audit-logger";
+import { getTOTPOptions, verifyTOTP } from "./totp";
+
+/**
+ * Second-factor verification shared by the two-factor-auth node and the
+ * second step of the login flow.
+ */
+
+export type SecondFactorMethod = "totp" | "backup_code" | "passkey";
+
+export type SecondFactorUser = {
+  id: string;
+  twoFactorEnabled: boolean;
+  twoFactorSecret: string | null;
+  backupCodes: string | null;
+};
+
+export type BackupCodeStatus = {
+  codesRemaining: number;
+  codesTotal: number;
+  generatedAt: string | null;
+};
+
+export type SecondFactorResult = {
+  verified: boolean;
+  method?: SecondFactorMethod;
+  codesRemaining?: number;
+  reason?: string;
+};
+
+/**
+ * Verify a TOTP code and atomically record its time step.
+ * A code is only accepted for a time step newer than the last one used.
+ */
+export async function verifyTotpCode(user: SecondFactorUser, token: string): Promise<SecondFactorResult> {
+  if (!user.twoFactorSecret) {
+    return { verified: false, reason: "2FA not set up for this user" };
+  }
+
+  const verification = verifyTOTP(token, user.twoFactorSecret);
+  if (!verification.valid || verification.timeStep === undefined) {
+    return { verified: false, reason: "Invalid 2FA token" };
+  }
+
+  const result = await db.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [
+        { twoFactorLastUsedStep: null },
+        { twoFactorLastUsedStep: { lt: verification.timeStep } }
+      ]
+    },
+    data: {
+      twoFactorLastUsedStep: verification.timeStep
+    }
+  });
+
+  if (result.count === 0) {
+    return { verified: false, reason: "2FA token has already been used" };
+  }
+
+  return { verified: true, method: "totp" };
+}
+
+/**
+ * Number of backup codes issued per generation
+ */
+export const BACKUP_CODE_COUNT = 10;
+
+// Unambiguous alphabet (no 0/O, 1/I/L) so codes can be typed from paper
+const BACKUP_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const BACKUP_CODE_HASH_ROUNDS = 10;
+
+/**
+ * Canonical form of a backup code: uppercase without separators or spaces
+ */
+function normalizeBackupCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toUpperCase();
+}
+
+/**
+ * Generate a single CSPRNG backup code formatted as XXXXX-XXXXX (~49 bits)
+ */
+function createBackupCode(): string {
+  let code = "";
+  for (let i = 0; i < 10; i++) {
+    code += BACKUP_CODE_ALPHABET[crypto.randomInt(BACKUP_CODE_ALPHABET.length)];
+  }
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * Move plaintext codes from the legacy `users.backup_codes` JSON column into
+ * the hashed `backup_codes` table. Runs lazily the first time a user's codes are touched.
+ */
+async function migrateLegacyBackupCodes(user: SecondFactorUser): Promise<void> {
+  if (!user.backupCodes) return;
+
+  let legacyCodes: string[] = [];
+  try {
+    legacyCodes = JSON.parse(user.backupCodes);
+  } catch {
+    legacyCodes = [];
+  }
+
+  const hashed = await Promise.all(
+    legacyCodes.map((code) => bcrypt.hash(normalizeBackupCode(code), BACKUP_CODE_HASH_ROUNDS))
+  );
+
+  await db.$transaction([
+    db.backupCode.createMany({
+      data: hashed.map((codeHash) => ({ userId: user.id, codeHash }))
+    }),
+    db.user.update({
+      where: { id: user.id },
+      data: { backupCodes: null }
+    })
+  ]);
+
+  user.backupCodes = null;
+}
+
+/**
+ * Replace all of a user's backup codes with a fresh set.
+ * Only bcrypt hashes are stored; the plaintext codes are returned once.
+ */
+export async function regenerateBackupCodes(userId: string, reason = "regenerate"): Promise<string[]> {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => createBackupCode());
+  const hashed = await Promise.all(
+    codes.map((code) => bcrypt.hash(normalizeBackupCode(code), BACKUP_CODE_HASH_ROUNDS))
+  );
+
+  await db.$transaction([
+    db.backupCode.deleteMany({ where: { userId } }),
+    db.backupCode.createMany({
+      data: hashed.map((codeHash) => ({ userId, codeHash }))
+    }),
+    db.user.update({
+      where: { id: userId },
+      data: { backupCodes: null, updatedAt: new Date() }
+    })
+  ]);
+
+  await AuditLogger.logSecurityEvent("backup_codes_generated", userId, {
+    reason,
+    count: codes.length
+  });
+
+  return codes;
+}
+
+/**
+ * Delete every backup code of a user (used when 2FA is disabled)
+ */
+export async function clearBackupCodes(userId: string): Promise<void> {
+  await db.backupCode.deleteMany({ where: { userId } });
+}
+
+/**
+ * Remaining/total backup codes and when the current set was generated
+ */
+export async function getBackupCodeStatus(user: SecondFactorUser): Promise<BackupCodeStatus> {
+  await migrateLegacyBackupCodes(user);
+
+  const codes = await db.backupCode.findMany({
+    where: { userId: user.id },
+    select: { usedAt: true, createdAt: true },
+    orderBy: { createdAt: "desc" }
+  });
+
+  return {
+    codesRemaining: codes.filter((code: { usedAt: Date | null }) => code.usedAt === null).length,
+    codesTotal: codes.length,
+    generatedAt: codes.length > 0 ? codes[0].createdAt.toISOString() : null
+  };
+}
+
+/**
+ * Verify and consume a backup code.
+ * Consumption is atomic: a code can only be marked used once, even under concurrent requests.
+ */
+export async function verifyBackupCode(user: SecondFactorUser, backupCode: string): Promise<SecondFactorResult> {
+  if (!user.twoFactorEnabled) {
+    return { verified: false, reason: "2FA or backup codes not set up for this user" };
+  }
+
+  await migrateLegacyBackupCodes(user);
+
+  const candidates = await db.backupCode.findMany({
+    where: { userId: user.id, usedAt: null },
+    select: { id: true, codeHash: true }
+  });
+
+  if (candidates.length === 0) {
+    return { verified: false, reason: "No backup codes remaining" };
+  }
+
+  const normalized = normalizeBackupCode(backupCode);
+  let matchedId: string | null = null;
+  for (const candidate of candidates) {
+    if (await bcrypt.compare(normalized, candidate.codeHash)) {
+      matchedId = candidate.id;
+      break;
+    }
+  }
+
+  if (!matchedId) {
+    await AuditLogger.logSecurityEvent("backup_code_used", user.id, { codesRemaining: candidates.length }, false, "Invalid backup code");
+    return { verified: false, reason: "Invalid backup code" };
+  }
+
+  const consumed = await db.backupCode.updateMany({
+    where: { id: matchedId, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  if (consumed.count === 0) {
+    await AuditLogger.logSecurityEvent("backup_code_used", user.id, { backupCodeId: matchedId }, false, "Backup code already used");
+    return { verified: false, reason: "Backup code has already been used" };
+  }
+
+  const codesRemaining = await db.backupCode.count({
+    where: { userId: user.id, usedAt: null }
+  });
+
+  await AuditLogger.logSecurityEvent("backup_code_used", user.id, {
+    backupCodeId: matchedId,
+    codesRemaining
+  });
+
+  return { verified: true, method: "backup_code", codesRemaining };
+}
+
+/**
+ * Verify a login second factor: codes shaped like a TOTP (digits only, the
+ * configured length) are checked as TOTP, anything else as a backup code.
+ */
+export async function verifySecondFactor(user: SecondFactorUser, code: string): Promise<SecondFactorResult> {
+  if (!user.twoFactorEnabled) {
+    return { verified: false, reason: "2FA is not enabled for this user" };
+  }
+
+  const normalized = code.replace(/\s/g, "");
+  const { digits } = getTOTPOptions();
+
+  if (/^\d+$/.test(normalized) && normalized.length === digits) {
+    return verifyTotpCode(user, normalized);
+  }
+
+  return verifyBackupCode(user, normalized);
+}
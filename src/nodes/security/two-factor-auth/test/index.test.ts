@@ -0,0 +1,81 @@
+import type { Context } from "@nanoservice-ts/shared";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+	user: { id: "user-1", email: "user@example.com", twoFactorEnabled: false, twoFactorSecret: null as string | null },
+	update: vi.fn(),
+	regenerateBackupCodes: vi.fn(),
+	clearBackupCodes: vi.fn(),
+	verifySecondFactor: vi.fn(),
+}));
+
+vi.mock("../../../../../database/config", () => ({
+	db: { user: { findUnique: async () => ({ ...mocks.user }), update: mocks.update } },
+}));
+vi.mock("../../../auth/passkeys", () => ({ startPasskeySecondFactor: vi.fn(), verifyPasskeySecondFactor: vi.fn() }));
+vi.mock("../second-factor", () => ({
+	clearBackupCodes: mocks.clearBackupCodes,
+	getBackupCodeStatus: vi.fn(),
+	regenerateBackupCodes: mocks.regenerateBackupCodes,
+	verifyBackupCode: vi.fn(),
+	verifySecondFactor: mocks.verifySecondFactor,
+	verifyTotpCode: vi.fn(),
+}));
+
+import TwoFactorAuth from "../index";
+
+function context(): Context {
+	return { vars: {}, logger: { log: vi.fn(), error: vi.fn() } } as unknown as Context;
+}
+
+describe("two-factor auth node", () => {
+	let node: TwoFactorAuth;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mocks.user.twoFactorEnabled = false;
+		mocks.user.twoFactorSecret = null;
+		mocks.regenerateBackupCodes.mockResolvedValue(["AAAA-BBBB"]);
+		node = new TwoFactorAuth();
+	});
+
+	test("stores a pending secret while 2FA is off", async () => {
+		const response = await node.handle(context(), { action: "setup", userId: "user-1" });
+
+		expect(response.error).toBeFalsy();
+		expect(mocks.update).toHaveBeenCalledWith(
+			expect.objectContaining({ data: expect.objectContaining({ twoFactorSecret: expect.any(String) }) }),
+		);
+	});
+
+	test("refuses setup while 2FA is enabled and keeps the active secret and backup codes", async () => {
+		mocks.user.twoFactorEnabled = true;
+		mocks.user.twoFactorSecret = "ACTIVESECRET";
+
+		const response = await node.handle(context(), { action: "setup", userId: "user-1" });
+
+		expect(response.error?.message).toMatch(/already enabled/);
+		expect(mocks.update).not.toHaveBeenCalled();
+		expect(mocks.regenerateBackupCodes).not.toHaveBeenCalled();
+	});
+
+	test("requires a valid code to disable 2FA", async () => {
+		mocks.user.twoFactorEnabled = true;
+
+		const missing = await node.handle(context(), { action: "disable", userId: "user-1" });
+		expect(missing.error?.message).toMatch(/code is required/);
+
+		mocks.verifySecondFactor.mockResolvedValue({ verified: false, reason: "Invalid 2FA token" });
+		const invalid = await node.handle(context(), { action: "disable", userId: "user-1", token: "000000" });
+		expect(invalid.error?.message).toBe("Invalid 2FA token");
+		expect(mocks.update).not.toHaveBeenCalled();
+
+		mocks.verifySecondFactor.mockResolvedValue({ verified: true });
+		const valid = await node.handle(context(), { action: "disable", userId: "user-1", token: "123456" });
+		expect(valid.error).toBeFalsy();
+		expect(mocks.update).toHaveBeenCalledWith(
+			expect.objectContaining({ data: expect.objectContaining({ twoFactorEnabled: false, twoFactorSecret: null }) }),
+		);
+		expect(mocks.clearBackupCodes).toHaveBeenCalledWith("user-1");
+	});
+});
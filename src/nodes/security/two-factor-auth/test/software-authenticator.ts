@@ -0,0 +1,302 @@
+import crypto from "crypto";
+import type {
+	AuthenticationOptionsJSON,
+	AuthenticationResponseJSON,
+	RegistrationOptionsJSON,
+	RegistrationResponseJSON,
+} from "../webauthn";
+
+/**
+ * Software authenticator for the WebAuthn tests: holds one credential and
+ * answers create/get ceremonies the way a browser plus security key would,
+ * including "none" and "packed" (self or x5c) attestation.
+ */
+
+type CborInput = number | string | boolean | null | Buffer | CborInput[] | Map<CborInput, CborInput>;
+
+export type SoftwareAuthenticatorOptions = {
+	algorithm?: "ES256" | "EdDSA" | "RS256";
+	attestation?: "none" | "packed-self" | "packed-x5c";
+	aaguid?: Buffer;
+	countSignatures?: boolean; // false behaves like a synced passkey (counter always 0)
+	userVerification?: boolean;
+	certificateSubject?: Record<string, string>;
+	certificateAaguid?: Buffer;
+};
+
+const COSE_ALGORITHMS = { ES256: -7, EdDSA: -8, RS256: -257 } as const;
+
+function cborHeader(major: number, length: number): Buffer {
+	if (length < 24) return Buffer.from([(major << 5) | length]);
+	if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+	if (length < 0x10000) {
+		const header = Buffer.alloc(3);
+		header[0] = (major << 5) | 25;
+		header.writeUInt16BE(length, 1);
+		return header;
+	}
+	const header = Buffer.alloc(5);
+	header[0] = (major << 5) | 26;
+	header.writeUInt32BE(length, 1);
+	return header;
+}
+
+/**
+ * Minimal CBOR encoder (definite lengths, integer and text keys)
+ */
+export function encodeCbor(value: CborInput): Buffer {
+	if (typeof value === "number") {
+		return value >= 0 ? cborHeader(0, value) : cborHeader(1, -1 - value);
+	}
+	if (typeof value === "string") {
+		const bytes = Buffer.from(value, "utf8");
+		return Buffer.concat([cborHeader(3, bytes.length), bytes]);
+	}
+	if (typeof value === "boolean") return Buffer.from([value ? 0xf5 : 0xf4]);
+	if (value === null) return Buffer.from([0xf6]);
+	if (Buffer.isBuffer(value)) return Buffer.concat([cborHeader(2, value.length), value]);
+	if (Array.isArray(value)) {
+		return Buffer.concat([cborHeader(4, value.length), ...value.map(encodeCbor)]);
+	}
+	const entries = [...value.entries()];
+	return Buffer.concat([
+		cborHeader(5, entries.length),
+		...entries.flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)]),
+	]);
+}
+
+// --- Just enough DER to mint an attestation certificate ---
+
+function der(tag: number, content: Buffer): Buffer {
+	const length = content.length;
+	const header =
+		length < 0x80
+			? Buffer.from([tag, length])
+			: length < 0x100
+				? Buffer.from([tag, 0x81, length])
+				: Buffer.from([tag, 0x82, length >> 8, length & 0xff]);
+	return Buffer.concat([header, content]);
+}
+
+const derSequence = (...items: Buffer[]) => der(0x30, Buffer.concat(items));
+const derSet = (...items: Buffer[]) => der(0x31, Buffer.concat(items));
+const derOctetString = (content: Buffer) => der(0x04, content);
+const derUtf8 = (text: string) => der(0x0c, Buffer.from(text, "utf8"));
+const derUtcTime = (date: Date) =>
+	der(0x17, Buffer.from(`${date.toISOString().slice(2, 19).replace(/[-:T]/g, "")}Z`, "ascii"));
+
+function derObjectId(oid: string): Buffer {
+	const [first, second, ...rest] = oid.split(".").map(Number);
+	const bytes = [first * 40 + second];
+	for (const arc of rest) {
+		const chunk = [arc & 0x7f];
+		for (let value = arc >> 7; value > 0; value >>= 7) chunk.unshift((value & 0x7f) | 0x80);
+		bytes.push(...chunk);
+	}
+	return der(0x06, Buffer.from(bytes));
+}
+
+const NAME_OIDS: Record<string, string> = { C: "2.5.4.6", O: "2.5.4.10", OU: "2.5.4.11", CN: "2.5.4.3" };
+
+function derName(attributes: Record<string, string>): Buffer {
+	return derSequence(
+		...Object.entries(attributes).map(([type, value]) => derSet(derSequence(derObjectId(NAME_OIDS[type]), derUtf8(value))))
+	);
+}
+
+/**
+ * Self-signed ECDSA P-256 attestation certificate for `publicKey`
+ */
+function createAttestationCertificate(
+	publicKey: crypto.KeyObject,
+	privateKey: crypto.KeyObject,
+	subject: Record<string, string>,
+	aaguid?: Buffer
+): Buffer {
+	const signatureAlgorithm = derSequence(derObjectId("1.2.840.10045.4.3.2"));
+	const now = Date.now();
+	const extensions = [
+		// basicConstraints: CA false
+		derSequence(derObjectId("2.5.29.19"), derOctetString(derSequence())),
+	];
+	if (aaguid) {
+		extensions.push(derSequence(derObjectId("1.3.6.1.4.1.45724.1.1.4"), derOctetString(derOctetString(aaguid))));
+	}
+
+	const tbsCertificate = derSequence(
+		der(0xa0, der(0x02, Buffer.from([0x02]))), // v3
+		der(0x02, Buffer.from([0x01, ...crypto.randomBytes(8)])),
+		signatureAlgorithm,
+		derName(subject),
+		derSequence(derUtcTime(new Date(now - 86400000)), derUtcTime(new Date(now + 365 * 86400000))),
+		derName(subject),
+		publicKey.export({ type: "spki", format: "der" }),
+		der(0xa3, derSequence(...extensions))
+	);
+	const signature = crypto.sign("sha256", tbsCertificate, privateKey);
+
+	return derSequence(tbsCertificate, signatureAlgorithm, der(0x03, Buffer.concat([Buffer.from([0x00]), signature])));
+}
+
+export class SoftwareAuthenticator {
+	readonly credentialId = crypto.randomBytes(32);
+	readonly options: Required<Omit<SoftwareAuthenticatorOptions, "certificateAaguid">> & { certificateAaguid?: Buffer };
+	private readonly keyPair: crypto.KeyPairKeyObjectResult;
+	private signCount = 0;
+
+	constructor(options: SoftwareAuthenticatorOptions = {}) {
+		this.options = {
+			algorithm: "ES256",
+			attestation: "none",
+			aaguid: crypto.randomBytes(16),
+			countSignatures: true,
+			userVerification: true,
+			certificateSubject: {
+				C: "US",
+				O: "Blok Test Authenticators",
+				OU: "Authenticator Attestation",
+				CN: "Blok Software Authenticator",
+			},
+			...options,
+		};
+		this.options.certificateAaguid ??= this.options.aaguid;
+
+		const { algorithm } = this.options;
+		this.keyPair =
+			algorithm === "ES256"
+				? crypto.generateKeyPairSync("ec", { namedCurve: "P-256" })
+				: algorithm === "EdDSA"
+					? crypto.generateKeyPairSync("ed25519")
+					: crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+	}
+
+	get id(): string {
+		return this.credentialId.toString("base64url");
+	}
+
+	/**
+	 * The credential public key as a COSE_Key
+	 */
+	coseKey(): Buffer {
+		const jwk = this.keyPair.publicKey.export({ format: "jwk" });
+		const b = (value?: string) => Buffer.from(value || "", "base64url");
+		const { algorithm } = this.options;
+
+		if (algorithm === "ES256") {
+			return encodeCbor(new Map<CborInput, CborInput>([[1, 2], [3, -7], [-1, 1], [-2, b(jwk.x)], [-3, b(jwk.y)]]));
+		}
+		if (algorithm === "EdDSA") {
+			return encodeCbor(new Map<CborInput, CborInput>([[1, 1], [3, -8], [-1, 6], [-2, b(jwk.x)]]));
+		}
+		return encodeCbor(new Map<CborInput, CborInput>([[1, 3], [3, -257], [-1, b(jwk.n)], [-2, b(jwk.e)]]));
+	}
+
+	private sign(data: Buffer): Buffer {
+		return crypto.sign(this.options.algorithm === "EdDSA" ? null : "sha256", data, this.keyPair.privateKey);
+	}
+
+	private nextSignCount(): number {
+		if (!this.options.countSignatures) return 0;
+		return ++this.signCount;
+	}
+
+	/**
+	 * Rewind the counter, as a cloned authenticator would appear
+	 */
+	setSignCount(count: number): void {
+		this.signCount = count;
+	}
+
+	authenticatorData(rpId: string, attestedCredential: boolean): Buffer {
+		const flags = 0x01 | (this.options.userVerification ? 0x04 : 0) | (attestedCredential ? 0x40 : 0);
+		const counter = Buffer.alloc(4);
+		counter.writeUInt32BE(this.nextSignCount());
+		const parts = [crypto.createHash("sha256").update(rpId).digest(), Buffer.from([flags]), counter];
+
+		if (attestedCredential) {
+			const idLength = Buffer.alloc(2);
+			idLength.writeUInt16BE(this.credentialId.length);
+			parts.push(this.options.aaguid, idLength, this.credentialId, this.coseKey());
+		}
+		return Buffer.concat(parts);
+	}
+
+	static clientData(type: string, challenge: string, origin: string): Buffer {
+		return Buffer.from(JSON.stringify({ type, challenge, origin, crossOrigin: false }));
+	}
+
+	/**
+	 * Answer `navigator.credentials.create()`
+	 */
+	create(options: RegistrationOptionsJSON, origin: string, overrides: { rpId?: string; type?: string } = {}): RegistrationResponseJSON {
+		const clientDataJSON = SoftwareAuthenticator.clientData(overrides.type || "webauthn.create", options.challenge, origin);
+		const authData = this.authenticatorData(overrides.rpId || options.rp.id, true);
+		const clientDataHash = crypto.createHash("sha256").update(clientDataJSON).digest();
+		const signedData = Buffer.concat([authData, clientDataHash]);
+
+		let fmt = "none";
+		let attStmt = new Map<CborInput, CborInput>();
+		if (this.options.attestation === "packed-self") {
+			fmt = "packed";
+			attStmt = new Map<CborInput, CborInput>([
+				["alg", COSE_ALGORITHMS[this.options.algorithm]],
+				["sig", this.sign(signedData)],
+			]);
+		} else if (this.options.attestation === "packed-x5c") {
+			// A separate batch key signs, as on real security keys
+			const attestationKey = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+			const certificate = createAttestationCertificate(
+				attestationKey.publicKey,
+				attestationKey.privateKey,
+				this.options.certificateSubject,
+				this.options.certificateAaguid
+			);
+			fmt = "packed";
+			attStmt = new Map<CborInput, CborInput>([
+				["alg", -7],
+				["sig", crypto.sign("sha256", signedData, attestationKey.privateKey)],
+				["x5c", [certificate]],
+			]);
+		}
+
+		const attestationObject = encodeCbor(
+			new Map<CborInput, CborInput>([
+				["fmt", fmt],
+				["attStmt", attStmt],
+				["authData", authData],
+			])
+		);
+
+		return {
+			id: this.id,
+			rawId: this.id,
+			type: "public-key",
+			response: {
+				clientDataJSON: clientDataJSON.toString("base64url"),
+				attestationObject: attestationObject.toString("base64url"),
+				transports: ["internal"],
+			},
+		};
+	}
+
+	/**
+	 * Answer `navigator.credentials.get()`
+	 */
+	get(options: AuthenticationOptionsJSON, origin: string, userHandle?: string): AuthenticationResponseJSON {
+		const clientDataJSON = SoftwareAuthenticator.clientData("webauthn.get", options.challenge, origin);
+		const authData = this.authenticatorData(options.rpId, false);
+		const clientDataHash = crypto.createHash("sha256").update(clientDataJSON).digest();
+
+		return {
+			id: this.id,
+			rawId: this.id,
+			type: "public-key",
+			response: {
+				clientDataJSON: clientDataJSON.toString("base64url"),
+				authenticatorData: authData.toString("base64url"),
+				signature: this.sign(Buffer.concat([authData, clientDataHash])).toString("base64url"),
+				userHandle: userHandle ?? null,
+			},
+		};
+	}
+}
@@ -0,0 +1,101 @@
+import { describe, expect, test } from "vitest";
+import {
+	base32Decode,
+	base32Encode,
+	buildOtpAuthUrl,
+	generateSecret,
+	generateTOTP,
+	hotp,
+	verifyTOTP,
+} from "../totp";
+
+// RFC 6238 Appendix B uses the ASCII seed "12345678901234567890" for SHA-1
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890", "ascii"));
+
+// RFC 6238 Appendix B test vectors (SHA-1, 8 digits, 30 second period)
+const RFC_6238_VECTORS: Array<[number, string]> = [
+	[59, "94287082"],
+	[1111111109, "07081804"],
+	[1111111111, "14050471"],
+	[1234567890, "89005924"],
+	[2000000000, "69279037"],
+	[20000000000, "65353130"],
+];
+
+// RFC 4226 Appendix D test vectors (6 digits, counters 0-9)
+const RFC_4226_VECTORS = [
+	"755224",
+	"287082",
+	"359152",
+	"969429",
+	"338314",
+	"254676",
+	"287922",
+	"162583",
+	"399871",
+	"520489",
+];
+
+describe("base32", () => {
+	test("matches the RFC 4648 test vectors", () => {
+		expect(base32Encode(Buffer.from("foobar"))).toEqual("MZXW6YTBOI");
+		expect(base32Decode("MZXW6YTBOI======").toString()).toEqual("foobar");
+		expect(base32Decode("mzxw 6ytb oi").toString()).toEqual("foobar");
+	});
+
+	test("round-trips generated secrets", () => {
+		const secret = generateSecret();
+		expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+		expect(base32Encode(base32Decode(secret))).toEqual(secret);
+	});
+});
+
+describe("HOTP", () => {
+	test("matches the RFC 4226 test vectors", () => {
+		const key = Buffer.from("12345678901234567890", "ascii");
+		RFC_4226_VECTORS.forEach((expected, counter) => {
+			expect(hotp(key, counter)).toEqual(expected);
+		});
+	});
+});
+
+describe("TOTP", () => {
+	test("matches the RFC 6238 SHA-1 test vectors", () => {
+		for (const [seconds, expected] of RFC_6238_VECTORS) {
+			expect(generateTOTP(RFC_SECRET, { digits: 8, period: 30, algorithm: "sha1" }, seconds * 1000)).toEqual(expected);
+		}
+	});
+
+	test("accepts codes inside the skew window and reports the matched time step", () => {
+		const options = { digits: 8, period: 30, window: 1, algorithm: "sha1" as const };
+		const result = verifyTOTP("07081804", RFC_SECRET, options, 1111111109 * 1000 + 30000);
+
+		expect(result.valid).toBe(true);
+		expect(result.delta).toEqual(-1);
+		expect(result.timeStep).toEqual(Math.floor(1111111109 / 30));
+	});
+
+	test("rejects codes outside the skew window", () => {
+		const options = { digits: 8, period: 30, window: 1, algorithm: "sha1" as const };
+		expect(verifyTOTP("07081804", RFC_SECRET, options, 1111111109 * 1000 + 90000).valid).toBe(false);
+		expect(verifyTOTP("07081804", RFC_SECRET, { ...options, window: 0 }, 1111111109 * 1000 + 30000).valid).toBe(false);
+	});
+
+	test("rejects malformed codes", () => {
+		expect(verifyTOTP("abc", RFC_SECRET).valid).toBe(false);
+		expect(verifyTOTP("1234567", RFC_SECRET, { digits: 6 }).valid).toBe(false);
+	});
+
+	test("builds an otpauth URL with the base32 secret and parameters", () => {
+		const url = new URL(buildOtpAuthUrl("Blok Admin", "user@example.com", RFC_SECRET, { digits: 6, period: 30 }));
+
+		expect(url.protocol).toEqual("otpauth:");
+		expect(url.host).toEqual("totp");
+		expect(decodeURIComponent(url.pathname)).toEqual("/Blok Admin:user@example.com");
+		expect(url.search).toContain("issuer=Blok%20Admin");
+		expect(url.searchParams.get("secret")).toEqual(RFC_SECRET);
+		expect(url.searchParams.get("digits")).toEqual("6");
+		expect(url.searchParams.get("period")).toEqual("30");
+		expect(url.searchParams.get("algorithm")).toEqual("SHA1");
+	});
+});
@@ -0,0 +1,313 @@
+import crypto from "crypto";
+import { describe, expect, test } from "vitest";
+import {
+	type WebAuthnConfig,
+	coseKeyToPublicKey,
+	createAuthenticationOptions,
+	createChallenge,
+	createRegistrationOptions,
+	decodeCbor,
+	getWebAuthnConfig,
+	verifyAuthenticationResponse,
+	verifyRegistrationResponse,
+} from "../webauthn";
+import { SoftwareAuthenticator, encodeCbor } from "./software-authenticator";
+
+const ORIGIN = "https://admin.example.com";
+const config: WebAuthnConfig = {
+	rpId: "admin.example.com",
+	rpName: "Blok Admin",
+	origins: [ORIGIN],
+	attestation: "direct",
+	timeoutMs: 60000,
+};
+const user = { id: "7f3c2a9e-user", name: "user@example.com", displayName: "Test User" };
+
+function register(authenticator: SoftwareAuthenticator, overrides: { rpId?: string; type?: string; origin?: string } = {}) {
+	const challenge = createChallenge();
+	const options = createRegistrationOptions(config, { challenge, user });
+	const response = authenticator.create(options, overrides.origin || ORIGIN, overrides);
+	return { challenge, response };
+}
+
+function registerAndStore(authenticator: SoftwareAuthenticator) {
+	const { challenge, response } = register(authenticator);
+	const verified = verifyRegistrationResponse(response, { challenge, config });
+	return { credentialId: verified.credentialId, publicKey: verified.publicKey, signCount: verified.signCount };
+}
+
+function authenticate(authenticator: SoftwareAuthenticator, origin = ORIGIN) {
+	const challenge = createChallenge();
+	const options = createAuthenticationOptions(config, {
+		challenge,
+		allowCredentials: [{ type: "public-key", id: authenticator.id }],
+	});
+	return { challenge, response: authenticator.get(options, origin) };
+}
+
+describe("CBOR", () => {
+	test("decodes the types used by attestation objects", () => {
+		const encoded = encodeCbor(
+			new Map<any, any>([
+				["fmt", "packed"],
+				[-7, Buffer.from([1, 2, 3])],
+				[300, [true, false, null, 70000]],
+			])
+		);
+		const decoded = decodeCbor(encoded) as Map<unknown, unknown>;
+
+		expect(decoded.get("fmt")).toEqual("packed");
+		expect(decoded.get(-7)).toEqual(Buffer.from([1, 2, 3]));
+		expect(decoded.get(300)).toEqual([true, false, null, 70000]);
+	});
+
+	test("rejects trailing and truncated data", () => {
+		expect(() => decodeCbor(Buffer.from([0x01, 0x02]))).toThrow("Unexpected data");
+		expect(() => decodeCbor(Buffer.from([0x43, 0x01]))).toThrow("Truncated");
+		expect(() => decodeCbor(Buffer.from([0x5f]))).toThrow();
+	});
+});
+
+describe("configuration and options", () => {
+	test("derives the RP ID from the first allowed origin", () => {
+		const fromEnv = getWebAuthnConfig({ WEBAUTHN_ORIGINS: "https://app.example.org/, https://admin.example.org" });
+
+		expect(fromEnv.rpId).toEqual("app.example.org");
+		expect(fromEnv.origins).toEqual(["https://app.example.org", "https://admin.example.org"]);
+		expect(fromEnv.attestation).toEqual("none");
+	});
+
+	test("asks for discoverable credentials with supported algorithms", () => {
+		const options = createRegistrationOptions(config, {
+			challenge: "abc",
+			user,
+			excludeCredentials: [{ type: "public-key", id: "existing" }],
+		});
+
+		expect(options.rp).toEqual({ id: "admin.example.com", name: "Blok Admin" });
+		expect(Buffer.from(options.user.id, "base64url").toString("utf8")).toEqual(user.id);
+		expect(options.pubKeyCredParams.map((param) => param.alg)).toEqual([-8, -7, -257]);
+		expect(options.authenticatorSelection.residentKey).toEqual("required");
+		expect(options.excludeCredentials).toEqual([{ type: "public-key", id: "existing" }]);
+	});
+});
+
+describe("registration", () => {
+	test("accepts the none attestation format", () => {
+		const authenticator = new SoftwareAuthenticator();
+		const { challenge, response } = register(authenticator);
+
+		const verified = verifyRegistrationResponse(response, { challenge, config });
+
+		expect(verified.credentialId).toEqual(authenticator.id);
+		expect(verified.attestationFormat).toEqual("none");
+		expect(verified.attestationType).toEqual("none");
+		expect(verified.algorithm).toEqual(-7);
+		expect(verified.signCount).toEqual(1);
+		expect(verified.userVerified).toBe(true);
+		expect(verified.transports).toEqual(["internal"]);
+		expect(verified.aaguid).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+		expect(coseKeyToPublicKey(Buffer.from(verified.publicKey, "base64url")).key.asymmetricKeyType).toEqual("ec");
+	});
+
+	test.each(["ES256", "EdDSA", "RS256"] as const)("accepts packed self attestation (%s)", (algorithm) => {
+		const authenticator = new SoftwareAuthenticator({ algorithm, attestation: "packed-self" });
+		const { challenge, response } = register(authenticator);
+
+		const verified = verifyRegistrationResponse(response, { challenge, config });
+
+		expect(verified.attestationFormat).toEqual("packed");
+		expect(verified.attestationType).toEqual("self");
+		expect(verified.algorithm).toEqual({ ES256: -7, EdDSA: -8, RS256: -257 }[algorithm]);
+	});
+
+	test("accepts packed attestation with a certificate", () => {
+		const authenticator = new SoftwareAuthenticator({ attestation: "packed-x5c" });
+		const { challenge, response } = register(authenticator);
+
+		const verified = verifyRegistrationResponse(response, { challenge, config });
+
+		expect(verified.attestationFormat).toEqual("packed");
+		expect(verified.attestationType).toEqual("basic");
+	});
+
+	test("rejects an attestation certificate without the required subject", () => {
+		const authenticator = new SoftwareAuthenticator({
+			attestation: "packed-x5c",
+			certificateSubject: { C: "US", O: "Blok", OU: "Something Else", CN: "Key" },
+		});
+		const { challenge, response } = register(authenticator);
+
+		expect(() => verifyRegistrationResponse(response, { challenge, config })).toThrow("subject");
+	});
+
+	test("rejects an attestation certificate issued for another authenticator model", () => {
+		const authenticator = new SoftwareAuthenticator({
+			attestation: "packed-x5c",
+			certificateAaguid: crypto.randomBytes(16),
+		});
+		const { challenge, response } = register(authenticator);
+
+		expect(() => verifyRegistrationResponse(response, { challenge, config })).toThrow("AAGUID");
+	});
+
+	test("rejects a forged attestation signature", () => {
+		const authenticator = new SoftwareAuthenticator({ attestation: "packed-self" });
+		const { challenge, response } = register(authenticator);
+		const attestation = decodeCbor(Buffer.from(response.response.attestationObject, "base64url")) as Map<any, any>;
+		attestation.get("attStmt").set("sig", crypto.randomBytes(72));
+		response.response.attestationObject = encodeCbor(attestation).toString("base64url");
+
+		expect(() => verifyRegistrationResponse(response, { challenge, config })).toThrow("Invalid attestation signature");
+	});
+
+	test("rejects a none attestation that carries a statement", () => {
+		const authenticator = new SoftwareAuthenticator();
+		const { challenge, response } = register(authenticator);
+		const attestation = decodeCbor(Buffer.from(response.response.attestationObject, "base64url")) as Map<any, any>;
+		attestation.set("attStmt", new Map([["sig", Buffer.from([1])]]));
+		response.response.attestationObject = encodeCbor(attestation).toString("base64url");
+
+		expect(() => verifyRegistrationResponse(response, { challenge, config })).toThrow("must be empty");
+	});
+
+	test("rejects unsupported attestation formats", () => {
+		const authenticator = new SoftwareAuthenticator();
+		const { challenge, response } = register(authenticator);
+		const attestation = decodeCbor(Buffer.from(response.response.attestationObject, "base64url")) as Map<any, any>;
+		attestation.set("fmt", "fido-u2f");
+		response.response.attestationObject = encodeCbor(attestation).toString("base64url");
+
+		expect(() => verifyRegistrationResponse(response, { challenge, config })).toThrow("Unsupported attestation format");
+	});
+
+	test("rejects another ceremony's challenge", () => {
+		const { response } = register(new SoftwareAuthenticator());
+		expect(() => verifyRegistrationResponse(response, { challenge: createChallenge(), config })).toThrow("Challenge");
+	});
+
+	test("rejects a response from a phishing origin", () => {
+		const { challenge, response } = register(new SoftwareAuthenticator(), { origin: "https://admin.example.com.evil.test" });
+		expect(() => verifyRegistrationResponse(response, { challenge, config })).toThrow("not allowed");
+	});
+
+	test("rejects a credential scoped to another relying party", () => {
+		const { challenge, response } = register(new SoftwareAuthenticator(), { rpId: "evil.test" });
+		expect(() => verifyRegistrationResponse(response, { challenge, config })).toThrow("different relying party");
+	});
+
+	test("rejects an assertion presented as a registration", () => {
+		const { challenge, response } = register(new SoftwareAuthenticator(), { type: "webauthn.get" });
+		expect(() => verifyRegistrationResponse(response, { challenge, config })).toThrow("ceremony type");
+	});
+
+	test("enforces user verification when required", () => {
+		const { challenge, response } = register(new SoftwareAuthenticator({ userVerification: false }));
+
+		expect(verifyRegistrationResponse(response, { challenge, config }).userVerified).toBe(false);
+		expect(() =>
+			verifyRegistrationResponse(response, { challenge, config, requireUserVerification: true })
+		).toThrow("User verification");
+	});
+});
+
+describe("authentication", () => {
+	test.each(["ES256", "EdDSA", "RS256"] as const)("accepts an assertion from the registered key (%s)", (algorithm) => {
+		const authenticator = new SoftwareAuthenticator({ algorithm });
+		const storedCredential = registerAndStore(authenticator);
+		const { challenge, response } = authenticate(authenticator);
+
+		const verified = verifyAuthenticationResponse(response, { challenge, config, storedCredential });
+
+		expect(verified.credentialId).toEqual(authenticator.id);
+		expect(verified.signCount).toEqual(2);
+		expect(verified.userVerified).toBe(true);
+	});
+
+	test("rejects a signature made by a different key", () => {
+		const authenticator = new SoftwareAuthenticator();
+		const storedCredential = registerAndStore(authenticator);
+		const impostor = new SoftwareAuthenticator();
+		const { challenge, response } = authenticate(impostor);
+		response.id = response.rawId = authenticator.id;
+
+		expect(() => verifyAuthenticationResponse(response, { challenge, config, storedCredential })).toThrow(
+			"Invalid passkey signature"
+		);
+	});
+
+	test("rejects tampered authenticator data", () => {
+		const authenticator = new SoftwareAuthenticator({ userVerification: false });
+		const storedCredential = registerAndStore(authenticator);
+		const { challenge, response } = authenticate(authenticator);
+		const authData = Buffer.from(response.response.authenticatorData, "base64url");
+		authData[32] |= 0x04; // claim user verification after the fact
+		response.response.authenticatorData = authData.toString("base64url");
+
+		expect(() => verifyAuthenticationResponse(response, { challenge, config, storedCredential })).toThrow(
+			"Invalid passkey signature"
+		);
+	});
+
+	test("rejects a replayed assertion for a new challenge", () => {
+		const authenticator = new SoftwareAuthenticator();
+		const storedCredential = registerAndStore(authenticator);
+		const { response } = authenticate(authenticator);
+
+		expect(() =>
+			verifyAuthenticationResponse(response, { challenge: createChallenge(), config, storedCredential })
+		).toThrow("Challenge");
+	});
+
+	test("rejects an assertion for another credential", () => {
+		const authenticator = new SoftwareAuthenticator();
+		const storedCredential = registerAndStore(authenticator);
+		const { challenge, response } = authenticate(new SoftwareAuthenticator());
+
+		expect(() => verifyAuthenticationResponse(response, { challenge, config, storedCredential })).toThrow(
+			"different credential"
+		);
+	});
+
+	test("detects a cloned authenticator through the signature counter", () => {
+		const authenticator = new SoftwareAuthenticator();
+		const storedCredential = registerAndStore(authenticator);
+		const first = authenticate(authenticator);
+		const { signCount } = verifyAuthenticationResponse(first.response, {
+			challenge: first.challenge,
+			config,
+			storedCredential,
+		});
+
+		authenticator.setSignCount(1);
+		const second = authenticate(authenticator);
+
+		expect(() =>
+			verifyAuthenticationResponse(second.response, {
+				challenge: second.challenge,
+				config,
+				storedCredential: { ...storedCredential, signCount },
+			})
+		).toThrow("cloned");
+	});
+
+	test("accepts authenticators that never count signatures", () => {
+		const authenticator = new SoftwareAuthenticator({ countSignatures: false });
+		const storedCredential = registerAndStore(authenticator);
+
+		for (let i = 0; i < 2; i++) {
+			const { challenge, response } = authenticate(authenticator);
+			expect(verifyAuthenticationResponse(response, { challenge, config, storedCredential }).signCount).toEqual(0);
+		}
+	});
+
+	test("enforces user verification when required", () => {
+		const authenticator = new SoftwareAuthenticator({ userVerification: false });
+		const storedCredential = registerAndStore(authenticator);
+		const { challenge, response } = authenticate(authenticator);
+
+		expect(() =>
+			verifyAuthenticationResponse(response, { challenge, config, storedCredential, requireUserVerification: true })
+		).toThrow("User verification");
+	});
+});
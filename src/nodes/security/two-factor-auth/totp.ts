@@ -0,0 +1,206 @@
+import crypto from "crypto";
+
+/**
+ * RFC 4226 (HOTP) / RFC 6238 (TOTP) helpers
+ *
+ * Secrets are exchanged as RFC 4648 base32 strings, which is the format
+ * expected by the `otpauth://` URI scheme and every mainstream authenticator
+ * app (Google Authenticator, 1Password, Authy, ...).
+ */
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export type TOTPAlgorithm = "sha1" | "sha256" | "sha512";
+
+export interface TOTPOptions {
+  digits: number;
+  period: number; // seconds per time step
+  window: number; // accepted time steps before/after the current one
+  algorithm: TOTPAlgorithm;
+}
+
+export interface TOTPVerification {
+  valid: boolean;
+  timeStep?: number; // the matched time step, used for replay protection
+  delta?: number; // matched step relative to the current one
+}
+
+/**
+ * Default TOTP settings, overridable per deployment through the environment
+ */
+export function getTOTPOptions(overrides: Partial<TOTPOptions> = {}): TOTPOptions {
+  const digits = overrides.digits ?? parseInt(process.env.TOTP_DIGITS || "6", 10);
+  const period = overrides.period ?? parseInt(process.env.TOTP_PERIOD || "30", 10);
+  const window = overrides.window ?? parseInt(process.env.TOTP_WINDOW || "1", 10);
+  const algorithm = overrides.algorithm ?? ((process.env.TOTP_ALGORITHM || "sha1").toLowerCase() as TOTPAlgorithm);
+
+  if (!Number.isInteger(digits) || digits < 6 || digits > 10) {
+    throw new Error("TOTP digits must be an integer between 6 and 10");
+  }
+  if (!Number.isInteger(period) || period <= 0) {
+    throw new Error("TOTP period must be a positive integer");
+  }
+  if (!Number.isInteger(window) || window < 0) {
+    throw new Error("TOTP window must be a non-negative integer");
+  }
+  if (!["sha1", "sha256", "sha512"].includes(algorithm)) {
+    throw new Error(`Unsupported TOTP algorithm: ${algorithm}`);
+  }
+
+  return { digits, period, window, algorithm };
+}
+
+/**
+ * Encode raw bytes as unpadded RFC 4648 base32
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode an RFC 4648 base32 string (case-insensitive, padding and spaces ignored)
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/[\s=-]/g, "").toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a new random base32 secret (160 bits by default, as recommended by RFC 4226)
+ */
+export function generateSecret(bytes = 20): string {
+  return base32Encode(crypto.randomBytes(bytes));
+}
+
+/**
+ * Compute an HOTP value (RFC 4226) for a raw key and counter
+ */
+export function hotp(key: Buffer, counter: number, digits = 6, algorithm: TOTPAlgorithm = "sha1"): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac(algorithm, key).update(counterBuffer).digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    ((hmac[offset + 1] & 0xff) << 16) |
+    ((hmac[offset + 2] & 0xff) << 8) |
+    (hmac[offset + 3] & 0xff);
+
+  return (binary % 10 ** digits).toString().padStart(digits, "0");
+}
+
+/**
+ * Time step (counter) for a given unix time in milliseconds
+ */
+export function getTimeStep(timestampMs: number, period: number): number {
+  return Math.floor(timestampMs / 1000 / period);
+}
+
+/**
+ * Generate a TOTP code (RFC 6238) for a base32 secret
+ */
+export function generateTOTP(
+  secret: string,
+  options: Partial<TOTPOptions> = {},
+  timestampMs: number = Date.now()
+): string {
+  const { digits, period, algorithm } = getTOTPOptions(options);
+  return hotp(base32Decode(secret), getTimeStep(timestampMs, period), digits, algorithm);
+}
+
+/**
+ * Verify a TOTP code against the current time step and the configured skew window.
+ * Codes are compared in constant time.
+ */
+export function verifyTOTP(
+  token: string,
+  secret: string,
+  options: Partial<TOTPOptions> = {},
+  timestampMs: number = Date.now()
+): TOTPVerification {
+  const { digits, period, window, algorithm } = getTOTPOptions(options);
+  const normalized = token.replace(/\s/g, "");
+
+  if (normalized.length !== digits || !/^\d+$/.test(normalized)) {
+    return { valid: false };
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = getTimeStep(timestampMs, period);
+
+  for (let delta = -window; delta <= window; delta++) {
+    const step = currentStep + delta;
+    if (step < 0) continue;
+
+    const expected = hotp(key, step, digits, algorithm);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return { valid: true, timeStep: step, delta };
+    }
+  }
+
+  return { valid: false };
+}
+
+/**
+ * Build the `otpauth://` key URI understood by authenticator apps
+ * https://github.com/google/google-authenticator/wiki/Key-Uri-Format
+ */
+export function buildOtpAuthUrl(
+  issuer: string,
+  accountName: string,
+  secret: string,
+  options: Partial<TOTPOptions> = {}
+): string {
+  const { digits, period, algorithm } = getTOTPOptions(options);
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  // Spaces must be encoded as %20 rather than "+", which some apps display literally
+  const params = [
+    `secret=${secret}`,
+    `issuer=${encodeURIComponent(issuer)}`,
+    `algorithm=${algorithm.toUpperCase()}`,
+    `digits=${digits}`,
+    `period=${period}`,
+  ];
+
+  return `otpauth://totp/${label}?${params.join("&")}`;
+}
@@ -0,0 +1,658 @@
+import crypto from "crypto";
+
+/**
+ * WebAuthn (passkey) relying-party verification
+ *
+ * Builds the options passed to `navigator.credentials.create()` / `.get()` and
+ * verifies what the browser sends back: client data (type, challenge, origin),
+ * authenticator data (RP ID hash, user presence/verification flags, signature
+ * counter) and the signature itself. Attestation statements in the "none" and
+ * "packed" formats are accepted; packed certificate chains are checked for
+ * consistency but not against a trust store, so attestation describes the
+ * authenticator rather than vouching for it. Binary values travel as base64url
+ * strings, like the JSON form of `PublicKeyCredential`.
+ *
+ * Nothing here touches the database; see auth/passkeys.ts for storage.
+ */
+
+export type WebAuthnConfig = {
+  rpId: string; // Domain the credentials are scoped to, without scheme or port
+  rpName: string;
+  origins: string[]; // Frontend origins allowed to run the ceremonies
+  attestation: "none" | "direct";
+  timeoutMs: number;
+};
+
+export type CoseAlgorithm = -7 | -8 | -35 | -36 | -37 | -257;
+
+export type PublicKeyCredentialDescriptorJSON = {
+  type: "public-key";
+  id: string;
+  transports?: string[];
+};
+
+export type RegistrationOptionsJSON = {
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  challenge: string;
+  pubKeyCredParams: { type: "public-key"; alg: CoseAlgorithm }[];
+  timeout: number;
+  attestation: "none" | "direct";
+  excludeCredentials: PublicKeyCredentialDescriptorJSON[];
+  authenticatorSelection: {
+    residentKey: "required";
+    requireResidentKey: true;
+    userVerification: "preferred";
+  };
+};
+
+export type AuthenticationOptionsJSON = {
+  rpId: string;
+  challenge: string;
+  timeout: number;
+  allowCredentials: PublicKeyCredentialDescriptorJSON[];
+  userVerification: "preferred" | "required";
+};
+
+export type RegistrationResponseJSON = {
+  id: string;
+  rawId: string;
+  type: "public-key";
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+};
+
+export type AuthenticationResponseJSON = {
+  id: string;
+  rawId: string;
+  type: "public-key";
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+};
+
+export type VerifiedRegistration = {
+  credentialId: string;
+  publicKey: string; // COSE_Key, base64url
+  algorithm: CoseAlgorithm;
+  signCount: number;
+  aaguid: string;
+  attestationFormat: "none" | "packed";
+  attestationType: "none" | "self" | "basic";
+  userVerified: boolean;
+  backupEligible: boolean;
+  backedUp: boolean;
+  transports: string[];
+};
+
+export type VerifiedAuthentication = {
+  credentialId: string;
+  signCount: number;
+  userVerified: boolean;
+  backedUp: boolean;
+};
+
+type CborValue = number | string | boolean | null | undefined | Buffer | CborValue[] | Map<CborValue, CborValue>;
+
+type AuthenticatorData = {
+  rpIdHash: Buffer;
+  flags: { userPresent: boolean; userVerified: boolean; backupEligible: boolean; backedUp: boolean; attestedData: boolean };
+  signCount: number;
+  aaguid?: Buffer;
+  credentialId?: Buffer;
+  credentialPublicKey?: Buffer;
+};
+
+type ClientData = {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+};
+
+// Offered to authenticators in order of preference: Ed25519, P-256, RSA
+const SUPPORTED_ALGORITHMS: CoseAlgorithm[] = [-8, -7, -257];
+
+/**
+ * How each COSE algorithm maps onto `crypto.verify` (ECDSA signatures are DER)
+ */
+const SIGNATURE_ALGORITHMS: Record<CoseAlgorithm, { hash: string | null; options?: object }> = {
+  [-7]: { hash: "sha256" },
+  [-35]: { hash: "sha384" },
+  [-36]: { hash: "sha512" },
+  [-8]: { hash: null },
+  [-257]: { hash: "sha256" },
+  [-37]: { hash: "sha256", options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 } },
+};
+
+const EC_CURVES: Record<number, { crv: string; alg: CoseAlgorithm }> = {
+  1: { crv: "P-256", alg: -7 },
+  2: { crv: "P-384", alg: -35 },
+  3: { crv: "P-521", alg: -36 },
+};
+
+// Bytes following the initial byte for additional information 24..27
+const CBOR_LENGTH_BYTES: Record<number, number> = { 24: 1, 25: 2, 26: 4, 27: 8 };
+
+// id-fido-gen-ce-aaguid (1.3.6.1.4.1.45724.1.1.4), DER-encoded
+const AAGUID_EXTENSION_OID = Buffer.from([0x06, 0x0b, 0x2b, 0x06, 0x01, 0x04, 0x01, 0x82, 0xe5, 0x1c, 0x01, 0x01, 0x04]);
+
+/**
+ * Relying-party settings from the environment
+ */
+export function getWebAuthnConfig(env: NodeJS.ProcessEnv = process.env): WebAuthnConfig {
+  const origins = (env.WEBAUTHN_ORIGINS || "http://localhost:4000")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+
+  return {
+    rpId: env.WEBAUTHN_RP_ID || new URL(origins[0]).hostname,
+    rpName: env.WEBAUTHN_RP_NAME || env.TOTP_ISSUER || "Blok Admin",
+    origins,
+    attestation: env.WEBAUTHN_ATTESTATION === "direct" ? "direct" : "none",
+    timeoutMs: parseInt(env.WEBAUTHN_TIMEOUT_MS || "120000", 10),
+  };
+}
+
+/**
+ * Random ceremony challenge (base64url)
+ */
+export function createChallenge(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+/**
+ * Options for `navigator.credentials.create()`. Passkeys are discoverable so
+ * they can sign in without an email address.
+ */
+export function createRegistrationOptions(
+  config: WebAuthnConfig,
+  input: {
+    challenge: string;
+    user: { id: string; name: string; displayName: string };
+    excludeCredentials?: PublicKeyCredentialDescriptorJSON[];
+  }
+): RegistrationOptionsJSON {
+  return {
+    rp: { id: config.rpId, name: config.rpName },
+    user: {
+      id: Buffer.from(input.user.id, "utf8").toString("base64url"),
+      name: input.user.name,
+      displayName: input.user.displayName,
+    },
+    challenge: input.challenge,
+    pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({ type: "public-key", alg })),
+    timeout: config.timeoutMs,
+    attestation: config.attestation,
+    excludeCredentials: input.excludeCredentials || [],
+    authenticatorSelection: {
+      residentKey: "required",
+      requireResidentKey: true,
+      userVerification: "preferred",
+    },
+  };
+}
+
+/**
+ * Options for `navigator.credentials.get()`. An empty `allowCredentials`
+ * lets the browser offer any passkey for this site.
+ */
+export function createAuthenticationOptions(
+  config: WebAuthnConfig,
+  input: { challenge: string; allowCredentials?: PublicKeyCredentialDescriptorJSON[]; userVerification?: "preferred" | "required" }
+): AuthenticationOptionsJSON {
+  return {
+    rpId: config.rpId,
+    challenge: input.challenge,
+    timeout: config.timeoutMs,
+    allowCredentials: input.allowCredentials || [],
+    userVerification: input.userVerification || "preferred",
+  };
+}
+
+/**
+ * Decode one CBOR data item (RFC 8949) starting at `offset`. WebAuthn only
+ * uses definite lengths, so indefinite-length items are rejected.
+ */
+export function decodeCborItem(buffer: Buffer, offset = 0): { value: CborValue; offset: number } {
+  if (offset >= buffer.length) throw new Error("Truncated CBOR data");
+
+  const initial = buffer[offset++];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  const readLength = (): number => {
+    if (info < 24) return info;
+    const size = CBOR_LENGTH_BYTES[info];
+    if (!size || offset + size > buffer.length) throw new Error("Unsupported or truncated CBOR length");
+    let length = 0;
+    for (let i = 0; i < size; i++) length = length * 256 + buffer[offset++];
+    if (!Number.isSafeInteger(length)) throw new Error("CBOR length too large");
+    return length;
+  };
+
+  if (major === 7) {
+    if (info === 20) return { value: false, offset };
+    if (info === 21) return { value: true, offset };
+    if (info === 22) return { value: null, offset };
+    if (info === 23) return { value: undefined, offset };
+    if (info === 25) return { value: decodeHalfFloat(buffer.readUInt16BE(offset)), offset: offset + 2 };
+    if (info === 26) return { value: buffer.readFloatBE(offset), offset: offset + 4 };
+    if (info === 27) return { value: buffer.readDoubleBE(offset), offset: offset + 8 };
+    throw new Error("Unsupported CBOR simple value");
+  }
+
+  const length = readLength();
+  switch (major) {
+    case 0:
+      return { value: length, offset };
+    case 1:
+      return { value: -1 - length, offset };
+    case 2:
+    case 3: {
+      if (offset + length > buffer.length) throw new Error("Truncated CBOR data");
+      const bytes = buffer.subarray(offset, offset + length);
+      return { value: major === 2 ? Buffer.from(bytes) : bytes.toString("utf8"), offset: offset + length };
+    }
+    case 4: {
+      const items: CborValue[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeCborItem(buffer, offset);
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < length; i++) {
+        const key = decodeCborItem(buffer, offset);
+        const value = decodeCborItem(buffer, key.offset);
+        map.set(key.value, value.value);
+        offset = value.offset;
+      }
+      return { value: map, offset };
+    }
+    default: {
+      // Tags (major type 6) carry no meaning for WebAuthn; keep the tagged item
+      return decodeCborItem(buffer, offset);
+    }
+  }
+}
+
+/**
+ * Decode a buffer holding exactly one CBOR data item
+ */
+export function decodeCbor(buffer: Buffer): CborValue {
+  const { value, offset } = decodeCborItem(buffer);
+  if (offset !== buffer.length) throw new Error("Unexpected data after CBOR item");
+  return value;
+}
+
+function decodeHalfFloat(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (mantissa / 1024);
+  if (exponent === 31) return mantissa ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + mantissa / 1024);
+}
+
+function asMap(value: CborValue, what: string): Map<CborValue, CborValue> {
+  if (!(value instanceof Map)) throw new Error(`${what} is not a CBOR map`);
+  return value;
+}
+
+function asBuffer(value: CborValue, what: string): Buffer {
+  if (!Buffer.isBuffer(value)) throw new Error(`${what} is missing or not a byte string`);
+  return value;
+}
+
+/**
+ * Split authenticator data into its fields (WebAuthn §6.1)
+ */
+export function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) throw new Error("Authenticator data is too short");
+
+  const flags = data[32];
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags: {
+      userPresent: (flags & 0x01) !== 0,
+      userVerified: (flags & 0x04) !== 0,
+      backupEligible: (flags & 0x08) !== 0,
+      backedUp: (flags & 0x10) !== 0,
+      attestedData: (flags & 0x40) !== 0,
+    },
+    signCount: data.readUInt32BE(33),
+  };
+
+  if (parsed.flags.attestedData) {
+    if (data.length < 55) throw new Error("Attested credential data is truncated");
+    const credentialIdLength = data.readUInt16BE(53);
+    const keyStart = 55 + credentialIdLength;
+    parsed.aaguid = data.subarray(37, 53);
+    parsed.credentialId = data.subarray(55, keyStart);
+    const { offset } = decodeCborItem(data, keyStart);
+    parsed.credentialPublicKey = data.subarray(keyStart, offset);
+  }
+
+  return parsed;
+}
+
+/**
+ * Public key and algorithm of a COSE_Key (RFC 9053): EC2 P-256/384/521, RSA or Ed25519
+ */
+export function coseKeyToPublicKey(coseKey: Buffer): { key: crypto.KeyObject; algorithm: CoseAlgorithm } {
+  const map = asMap(decodeCbor(coseKey), "Credential public key");
+  const kty = map.get(1);
+  const alg = map.get(3) as CoseAlgorithm;
+  const b64 = (label: number) => asBuffer(map.get(label), `COSE key parameter ${label}`).toString("base64url");
+
+  if (!(alg in SIGNATURE_ALGORITHMS)) {
+    throw new Error(`Unsupported credential algorithm: ${String(alg)}`);
+  }
+
+  if (kty === 2) {
+    const curve = EC_CURVES[map.get(-1) as number];
+    if (!curve || curve.alg !== alg) throw new Error("Unsupported EC2 credential key");
+    const key = crypto.createPublicKey({ key: { kty: "EC", crv: curve.crv, x: b64(-2), y: b64(-3) }, format: "jwk" });
+    return { key, algorithm: alg };
+  }
+  if (kty === 3) {
+    if (alg !== -257 && alg !== -37) throw new Error("Unsupported RSA credential key");
+    const key = crypto.createPublicKey({ key: { kty: "RSA", n: b64(-1), e: b64(-2) }, format: "jwk" });
+    return { key, algorithm: alg };
+  }
+  if (kty === 1) {
+    if (map.get(-1) !== 6 || alg !== -8) throw new Error("Unsupported OKP credential key");
+    const key = crypto.createPublicKey({ key: { kty: "OKP", crv: "Ed25519", x: b64(-2) }, format: "jwk" });
+    return { key, algorithm: alg };
+  }
+  throw new Error(`Unsupported credential key type: ${String(kty)}`);
+}
+
+function verifySignature(algorithm: CoseAlgorithm, key: crypto.KeyObject, data: Buffer, signature: Buffer): boolean {
+  const { hash, options } = SIGNATURE_ALGORITHMS[algorithm];
+  try {
+    return crypto.verify(hash, data, { key, ...options } as crypto.VerifyKeyObjectInput, signature);
+  } catch {
+    return false;
+  }
+}
+
+function parseClientData(clientDataJSON: Buffer, expected: { type: string; challenge: string; origins: string[] }): ClientData {
+  let clientData: ClientData;
+  try {
+    clientData = JSON.parse(clientDataJSON.toString("utf8"));
+  } catch {
+    throw new Error("Malformed client data");
+  }
+
+  if (clientData.type !== expected.type) {
+    throw new Error(`Unexpected ceremony type: ${clientData.type}`);
+  }
+  if (typeof clientData.challenge !== "string" || !sameString(clientData.challenge, expected.challenge)) {
+    throw new Error("Challenge does not match this ceremony");
+  }
+  if (!expected.origins.includes(clientData.origin)) {
+    throw new Error(`Origin ${clientData.origin} is not allowed`);
+  }
+  if (clientData.crossOrigin === true) {
+    throw new Error("Cross-origin ceremonies are not allowed");
+  }
+  return clientData;
+}
+
+function sameString(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function checkAuthenticatorData(
+  authData: AuthenticatorData,
+  rpId: string,
+  requireUserVerification: boolean
+): void {
+  const expectedHash = crypto.createHash("sha256").update(rpId).digest();
+  if (!authData.rpIdHash.equals(expectedHash)) {
+    throw new Error("Credential is scoped to a different relying party");
+  }
+  if (!authData.flags.userPresent) {
+    throw new Error("User presence was not confirmed");
+  }
+  if (requireUserVerification && !authData.flags.userVerified) {
+    throw new Error("User verification is required");
+  }
+}
+
+/**
+ * Read the AAGUID extension of a packed attestation certificate, if present
+ */
+function certificateAaguid(der: Buffer): Buffer | undefined {
+  const index = der.indexOf(AAGUID_EXTENSION_OID);
+  if (index < 0) return undefined;
+
+  let position = index + AAGUID_EXTENSION_OID.length;
+  if (der[position] === 0x01) {
+    // critical BOOLEAN; the extension must not be critical
+    if (der[position + 2] !== 0x00) throw new Error("AAGUID certificate extension must not be critical");
+    position += 3;
+  }
+  if (der[position] !== 0x04 || der[position + 2] !== 0x04 || der[position + 3] !== 0x10) {
+    throw new Error("Malformed AAGUID certificate extension");
+  }
+  return der.subarray(position + 4, position + 20);
+}
+
+/**
+ * Packed attestation (WebAuthn §8.2): full attestation with an x5c chain, or
+ * self attestation signed by the credential key itself
+ */
+function verifyPackedAttestation(
+  attStmt: Map<CborValue, CborValue>,
+  authData: AuthenticatorData,
+  signedData: Buffer,
+  credential: { key: crypto.KeyObject; algorithm: CoseAlgorithm },
+  now: Date
+): "self" | "basic" {
+  const alg = attStmt.get("alg") as CoseAlgorithm;
+  const sig = asBuffer(attStmt.get("sig"), "Attestation signature");
+  if (!(alg in SIGNATURE_ALGORITHMS)) {
+    throw new Error(`Unsupported attestation algorithm: ${String(alg)}`);
+  }
+
+  const x5c = attStmt.get("x5c");
+  if (x5c === undefined) {
+    if (alg !== credential.algorithm) {
+      throw new Error("Self attestation must use the credential's algorithm");
+    }
+    if (!verifySignature(alg, credential.key, signedData, sig)) {
+      throw new Error("Invalid attestation signature");
+    }
+    return "self";
+  }
+
+  if (!Array.isArray(x5c) || x5c.length === 0) {
+    throw new Error("Attestation certificate chain is empty");
+  }
+  const chain = x5c.map((der) => new crypto.X509Certificate(asBuffer(der, "Attestation certificate")));
+  const [leaf] = chain;
+
+  if (!verifySignature(alg, leaf.publicKey, signedData, sig)) {
+    throw new Error("Invalid attestation signature");
+  }
+  for (let i = 0; i < chain.length; i++) {
+    if (new Date(chain[i].validFrom) > now || new Date(chain[i].validTo) < now) {
+      throw new Error("Attestation certificate is not valid at this time");
+    }
+    if (i + 1 < chain.length && !chain[i].verify(chain[i + 1].publicKey)) {
+      throw new Error("Attestation certificate chain is broken");
+    }
+  }
+
+  // Attestation certificate requirements (WebAuthn §8.2.1)
+  const subject = new Map(
+    leaf.subject.split("\n").map((line) => {
+      const separator = line.indexOf("=");
+      return [line.slice(0, separator), line.slice(separator + 1)] as [string, string];
+    })
+  );
+  if (!subject.get("C") || !subject.get("O") || !subject.get("CN") || subject.get("OU") !== "Authenticator Attestation") {
+    throw new Error("Attestation certificate subject does not meet the packed format requirements");
+  }
+  if (leaf.ca) {
+    throw new Error("Attestation certificate must not be a CA certificate");
+  }
+  const certAaguid = certificateAaguid(leaf.raw);
+  if (certAaguid && authData.aaguid && !certAaguid.equals(authData.aaguid)) {
+    throw new Error("Attestation certificate AAGUID does not match the authenticator");
+  }
+
+  return "basic";
+}
+
+function formatAaguid(aaguid: Buffer): string {
+  const hex = aaguid.toString("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Verify the response to `navigator.credentials.create()` and return what to store
+ */
+export function verifyRegistrationResponse(
+  credential: RegistrationResponseJSON,
+  expected: { challenge: string; config: WebAuthnConfig; requireUserVerification?: boolean },
+  now = new Date()
+): VerifiedRegistration {
+  if (credential?.type !== "public-key" || !credential.response?.clientDataJSON || !credential.response?.attestationObject) {
+    throw new Error("Malformed registration response");
+  }
+
+  const clientDataJSON = Buffer.from(credential.response.clientDataJSON, "base64url");
+  parseClientData(clientDataJSON, {
+    type: "webauthn.create",
+    challenge: expected.challenge,
+    origins: expected.config.origins,
+  });
+
+  const attestation = asMap(
+    decodeCbor(Buffer.from(credential.response.attestationObject, "base64url")),
+    "Attestation object"
+  );
+  const fmt = attestation.get("fmt");
+  const attStmt = asMap(attestation.get("attStmt"), "Attestation statement");
+  const rawAuthData = asBuffer(attestation.get("authData"), "Authenticator data");
+  const authData = parseAuthenticatorData(rawAuthData);
+
+  checkAuthenticatorData(authData, expected.config.rpId, expected.requireUserVerification ?? false);
+  if (!authData.credentialId || !authData.credentialPublicKey || !authData.aaguid) {
+    throw new Error("Registration response has no attested credential data");
+  }
+
+  const credentialId = authData.credentialId.toString("base64url");
+  if (credential.rawId !== credentialId || credential.id !== credentialId) {
+    throw new Error("Credential id does not match the authenticator data");
+  }
+
+  const publicKey = coseKeyToPublicKey(authData.credentialPublicKey);
+  const clientDataHash = crypto.createHash("sha256").update(clientDataJSON).digest();
+  const signedData = Buffer.concat([rawAuthData, clientDataHash]);
+
+  let attestationType: VerifiedRegistration["attestationType"];
+  if (fmt === "none") {
+    if (attStmt.size !== 0) throw new Error("Attestation statement must be empty for the none format");
+    attestationType = "none";
+  } else if (fmt === "packed") {
+    attestationType = verifyPackedAttestation(attStmt, authData, signedData, publicKey, now);
+  } else {
+    throw new Error(`Unsupported attestation format: ${String(fmt)}`);
+  }
+
+  return {
+    credentialId,
+    publicKey: authData.credentialPublicKey.toString("base64url"),
+    algorithm: publicKey.algorithm,
+    signCount: authData.signCount,
+    aaguid: formatAaguid(authData.aaguid),
+    attestationFormat: fmt as VerifiedRegistration["attestationFormat"],
+    attestationType,
+    userVerified: authData.flags.userVerified,
+    backupEligible: authData.flags.backupEligible,
+    backedUp: authData.flags.backedUp,
+    transports: Array.isArray(credential.response.transports) ? credential.response.transports : [],
+  };
+}
+
+/**
+ * Verify the response to `navigator.credentials.get()` against a stored credential
+ */
+export function verifyAuthenticationResponse(
+  credential: AuthenticationResponseJSON,
+  expected: {
+    challenge: string;
+    config: WebAuthnConfig;
+    storedCredential: { credentialId: string; publicKey: string; signCount: number };
+    requireUserVerification?: boolean;
+  }
+): VerifiedAuthentication {
+  const response = credential?.response;
+  if (credential?.type !== "public-key" || !response?.clientDataJSON || !response?.authenticatorData || !response?.signature) {
+    throw new Error("Malformed authentication response");
+  }
+  if (credential.rawId !== expected.storedCredential.credentialId) {
+    throw new Error("Response is for a different credential");
+  }
+
+  const clientDataJSON = Buffer.from(response.clientDataJSON, "base64url");
+  parseClientData(clientDataJSON, {
+    type: "webauthn.get",
+    challenge: expected.challenge,
+    origins: expected.config.origins,
+  });
+
+  const rawAuthData = Buffer.from(response.authenticatorData, "base64url");
+  const authData = parseAuthenticatorData(rawAuthData);
+  checkAuthenticatorData(authData, expected.config.rpId, expected.requireUserVerification ?? false);
+
+  const { key, algorithm } = coseKeyToPublicKey(Buffer.from(expected.storedCredential.publicKey, "base64url"));
+  const clientDataHash = crypto.createHash("sha256").update(clientDataJSON).digest();
+  const signature = Buffer.from(response.signature, "base64url");
+  if (!verifySignature(algorithm, key, Buffer.concat([rawAuthData, clientDataHash]), signature)) {
+    throw new Error("Invalid passkey signature");
+  }
+
+  // A counter that fails to increase suggests a cloned authenticator.
+  // Authenticators that don't count (most synced passkeys) always send 0.
+  const storedCount = expected.storedCredential.signCount;
+  if ((authData.signCount !== 0 || storedCount !== 0) && authData.signCount <= storedCount) {
+    throw new Error("Passkey signature counter did not increase; the authenticator may have been cloned");
+  }
+
+  return {
+    credentialId: expected.storedCredential.credentialId,
+    signCount: authData.signCount,
+    userVerified: authData.flags.userVerified,
+    backedUp: authData.flags.backedUp,
+  };
+}
+
+/**
+ * Challenge echoed in a response's client data, used to find the pending ceremony
+ */
+export function challengeFromResponse(credential: { response?: { clientDataJSON?: string } }): string | null {
+  try {
+    const clientData = JSON.parse(Buffer.from(credential?.response?.clientDataJSON || "", "base64url").toString("utf8"));
+    return typeof clientData.challenge === "string" ? clientData.challenge : null;
+  } catch {
+    return null;
+  }
+}
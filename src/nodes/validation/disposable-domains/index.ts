@@ -0,0 +1,155 @@
+import {
+  type INanoServiceResponse,
+  type JsonLikeObject,
+  NanoService,
+  NanoServiceResponse,
+} from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { type RequestClient, type RequestHeaders, clientIp, header } from "../../auth/sessions";
+import SystemActionLogger, { ActionType, LogRiskLevel, ResourceType } from "../../security/system-action-logger";
+import { getDisposableDomainList, refreshDisposableDomains } from "../email-validator/email-domains";
+
+type DisposableDomainsInputType = {
+  action: "status" | "refresh";
+  url?: string;
+};
+
+type CurrentUserType = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  permissions?: string[];
+};
+
+/**
+ * Disposable Domains Node
+ *
+ * Administrator view of the disposable email domain list used by
+ * email-validator (email-domains:manage permission): `status` reports where
+ * the list came from and how many domains it has; `refresh` reloads the file,
+ * or first downloads it from `url` / DISPOSABLE_EMAIL_DOMAINS_URL.
+ */
+export default class DisposableDomains extends NanoService<DisposableDomainsInputType> {
+  constructor() {
+    super();
+
+    this.inputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["status", "refresh"],
+          description: "Operation to perform"
+        },
+        url: {
+          type: "string",
+          description: "Download the list from here instead of DISPOSABLE_EMAIL_DOMAINS_URL (refresh)"
+        }
+      },
+      required: ["action"]
+    };
+
+    this.outputSchema = {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        success: { type: "boolean" },
+        message: { type: "string" },
+        list: {
+          type: "object",
+          description: "The disposable domain list in use",
+          properties: {
+            count: { type: "number" },
+            source: { type: "string", enum: ["file", "built-in"] },
+            file: { type: "string" },
+            loadedAt: { type: "string", format: "date-time" },
+            downloadedFrom: { type: "string" }
+          },
+          required: ["count", "source", "file", "loadedAt"]
+        }
+      },
+      required: ["success", "message"]
+    };
+  }
+
+  async handle(ctx: Context, inputs: DisposableDomainsInputType): Promise<INanoServiceResponse> {
+    const response = new NanoServiceResponse();
+
+    try {
+      const user = ctx.vars?.currentUser as unknown as CurrentUserType | undefined;
+      if (!user?.id) {
+        const nodeError = new GlobalError("Authentication required");
+        nodeError.setCode(401);
+        response.setError(nodeError);
+        return response;
+      }
+
+      if (!user.permissions?.includes("email-domains:manage")) {
+        const nodeError = new GlobalError("Insufficient permissions");
+        nodeError.setCode(403);
+        response.setError(nodeError);
+        return response;
+      }
+
+      switch (inputs.action) {
+        case "status": {
+          const list = getDisposableDomainList();
+          response.setSuccess({
+            success: true,
+            message: `${list.count} disposable domain(s)`,
+            list,
+          } as unknown as JsonLikeObject);
+          break;
+        }
+
+        case "refresh": {
+          const list = await refreshDisposableDomains(inputs.url || undefined);
+          const headers = ctx.request?.headers as RequestHeaders | undefined;
+
+          await SystemActionLogger.logAction({
+            userId: user.id,
+            userEmail: user.email,
+            userName: user.name,
+            userRole: user.role,
+            action: "DISPOSABLE_DOMAINS_REFRESHED",
+            actionType: ActionType.UPDATE,
+            resourceType: ResourceType.SETTINGS,
+            resourceName: "disposable-email-domains",
+            httpMethod: ctx.request?.method || "POST",
+            endpoint: "/api/admin-disposable-domains",
+            ipAddress: clientIp(ctx.request as RequestClient | undefined),
+            userAgent: header(headers, "user-agent") || "unknown",
+            statusCode: 200,
+            success: true,
+            riskLevel: LogRiskLevel.MEDIUM,
+            changesSummary: { count: list.count, source: list.source, downloadedFrom: list.downloadedFrom },
+          });
+          ctx.logger.log(`${user.email} refreshed the disposable domain list (${list.count} domains)`);
+
+          response.setSuccess({
+            success: true,
+            message: list.downloadedFrom
+              ? `Downloaded ${list.count} disposable domains`
+              : `Reloaded ${list.count} disposable domains`,
+            list,
+          } as unknown as JsonLikeObject);
+          break;
+        }
+
+        default:
+          throw new Error(`Unsupported action: ${inputs.action}`);
+      }
+    } catch (error: unknown) {
+      const nodeError = new GlobalError(error instanceof Error ? error.message : "Disposable domain operation failed");
+      nodeError.setCode(400);
+      nodeError.setName("disposable-domains");
+      response.setError(nodeError);
+
+      ctx.logger.error("Disposable domains error:", error instanceof Error ? (error.stack || error.message) : String(error));
+    }
+
+    return response;
+  }
+}
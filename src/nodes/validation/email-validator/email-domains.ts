@@ -0,0 +1,377 @@
+import dns from "dns";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Email domain checks for the email-validator node
+ *
+ * - Mail exchangers: MX records, or an A/AAAA record as the implicit MX
+ *   (RFC 5321); a null MX (RFC 7505) or a missing domain means the domain
+ *   does not accept mail. Each domain gets `EMAIL_DNS_TIMEOUT_MS`, and answers
+ *   are cached for `EMAIL_DNS_CACHE_TTL_SECONDS` (lookups that failed for a
+ *   minute). The resolver can be swapped with `setMailDomainResolver`, e.g.
+ *   one pointed at a local DNS server by `createMailDomainResolver`.
+ * - Disposable domains: one domain per line (`#` comments) in
+ *   `DISPOSABLE_EMAIL_DOMAINS_FILE`, subdomains included. Loaded on first use;
+ *   administrators reload it, or download it again from
+ *   `DISPOSABLE_EMAIL_DOMAINS_URL`, with `refreshDisposableDomains`.
+ * - Typos: "gmial.com" and "example.con" are matched against well-known
+ *   providers and top-level domains.
+ */
+
+export type MailDomainResolver = Pick<dns.promises.Resolver, "resolveMx" | "resolve4" | "resolve6">;
+
+export type MailDomainStatus = {
+  domain: string;
+  acceptsMail: boolean | null; // null when DNS did not answer in time or failed
+  source: "mx" | "a" | "null-mx" | "no-records" | "not-found" | "error";
+  exchanges: string[]; // MX hosts by priority, or the domain itself for an implicit MX
+  error?: string;
+};
+
+export type DisposableDomainList = {
+  count: number;
+  source: "file" | "built-in";
+  file: string;
+  loadedAt: string;
+  downloadedFrom?: string;
+};
+
+export const DEFAULT_DISPOSABLE_DOMAINS_FILE = "database/disposable-email-domains.txt";
+
+const DEFAULT_DNS_TIMEOUT_MS = 3000;
+const DEFAULT_DNS_CACHE_TTL_SECONDS = 3600;
+const FAILED_LOOKUP_CACHE_SECONDS = 60;
+const MAX_CACHED_DOMAINS = 5000;
+const DOWNLOAD_TIMEOUT_MS = 15000;
+
+// Used while no DISPOSABLE_EMAIL_DOMAINS_FILE exists
+const BUILT_IN_DISPOSABLE_DOMAINS = [
+  "10minutemail.com", "tempmail.org", "guerrillamail.com",
+  "mailinator.com", "yopmail.com", "temp-mail.org",
+  "throwaway.email", "maildrop.cc", "getnada.com",
+];
+
+// Most used first: a typo closer to several of them gets the first one
+const POPULAR_DOMAINS = [
+  "gmail.com", "yahoo.com", "hotmail.com", "outlook.com", "icloud.com", "aol.com", "live.com", "msn.com",
+  "googlemail.com", "me.com", "mac.com", "protonmail.com", "proton.me", "gmx.com", "gmx.de", "gmx.net",
+  "web.de", "mail.com", "yandex.ru", "mail.ru", "qq.com", "163.com", "comcast.net", "verizon.net",
+  "att.net", "sbcglobal.net", "yahoo.co.uk", "hotmail.co.uk", "btinternet.com", "hotmail.fr", "orange.fr",
+  "free.fr", "libero.it", "fastmail.com", "zoho.com", "hey.com", "ymail.com", "rocketmail.com",
+];
+
+const POPULAR_TLDS = [
+  "com", "net", "org", "edu", "gov", "io", "co", "co.uk", "de", "fr", "it", "es", "nl", "ru", "br", "com.br",
+  "ca", "com.au", "us", "uk", "me", "info", "biz", "jp", "cn", "in", "eu", "ch", "se", "no", "dk", "pl",
+];
+
+// Real top-level domains are taken as intended and never "corrected": every
+// country code, plus the generic ones that sit one typo away from a popular TLD
+const COUNTRY_CODE_TLDS = new Set(
+  (
+    "ac ad ae af ag ai al am ao aq ar as at au aw ax az ba bb be bf bg bh bi bj bm bn bo br bs bt bv bw " +
+    "by bz ca cc cd cf cg ch ci cl cm cn co cr cu cv cw cx cy cz de dj dk dm do dz ec ee eg es et eu fi " +
+    "fj fm fo fr ga gb gd ge gf gg gh gi gl gm gn gp gq gr gs gt gu gw gy hk hm hn hr ht hu id ie il im " +
+    "in io iq ir is it je jo jp ke kg ki km kn kp kr kw ky kz la lb lc li lk lr ls lt lu lv ly ma mc md " +
+    "me mg mh mk ml mn mo mp mq mr ms mt mu mv mw mx my mz na nc ne nf ng ni nl no nr nu nz om pa pe pf " +
+    "ph pk pl pm pn pr ps pt pw py qa re ro rs ru rw sa sb sc sd se sg sh si sj sk sl sm sn so sr ss st " +
+    "su sv sx sy sz tc td tf tg th tj tk tl tm tn to tr tt tv tw tz ua ug uk us uy uz va vc ve vg vi vn " +
+    "vu wf ws ye yt zm zw"
+  ).split(" ")
+);
+const GENERIC_TLDS = new Set(
+  (
+    "com net org edu gov mil int info biz name pro mobi app xyz online site shop store tech club blog " +
+    "cloud page live news aco bar bcn bet bid bio bom cab cal cam car cat cba cbn ceo cfa cpa dev eco esq " +
+    "eus fit frl ftr gbiz goo gop got inc ing ink ist itv jio jmp lpl med men mit moe mom mov nec new " +
+    "next nfl ngo now ntt ong onl pet pin pru rio run sca sew sex sfr tdk ubs uno ups vet vin win wme xin"
+  ).split(" ")
+);
+
+const DOMAIN_FORMAT = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)+$/;
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+export function getDnsTimeoutMs(): number {
+  return Math.max(envInt("EMAIL_DNS_TIMEOUT_MS", DEFAULT_DNS_TIMEOUT_MS), 100);
+}
+
+/**
+ * Whether email-validator looks up mail exchangers unless told otherwise
+ * (EMAIL_MX_CHECK=false for offline development)
+ */
+export function isMxCheckEnabled(): boolean {
+  return process.env.EMAIL_MX_CHECK !== "false";
+}
+
+export function getDisposableDomainsFile(): string {
+  return path.resolve(process.env.DISPOSABLE_EMAIL_DOMAINS_FILE || DEFAULT_DISPOSABLE_DOMAINS_FILE);
+}
+
+// ---------------------------------------------------------------------------
+// Mail exchangers
+
+let resolver: MailDomainResolver | null = null;
+const domainCache = new Map<string, { status: MailDomainStatus; expiresAt: number }>();
+const pendingLookups = new Map<string, Promise<MailDomainStatus>>();
+
+/**
+ * A resolver with the per-query timeout applied; `servers` (e.g. "127.0.0.1:5353")
+ * replace the system's name servers
+ */
+export function createMailDomainResolver(servers?: string[]): dns.promises.Resolver {
+  const created = new dns.promises.Resolver({ timeout: getDnsTimeoutMs(), tries: 1 });
+  if (servers && servers.length > 0) created.setServers(servers);
+  return created;
+}
+
+/**
+ * Replace the resolver used by `checkMailDomain` (null restores the system's);
+ * the cache is cleared so earlier answers don't leak across resolvers
+ */
+export function setMailDomainResolver(replacement: MailDomainResolver | null): void {
+  resolver = replacement;
+  clearMailDomainCache();
+}
+
+export function clearMailDomainCache(): void {
+  domainCache.clear();
+  pendingLookups.clear();
+}
+
+function dnsErrorCode(error: unknown): string {
+  return (error as NodeJS.ErrnoException)?.code || (error instanceof Error ? error.message : String(error));
+}
+
+// The domain or record type does not exist: a definite "no"
+function isNegativeAnswer(error: unknown): boolean {
+  const code = dnsErrorCode(error);
+  return code === dns.NODATA || code === dns.NOTFOUND;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(Object.assign(new Error("DNS lookup timed out"), { code: dns.TIMEOUT })), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function lookupMailDomain(domain: string, active: MailDomainResolver): Promise<MailDomainStatus> {
+  try {
+    const records = await active.resolveMx(domain);
+    if (records.length > 0) {
+      // A single MX with the root as exchange: the domain accepts no mail
+      if (records.length === 1 && (records[0].exchange === "" || records[0].exchange === ".")) {
+        return { domain, acceptsMail: false, source: "null-mx", exchanges: [] };
+      }
+      const exchanges = [...records].sort((a, b) => a.priority - b.priority).map((record) => record.exchange);
+      return { domain, acceptsMail: true, source: "mx", exchanges };
+    }
+  } catch (error) {
+    if (dnsErrorCode(error) === dns.NOTFOUND) {
+      return { domain, acceptsMail: false, source: "not-found", exchanges: [] };
+    }
+    if (!isNegativeAnswer(error)) throw error;
+  }
+
+  // No MX: mail goes to the domain's own address, if it has one
+  for (const resolveAddress of [active.resolve4.bind(active), active.resolve6.bind(active)]) {
+    try {
+      const addresses = await resolveAddress(domain);
+      if (addresses.length > 0) {
+        return { domain, acceptsMail: true, source: "a", exchanges: [domain] };
+      }
+    } catch (error) {
+      if (!isNegativeAnswer(error)) throw error;
+    }
+  }
+  return { domain, acceptsMail: false, source: "no-records", exchanges: [] };
+}
+
+/**
+ * Whether `domain` can receive email, from a cached or fresh DNS lookup
+ */
+export async function checkMailDomain(domain: string): Promise<MailDomainStatus> {
+  const key = domain.trim().toLowerCase().replace(/\.$/, "");
+  const cached = domainCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.status;
+
+  const pending = pendingLookups.get(key);
+  if (pending) return pending;
+
+  const active = resolver ?? (resolver = createMailDomainResolver());
+  const lookup = withTimeout(lookupMailDomain(key, active), getDnsTimeoutMs())
+    .catch((error): MailDomainStatus => ({
+      domain: key,
+      acceptsMail: null,
+      source: "error",
+      exchanges: [],
+      error: dnsErrorCode(error),
+    }))
+    .then((status) => {
+      const ttlSeconds = status.acceptsMail === null
+        ? FAILED_LOOKUP_CACHE_SECONDS
+        : envInt("EMAIL_DNS_CACHE_TTL_SECONDS", DEFAULT_DNS_CACHE_TTL_SECONDS);
+      if (domainCache.size >= MAX_CACHED_DOMAINS) {
+        domainCache.delete(domainCache.keys().next().value as string);
+      }
+      domainCache.set(key, { status, expiresAt: Date.now() + ttlSeconds * 1000 });
+      return status;
+    })
+    .finally(() => pendingLookups.delete(key));
+
+  pendingLookups.set(key, lookup);
+  return lookup;
+}
+
+// ---------------------------------------------------------------------------
+// Disposable domains
+
+let disposableDomains: { domains: Set<string>; info: DisposableDomainList } | null = null;
+
+/**
+ * Domains from a list file: one per line, `#` starts a comment, invalid lines are skipped
+ */
+export function parseDomainList(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*/, "").trim().toLowerCase())
+    .filter((domain) => DOMAIN_FORMAT.test(domain));
+}
+
+/**
+ * (Re)read DISPOSABLE_EMAIL_DOMAINS_FILE, falling back to the built-in list
+ */
+export function loadDisposableDomains(): DisposableDomainList {
+  const file = getDisposableDomainsFile();
+  let domains: string[];
+  let source: DisposableDomainList["source"] = "file";
+  try {
+    domains = parseDomainList(fs.readFileSync(file, "utf8"));
+  } catch {
+    domains = BUILT_IN_DISPOSABLE_DOMAINS;
+    source = "built-in";
+  }
+
+  const set = new Set(domains);
+  disposableDomains = {
+    domains: set,
+    info: { count: set.size, source, file, loadedAt: new Date().toISOString() },
+  };
+  return disposableDomains.info;
+}
+
+export function getDisposableDomainList(): DisposableDomainList {
+  return (disposableDomains ?? { info: loadDisposableDomains() }).info;
+}
+
+/**
+ * Whether `domain` or one of its parent domains is on the disposable list
+ */
+export function isDisposableDomain(domain: string): boolean {
+  if (!disposableDomains) loadDisposableDomains();
+  const labels = domain.toLowerCase().split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    if (disposableDomains!.domains.has(labels.slice(i).join("."))) return true;
+  }
+  return false;
+}
+
+/**
+ * Download the list from `url` (or DISPOSABLE_EMAIL_DOMAINS_URL) into the list
+ * file when one is given, then reload it. A download without any valid
+ * domain leaves the current file alone.
+ */
+export async function refreshDisposableDomains(url = process.env.DISPOSABLE_EMAIL_DOMAINS_URL): Promise<DisposableDomainList> {
+  if (!url) return loadDisposableDomains();
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Downloading the disposable domain list failed with status ${response.status}`);
+  }
+  const domains = parseDomainList(await response.text());
+  if (domains.length === 0) {
+    throw new Error("The downloaded disposable domain list has no valid domains");
+  }
+
+  const file = getDisposableDomainsFile();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const temporary = `${file}.tmp`;
+  fs.writeFileSync(temporary, `# Downloaded from ${url} on ${new Date().toISOString()}\n${domains.join("\n")}\n`);
+  fs.renameSync(temporary, file);
+
+  return { ...loadDisposableDomains(), downloadedFrom: url };
+}
+
+// ---------------------------------------------------------------------------
+// Typo suggestions
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and
+ * swaps of neighbouring characters each count 1
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+const domainTld = (domain: string): string => domain.slice(domain.indexOf(".") + 1);
+
+function isRealTld(tld: string): boolean {
+  const last = tld.slice(tld.lastIndexOf(".") + 1);
+  return COUNTRY_CODE_TLDS.has(last) || GENERIC_TLDS.has(last);
+}
+
+function closest(value: string, candidates: string[], maxDistance: number): string | null {
+  let best: string | null = null;
+  let bestDistance = maxDistance + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(value, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * The domain the user probably meant ("gmial.com" → "gmail.com",
+ * "example.con" → "example.com"), or null when it looks intended
+ */
+export function suggestDomain(domain: string): string | null {
+  const lower = domain.toLowerCase();
+  if (POPULAR_DOMAINS.includes(lower)) return null;
+
+  const dot = lower.indexOf(".");
+  if (dot <= 0) return null;
+  const name = lower.slice(0, dot);
+  const tld = lower.slice(dot + 1);
+  const realTld = isRealTld(tld);
+
+  // With a real TLD only the provider name is corrected ("mail.de" is not "mail.ru")
+  const candidates = realTld ? POPULAR_DOMAINS.filter((popular) => domainTld(popular) === tld) : POPULAR_DOMAINS;
+  const popular = closest(lower, candidates, name.length > 6 ? 2 : 1);
+  if (popular) return popular;
+
+  // Otherwise only a top-level domain that does not exist is corrected: "example.con"
+  if (realTld) return null;
+  const suggestedTld = closest(tld, POPULAR_TLDS, 1);
+  return suggestedTld ? `${name}.${suggestedTld}` : null;
+}
@@ -6,10 +6,12 @@ import {
   type ParamsDictionary,
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { checkMailDomain, isDisposableDomain, isMxCheckEnabled, suggestDomain } from "./email-domains";
 
 type EmailValidatorInputType = {
   email: string;
   checkDomain?: boolean;
+  checkMx?: boolean;
   allowDisposable?: boolean;
 };
 
@@ -17,7 +19,17 @@ type EmailValidationResultType = {
   isValid: boolean;
   email: string;
   normalizedEmail: string;
+  domain: string;
+  localPart: string;
+  checks: {
+    format: boolean;
+    domain: boolean;
+    disposable: boolean;
+    mx: boolean | null; // null when not checked or DNS did not answer
+  };
+  suggestion: string | null; // "john@gmail.com" for "john@gmial.com"
   errors: string[];
+  warnings: string[];
   details: {
     hasValidFormat: boolean;
     hasValidDomain: boolean;
@@ -51,6 +63,10 @@ export default class EmailValidator extends NanoService<EmailValidatorInputType>
           default: true,
           description: "Whether to validate domain format (default: true)"
         },
+        checkMx: {
+          type: "boolean",
+          description: "Whether to look up the domain's MX (or A/AAAA) records (default: true unless EMAIL_MX_CHECK=false)"
+        },
         allowDisposable: {
           type: "boolean",
           default: false,
@@ -107,12 +123,16 @@ export default class EmailValidator extends NanoService<EmailValidatorInputType>
                   description: "Whether the email uses a disposable domain"
                 },
                 mx: {
-                  type: "boolean",
-                  description: "Whether the domain has valid MX records"
+                  type: ["boolean", "null"],
+                  description: "Whether the domain has MX (or A/AAAA) records; null when not checked or DNS did not answer"
                 }
               },
               required: ["format", "domain", "disposable", "mx"]
             },
+            suggestion: {
+              type: ["string", "null"],
+              description: "Corrected address when the domain looks like a typo (e.g. gmial.com → gmail.com)"
+            },
             errors: {
               type: "array",
               items: {
@@ -128,7 +148,7 @@ export default class EmailValidator extends NanoService<EmailValidatorInputType>
               description: "List of validation warnings"
             }
           },
-          required: ["isValid", "email", "normalizedEmail", "domain", "localPart", "checks", "errors", "warnings"]
+          required: ["isValid", "email", "normalizedEmail", "domain", "localPart", "checks", "suggestion", "errors", "warnings"]
         },
         message: {
           type: "string",
@@ -155,7 +175,12 @@ export default class EmailValidator extends NanoService<EmailValidatorInputType>
 
       ctx.logger.log(`Validating email: ${inputs.email}`);
 
-      const validation = this.validateEmail(inputs.email, inputs.checkDomain !== false, inputs.allowDisposable === true);
+      const validation = await this.validateEmail(
+        inputs.email,
+        inputs.checkDomain !== false,
+        inputs.checkMx ?? isMxCheckEnabled(),
+        inputs.allowDisposable === true
+      );
 
       const result: EmailValidatorOutputType = {
         success: validation.isValid,
@@ -186,8 +211,14 @@ export default class EmailValidator extends NanoService<EmailValidatorInputType>
     return response;
   }
 
-  private validateEmail(email: string, checkDomain: boolean, allowDisposable: boolean): EmailValidationResultType {
+  private async validateEmail(
+    email: string,
+    checkDomain: boolean,
+    checkMx: boolean,
+    allowDisposable: boolean
+  ): Promise<EmailValidationResultType> {
     const errors: string[] = [];
+    const warnings: string[] = [];
     const trimmedEmail = email.trim().toLowerCase();
     
     // Basic format validation
@@ -221,6 +252,8 @@ export default class EmailValidator extends NanoService<EmailValidatorInputType>
     // Domain validation
     let hasValidDomain = true;
     let isDisposable = false;
+    let hasMx: boolean | null = null;
+    let suggestion: string | null = null;
 
     if (checkDomain && domain) {
       // Domain length check
@@ -236,18 +269,30 @@ export default class EmailValidator extends NanoService<EmailValidatorInputType>
         hasValidDomain = false;
       }
 
-      // Check for disposable email domains (basic list)
-      const disposableDomains = [
-        '10minutemail.com', 'tempmail.org', 'guerrillamail.com', 
-        'mailinator.com', 'yopmail.com', 'temp-mail.org',
-        'throwaway.email', 'maildrop.cc', 'getnada.com'
-      ];
-      
-      isDisposable = disposableDomains.includes(domain);
-      
+      // Disposable email domains (DISPOSABLE_EMAIL_DOMAINS_FILE, see email-domains.ts)
+      isDisposable = isDisposableDomain(domain);
+
       if (isDisposable && !allowDisposable) {
         errors.push('Disposable email addresses are not allowed');
       }
+
+      // Typo suggestion, e.g. gmial.com → gmail.com
+      const suggestedDomain = hasValidDomain ? suggestDomain(domain) : null;
+      if (suggestedDomain) {
+        suggestion = `${localPart}@${suggestedDomain}`;
+        warnings.push(`Did you mean ${suggestion}?`);
+      }
+
+      // Mail exchangers; a DNS failure only warns so an outage doesn't block sign-ups
+      if (checkMx && hasValidFormat && hasValidDomain && !isDisposable) {
+        const status = await checkMailDomain(domain);
+        hasMx = status.acceptsMail;
+        if (hasMx === false) {
+          errors.push('Domain does not accept email');
+        } else if (hasMx === null) {
+          warnings.push('Could not verify that the domain accepts email');
+        }
+      }
     }
 
     // Additional format checks
@@ -267,7 +312,17 @@ export default class EmailValidator extends NanoService<EmailValidatorInputType>
       isValid,
       email: trimmedEmail,
       normalizedEmail: trimmedEmail,
+      domain,
+      localPart,
+      checks: {
+        format: hasValidFormat,
+        domain: hasValidDomain,
+        disposable: isDisposable,
+        mx: hasMx
+      },
+      suggestion,
       errors,
+      warnings,
       details: {
         hasValidFormat,
         hasValidDomain,
@@ -0,0 +1,253 @@
+import fs from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "vitest";
+import {
+	checkMailDomain,
+	clearMailDomainCache,
+	createMailDomainResolver,
+	getDisposableDomainList,
+	isDisposableDomain,
+	loadDisposableDomains,
+	type MailDomainResolver,
+	refreshDisposableDomains,
+	setMailDomainResolver,
+	suggestDomain,
+} from "../email-domains";
+import { startFakeDnsServer } from "./fake-dns-server";
+
+const DNS_TIMEOUT_MS = 400;
+
+describe("checkMailDomain", () => {
+	let dnsServer: Awaited<ReturnType<typeof startFakeDnsServer>>;
+
+	beforeAll(async () => {
+		process.env.EMAIL_DNS_TIMEOUT_MS = String(DNS_TIMEOUT_MS);
+		dnsServer = await startFakeDnsServer({
+			"mail.test": {
+				mx: [
+					{ priority: 20, exchange: "backup.mail.test" },
+					{ priority: 10, exchange: "mx.mail.test" },
+				],
+			},
+			"implicit.test": { a: ["192.0.2.10"] },
+			"v6only.test": { aaaa: ["2001:db8::25"] },
+			"nullmx.test": { mx: [{ priority: 0, exchange: "" }], a: ["192.0.2.11"] },
+			"empty.test": {},
+			"broken.test": { servfail: true },
+			"slow.test": { silent: true },
+		});
+	});
+
+	afterAll(async () => {
+		setMailDomainResolver(null);
+		delete process.env.EMAIL_DNS_TIMEOUT_MS;
+		await dnsServer.close();
+	});
+
+	beforeEach(() => {
+		setMailDomainResolver(createMailDomainResolver([dnsServer.server]));
+	});
+
+	test("accepts a domain with MX records and orders them by priority", async () => {
+		const status = await checkMailDomain("Mail.Test");
+
+		expect(status.acceptsMail).toBe(true);
+		expect(status.source).toBe("mx");
+		expect(status.exchanges).toEqual(["mx.mail.test", "backup.mail.test"]);
+	});
+
+	test("falls back to A and AAAA records as the implicit MX", async () => {
+		const ipv4 = await checkMailDomain("implicit.test");
+		const ipv6 = await checkMailDomain("v6only.test");
+
+		expect(ipv4).toMatchObject({ acceptsMail: true, source: "a", exchanges: ["implicit.test"] });
+		expect(ipv6).toMatchObject({ acceptsMail: true, source: "a", exchanges: ["v6only.test"] });
+	});
+
+	test("rejects a null MX even when the domain has an address", async () => {
+		const status = await checkMailDomain("nullmx.test");
+
+		expect(status.acceptsMail).toBe(false);
+		expect(status.source).toBe("null-mx");
+	});
+
+	test("rejects domains that don't exist or have no records", async () => {
+		expect(await checkMailDomain("missing.test")).toMatchObject({ acceptsMail: false, source: "not-found" });
+		expect(await checkMailDomain("empty.test")).toMatchObject({ acceptsMail: false, source: "no-records" });
+	});
+
+	test("reports unknown instead of failing on server errors and timeouts", async () => {
+		const broken = await checkMailDomain("broken.test");
+		expect(broken.acceptsMail).toBeNull();
+		expect(broken.source).toBe("error");
+
+		const startedAt = Date.now();
+		const slow = await checkMailDomain("slow.test");
+		expect(slow.acceptsMail).toBeNull();
+		expect(slow.error).toBe("ETIMEOUT");
+		expect(Date.now() - startedAt).toBeLessThan(DNS_TIMEOUT_MS * 3);
+	});
+
+	test("caches answers and shares lookups in flight", async () => {
+		const before = dnsServer.queryCount("mail.test");
+
+		const [first, second] = await Promise.all([checkMailDomain("mail.test"), checkMailDomain("mail.test")]);
+		const third = await checkMailDomain("mail.test");
+
+		expect(first).toEqual(second);
+		expect(third).toEqual(first);
+		expect(dnsServer.queryCount("mail.test") - before).toBe(1);
+
+		clearMailDomainCache();
+		await checkMailDomain("mail.test");
+		expect(dnsServer.queryCount("mail.test") - before).toBe(2);
+	});
+
+	test("uses an injected resolver", async () => {
+		const looked: string[] = [];
+		setMailDomainResolver({
+			resolveMx: async (domain: string) => {
+				looked.push(domain);
+				return [{ priority: 5, exchange: "mx.injected.test" }];
+			},
+			resolve4: async () => [],
+			resolve6: async () => [],
+		} as unknown as MailDomainResolver);
+
+		const status = await checkMailDomain("anything.example");
+
+		expect(looked).toEqual(["anything.example"]);
+		expect(status.exchanges).toEqual(["mx.injected.test"]);
+	});
+});
+
+describe("disposable domains", () => {
+	let directory: string;
+	let listServer: http.Server;
+	let listUrl: string;
+	let listBody = "";
+
+	beforeAll(async () => {
+		listServer = http.createServer((req, res) => {
+			if (req.url === "/missing") {
+				res.writeHead(404).end();
+				return;
+			}
+			res.writeHead(200, { "Content-Type": "text/plain" }).end(listBody);
+		});
+		await new Promise<void>((resolve) => listServer.listen(0, "127.0.0.1", resolve));
+		listUrl = `http://127.0.0.1:${(listServer.address() as AddressInfo).port}`;
+	});
+
+	afterAll(async () => {
+		await new Promise<void>((resolve) => listServer.close(() => resolve()));
+	});
+
+	beforeEach(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), "disposable-domains-"));
+		process.env.DISPOSABLE_EMAIL_DOMAINS_FILE = path.join(directory, "domains.txt");
+	});
+
+	afterEach(() => {
+		delete process.env.DISPOSABLE_EMAIL_DOMAINS_FILE;
+		fs.rmSync(directory, { recursive: true, force: true });
+		loadDisposableDomains();
+	});
+
+	test("uses the built-in list while there is no file", () => {
+		const list = loadDisposableDomains();
+
+		expect(list.source).toBe("built-in");
+		expect(isDisposableDomain("mailinator.com")).toBe(true);
+		expect(isDisposableDomain("example.com")).toBe(false);
+	});
+
+	test("loads the file, ignoring comments and invalid lines, and matches subdomains", () => {
+		fs.writeFileSync(
+			process.env.DISPOSABLE_EMAIL_DOMAINS_FILE!,
+			"# throwaway providers\nTrashMail.test\nburner.test # added later\n\nnot a domain\n"
+		);
+
+		const list = loadDisposableDomains();
+
+		expect(list).toMatchObject({ source: "file", count: 2 });
+		expect(isDisposableDomain("trashmail.test")).toBe(true);
+		expect(isDisposableDomain("inbox.burner.test")).toBe(true);
+		expect(isDisposableDomain("mailinator.com")).toBe(false);
+		expect(isDisposableDomain("test")).toBe(false);
+	});
+
+	test("refresh without a URL reloads the file", async () => {
+		loadDisposableDomains();
+		expect(isDisposableDomain("fresh.test")).toBe(false);
+
+		fs.writeFileSync(process.env.DISPOSABLE_EMAIL_DOMAINS_FILE!, "fresh.test\n");
+		const list = await refreshDisposableDomains("");
+
+		expect(list).toMatchObject({ source: "file", count: 1 });
+		expect(isDisposableDomain("fresh.test")).toBe(true);
+	});
+
+	test("refresh downloads the list into the file", async () => {
+		listBody = "downloaded.test\nalso-downloaded.test\n";
+
+		const list = await refreshDisposableDomains(`${listUrl}/list.txt`);
+
+		expect(list).toMatchObject({ source: "file", count: 2, downloadedFrom: `${listUrl}/list.txt` });
+		expect(fs.readFileSync(process.env.DISPOSABLE_EMAIL_DOMAINS_FILE!, "utf8")).toContain("also-downloaded.test");
+		expect(isDisposableDomain("downloaded.test")).toBe(true);
+		expect(getDisposableDomainList().count).toBe(2);
+	});
+
+	test("a failed or empty download keeps the current list", async () => {
+		fs.writeFileSync(process.env.DISPOSABLE_EMAIL_DOMAINS_FILE!, "kept.test\n");
+		loadDisposableDomains();
+
+		await expect(refreshDisposableDomains(`${listUrl}/missing`)).rejects.toThrow("status 404");
+		listBody = "<html>nothing here</html>";
+		await expect(refreshDisposableDomains(`${listUrl}/list.txt`)).rejects.toThrow("no valid domains");
+
+		expect(fs.readFileSync(process.env.DISPOSABLE_EMAIL_DOMAINS_FILE!, "utf8")).toBe("kept.test\n");
+		expect(isDisposableDomain("kept.test")).toBe(true);
+	});
+});
+
+describe("suggestDomain", () => {
+	test("suggests the provider for common misspellings", () => {
+		expect(suggestDomain("gmial.com")).toBe("gmail.com");
+		expect(suggestDomain("gmail.con")).toBe("gmail.com");
+		expect(suggestDomain("hotmial.com")).toBe("hotmail.com");
+		expect(suggestDomain("yaho.com")).toBe("yahoo.com");
+	});
+
+	test("corrects the top-level domain of other domains", () => {
+		expect(suggestDomain("example.con")).toBe("example.com");
+		expect(suggestDomain("example.ogr")).toBe("example.org");
+	});
+
+	test("leaves intended domains alone", () => {
+		expect(suggestDomain("gmail.com")).toBeNull();
+		expect(suggestDomain("ymail.com")).toBeNull();
+		expect(suggestDomain("example.org")).toBeNull();
+		expect(suggestDomain("company.co.uk")).toBeNull();
+	});
+
+	test("keeps real country code and generic TLDs", () => {
+		expect(suggestDomain("example.dev")).toBeNull();
+		expect(suggestDomain("example.at")).toBeNull();
+		expect(suggestDomain("example.be")).toBeNull();
+		expect(suggestDomain("example.fi")).toBeNull();
+		expect(suggestDomain("example.ie")).toBeNull();
+		expect(suggestDomain("company.nz")).toBeNull();
+	});
+
+	test("does not move a provider to another real TLD", () => {
+		expect(suggestDomain("mail.de")).toBeNull();
+		expect(suggestDomain("gmx.at")).toBeNull();
+		expect(suggestDomain("gmial.de")).toBeNull();
+		expect(suggestDomain("gmx.con")).toBe("gmx.com");
+	});
+});
@@ -0,0 +1,113 @@
+import dgram from "dgram";
+import type { AddressInfo } from "net";
+
+export type FakeZone = {
+	mx?: { priority: number; exchange: string }[]; // exchange "" is the null MX
+	a?: string[];
+	aaaa?: string[];
+	servfail?: boolean; // Answer SERVFAIL to every query
+	silent?: boolean; // Never answer, so lookups time out
+};
+
+const TYPE_A = 1;
+const TYPE_MX = 15;
+const TYPE_AAAA = 28;
+const CLASS_IN = 1;
+const RCODE_SERVFAIL = 2;
+const RCODE_NXDOMAIN = 3;
+
+function encodeName(name: string): Buffer {
+	const labels = name.replace(/\.$/, "").split(".").filter(Boolean);
+	return Buffer.concat([
+		...labels.map((label) => Buffer.concat([Buffer.from([label.length]), Buffer.from(label, "ascii")])),
+		Buffer.from([0]),
+	]);
+}
+
+function encodeIpv6(address: string): Buffer {
+	const [head, tail = ""] = address.split("::");
+	const headGroups = head ? head.split(":") : [];
+	const tailGroups = tail ? tail.split(":") : [];
+	const groups = address.includes("::")
+		? [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill("0"), ...tailGroups]
+		: headGroups;
+	const buffer = Buffer.alloc(16);
+	groups.forEach((group, i) => buffer.writeUInt16BE(parseInt(group, 16), i * 2));
+	return buffer;
+}
+
+function resourceRecord(type: number, rdata: Buffer): Buffer {
+	const header = Buffer.alloc(12);
+	header.writeUInt16BE(0xc00c, 0); // Pointer to the name in the question
+	header.writeUInt16BE(type, 2);
+	header.writeUInt16BE(CLASS_IN, 4);
+	header.writeUInt32BE(300, 6);
+	header.writeUInt16BE(rdata.length, 10);
+	return Buffer.concat([header, rdata]);
+}
+
+/**
+ * Authoritative-only DNS server on 127.0.0.1 (UDP) answering MX, A and AAAA
+ * queries from `zones`; unknown names get NXDOMAIN. Counts queries per name
+ * so tests can tell cached answers from fresh lookups.
+ */
+export async function startFakeDnsServer(zones: Record<string, FakeZone>) {
+	const queries = new Map<string, number>();
+	const socket = dgram.createSocket("udp4");
+
+	socket.on("message", (message, remote) => {
+		// Question: labels from byte 12, then type and class
+		const labels: string[] = [];
+		let offset = 12;
+		while (message[offset] !== 0) {
+			const length = message[offset];
+			labels.push(message.toString("ascii", offset + 1, offset + 1 + length));
+			offset += length + 1;
+		}
+		const questionEnd = offset + 5;
+		const name = labels.join(".").toLowerCase();
+		const type = message.readUInt16BE(offset + 1);
+		queries.set(name, (queries.get(name) || 0) + 1);
+
+		const zone = zones[name];
+		if (zone?.silent) return;
+
+		const answers: Buffer[] = [];
+		let rcode = 0;
+		if (!zone) {
+			rcode = RCODE_NXDOMAIN;
+		} else if (zone.servfail) {
+			rcode = RCODE_SERVFAIL;
+		} else if (type === TYPE_MX) {
+			for (const { priority, exchange } of zone.mx || []) {
+				const preference = Buffer.alloc(2);
+				preference.writeUInt16BE(priority);
+				answers.push(resourceRecord(TYPE_MX, Buffer.concat([preference, encodeName(exchange)])));
+			}
+		} else if (type === TYPE_A) {
+			for (const address of zone.a || []) {
+				answers.push(resourceRecord(TYPE_A, Buffer.from(address.split(".").map(Number))));
+			}
+		} else if (type === TYPE_AAAA) {
+			for (const address of zone.aaaa || []) {
+				answers.push(resourceRecord(TYPE_AAAA, encodeIpv6(address)));
+			}
+		}
+
+		const header = Buffer.alloc(12);
+		message.copy(header, 0, 0, 2); // Query id
+		header.writeUInt16BE(0x8400 | (message.readUInt16BE(2) & 0x0100) | 0x0080 | rcode, 2); // QR, AA, RD copied, RA
+		header.writeUInt16BE(1, 4);
+		header.writeUInt16BE(answers.length, 6);
+		socket.send(Buffer.concat([header, message.subarray(12, questionEnd), ...answers]), remote.port, remote.address);
+	});
+
+	await new Promise<void>((resolve) => socket.bind(0, "127.0.0.1", resolve));
+	const { port } = socket.address() as AddressInfo;
+
+	return {
+		server: `127.0.0.1:${port}`,
+		queryCount: (name: string) => queries.get(name) || 0,
+		close: () => new Promise<void>((resolve) => socket.close(() => resolve())),
+	};
+}
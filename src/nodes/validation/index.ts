@@ -2,3 +2,4 @@
 export { default as EmailValidator } from "./email-validator";
 export { default as PasswordValidator } from "./password-validator";
 export { default as InputSanitizer } from "./input-sanitizer";
+export { default as DisposableDomains } from "./disposable-domains";
@@ -0,0 +1,168 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+
+/**
+ * Offline breached-password corpus
+ *
+ * A text file in the format of the Have I Been Pwned "ordered by hash"
+ * download: one `SHA1:COUNT` line per password, uppercase hex, sorted by hash.
+ * Lookups binary-search the file on disk, so the full HIBP set (tens of GB)
+ * works as well as a corpus built from a wordlist with the CLI below.
+ *
+ * Build or extend a corpus:
+ *   npm run passwords:corpus -- [--out database/breached-passwords.txt] [--min-count N] <wordlist|hibp-file>...
+ *
+ * Wordlists hold one password per line (repeats add up); lines that already
+ * are `SHA1:COUNT` are merged as they are. `BREACHED_PASSWORDS_FILE` points the
+ * password-validator at the corpus.
+ */
+
+export const DEFAULT_BREACHED_PASSWORDS_FILE = "database/breached-passwords.txt";
+
+const HASH_LENGTH = 40;
+const HIBP_LINE = /^([0-9A-Fa-f]{40}):(\d+)$/;
+// Below this many bytes the remaining range is read and scanned in one go
+const SCAN_WINDOW = 4096;
+const PROBE_LENGTH = 128;
+
+export function getBreachedPasswordsFile(): string {
+  return path.resolve(process.env.BREACHED_PASSWORDS_FILE || DEFAULT_BREACHED_PASSWORDS_FILE);
+}
+
+export function sha1Hex(password: string): string {
+  return crypto.createHash("sha1").update(password, "utf8").digest("hex").toUpperCase();
+}
+
+async function readAt(file: fs.promises.FileHandle, position: number, length: number): Promise<string> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, position);
+  return buffer.toString("latin1", 0, bytesRead);
+}
+
+/**
+ * How often `password` appears in the corpus (0 when it doesn't), or null
+ * when there is no corpus file
+ */
+export async function breachedPasswordCount(password: string, corpusFile = getBreachedPasswordsFile()): Promise<number | null> {
+  let file: fs.promises.FileHandle;
+  try {
+    file = await fs.promises.open(corpusFile, "r");
+  } catch {
+    return null;
+  }
+
+  try {
+    const target = sha1Hex(password);
+    const { size } = await file.stat();
+
+    // Invariant: lo is a line start and the target's line, if any, starts in [lo, hi)
+    let lo = 0;
+    let hi = size;
+    while (hi - lo > SCAN_WINDOW) {
+      const mid = Math.floor((lo + hi) / 2);
+      const newline = (await readAt(file, mid - 1, PROBE_LENGTH)).indexOf("\n");
+      const lineStart = mid + newline;
+      const rawLine = newline < 0 ? "" : (await readAt(file, lineStart, PROBE_LENGTH)).split("\n")[0];
+      const line = rawLine.trim();
+      // No line starts between mid and hi
+      if (!line || lineStart >= hi) {
+        hi = mid;
+        continue;
+      }
+
+      const hash = line.slice(0, HASH_LENGTH).toUpperCase();
+      if (hash === target) return Number(line.slice(HASH_LENGTH + 1)) || 1;
+      if (hash < target) {
+        lo = lineStart + rawLine.length + 1;
+      } else {
+        hi = lineStart;
+      }
+    }
+
+    // The extra bytes complete a line that starts just before hi
+    for (const line of (await readAt(file, lo, hi - lo + PROBE_LENGTH)).split("\n")) {
+      if (line.slice(0, HASH_LENGTH).toUpperCase() === target) {
+        return Number(line.trim().slice(HASH_LENGTH + 1)) || 1;
+      }
+    }
+    return 0;
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Count the passwords of `inputs` (wordlists or SHA1:COUNT files) into a
+ * sorted corpus at `output`. Everything is held in memory while building, so
+ * very large sources are better downloaded in HIBP format directly.
+ */
+export async function buildBreachedPasswordCorpus(
+  inputs: string[],
+  output: string,
+  options: { minCount?: number } = {}
+): Promise<{ passwords: number; written: number }> {
+  const counts = new Map<string, number>();
+  let passwords = 0;
+
+  for (const input of inputs) {
+    const lines = readline.createInterface({ input: fs.createReadStream(input), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line) continue;
+      const hibp = line.trim().match(HIBP_LINE);
+      const hash = hibp ? hibp[1].toUpperCase() : sha1Hex(line);
+      const count = hibp ? Number(hibp[2]) : 1;
+      counts.set(hash, (counts.get(hash) || 0) + count);
+      passwords++;
+    }
+  }
+
+  const minCount = options.minCount ?? 1;
+  const hashes = [...counts.keys()].filter((hash) => counts.get(hash)! >= minCount).sort();
+
+  fs.mkdirSync(path.dirname(path.resolve(output)), { recursive: true });
+  const stream = fs.createWriteStream(output);
+  for (const hash of hashes) {
+    if (!stream.write(`${hash}:${counts.get(hash)}\n`)) {
+      await new Promise<void>((resolve) => stream.once("drain", () => resolve()));
+    }
+  }
+  await new Promise<void>((resolve, reject) => stream.end((error?: Error | null) => (error ? reject(error) : resolve())));
+
+  return { passwords, written: hashes.length };
+}
+
+async function main(args: string[]) {
+  let output = getBreachedPasswordsFile();
+  let minCount = 1;
+  const inputs: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--out") output = args[++i];
+    else if (args[i] === "--min-count") minCount = parseInt(args[++i], 10) || 1;
+    else inputs.push(args[i]);
+  }
+
+  if (inputs.length === 0) {
+    console.error("Usage: breached-passwords.ts [--out file] [--min-count N] <wordlist|hibp-file>...");
+    process.exit(1);
+  }
+
+  // Rebuilding in place keeps what the corpus already had
+  if (fs.existsSync(output) && !inputs.includes(output)) inputs.push(output);
+
+  console.log(`🔄 Building breached-password corpus from ${inputs.join(", ")}...`);
+  const temporary = `${output}.tmp`;
+  const { passwords, written } = await buildBreachedPasswordCorpus(inputs, temporary, { minCount });
+  fs.renameSync(temporary, output);
+  console.log(`✅ ${written} hashes from ${passwords} entries written to ${output}`);
+}
+
+// Run the CLI if this file is executed directly
+if (require.main === module) {
+  main(process.argv.slice(2)).catch((error) => {
+    console.error("❌ Building the breached-password corpus failed:", error);
+    process.exit(1);
+  });
+}
@@ -6,6 +6,11 @@ import {
   type ParamsDictionary,
 } from "@nanoservice-ts/runner";
 import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import { breachedPasswordCount } from "./breached-passwords";
+import { type StrengthPattern, estimatePasswordStrength } from "./strength";
+
+// Estimated guesses (log10) that earn the full score of 100
+const MAX_SCORED_GUESSES_LOG10 = 14;
 
 type PasswordStrengthLevel = 'weak' | 'fair' | 'good' | 'strong' | 'very-strong';
 
@@ -18,13 +23,21 @@ type PasswordValidatorInputType = {
   requireNumbers?: boolean;
   requireSpecialChars?: boolean;
   forbidCommonPasswords?: boolean;
+  maxBreachCount?: number;
   forbidPersonalInfo?: string[];
 };
 
 type PasswordValidationResultType = {
   isValid: boolean;
   strength: PasswordStrengthLevel;
-  score: number; // 0-100
+  score: number; // 0-100, from the guesses estimate (see strength.ts)
+  breachCount: number | null; // Times seen in the breached-password corpus, null without a corpus
+  estimate: {
+    guessesLog10: number;
+    score: 0 | 1 | 2 | 3 | 4;
+    crackTimeSeconds: number;
+    patterns: StrengthPattern[];
+  };
   errors: string[];
   warnings: string[];
   suggestions: string[];
@@ -95,7 +108,13 @@ export default class PasswordValidator extends NanoService<PasswordValidatorInpu
         forbidCommonPasswords: {
           type: "boolean",
           default: true,
-          description: "Forbid common passwords (default: true)"
+          description: "Forbid common and breached passwords (default: true)"
+        },
+        maxBreachCount: {
+          type: "number",
+          minimum: 0,
+          default: 0,
+          description: "Accept passwords seen at most this many times in the breached-password corpus (default: 0)"
         },
         forbidPersonalInfo: {
           type: "array",
@@ -130,7 +149,26 @@ export default class PasswordValidator extends NanoService<PasswordValidatorInpu
               type: "number",
               minimum: 0,
               maximum: 100,
-              description: "Password strength score (0-100)"
+              description: "Password strength score (0-100) from the estimated number of guesses"
+            },
+            breachCount: {
+              type: ["number", "null"],
+              description: "How many times the password appears in the breached-password corpus (null without a corpus)"
+            },
+            estimate: {
+              type: "object",
+              description: "zxcvbn-style strength estimate",
+              properties: {
+                guessesLog10: { type: "number", description: "Estimated guesses to crack, log10" },
+                score: { type: "number", minimum: 0, maximum: 4, description: "0 (too guessable) to 4 (very unguessable)" },
+                crackTimeSeconds: { type: "number", description: "Offline attack against a slow hash at 10^4 guesses/second" },
+                patterns: {
+                  type: "array",
+                  items: { type: "string", enum: ["dictionary", "spatial", "sequence", "repeat", "date", "bruteforce"] },
+                  description: "Patterns the password was broken into"
+                }
+              },
+              required: ["guessesLog10", "score", "crackTimeSeconds", "patterns"]
             },
             errors: {
               type: "array",
@@ -188,7 +226,7 @@ export default class PasswordValidator extends NanoService<PasswordValidatorInpu
               required: ["length", "uppercase", "lowercase", "numbers", "specialChars", "commonPassword", "personalInfo"]
             }
           },
-          required: ["isValid", "strength", "score", "errors", "warnings", "suggestions", "checks"]
+          required: ["isValid", "strength", "score", "breachCount", "estimate", "errors", "warnings", "suggestions", "checks"]
         },
         message: {
           type: "string",
@@ -215,7 +253,7 @@ export default class PasswordValidator extends NanoService<PasswordValidatorInpu
 
       ctx.logger.log('Validating password strength and requirements');
 
-      const validation = this.validatePassword(inputs);
+      const validation = await this.validatePassword(inputs);
 
       const result: PasswordValidatorOutputType = {
         success: validation.isValid,
@@ -249,7 +287,7 @@ export default class PasswordValidator extends NanoService<PasswordValidatorInpu
     return response;
   }
 
-  private validatePassword(inputs: PasswordValidatorInputType): PasswordValidationResultType {
+  private async validatePassword(inputs: PasswordValidatorInputType): Promise<PasswordValidationResultType> {
     const password = inputs.password;
     const minLength = inputs.minLength || 8;
     const maxLength = inputs.maxLength || 128;
@@ -258,6 +296,7 @@ export default class PasswordValidator extends NanoService<PasswordValidatorInpu
     const requireNumbers = inputs.requireNumbers !== false;
     const requireSpecialChars = inputs.requireSpecialChars !== false;
     const forbidCommonPasswords = inputs.forbidCommonPasswords !== false;
+    const maxBreachCount = inputs.maxBreachCount ?? 0;
     const forbidPersonalInfo = inputs.forbidPersonalInfo || [];
 
     const errors: string[] = [];
@@ -300,11 +339,14 @@ export default class PasswordValidator extends NanoService<PasswordValidatorInpu
       suggestions.push('Add special characters (!@#$%^&*)');
     }
 
-    // Common password check
-    const notCommon = !this.isCommonPassword(password);
+    // Breached password check: the corpus when there is one, the built-in list otherwise
+    const breachCount = await breachedPasswordCount(password);
+    const notCommon = breachCount === null ? !this.isCommonPassword(password) : breachCount <= maxBreachCount;
     if (forbidCommonPasswords && !notCommon) {
-      errors.push('Password is too common');
+      errors.push(breachCount ? `Password has been seen ${breachCount} times in data breaches` : 'Password is too common');
       suggestions.push('Choose a more unique password');
+    } else if (breachCount) {
+      warnings.push(`Password has been seen ${breachCount} times in data breaches`);
     }
 
     // Personal info check
@@ -314,46 +356,16 @@ export default class PasswordValidator extends NanoService<PasswordValidatorInpu
       suggestions.push('Avoid using personal information in passwords');
     }
 
-    // Pattern checks (warnings)
-    if (this.hasRepeatingChars(password)) {
-      warnings.push('Password contains repeating characters');
-      suggestions.push('Reduce repeating characters');
-    }
-
-    if (this.hasSequentialChars(password)) {
-      warnings.push('Password contains sequential characters');
-      suggestions.push('Avoid sequential characters (abc, 123)');
+    // Pattern checks (warnings): dictionary words, keyboard walks, sequences, repeats, dates
+    const estimate = estimatePasswordStrength(password, forbidPersonalInfo);
+    if (estimate.warning) {
+      warnings.push(estimate.warning);
     }
+    suggestions.push(...estimate.suggestions.filter((suggestion) => !suggestions.includes(suggestion)));
 
-    if (this.hasKeyboardPatterns(password)) {
-      warnings.push('Password contains keyboard patterns');
-      suggestions.push('Avoid keyboard patterns (qwerty, asdf)');
-    }
-
-    // Calculate strength score
-    let score = 0;
-    
-    // Length scoring (0-30 points)
-    if (password.length >= 12) score += 30;
-    else if (password.length >= 10) score += 25;
-    else if (password.length >= 8) score += 20;
-    else if (password.length >= 6) score += 10;
-
-    // Character diversity (0-40 points)
-    if (hasUppercase) score += 10;
-    if (hasLowercase) score += 10;
-    if (hasNumbers) score += 10;
-    if (hasSpecialChars) score += 10;
-
-    // Uniqueness (0-20 points)
-    if (notCommon) score += 10;
-    if (notPersonalInfo) score += 5;
-    if (!this.hasRepeatingChars(password)) score += 5;
-
-    // Complexity bonus (0-10 points)
-    const uniqueChars = new Set(password).size;
-    if (uniqueChars >= password.length * 0.8) score += 10;
-    else if (uniqueChars >= password.length * 0.6) score += 5;
+    // Strength score: 10^14 guesses or more is 100; a breached password stays weak
+    let score = Math.round((Math.min(Math.max(estimate.guessesLog10, 0), MAX_SCORED_GUESSES_LOG10) / MAX_SCORED_GUESSES_LOG10) * 100);
+    if (!notCommon) score = Math.min(score, 10);
 
     // Determine strength level
     let strength: PasswordStrengthLevel;
@@ -379,6 +391,13 @@ export default class PasswordValidator extends NanoService<PasswordValidatorInpu
       isValid,
       strength,
       score,
+      breachCount,
+      estimate: {
+        guessesLog10: Math.round(estimate.guessesLog10 * 100) / 100,
+        score: estimate.score,
+        crackTimeSeconds: estimate.crackTimeSeconds,
+        patterns: estimate.sequence.map((match) => match.pattern),
+      },
       errors,
       warnings,
       suggestions,
@@ -403,20 +422,4 @@ export default class PasswordValidator extends NanoService<PasswordValidatorInpu
       info && info.length >= 3 && lowerPassword.includes(info.toLowerCase())
     );
   }
-
-  private hasRepeatingChars(password: string): boolean {
-    return /(.)\1{2,}/.test(password);
-  }
-
-  private hasSequentialChars(password: string): boolean {
-    const sequences = ['abc', 'bcd', 'cde', 'def', '123', '234', '345', '456', '789'];
-    const lowerPassword = password.toLowerCase();
-    return sequences.some(seq => lowerPassword.includes(seq));
-  }
-
-  private hasKeyboardPatterns(password: string): boolean {
-    const patterns = ['qwerty', 'asdf', 'zxcv', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
-    const lowerPassword = password.toLowerCase();
-    return patterns.some(pattern => lowerPassword.includes(pattern));
-  }
 }
@@ -0,0 +1,603 @@
+/**
+ * Password strength estimation
+ *
+ * A zxcvbn-style estimator: the password is covered by the cheapest sequence
+ * of patterns an attacker would try (common passwords and words, including
+ * reversed, capitalised and l33t variants, keyboard walks, sequences,
+ * repeats, years and dates, and brute force for what's left), and the
+ * strength is the number of guesses that sequence takes.
+ */
+
+export type StrengthPattern = "dictionary" | "spatial" | "sequence" | "repeat" | "date" | "bruteforce";
+
+export type StrengthMatch = {
+  pattern: StrengthPattern;
+  token: string;
+  i: number;
+  j: number;
+  guesses: number;
+  dictionaryName?: "passwords" | "words" | "user_inputs";
+  rank?: number;
+  reversed?: boolean;
+  l33t?: boolean;
+};
+
+export type StrengthEstimate = {
+  guesses: number;
+  guessesLog10: number;
+  score: 0 | 1 | 2 | 3 | 4; // zxcvbn scale: < 10^3, < 10^6, < 10^8, < 10^10 guesses, stronger
+  crackTimeSeconds: number; // Offline attack on a slow hash at 10^4 guesses per second
+  sequence: StrengthMatch[];
+  warning: string | null;
+  suggestions: string[];
+};
+
+// Passwords long enough to make the search slow only get their first characters analysed
+const MAX_ANALYSED_LENGTH = 100;
+
+const BRUTEFORCE_CARDINALITY = 10;
+const MIN_GUESSES_BEFORE_GROWING_SEQUENCE = 10000;
+const MIN_SUBMATCH_GUESSES_SINGLE_CHAR = 10;
+const MIN_SUBMATCH_GUESSES_MULTI_CHAR = 50;
+const MIN_YEAR_SPACE = 20;
+const REFERENCE_YEAR = new Date().getFullYear();
+const OFFLINE_SLOW_HASH_GUESSES_PER_SECOND = 1e4;
+
+// Most common passwords first; the position is the number of guesses
+const COMMON_PASSWORDS = [
+  "123456", "password", "12345678", "qwerty", "123456789", "12345", "1234", "111111", "1234567", "dragon",
+  "123123", "baseball", "abc123", "football", "monkey", "letmein", "696969", "shadow", "master", "666666",
+  "qwertyuiop", "123321", "mustang", "1234567890", "michael", "654321", "superman", "1qaz2wsx", "7777777", "121212",
+  "000000", "qazwsx", "123qwe", "killer", "trustno1", "jordan", "jennifer", "zxcvbnm", "asdfgh", "hunter",
+  "buster", "soccer", "harley", "batman", "andrew", "tigger", "sunshine", "iloveyou", "2000", "charlie",
+  "robert", "thomas", "hockey", "ranger", "daniel", "starwars", "klaster", "112233", "george", "computer",
+  "michelle", "jessica", "pepper", "1111", "zxcvbn", "555555", "11111111", "131313", "freedom", "777777",
+  "pass", "maggie", "159753", "aaaaaa", "ginger", "princess", "joshua", "cheese", "amanda", "summer",
+  "love", "ashley", "nicole", "chelsea", "biteme", "matthew", "access", "yankees", "987654321", "dallas",
+  "austin", "thunder", "taylor", "matrix", "admin", "welcome", "login", "passw0rd", "hello", "whatever",
+  "flower", "qwerty123", "password1", "password123", "welcome1", "admin123", "changeme", "secret", "root", "toor",
+  "test", "guest", "user", "letmein1", "monkey1", "football1", "iloveyou1", "princess1", "abcdef", "abcd1234",
+];
+
+// Frequent English words and first names
+const COMMON_WORDS = [
+  "the", "of", "and", "to", "in", "you", "that", "it", "for", "was", "with", "on", "are", "be", "this", "have",
+  "not", "but", "what", "all", "can", "love", "time", "like", "know", "just", "one", "good", "well", "want",
+  "come", "make", "back", "right", "think", "here", "then", "look", "little", "man", "day", "life", "world",
+  "home", "house", "money", "family", "friend", "happy", "heart", "baby", "girl", "boy", "sweet", "angel",
+  "blue", "red", "green", "black", "white", "orange", "purple", "yellow", "silver", "golden", "summer",
+  "winter", "spring", "autumn", "sun", "moon", "star", "sky", "fire", "water", "dragon", "tiger", "eagle",
+  "lion", "wolf", "bear", "horse", "cat", "dog", "fish", "monkey", "apple", "cookie", "chocolate", "coffee",
+  "music", "rock", "game", "player", "soccer", "football", "hockey", "secret", "magic", "power", "king",
+  "queen", "prince", "princess", "master", "admin", "welcome", "hello", "computer", "internet", "company",
+  "john", "david", "michael", "james", "robert", "william", "mary", "linda", "sarah", "jessica", "jennifer",
+  "daniel", "thomas", "chris", "anna", "maria", "alex", "sam", "max", "charlie", "lucy", "emma", "oliver",
+];
+
+const L33T_TABLE: Record<string, string[]> = {
+  "4": ["a"],
+  "@": ["a"],
+  "8": ["b"],
+  "(": ["c"],
+  "{": ["c"],
+  "[": ["c"],
+  "<": ["c"],
+  "3": ["e"],
+  "6": ["g"],
+  "9": ["g"],
+  "1": ["i", "l"],
+  "!": ["i"],
+  "|": ["i", "l"],
+  "0": ["o"],
+  "$": ["s"],
+  "5": ["s"],
+  "7": ["t", "l"],
+  "+": ["t"],
+  "%": ["x"],
+  "2": ["z"],
+};
+
+// Unshifted key rows; the leading space keeps the stagger: the key at index i
+// sits under the keys i and i + 1 of the row above
+const KEYBOARD_ROWS = ["`1234567890-=", " qwertyuiop[]\\", " asdfghjkl;'", " zxcvbnm,./"];
+const SHIFTED_KEYS = "~!@#$%^&*()_+{}|:\"<>?";
+const UNSHIFTED_KEYS = "`1234567890-=[]\\;',./";
+const KEYBOARD_STARTING_POSITIONS = 94;
+const KEYBOARD_AVERAGE_DEGREE = 4.6;
+
+function buildRankedDictionary(words: string[]): Map<string, number> {
+  const ranked = new Map<string, number>();
+  words.forEach((word, index) => {
+    const key = word.toLowerCase();
+    if (!ranked.has(key)) ranked.set(key, index + 1);
+  });
+  return ranked;
+}
+
+const DICTIONARIES = {
+  passwords: buildRankedDictionary(COMMON_PASSWORDS),
+  words: buildRankedDictionary(COMMON_WORDS),
+};
+
+const KEY_POSITIONS = (() => {
+  const positions = new Map<string, [number, number]>();
+  KEYBOARD_ROWS.forEach((row, r) => {
+    for (let i = 0; i < row.length; i++) {
+      if (row[i] !== " ") positions.set(row[i], [r, i]);
+    }
+  });
+  return positions;
+})();
+
+function nCk(n: number, k: number): number {
+  if (k > n) return 0;
+  if (k === 0) return 1;
+  let result = 1;
+  for (let d = 1; d <= k; d++) {
+    result = (result * (n - k + d)) / d;
+  }
+  return result;
+}
+
+function factorial(n: number): number {
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+}
+
+function uppercaseVariations(token: string): number {
+  if (token === token.toLowerCase()) return 1;
+  // Capitalised, all caps or a trailing capital are tried first
+  if (/^[A-Z][^A-Z]+$/.test(token) || /^[^A-Z]+[A-Z]$/.test(token) || /^[^a-z]+$/.test(token)) return 2;
+
+  const upper = (token.match(/[A-Z]/g) || []).length;
+  const lower = (token.match(/[a-z]/g) || []).length;
+  let variations = 0;
+  for (let i = 1; i <= Math.min(upper, lower); i++) {
+    variations += nCk(upper + lower, i);
+  }
+  return variations;
+}
+
+function l33tVariations(token: string, substitutions: Record<string, string>): number {
+  let variations = 1;
+  for (const [subbed, unsubbed] of Object.entries(substitutions)) {
+    const chars = token.toLowerCase().split("");
+    const s = chars.filter((c) => c === subbed).length;
+    const u = chars.filter((c) => c === unsubbed).length;
+    if (s === 0) continue;
+    if (u === 0) {
+      variations *= 2;
+    } else {
+      let possibilities = 0;
+      for (let i = 1; i <= Math.min(u, s); i++) possibilities += nCk(u + s, i);
+      variations *= possibilities;
+    }
+  }
+  return variations;
+}
+
+/**
+ * Every way to read the l33t characters of `password` back as letters, one
+ * letter per character (capped, the table is small)
+ */
+function l33tSubstitutions(password: string): Record<string, string>[] {
+  const present = Object.keys(L33T_TABLE).filter((c) => password.includes(c));
+  let substitutions: Record<string, string>[] = [{}];
+  for (const c of present) {
+    const next: Record<string, string>[] = [];
+    for (const letter of L33T_TABLE[c]) {
+      for (const substitution of substitutions) next.push({ ...substitution, [c]: letter });
+    }
+    substitutions = next.slice(0, 16);
+  }
+  return present.length === 0 ? [] : substitutions;
+}
+
+function dictionaryMatches(password: string, dictionaries: Record<string, Map<string, number>>): StrengthMatch[] {
+  const matches: StrengthMatch[] = [];
+  const lower = password.toLowerCase();
+  const reversed = lower.split("").reverse().join("");
+  const n = password.length;
+
+  const find = (
+    text: string,
+    onMatch: (i: number, j: number, rank: number, name: string) => void
+  ) => {
+    for (const [name, ranked] of Object.entries(dictionaries)) {
+      for (let i = 0; i < n; i++) {
+        for (let j = i + 2; j < n; j++) {
+          const rank = ranked.get(text.slice(i, j + 1));
+          if (rank !== undefined) onMatch(i, j, rank, name);
+        }
+      }
+    }
+  };
+
+  find(lower, (i, j, rank, name) => {
+    const token = password.slice(i, j + 1);
+    matches.push({
+      pattern: "dictionary",
+      token,
+      i,
+      j,
+      rank,
+      dictionaryName: name as StrengthMatch["dictionaryName"],
+      guesses: rank * uppercaseVariations(token),
+    });
+  });
+
+  find(reversed, (i, j, rank, name) => {
+    const start = n - 1 - j;
+    const end = n - 1 - i;
+    const token = password.slice(start, end + 1);
+    matches.push({
+      pattern: "dictionary",
+      token,
+      i: start,
+      j: end,
+      rank,
+      reversed: true,
+      dictionaryName: name as StrengthMatch["dictionaryName"],
+      guesses: rank * uppercaseVariations(token) * 2,
+    });
+  });
+
+  for (const substitution of l33tSubstitutions(lower)) {
+    const translated = lower.split("").map((c) => substitution[c] ?? c).join("");
+    find(translated, (i, j, rank, name) => {
+      const token = password.slice(i, j + 1);
+      const used = Object.fromEntries(Object.entries(substitution).filter(([c]) => token.toLowerCase().includes(c)));
+      // Plain matches were found above
+      if (Object.keys(used).length === 0) return;
+      matches.push({
+        pattern: "dictionary",
+        token,
+        i,
+        j,
+        rank,
+        l33t: true,
+        dictionaryName: name as StrengthMatch["dictionaryName"],
+        guesses: rank * uppercaseVariations(token) * l33tVariations(token, used),
+      });
+    });
+  }
+
+  return matches;
+}
+
+function unshift(c: string): { key: string; shifted: boolean } {
+  const index = SHIFTED_KEYS.indexOf(c);
+  if (index >= 0) return { key: UNSHIFTED_KEYS[index], shifted: true };
+  if (/[A-Z]/.test(c)) return { key: c.toLowerCase(), shifted: true };
+  return { key: c, shifted: false };
+}
+
+function keysAdjacent(a: string, b: string): { adjacent: boolean; direction: string } {
+  const from = KEY_POSITIONS.get(a);
+  const to = KEY_POSITIONS.get(b);
+  if (!from || !to) return { adjacent: false, direction: "" };
+  const dr = to[0] - from[0];
+  const di = to[1] - from[1];
+  const adjacent =
+    (dr === 0 && Math.abs(di) === 1) ||
+    (dr === -1 && (di === 0 || di === 1)) ||
+    (dr === 1 && (di === 0 || di === -1));
+  return { adjacent, direction: `${dr},${di}` };
+}
+
+function spatialMatches(password: string): StrengthMatch[] {
+  const matches: StrengthMatch[] = [];
+  let i = 0;
+  while (i < password.length - 2) {
+    let j = i;
+    let turns = 0;
+    let shifted = unshift(password[i]).shifted ? 1 : 0;
+    let lastDirection = "";
+    while (j + 1 < password.length) {
+      const current = unshift(password[j]);
+      const next = unshift(password[j + 1]);
+      const { adjacent, direction } = keysAdjacent(current.key, next.key);
+      if (!adjacent) break;
+      if (direction !== lastDirection) {
+        turns++;
+        lastDirection = direction;
+      }
+      if (next.shifted) shifted++;
+      j++;
+    }
+
+    if (j - i + 1 >= 3) {
+      const token = password.slice(i, j + 1);
+      matches.push({ pattern: "spatial", token, i, j, guesses: spatialGuesses(token.length, turns, shifted) });
+      i = j;
+    } else {
+      i++;
+    }
+  }
+  return matches;
+}
+
+function spatialGuesses(length: number, turns: number, shifted: number): number {
+  let guesses = 0;
+  for (let i = 2; i <= length; i++) {
+    for (let j = 1; j <= Math.min(turns, i - 1); j++) {
+      guesses += nCk(i - 1, j - 1) * KEYBOARD_STARTING_POSITIONS * KEYBOARD_AVERAGE_DEGREE ** j;
+    }
+  }
+  if (shifted > 0) {
+    const unshifted = length - shifted;
+    if (unshifted === 0) {
+      guesses *= 2;
+    } else {
+      let variations = 0;
+      for (let i = 1; i <= Math.min(shifted, unshifted); i++) variations += nCk(shifted + unshifted, i);
+      guesses *= variations;
+    }
+  }
+  return guesses;
+}
+
+function charClass(c: string): "lower" | "upper" | "digit" | null {
+  if (/[a-z]/.test(c)) return "lower";
+  if (/[A-Z]/.test(c)) return "upper";
+  if (/\d/.test(c)) return "digit";
+  return null;
+}
+
+function sequenceMatches(password: string): StrengthMatch[] {
+  const matches: StrengthMatch[] = [];
+  const push = (i: number, j: number, delta: number) => {
+    if (j - i < 2 || Math.abs(delta) < 1 || Math.abs(delta) > 5) return;
+    const token = password.slice(i, j + 1);
+    const cls = charClass(token[0]);
+    if (!cls || token.split("").some((c) => charClass(c) !== cls)) return;
+
+    let base: number;
+    if ("aAzZ019".includes(token[0])) base = 4;
+    else if (cls === "digit") base = 10;
+    else base = 26;
+    matches.push({ pattern: "sequence", token, i, j, guesses: base * token.length * (delta > 0 ? 1 : 2) });
+  };
+
+  let start = 0;
+  let lastDelta: number | null = null;
+  for (let k = 1; k < password.length; k++) {
+    const delta = password.charCodeAt(k) - password.charCodeAt(k - 1);
+    if (lastDelta === null) lastDelta = delta;
+    if (delta === lastDelta) continue;
+    push(start, k - 1, lastDelta);
+    start = k - 1;
+    lastDelta = delta;
+  }
+  if (lastDelta !== null) push(start, password.length - 1, lastDelta);
+  return matches;
+}
+
+function repeatMatches(password: string): StrengthMatch[] {
+  const matches: StrengthMatch[] = [];
+  const greedy = /(.+)\1+/g;
+  const lazy = /(.+?)\1+/g;
+  let lastIndex = 0;
+
+  while (lastIndex < password.length) {
+    greedy.lastIndex = lazy.lastIndex = lastIndex;
+    const greedyMatch = greedy.exec(password);
+    const lazyMatch = lazy.exec(password);
+    if (!greedyMatch || !lazyMatch) break;
+
+    // In "aabaab" the greedy run is the whole password and the lazy one only "aa";
+    // keep the longer run and repeat its smallest unit
+    let match: RegExpExecArray;
+    let unit: string;
+    if (greedyMatch[0].length > lazyMatch[0].length) {
+      match = greedyMatch;
+      unit = /^(.+?)\1+$/.exec(greedyMatch[0])?.[1] ?? greedyMatch[1];
+    } else {
+      match = lazyMatch;
+      unit = lazyMatch[1];
+    }
+
+    const i = match.index;
+    const j = i + match[0].length - 1;
+    const unitGuesses = estimatePasswordStrength(unit).guesses;
+    matches.push({ pattern: "repeat", token: match[0], i, j, guesses: unitGuesses * (match[0].length / unit.length) });
+    lastIndex = j + 1;
+  }
+  return matches;
+}
+
+function dateMatches(password: string): StrengthMatch[] {
+  const matches: StrengthMatch[] = [];
+  const yearSpace = (year: number) => Math.max(Math.abs(year - REFERENCE_YEAR), MIN_YEAR_SPACE);
+  const fullYear = (year: number) => (year >= 100 ? year : year > 50 ? 1900 + year : 2000 + year);
+  const validDayMonth = (a: number, b: number) => (a >= 1 && a <= 31 && b >= 1 && b <= 12) || (b >= 1 && b <= 31 && a >= 1 && a <= 12);
+
+  for (const year of password.matchAll(/(19\d\d|20\d\d)/g)) {
+    const i = year.index ?? 0;
+    matches.push({ pattern: "date", token: year[0], i, j: i + 3, guesses: yearSpace(Number(year[0])) });
+  }
+
+  // day/month then year, or year then month/day, with an optional separator
+  const patterns = [
+    /(\d{1,2})([\s/\\._-]?)(\d{1,2})\2(\d{4}|\d{2})/g,
+    /(\d{4})([\s/\\._-]?)(\d{1,2})\2(\d{1,2})/g,
+  ];
+  for (const [index, pattern] of patterns.entries()) {
+    for (let start = 0; start < password.length; start++) {
+      pattern.lastIndex = start;
+      const match = pattern.exec(password);
+      if (!match || match.index !== start || match[0].length < 4) continue;
+
+      const [token, first, separator, second, third] = match;
+      const [a, b, year] = index === 0 ? [Number(first), Number(second), Number(third)] : [Number(second), Number(third), Number(first)];
+      if (!validDayMonth(a, b)) continue;
+      if (index === 1 && (year < 1900 || year > 2099)) continue;
+
+      const guesses = yearSpace(fullYear(year)) * 365 * (separator ? 4 : 1);
+      matches.push({ pattern: "date", token, i: start, j: start + token.length - 1, guesses });
+    }
+  }
+  return matches;
+}
+
+/**
+ * The cheapest way to cover the password with matches, padding gaps with brute
+ * force. Longer sequences pay l! for their ordering and an additive penalty,
+ * so "correct horse" is not split into many tiny bruteforce pieces.
+ */
+function mostGuessableSequence(password: string, matches: StrengthMatch[]): { guesses: number; sequence: StrengthMatch[] } {
+  const n = password.length;
+  const byEnd: StrengthMatch[][] = Array.from({ length: n }, () => []);
+  for (const match of matches) byEnd[match.j].push(match);
+
+  type Entry = { match: StrengthMatch; pi: number; g: number };
+  const optimal: Map<number, Entry>[] = Array.from({ length: n }, () => new Map());
+
+  const matchGuesses = (match: StrengthMatch) => {
+    const minimum = match.token.length === 1 ? MIN_SUBMATCH_GUESSES_SINGLE_CHAR : MIN_SUBMATCH_GUESSES_MULTI_CHAR;
+    return match.token.length === n ? Math.max(match.guesses, 1) : Math.max(match.guesses, minimum);
+  };
+
+  const bruteforce = (i: number, j: number): StrengthMatch => {
+    const token = password.slice(i, j + 1);
+    return { pattern: "bruteforce", token, i, j, guesses: Math.min(BRUTEFORCE_CARDINALITY ** token.length, Number.MAX_VALUE) };
+  };
+
+  const update = (match: StrengthMatch, length: number) => {
+    const k = match.j;
+    let pi = matchGuesses(match);
+    if (length > 1) pi *= optimal[match.i - 1].get(length - 1)!.pi;
+    const g = factorial(length) * pi + MIN_GUESSES_BEFORE_GROWING_SEQUENCE ** (length - 1);
+
+    for (const [otherLength, other] of optimal[k]) {
+      if (otherLength <= length && other.g <= g) return;
+    }
+    optimal[k].set(length, { match, pi, g });
+  };
+
+  for (let k = 0; k < n; k++) {
+    for (const match of byEnd[k]) {
+      if (match.i > 0) {
+        for (const length of [...optimal[match.i - 1].keys()]) update(match, length + 1);
+      } else {
+        update(match, 1);
+      }
+    }
+
+    update(bruteforce(0, k), 1);
+    for (let i = 1; i <= k; i++) {
+      const match = bruteforce(i, k);
+      for (const [length, entry] of [...optimal[i - 1]]) {
+        // Two bruteforce pieces in a row are never cheaper than one
+        if (entry.match.pattern === "bruteforce") continue;
+        update(match, length + 1);
+      }
+    }
+  }
+
+  let bestLength = 1;
+  let best = Infinity;
+  for (const [length, entry] of optimal[n - 1]) {
+    if (entry.g < best) {
+      best = entry.g;
+      bestLength = length;
+    }
+  }
+
+  const sequence: StrengthMatch[] = [];
+  let k = n - 1;
+  let length = bestLength;
+  while (k >= 0) {
+    const { match } = optimal[k].get(length)!;
+    sequence.unshift({ ...match, guesses: matchGuesses(match) });
+    k = match.i - 1;
+    length--;
+  }
+  return { guesses: best, sequence };
+}
+
+function feedback(score: number, sequence: StrengthMatch[]): { warning: string | null; suggestions: string[] } {
+  if (sequence.length === 0) return { warning: null, suggestions: ["Use a few words, avoid common phrases"] };
+  if (score > 2) return { warning: null, suggestions: [] };
+
+  const longest = sequence.reduce((a, b) => (b.token.length > a.token.length ? b : a));
+  const suggestions = ["Add another word or two. Uncommon words are better."];
+  let warning: string | null = null;
+
+  switch (longest.pattern) {
+    case "dictionary":
+      if (longest.dictionaryName === "passwords") {
+        warning = (longest.rank ?? Infinity) <= 100 ? "This is a very common password" : "This is similar to a commonly used password";
+      } else if (longest.dictionaryName === "user_inputs") {
+        warning = "Avoid your name, email or other personal details";
+      } else {
+        warning = sequence.length === 1 ? "A word by itself is easy to guess" : null;
+      }
+      if (/^[A-Z][^A-Z]+$/.test(longest.token)) suggestions.push("Capitalization doesn't help very much");
+      if (longest.reversed) suggestions.push("Reversed words aren't much harder to guess");
+      if (longest.l33t) suggestions.push("Predictable substitutions like '@' instead of 'a' don't help very much");
+      break;
+    case "spatial":
+      warning = "Straight rows or short patterns of keys are easy to guess";
+      suggestions.push("Use a longer keyboard pattern with more turns");
+      break;
+    case "repeat":
+      warning = "Repeats like \"aaa\" or \"abcabcabc\" are easy to guess";
+      suggestions.push("Avoid repeated words and characters");
+      break;
+    case "sequence":
+      warning = "Sequences like abc or 6543 are easy to guess";
+      suggestions.push("Avoid sequences");
+      break;
+    case "date":
+      warning = "Dates and recent years are often easy to guess";
+      suggestions.push("Avoid dates and years that are associated with you");
+      break;
+  }
+  return { warning, suggestions };
+}
+
+/**
+ * Estimate how many guesses `password` takes; `userInputs` (name, email...) are
+ * treated as a dictionary tried before anything else
+ */
+export function estimatePasswordStrength(password: string, userInputs: string[] = []): StrengthEstimate {
+  const analysed = password.slice(0, MAX_ANALYSED_LENGTH);
+
+  const userWords = userInputs
+    .flatMap((input) => [input, ...String(input).split(/[^A-Za-z0-9]+/)])
+    .filter((word) => word && word.length >= 3);
+  const dictionaries: Record<string, Map<string, number>> = { ...DICTIONARIES };
+  if (userWords.length > 0) dictionaries.user_inputs = buildRankedDictionary(userWords);
+
+  const matches = analysed.length === 0
+    ? []
+    : [
+        ...dictionaryMatches(analysed, dictionaries),
+        ...spatialMatches(analysed),
+        ...sequenceMatches(analysed),
+        ...repeatMatches(analysed),
+        ...dateMatches(analysed),
+      ];
+
+  const { guesses, sequence } = analysed.length === 0
+    ? { guesses: 1, sequence: [] }
+    : mostGuessableSequence(analysed, matches);
+
+  let score: StrengthEstimate["score"];
+  if (guesses < 1e3 + 5) score = 0;
+  else if (guesses < 1e6 + 5) score = 1;
+  else if (guesses < 1e8 + 5) score = 2;
+  else if (guesses < 1e10 + 5) score = 3;
+  else score = 4;
+
+  return {
+    guesses: Math.min(guesses, Number.MAX_VALUE),
+    guessesLog10: Math.log10(Math.min(guesses, Number.MAX_VALUE)),
+    score,
+    crackTimeSeconds: guesses / OFFLINE_SLOW_HASH_GUESSES_PER_SECOND,
+    sequence,
+    ...feedback(score, sequence),
+  };
+}
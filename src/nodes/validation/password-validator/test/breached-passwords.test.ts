@@ -0,0 +1,81 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { breachedPasswordCount, buildBreachedPasswordCorpus, sha1Hex } from "../breached-passwords";
+
+// Large enough that lookups binary-search the file instead of scanning it whole
+const CORPUS_SIZE = 2000;
+
+describe("breachedPasswordCount", () => {
+	let directory: string;
+	let corpus: string;
+	// Sorted by hash, i.e. in corpus order
+	let passwords: string[];
+	let missing: { start: string; middle: string; end: string };
+
+	beforeAll(async () => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), "breached-passwords-"));
+		passwords = Array.from({ length: CORPUS_SIZE + 3 }, (_, i) => `password-${i}`).sort((a, b) =>
+			sha1Hex(a) < sha1Hex(b) ? -1 : 1,
+		);
+
+		// Leave the first, middle and last hash out so misses fall at every position
+		const middle = Math.floor(passwords.length / 2);
+		missing = { start: passwords[0], middle: passwords[middle], end: passwords[passwords.length - 1] };
+		passwords = passwords.filter((password) => !Object.values(missing).includes(password));
+
+		const wordlist = path.join(directory, "wordlist.txt");
+		// Each password appears once, the ones at the edges a few more times
+		const lines = [...passwords, passwords[0], passwords[0], passwords[passwords.length - 1]];
+		fs.writeFileSync(wordlist, `${lines.join("\n")}\n`);
+
+		corpus = path.join(directory, "corpus.txt");
+		const result = await buildBreachedPasswordCorpus([wordlist], corpus);
+		expect(result).toEqual({ passwords: lines.length, written: CORPUS_SIZE });
+	});
+
+	afterAll(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test("writes a sorted SHA1:COUNT corpus", () => {
+		const lines = fs.readFileSync(corpus, "utf8").trim().split("\n");
+		expect(lines).toHaveLength(CORPUS_SIZE);
+		expect(lines[0]).toBe(`${sha1Hex(passwords[0])}:3`);
+		expect(lines[lines.length - 1]).toBe(`${sha1Hex(passwords[passwords.length - 1])}:2`);
+		expect([...lines].sort()).toEqual(lines);
+	});
+
+	test("finds passwords at the start, middle and end of the corpus", async () => {
+		expect(await breachedPasswordCount(passwords[0], corpus)).toBe(3);
+		expect(await breachedPasswordCount(passwords[Math.floor(passwords.length / 2)], corpus)).toBe(1);
+		expect(await breachedPasswordCount(passwords[passwords.length - 1], corpus)).toBe(2);
+	});
+
+	test("finds every password in the corpus", async () => {
+		for (const password of passwords.filter((_, i) => i % 97 === 0)) {
+			expect(await breachedPasswordCount(password, corpus), password).toBeGreaterThan(0);
+		}
+	});
+
+	test("returns 0 for passwords missing at the start, middle and end", async () => {
+		expect(await breachedPasswordCount(missing.start, corpus)).toBe(0);
+		expect(await breachedPasswordCount(missing.middle, corpus)).toBe(0);
+		expect(await breachedPasswordCount(missing.end, corpus)).toBe(0);
+	});
+
+	test("merges corpora in SHA1:COUNT format", async () => {
+		const merged = path.join(directory, "merged.txt");
+		const extra = path.join(directory, "extra.txt");
+		fs.writeFileSync(extra, `${missing.middle}\n${sha1Hex(passwords[0]).toLowerCase()}:10\n`);
+
+		await buildBreachedPasswordCorpus([corpus, extra], merged);
+		expect(await breachedPasswordCount(passwords[0], merged)).toBe(13);
+		expect(await breachedPasswordCount(missing.middle, merged)).toBe(1);
+	});
+
+	test("returns null without a corpus file", async () => {
+		expect(await breachedPasswordCount("password", path.join(directory, "missing.txt"))).toBeNull();
+	});
+});
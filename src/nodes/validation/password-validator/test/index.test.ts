@@ -0,0 +1,58 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Context } from "@nanoservice-ts/shared";
+import { afterAll, beforeAll, describe, expect, test, vi } from "vitest";
+import { buildBreachedPasswordCorpus } from "../breached-passwords";
+import PasswordValidator from "../index";
+
+const BREACHED = "Sunshine#2024";
+const UNIQUE = "Velvet#Quarry7Lantern";
+
+// The inputs the password reset and change workflows pass
+const WORKFLOW_INPUTS = { minLength: 8, requireUppercase: true, requireLowercase: true, requireNumbers: true };
+
+function context(): Context {
+	return { vars: {}, logger: { log: vi.fn(), error: vi.fn() } } as unknown as Context;
+}
+
+describe("password validator", () => {
+	let directory: string;
+	const previousFile = process.env.BREACHED_PASSWORDS_FILE;
+
+	beforeAll(async () => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), "password-validator-"));
+		const wordlist = path.join(directory, "wordlist.txt");
+		fs.writeFileSync(wordlist, `${BREACHED}\n${BREACHED}\n`);
+
+		process.env.BREACHED_PASSWORDS_FILE = path.join(directory, "corpus.txt");
+		await buildBreachedPasswordCorpus([wordlist], process.env.BREACHED_PASSWORDS_FILE);
+	});
+
+	afterAll(() => {
+		if (previousFile === undefined) delete process.env.BREACHED_PASSWORDS_FILE;
+		else process.env.BREACHED_PASSWORDS_FILE = previousFile;
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test("refuses a breached password that meets every character rule", async () => {
+		const ctx = context();
+		await new PasswordValidator().handle(ctx, { password: BREACHED, ...WORKFLOW_INPUTS });
+
+		// The reset and change workflows only save the password when this is true
+		expect(ctx.vars?.isValidPassword).toBe(false);
+		expect(ctx.vars?.passwordValidation).toMatchObject({
+			breachCount: 2,
+			errors: ["Password has been seen 2 times in data breaches"],
+		});
+		expect(ctx.vars?.passwordScore).toBeLessThanOrEqual(10);
+	});
+
+	test("accepts a password missing from the corpus", async () => {
+		const ctx = context();
+		await new PasswordValidator().handle(ctx, { password: UNIQUE, ...WORKFLOW_INPUTS });
+
+		expect(ctx.vars?.isValidPassword).toBe(true);
+		expect(ctx.vars?.passwordValidation).toMatchObject({ breachCount: 0, errors: [] });
+	});
+});
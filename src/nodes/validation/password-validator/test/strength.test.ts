@@ -0,0 +1,48 @@
+import { describe, expect, test } from "vitest";
+import { estimatePasswordStrength } from "../strength";
+
+describe("estimatePasswordStrength", () => {
+	test("scores common passwords and their variants 0", () => {
+		for (const password of ["password", "123456", "qwertyuiop", "P@ssw0rd", "drowssap"]) {
+			const estimate = estimatePasswordStrength(password);
+			expect(estimate.score, password).toBe(0);
+			expect(estimate.sequence[0].pattern, password).toBe("dictionary");
+			expect(estimate.warning, password).toBe("This is a very common password");
+		}
+	});
+
+	test("recognizes l33t and reversed dictionary words", () => {
+		expect(estimatePasswordStrength("P@ssw0rd").sequence[0]).toMatchObject({ l33t: true });
+		expect(estimatePasswordStrength("drowssap").sequence[0]).toMatchObject({ reversed: true });
+	});
+
+	test("keeps repeats, sequences and dates weak", () => {
+		expect(estimatePasswordStrength("aaaaaaaaaa")).toMatchObject({ score: 0, sequence: [{ pattern: "repeat" }] });
+		expect(estimatePasswordStrength("abcdef123").score).toBeLessThanOrEqual(1);
+		expect(estimatePasswordStrength("abcdef123").sequence.map((match) => match.pattern)).toEqual([
+			"sequence",
+			"sequence",
+		]);
+		expect(estimatePasswordStrength("19051987")).toMatchObject({ score: 1, sequence: [{ pattern: "date" }] });
+	});
+
+	test("treats user inputs as a dictionary", () => {
+		const estimate = estimatePasswordStrength("jsmith2024", ["jsmith@example.com"]);
+		expect(estimate.score).toBeLessThanOrEqual(1);
+		expect(estimate.sequence[0]).toMatchObject({ pattern: "dictionary", dictionaryName: "user_inputs" });
+		expect(estimate.warning).toBe("Avoid your name, email or other personal details");
+	});
+
+	test("scores long and random passwords 4", () => {
+		for (const password of ["correct horse battery staple", "xK9#mQ2$vL7!pR4z", "Tr0ub4dour&3"]) {
+			const estimate = estimatePasswordStrength(password);
+			expect(estimate.score, password).toBe(4);
+			expect(estimate.guessesLog10, password).toBeGreaterThanOrEqual(10);
+			expect(estimate.warning, password).toBeNull();
+		}
+	});
+
+	test("gives an empty password the lowest score", () => {
+		expect(estimatePasswordStrength("")).toMatchObject({ score: 0, guesses: 1, sequence: [] });
+	});
+});
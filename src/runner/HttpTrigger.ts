@@ -13,7 +13,12 @@ import express, { type Express, type Request, type Response } from "express";
 import { v4 as uuid } from "uuid";
 import nodes from "../Nodes";
 import workflows from "../Workflows";
+import { trustProxySetting } from "../nodes/auth/sessions";
+import { settleRateLimits } from "../nodes/security/rate-limiter/outcome";
+import RequestInterceptor from "../nodes/security/request-interceptor";
 import MessageDecode from "./MessageDecode";
+import { RATE_LIMIT_HEADERS, getRateLimitResult, rateLimitExceededBody, setRateLimitHeaders } from "./RateLimitHeaders";
+import { enforceTriggerPolicy } from "./TriggerPolicy";
 import { handleDynamicRoute, validateRoute } from "./Util";
 import { metricsHandler } from "./metrics/opentelemetry_metrics";
 import NodeTypes from "./types/NodeTypes";
@@ -56,6 +61,8 @@ export default class HttpTrigger extends TriggerBase {
 
 	listen(): Promise<number> {
 		return new Promise((done) => {
+		// Only take the client address from X-Forwarded-For when it comes from a configured proxy
+		this.app.set("trust proxy", trustProxySetting());
 		this.app.use(express.static("public"));
 		this.app.use(bodyParser.text({ limit: "150mb" }));
 		this.app.use(bodyParser.urlencoded({ extended: true }));
@@ -83,10 +90,13 @@ export default class HttpTrigger extends TriggerBase {
 				}
 			},
 			credentials: true, // Allow cookies and credentials
+			exposedHeaders: RATE_LIMIT_HEADERS, // Let the frontend back off on rate limits
 			methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
 			allowedHeaders: [
 				'Content-Type', 
 				'Authorization', 
+				'X-API-Key',
+				'X-CSRF-Token',
 				'X-Requested-With',
 				'X-Blok-Navigation',
 				'X-Inertia',
@@ -141,6 +151,7 @@ export default class HttpTrigger extends TriggerBase {
 					description: "Workflow requests",
 				});
 
+				let ctx: Context | undefined;
 				await this.tracer.startActiveSpan(`${workflowNameInPath}`, async (span: Span) => {
 					try {
 						const start = performance.now();
@@ -189,7 +200,7 @@ export default class HttpTrigger extends TriggerBase {
 						}
 
 						await this.configuration.init(workflowNameInPath, this.nodeMap);
-						let ctx: Context = this.createContext(undefined, workflowNameInPath || req.params.workflow, id);
+						ctx = this.createContext(undefined, workflowNameInPath || req.params.workflow, id);
 						req.params = handleDynamicRoute(this.configuration.trigger.http.path, req);
 
 						ctx.logger.log(`Version: ${this.configuration.version}, Method: ${req.method}`);
@@ -200,6 +211,15 @@ export default class HttpTrigger extends TriggerBase {
 						if (!validateRoute(path, req.path)) throw new Error("Invalid HTTP path");
 
 						ctx.request = req as unknown as RequestContext;
+
+						// Declarative CSRF check, auth, roles and rate limits from the trigger config (401/403/429 before any step runs)
+						await enforceTriggerPolicy(
+							ctx,
+							workflowNameInPath,
+							this.configuration.trigger.http as unknown as Record<string, unknown>,
+							req,
+						);
+
 						const response: TriggerResponse = await this.run(ctx);
 						ctx = response.ctx;
 						const average = response.metrics;
@@ -227,17 +247,29 @@ export default class HttpTrigger extends TriggerBase {
 
 						res.setHeader("Content-Type", ctx.response.contentType);
 						
-						// Check for custom cookie header from workflow context
-						if (ctx.vars && ctx.vars.setCookieHeader && typeof ctx.vars.setCookieHeader === 'string') {
-							res.setHeader("Set-Cookie", ctx.vars.setCookieHeader);
+						// Check for custom cookie header(s) from workflow context
+						const setCookieHeader = ctx.vars?.setCookieHeader as unknown;
+						if (typeof setCookieHeader === 'string' || Array.isArray(setCookieHeader)) {
+							res.setHeader("Set-Cookie", setCookieHeader as string | string[]);
+						}
+
+						// Requests blocked by the rate-limiter node answer 429 even if the workflow didn't wire an error step
+						const rateLimit = getRateLimitResult(ctx);
+						if (rateLimit) setRateLimitHeaders(res, rateLimit);
+
+						if (rateLimit && !rateLimit.isAllowed) {
+							res.status(429).json(rateLimitExceededBody(rateLimit));
+						} else {
+							res.status(200).send(ctx.response.data);
 						}
-						
-						res.status(200).send(ctx.response.data);
 					} catch (e: unknown) {
 						span.setAttribute("success", false);
 						span.setAttribute("workflow_request_id", `${id}`);
 						span.recordException(e as Error);
 
+						const rateLimit = getRateLimitResult(ctx);
+						if (rateLimit) setRateLimitHeaders(res, rateLimit);
+
 						workflow_execution.add(0, {
 							env: process.env.NODE_ENV,
 							workflow_version: `${this.configuration?.version || "unknown"}`,
@@ -311,6 +343,20 @@ export default class HttpTrigger extends TriggerBase {
 						}
 						span.end();
 					}
+
+					// Refund rate limit hits for outcomes the workflow asked not to count
+					try {
+						await settleRateLimits(ctx, { statusCode: res.statusCode, body: ctx?.response?.data });
+					} catch (error) {
+						this.logger.error(`Failed to settle rate limits: ${(error as Error).message}`);
+					}
+
+					// Everything done while impersonating a user is recorded under the administrator's identity
+					try {
+						await RequestInterceptor.recordImpersonatedRequest(ctx, workflowNameInPath, res.statusCode);
+					} catch (error) {
+						this.logger.error(`Failed to record impersonated request: ${(error as Error).message}`);
+					}
 				});
 			});
 
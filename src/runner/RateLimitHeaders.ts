@@ -0,0 +1,54 @@
+import type { Context } from "@nanoservice-ts/shared";
+import type { Response } from "express";
+
+/**
+ * Rate limit result left in `ctx.vars.rateLimitInfo` by the `rate-limiter` node
+ */
+export type RateLimitResult = {
+	isAllowed: boolean;
+	maxRequests: number;
+	remainingRequests: number;
+	windowMs: number;
+	resetTime: string;
+	retryAfter?: number;
+};
+
+/**
+ * Headers browsers may read from cross-origin responses (CORS `exposedHeaders`)
+ */
+export const RATE_LIMIT_HEADERS = ["RateLimit-Limit", "RateLimit-Remaining", "RateLimit-Reset", "RateLimit-Policy", "Retry-After"];
+
+export function getRateLimitResult(ctx: Context | undefined): RateLimitResult | undefined {
+	const info = ctx?.vars?.rateLimitInfo as unknown as RateLimitResult | undefined;
+	if (!info || typeof info !== "object" || typeof info.isAllowed !== "boolean") return undefined;
+	return info;
+}
+
+/**
+ * Set the IETF `RateLimit-*` headers (draft-ietf-httpapi-ratelimit-headers)
+ * plus `Retry-After` when the request was blocked.
+ */
+export function setRateLimitHeaders(res: Response, info: RateLimitResult): void {
+	const resetSeconds = Math.max(0, Math.ceil((new Date(info.resetTime).getTime() - Date.now()) / 1000));
+
+	res.setHeader("RateLimit-Limit", String(info.maxRequests));
+	res.setHeader("RateLimit-Remaining", String(Math.max(0, info.remainingRequests)));
+	res.setHeader("RateLimit-Reset", String(resetSeconds));
+	res.setHeader("RateLimit-Policy", `${info.maxRequests};w=${Math.ceil(info.windowMs / 1000)}`);
+
+	if (!info.isAllowed) {
+		res.setHeader("Retry-After", String(info.retryAfter ?? resetSeconds));
+	}
+}
+
+/**
+ * JSON body for a request rejected by the rate limiter
+ */
+export function rateLimitExceededBody(info: RateLimitResult) {
+	return {
+		error: info.retryAfter
+			? `Rate limit exceeded. Try again in ${info.retryAfter} seconds`
+			: "Rate limit exceeded",
+		rateLimit: info,
+	};
+}
@@ -0,0 +1,235 @@
+import type { ParamsDictionary } from "@nanoservice-ts/runner";
+import { type Context, GlobalError } from "@nanoservice-ts/shared";
+import type { Request } from "express";
+import { requiresCsrfToken, verifyCsrfToken } from "../nodes/auth/csrf";
+import { EMAIL_NOT_VERIFIED_CODE, getEmailVerificationPolicy, isWorkflowAllowedUnverified } from "../nodes/auth/email-verification-policy";
+import { PASSWORD_EXPIRED_CODE, getPasswordMaxAgeDays, isWorkflowAllowedWithExpiredPassword } from "../nodes/auth/passwords";
+import { missingPermissions } from "../nodes/auth/permissions";
+import { authenticateRequest, hasRequestCredentials } from "../nodes/auth/request-auth";
+import { type SessionAuthResult, clientIp, setAuthVars } from "../nodes/auth/sessions";
+import { RATE_LIMIT_ALGORITHMS, type RateLimitAlgorithmName, type RateLimitHit } from "../nodes/security/rate-limiter/algorithms";
+import { queuePendingRateLimit } from "../nodes/security/rate-limiter/outcome";
+import { type RateLimitStoreName, getRateLimitStore } from "../nodes/security/rate-limiter/store";
+import { type RateLimitResult, rateLimitExceededBody } from "./RateLimitHeaders";
+
+/**
+ * Declarative access control for HTTP workflows
+ *
+ * Declared next to the method and path in `addTrigger("http", { ... })`:
+ *
+ *   .addTrigger("http", {
+ *     method: "GET",
+ *     path: "/",
+ *     accept: "application/json",
+ *     auth: "required",
+ *     permissions: ["logs:read"],
+ *     rateLimit: { windowMs: 60000, maxRequests: 60 },
+ *   })
+ *
+ * The HTTP trigger enforces the policy before the first step runs and answers
+ * 401, 403 or 429 on its own, so workflows no longer need an
+ * `authentication-checker` step and an if-else around every branch.
+ * Prefer `permissions` (see src/nodes/auth/permissions.ts) over `roles`, so
+ * custom roles granted the permission get access too.
+ *
+ * Mutating requests sent with an auth cookie must also carry the CSRF token
+ * (403 otherwise) unless the trigger opts out with `csrf: false`, e.g. for
+ * endpoints called cross-site by design.
+ *
+ * With `EMAIL_VERIFICATION_POLICY=restrict`, credentials of users whose email is
+ * not verified are only accepted by the allowed workflows (see
+ * src/nodes/auth/email-verification-policy.ts), whatever the trigger declares.
+ * Likewise, with `PASSWORD_MAX_AGE_DAYS` set, sessions of users whose password
+ * expired only reach the workflows that let them change it (see
+ * src/nodes/auth/passwords.ts).
+ */
+
+/**
+ * - `"required"` / `true`: reject requests without a valid session or API key (401)
+ * - `"optional"`: resolve the session or API key when present, never reject
+ */
+export type HttpTriggerAuth = boolean | "required" | "optional";
+
+export type HttpTriggerRateLimit = {
+	windowMs: number;
+	maxRequests: number;
+	algorithm?: RateLimitAlgorithmName;
+	store?: RateLimitStoreName;
+	keyBy?: "ip" | "user"; // "user" falls back to the IP for anonymous requests (default: "ip")
+	skipSuccessfulRequests?: boolean;
+	skipFailedRequests?: boolean;
+};
+
+export type HttpTriggerPolicy = {
+	auth?: HttpTriggerAuth;
+	roles?: string[]; // Implies auth: "required"; matched case-insensitively against the user's role
+	permissions?: string[]; // Implies auth: "required"; the user's role must grant every one of them
+	rateLimit?: HttpTriggerRateLimit;
+	csrf?: boolean; // false skips the CSRF token check (default: true)
+};
+
+/**
+ * Normalize the policy fields of an HTTP trigger configuration
+ */
+export function getTriggerPolicy(trigger: Record<string, unknown> | undefined): HttpTriggerPolicy {
+	if (!trigger) return {};
+	const { auth, roles, permissions, rateLimit, csrf } = trigger as HttpTriggerPolicy;
+	return {
+		auth,
+		roles: Array.isArray(roles) && roles.length > 0 ? roles : undefined,
+		permissions: Array.isArray(permissions) && permissions.length > 0 ? permissions : undefined,
+		rateLimit: rateLimit && typeof rateLimit === "object" ? rateLimit : undefined,
+		csrf: csrf !== false,
+	};
+}
+
+export function requiresAuthentication(policy: HttpTriggerPolicy): boolean {
+	return (
+		policy.auth === true ||
+		policy.auth === "required" ||
+		policy.roles !== undefined ||
+		policy.permissions !== undefined
+	);
+}
+
+export function hasRole(role: string | undefined, roles: string[]): boolean {
+	if (!role) return false;
+	return roles.some((allowed) => allowed.toUpperCase() === role.toUpperCase());
+}
+
+function policyError(message: string, code: number, json?: unknown): GlobalError {
+	const error = new GlobalError(message);
+	error.setCode(code);
+	error.setName("trigger-policy");
+	if (json !== undefined) error.setJson(json as ParamsDictionary);
+	return error;
+}
+
+async function consumeRateLimit(
+	ctx: Context,
+	workflow: string,
+	identifier: string,
+	rateLimit: HttpTriggerRateLimit,
+): Promise<RateLimitResult> {
+	const algorithmName =
+		rateLimit.algorithm || (process.env.RATE_LIMIT_ALGORITHM as RateLimitAlgorithmName) || "sliding-window-counter";
+	const algorithm = RATE_LIMIT_ALGORITHMS[algorithmName];
+	if (!algorithm) throw new Error(`Unsupported rate limit algorithm: ${algorithmName}`);
+
+	const storeName = rateLimit.store || (process.env.RATE_LIMIT_STORE as RateLimitStoreName) || "memory";
+	const rule = { windowMs: rateLimit.windowMs, maxRequests: rateLimit.maxRequests };
+	const key = `rate_limit:trigger:${workflow}:${algorithmName}:${identifier}`;
+
+	const hit: RateLimitHit = await getRateLimitStore(storeName).update(key, (state) => {
+		const result = algorithm.hit(state, rule, Date.now());
+		return { state: result.state, expiresAt: result.expiresAt, result };
+	});
+
+	if (hit.receipt && (rateLimit.skipSuccessfulRequests || rateLimit.skipFailedRequests)) {
+		queuePendingRateLimit(ctx, {
+			key,
+			store: storeName,
+			algorithm: algorithmName,
+			rule,
+			receipt: hit.receipt,
+			skipSuccessfulRequests: rateLimit.skipSuccessfulRequests === true,
+			skipFailedRequests: rateLimit.skipFailedRequests === true,
+		});
+	}
+
+	const info: RateLimitResult = {
+		isAllowed: hit.decision.isAllowed,
+		maxRequests: rule.maxRequests,
+		remainingRequests: hit.decision.remainingRequests,
+		windowMs: rule.windowMs,
+		resetTime: new Date(hit.decision.resetTime).toISOString(),
+		retryAfter: hit.decision.retryAfter,
+	};
+
+	// Same variables as the rate-limiter node, so the trigger sets the RateLimit-* headers
+	ctx.vars.rateLimitInfo = info as unknown as ParamsDictionary;
+	ctx.vars.isRateLimited = !info.isAllowed as unknown as ParamsDictionary;
+	ctx.vars.remainingRequests = info.remainingRequests as unknown as ParamsDictionary;
+
+	return info;
+}
+
+/**
+ * Enforce the trigger policy of `workflow` for `req`.
+ * Throws a GlobalError carrying the 401 / 403 / 429 status when the request is rejected.
+ */
+export async function enforceTriggerPolicy(
+	ctx: Context,
+	workflow: string,
+	trigger: Record<string, unknown> | undefined,
+	req: Request,
+): Promise<void> {
+	const policy = getTriggerPolicy(trigger);
+
+	if (policy.csrf && requiresCsrfToken(req.method, req.cookies) && !verifyCsrfToken(req.headers, req.cookies)) {
+		throw policyError("Invalid or missing CSRF token", 403, {
+			error: "Invalid or missing CSRF token",
+			code: "CSRF_TOKEN_INVALID",
+		});
+	}
+
+	const authRequired = requiresAuthentication(policy);
+	const checkVerification =
+		(getEmailVerificationPolicy() === "restrict" || getPasswordMaxAgeDays() > 0) && hasRequestCredentials(req);
+	if (!authRequired && !policy.auth && !policy.rateLimit && !checkVerification) return;
+
+	if (ctx.vars === undefined) ctx.vars = {};
+
+	// Resolve the session first (without rejecting) so rate limits can be keyed by user
+	let auth: SessionAuthResult | undefined;
+	if (authRequired || policy.auth === "optional" || policy.rateLimit?.keyBy === "user" || checkVerification) {
+		auth = await authenticateRequest({
+			method: req.method,
+			path: req.originalUrl?.split("?")[0] || req.path,
+			headers: req.headers,
+			cookies: req.cookies,
+			ipAddress: clientIp(req),
+		});
+		setAuthVars(ctx, auth);
+	}
+
+	if (policy.rateLimit) {
+		const identifier =
+			policy.rateLimit.keyBy === "user" && auth?.user ? `user:${auth.user.id}` : `ip:${clientIp(req)}`;
+		const info = await consumeRateLimit(ctx, workflow, identifier, policy.rateLimit);
+		if (!info.isAllowed) {
+			throw policyError("Rate limit exceeded", 429, rateLimitExceededBody(info));
+		}
+	}
+
+	if (auth?.isAuthenticated && auth.user && !isWorkflowAllowedUnverified(workflow, auth.user.emailVerified)) {
+		throw policyError("Please verify your email address to continue", 403, {
+			error: "Please verify your email address to continue",
+			code: EMAIL_NOT_VERIFIED_CODE,
+		});
+	}
+
+	if (auth?.isAuthenticated && !isWorkflowAllowedWithExpiredPassword(workflow, auth.user?.passwordExpired)) {
+		throw policyError("Your password has expired. Please choose a new one to continue", 403, {
+			error: "Your password has expired. Please choose a new one to continue",
+			code: PASSWORD_EXPIRED_CODE,
+		});
+	}
+
+	if (!authRequired) return;
+
+	if (!auth?.isAuthenticated) {
+		throw policyError(auth?.message || "Authentication required", auth?.statusCode === 403 ? 403 : 401);
+	}
+
+	if (policy.roles && !hasRole(auth.user?.role, policy.roles)) {
+		throw policyError("Insufficient permissions", 403);
+	}
+
+	if (policy.permissions) {
+		const missing = missingPermissions(auth.user?.permissions ?? [], policy.permissions);
+		if (missing.length > 0) {
+			throw policyError("Insufficient permissions", 403, { error: "Insufficient permissions", missingPermissions: missing });
+		}
+	}
+}
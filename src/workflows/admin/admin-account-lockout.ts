@@ -0,0 +1,37 @@
+import { type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * Admin Account Lockout Workflow
+ *
+ * Lets administrators see which accounts are locked after repeated failed
+ * logins and unlock them before the lockout expires:
+ * - list: currently locked accounts
+ * - unlock: clear the lockout and failure counters of a user
+ *
+ * Endpoint: POST /api/admin-account-lockout
+ * Required: users:unlock permission
+ * Body: { action: "list" | "unlock", userId? }
+ */
+const step: Step = Workflow({
+  name: "Admin Account Lockout API",
+  version: "1.0.0",
+  description: "List and unlock accounts locked after failed logins (admin only)",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+  auth: "required",
+  permissions: ["users:unlock"],
+})
+.addStep({
+  name: "manage-account-lockout",
+  node: "account-lockout",
+  type: "module",
+  inputs: {
+    action: "js/ctx.request.body.action === 'unlock' ? 'unlock' : 'list'",
+    userId: "js/ctx.request.body.userId",
+  },
+});
+
+export default step;
@@ -0,0 +1,38 @@
+import { type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * Admin Disposable Domains Workflow
+ *
+ * Lets administrators see the disposable email domain list that
+ * email-validator rejects and refresh it without a restart:
+ * - status: where the list was loaded from and how many domains it has
+ * - refresh: reload the file, downloading it first when a URL is given or
+ *   DISPOSABLE_EMAIL_DOMAINS_URL is set
+ *
+ * Endpoint: POST /api/admin-disposable-domains
+ * Required: email-domains:manage permission
+ * Body: { action: "status" | "refresh", url? }
+ */
+const step: Step = Workflow({
+  name: "Admin Disposable Domains API",
+  version: "1.0.0",
+  description: "View and refresh the disposable email domain list (admin only)",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+  auth: "required",
+  permissions: ["email-domains:manage"],
+})
+.addStep({
+  name: "manage-disposable-domains",
+  node: "disposable-domains",
+  type: "module",
+  inputs: {
+    action: "js/ctx.request.body.action === 'refresh' ? 'refresh' : 'status'",
+    url: "js/ctx.request.body.url",
+  },
+});
+
+export default step;
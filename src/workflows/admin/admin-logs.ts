@@ -105,7 +105,7 @@ export interface AdminLogsOutput {
  * Provides comprehensive blame tracking and audit trail capabilities.
  * 
  * Endpoint: GET/POST /api/admin-logs
- * Required: Admin authentication
+ * Required: logs:read permission (logs:export to export, logs:cleanup to clean up)
  * 
  * Supported operations:
  * - Query system logs with advanced filtering
@@ -138,30 +138,19 @@ const step: Step = Workflow({
   method: "ANY",
   path: "/",
   accept: "application/json",
-})
-.addStep({
-  name: "check-auth",
-  node: "authentication-checker",
-  type: "module",
-  inputs: {
-    requireAuth: true,
-    requestMethod: "js/ctx.request.method",
-    requestPath: "js/ctx.request.path", 
-    headers: "js/ctx.request.headers || {}",
-    cookies: "js/ctx.request.cookies || {}",
-    sessionDurationHours: 1,
-  },
+  auth: "required",
+  permissions: ["logs:read"],
 })
 .addCondition({
   node: {
-    name: "auth-result-handler",
+    name: "action-handler",
     node: "@nanoservice-ts/if-else",
     type: "module",
   },
   conditions: () => {
     return [
       // Admin GET request - Query logs with URL parameters
-      new AddIf('ctx.vars.isAuthenticated === true && ctx.vars.currentUser.role === "ADMIN" && ctx.request.method.toLowerCase() === "get"')
+      new AddIf('ctx.request.method.toLowerCase() === "get"')
         .addStep({
           name: "query-system-logs-get",
           node: "system-action-logger",
@@ -182,7 +171,7 @@ const step: Step = Workflow({
         .build(),
 
       // Admin POST request with query action
-      new AddIf('ctx.vars.isAuthenticated === true && ctx.vars.currentUser.role === "ADMIN" && ctx.request.method.toLowerCase() === "post" && (ctx.request.body.action === "query" || !ctx.request.body.action)')
+      new AddIf('ctx.request.method.toLowerCase() === "post" && (ctx.request.body.action === "query" || !ctx.request.body.action)')
         .addStep({
           name: "query-system-logs-post",
           node: "system-action-logger",
@@ -202,7 +191,7 @@ const step: Step = Workflow({
         .build(),
 
       // Admin POST request with getStats action
-      new AddIf('ctx.vars.isAuthenticated === true && ctx.vars.currentUser.role === "ADMIN" && ctx.request.method.toLowerCase() === "post" && ctx.request.body.action === "getStats"')
+      new AddIf('ctx.request.method.toLowerCase() === "post" && ctx.request.body.action === "getStats"')
         .addStep({
           name: "get-system-log-stats",
           node: "system-action-logger",
@@ -215,7 +204,7 @@ const step: Step = Workflow({
         .build(),
 
       // Admin POST request with export action
-      new AddIf('ctx.vars.isAuthenticated === true && ctx.vars.currentUser.role === "ADMIN" && ctx.request.method.toLowerCase() === "post" && ctx.request.body.action === "export"')
+      new AddIf('ctx.vars.currentUser.permissions?.includes("logs:export") && ctx.request.method.toLowerCase() === "post" && ctx.request.body.action === "export"')
         .addStep({
           name: "export-system-logs",
           node: "system-action-logger",
@@ -236,7 +225,7 @@ const step: Step = Workflow({
         .build(),
 
       // Admin POST request with cleanup action
-      new AddIf('ctx.vars.isAuthenticated === true && ctx.vars.currentUser.role === "ADMIN" && ctx.request.method.toLowerCase() === "post" && ctx.request.body.action === "cleanup"')
+      new AddIf('ctx.vars.currentUser.permissions?.includes("logs:cleanup") && ctx.request.method.toLowerCase() === "post" && ctx.request.body.action === "cleanup"')
         .addStep({
           name: "cleanup-system-logs",
           node: "system-action-logger",
@@ -247,41 +236,41 @@ const step: Step = Workflow({
         })
         .build(),
 
-      // Invalid action for admin POST request
-      new AddIf('ctx.vars.isAuthenticated === true && ctx.vars.currentUser.role === "ADMIN" && ctx.request.method.toLowerCase() === "post" && ctx.request.body.action && !["query", "getStats", "export", "cleanup"].includes(ctx.request.body.action)')
+      // Export or cleanup without the matching permission
+      new AddIf('ctx.request.method.toLowerCase() === "post" && ["export", "cleanup"].includes(ctx.request.body.action)')
         .addStep({
-          name: "invalid-action-error",
+          name: "forbidden-action-error",
           node: "error",
           type: "module",
           inputs: {
-            message: "js/'Invalid action. Supported actions: query, getStats, export, cleanup'",
-            statusCode: "js/400",
+            message: "js/`The logs:${ctx.request.body.action} permission is required for this action`",
+            statusCode: "js/403",
           },
         })
         .build(),
 
-      // Unsupported HTTP method for admin
-      new AddIf('ctx.vars.isAuthenticated === true && ctx.vars.currentUser.role === "ADMIN" && !["get", "post"].includes(ctx.request.method.toLowerCase())')
+      // Invalid action for admin POST request
+      new AddIf('ctx.request.method.toLowerCase() === "post" && ctx.request.body.action && !["query", "getStats", "export", "cleanup"].includes(ctx.request.body.action)')
         .addStep({
-          name: "method-not-allowed",
+          name: "invalid-action-error",
           node: "error",
           type: "module",
           inputs: {
-            message: "js/'Method not allowed. Supported methods: GET, POST'",
-            statusCode: "js/405",
+            message: "js/'Invalid action. Supported actions: query, getStats, export, cleanup'",
+            statusCode: "js/400",
           },
         })
         .build(),
-      
-      // Unauthorized response for non-admin or unauthenticated users
+
+      // Unsupported HTTP method
       new AddElse()
         .addStep({
-          name: "unauthorized-response",
+          name: "method-not-allowed",
           node: "error",
           type: "module",
           inputs: {
-            message: "js/'Unauthorized. Admin access required for system logs.'",
-            statusCode: "js/403",
+            message: "js/'Method not allowed. Supported methods: GET, POST'",
+            statusCode: "js/405",
           },
         })
         .build(),
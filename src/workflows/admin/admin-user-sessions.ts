@@ -0,0 +1,37 @@
+import { type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * Admin User Sessions Workflow
+ *
+ * Lets administrators inspect and kill the sessions of any user,
+ * e.g. after a suspected account compromise:
+ * - list: the user's active sessions
+ * - revoke-all: sign the user out everywhere
+ *
+ * Endpoint: POST /api/admin-user-sessions
+ * Required: users:sessions permission
+ * Body: { action: "list" | "revoke-all", userId }
+ */
+const step: Step = Workflow({
+  name: "Admin User Sessions API",
+  version: "1.0.0",
+  description: "List and revoke any user's sessions (admin only)",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+  auth: "required",
+  permissions: ["users:sessions"],
+})
+.addStep({
+  name: "manage-user-sessions",
+  node: "session-manager",
+  type: "module",
+  inputs: {
+    action: "js/ctx.request.body.action === 'revoke-all' ? 'revoke-user' : 'list-user'",
+    userId: "js/ctx.request.body.userId",
+  },
+});
+
+export default step;
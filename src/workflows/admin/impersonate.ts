@@ -0,0 +1,40 @@
+import { type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * Impersonate Workflow
+ *
+ * Lets support staff sign in as a user to see exactly what they see:
+ * - start: switch the session cookie to an impersonation session of `userId`
+ *   (users:impersonate permission, checked by the node)
+ * - stop: end the impersonation and return to the administrator's own session
+ *   (called from the impersonation session, hence no trigger-level permission)
+ *
+ * Start and stop are audited; requests in between are recorded by the request
+ * interceptor under the administrator's identity.
+ *
+ * Endpoint: POST /api/impersonate
+ * Body: { action: "start" | "stop", userId?, reason? }
+ */
+const step: Step = Workflow({
+  name: "Impersonate API",
+  version: "1.0.0",
+  description: "Sign in as another user and return to your own account (admin only)",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+  auth: "required",
+})
+.addStep({
+  name: "manage-impersonation",
+  node: "impersonation-manager",
+  type: "module",
+  inputs: {
+    action: "js/ctx.request.body.action === 'stop' ? 'stop' : 'start'",
+    userId: "js/ctx.request.body.userId",
+    reason: "js/ctx.request.body.reason",
+  },
+});
+
+export default step;
@@ -0,0 +1,103 @@
+import { type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * Invitations Workflow
+ *
+ * Invite-based onboarding for administrators (Users page):
+ * - list: pending and expired invitations of the active organization
+ * - create: invite an email address with a role and send the invite email
+ * - resend: send a new link (the previous one stops working)
+ * - revoke: cancel a pending invitation
+ *
+ * Invitees accept through /api/invitation-accept (the /accept-invite page).
+ *
+ * Endpoint: POST /api/invitations
+ * Required: users:create permission (roles:manage to invite with a role other than USER)
+ * Body: { action: "list" | "create" | "resend" | "revoke", email?, name?, role?, invitationId?, siteName? }
+ */
+const step: Step = Workflow({
+  name: "Invitations API",
+  version: "1.0.0",
+  description: "Invite users by email and manage pending invitations (admin only)",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+  auth: "required",
+  permissions: ["users:create"],
+})
+.addStep({
+  name: "manage-invitations",
+  node: "invitation-manager",
+  type: "module",
+  inputs: {
+    action: "js/['list', 'create', 'resend', 'revoke'].includes(ctx.request.body.action) ? ctx.request.body.action : 'list'",
+    email: "js/ctx.request.body.email",
+    name: "js/ctx.request.body.name",
+    role: "js/ctx.request.body.role",
+    invitationId: "js/ctx.request.body.invitationId",
+  },
+})
+.addStep({
+  name: "send-invitation",
+  node: "@nanoservice-ts/if-else",
+  type: "module",
+  inputs: {
+    conditions: [
+      {
+        type: "if",
+        condition: "ctx.vars.invitationEmail !== undefined",
+        steps: [
+          {
+            name: "create-invitation-email",
+            node: "email-templates",
+            type: "module",
+            inputs: {
+              template: "invitation",
+              data: {
+                userName: "js/ctx.vars.invitationEmail.name",
+                inviterName: "js/ctx.vars.invitationEmail.inviterName",
+                organizationName: "js/ctx.vars.invitationEmail.organizationName",
+                role: "js/ctx.vars.invitationEmail.role",
+                inviteUrl: "js/ctx.vars.invitationEmail.url",
+                siteName: "js/ctx.request.body.siteName || 'Blok Admin'",
+                expirationDays: "js/ctx.vars.invitationEmail.expirationDays",
+              },
+              format: "both",
+            },
+          },
+          {
+            name: "send-invitation-email",
+            node: "email-service-manager",
+            type: "module",
+            inputs: {
+              operation: "send",
+              email: {
+                to: "js/ctx.vars.invitationEmail.email",
+                subject: "js/ctx.vars.emailTemplate.subject",
+                html: "js/ctx.vars.emailTemplate.html",
+                text: "js/ctx.vars.emailTemplate.text",
+              },
+            },
+          },
+        ],
+      },
+    ],
+  },
+})
+.addStep({
+  name: "return-invitation-result",
+  node: "mapper",
+  type: "module",
+  inputs: {
+    model: {
+      success: "js/ctx.vars.invitationResult.success",
+      message: "js/ctx.vars.invitationResult.message",
+      invitation: "js/ctx.vars.invitationResult.invitation",
+      invitations: "js/ctx.vars.invitationResult.invitations",
+    },
+  },
+});
+
+export default step;
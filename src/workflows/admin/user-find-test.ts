@@ -9,6 +9,7 @@ const step: Step = Workflow({
   method: "GET",
   path: "/",
   accept: "application/json",
+  permissions: ["users:read"],
 })
 .addStep({
   name: "find-user",
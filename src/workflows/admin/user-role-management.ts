@@ -7,10 +7,12 @@ import { AddElse, AddIf, type Step, Workflow } from "@nanoservice-ts/helper";
  * - Single user role updates
  * - Bulk role updates for multiple users
  * - Role statistics and reporting
+ * - Custom roles and their permissions (listRoles, createRole, editRole, deleteRole)
  * 
  * Endpoint: POST /api/user-role-management
- * Required: Admin authentication
- * Body: { action: string, userId?: string, userIds?: string[], newRole?: string }
+ * Required: roles:manage permission (roles:read for read-only actions)
+ * Body: { action: string, userId?: string, userIds?: string[], newRole?: string,
+ *         roleName?: string, description?: string, permissions?: string[] }
  */
 const step: Step = Workflow({
   name: "User Role Management API",
@@ -32,7 +34,7 @@ const step: Step = Workflow({
     actionType: "UPDATE",
     resourceType: "role",
     resourceId: "js/ctx.request.body.userId || ctx.request.body.userIds",
-    resourceName: "js/ctx.request.body.newRole",
+    resourceName: "js/ctx.request.body.newRole || ctx.request.body.roleName",
     riskLevel: "critical", // Role changes are critical risk
   },
 })
@@ -51,8 +53,8 @@ const step: Step = Workflow({
   },
   conditions: () => {
     return [
-      // Check if user is authenticated and is an admin
-      new AddIf('ctx.vars.isAuthenticated === true && ctx.vars.currentUser.role === "ADMIN"')
+      // Check if user is authenticated and may view or manage roles (the node checks the action)
+      new AddIf('ctx.vars.isAuthenticated === true && (ctx.vars.currentUser.permissions?.includes("roles:read") || ctx.vars.currentUser.permissions?.includes("roles:manage"))')
         .addStep({
           name: "manage-roles",
           node: "user-role-manager",
@@ -62,6 +64,9 @@ const step: Step = Workflow({
             userId: "js/ctx.request.body.userId",
             userIds: "js/ctx.request.body.userIds",
             newRole: "js/ctx.request.body.newRole",
+            roleName: "js/ctx.request.body.roleName",
+            description: "js/ctx.request.body.description",
+            permissions: "js/ctx.request.body.permissions",
             currentUserId: "js/ctx.vars.currentUser.id",
           },
         })
@@ -75,7 +80,7 @@ const step: Step = Workflow({
             actionType: "UPDATE",
             resourceType: "role",
             resourceId: "js/ctx.request.body.userId || ctx.request.body.userIds",
-            resourceName: "js/ctx.request.body.newRole",
+            resourceName: "js/ctx.request.body.newRole || ctx.request.body.roleName",
             riskLevel: "critical",
             contextData: {
               httpMethod: "POST",
@@ -86,7 +91,7 @@ const step: Step = Workflow({
               userEmail: "js/ctx.vars.currentUser.email",
               userName: "js/ctx.vars.currentUser.name",
               userRole: "js/ctx.vars.currentUser.role",
-              ipAddress: "js/ctx.request.headers['x-forwarded-for'] || ctx.request.connection?.remoteAddress || 'unknown'",
+              ipAddress: "js/ctx.request.ip || 'unknown'",
               userAgent: "js/ctx.request.headers['user-agent']",
               requestBody: "js/ctx.request.body",
               responseData: "js/ctx.response?.data",
@@ -95,14 +100,14 @@ const step: Step = Workflow({
         })
         .build(),
       
-      // Check if user is authenticated but not admin
-      new AddIf('ctx.vars.isAuthenticated === true && ctx.vars.currentUser.role !== "admin"')
+      // Check if user is authenticated without role permissions
+      new AddIf('ctx.vars.isAuthenticated === true')
         .addStep({
           name: "forbidden-response",
           node: "@nanoservice-ts/api-call",
           type: "module",
           inputs: {
-            url: "data:application/json;base64,eyJzdWNjZXNzIjpmYWxzZSwibWVzc2FnZSI6IkZvcmJpZGRlbi4gT25seSBhZG1pbnMgY2FuIG1hbmFnZSB1c2VyIHJvbGVzLiIsInN0YXR1c0NvZGUiOjQwM30=",
+            url: "data:application/json;base64,eyJzdWNjZXNzIjpmYWxzZSwibWVzc2FnZSI6IkZvcmJpZGRlbi4gVGhlIHJvbGVzOnJlYWQgb3Igcm9sZXM6bWFuYWdlIHBlcm1pc3Npb24gaXMgcmVxdWlyZWQuIiwic3RhdHVzQ29kZSI6NDAzfQ==",
             method: "GET",
             headers: {
               "Content-Type": "application/json",
@@ -119,19 +124,19 @@ const step: Step = Workflow({
             actionType: "UPDATE",
             resourceType: "role",
             resourceId: "js/ctx.request.body.userId || ctx.request.body.userIds",
-            resourceName: "js/ctx.request.body.newRole",
+            resourceName: "js/ctx.request.body.newRole || ctx.request.body.roleName",
             riskLevel: "critical",
             contextData: {
               httpMethod: "POST",
               endpoint: "/api/user-role-management",
               success: false,
               statusCode: 403,
-              errorMessage: "Forbidden. Only admins can manage user roles.",
+              errorMessage: "Forbidden. The roles:read or roles:manage permission is required.",
               userId: "js/ctx.vars.currentUser.id",
               userEmail: "js/ctx.vars.currentUser.email",
               userName: "js/ctx.vars.currentUser.name",
               userRole: "js/ctx.vars.currentUser.role",
-              ipAddress: "js/ctx.request.headers['x-forwarded-for'] || ctx.request.connection?.remoteAddress || 'unknown'",
+              ipAddress: "js/ctx.request.ip || 'unknown'",
               userAgent: "js/ctx.request.headers['user-agent']",
               requestBody: "js/ctx.request.body",
             },
@@ -163,7 +168,7 @@ const step: Step = Workflow({
             actionType: "UPDATE",
             resourceType: "role",
             resourceId: "js/ctx.request.body.userId || ctx.request.body.userIds",
-            resourceName: "js/ctx.request.body.newRole",
+            resourceName: "js/ctx.request.body.newRole || ctx.request.body.roleName",
             riskLevel: "critical",
             contextData: {
               httpMethod: "POST",
@@ -175,7 +180,7 @@ const step: Step = Workflow({
               userEmail: "anonymous@unknown",
               userName: "Anonymous",
               userRole: "none",
-              ipAddress: "js/ctx.request.headers['x-forwarded-for'] || ctx.request.connection?.remoteAddress || 'unknown'",
+              ipAddress: "js/ctx.request.ip || 'unknown'",
               userAgent: "js/ctx.request.headers['user-agent']",
               requestBody: "js/ctx.request.body",
             },
@@ -0,0 +1,106 @@
+import { AddElse, AddIf, type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * Invitation Accept Workflow
+ *
+ * Backs the public /accept-invite page:
+ * - preview: who sent the invitation, for which email and role
+ * - accept: create the account with the invitee's own name and password
+ *
+ * Endpoint: POST /api/invitation-accept
+ * Body: { action: "preview" | "accept", token: string, name?, password? }
+ */
+const step: Step = Workflow({
+  name: "Invitation Accept API",
+  version: "1.0.0",
+  description: "Preview and accept an invitation to create an account",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+  rateLimit: {
+    windowMs: 900000, // 15 minutes
+    maxRequests: 20,
+    keyBy: "ip",
+  },
+})
+.addCondition({
+  node: {
+    name: "action-router",
+    node: "@nanoservice-ts/if-else",
+    type: "module",
+  },
+  conditions: () => {
+    return [
+      new AddIf('ctx.request.body.action === "accept"')
+        .addStep({
+          name: "validate-password",
+          node: "password-validator",
+          type: "module",
+          inputs: {
+            password: "js/ctx.request.body.password",
+            minLength: 8,
+            requireUppercase: true,
+            requireLowercase: true,
+            requireNumbers: true,
+          },
+        })
+        .addStep({
+          name: "process-acceptance",
+          node: "@nanoservice-ts/if-else",
+          type: "module",
+          inputs: {
+            conditions: [
+              {
+                type: "if",
+                condition: "ctx.vars.isValidPassword === true",
+                steps: [
+                  {
+                    name: "accept-invitation",
+                    node: "invitation-accept",
+                    type: "module",
+                    inputs: {
+                      action: "accept",
+                      token: "js/ctx.request.body.token || ''",
+                      name: "js/ctx.request.body.name",
+                      password: "js/ctx.request.body.password",
+                    },
+                  },
+                ],
+              },
+              {
+                type: "else",
+                steps: [
+                  {
+                    name: "weak-password",
+                    node: "error",
+                    type: "module",
+                    inputs: {
+                      message: "js/ctx.vars.passwordValidation?.errors?.join('. ') || 'Password does not meet the requirements'",
+                      statusCode: 400,
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        })
+        .build(),
+
+      new AddElse()
+        .addStep({
+          name: "preview-invitation",
+          node: "invitation-accept",
+          type: "module",
+          inputs: {
+            action: "preview",
+            token: "js/ctx.request.body.token || ''",
+          },
+        })
+        .build(),
+    ];
+  },
+});
+
+export default step;
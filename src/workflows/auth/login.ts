@@ -27,7 +27,71 @@ const step: Step = Workflow({
           inputs: {
             email: "js/ctx.request.body.email",
             password: "js/ctx.request.body.password",
-            sessionDurationHours: "js/ctx.request.body.sessionDurationHours || 1",
+            sessionDurationHours: "js/ctx.request.body.sessionDurationHours",
+          },
+        })
+        .addStep({
+          name: "notify-account-locked",
+          node: "@nanoservice-ts/if-else",
+          type: "module",
+          inputs: {
+            conditions: [
+              {
+                type: "if",
+                condition: "ctx.vars.accountLockedNotice !== undefined",
+                steps: [
+                  {
+                    name: "create-account-locked-email",
+                    node: "email-templates",
+                    type: "module",
+                    inputs: {
+                      template: "accountLocked",
+                      data: {
+                        userName: "js/ctx.vars.accountLockedNotice.userName",
+                        siteName: "js/ctx.request.body.siteName || 'Blok Admin'",
+                        lockReason: "js/ctx.vars.accountLockedNotice.lockReason",
+                      },
+                      format: "both",
+                    },
+                  },
+                  {
+                    name: "send-account-locked-email",
+                    node: "email-service-manager",
+                    type: "module",
+                    inputs: {
+                      operation: "send",
+                      email: {
+                        to: "js/ctx.vars.accountLockedNotice.email",
+                        subject: "js/ctx.vars.emailTemplate.subject",
+                        html: "js/ctx.vars.emailTemplate.html",
+                        text: "js/ctx.vars.emailTemplate.text",
+                      },
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        })
+        .addStep({
+          name: "return-login-result",
+          node: "mapper",
+          type: "module",
+          inputs: {
+            model: {
+              success: "js/ctx.vars.loginResult.success",
+              user: "js/ctx.vars.loginResult.user",
+              session: "js/ctx.vars.loginResult.session",
+              twoFactorRequired: "js/ctx.vars.loginResult.twoFactorRequired",
+              challengeToken: "js/ctx.vars.loginResult.challengeToken",
+              challengeExpiresAt: "js/ctx.vars.loginResult.challengeExpiresAt",
+              lockedUntil: "js/ctx.vars.loginResult.lockedUntil",
+              retryAfter: "js/ctx.vars.loginResult.retryAfter",
+              emailVerificationRequired: "js/ctx.vars.loginResult.emailVerificationRequired",
+              code: "js/ctx.vars.loginResult.code",
+              message: "js/ctx.vars.loginResult.message",
+              statusCode: "js/ctx.vars.loginResult.statusCode",
+            },
           },
         })
         .build(),
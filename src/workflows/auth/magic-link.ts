@@ -0,0 +1,189 @@
+import { AddElse, AddIf, type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * Magic Link Login Workflow
+ *
+ * Passwordless alternative to auth-login:
+ * - request: set the browser nonce cookie and email a single-use sign-in link
+ *   (same answer whether or not the address has an account); limited per
+ *   address by the rate-limiter node on top of the per-IP trigger limit. The
+ *   link always points at APP_URL
+ * - verify (public, /magic-link page): exchange the link's token for a session,
+ *   or a 2FA challenge for auth-2fa-verify, in the browser that requested it
+ *
+ * Endpoint: POST /api/magic-link
+ * Body: { action: "request", email, siteName? } | { action: "verify", token }
+ */
+const step: Step = Workflow({
+  name: "Magic Link Login API",
+  version: "1.0.0",
+  description: "Sign in with a single-use link emailed to the account's address",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+  rateLimit: {
+    windowMs: 900000, // 15 minutes
+    maxRequests: 30,
+    keyBy: "ip",
+  },
+})
+.addCondition({
+  node: {
+    name: "action-router",
+    node: "@nanoservice-ts/if-else",
+    type: "module",
+  },
+  conditions: () => {
+    return [
+      new AddIf('ctx.request.body.action === "request"')
+        .addStep({
+          name: "check-email-rate-limit",
+          node: "rate-limiter",
+          type: "module",
+          inputs: {
+            identifier: "js/`magic-link:${String(ctx.request.body.email || '').trim().toLowerCase()}`",
+            windowMs: 900000, // 15 minutes
+            maxRequests: 3,
+          },
+        })
+        .addStep({
+          name: "enforce-email-rate-limit",
+          node: "@nanoservice-ts/if-else",
+          type: "module",
+          inputs: {
+            conditions: [
+              {
+                type: "if",
+                condition: "ctx.vars.isRateLimited === true",
+                steps: [
+                  {
+                    name: "email-rate-limited",
+                    node: "error",
+                    type: "module",
+                    inputs: {
+                      message: "js/`Too many sign-in links requested for this address. Try again in ${ctx.vars.rateLimitInfo.retryAfter} seconds`",
+                      statusCode: 429,
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        })
+        .addStep({
+          name: "request-magic-link",
+          node: "magic-link-manager",
+          type: "module",
+          inputs: {
+            action: "request",
+            email: "js/ctx.request.body.email",
+          },
+        })
+        .addStep({
+          name: "send-magic-link",
+          node: "@nanoservice-ts/if-else",
+          type: "module",
+          inputs: {
+            conditions: [
+              {
+                type: "if",
+                condition: "ctx.vars.magicLink !== undefined",
+                steps: [
+                  {
+                    name: "create-magic-link-email",
+                    node: "email-templates",
+                    type: "module",
+                    inputs: {
+                      template: "magicLink",
+                      data: {
+                        userName: "js/ctx.vars.magicLink.userName",
+                        signInUrl: "js/ctx.vars.magicLink.url",
+                        siteName: "js/ctx.request.body.siteName || 'Blok Admin'",
+                        expirationMinutes: "js/ctx.vars.magicLink.expirationMinutes",
+                        ipAddress: "js/ctx.request.ip || 'Unknown'",
+                      },
+                      format: "both",
+                    },
+                  },
+                  {
+                    name: "send-magic-link-email",
+                    node: "email-service-manager",
+                    type: "module",
+                    inputs: {
+                      operation: "send",
+                      email: {
+                        to: "js/ctx.vars.magicLink.email",
+                        subject: "js/ctx.vars.emailTemplate.subject",
+                        html: "js/ctx.vars.emailTemplate.html",
+                        text: "js/ctx.vars.emailTemplate.text",
+                      },
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        })
+        .addStep({
+          name: "return-request-result",
+          node: "mapper",
+          type: "module",
+          inputs: {
+            model: {
+              success: "js/ctx.vars.magicLinkResult.success",
+              message: "js/ctx.vars.magicLinkResult.message",
+              statusCode: "js/ctx.vars.magicLinkResult.statusCode",
+            },
+          },
+        })
+        .build(),
+
+      new AddIf('ctx.request.body.action === "verify"')
+        .addStep({
+          name: "verify-magic-link",
+          node: "magic-link-manager",
+          type: "module",
+          inputs: {
+            action: "verify",
+            token: "js/ctx.request.body.token",
+            cookies: "js/ctx.request.cookies || {}",
+          },
+        })
+        .addStep({
+          name: "return-verify-result",
+          node: "mapper",
+          type: "module",
+          inputs: {
+            model: {
+              success: "js/ctx.vars.magicLinkResult.success",
+              user: "js/ctx.vars.magicLinkResult.user",
+              session: "js/ctx.vars.magicLinkResult.session",
+              twoFactorRequired: "js/ctx.vars.magicLinkResult.twoFactorRequired",
+              challengeToken: "js/ctx.vars.magicLinkResult.challengeToken",
+              challengeExpiresAt: "js/ctx.vars.magicLinkResult.challengeExpiresAt",
+              retryAfter: "js/ctx.vars.magicLinkResult.retryAfter",
+              message: "js/ctx.vars.magicLinkResult.message",
+              statusCode: "js/ctx.vars.magicLinkResult.statusCode",
+            },
+          },
+        })
+        .build(),
+
+      new AddElse()
+        .addStep({
+          name: "invalid-action",
+          node: "error",
+          type: "module",
+          inputs: {
+            message: "Invalid request. Supported actions: request, verify",
+            statusCode: 400,
+          },
+        })
+        .build(),
+    ];
+  },
+});
+
+export default step;
@@ -0,0 +1,54 @@
+import { type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * OpenID Connect Sign-In Workflow
+ *
+ * "Sign in with…" for the providers in OIDC_PROVIDERS (authorization code flow
+ * with PKCE):
+ * - providers (public): configured providers for the login page buttons
+ * - authorize (public; signed in with link: true to connect a provider):
+ *   returns the provider URL and keeps the pending sign-in in a cookie
+ * - callback (public, /oauth-callback page): exchanges the code for a session,
+ *   a 2FA challenge for auth-2fa-verify, or connects the provider
+ * - accounts / unlink (signed in): the user's connected accounts
+ *
+ * The callback URL to register with providers is OIDC_REDIRECT_URI, or
+ * {baseUrl}/oauth-callback.
+ *
+ * Endpoint: POST /api/oauth
+ * Body: { action: "providers" } | { action: "authorize", provider, link?, baseUrl? }
+ *     | { action: "callback", code, state } | { action: "accounts" } | { action: "unlink", accountId }
+ */
+const step: Step = Workflow({
+  name: "OpenID Connect Sign-In API",
+  version: "1.0.0",
+  description: "Sign in with external OpenID Connect providers and manage connected accounts",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+  auth: "optional",
+  rateLimit: {
+    windowMs: 900000, // 15 minutes
+    maxRequests: 60,
+    keyBy: "ip",
+  },
+})
+.addStep({
+  name: "oauth",
+  node: "oauth-manager",
+  type: "module",
+  inputs: {
+    action: "js/ctx.request.body.action",
+    provider: "js/ctx.request.body.provider",
+    link: "js/ctx.request.body.link === true",
+    baseUrl: "js/ctx.request.body.baseUrl || 'http://localhost:4000'",
+    code: "js/ctx.request.body.code",
+    state: "js/ctx.request.body.state",
+    cookies: "js/ctx.request.cookies || {}",
+    accountId: "js/ctx.request.body.accountId",
+  },
+});
+
+export default step;
@@ -0,0 +1,40 @@
+import { type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * Organizations Workflow
+ *
+ * Backs the organization switcher in the Sidebar:
+ * - list: organizations the user belongs to, with their role in each
+ * - switch: make another organization active for this session
+ * - create: create an organization with the user as its administrator
+ *
+ * Users, notifications and logs shown elsewhere are scoped to the active organization.
+ *
+ * Endpoint: POST /api/organizations
+ * Required: User authentication
+ * Body: { action: "list" | "switch" | "create", organizationId?, name?, slug? }
+ */
+const step: Step = Workflow({
+  name: "Organizations API",
+  version: "1.0.0",
+  description: "List, switch and create the current user's organizations",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+  auth: "required",
+})
+.addStep({
+  name: "manage-organizations",
+  node: "organization-manager",
+  type: "module",
+  inputs: {
+    action: "js/['list', 'switch', 'create'].includes(ctx.request.body.action) ? ctx.request.body.action : 'list'",
+    organizationId: "js/ctx.request.body.organizationId",
+    name: "js/ctx.request.body.name",
+    slug: "js/ctx.request.body.slug",
+  },
+});
+
+export default step;
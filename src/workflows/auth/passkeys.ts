@@ -0,0 +1,51 @@
+import { type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * Passkeys Workflow
+ *
+ * WebAuthn registration and authentication ceremonies. Each ceremony is two
+ * calls: fetch options for navigator.credentials.create()/get(), then post the
+ * browser's credential back.
+ * - registerOptions / register (signed in): add a passkey to the account
+ * - list / rename / remove (signed in): manage the account's passkeys
+ * - loginOptions / login (public): passwordless sign-in; returns a session,
+ *   or a 2FA challenge when the authenticator did not verify the user
+ * - secondFactorOptions (public): options for answering a pending 2FA
+ *   challenge with a passkey; the assertion goes to auth-2fa-verify
+ *
+ * Endpoint: POST /api/passkeys
+ * Body: { action: "registerOptions" } | { action: "register", credential, name? }
+ *     | { action: "list" } | { action: "rename", passkeyId, name } | { action: "remove", passkeyId }
+ *     | { action: "loginOptions" } | { action: "login", credential }
+ *     | { action: "secondFactorOptions", challengeToken }
+ */
+const step: Step = Workflow({
+  name: "Passkeys API",
+  version: "1.0.0",
+  description: "Register, manage and sign in with WebAuthn passkeys",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+  auth: "optional",
+  rateLimit: {
+    windowMs: 900000, // 15 minutes
+    maxRequests: 60,
+    keyBy: "ip",
+  },
+})
+.addStep({
+  name: "passkeys",
+  node: "passkey-manager",
+  type: "module",
+  inputs: {
+    action: "js/ctx.request.body.action",
+    credential: "js/ctx.request.body.credential",
+    name: "js/ctx.request.body.name",
+    passkeyId: "js/ctx.request.body.passkeyId",
+    challengeToken: "js/ctx.request.body.challengeToken",
+  },
+});
+
+export default step;
@@ -0,0 +1,38 @@
+import { type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * Session Refresh Workflow
+ *
+ * Exchanges the rotating refresh token cookie for a new session once the
+ * previous one has expired. Each refresh token works once; replaying a used
+ * token revokes every session of that login.
+ *
+ * Endpoint: POST /api/auth-refresh
+ * No body required - uses the blok_refresh_token cookie
+ * Requires SESSION_REFRESH_TOKENS=true
+ */
+const step: Step = Workflow({
+  name: "Session Refresh API",
+  version: "1.0.0",
+  description: "Rotate the refresh token and issue a new session",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+  rateLimit: {
+    windowMs: 60000,
+    maxRequests: 30,
+    keyBy: "ip",
+  },
+})
+.addStep({
+  name: "refresh-session",
+  node: "session-refresh",
+  type: "module",
+  inputs: {
+    cookies: "js/ctx.request.cookies",
+  },
+});
+
+export default step;
@@ -1,5 +1,15 @@
 import { AddElse, AddIf, type Step, Workflow } from "@nanoservice-ts/helper";
 
+/**
+ * User Registration Workflow
+ *
+ * Creates the account and emails a verification link to the new address.
+ * Whether unverified users can sign in is decided by EMAIL_VERIFICATION_POLICY
+ * (see src/nodes/auth/email-verification-policy.ts).
+ *
+ * Endpoint: POST /api/auth-register
+ * Body: { email, password, name, siteName? }
+ */
 const step: Step = Workflow({
   name: "User Registration API",
   version: "1.0.0",
@@ -9,19 +19,7 @@ const step: Step = Workflow({
   method: "POST",
   path: "/",
   accept: "application/json",
-})
-.addStep({
-  name: "check-auth",
-  node: "authentication-checker",
-  type: "module",
-  inputs: {
-    requireAuth: false, // Allow both authenticated and anonymous registration
-    requestMethod: "js/ctx.request.method",
-    requestPath: "js/ctx.request.path",
-    headers: "js/ctx.request.headers || {}",
-    cookies: "js/ctx.request.cookies || {}",
-    sessionDurationHours: 1,
-  },
+  auth: "optional", // Anonymous sign-up; a signed-in caller is attributed in the logs
 })
 .addStep({
   name: "log-request-start",
@@ -57,12 +55,68 @@ const step: Step = Workflow({
             role: "js/ctx.request.body.role || 'user'",
           },
         })
+        .addStep({
+          name: "send-verification",
+          node: "@nanoservice-ts/if-else",
+          type: "module",
+          inputs: {
+            conditions: [
+              {
+                type: "if",
+                condition: "ctx.vars.newUser !== undefined && ctx.vars.newUser.emailVerified !== true",
+                steps: [
+                  {
+                    name: "generate-verification-token",
+                    node: "email-verification",
+                    type: "module",
+                    inputs: {
+                      operation: "generate",
+                      purpose: "verify-email",
+                      userId: "js/ctx.vars.newUser.id",
+                      email: "js/ctx.vars.newUser.email",
+                      expirationHours: 24,
+                    },
+                  },
+                  {
+                    name: "create-verification-email",
+                    node: "email-templates",
+                    type: "module",
+                    inputs: {
+                      template: "verification",
+                      data: {
+                        userName: "js/ctx.vars.newUser.name",
+                        verificationUrl: "js/ctx.vars.verificationToken.url",
+                        siteName: "js/ctx.request.body.siteName || 'Blok Admin'",
+                        expirationHours: "js/ctx.vars.verificationToken.expirationHours || 24",
+                      },
+                      format: "both",
+                    },
+                  },
+                  {
+                    name: "send-verification-email",
+                    node: "email-service-manager",
+                    type: "module",
+                    inputs: {
+                      operation: "send",
+                      email: {
+                        to: "js/ctx.vars.newUser.email",
+                        subject: "js/ctx.vars.emailTemplate.subject",
+                        html: "js/ctx.vars.emailTemplate.html",
+                        text: "js/ctx.vars.emailTemplate.text",
+                      },
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        })
         .addStep({
           name: "create-welcome-notification",
           node: "create-notification",
           type: "module",
           inputs: {
-            userId: "js/ctx.response?.data?.user?.id",
+            userId: "js/ctx.vars.newUser?.id",
             title: "Welcome to Blok Admin!",
             message: "js/`Welcome ${ctx.request.body.name}! Your account has been created successfully. Explore the dashboard to get started with managing your profile and accessing all features.`",
             type: "success",
@@ -83,7 +137,7 @@ const step: Step = Workflow({
             workflowName: "user-register",
             actionType: "CREATE",
             resourceType: "user",
-            resourceId: "js/ctx.response?.data?.user?.id",
+            resourceId: "js/ctx.vars.newUser?.id",
             resourceName: "js/ctx.request.body.email",
             riskLevel: "high",
             userId: "js/ctx.vars?.currentUser?.id || 'system'",
@@ -92,12 +146,25 @@ const step: Step = Workflow({
             userRole: "js/ctx.vars?.currentUser?.role || 'system'",
             httpMethod: "POST",
             endpoint: "/api/auth-register",
-            success: "js/ctx.response?.success !== false",
-            statusCode: "js/ctx.response?.success !== false ? 200 : 400",
-            ipAddress: "js/ctx.request.headers['x-forwarded-for'] || ctx.request.connection?.remoteAddress || 'unknown'",
+            success: "js/ctx.vars.registerResult?.success !== false",
+            statusCode: "js/ctx.vars.registerResult?.statusCode || 400",
+            ipAddress: "js/ctx.request.ip || 'unknown'",
             userAgent: "js/ctx.request.headers['user-agent']",
             requestBody: "js/ctx.request.body",
-            responseData: "js/ctx.response?.data",
+            responseData: "js/ctx.vars.registerResult",
+          },
+        })
+        .addStep({
+          name: "return-register-result",
+          node: "mapper",
+          type: "module",
+          inputs: {
+            model: {
+              success: "js/ctx.vars.registerResult.success",
+              user: "js/ctx.vars.registerResult.user",
+              message: "js/ctx.vars.registerResult.success ? `Account created. We sent a verification link to ${ctx.vars.newUser.email}.` : ctx.vars.registerResult.message",
+              statusCode: "js/ctx.vars.registerResult.statusCode",
+            },
           },
         })
         .build(),
@@ -0,0 +1,36 @@
+import { type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * Two-Factor Login Verification Workflow
+ *
+ * Second step of the login flow for users with 2FA enabled. `auth-login`
+ * answers the password step with `twoFactorRequired` and a short-lived
+ * `challengeToken`; this workflow exchanges it plus a TOTP or backup code
+ * for the session cookie. Users with passkeys can instead send an assertion
+ * for the options from the passkeys `secondFactorOptions` action.
+ *
+ * Endpoint: POST /api/auth-2fa-verify
+ * Body: { challengeToken: string, code: string } | { challengeToken: string, assertion: object }
+ */
+const step: Step = Workflow({
+  name: "Two-Factor Login Verification API",
+  version: "1.0.0",
+  description: "Complete a pending login with a TOTP code, backup code or passkey",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+})
+.addStep({
+  name: "verify-second-factor",
+  node: "two-factor-login",
+  type: "module",
+  inputs: {
+    challengeToken: "js/ctx.request.body.challengeToken",
+    code: "js/ctx.request.body.code",
+    assertion: "js/ctx.request.body.assertion",
+  },
+});
+
+export default step;
@@ -1,4 +1,4 @@
-import { AddElse, AddIf, type Step, Workflow } from "@nanoservice-ts/helper";
+import { type Step, Workflow } from "@nanoservice-ts/helper";
 
 /**
  * Session Verification Workflow
@@ -18,62 +18,23 @@ const step: Step = Workflow({
   method: "GET",
   path: "/",
   accept: "application/json",
+  auth: "required",
 })
 .addStep({
-  name: "check-auth",
-  node: "authentication-checker",
+  name: "return-user-data",
+  node: "mapper",
   type: "module",
   inputs: {
-    requireAuth: true,
-    requestMethod: "js/ctx.request.method",
-    requestPath: "js/ctx.request.path",
-    headers: "js/ctx.request.headers || {}",
-    cookies: "js/ctx.request.cookies || {}",
-    sessionDurationHours: 1,
-  },
-})
-.addCondition({
-  node: {
-    name: "auth-result-handler",
-    node: "@nanoservice-ts/if-else",
-    type: "module",
-  },
-  conditions: () => {
-    return [
-      // If authenticated, return user data
-      new AddIf('ctx.vars.isAuthenticated === true')
-        .addStep({
-          name: "return-user-data",
-          node: "mapper",
-          type: "module",
-          inputs: {
-            model: {
-              success: true,
-              user: "js/ctx.vars.currentUser",
-              session: {
-                id: "js/ctx.vars.currentSession.id",
-                expiresAt: "js/ctx.vars.currentSession.expiresAt",
-              },
-              message: "Session valid",
-              statusCode: 200
-            }
-          },
-        })
-        .build(),
-      
-      // If not authenticated, return 401
-      new AddElse()
-        .addStep({
-          name: "unauthorized",
-          node: "error",
-          type: "module",
-          inputs: {
-            message: "js/ctx.vars.authResult?.message || 'Session invalid or expired'",
-            statusCode: "js/ctx.vars.authResult?.statusCode || 401",
-          },
-        })
-        .build(),
-    ];
+    model: {
+      success: true,
+      user: "js/ctx.vars.currentUser",
+      session: {
+        id: "js/ctx.vars.currentSession.id",
+        expiresAt: "js/ctx.vars.currentSession.expiresAt",
+      },
+      message: "Session valid",
+      statusCode: 200
+    }
   },
 });
 
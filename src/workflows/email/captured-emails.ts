@@ -0,0 +1,126 @@
+import { AddElse, AddIf, type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * Captured Emails Workflow
+ *
+ * Admin-only browser for mail written by the "capture" email provider
+ * (EMAIL_PROVIDER=capture). Used to follow verification and password reset
+ * links end to end in local development and CI.
+ *
+ * Endpoint: GET/POST/DELETE /api/captured-emails
+ * Required: emails:read permission
+ *
+ * Query Parameters (GET):
+ * - id: Return a single message with decoded text/html bodies, links and raw .eml
+ * - to: Only list messages sent to this address
+ * - limit: Maximum number of messages to list
+ *
+ * Body Parameters (POST):
+ * - action: 'list' | 'get' | 'clear'
+ * - id, to, limit: Same as the GET query parameters
+ *
+ * DELETE clears every captured message.
+ */
+const step: Step = Workflow({
+  name: "Captured Emails",
+  version: "1.0.0",
+  description: "Browse and clear mail captured by the local capture email provider",
+})
+.addTrigger("http", {
+  method: "ANY",
+  path: "/",
+  accept: "application/json",
+  auth: "required",
+  permissions: ["emails:read"],
+})
+.addCondition({
+  node: {
+    name: "request-router",
+    node: "@nanoservice-ts/if-else",
+    type: "module",
+  },
+  conditions: () => {
+    return [
+      // Admin GET request for a single message
+      new AddIf('ctx.request.method.toLowerCase() === "get" && ctx.request.query.id')
+        .addStep({
+          name: "get-captured-email-get",
+          node: "email-service-manager",
+          type: "module",
+          inputs: {
+            operation: "getCaptured",
+            captureId: "js/ctx.request.query.id",
+          },
+        })
+        .build(),
+
+      // Admin GET request - list messages
+      new AddIf('ctx.request.method.toLowerCase() === "get"')
+        .addStep({
+          name: "list-captured-emails-get",
+          node: "email-service-manager",
+          type: "module",
+          inputs: {
+            operation: "listCaptured",
+            to: "js/ctx.request.query.to",
+            limit: "js/parseInt(ctx.request.query.limit) || undefined",
+          },
+        })
+        .build(),
+
+      // Admin POST request with get action
+      new AddIf('ctx.request.method.toLowerCase() === "post" && ctx.request.body.action === "get"')
+        .addStep({
+          name: "get-captured-email-post",
+          node: "email-service-manager",
+          type: "module",
+          inputs: {
+            operation: "getCaptured",
+            captureId: "js/ctx.request.body.id",
+          },
+        })
+        .build(),
+
+      // Admin POST request with list action
+      new AddIf('ctx.request.method.toLowerCase() === "post" && (ctx.request.body.action === "list" || !ctx.request.body.action)')
+        .addStep({
+          name: "list-captured-emails-post",
+          node: "email-service-manager",
+          type: "module",
+          inputs: {
+            operation: "listCaptured",
+            to: "js/ctx.request.body.to",
+            limit: "js/ctx.request.body.limit",
+          },
+        })
+        .build(),
+
+      // Admin POST clear action or DELETE request
+      new AddIf('(ctx.request.method.toLowerCase() === "post" && ctx.request.body.action === "clear") || ctx.request.method.toLowerCase() === "delete"')
+        .addStep({
+          name: "clear-captured-emails",
+          node: "email-service-manager",
+          type: "module",
+          inputs: {
+            operation: "clearCaptured",
+          },
+        })
+        .build(),
+
+      // Invalid action or method
+      new AddElse()
+        .addStep({
+          name: "invalid-request",
+          node: "error",
+          type: "module",
+          inputs: {
+            message: "js/'Invalid request. Supported: GET (list or ?id=), POST with action list/get/clear, DELETE'",
+            statusCode: "js/400",
+          },
+        })
+        .build(),
+    ];
+  },
+});
+
+export default step;
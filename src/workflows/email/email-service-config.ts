@@ -5,6 +5,9 @@ import { AddElse, AddIf, type Step, Workflow } from "@nanoservice-ts/helper";
  * 
  * Handles email service provider configuration and testing.
  * Supports GET (retrieve config) and POST (update config) operations.
+ *
+ * Endpoint: GET/POST/PUT /api/email-service-config
+ * Required: email-service:manage permission
  */
 const step: Step = Workflow({
   name: "EmailServiceConfig",
@@ -15,6 +18,8 @@ const step: Step = Workflow({
   method: "ANY",
   path: "/",
   accept: "application/json",
+  auth: "required",
+  permissions: ["email-service:manage"],
 })
 .addCondition({
   node: {
@@ -38,19 +43,6 @@ const step: Step = Workflow({
 
       // Handle POST requests - configure or test email service
       new AddIf('ctx.request.method.toLowerCase() === "post"')
-        .addStep({
-          name: "check-admin-auth",
-          node: "authentication-checker",
-          type: "module",
-          inputs: {
-            requireAuth: true,
-            requiredRole: "admin",
-            requestMethod: "js/ctx.request.method",
-            requestPath: "js/ctx.request.path",
-            headers: "js/ctx.request.headers",
-            cookies: "js/ctx.request.cookies",
-          },
-        })
         .addStep({
           name: "determine-operation",
           node: "@nanoservice-ts/if-else",
@@ -92,19 +84,6 @@ const step: Step = Workflow({
 
       // Handle PUT requests - update specific configuration
       new AddIf('ctx.request.method.toLowerCase() === "put"')
-        .addStep({
-          name: "check-admin-auth-put",
-          node: "authentication-checker",
-          type: "module",
-          inputs: {
-            requireAuth: true,
-            requiredRole: "admin",
-            requestMethod: "js/ctx.request.method",
-            requestPath: "js/ctx.request.path",
-            headers: "js/ctx.request.headers",
-            cookies: "js/ctx.request.cookies",
-          },
-        })
         .addStep({
           name: "update-email-config",
           node: "email-service-manager",
@@ -5,6 +5,12 @@ import { AddElse, AddIf, type Step, Workflow } from "@nanoservice-ts/helper";
  * 
  * Handles email verification token generation, verification, and resending.
  * Integrates with email templates and service manager for sending verification emails.
+ *
+ * `request` is the public resend used by the Login page and the verification
+ * banner: it takes only an email address and answers the same way whether or
+ * not an unverified account exists for it. `resend` sends a new link to the
+ * signed-in user's own address. Tokens are only ever issued for the address
+ * stored on the account, never for a user id or address taken from the body.
  */
 const step: Step = Workflow({
   name: "EmailVerification",
@@ -15,6 +21,11 @@ const step: Step = Workflow({
   method: "ANY",
   path: "/",
   accept: "application/json",
+  rateLimit: {
+    windowMs: 900000, // 15 minutes
+    maxRequests: 20,
+    keyBy: "ip",
+  },
 })
 .addCondition({
   node: {
@@ -24,59 +35,6 @@ const step: Step = Workflow({
   },
   conditions: () => {
     return [
-      // Handle POST requests - generate verification token and send email
-      new AddIf('ctx.request.method.toLowerCase() === "post" && ctx.request.body.operation === "send"')
-        .addStep({
-          name: "validate-user-data",
-          node: "input-sanitizer",
-          type: "module",
-          inputs: {
-            data: "js/ctx.request.body",
-            fields: ["userId", "email", "userName"],
-          },
-        })
-        .addStep({
-          name: "generate-verification-token",
-          node: "email-verification",
-          type: "module",
-          inputs: {
-            operation: "generate",
-            userId: "js/ctx.request.body.userId",
-            email: "js/ctx.request.body.email",
-            expirationHours: "js/ctx.request.body.expirationHours || 24",
-          },
-        })
-        .addStep({
-          name: "create-verification-email",
-          node: "email-templates",
-          type: "module",
-          inputs: {
-            template: "verification",
-            data: {
-              userName: "js/ctx.request.body.userName",
-              verificationUrl: "js/`${ctx.request.body.baseUrl || 'http://localhost:4000'}/verify-email?token=${ctx.vars.verificationToken.token}`",
-              siteName: "js/ctx.request.body.siteName || 'Blok Admin'",
-              expirationHours: "js/ctx.vars.verificationToken.expirationHours || 24",
-            },
-            format: "both",
-          },
-        })
-        .addStep({
-          name: "send-verification-email",
-          node: "email-service-manager",
-          type: "module",
-          inputs: {
-            operation: "send",
-            email: {
-              to: "js/ctx.request.body.email",
-              subject: "js/ctx.vars.emailTemplate.subject",
-              html: "js/ctx.vars.emailTemplate.html",
-              text: "js/ctx.vars.emailTemplate.text",
-            },
-          },
-        })
-        .build(),
-
       // Handle POST requests - verify token
       new AddIf('ctx.request.method.toLowerCase() === "post" && ctx.request.body.operation === "verify"')
         .addStep({
@@ -85,6 +43,7 @@ const step: Step = Workflow({
           type: "module",
           inputs: {
             operation: "verify",
+            purpose: "verify-email",
             token: "js/ctx.request.body.token",
           },
         })
@@ -104,71 +63,221 @@ const step: Step = Workflow({
                     type: "module",
                     inputs: {
                       id: "js/ctx.vars.verificationResult.userId",
-                      updates: {
-                        emailVerified: true,
-                        verifiedAt: "js/new Date().toISOString()",
+                      emailVerified: true,
+                    },
+                  },
+                  {
+                    name: "return-verified",
+                    node: "mapper",
+                    type: "module",
+                    inputs: {
+                      model: {
+                        success: true,
+                        message: "Your email address is verified. You can now sign in.",
+                        email: "js/ctx.vars.verificationResult.email",
                       },
                     },
                   },
                 ],
               },
+              {
+                type: "else",
+                steps: [
+                  {
+                    name: "invalid-verification-token",
+                    node: "error",
+                    type: "module",
+                    inputs: {
+                      message: "This verification link is invalid or has expired",
+                      statusCode: 400,
+                    },
+                  },
+                ],
+              },
             ],
           },
         })
         .build(),
 
-      // Handle POST requests - resend verification
-      new AddIf('ctx.request.method.toLowerCase() === "post" && ctx.request.body.operation === "resend"')
+      // Handle POST requests - resend the verification email by address (no session needed)
+      new AddIf('ctx.request.method.toLowerCase() === "post" && ctx.request.body.operation === "request"')
         .addStep({
-          name: "check-user-auth",
-          node: "authentication-checker",
+          name: "find-user-to-verify",
+          node: "user-find",
           type: "module",
           inputs: {
-            requireAuth: true,
-            requestMethod: "js/ctx.request.method",
-            requestPath: "js/ctx.request.path",
-            headers: "js/ctx.request.headers",
-            cookies: "js/ctx.request.cookies",
+            email: "js/String(ctx.request.body.email || '').trim().toLowerCase()",
           },
         })
         .addStep({
-          name: "resend-verification",
-          node: "email-verification",
+          name: "send-requested-verification",
+          node: "@nanoservice-ts/if-else",
           type: "module",
           inputs: {
-            operation: "resend",
-            userId: "js/ctx.request.body.userId",
-            email: "js/ctx.request.body.email",
-            expirationHours: "js/ctx.request.body.expirationHours || 24",
+            conditions: [
+              {
+                type: "if",
+                condition: "ctx.vars.userFindResult?.success === true && ctx.vars.foundUser.emailVerified !== true",
+                steps: [
+                  {
+                    name: "generate-requested-token",
+                    node: "email-verification",
+                    type: "module",
+                    inputs: {
+                      operation: "generate",
+                      purpose: "verify-email",
+                      userId: "js/ctx.vars.foundUser.id",
+                      email: "js/ctx.vars.foundUser.email",
+                      expirationHours: 24,
+                    },
+                  },
+                  {
+                    name: "create-requested-email",
+                    node: "email-templates",
+                    type: "module",
+                    inputs: {
+                      template: "verification",
+                      data: {
+                        userName: "js/ctx.vars.foundUser.name",
+                        verificationUrl: "js/ctx.vars.verificationToken.url",
+                        siteName: "js/ctx.request.body.siteName || 'Blok Admin'",
+                        expirationHours: "js/ctx.vars.verificationToken.expirationHours || 24",
+                      },
+                      format: "both",
+                    },
+                  },
+                  {
+                    name: "send-requested-email",
+                    node: "email-service-manager",
+                    type: "module",
+                    inputs: {
+                      operation: "send",
+                      email: {
+                        to: "js/ctx.vars.foundUser.email",
+                        subject: "js/ctx.vars.emailTemplate.subject",
+                        html: "js/ctx.vars.emailTemplate.html",
+                        text: "js/ctx.vars.emailTemplate.text",
+                      },
+                    },
+                  },
+                ],
+              },
+            ],
           },
         })
         .addStep({
-          name: "create-resend-email",
-          node: "email-templates",
+          name: "return-request-result",
+          node: "mapper",
           type: "module",
           inputs: {
-            template: "verification",
-            data: {
-              userName: "js/ctx.request.body.userName",
-              verificationUrl: "js/`${ctx.request.body.baseUrl || 'http://localhost:4000'}/verify-email?token=${ctx.vars.resendResult.token}`",
-              siteName: "js/ctx.request.body.siteName || 'Blok Admin'",
-              expirationHours: "js/ctx.vars.resendResult.expirationHours || 24",
+            model: {
+              success: true,
+              message: "If that address belongs to an account that still needs verifying, we sent it a new verification link.",
             },
-            format: "both",
           },
         })
+        .build(),
+
+      // Handle POST requests - resend verification to the signed-in user's own address
+      new AddIf('ctx.request.method.toLowerCase() === "post" && ctx.request.body.operation === "resend"')
         .addStep({
-          name: "send-resend-email",
-          node: "email-service-manager",
+          name: "check-user-auth",
+          node: "authentication-checker",
           type: "module",
           inputs: {
-            operation: "send",
-            email: {
-              to: "js/ctx.request.body.email",
-              subject: "js/ctx.vars.emailTemplate.subject",
-              html: "js/ctx.vars.emailTemplate.html",
-              text: "js/ctx.vars.emailTemplate.text",
-            },
+            requireAuth: true,
+            requestMethod: "js/ctx.request.method",
+            requestPath: "js/ctx.request.path",
+            headers: "js/ctx.request.headers",
+            cookies: "js/ctx.request.cookies",
+          },
+        })
+        .addStep({
+          name: "resend-to-current-user",
+          node: "@nanoservice-ts/if-else",
+          type: "module",
+          inputs: {
+            conditions: [
+              {
+                type: "if",
+                condition: "ctx.vars.isAuthenticated !== true",
+                steps: [
+                  {
+                    name: "resend-auth-required",
+                    node: "error",
+                    type: "module",
+                    inputs: {
+                      message: "Authentication required",
+                      statusCode: 401,
+                    },
+                  },
+                ],
+              },
+              {
+                type: "if",
+                condition: "ctx.vars.currentUser.emailVerified === true",
+                steps: [
+                  {
+                    name: "return-already-verified",
+                    node: "mapper",
+                    type: "module",
+                    inputs: {
+                      model: {
+                        success: true,
+                        message: "Your email address is already verified.",
+                        email: "js/ctx.vars.currentUser.email",
+                      },
+                    },
+                  },
+                ],
+              },
+              {
+                type: "else",
+                steps: [
+                  {
+                    name: "resend-verification",
+                    node: "email-verification",
+                    type: "module",
+                    inputs: {
+                      operation: "resend",
+                      purpose: "verify-email",
+                      userId: "js/ctx.vars.currentUser.id",
+                      email: "js/ctx.vars.currentUser.email",
+                      expirationHours: 24,
+                    },
+                  },
+                  {
+                    name: "create-resend-email",
+                    node: "email-templates",
+                    type: "module",
+                    inputs: {
+                      template: "verification",
+                      data: {
+                        userName: "js/ctx.vars.currentUser.name",
+                        verificationUrl: "js/ctx.vars.resendResult.url",
+                        siteName: "js/ctx.request.body.siteName || 'Blok Admin'",
+                        expirationHours: "js/ctx.vars.resendResult.expirationHours || 24",
+                      },
+                      format: "both",
+                    },
+                  },
+                  {
+                    name: "send-resend-email",
+                    node: "email-service-manager",
+                    type: "module",
+                    inputs: {
+                      operation: "send",
+                      email: {
+                        to: "js/ctx.vars.currentUser.email",
+                        subject: "js/ctx.vars.emailTemplate.subject",
+                        html: "js/ctx.vars.emailTemplate.html",
+                        text: "js/ctx.vars.emailTemplate.text",
+                      },
+                    },
+                  },
+                ],
+              },
+            ],
           },
         })
         .build(),
@@ -181,6 +290,7 @@ const step: Step = Workflow({
           type: "module",
           inputs: {
             operation: "verify",
+            purpose: "verify-email",
             token: "js/ctx.request.query.token",
           },
         })
@@ -200,10 +310,7 @@ const step: Step = Workflow({
                     type: "module",
                     inputs: {
                       id: "js/ctx.vars.verificationResult.userId",
-                      updates: {
-                        emailVerified: true,
-                        verifiedAt: "js/new Date().toISOString()",
-                      },
+                      emailVerified: true,
                     },
                   },
                   {
@@ -249,7 +356,7 @@ const step: Step = Workflow({
           node: "error",
           type: "module",
           inputs: {
-            message: "Invalid request. Supported operations: send, verify, resend",
+            message: "Invalid request. Supported operations: verify, request, resend",
             statusCode: 400,
           },
         })
@@ -5,6 +5,12 @@ import { AddElse, AddIf, type Step, Workflow } from "@nanoservice-ts/helper";
  * 
  * Handles password reset requests and processing.
  * Sends password reset emails using the email service infrastructure.
+ *
+ * New passwords from "reset" and "change" are rejected when they are within
+ * the user's PASSWORD_HISTORY_DEPTH, and "change" is what users whose password
+ * is older than PASSWORD_MAX_AGE_DAYS are sent to (see auth/passwords.ts).
+ * Both also require the password-validator to accept the new password
+ * (`ctx.vars.isValidPassword`) and answer with its errors otherwise.
  */
 const step: Step = Workflow({
   name: "PasswordReset",
@@ -15,6 +21,11 @@ const step: Step = Workflow({
   method: "ANY",
   path: "/",
   accept: "application/json",
+  rateLimit: {
+    windowMs: 900000, // 15 minutes
+    maxRequests: 20,
+    keyBy: "ip",
+  },
 })
 .addCondition({
   node: {
@@ -39,8 +50,7 @@ const step: Step = Workflow({
           node: "user-find",
           type: "module",
           inputs: {
-            field: "email",
-            value: "js/ctx.request.body.email",
+            email: "js/ctx.request.body.email",
           },
         })
         .addStep({
@@ -51,7 +61,7 @@ const step: Step = Workflow({
             conditions: [
               {
                 type: "if",
-                condition: "ctx.vars.user !== null",
+                condition: "ctx.vars.userFindResult?.success === true",
                 steps: [
                   {
                     name: "generate-reset-token",
@@ -59,8 +69,9 @@ const step: Step = Workflow({
                     type: "module",
                     inputs: {
                       operation: "generate",
-                      userId: "js/ctx.vars.user.id",
-                      email: "js/ctx.vars.user.email",
+                      purpose: "password-reset",
+                      userId: "js/ctx.vars.foundUser.id",
+                      email: "js/ctx.vars.foundUser.email",
                       expirationHours: 1, // Password reset tokens expire in 1 hour
                     },
                   },
@@ -71,8 +82,8 @@ const step: Step = Workflow({
                     inputs: {
                       template: "passwordReset",
                       data: {
-                        userName: "js/ctx.vars.user.name",
-                        resetUrl: "js/`${ctx.request.body.baseUrl || 'http://localhost:4000'}/reset-password?token=${ctx.vars.verificationToken.token}`",
+                        userName: "js/ctx.vars.foundUser.name",
+                        resetUrl: "js/ctx.vars.verificationToken.url",
                         siteName: "js/ctx.request.body.siteName || 'Blok Admin'",
                         expirationMinutes: 60,
                       },
@@ -86,7 +97,7 @@ const step: Step = Workflow({
                     inputs: {
                       operation: "send",
                       email: {
-                        to: "js/ctx.vars.user.email",
+                        to: "js/ctx.vars.foundUser.email",
                         subject: "js/ctx.vars.emailTemplate.subject",
                         html: "js/ctx.vars.emailTemplate.html",
                         text: "js/ctx.vars.emailTemplate.text",
@@ -123,12 +134,38 @@ const step: Step = Workflow({
             requireNumbers: true,
           },
         })
+        .addStep({
+          // Rejected before the token is redeemed, so the link can be used again
+          name: "check-new-password",
+          node: "@nanoservice-ts/if-else",
+          type: "module",
+          inputs: {
+            conditions: [
+              {
+                type: "if",
+                condition: "ctx.vars.isValidPassword !== true",
+                steps: [
+                  {
+                    name: "weak-reset-password",
+                    node: "error",
+                    type: "module",
+                    inputs: {
+                      message: "js/ctx.vars.passwordValidation?.errors?.join('. ') || 'Password does not meet the requirements'",
+                      statusCode: 400,
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        })
         .addStep({
           name: "verify-reset-token",
           node: "email-verification",
           type: "module",
           inputs: {
             operation: "verify",
+            purpose: "password-reset",
             token: "js/ctx.request.body.token",
           },
         })
@@ -140,7 +177,7 @@ const step: Step = Workflow({
             conditions: [
               {
                 type: "if",
-                condition: "ctx.vars.verificationResult.valid === true",
+                condition: "ctx.vars.verificationResult.valid === true && ctx.vars.isValidPassword === true",
                 steps: [
                   {
                     name: "hash-new-password",
@@ -148,6 +185,7 @@ const step: Step = Workflow({
                     type: "module",
                     inputs: {
                       password: "js/ctx.request.body.newPassword",
+                      userId: "js/ctx.vars.verificationResult.userId",
                     },
                   },
                   {
@@ -156,10 +194,7 @@ const step: Step = Workflow({
                     type: "module",
                     inputs: {
                       id: "js/ctx.vars.verificationResult.userId",
-                      updates: {
-                        password: "js/ctx.vars.hashedPassword",
-                        passwordChangedAt: "js/new Date().toISOString()",
-                      },
+                      passwordHash: "js/ctx.vars.hashedPassword",
                     },
                   },
                   {
@@ -167,8 +202,7 @@ const step: Step = Workflow({
                     node: "user-find",
                     type: "module",
                     inputs: {
-                      field: "id",
-                      value: "js/ctx.vars.verificationResult.userId",
+                      id: "js/ctx.vars.verificationResult.userId",
                     },
                   },
                   {
@@ -178,10 +212,10 @@ const step: Step = Workflow({
                     inputs: {
                       template: "passwordChanged",
                       data: {
-                        userName: "js/ctx.vars.user.name",
+                        userName: "js/ctx.vars.foundUser.name",
                         siteName: "Blok Admin",
                         changeTime: "js/new Date().toLocaleString()",
-                        ipAddress: "js/ctx.request.headers['x-forwarded-for'] || ctx.request.headers['x-real-ip'] || 'Unknown'",
+                        ipAddress: "js/ctx.request.ip || 'Unknown'",
                         supportEmail: "support@example.com",
                       },
                       format: "both",
@@ -194,7 +228,7 @@ const step: Step = Workflow({
                     inputs: {
                       operation: "send",
                       email: {
-                        to: "js/ctx.vars.user.email",
+                        to: "js/ctx.vars.foundUser.email",
                         subject: "js/ctx.vars.emailTemplate.subject",
                         html: "js/ctx.vars.emailTemplate.html",
                         text: "js/ctx.vars.emailTemplate.text",
@@ -223,13 +257,15 @@ const step: Step = Workflow({
         .build(),
 
       // Handle GET requests - validate reset token (for form display)
+      // Uses "validate" so the token is still usable when the form is submitted
       new AddIf('ctx.request.method.toLowerCase() === "get" && ctx.request.query.token')
         .addStep({
           name: "validate-token-get",
           node: "email-verification",
           type: "module",
           inputs: {
-            operation: "verify",
+            operation: "validate",
+            purpose: "password-reset",
             token: "js/ctx.request.query.token",
           },
         })
@@ -249,13 +285,22 @@ const step: Step = Workflow({
             cookies: "js/ctx.request.cookies",
           },
         })
+        .addStep({
+          name: "find-current-user",
+          node: "user-find",
+          type: "module",
+          inputs: {
+            id: "js/ctx.vars.currentUser.id",
+            includePassword: true,
+          },
+        })
         .addStep({
           name: "validate-current-password",
           node: "password-verify",
           type: "module",
           inputs: {
             password: "js/ctx.request.body.currentPassword",
-            hashedPassword: "js/ctx.vars.user.password",
+            hashedPassword: "js/ctx.vars.foundUser.password",
           },
         })
         .addStep({
@@ -278,7 +323,7 @@ const step: Step = Workflow({
             conditions: [
               {
                 type: "if",
-                condition: "ctx.vars.passwordValid === true",
+                condition: "ctx.vars.passwordValid === true && ctx.vars.isValidPassword === true",
                 steps: [
                   {
                     name: "hash-updated-password",
@@ -286,6 +331,7 @@ const step: Step = Workflow({
                     type: "module",
                     inputs: {
                       password: "js/ctx.request.body.newPassword",
+                      userId: "js/ctx.vars.currentUser.id",
                     },
                   },
                   {
@@ -293,11 +339,8 @@ const step: Step = Workflow({
                     node: "user-update",
                     type: "module",
                     inputs: {
-                      id: "js/ctx.vars.user.id",
-                      updates: {
-                        password: "js/ctx.vars.hashedPassword",
-                        passwordChangedAt: "js/new Date().toISOString()",
-                      },
+                      id: "js/ctx.vars.currentUser.id",
+                      passwordHash: "js/ctx.vars.hashedPassword",
                     },
                   },
                   {
@@ -307,10 +350,10 @@ const step: Step = Workflow({
                     inputs: {
                       template: "passwordChanged",
                       data: {
-                        userName: "js/ctx.vars.user.name",
+                        userName: "js/ctx.vars.currentUser.name",
                         siteName: "Blok Admin",
                         changeTime: "js/new Date().toLocaleString()",
-                        ipAddress: "js/ctx.request.headers['x-forwarded-for'] || ctx.request.headers['x-real-ip'] || 'Unknown'",
+                        ipAddress: "js/ctx.request.ip || 'Unknown'",
                         supportEmail: "support@example.com",
                       },
                       format: "both",
@@ -323,7 +366,7 @@ const step: Step = Workflow({
                     inputs: {
                       operation: "send",
                       email: {
-                        to: "js/ctx.vars.user.email",
+                        to: "js/ctx.vars.currentUser.email",
                         subject: "js/ctx.vars.emailTemplate.subject",
                         html: "js/ctx.vars.emailTemplate.html",
                         text: "js/ctx.vars.emailTemplate.text",
@@ -333,7 +376,8 @@ const step: Step = Workflow({
                 ],
               },
               {
-                type: "else",
+                type: "if",
+                condition: "ctx.vars.passwordValid !== true",
                 steps: [
                   {
                     name: "invalid-current-password",
@@ -346,6 +390,20 @@ const step: Step = Workflow({
                   },
                 ],
               },
+              {
+                type: "else",
+                steps: [
+                  {
+                    name: "weak-new-password",
+                    node: "error",
+                    type: "module",
+                    inputs: {
+                      message: "js/ctx.vars.passwordValidation?.errors?.join('. ') || 'Password does not meet the requirements'",
+                      statusCode: 400,
+                    },
+                  },
+                ],
+              },
             ],
           },
         })
@@ -9,18 +9,7 @@ const step: Step = Workflow({
   method: "ANY",
   path: "/",
   accept: "application/json",
-})
-.addStep({
-  name: "check-auth",
-  node: "authentication-checker",
-  type: "module",
-  inputs: {
-    requireAuth: false, // Allow both authenticated and unauthenticated access
-    requestMethod: "js/ctx.request.method",
-    requestPath: "js/ctx.request.path",
-    headers: "js/ctx.request.headers",
-    cookies: "js/ctx.request.cookies",
-  },
+  auth: "optional", // Allow both authenticated and unauthenticated access
 })
 .addStep({
   name: "discover-workflows",
@@ -0,0 +1,330 @@
+import { AddElse, AddIf, type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * Email Change Workflow
+ *
+ * Self-service email change with re-verification:
+ * - request (signed in): check the current password, email a confirmation link
+ *   to the new address and a heads-up to the current one
+ * - confirm (public, /email-change page): switch to the new address and email
+ *   the previous one a link to undo the change
+ * - undo (public, /email-change?undo=1): restore the previous address and sign
+ *   the account out everywhere
+ *
+ * Endpoint: POST /api/email-change
+ * Body: { action: "request", newEmail, currentPassword, siteName? }
+ *     | { action: "confirm" | "undo", token, siteName? }
+ */
+const step: Step = Workflow({
+  name: "Email Change API",
+  version: "1.0.0",
+  description: "Change the account's email address after confirming the new one, with an undo link for the old one",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+  auth: "optional",
+  rateLimit: {
+    windowMs: 900000, // 15 minutes
+    maxRequests: 20,
+    keyBy: "ip",
+  },
+})
+.addCondition({
+  node: {
+    name: "action-router",
+    node: "@nanoservice-ts/if-else",
+    type: "module",
+  },
+  conditions: () => {
+    return [
+      new AddIf('ctx.request.body.action === "request"')
+        .addStep({
+          name: "request-email-change",
+          node: "email-change-manager",
+          type: "module",
+          inputs: {
+            action: "request",
+            newEmail: "js/ctx.request.body.newEmail",
+            currentPassword: "js/ctx.request.body.currentPassword",
+          },
+        })
+        .addStep({
+          name: "generate-confirmation-token",
+          node: "email-verification",
+          type: "module",
+          inputs: {
+            operation: "generate",
+            purpose: "change-email",
+            userId: "js/ctx.vars.emailChange.userId",
+            email: "js/ctx.vars.emailChange.newEmail",
+            expirationHours: "js/ctx.vars.emailChange.confirmHours",
+          },
+        })
+        .addStep({
+          name: "create-confirmation-email",
+          node: "email-templates",
+          type: "module",
+          inputs: {
+            template: "emailChangeConfirmation",
+            data: {
+              userName: "js/ctx.vars.emailChange.userName",
+              newEmail: "js/ctx.vars.emailChange.newEmail",
+              confirmUrl: "js/ctx.vars.verificationToken.url",
+              siteName: "js/ctx.request.body.siteName || 'Blok Admin'",
+              expirationHours: "js/ctx.vars.emailChange.confirmHours",
+            },
+            format: "both",
+          },
+        })
+        .addStep({
+          name: "send-confirmation-email",
+          node: "email-service-manager",
+          type: "module",
+          inputs: {
+            operation: "send",
+            email: {
+              to: "js/ctx.vars.emailChange.newEmail",
+              subject: "js/ctx.vars.emailTemplate.subject",
+              html: "js/ctx.vars.emailTemplate.html",
+              text: "js/ctx.vars.emailTemplate.text",
+            },
+          },
+        })
+        .addStep({
+          name: "create-request-notice",
+          node: "email-templates",
+          type: "module",
+          inputs: {
+            template: "emailChangeRequested",
+            data: {
+              userName: "js/ctx.vars.emailChange.userName",
+              newEmail: "js/ctx.vars.emailChange.newEmail",
+              siteName: "js/ctx.request.body.siteName || 'Blok Admin'",
+              requestTime: "js/new Date().toLocaleString()",
+              ipAddress: "js/ctx.request.ip || 'Unknown'",
+              supportEmail: "support@example.com",
+            },
+            format: "both",
+          },
+        })
+        .addStep({
+          name: "send-request-notice",
+          node: "email-service-manager",
+          type: "module",
+          inputs: {
+            operation: "send",
+            email: {
+              to: "js/ctx.vars.emailChange.previousEmail",
+              subject: "js/ctx.vars.emailTemplate.subject",
+              html: "js/ctx.vars.emailTemplate.html",
+              text: "js/ctx.vars.emailTemplate.text",
+            },
+          },
+        })
+        .addStep({
+          name: "return-request-result",
+          node: "mapper",
+          type: "module",
+          inputs: {
+            model: {
+              success: "js/ctx.vars.emailChangeResult.success",
+              message: "js/ctx.vars.emailChangeResult.message",
+              email: "js/ctx.vars.emailChangeResult.email",
+              pendingEmail: "js/ctx.vars.emailChangeResult.pendingEmail",
+            },
+          },
+        })
+        .build(),
+
+      new AddIf('ctx.request.body.action === "confirm"')
+        .addStep({
+          name: "verify-confirmation-token",
+          node: "email-verification",
+          type: "module",
+          inputs: {
+            operation: "verify",
+            purpose: "change-email",
+            token: "js/ctx.request.body.token",
+          },
+        })
+        .addStep({
+          name: "apply-email-change",
+          node: "@nanoservice-ts/if-else",
+          type: "module",
+          inputs: {
+            conditions: [
+              {
+                type: "if",
+                condition: "ctx.vars.verificationResult.valid === true",
+                steps: [
+                  {
+                    name: "confirm-email-change",
+                    node: "email-change-manager",
+                    type: "module",
+                    inputs: {
+                      action: "confirm",
+                      userId: "js/ctx.vars.verificationResult.userId",
+                      email: "js/ctx.vars.verificationResult.email",
+                    },
+                  },
+                  {
+                    name: "generate-undo-token",
+                    node: "email-verification",
+                    type: "module",
+                    inputs: {
+                      operation: "generate",
+                      purpose: "revert-email-change",
+                      userId: "js/ctx.vars.emailChange.userId",
+                      email: "js/ctx.vars.emailChange.previousEmail",
+                      expirationHours: "js/ctx.vars.emailChange.undoHours",
+                    },
+                  },
+                  {
+                    name: "create-changed-notice",
+                    node: "email-templates",
+                    type: "module",
+                    inputs: {
+                      template: "emailChanged",
+                      data: {
+                        userName: "js/ctx.vars.emailChange.userName",
+                        newEmail: "js/ctx.vars.emailChange.newEmail",
+                        undoUrl: "js/ctx.vars.verificationToken.url",
+                        siteName: "js/ctx.request.body.siteName || 'Blok Admin'",
+                        changeTime: "js/new Date().toLocaleString()",
+                        expirationHours: "js/ctx.vars.emailChange.undoHours",
+                        supportEmail: "support@example.com",
+                      },
+                      format: "both",
+                    },
+                  },
+                  {
+                    name: "send-changed-notice",
+                    node: "email-service-manager",
+                    type: "module",
+                    inputs: {
+                      operation: "send",
+                      email: {
+                        to: "js/ctx.vars.emailChange.previousEmail",
+                        subject: "js/ctx.vars.emailTemplate.subject",
+                        html: "js/ctx.vars.emailTemplate.html",
+                        text: "js/ctx.vars.emailTemplate.text",
+                      },
+                    },
+                  },
+                ],
+              },
+              {
+                type: "else",
+                steps: [
+                  {
+                    name: "invalid-confirmation-token",
+                    node: "error",
+                    type: "module",
+                    inputs: {
+                      message: "This confirmation link is invalid or has expired",
+                      statusCode: 400,
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        })
+        .addStep({
+          name: "return-confirm-result",
+          node: "mapper",
+          type: "module",
+          inputs: {
+            model: {
+              success: "js/ctx.vars.emailChangeResult.success",
+              message: "js/ctx.vars.emailChangeResult.message",
+              email: "js/ctx.vars.emailChangeResult.email",
+              pendingEmail: "js/ctx.vars.emailChangeResult.pendingEmail",
+            },
+          },
+        })
+        .build(),
+
+      new AddIf('ctx.request.body.action === "undo"')
+        .addStep({
+          name: "verify-undo-token",
+          node: "email-verification",
+          type: "module",
+          inputs: {
+            operation: "verify",
+            purpose: "revert-email-change",
+            token: "js/ctx.request.body.token",
+          },
+        })
+        .addStep({
+          name: "apply-email-change-undo",
+          node: "@nanoservice-ts/if-else",
+          type: "module",
+          inputs: {
+            conditions: [
+              {
+                type: "if",
+                condition: "ctx.vars.verificationResult.valid === true",
+                steps: [
+                  {
+                    name: "undo-email-change",
+                    node: "email-change-manager",
+                    type: "module",
+                    inputs: {
+                      action: "undo",
+                      userId: "js/ctx.vars.verificationResult.userId",
+                      email: "js/ctx.vars.verificationResult.email",
+                    },
+                  },
+                ],
+              },
+              {
+                type: "else",
+                steps: [
+                  {
+                    name: "invalid-undo-token",
+                    node: "error",
+                    type: "module",
+                    inputs: {
+                      message: "This undo link is invalid or has expired",
+                      statusCode: 400,
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        })
+        .addStep({
+          name: "return-undo-result",
+          node: "mapper",
+          type: "module",
+          inputs: {
+            model: {
+              success: "js/ctx.vars.emailChangeResult.success",
+              message: "js/ctx.vars.emailChangeResult.message",
+              email: "js/ctx.vars.emailChangeResult.email",
+              pendingEmail: "js/ctx.vars.emailChangeResult.pendingEmail",
+            },
+          },
+        })
+        .build(),
+
+      new AddElse()
+        .addStep({
+          name: "invalid-action",
+          node: "error",
+          type: "module",
+          inputs: {
+            message: "Invalid request. Supported actions: request, confirm, undo",
+            statusCode: 400,
+          },
+        })
+        .build(),
+    ];
+  },
+});
+
+export default step;
@@ -1,4 +1,4 @@
-import { AddElse, AddIf, type Step, Workflow } from "@nanoservice-ts/helper";
+import { type Step, Workflow } from "@nanoservice-ts/helper";
 
 /**
  * Profile Image Upload Workflow
@@ -21,51 +21,16 @@ const step: Step = Workflow({
   method: "POST",
   path: "/",
   accept: "application/json",
+  auth: "required",
 })
-.addCondition({
-  node: {
-    name: "auth-check",
-    node: "authentication-checker",
-    type: "module",
-    inputs: {
-      requireAuth: true,
-      requestMethod: "js/ctx.request.method",
-      requestPath: "js/ctx.request.path",
-      headers: "js/ctx.request.headers",
-      cookies: "js/ctx.request.cookies",
-    },
-  },
-  conditions: () => {
-    return [
-      // Authenticated users can upload profile images
-      new AddIf('ctx.vars.isAuthenticated === true')
-        .addStep({
-          name: "upload-image",
-          node: "profile-image-upload",
-          type: "module",
-          inputs: {
-            base64: "js/ctx.request.body.base64",
-            userId: "js/ctx.vars.currentUser.id",
-            oldImagePath: "js/ctx.request.body.oldImagePath",
-          },
-        })
-        .build(),
-      // Unauthorized response
-      new AddElse()
-        .addStep({
-          name: "unauthorized-response",
-          node: "@nanoservice-ts/api-call",
-          type: "module",
-          inputs: {
-            url: "data:application/json;base64,eyJzdWNjZXNzIjpmYWxzZSwibWVzc2FnZSI6IlVuYXV0aG9yaXplZC4gUGxlYXNlIGxvZyBpbi4iLCJzdGF0dXNDb2RlIjo0MDF9",
-            method: "GET",
-            headers: {
-              "Content-Type": "application/json",
-            },
-          },
-        })
-        .build(),
-    ];
+.addStep({
+  name: "upload-image",
+  node: "profile-image-upload",
+  type: "module",
+  inputs: {
+    base64: "js/ctx.request.body.base64",
+    userId: "js/ctx.vars.currentUser.id",
+    oldImagePath: "js/ctx.request.body.oldImagePath",
   },
 });
 
@@ -1,4 +1,4 @@
-import { AddElse, AddIf, type Step, Workflow } from "@nanoservice-ts/helper";
+import { type Step, Workflow } from "@nanoservice-ts/helper";
 
 /**
  * Theme Preferences Update Workflow
@@ -21,55 +21,16 @@ const step: Step = Workflow({
   method: "ANY", // Accept both PUT and POST for flexibility
   path: "/",
   accept: "application/json",
+  auth: "required",
 })
 .addStep({
-  name: "check-auth",
-  node: "authentication-checker",
+  name: "update-theme-preferences",
+  node: "theme-preference-update",
   type: "module",
   inputs: {
-    requireAuth: true,
-    requestMethod: "js/ctx.request.method",
-    requestPath: "js/ctx.request.path",
-    headers: "js/ctx.request.headers || {}",
-    cookies: "js/ctx.request.cookies || {}",
-    sessionDurationHours: 1,
-  },
-})
-.addCondition({
-  node: {
-    name: "auth-result-handler",
-    node: "@nanoservice-ts/if-else",
-    type: "module",
-  },
-  conditions: () => {
-    return [
-      // If authenticated, update theme preferences
-      new AddIf('ctx.vars.isAuthenticated === true')
-        .addStep({
-          name: "update-theme-preferences",
-          node: "theme-preference-update",
-          type: "module",
-          inputs: {
-            userId: "js/ctx.vars.currentUser.id",
-            themeId: "js/ctx.request.body.themeId",
-            themeMode: "js/ctx.request.body.themeMode",
-          },
-        })
-        .build(),
-      
-      // If not authenticated, return 401
-      new AddElse()
-        .addStep({
-          name: "unauthorized",
-          node: "error",
-          type: "module",
-          inputs: {
-            message: "js/ctx.vars.authResult?.message || 'Authentication required'",
-            statusCode: "js/ctx.vars.authResult?.statusCode || 401",
-          },
-        })
-        .build(),
-    ];
+    userId: "js/ctx.vars.currentUser.id",
+    themeId: "js/ctx.request.body.themeId",
+    themeMode: "js/ctx.request.body.themeMode",
   },
 });
 
@@ -0,0 +1,39 @@
+import { type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * API Keys Workflow
+ *
+ * Lets users manage personal API keys for scripts and service-to-service calls:
+ * - list: keys with status, scopes and last use
+ * - create: returns the plaintext key once
+ * - revoke: disables a key immediately
+ *
+ * Endpoint: POST /api/api-keys
+ * Required: User authentication
+ * Body: { action: "list" | "create" | "revoke", name?, scopes?, expiresInDays?, keyId? }
+ */
+const step: Step = Workflow({
+  name: "API Keys API",
+  version: "1.0.0",
+  description: "List, create and revoke personal API keys",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+  auth: "required",
+})
+.addStep({
+  name: "manage-api-keys",
+  node: "api-key-manager",
+  type: "module",
+  inputs: {
+    action: "js/ctx.request.body.action || 'list'",
+    name: "js/ctx.request.body.name",
+    scopes: "js/ctx.request.body.scopes",
+    expiresInDays: "js/ctx.request.body.expiresInDays ?? null",
+    keyId: "js/ctx.request.body.keyId",
+  },
+});
+
+export default step;
@@ -1,4 +1,4 @@
-import { AddElse, AddIf, type Step, Workflow } from "@nanoservice-ts/helper";
+import { type Step, Workflow } from "@nanoservice-ts/helper";
 
 /**
  * Audit Logs Workflow
@@ -9,7 +9,7 @@ import { AddElse, AddIf, type Step, Workflow } from "@nanoservice-ts/helper";
  * - Security event monitoring
  * 
  * Endpoint: GET/POST /api/audit-logs
- * Required: Admin authentication
+ * Required: audit:read permission
  * Query/Body: { action?: string, limit?: number, offset?: number, filters... }
  */
 const step: Step = Workflow({
@@ -21,55 +21,17 @@ const step: Step = Workflow({
   method: "ANY",
   path: "/",
   accept: "application/json",
+  auth: "required",
+  permissions: ["audit:read"],
 })
 .addStep({
-  name: "check-auth",
-  node: "authentication-checker",
+  name: "query-audit-logs",
+  node: "audit-logger",
   type: "module",
   inputs: {
-    requireAuth: true,
-    requestMethod: "js/ctx.request.method",
-    requestPath: "js/ctx.request.path", 
-    headers: "js/ctx.request.headers || {}",
-    cookies: "js/ctx.request.cookies || {}",
-    sessionDurationHours: 1,
-  },
-})
-.addCondition({
-  node: {
-    name: "auth-result-handler",
-    node: "@nanoservice-ts/if-else",
-    type: "module",
-  },
-  conditions: () => {
-    return [
-      // Only admins can access audit logs
-      new AddIf('ctx.vars.isAuthenticated === true && ctx.vars.currentUser.role === "ADMIN"')
-        .addStep({
-          name: "query-audit-logs",
-          node: "audit-logger",
-          type: "module",
-          inputs: {
-            action: "js/'getRecentActivity'",
-            limit: "js/20",
-            offset: "js/0",
-          },
-        })
-        .build(),
-      
-      // Unauthorized response for non-admin or unauthenticated users
-      new AddElse()
-        .addStep({
-          name: "unauthorized-response",
-          node: "error",
-          type: "module",
-          inputs: {
-            message: "js/'Unauthorized. Admin access required.'",
-            statusCode: "js/401",
-          },
-        })
-        .build(),
-    ];
+    action: "js/'getRecentActivity'",
+    limit: "js/20",
+    offset: "js/0",
   },
 });
 
@@ -15,9 +15,11 @@ const step: Step = Workflow({
   node: "rate-limiter",
   type: "module",
   inputs: {
-    identifier: "js/ctx.request.headers['x-forwarded-for'] || ctx.request.ip || 'unknown'",
+    identifier: "js/ctx.request.ip || 'unknown'",
     windowMs: "js/ctx.request.body?.windowMs || 60000", // 1 minute
     maxRequests: "js/ctx.request.body?.maxRequests || 10", // 10 requests per minute
+    algorithm: "js/ctx.request.body?.algorithm",
+    store: "js/ctx.request.body?.store",
   },
 })
 .addCondition({
@@ -44,7 +46,7 @@ const step: Step = Workflow({
                 requestInfo: {
                   method: "js/ctx.request.method",
                   path: "js/ctx.request.path",
-                  ip: "js/ctx.request.headers['x-forwarded-for'] || ctx.request.ip || 'unknown'"
+                  ip: "js/ctx.request.ip || 'unknown'"
                 }
               }
             }
@@ -0,0 +1,36 @@
+import { type Step, Workflow } from "@nanoservice-ts/helper";
+
+/**
+ * User Sessions Workflow
+ *
+ * Lets users see where they are signed in and end sessions they don't recognize:
+ * - list: active sessions with device, IP and last activity
+ * - revoke: sign out one other session
+ * - revoke-others: sign out everywhere except the current browser
+ *
+ * Endpoint: POST /api/user-sessions
+ * Required: User authentication
+ * Body: { action: "list" | "revoke" | "revoke-others", sessionId? }
+ */
+const step: Step = Workflow({
+  name: "User Sessions API",
+  version: "1.0.0",
+  description: "List and revoke the current user's active sessions",
+})
+.addTrigger("http", {
+  method: "POST",
+  path: "/",
+  accept: "application/json",
+  auth: "required",
+})
+.addStep({
+  name: "manage-sessions",
+  node: "session-manager",
+  type: "module",
+  inputs: {
+    action: "js/['list', 'revoke', 'revoke-others'].includes(ctx.request.body.action) ? ctx.request.body.action : 'list'",
+    sessionId: "js/ctx.request.body.sessionId",
+  },
+});
+
+export default step;
@@ -18,6 +18,7 @@ const step: Step = Workflow({
     email: "js/ctx.request.body.email",
     checkDomain: "js/ctx.request.body.checkDomain !== false",
     allowDisposable: "js/ctx.request.body.allowDisposable === true",
+    checkMx: "js/ctx.request.body.checkMx",
   },
 });
 